@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { format, subDays, startOfMonth, endOfMonth } from 'date-fns';
 import {
   BarChart,
@@ -443,7 +444,7 @@ export function AccountingDashboard({
               <div className="flex items-center justify-between">
                 <span className="text-2xl font-bold">${financialSummary.totalPayables.toLocaleString()}</span>
                 <Badge variant="outline">
-                  {Math.round(financialSummary.totalPayables / 1000) || 0} bills
+                  {financialSummary.openBills || 0} bills
                 </Badge>
               </div>
               
@@ -453,26 +454,30 @@ export function AccountingDashboard({
                     <CheckCircle className="h-4 w-4 text-green-500" />
                     <span>Not due yet</span>
                   </div>
-                  <span className="font-medium">${(financialSummary.totalPayables * 0.6).toLocaleString()}</span>
+                  <span className="font-medium">${(financialSummary.payablesAging?.current || 0).toLocaleString()}</span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
                     <Clock className="h-4 w-4 text-yellow-500" />
-                    <span>Due this week</span>
+                    <span>1-30 days overdue</span>
                   </div>
-                  <span className="font-medium">${(financialSummary.totalPayables * 0.3).toLocaleString()}</span>
+                  <span className="font-medium">${(financialSummary.payablesAging?.days1to30 || 0).toLocaleString()}</span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
                     <AlertCircle className="h-4 w-4 text-red-500" />
-                    <span>Overdue</span>
+                    <span>Over 30 days overdue</span>
                   </div>
-                  <span className="font-medium">${(financialSummary.totalPayables * 0.1).toLocaleString()}</span>
+                  <span className="font-medium">
+                    ${(financialSummary.payablesAging
+                      ? financialSummary.payablesAging.days31to60 + financialSummary.payablesAging.days61to90 + financialSummary.payablesAging.over90
+                      : 0).toLocaleString()}
+                  </span>
                 </div>
               </div>
               
-              <Button variant="outline" className="w-full">
-                Schedule Payments
+              <Button variant="outline" className="w-full" asChild>
+                <Link to="/bills">Schedule Payments</Link>
               </Button>
             </div>
           </CardContent>
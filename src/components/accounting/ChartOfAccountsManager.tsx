@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { TEMPLATE_PACKS, chartOfAccountsService } from '@/services/chartOfAccountsService';
+import { ChartTemplatePack, EnhancedAccount } from '@/types/payment';
+
+const accountLabel = (account: EnhancedAccount) =>
+  `${account.accountNumber ? `${account.accountNumber} · ` : ''}${account.name}`;
+
+const ChartOfAccountsManager: React.FC = () => {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<EnhancedAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pack, setPack] = useState<ChartTemplatePack>('nz_sole_trader');
+  const [installing, setInstalling] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [mergeSource, setMergeSource] = useState<EnhancedAccount | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  const loadChart = useCallback(async () => {
+    try {
+      setLoading(true);
+      setAccounts(await chartOfAccountsService.getChart());
+    } catch (error) {
+      console.error('Error loading chart of accounts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load chart of accounts',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadChart();
+  }, [loadChart]);
+
+  const tree = useMemo(() => chartOfAccountsService.buildAccountTree(accounts), [accounts]);
+  const accountsById = useMemo(() => new Map(accounts.map(account => [account.id, account])), [accounts]);
+
+  const handleInstall = async () => {
+    setInstalling(true);
+    try {
+      const result = await chartOfAccountsService.installTemplatePack(pack);
+      toast({
+        title: 'Chart of accounts updated',
+        description: result.installed > 0
+          ? `${result.installed} accounts added from the ${TEMPLATE_PACKS[pack].label} pack${result.skipped > 0 ? `; ${result.skipped} already in your chart were left as they are` : ''}.`
+          : `Every account in the ${TEMPLATE_PACKS[pack].label} pack is already in your chart.`
+      });
+      await loadChart();
+    } catch (error) {
+      toast({
+        title: 'Could not install accounts',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setInstalling(false);
+    }
+  };
+
+  const handleToggleActive = async (account: EnhancedAccount) => {
+    setUpdatingId(account.id);
+    try {
+      await chartOfAccountsService.setAccountActive(account.id, !account.isActive);
+      setAccounts(prev => prev.map(candidate => candidate.id === account.id ? { ...candidate, isActive: !account.isActive } : candidate));
+    } catch (error) {
+      toast({
+        title: `Could not ${account.isActive ? 'deactivate' : 'reactivate'} account`,
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const mergeTargets = mergeSource
+    ? accounts
+        .filter(account => !chartOfAccountsService.validateMerge(mergeSource, account, accounts))
+        .sort((a, b) => (a.accountNumber || '').localeCompare(b.accountNumber || '', undefined, { numeric: true }))
+    : [];
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+    setMerging(true);
+    try {
+      await chartOfAccountsService.mergeAccounts(mergeSource.id, mergeTargetId);
+      toast({
+        title: 'Accounts merged',
+        description: `${mergeSource.name} now reports under ${accountsById.get(mergeTargetId)?.name}. Its posted history is kept.`
+      });
+      setMergeSource(null);
+      await loadChart();
+    } catch (error) {
+      toast({
+        title: 'Could not merge accounts',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderAccount = (account: EnhancedAccount, depth: number): React.ReactNode => (
+    <React.Fragment key={account.id}>
+      <div className="flex items-center justify-between gap-4 border-b py-2 last:border-b-0">
+        <div className="flex min-w-0 items-center gap-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+          <span className={account.isActive ? 'truncate' : 'truncate text-muted-foreground'}>{accountLabel(account)}</span>
+          {account.accountClass && <Badge variant="outline">{account.accountClass}</Badge>}
+          {account.normalBalance && <span className="text-xs text-muted-foreground">{account.normalBalance === 'debit' ? 'Dr' : 'Cr'}</span>}
+          {account.mergedIntoAccountId ? (
+            <Badge variant="secondary">Merged into {accountsById.get(account.mergedIntoAccountId)?.name || 'another account'}</Badge>
+          ) : !account.isActive && (
+            <Badge variant="secondary">Inactive</Badge>
+          )}
+        </div>
+        {!account.mergedIntoAccountId && (
+          <div className="flex shrink-0 gap-2">
+            {account.isActive && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setMergeSource(account);
+                  setMergeTargetId('');
+                }}
+              >
+                Merge
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => handleToggleActive(account)} disabled={updatingId === account.id}>
+              {updatingId === account.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {account.isActive ? 'Deactivate' : 'Reactivate'}
+            </Button>
+          </div>
+        )}
+      </div>
+      {(account.childAccounts || []).map(child => renderAccount(child, depth + 1))}
+    </React.Fragment>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Install a Template Pack</CardTitle>
+          <CardDescription>
+            Adds numbered accounts with their classes, normal balances and sub-accounts. Accounts already in your chart with the same number are left as they are.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4 md:flex-row md:items-end">
+          <div className="space-y-1 md:w-72">
+            <Label>Template pack</Label>
+            <Select value={pack} onValueChange={(value) => setPack(value as ChartTemplatePack)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TEMPLATE_PACKS) as ChartTemplatePack[]).map(key => (
+                  <SelectItem key={key} value={key}>{TEMPLATE_PACKS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{TEMPLATE_PACKS[pack].description}</p>
+          </div>
+          <Button onClick={handleInstall} disabled={installing}>
+            {installing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Install Accounts
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chart of Accounts</CardTitle>
+          <CardDescription>
+            Deactivated and merged accounts keep their posted history. Merged accounts report under the account they were merged into.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : tree.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No accounts yet. Install a template pack to get started.</p>
+          ) : (
+            <div>{tree.map(account => renderAccount(account, 0))}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!mergeSource} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {mergeSource && accountLabel(mergeSource)}</DialogTitle>
+            <DialogDescription>
+              The account is deactivated and its sub-accounts and posting settings move to the account you choose. Transactions already posted stay where they are and report under the new account.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger><SelectValue placeholder="Choose an account" /></SelectTrigger>
+              <SelectContent>
+                {mergeTargets.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{accountLabel(account)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)} disabled={merging}>Cancel</Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId || merging}>
+              {merging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge Accounts
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ChartOfAccountsManager;
@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { periodLockService } from '@/services/periodLockService';
+import { PeriodLockSettings } from '@/types/periodLock';
+
+// NZ financial years end on 31 March; default to the most recent one
+const lastYearEnd = () => {
+  const now = new Date();
+  return `${now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1}-03-31`;
+};
+
+const PeriodLockManager: React.FC = () => {
+  const { toast } = useToast();
+  const [saved, setSaved] = useState<PeriodLockSettings>({ lockDate: null });
+  const [settings, setSettings] = useState<PeriodLockSettings>({ lockDate: null });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [yearEndDate, setYearEndDate] = useState(lastYearEnd);
+  const [lockAfterClose, setLockAfterClose] = useState(true);
+  const [confirmClose, setConfirmClose] = useState(false);
+  const [closing, setClosing] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const current = await periodLockService.getSettings();
+      setSaved(current);
+      setSettings(current);
+    } catch (error) {
+      console.error('Error loading period locks:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the lock date',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const updated = await periodLockService.saveSettings(settings);
+      setSaved(updated);
+      setSettings(updated);
+      toast({ title: 'Lock date saved' });
+    } catch (error) {
+      toast({
+        title: 'Could not save the lock date',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async () => {
+    setClosing(true);
+    try {
+      const result = await periodLockService.closeFinancialYear(yearEndDate, { lockPeriod: lockAfterClose });
+      toast({
+        title: 'Year closed',
+        description: `${result.accountsClosed} accounts closed to retained earnings with a ${result.netProfit >= 0 ? 'profit' : 'loss'} of ${Math.abs(result.netProfit).toFixed(2)}.`
+      });
+      if (lockAfterClose) {
+        await loadSettings();
+      }
+    } catch (error) {
+      toast({
+        title: 'Could not close the year',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setClosing(false);
+      setConfirmClose(false);
+    }
+  };
+
+  const unchanged = settings.lockDate === saved.lockDate;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Lock Date</CardTitle>
+          <CardDescription>
+            Invoices, expenses, payments and journal entries dated on or before the lock date can't be created, changed or deleted. Lock a period once its GST return has been filed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {saved.lockDate && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Lock className="h-4 w-4" />
+              You can't change transactions dated on or before {format(parseISO(saved.lockDate), 'dd MMM yyyy')}.
+            </div>
+          )}
+          <div className="max-w-xs space-y-1">
+            <Label htmlFor="lock-date">Lock date</Label>
+            <Input
+              id="lock-date"
+              type="date"
+              value={settings.lockDate || ''}
+              onChange={(event) => setSettings({ lockDate: event.target.value || null })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Move this date back only to correct a period you haven't filed yet.
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={saving || unchanged}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Lock Date
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Year-End Close</CardTitle>
+          <CardDescription>
+            Posts a closing journal that moves revenue and expense balances into Retained Earnings (3100) at the year end.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs space-y-1">
+            <Label htmlFor="year-end-date">Financial year end</Label>
+            <Input id="year-end-date" type="date" value={yearEndDate} onChange={(event) => setYearEndDate(event.target.value)} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="lock-after-close" checked={lockAfterClose} onCheckedChange={(checked) => setLockAfterClose(checked === true)} />
+            <Label htmlFor="lock-after-close" className="font-normal">Lock the year once it is closed</Label>
+          </div>
+          <Button variant="outline" onClick={() => setConfirmClose(true)} disabled={!yearEndDate || closing}>
+            Close Year
+          </Button>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmClose} onOpenChange={setConfirmClose}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close the year to {yearEndDate && format(parseISO(yearEndDate), 'dd MMM yyyy')}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Revenue and expense balances up to this date will be moved into retained earnings with a posted journal entry.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={closing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                handleClose();
+              }}
+              disabled={closing}
+            >
+              {closing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Year
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default PeriodLockManager;
@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/context/StableAuthContext';
+import { POSTING_ROLES, postingService } from '@/services/postingService';
+import { supabaseDataService } from '@/services/supabaseDataService';
+import { PostingRole } from '@/types/posting';
+
+const TEMPLATE_ACCOUNT = 'template';
+
+type LedgerAccount = { id: string; name: string; account_number: string | null };
+
+const PostingAccountsManager: React.FC = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [mappings, setMappings] = useState<Partial<Record<PostingRole, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingRole, setSavingRole] = useState<PostingRole | null>(null);
+
+  const loadMappings = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      setLoading(true);
+      const [ledgerAccounts, savedMappings] = await Promise.all([
+        supabaseDataService.getAccounts(user.id),
+        postingService.getAccountMappings()
+      ]);
+      setAccounts(ledgerAccounts);
+      setMappings(Object.fromEntries(savedMappings.map(mapping => [mapping.role, mapping.accountId])));
+    } catch (error) {
+      console.error('Error loading posting accounts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load posting accounts',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, toast]);
+
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  const handleChange = async (role: PostingRole, value: string) => {
+    const accountId = value === TEMPLATE_ACCOUNT ? null : value;
+    setSavingRole(role);
+    try {
+      await postingService.saveAccountMapping(role, accountId);
+      setMappings(prev => ({ ...prev, [role]: accountId || undefined }));
+      toast({
+        title: 'Posting account saved',
+        description: `${POSTING_ROLES[role].label} will post to ${accountId ? accounts.find(account => account.id === accountId)?.name : 'the template account'} from now on.`
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not save posting account',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const templateAccountName = (role: PostingRole) => {
+    const account = accounts.find(candidate => candidate.account_number === POSTING_ROLES[role].defaultAccountNumber);
+    return account ? `${account.account_number} · ${account.name}` : `${POSTING_ROLES[role].defaultAccountNumber} (not in your chart)`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ledger Posting</CardTitle>
+        <CardDescription>
+          Sent invoices, recorded payments and saved expenses are posted to the ledger automatically. Choose the account each side posts to; edits are reposted with a reversing entry.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {(Object.keys(POSTING_ROLES) as PostingRole[]).map(role => (
+              <div key={role} className="space-y-1">
+                <Label>{POSTING_ROLES[role].label}</Label>
+                <Select
+                  value={mappings[role] || TEMPLATE_ACCOUNT}
+                  onValueChange={(value) => handleChange(role, value)}
+                  disabled={savingRole === role}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TEMPLATE_ACCOUNT}>Default: {templateAccountName(role)}</SelectItem>
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.account_number ? `${account.account_number} · ` : ''}{account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{POSTING_ROLES[role].description}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PostingAccountsManager;
@@ -0,0 +1,169 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, auditService } from '@/services/auditService';
+import { AuditAction, AuditEntityType, AuditTrail } from '@/types/payment';
+import { AuditChangeList } from './AuditTimeline';
+
+const ALL = 'all';
+
+const AuditLogViewer: React.FC = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditTrail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [entityType, setEntityType] = useState<string>(ALL);
+  const [action, setAction] = useState<string>(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await auditService.getAuditLog({
+        entityType: entityType === ALL ? undefined : entityType as AuditEntityType,
+        action: action === ALL ? undefined : action as AuditAction,
+        fromDate: fromDate || undefined,
+        toDate: toDate || undefined
+      }));
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load audit log',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, action, fromDate, toDate, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Searching doesn't refetch, so typing stays responsive
+  const visibleEntries = useMemo(
+    () => auditService.filterAuditEntries(entries, search),
+    [entries, search]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Every change to invoices, customers, expenses and journal entries, with who made it and the values before and after.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-5">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="audit-search">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="audit-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Invoice number, field, value or user"
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Record</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All records</SelectItem>
+                {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                  <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(value => (
+                  <SelectItem key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No audit entries match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleEntries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(parseISO(entry.timestamp), 'dd MMM yyyy, h:mm a')}
+                  </TableCell>
+                  <TableCell>{auditService.getActorLabel(entry)}</TableCell>
+                  <TableCell>
+                    <div className="text-xs text-muted-foreground">{AUDIT_ENTITY_LABELS[entry.entityType]}</div>
+                    {entry.entityType === 'invoice' && entry.action !== 'delete' ? (
+                      <Link to={`/invoices/${entry.entityId}`} className="font-medium hover:underline">
+                        {entry.entityLabel || entry.entityId}
+                      </Link>
+                    ) : (
+                      <span className="font-medium">{entry.entityLabel || entry.entityId}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <p className="text-sm">{auditService.describeAuditEntry(entry)}</p>
+                    <AuditChangeList entry={entry} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLogViewer;
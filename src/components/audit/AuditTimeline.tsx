@@ -0,0 +1,79 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  ArrowRightLeft,
+  Bell,
+  DollarSign,
+  Eye,
+  Mail,
+  Pencil,
+  Plus,
+  Share2,
+  Trash2,
+  LucideIcon
+} from 'lucide-react';
+import { auditService } from '@/services/auditService';
+import { AuditAction, AuditTrail } from '@/types/payment';
+
+interface AuditTimelineProps {
+  entries: AuditTrail[];
+  emptyMessage?: string;
+}
+
+const ACTION_ICONS: Record<AuditAction, LucideIcon> = {
+  create: Plus,
+  update: Pencil,
+  status_change: ArrowRightLeft,
+  delete: Trash2,
+  send: Mail,
+  share: Share2,
+  view: Eye,
+  payment: DollarSign,
+  reminder: Bell,
+};
+
+export function AuditChangeList({ entry }: { entry: AuditTrail }) {
+  const changes = auditService.getAuditChanges(entry);
+  if (changes.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs">
+      {changes.map(change => (
+        <li key={change.field}>
+          <span className="text-muted-foreground">{auditService.formatAuditField(change.field)}:</span>{' '}
+          <span className="line-through text-muted-foreground">{auditService.formatAuditValue(change.before)}</span>
+          {' → '}
+          <span className="font-medium">{auditService.formatAuditValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditTimeline({ entries, emptyMessage = 'No activity recorded yet.' }: AuditTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-5">
+      {entries.map(entry => {
+        const Icon = ACTION_ICONS[entry.action] || Pencil;
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+              <Icon className="h-3 w-3" />
+            </span>
+            <p className="text-sm font-medium">{auditService.describeAuditEntry(entry)}</p>
+            <p className="text-xs text-muted-foreground">
+              {format(parseISO(entry.timestamp), 'dd MMM yyyy, h:mm a')}
+              {' · '}
+              {auditService.getActorLabel(entry)}
+            </p>
+            <AuditChangeList entry={entry} />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
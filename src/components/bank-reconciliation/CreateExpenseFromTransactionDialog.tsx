@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ExpenseCategory } from '@/types';
+import { BankTransaction } from '@/types/bankTransaction';
+
+interface CreateExpenseFromTransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: BankTransaction | null;
+  categories: ExpenseCategory[];
+  currency: string;
+  onCreate: (
+    transaction: BankTransaction,
+    details: { description: string; categoryId: string | null; taxAmount: number }
+  ) => Promise<void>;
+}
+
+export function CreateExpenseFromTransactionDialog({
+  open,
+  onOpenChange,
+  transaction,
+  categories,
+  currency,
+  onCreate
+}: CreateExpenseFromTransactionDialogProps) {
+  const [description, setDescription] = useState('');
+  const [categoryId, setCategoryId] = useState<string>('none');
+  const [taxAmount, setTaxAmount] = useState('0');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && transaction) {
+      setDescription(transaction.merchant || transaction.description);
+      setCategoryId('none');
+      setTaxAmount('0');
+    }
+  }, [open, transaction]);
+
+  const handleCreate = async () => {
+    if (!transaction) return;
+    setIsSaving(true);
+    try {
+      await onCreate(transaction, {
+        description,
+        categoryId: categoryId === 'none' ? null : categoryId,
+        taxAmount: parseFloat(taxAmount) || 0
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!transaction) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create expense</DialogTitle>
+          <DialogDescription>
+            Records an expense of{' '}
+            {new Intl.NumberFormat('en-NZ', { style: 'currency', currency }).format(transaction.amount)} on{' '}
+            {new Date(transaction.transactionDate).toLocaleDateString()} and reconciles it with this transaction.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reconcile-expense-description">Description</Label>
+            <Input
+              id="reconcile-expense-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Uncategorised</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reconcile-expense-tax">GST included</Label>
+            <Input
+              id="reconcile-expense-tax"
+              type="number"
+              min="0"
+              step="0.01"
+              value={taxAmount}
+              onChange={(e) => setTaxAmount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={isSaving || !description.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create and reconcile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
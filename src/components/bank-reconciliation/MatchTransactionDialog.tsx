@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { BankTransaction } from '@/types/bankTransaction';
+import { MatchSuggestion, ReconciliationCandidate } from '@/types/bankReconciliation';
+
+interface MatchTransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transaction: BankTransaction | null;
+  candidates: ReconciliationCandidate[];
+  suggestions: MatchSuggestion[];
+  currency: string;
+  onMatch: (transaction: BankTransaction, candidates: ReconciliationCandidate[]) => Promise<void>;
+}
+
+export function MatchTransactionDialog({
+  open,
+  onOpenChange,
+  transaction,
+  candidates,
+  suggestions,
+  currency,
+  onMatch
+}: MatchTransactionDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the best suggestion so a one-click confirm is possible
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(suggestions[0]?.candidates.map(candidate => candidate.id) || []);
+      setSearch('');
+    }
+  }, [open, suggestions]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-NZ', { style: 'currency', currency }).format(amount);
+
+  const matchType = transaction?.type === 'credit' ? 'payment' : 'expense';
+
+  const visibleCandidates = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return candidates
+      .filter(candidate => candidate.matchType === matchType)
+      .filter(candidate => !term ||
+        candidate.description.toLowerCase().includes(term) ||
+        (candidate.reference || '').toLowerCase().includes(term) ||
+        candidate.amount.toFixed(2).includes(term))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }, [candidates, matchType, search]);
+
+  const selectedCandidates = candidates.filter(candidate => selectedIds.includes(candidate.id));
+  const selectedTotal = Math.round(selectedCandidates.reduce((sum, candidate) => sum + candidate.amount, 0) * 100) / 100;
+  const remaining = transaction ? Math.round((transaction.amount - selectedTotal) * 100) / 100 : 0;
+
+  const toggle = (id: string) => {
+    setSelectedIds(current => current.includes(id) ? current.filter(existing => existing !== id) : [...current, id]);
+  };
+
+  const handleMatch = async () => {
+    if (!transaction) return;
+    setIsSaving(true);
+    try {
+      await onMatch(transaction, selectedCandidates);
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!transaction) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Match transaction</DialogTitle>
+          <DialogDescription>
+            {transaction.description} &middot; {new Date(transaction.transactionDate).toLocaleDateString()} &middot;{' '}
+            {transaction.type === 'credit' ? 'Received' : 'Spent'} {formatCurrency(transaction.amount)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          placeholder={`Search ${matchType === 'payment' ? 'payments' : 'expenses'} by name, reference or amount`}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        <div className="max-h-80 overflow-y-auto divide-y rounded-md border">
+          {visibleCandidates.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">
+              No unreconciled {matchType === 'payment' ? 'payments' : 'expenses'} found
+            </p>
+          ) : visibleCandidates.map(candidate => (
+            <label key={candidate.id} className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50">
+              <Checkbox
+                checked={selectedIds.includes(candidate.id)}
+                onCheckedChange={() => toggle(candidate.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{candidate.description || 'Untitled'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(candidate.date).toLocaleDateString()}
+                  {candidate.reference && ` · ${candidate.reference}`}
+                </div>
+              </div>
+              <span className="text-sm font-mono">{formatCurrency(candidate.amount)}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-between text-sm">
+          <span>Selected: {formatCurrency(selectedTotal)}</span>
+          {remaining === 0 ? (
+            <Badge variant="outline" className="text-green-600 border-green-200">Balanced</Badge>
+          ) : (
+            <span className="text-orange-600">Remaining: {formatCurrency(remaining)}</span>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleMatch} disabled={isSaving || selectedCandidates.length === 0 || remaining !== 0}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reconcile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
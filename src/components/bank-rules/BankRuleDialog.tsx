@@ -0,0 +1,347 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { bankRuleService } from '@/services/bankRuleService';
+import { Customer, ExpenseCategory, TAX_CODES, TaxCode } from '@/types';
+import { BankAccount, BankTransaction } from '@/types/bankTransaction';
+import { BankRule, BankRuleTestResult, BankRuleTextOperator } from '@/types/bankRule';
+
+export type BankRuleDraft = Omit<BankRule, 'id' | 'createdAt' | 'updatedAt' | 'userId'>;
+
+interface BankRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule: BankRule | null;
+  rules: BankRule[];
+  nextPriority: number;
+  bankAccounts: BankAccount[];
+  expenseCategories: ExpenseCategory[];
+  customers: Customer[];
+  pastTransactions: BankTransaction[];
+  onSave: (draft: BankRuleDraft) => Promise<void>;
+}
+
+const ANY = 'any';
+
+export function BankRuleDialog({
+  open,
+  onOpenChange,
+  rule,
+  rules,
+  nextPriority,
+  bankAccounts,
+  expenseCategories,
+  customers,
+  pastTransactions,
+  onSave
+}: BankRuleDialogProps) {
+  const [name, setName] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [descriptionOperator, setDescriptionOperator] = useState<BankRuleTextOperator>('contains');
+  const [descriptionValue, setDescriptionValue] = useState('');
+  const [amountMin, setAmountMin] = useState('');
+  const [amountMax, setAmountMax] = useState('');
+  const [transactionType, setTransactionType] = useState<string>(ANY);
+  const [bankAccountId, setBankAccountId] = useState<string>(ANY);
+  const [expenseCategoryId, setExpenseCategoryId] = useState<string>(ANY);
+  const [merchant, setMerchant] = useState('');
+  const [customerId, setCustomerId] = useState<string>(ANY);
+  const [taxCode, setTaxCode] = useState<string>(ANY);
+  const [autoCreateExpense, setAutoCreateExpense] = useState(false);
+  const [testResult, setTestResult] = useState<BankRuleTestResult<BankTransaction> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name || '');
+    setIsActive(rule?.isActive ?? true);
+    setDescriptionOperator(rule?.conditions.descriptionOperator || 'contains');
+    setDescriptionValue(rule?.conditions.descriptionValue || '');
+    setAmountMin(rule?.conditions.amountMin != null ? String(rule.conditions.amountMin) : '');
+    setAmountMax(rule?.conditions.amountMax != null ? String(rule.conditions.amountMax) : '');
+    setTransactionType(rule?.conditions.transactionType || ANY);
+    setBankAccountId(rule?.conditions.bankAccountId || ANY);
+    setExpenseCategoryId(rule?.actions.expenseCategoryId || ANY);
+    setMerchant(rule?.actions.merchant || '');
+    setCustomerId(rule?.actions.customerId || ANY);
+    setTaxCode(rule?.actions.taxCode || ANY);
+    setAutoCreateExpense(!!rule?.actions.autoCreateExpense);
+    setTestResult(null);
+    setError(null);
+  }, [open, rule]);
+
+  const draft = useMemo((): BankRuleDraft => ({
+    name: name.trim(),
+    priority: rule?.priority ?? nextPriority,
+    isActive,
+    conditions: {
+      descriptionOperator,
+      descriptionValue: descriptionValue.trim() || undefined,
+      amountMin: amountMin === '' ? null : parseFloat(amountMin),
+      amountMax: amountMax === '' ? null : parseFloat(amountMax),
+      transactionType: transactionType === ANY ? null : transactionType as 'debit' | 'credit',
+      bankAccountId: bankAccountId === ANY ? null : bankAccountId
+    },
+    actions: {
+      expenseCategoryId: expenseCategoryId === ANY ? null : expenseCategoryId,
+      merchant: merchant.trim() || null,
+      customerId: customerId === ANY ? null : customerId,
+      taxCode: taxCode === ANY ? null : taxCode as TaxCode,
+      autoCreateExpense: transactionType === 'debit' && autoCreateExpense
+    }
+  }), [
+    name, rule, nextPriority, isActive, descriptionOperator, descriptionValue, amountMin, amountMax,
+    transactionType, bankAccountId, expenseCategoryId, merchant, customerId, taxCode, autoCreateExpense
+  ]);
+
+  const validate = (): boolean => {
+    try {
+      bankRuleService.validateRule({ ...draft, name: draft.name || 'Untitled' });
+      setError(null);
+      return true;
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : 'Invalid rule');
+      return false;
+    }
+  };
+
+  const handleTest = () => {
+    if (!validate()) return;
+    const candidate: BankRule = { ...draft, id: rule?.id || 'draft', isActive: true };
+    setTestResult(bankRuleService.testRule(candidate, pastTransactions, rules));
+  };
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onOpenChange(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatAmount = (transaction: BankTransaction) =>
+    `${transaction.type === 'debit' ? '-' : ''}${transaction.amount.toFixed(2)}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit bank rule' : 'New bank rule'}</DialogTitle>
+          <DialogDescription>
+            Rules run in priority order when transactions are imported. The first matching rule is applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="bank-rule-name">Rule name</Label>
+              <Input id="bank-rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Power bill" />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="bank-rule-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="bank-rule-active">Active</Label>
+            </div>
+          </div>
+
+          <Separator />
+          <h4 className="text-sm font-medium">When a transaction matches</h4>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Select value={descriptionOperator} onValueChange={(value) => setDescriptionOperator(value as BankRuleTextOperator)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="regex">Matches pattern</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="bank-rule-description">Text</Label>
+              <Input
+                id="bank-rule-description"
+                value={descriptionValue}
+                onChange={(e) => setDescriptionValue(e.target.value)}
+                placeholder={descriptionOperator === 'regex' ? '^MERIDIAN.*' : 'MERIDIAN ENERGY'}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="bank-rule-min">Amount from</Label>
+              <Input id="bank-rule-min" type="number" min="0" step="0.01" value={amountMin} onChange={(e) => setAmountMin(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-rule-max">Amount to</Label>
+              <Input id="bank-rule-max" type="number" min="0" step="0.01" value={amountMax} onChange={(e) => setAmountMax(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Direction</Label>
+              <Select value={transactionType} onValueChange={setTransactionType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Money in or out</SelectItem>
+                  <SelectItem value="debit">Money spent</SelectItem>
+                  <SelectItem value="credit">Money received</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Bank account</Label>
+              <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any account</SelectItem>
+                  {bankAccounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>{account.accountName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Separator />
+          <h4 className="text-sm font-medium">Then</h4>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Expense category</Label>
+              <Select value={expenseCategoryId} onValueChange={setExpenseCategoryId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Don't change</SelectItem>
+                  {expenseCategories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bank-rule-merchant">Merchant</Label>
+              <Input id="bank-rule-merchant" value={merchant} onChange={(e) => setMerchant(e.target.value)} placeholder="Don't change" />
+            </div>
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Don't change</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>GST treatment</Label>
+              <Select value={taxCode} onValueChange={setTaxCode}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Don't change</SelectItem>
+                  {(Object.keys(TAX_CODES) as TaxCode[]).map(code => (
+                    <SelectItem key={code} value={code}>{TAX_CODES[code].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-start gap-3">
+            <Checkbox
+              checked={transactionType === 'debit' && autoCreateExpense}
+              disabled={transactionType !== 'debit'}
+              onCheckedChange={(checked) => setAutoCreateExpense(checked === true)}
+            />
+            <span className="text-sm">
+              Create and reconcile an expense automatically
+              <span className="block text-xs text-muted-foreground">
+                Only available for rules that match money spent
+              </span>
+            </span>
+          </label>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Separator />
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium">Test against past transactions</h4>
+                <p className="text-xs text-muted-foreground">Checks the last {pastTransactions.length} imported transactions</p>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={handleTest} className="gap-2">
+                <FlaskConical className="h-4 w-4" />
+                Test rule
+              </Button>
+            </div>
+
+            {testResult && (
+              <div className="rounded-md border">
+                <div className="flex gap-2 p-3 text-sm border-b">
+                  <span>{testResult.matched.length} matching transactions</span>
+                  {testResult.shadowed.length > 0 && (
+                    <Badge variant="outline" className="text-amber-700 border-amber-200">
+                      {testResult.shadowed.length} already caught by a higher-priority rule
+                    </Badge>
+                  )}
+                </div>
+                <div className="max-h-48 overflow-y-auto divide-y">
+                  {testResult.matched.slice(0, 20).map(transaction => (
+                    <div key={transaction.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <span className="text-muted-foreground w-24 shrink-0">
+                        {new Date(transaction.transactionDate).toLocaleDateString()}
+                      </span>
+                      <span className="flex-1 truncate">{transaction.description}</span>
+                      {testResult.shadowed.includes(transaction) && (
+                        <Badge variant="outline" className="text-xs">Shadowed</Badge>
+                      )}
+                      <span className="font-mono">{formatAmount(transaction)}</span>
+                    </div>
+                  ))}
+                  {testResult.matched.length === 0 && (
+                    <p className="p-3 text-sm text-muted-foreground text-center">No past transactions match this rule</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import ReceiptUpload from '@/components/expense/ReceiptUpload';
+import { VendorSelect } from '@/components/vendor/VendorSelect';
+import { billService } from '@/services/billService';
+import { vendorService } from '@/services/vendorService';
+import { DEFAULT_TAX_CODE, TAX_CODES, TaxCode } from '@/types';
+import { BillItem, CreateBillRequest } from '@/types/bill';
+import { Vendor } from '@/types/vendor';
+
+interface BillFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (request: CreateBillRequest) => Promise<void>;
+  initialValues?: CreateBillRequest | null; // e.g. built from a scanned receipt
+}
+
+// Lines post to purchases unless an expense account is picked
+const PURCHASES_VALUE = 'purchases';
+
+const emptyItem = (): BillItem => ({ description: '', quantity: 1, rate: 0, total: 0, taxCode: DEFAULT_TAX_CODE });
+
+const emptyBill = (): CreateBillRequest => {
+  const today = new Date();
+  return {
+    supplierName: '',
+    billNumber: '',
+    billDate: format(today, 'yyyy-MM-dd'),
+    dueDate: format(addDays(today, 30), 'yyyy-MM-dd'),
+    items: [emptyItem()],
+    notes: '',
+    receiptUrl: null
+  };
+};
+
+export function BillFormDialog({ open, onOpenChange, onSubmit, initialValues }: BillFormDialogProps) {
+  const [bill, setBill] = useState<CreateBillRequest>(emptyBill);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [expenseAccounts, setExpenseAccounts] = useState<{ id: string; name: string; accountNumber: string | null }[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setBill(initialValues ? { ...emptyBill(), ...initialValues } : emptyBill());
+      setError(null);
+      billService.getExpenseAccounts()
+        .then(setExpenseAccounts)
+        .catch(err => console.error('Error loading expense accounts:', err));
+      vendorService.getVendors()
+        .then(allVendors => {
+          setVendors(allVendors);
+          // Bills prefilled from a scan are linked to the vendor the merchant name matches
+          setBill(current => current.vendorId || !current.supplierName
+            ? current
+            : { ...current, vendorId: vendorService.findVendorMatch(current.supplierName, allVendors)?.vendor.id || null });
+        })
+        .catch(err => console.error('Error loading vendors:', err));
+    }
+  }, [open, initialValues]);
+
+  const selectVendor = (vendor: Vendor | null) => {
+    setBill(current => ({
+      ...current,
+      vendorId: vendor?.id || null,
+      supplierName: vendor ? vendor.name : current.supplierName
+    }));
+  };
+
+  const totals = billService.calculateBillTotals(bill.items);
+
+  const updateItem = (index: number, changes: Partial<BillItem>) => {
+    setBill(current => ({
+      ...current,
+      items: current.items.map((item, i) => i === index ? { ...item, ...changes } : item)
+    }));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      billService.validateBill(bill);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid bill');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit(bill);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save bill');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Bill</DialogTitle>
+          <DialogDescription>
+            Record a supplier invoice now and pay it later. Scanning a receipt fills in the details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ReceiptUpload
+            initialReceiptUrl={bill.receiptUrl}
+            onReceiptChange={(url) => setBill(current => ({ ...current, receiptUrl: url }))}
+            onScanComplete={(scanResult) => setBill(current => ({
+              ...billService.buildBillFromScan(scanResult, current.receiptUrl),
+              billNumber: current.billNumber,
+              vendorId: vendorService.findVendorMatch(scanResult.merchantName, vendors)?.vendor.id || current.vendorId || null
+            }))}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="bill-supplier">Supplier</Label>
+              <Input
+                id="bill-supplier"
+                value={bill.supplierName}
+                onChange={(e) => setBill(current => ({ ...current, supplierName: e.target.value }))}
+              />
+            </div>
+            {vendors.length > 0 && (
+              <div className="space-y-2">
+                <Label>Vendor</Label>
+                <VendorSelect vendors={vendors} value={bill.vendorId} onChange={selectVendor} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="bill-number">Supplier Invoice Number</Label>
+              <Input
+                id="bill-number"
+                value={bill.billNumber || ''}
+                onChange={(e) => setBill(current => ({ ...current, billNumber: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-date">Bill Date</Label>
+              <Input
+                id="bill-date"
+                type="date"
+                value={bill.billDate}
+                onChange={(e) => setBill(current => ({ ...current, billDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-due-date">Due Date</Label>
+              <Input
+                id="bill-due-date"
+                type="date"
+                value={bill.dueDate}
+                onChange={(e) => setBill(current => ({ ...current, dueDate: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lines (excluding GST)</Label>
+            {bill.items.map((item, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Input
+                  className="col-span-12 sm:col-span-4"
+                  placeholder="Description"
+                  value={item.description}
+                  onChange={(e) => updateItem(index, { description: e.target.value })}
+                />
+                <Input
+                  className="col-span-3 sm:col-span-1"
+                  type="number"
+                  min="0"
+                  value={item.quantity}
+                  onChange={(e) => updateItem(index, { quantity: parseFloat(e.target.value) || 0 })}
+                />
+                <Input
+                  className="col-span-4 sm:col-span-2"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={item.rate}
+                  onChange={(e) => updateItem(index, { rate: parseFloat(e.target.value) || 0 })}
+                />
+                <Select value={item.taxCode} onValueChange={(value) => updateItem(index, { taxCode: value as TaxCode })}>
+                  <SelectTrigger className="col-span-5 sm:col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TAX_CODES).map(([code, { label }]) => (
+                      <SelectItem key={code} value={code}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={item.accountId || PURCHASES_VALUE}
+                  onValueChange={(value) => updateItem(index, { accountId: value === PURCHASES_VALUE ? null : value })}
+                >
+                  <SelectTrigger className="col-span-10 sm:col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PURCHASES_VALUE}>Purchases</SelectItem>
+                    {expenseAccounts.map(account => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.accountNumber ? `${account.accountNumber} ` : ''}{account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-2 sm:col-span-1"
+                  disabled={bill.items.length === 1}
+                  onClick={() => setBill(current => ({ ...current, items: current.items.filter((_, i) => i !== index) }))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setBill(current => ({ ...current, items: [...current.items, emptyItem()] }))}
+            >
+              <Plus className="h-4 w-4" />
+              Add Line
+            </Button>
+          </div>
+
+          <div className="flex flex-col items-end gap-1 text-sm">
+            <span>Subtotal: ${totals.subtotal.toFixed(2)}</span>
+            <span>GST: ${totals.taxAmount.toFixed(2)}</span>
+            <span className="text-base font-semibold">Total: ${totals.total.toFixed(2)}</span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bill-notes">Notes</Label>
+            <Textarea
+              id="bill-notes"
+              rows={2}
+              value={bill.notes || ''}
+              onChange={(e) => setBill(current => ({ ...current, notes: e.target.value }))}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? 'Saving...' : 'Save Bill'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
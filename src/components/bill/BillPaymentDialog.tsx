@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { billService } from '@/services/billService';
+import { bankAccountService } from '@/services/bankAccountService';
+import { BankAccount } from '@/types/bankTransaction';
+import { Bill, RecordBillPaymentRequest } from '@/types/bill';
+
+interface BillPaymentDialogProps {
+  bill: Bill | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (request: RecordBillPaymentRequest) => Promise<void>;
+}
+
+export function BillPaymentDialog({ bill, open, onOpenChange, onSubmit }: BillPaymentDialogProps) {
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [bankAccountId, setBankAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [reference, setReference] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && bill) {
+      setAmount(bill.balanceDue.toFixed(2));
+      setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
+      setReference(bill.billNumber || '');
+      setError(null);
+      bankAccountService.getActiveAccounts()
+        .then(accounts => {
+          setBankAccounts(accounts);
+          setBankAccountId(current => current || accounts[0]?.id || '');
+        })
+        .catch(err => console.error('Error loading bank accounts:', err));
+    }
+  }, [open, bill]);
+
+  const handleSubmit = async () => {
+    if (!bill) return;
+
+    const request: RecordBillPaymentRequest = {
+      billId: bill.id,
+      bankAccountId,
+      amount: parseFloat(amount) || 0,
+      paymentDate,
+      reference: reference || undefined
+    };
+
+    if (!bankAccountId) {
+      setError('Choose the bank account the bill was paid from');
+      return;
+    }
+
+    try {
+      billService.validateBillPayment(bill, request);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid payment');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit(request);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pay Bill</DialogTitle>
+          <DialogDescription>
+            {bill && (
+              <>
+                {bill.supplierName}{bill.billNumber ? ` #${bill.billNumber}` : ''}: ${bill.balanceDue.toFixed(2)} of
+                {' '}${bill.total.toFixed(2)} still owing.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Paid From</Label>
+            <Select value={bankAccountId} onValueChange={setBankAccountId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select bank account" />
+              </SelectTrigger>
+              <SelectContent>
+                {bankAccounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.accountName} ({account.bankName})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="bill-payment-amount">Amount</Label>
+              <Input
+                id="bill-payment-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={bill?.balanceDue}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill-payment-date">Payment Date</Label>
+              <Input
+                id="bill-payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bill-payment-reference">Reference</Label>
+            <Input id="bill-payment-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? 'Recording...' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency } from '@/utils/invoiceUtils';
+import { budgetService } from '@/services/budgetService';
+import { BudgetVsActualLine } from '@/types/budget';
+
+// Expense categories that have spent more than this month's budget so far
+const OverBudgetWidget: React.FC = () => {
+  const [lines, setLines] = useState<BudgetVsActualLine[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    budgetService.getOverBudgetCategories()
+      .then(overBudget => {
+        if (!cancelled) setLines(overBudget);
+      })
+      .catch(error => console.error('Error loading over-budget categories:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          Over Budget
+        </CardTitle>
+        <CardDescription>Expense categories over their {format(new Date(), 'MMMM')} budget</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : lines.length > 0 ? (
+          <div className="space-y-3">
+            {lines.slice(0, 5).map(line => (
+              <div key={line.target.id} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium truncate">{line.target.name}</span>
+                  <span className="text-red-600">+{formatCurrency(line.total.variance)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(line.total.actual)} of {formatCurrency(line.total.budget)}
+                  {line.total.variancePercent !== null && ` (${line.total.variancePercent}% over)`}
+                </p>
+              </div>
+            ))}
+            <Button variant="outline" className="w-full mt-2" asChild>
+              <Link to="/budgets">View Budget vs Actual</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="py-4 text-center text-muted-foreground">
+            <p>Every budgeted category is within budget this month</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverBudgetWidget;
@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { exchangeRateService } from '@/services/exchangeRateService';
+import { ExchangeRate } from '@/types/exchangeRate';
+
+const CURRENCIES = ['NZD', 'AUD', 'USD', 'EUR', 'GBP', 'CAD'] as const;
+
+interface ExchangeRatesManagerProps {
+  baseCurrency: string;
+}
+
+const ExchangeRatesManager: React.FC<ExchangeRatesManagerProps> = ({ baseCurrency }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const foreignCurrencies = useMemo(
+    () => CURRENCIES.filter(currency => currency !== baseCurrency),
+    [baseCurrency]
+  );
+  const [fromCurrency, setFromCurrency] = useState<string>(foreignCurrencies[0]);
+  const [rate, setRate] = useState('');
+  const [rateDate, setRateDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const loadRates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRates(await exchangeRateService.getExchangeRates());
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load exchange rates',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  useEffect(() => {
+    if (!foreignCurrencies.includes(fromCurrency as typeof foreignCurrencies[number])) {
+      setFromCurrency(foreignCurrencies[0]);
+    }
+  }, [foreignCurrencies, fromCurrency]);
+
+  const handleAddRate = async () => {
+    setIsSaving(true);
+    try {
+      await exchangeRateService.saveExchangeRate({
+        fromCurrency,
+        toCurrency: baseCurrency,
+        rate: parseFloat(rate),
+        rateDate
+      });
+      setRate('');
+      toast({
+        title: 'Rate saved',
+        description: `1 ${fromCurrency} = ${rate} ${baseCurrency} from ${rateDate}`
+      });
+      await loadRates();
+    } catch (error) {
+      toast({
+        title: 'Could not save rate',
+        description: error instanceof Error ? error.message : 'Please check the rate and try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { imported, errors } = await exchangeRateService.importExchangeRatesFromCsv(await file.text(), baseCurrency);
+      toast({
+        title: imported > 0 ? `Imported ${imported} rate${imported === 1 ? '' : 's'}` : 'No rates imported',
+        description: errors.length > 0 ? `${errors.length} row(s) skipped. ${errors[0]}` : undefined,
+        variant: imported === 0 ? 'destructive' : undefined
+      });
+      await loadRates();
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Could not read the file.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await exchangeRateService.deleteExchangeRate(id);
+      setRates(current => current.filter(existing => existing.id !== id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete exchange rate',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          Rates are locked onto invoices and payments by date and used to report in {baseCurrency}.
+          The most recent rate on or before a document's date is used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={fromCurrency} onValueChange={setFromCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {foreignCurrencies.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exchange-rate">Rate ({baseCurrency} per 1 {fromCurrency})</Label>
+            <Input
+              id="exchange-rate"
+              type="number"
+              min="0"
+              step="0.0001"
+              placeholder="1.6500"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exchange-rate-date">Effective from</Label>
+            <Input
+              id="exchange-rate-date"
+              type="date"
+              value={rateDate}
+              onChange={(e) => setRateDate(e.target.value)}
+            />
+          </div>
+          <Button type="button" onClick={handleAddRate} disabled={isSaving || !rate || !rateDate}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add Rate
+          </Button>
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          CSV files need a header row with <span className="font-mono">date</span>, <span className="font-mono">from</span> and <span className="font-mono">rate</span> columns.
+          A <span className="font-mono">to</span> column is optional and defaults to {baseCurrency}.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No exchange rates yet. Invoices in currencies other than {baseCurrency} need a rate before they can be saved.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Pair</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(exchangeRate => (
+                <TableRow key={exchangeRate.id}>
+                  <TableCell>{new Date(exchangeRate.rateDate).toLocaleDateString()}</TableCell>
+                  <TableCell>{exchangeRate.fromCurrency} → {exchangeRate.toCurrency}</TableCell>
+                  <TableCell className="text-right font-mono">{exchangeRate.rate.toFixed(4)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{exchangeRate.source === 'csv' ? 'CSV' : 'Manual'}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(exchangeRate.id)}
+                      aria-label="Delete rate"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesManager;
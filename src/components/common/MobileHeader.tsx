@@ -56,9 +56,21 @@ const MobileHeader: React.FC<MobileHeaderProps> = ({ onMenuClick }) => {
     if (location.pathname === '/payments') return 'Payments';
     if (location.pathname === '/receipts') return 'Receipts';
     if (location.pathname === '/expenses') return 'Expenses';
+    if (location.pathname === '/bills') return 'Bills';
+    if (location.pathname === '/vendors') return 'Vendors';
     if (location.pathname === '/accounts') return 'Accounts';
     if (location.pathname === '/financial-reports') return 'Financial Reports';
+    if (location.pathname === '/budgets') return 'Budgets';
     if (location.pathname === '/journal-entries') return 'Journal Entries';
+    if (location.pathname === '/credit-notes') return 'Credit Notes';
+    if (location.pathname === '/payment-reminders') return 'Payment Reminders';
+    if (location.pathname === '/statements') return 'Statements';
+    if (location.pathname === '/quotes') return 'Quotes';
+    if (location.pathname === '/bank-accounts') return 'Bank Accounts';
+    if (location.pathname === '/bank-rules') return 'Bank Rules';
+    if (location.pathname.includes('/bank-accounts/') && location.pathname.includes('/reconcile')) return 'Reconcile';
+    if (location.pathname === '/quotes/new') return 'New Quote';
+    if (location.pathname.includes('/quotes/') && location.pathname.includes('/edit')) return 'Edit Quote';
     if (location.pathname.includes('/invoices/create')) return 'New Invoice';
     if (location.pathname.includes('/invoices/') && location.pathname.includes('/edit')) return 'Edit Invoice';
     if (location.pathname.includes('/invoices/')) return 'Invoice Details';
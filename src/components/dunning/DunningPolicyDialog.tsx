@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { DEFAULT_DUNNING_STEPS, dunningService } from '@/services/dunningService';
+import { DunningPolicy, ReminderType } from '@/types/dunning';
+
+export type DunningPolicyDraft = Omit<DunningPolicy, 'id' | 'createdAt' | 'updatedAt' | 'userId'>;
+
+interface DunningPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: DunningPolicy | null;
+  onSave: (draft: DunningPolicyDraft) => Promise<void>;
+}
+
+interface StepRow {
+  days: string;
+  timing: 'before' | 'after';
+  reminderType: ReminderType;
+}
+
+const toRows = (policy: DunningPolicy | null): StepRow[] =>
+  (policy?.steps || DEFAULT_DUNNING_STEPS).map(step => ({
+    days: String(Math.abs(step.offsetDays)),
+    timing: step.offsetDays < 0 ? 'before' : 'after',
+    reminderType: step.reminderType
+  }));
+
+export function DunningPolicyDialog({ open, onOpenChange, policy, onSave }: DunningPolicyDialogProps) {
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState<StepRow[]>([]);
+  const [isActive, setIsActive] = useState(true);
+  const [isDefault, setIsDefault] = useState(true);
+  const [autoSend, setAutoSend] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(policy?.name || '');
+    setSteps(toRows(policy));
+    setIsActive(policy?.isActive ?? true);
+    setIsDefault(policy?.isDefault ?? true);
+    setAutoSend(policy?.autoSend ?? false);
+    setError(null);
+  }, [open, policy]);
+
+  const updateStep = (index: number, changes: Partial<StepRow>) => {
+    setSteps(current => current.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const handleSave = async () => {
+    const draft: DunningPolicyDraft = {
+      name: name.trim(),
+      steps: dunningService.sortSteps(steps.map(step => {
+        const days = Number(step.days);
+        return { offsetDays: step.timing === 'before' ? -days : days, reminderType: step.reminderType };
+      })),
+      isActive,
+      isDefault,
+      autoSend
+    };
+
+    try {
+      dunningService.validatePolicy(draft);
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : 'Invalid policy');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onOpenChange(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{policy ? 'Edit reminder policy' : 'New reminder policy'}</DialogTitle>
+          <DialogDescription>
+            Each open invoice gets the latest step it has reached. Steps are never sent twice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dunning-policy-name">Policy name</Label>
+            <Input id="dunning-policy-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Standard terms" />
+          </div>
+
+          <Separator />
+          <h4 className="text-sm font-medium">Reminder steps</h4>
+
+          <div className="space-y-2">
+            {steps.map((step, index) => (
+              <div key={index} className="grid grid-cols-[5rem_1fr_1fr_auto] items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  aria-label="Days"
+                  value={step.days}
+                  onChange={(e) => updateStep(index, { days: e.target.value })}
+                />
+                <Select value={step.timing} onValueChange={(value) => updateStep(index, { timing: value as StepRow['timing'] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="before">days before due</SelectItem>
+                    <SelectItem value="after">days after due</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={step.reminderType} onValueChange={(value) => updateStep(index, { reminderType: value as ReminderType })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gentle">Gentle reminder</SelectItem>
+                    <SelectItem value="firm">Firm notice</SelectItem>
+                    <SelectItem value="final">Final notice</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSteps(current => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setSteps(current => [...current, { days: '', timing: 'after', reminderType: 'firm' }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add step
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="dunning-policy-active">Active</Label>
+              <Switch id="dunning-policy-active" checked={isActive} onCheckedChange={setIsActive} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="dunning-policy-default">Apply to open invoices</Label>
+              <Switch id="dunning-policy-default" checked={isDefault} onCheckedChange={setIsDefault} />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="dunning-policy-auto">Send automatically</Label>
+                <p className="text-xs text-muted-foreground">Due reminders are emailed once a day when you open the app</p>
+              </div>
+              <Switch id="dunning-policy-auto" checked={autoSend} onCheckedChange={setAutoSend} />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save policy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -43,6 +43,9 @@ import {
 import { cn } from '@/lib/utils';
 import ReceiptUpload from './ReceiptUpload';
 import { ReceiptScanResult } from '@/types/receipt';
+import { Vendor } from '@/types/vendor';
+import { vendorService } from '@/services/vendorService';
+import { VendorSelect } from '@/components/vendor/VendorSelect';
 
 const expenseFormSchema = z.object({
   description: z.string().min(1, { message: 'Description is required' }),
@@ -50,6 +53,7 @@ const expenseFormSchema = z.object({
   categoryId: z.string().optional(),
   accountId: z.string().optional(),
   vendorName: z.string().optional().or(z.literal('')),
+  vendorId: z.string().optional(),
   receiptUrl: z.string().optional().or(z.literal('')),
   expenseDate: z.string().min(1, { message: 'Expense date is required' }),
   status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
@@ -68,6 +72,7 @@ interface ExpenseFormDrawerProps {
   onOpenChange: (open: boolean) => void;
   initialValues?: Expense | null;
   onSubmit: (values: ExpenseFormValues) => void;
+  onRecordAsBill?: (scanResult: ReceiptScanResult, receiptUrl: string | null) => void; // Scanned supplier invoices can go to AP instead
 }
 
 const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
@@ -75,10 +80,13 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
   onOpenChange,
   initialValues,
   onSubmit,
+  onRecordAsBill,
 }) => {
   const { expenseCategories, accounts, customers } = useAppData();
   const [, setReceiptFile] = useState<File | null>(null);
   const [receiptUrl, setReceiptUrl] = useState<string | null>(initialValues?.receiptUrl || null);
+  const [lastScan, setLastScan] = useState<ReceiptScanResult | null>(null);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
   const [showPaymentDetails, setShowPaymentDetails] = useState(false);
   const [showTaxDetails, setShowTaxDetails] = useState(false);
   const [showBillingDetails, setShowBillingDetails] = useState(false);
@@ -91,6 +99,7 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
       categoryId: 'no-category',
       accountId: 'no-account',
       vendorName: '',
+      vendorId: 'no-vendor',
       receiptUrl: '',
       expenseDate: formatDate(new Date()),
       status: 'pending',
@@ -115,6 +124,7 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
         categoryId: initialValues.categoryId || 'no-category',
         accountId: initialValues.accountId || 'no-account',
         vendorName: initialValues.vendorName || '',
+        vendorId: initialValues.vendorId || 'no-vendor',
         receiptUrl: initialValues.receiptUrl || '',
         expenseDate: initialValues.expenseDate || formatDate(new Date()),
         status: initialValues.status || 'pending',
@@ -127,6 +137,7 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
       });
       setReceiptUrl(initialValues.receiptUrl || null);
       setReceiptFile(null);
+      setLastScan(null);
       setShowPaymentDetails(hasPaymentMethod);
       setShowTaxDetails(hasTaxAmount);
       setShowBillingDetails(isBillable);
@@ -137,6 +148,7 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
         categoryId: 'no-category',
         accountId: 'no-account',
         vendorName: '',
+        vendorId: 'no-vendor',
         receiptUrl: '',
         expenseDate: formatDate(new Date()),
         status: 'pending',
@@ -149,12 +161,44 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
       });
       setReceiptUrl(null);
       setReceiptFile(null);
+      setLastScan(null);
       setShowPaymentDetails(false);
       setShowTaxDetails(false);
       setShowBillingDetails(false);
     }
   }, [initialValues, form]);
 
+  useEffect(() => {
+    if (open) {
+      vendorService.getVendors()
+        .then(setVendors)
+        .catch(error => console.error('Error loading vendors:', error));
+    }
+  }, [open]);
+
+  // Picking or matching a vendor fills in its name and defaults
+  const applyVendor = (vendor: Vendor | null) => {
+    form.setValue('vendorId', vendor?.id || 'no-vendor');
+    if (!vendor) return;
+
+    form.setValue('vendorName', vendor.name);
+    if (vendor.defaultExpenseCategoryId) {
+      form.setValue('categoryId', vendor.defaultExpenseCategoryId);
+    }
+    if (vendor.defaultPaymentMethod) {
+      form.setValue('paymentMethod', vendor.defaultPaymentMethod);
+      setShowPaymentDetails(true);
+    }
+  };
+
+  const handleVendorNameBlur = (name: string) => {
+    if (form.getValues('vendorId') !== 'no-vendor') return;
+    const match = vendorService.findVendorMatch(name, vendors);
+    if (match) {
+      applyVendor(match.vendor);
+    }
+  };
+
   const handleSubmit = (values: ExpenseFormValues) => {
     // Include the current receipt URL in the form values
     const formData = {
@@ -175,6 +219,7 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
         categoryId: 'no-category',
         accountId: 'no-account',
         vendorName: '',
+        vendorId: 'no-vendor',
         receiptUrl: '',
         expenseDate: formatDate(new Date()),
         status: 'pending',
@@ -187,6 +232,7 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
       });
       setReceiptUrl(null);
       setReceiptFile(null);
+      setLastScan(null);
       setShowPaymentDetails(false);
       setShowTaxDetails(false);
       setShowBillingDetails(false);
@@ -203,6 +249,8 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
   };
 
   const handleScanComplete = (scanResult: ReceiptScanResult) => {
+    setLastScan(scanResult);
+
     // Populate form fields with scanned data
     if (scanResult.merchantName) {
       form.setValue('vendorName', scanResult.merchantName);
@@ -252,6 +300,12 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
     if (scanResult.merchantName && !form.getValues('description')) {
       form.setValue('description', `Expense at ${scanResult.merchantName}`);
     }
+
+    // A known vendor's defaults win over the scanner's category guess
+    const match = vendorService.findVendorMatch(scanResult.merchantName, vendors);
+    if (match) {
+      applyVendor(match.vendor);
+    }
   };
 
   return (
@@ -388,6 +442,28 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
                     )}
                   />
 
+                  {vendors.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="vendorId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium flex items-center gap-1">
+                            <Building className="h-3 w-3" />
+                            Vendor
+                          </FormLabel>
+                          <VendorSelect
+                            vendors={vendors}
+                            value={field.value === 'no-vendor' ? null : field.value}
+                            onChange={applyVendor}
+                            className="h-11"
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <FormField
                     control={form.control}
                     name="vendorName"
@@ -400,6 +476,10 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
                         <FormControl>
                           <Input 
                             {...field} 
+                            onBlur={(e) => {
+                              field.onBlur();
+                              handleVendorNameBlur(e.target.value);
+                            }}
                             placeholder="Where did you make this purchase?"
                             className="h-11"
                           />
@@ -454,6 +534,19 @@ const ExpenseFormDrawer: React.FC<ExpenseFormDrawerProps> = ({
                   initialReceiptUrl={receiptUrl}
                   disabled={false}
                 />
+
+                {onRecordAsBill && lastScan && !initialValues && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="w-full gap-2"
+                    onClick={() => onRecordAsBill(lastScan, receiptUrl)}
+                  >
+                    <FileText className="h-4 w-4" />
+                    Record as supplier bill to pay later
+                  </Button>
+                )}
               </div>
 
               {/* Payment Details Section - Collapsible */}
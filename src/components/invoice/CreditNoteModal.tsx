@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileMinus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Invoice } from '@/types';
+import { CreditNoteItem } from '@/types/creditNote';
+import { creditNoteService } from '@/services/creditNoteService';
+import { formatCurrency, formatDate } from '@/utils/invoiceUtils';
+
+interface CreditNoteModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice;
+  onCreated?: () => void;
+}
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
+  open,
+  onOpenChange,
+  invoice,
+  onCreated,
+}) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<CreditNoteItem[]>([]);
+  const [reason, setReason] = useState('');
+  const [date, setDate] = useState('');
+  const [applyToInvoice, setApplyToInvoice] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setItems(creditNoteService.buildFullCreditItems(invoice));
+      setReason('');
+      setDate(formatDate(new Date()));
+      setApplyToInvoice(invoice.status !== 'paid');
+    }
+  }, [open, invoice]);
+
+  const totals = useMemo(
+    () => creditNoteService.calculateCreditNoteTotals(items, invoice),
+    [items, invoice]
+  );
+
+  const handleQuantityChange = (index: number, value: string) => {
+    const quantity = Math.max(0, parseFloat(value) || 0);
+    setItems(prev => prev.map((item, i) => i === index
+      ? { ...item, quantity, total: Math.round(quantity * item.rate * 100) / 100 }
+      : item
+    ));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const creditNote = await creditNoteService.createCreditNote({
+        invoice,
+        items,
+        reason,
+        date,
+        applyToInvoice
+      });
+      toast({
+        title: 'Credit note issued',
+        description: creditNote.remainingCredit > 0
+          ? `${creditNote.creditNoteNumber} issued. ${formatCurrency(creditNote.remainingCredit, invoice.currency)} is held as customer credit.`
+          : `${creditNote.creditNoteNumber} was applied to invoice ${invoice.invoiceNumber}.`,
+      });
+      onCreated?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      toast({
+        title: 'Could not issue credit note',
+        description: error instanceof Error ? error.message : 'An error occurred while saving the credit note',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            Issue Credit Note
+          </DialogTitle>
+          <DialogDescription>
+            Reverse all or part of invoice {invoice.invoiceNumber}. The original invoice is left unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="w-28">Qty to credit</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item, index) => (
+                  <TableRow key={item.lineItemId || index}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={invoice.items[index]?.quantity}
+                        step="any"
+                        value={item.quantity}
+                        onChange={(e) => handleQuantityChange(index, e.target.value)}
+                        aria-label={`Quantity to credit for ${item.description}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.rate, invoice.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.total, invoice.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-end">
+            <div className="w-full sm:w-64 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatCurrency(totals.subtotal, invoice.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">GST</span>
+                <span>{formatCurrency(totals.taxAmount, invoice.currency)}</span>
+              </div>
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Credit total</span>
+                <span>{formatCurrency(totals.total, invoice.currency)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="credit-note-date">Credit Date</Label>
+              <Input id="credit-note-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="credit-note-apply">Apply to invoice balance</Label>
+                <p className="text-xs text-muted-foreground">
+                  Otherwise the credit is held for the customer
+                </p>
+              </div>
+              <Switch id="credit-note-apply" checked={applyToInvoice} onCheckedChange={setApplyToInvoice} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="credit-note-reason">Reason</Label>
+            <Textarea
+              id="credit-note-reason"
+              placeholder="e.g. Disputed line - service not delivered"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !reason.trim() || !date || totals.total <= 0}>
+            {isSaving ? 'Issuing...' : 'Issue Credit Note'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreditNoteModal;
@@ -22,7 +22,7 @@ import { generateInvoicePdf } from "@/utils/pdfUtils";
 import { formatCurrency, formatDate } from "@/utils/invoiceUtils";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { LineItem, Invoice, Customer, BusinessProfile, Item, AdditionalCharge } from "@/types";
+import { LineItem, Invoice, Customer, BusinessProfile, Item, AdditionalCharge, TaxCode, TAX_CODES, DEFAULT_TAX_CODE } from "@/types";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -403,7 +403,11 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
     setSubtotal(newSubtotal);
     let newTaxAmount = 0;
     if (isTaxEnabled && taxRate > 0) {
-      newTaxAmount = (newSubtotal * taxRate) / 100;
+      // Only standard-rated lines attract GST
+      const taxableSubtotal = items
+        .filter(item => (item.taxCode || DEFAULT_TAX_CODE) === 'GST15')
+        .reduce((sum, item) => sum + (Number(item.total) || 0), 0);
+      newTaxAmount = (taxableSubtotal * taxRate) / 100;
     }
     setTaxAmount(newTaxAmount);
     
@@ -439,7 +443,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
   };
 
   const addItem = () => {
-    const newItem = { id: `${items.length + 1}`, description: "", quantity: 1, unit: "each", rate: 0, total: 0 };
+    const newItem: LineItem = { id: `${items.length + 1}`, description: "", quantity: 1, unit: "each", rate: 0, total: 0, taxCode: DEFAULT_TAX_CODE };
     setItems([...items, newItem]);
     if (isMobile) {
       setCurrentItemIndex(items.length);
@@ -545,8 +549,8 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
       updatedLineItem.rate = 0; // Default rate if no price info is available
     }
     updatedLineItem.unit = selectedItem.unit || 'each';
-    // Tax is handled at the invoice level, not per item in this form currently
-    // updatedLineItem.tax = selectedItem.taxRate || 0;
+    // The rate is set at the invoice level; the item decides whether it applies
+    updatedLineItem.taxCode = selectedItem.taxCode || DEFAULT_TAX_CODE;
     
     // Calculate total based on quantity and rate
     // Ensure quantity is treated as a number
@@ -684,6 +688,24 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
               inputMode="decimal"
             />
           </div>
+          {isTaxEnabled && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Tax</label>
+              <Select
+                value={currentItem.taxCode || DEFAULT_TAX_CODE}
+                onValueChange={value => updateItem(currentItemIndex, "taxCode", value as TaxCode)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TAX_CODES) as TaxCode[]).map(code => (
+                    <SelectItem key={code} value={code}>{TAX_CODES[code].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="pt-2">
             <div className="flex justify-between items-center text-sm font-medium">
               <span>Total:</span>
@@ -1007,6 +1029,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                               </FormControl>
                               <SelectContent position="popper" className="min-w-[var(--radix-select-trigger-width)]">
                                 <SelectItem value="NZD">NZD ($)</SelectItem>
+                                <SelectItem value="USD">USD (US$)</SelectItem>
                                 <SelectItem value="EUR">EUR (€)</SelectItem>
                                 <SelectItem value="GBP">GBP (£)</SelectItem>
                                 <SelectItem value="CAD">CAD (C$)</SelectItem>
@@ -1264,6 +1287,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                                           <th className="text-right py-2 text-sm font-medium">Qty</th>
                                           <th className="text-left py-2 text-sm font-medium">Unit</th>
                                           <th className="text-right py-2 text-sm font-medium">Rate</th>
+                                          {isTaxEnabled && <th className="text-left py-2 text-sm font-medium">Tax</th>}
                                           <th className="text-right py-2 text-sm font-medium">Total</th>
                                           <th className="py-2 w-10"></th>
                                         </tr>
@@ -1348,6 +1372,23 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                                                 data-testid={`item-rate-${index}`}
                                               />
                                             </td>
+                                            {isTaxEnabled && (
+                                              <td className="py-2 px-2">
+                                                <Select
+                                                  value={item.taxCode || DEFAULT_TAX_CODE}
+                                                  onValueChange={value => updateItem(index, "taxCode", value as TaxCode)}
+                                                >
+                                                  <SelectTrigger data-testid={`item-tax-code-${index}`}>
+                                                    <SelectValue />
+                                                  </SelectTrigger>
+                                                  <SelectContent>
+                                                    {(Object.keys(TAX_CODES) as TaxCode[]).map(code => (
+                                                      <SelectItem key={code} value={code}>{TAX_CODES[code].label}</SelectItem>
+                                                    ))}
+                                                  </SelectContent>
+                                                </Select>
+                                              </td>
+                                            )}
                                             <td className="py-2 px-2 text-right" data-testid={`item-amount-${index}`}>
                                               {formatCurrency(item.total, form.getValues('currency'))}
                                             </td>
@@ -1368,7 +1409,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({
                                       </tbody>
                                       <tfoot>
                                         <tr>
-                                          <td colSpan={5} className="py-2">
+                                          <td colSpan={isTaxEnabled ? 6 : 5} className="py-2">
                                             <Button
                                               type="button"
                                               onClick={addItem}
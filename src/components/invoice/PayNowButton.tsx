@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CheckCircle, CreditCard, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { paymentGatewayService } from '@/services/paymentGatewayService';
+import { Invoice } from '@/types';
+
+interface PayNowButtonProps {
+  invoice: Invoice;
+  shareToken?: string;
+  className?: string;
+}
+
+const PayNowButton: React.FC<PayNowButtonProps> = ({ invoice, shareToken, className }) => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [isPaid, setIsPaid] = useState(false);
+
+  // The gateway sends the customer back here with the checkout outcome
+  useEffect(() => {
+    const outcome = searchParams.get('payment');
+    if (!outcome) return;
+
+    if (outcome === 'success') {
+      const sessionId = searchParams.get('session_id');
+      try {
+        if (sessionId) paymentGatewayService.handleCheckoutReturn(sessionId);
+        setIsPaid(true);
+        toast({
+          title: 'Payment received',
+          description: 'Thank you! Your payment is being processed and a receipt will follow.',
+        });
+      } catch (error) {
+        console.error('Error confirming payment:', error);
+        toast({
+          title: 'Payment not confirmed',
+          description: 'We could not confirm your payment. Please contact the sender.',
+          variant: 'destructive',
+        });
+      }
+    } else if (outcome === 'cancelled') {
+      toast({ title: 'Payment cancelled', description: 'You have not been charged.' });
+    }
+
+    const remaining = new URLSearchParams(searchParams);
+    remaining.delete('payment');
+    remaining.delete('session_id');
+    setSearchParams(remaining, { replace: true });
+  }, [searchParams, setSearchParams, toast]);
+
+  if (!paymentGatewayService.isOnlinePaymentEnabled() || paymentGatewayService.getAmountDue(invoice) <= 0) {
+    return null;
+  }
+
+  if (isPaid) {
+    return (
+      <Button variant="outline" disabled className={className}>
+        <CheckCircle className="mr-2 h-4 w-4" />
+        Payment received
+      </Button>
+    );
+  }
+
+  const handlePayNow = async () => {
+    setIsRedirecting(true);
+    try {
+      const session = await paymentGatewayService.startCheckout({
+        invoice,
+        shareToken,
+        returnUrl: `${window.location.origin}${window.location.pathname}`
+      });
+      window.location.assign(session.url);
+    } catch (error) {
+      console.error('Error starting checkout:', error);
+      toast({
+        title: 'Payment unavailable',
+        description: 'Could not start the payment. Please try again.',
+        variant: 'destructive',
+      });
+      setIsRedirecting(false);
+    }
+  };
+
+  return (
+    <Button onClick={handlePayNow} disabled={isRedirecting} className={className}>
+      {isRedirecting ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <CreditCard className="mr-2 h-4 w-4" />
+      )}
+      {isRedirecting ? 'Redirecting...' : 'Pay now'}
+    </Button>
+  );
+};
+
+export default PayNowButton;
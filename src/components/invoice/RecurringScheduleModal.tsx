@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Invoice } from '@/types';
+import { RecurringFrequency, RECURRING_FREQUENCY_OPTIONS } from '@/types/recurringInvoice';
+import { recurringInvoiceService } from '@/services/recurringInvoiceService';
+import { formatDate } from '@/utils/invoiceUtils';
+
+interface RecurringScheduleModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice;
+  onCreated?: () => void;
+}
+
+const RecurringScheduleModal: React.FC<RecurringScheduleModalProps> = ({
+  open,
+  onOpenChange,
+  invoice,
+  onCreated,
+}) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<RecurringFrequency>('monthly');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [autoSend, setAutoSend] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(`${invoice.customer?.name || 'Customer'} retainer`);
+      setFrequency('monthly');
+      setStartDate(recurringInvoiceService.calculateNextRunDate(formatDate(new Date()), 'monthly'));
+      setEndDate('');
+      setAutoSend(false);
+    }
+  }, [open, invoice]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await recurringInvoiceService.createSchedule({
+        name,
+        customerId: invoice.customerId,
+        templateInvoiceId: invoice.id,
+        template: recurringInvoiceService.createTemplateFromInvoice(invoice),
+        frequency,
+        startDate,
+        endDate: endDate || null,
+        nextRunDate: startDate,
+        lastRunDate: null,
+        autoSend,
+        status: 'active',
+        occurrencesGenerated: 0
+      });
+      toast({
+        title: 'Recurring schedule created',
+        description: `${name} will generate its first invoice on ${startDate}.`,
+      });
+      onCreated?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating recurring schedule:', error);
+      toast({
+        title: 'Could not create schedule',
+        description: error instanceof Error ? error.message : 'An error occurred while saving the schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Make Invoice Recurring
+          </DialogTitle>
+          <DialogDescription>
+            Invoice {invoice.invoiceNumber} will be used as the template for every generated invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-name">Schedule Name</Label>
+            <Input id="schedule-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurringFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECURRING_FREQUENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-start">First Invoice</Label>
+              <Input id="schedule-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-end">End Date (optional)</Label>
+              <Input id="schedule-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="schedule-auto-send">Send automatically</Label>
+              <p className="text-xs text-muted-foreground">
+                Email each invoice to the customer instead of leaving it as a draft
+              </p>
+            </div>
+            <Switch id="schedule-auto-send" checked={autoSend} onCheckedChange={setAutoSend} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name || !startDate}>
+            {isSaving ? 'Saving...' : 'Create Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringScheduleModal;
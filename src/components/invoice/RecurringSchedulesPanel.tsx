@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Pause, Play, Repeat, SkipForward, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAppData } from '@/hooks/useAppData';
+import { RecurringInvoiceSchedule, RECURRING_FREQUENCY_OPTIONS } from '@/types/recurringInvoice';
+import { recurringInvoiceService } from '@/services/recurringInvoiceService';
+import { formatCurrency } from '@/utils/invoiceUtils';
+
+interface RecurringSchedulesPanelProps {
+  refreshKey?: number;
+}
+
+const STATUS_VARIANTS: Record<RecurringInvoiceSchedule['status'], 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  paused: 'secondary',
+  completed: 'outline',
+};
+
+const RecurringSchedulesPanel: React.FC<RecurringSchedulesPanelProps> = ({ refreshKey = 0 }) => {
+  const { runRecurringSchedule, refreshInvoices } = useAppData();
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<RecurringInvoiceSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<{ [id: string]: boolean }>({});
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSchedules(await recurringInvoiceService.getSchedules());
+    } catch (error) {
+      console.error('Error loading recurring schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules, refreshKey]);
+
+  const withBusy = async (id: string, action: () => Promise<void>) => {
+    setBusy(prev => ({ ...prev, [id]: true }));
+    try {
+      await action();
+      await loadSchedules();
+    } catch (error) {
+      toast({
+        title: 'Action failed',
+        description: error instanceof Error ? error.message : 'Could not update the recurring schedule.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(prev => ({ ...prev, [id]: false }));
+    }
+  };
+
+  const handleTogglePause = (schedule: RecurringInvoiceSchedule) => withBusy(schedule.id, async () => {
+    if (schedule.status === 'paused') {
+      await recurringInvoiceService.resumeSchedule(schedule.id);
+      toast({ title: 'Schedule resumed', description: `${schedule.name} is active again.` });
+    } else {
+      await recurringInvoiceService.pauseSchedule(schedule.id);
+      toast({ title: 'Schedule paused', description: `${schedule.name} will not generate invoices until resumed.` });
+    }
+  });
+
+  const handleSkip = (schedule: RecurringInvoiceSchedule) => withBusy(schedule.id, async () => {
+    const updated = await recurringInvoiceService.skipNextRun(schedule.id);
+    toast({ title: 'Occurrence skipped', description: `Next invoice will be generated on ${updated.nextRunDate}.` });
+  });
+
+  const handleRunNow = (schedule: RecurringInvoiceSchedule) => withBusy(schedule.id, async () => {
+    const result = await runRecurringSchedule(schedule.id);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    await refreshInvoices();
+    toast({
+      title: 'Invoice generated',
+      description: `Invoice ${result.invoiceNumber} was created${result.sent ? ' and sent' : ' as a draft'}.`,
+    });
+  });
+
+  const frequencyLabel = (frequency: RecurringInvoiceSchedule['frequency']) =>
+    RECURRING_FREQUENCY_OPTIONS.find(option => option.value === frequency)?.label || frequency;
+
+  if (!loading && schedules.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Repeat className="h-5 w-5" />
+          Recurring Schedules
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading schedules...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Frequency</TableHead>
+                  <TableHead>Next Invoice</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map(schedule => (
+                  <TableRow key={schedule.id}>
+                    <TableCell className="font-medium">
+                      {schedule.name}
+                      {schedule.autoSend && (
+                        <Badge variant="outline" className="ml-2 text-xs">Auto-send</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{schedule.customer?.name || schedule.customerId}</TableCell>
+                    <TableCell>{frequencyLabel(schedule.frequency)}</TableCell>
+                    <TableCell>{schedule.status === 'completed' ? '—' : schedule.nextRunDate}</TableCell>
+                    <TableCell>{formatCurrency(schedule.template.total, schedule.template.currency)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[schedule.status]} className="capitalize">
+                        {schedule.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {busy[schedule.id] ? (
+                        <Loader2 className="inline h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : schedule.status !== 'completed' && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label={schedule.status === 'paused' ? 'Resume schedule' : 'Pause schedule'}
+                            title={schedule.status === 'paused' ? 'Resume' : 'Pause'}
+                            onClick={() => handleTogglePause(schedule)}
+                          >
+                            {schedule.status === 'paused' ? <Play size={16} /> : <Pause size={16} />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Skip next invoice"
+                            title="Skip next invoice"
+                            onClick={() => handleSkip(schedule)}
+                          >
+                            <SkipForward size={16} />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Generate invoice now"
+                            title="Run now"
+                            onClick={() => handleRunNow(schedule)}
+                          >
+                            <Zap size={16} />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecurringSchedulesPanel;
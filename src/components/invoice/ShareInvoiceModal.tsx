@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { Copy, Calendar, Share2, Link2, Check, Mail } from 'lucide-react';
+import { Copy, Calendar, Share2, Link2, Check, Mail, Lock, Settings2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -22,7 +22,9 @@ import { useToast } from '@/hooks/use-toast';
 import { sharedInvoiceService } from '@/services/supabaseService';
 import { Invoice, InvoiceTemplateName } from '@/types';
 import EmailInputModal from './EmailInputModal';
+import ShareLinkManager from './ShareLinkManager';
 import { emailService } from '@/services/emailService';
+import { auditService } from '@/services/auditService';
 import { pdfService } from '@/services/pdfService';
 import { renderTemplateToHtml, createTemplateElement } from '@/services/invoiceTemplateRenderer';
 import { businessProfileService } from '@/services/supabaseService';
@@ -64,24 +66,52 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
   );
   const [enableExpiration, setEnableExpiration] = useState(false);
   const [expirationDays, setExpirationDays] = useState(30);
+  const [passcode, setPasscode] = useState('');
+  const [showManager, setShowManager] = useState(false);
   const [copied, setCopied] = useState(false);
   const urlInputRef = useRef<HTMLInputElement>(null);
 
-  const handleCreateShareLink = async () => {
-    setIsCreating(true);
+  const requirePasscode = passcode.trim() !== '';
+
+  const createShareLink = async () => {
+    const expiresAt = enableExpiration 
+      ? new Date(Date.now() + expirationDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
+
+    const sharedInvoice = await sharedInvoiceService.createSharedInvoice(
+      invoice.id,
+      selectedTemplate,
+      expiresAt
+    );
+
+    if (requirePasscode) {
+      await sharedInvoiceService.setSharedInvoicePasscode(sharedInvoice.id, passcode.trim());
+    }
+
+    setShareUrl(`${window.location.origin}/shared/invoice/${sharedInvoice.shareToken}`);
+  };
+
+  const validatePasscode = (): boolean => {
+    if (!requirePasscode) return true;
     try {
-      const expiresAt = enableExpiration 
-        ? new Date(Date.now() + expirationDays * 24 * 60 * 60 * 1000).toISOString()
-        : undefined;
+      sharedInvoiceService.validateSharePasscode(passcode);
+      return true;
+    } catch (validationError) {
+      toast({
+        title: 'Invalid passcode',
+        description: validationError instanceof Error ? validationError.message : 'Passcode is too short',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
 
-      const sharedInvoice = await sharedInvoiceService.createSharedInvoice(
-        invoice.id,
-        selectedTemplate,
-        expiresAt
-      );
+  const handleCreateShareLink = async () => {
+    if (!validatePasscode()) return;
 
-      const url = `${window.location.origin}/shared/invoice/${sharedInvoice.shareToken}`;
-      setShareUrl(url);
+    setIsCreating(true);
+    try {
+      await createShareLink();
 
       toast({
         title: 'Share link created',
@@ -155,6 +185,7 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
   };
 
   const handleSendEmail = () => {
+    if (!shareUrl && !validatePasscode()) return;
     setShowEmailModal(true);
   };
 
@@ -162,19 +193,8 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
     setIsSendingEmail(true);
     try {
       // Create a share link first if it doesn't exist
-      let url = shareUrl;
-      if (!url) {
-        const expiresAt = enableExpiration 
-          ? new Date(Date.now() + expirationDays * 24 * 60 * 60 * 1000).toISOString()
-          : undefined;
-
-        const sharedInvoice = await sharedInvoiceService.createSharedInvoice(
-          invoice.id,
-          selectedTemplate,
-          expiresAt
-        );
-        url = `${window.location.origin}/shared/invoice/${sharedInvoice.shareToken}`;
-        setShareUrl(url);
+      if (!shareUrl) {
+        await createShareLink();
       }
 
       // Get business profile for template rendering
@@ -219,6 +239,10 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
       });
 
       if (result.success) {
+        await auditService.logEvent('invoice', invoice.id, 'send', {
+          label: invoice.invoiceNumber,
+          data: { to: email }
+        });
         toast({
           title: 'Email sent successfully!',
           description: `Invoice has been sent to ${email}`,
@@ -243,6 +267,7 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
     setCopied(false);
     setShowEmailModal(false);
     setIsSendingEmail(false);
+    setPasscode('');
     onOpenChange(false);
   };
 
@@ -330,6 +355,23 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
             )}
           </div>
 
+          {/* Passcode Settings */}
+          {!shareUrl && (
+            <div className="space-y-2">
+              <Label htmlFor="share-passcode">Passcode (optional)</Label>
+              <Input
+                id="share-passcode"
+                type="password"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                placeholder="Leave blank for an open link"
+              />
+              <p className="text-sm text-muted-foreground">
+                Recipients must enter it before the invoice is shown
+              </p>
+            </div>
+          )}
+
           {/* Generate/Display Share Link or Send Email */}
           {!shareUrl ? (
             <div className="space-y-2">
@@ -448,8 +490,24 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
                   </span>
                 </div>
               )}
+
+              {requirePasscode && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Lock className="h-4 w-4" />
+                  <span>Protected by passcode. Send it to the recipient separately.</span>
+                </div>
+              )}
             </div>
           )}
+
+          <Button
+            variant="ghost"
+            onClick={() => setShowManager(true)}
+            className="w-full text-muted-foreground"
+          >
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage existing links
+          </Button>
         </div>
       </DialogContent>
       
@@ -460,6 +518,12 @@ const ShareInvoiceModal: React.FC<ShareInvoiceModalProps> = ({
         customerEmail={invoice.customer?.email}
         invoiceNumber={invoice.invoiceNumber}
       />
+
+      <ShareLinkManager
+        open={showManager}
+        onOpenChange={setShowManager}
+        invoice={invoice}
+      />
     </Dialog>
   );
 };
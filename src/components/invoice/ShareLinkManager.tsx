@@ -0,0 +1,286 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Copy, Eye, Lock, LockOpen, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { sharedInvoiceService } from '@/services/supabaseService';
+import { Invoice, SharedInvoice, SharedInvoiceView, ShareLinkStatus } from '@/types';
+
+interface ShareLinkManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  invoice: Invoice;
+}
+
+const EXTEND_OPTIONS = [7, 30, 90];
+
+const STATUS_VARIANTS: Record<ShareLinkStatus, 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive',
+};
+
+const formatTimestamp = (value: string) => format(parseISO(value), 'dd MMM yyyy, h:mm a');
+
+const getShareUrl = (link: SharedInvoice) => `${window.location.origin}/shared/invoice/${link.shareToken}`;
+
+const ShareLinkManager: React.FC<ShareLinkManagerProps> = ({ open, onOpenChange, invoice }) => {
+  const { toast } = useToast();
+  const [links, setLinks] = useState<SharedInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyLinkId, setBusyLinkId] = useState<string | null>(null);
+  const [viewLogLinkId, setViewLogLinkId] = useState<string | null>(null);
+  const [views, setViews] = useState<SharedInvoiceView[]>([]);
+  const [passcodeLinkId, setPasscodeLinkId] = useState<string | null>(null);
+  const [passcode, setPasscode] = useState('');
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setLinks(await sharedInvoiceService.getSharedInvoicesForInvoice(invoice.id));
+    } catch (error) {
+      console.error('Error loading share links:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load share links.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [invoice.id, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setViewLogLinkId(null);
+    setPasscodeLinkId(null);
+    loadLinks();
+  }, [open, loadLinks]);
+
+  const replaceLink = (updated: SharedInvoice) => {
+    setLinks(current => current.map(link => (link.id === updated.id ? { ...link, ...updated } : link)));
+  };
+
+  const runAction = async (link: SharedInvoice, action: () => Promise<void>, failure: string) => {
+    setBusyLinkId(link.id);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  const handleCopy = async (link: SharedInvoice) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link));
+      toast({ title: 'Link copied', description: 'Share link copied to clipboard.' });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  const handleRevoke = (link: SharedInvoice) =>
+    runAction(link, async () => {
+      replaceLink(await sharedInvoiceService.revokeSharedInvoice(link.id));
+      toast({ title: 'Link revoked', description: 'The link no longer opens the invoice.' });
+    }, 'Failed to revoke share link');
+
+  const handleExtend = (link: SharedInvoice, days: number) =>
+    runAction(link, async () => {
+      const updated = await sharedInvoiceService.extendSharedInvoice(link, days);
+      replaceLink(updated);
+      toast({
+        title: 'Link extended',
+        description: `Now expires ${formatTimestamp(updated.expiresAt as string)}.`,
+      });
+    }, 'Failed to extend share link');
+
+  const handleToggleViews = (link: SharedInvoice) => {
+    if (viewLogLinkId === link.id) {
+      setViewLogLinkId(null);
+      return;
+    }
+    runAction(link, async () => {
+      setViews(await sharedInvoiceService.getSharedInvoiceViews(link.id));
+      setViewLogLinkId(link.id);
+    }, 'Failed to load view log');
+  };
+
+  const handleStartPasscode = (link: SharedInvoice) => {
+    setPasscodeLinkId(passcodeLinkId === link.id ? null : link.id);
+    setPasscode('');
+    setPasscodeError(null);
+  };
+
+  const handleSavePasscode = (link: SharedInvoice) => {
+    try {
+      sharedInvoiceService.validateSharePasscode(passcode);
+    } catch (validationError) {
+      setPasscodeError(validationError instanceof Error ? validationError.message : 'Invalid passcode');
+      return;
+    }
+    runAction(link, async () => {
+      await sharedInvoiceService.setSharedInvoicePasscode(link.id, passcode.trim());
+      replaceLink({ ...link, hasPasscode: true });
+      setPasscodeLinkId(null);
+      toast({ title: 'Passcode set', description: 'Visitors must enter the passcode to view the invoice.' });
+    }, 'Failed to set passcode');
+  };
+
+  const handleRemovePasscode = (link: SharedInvoice) =>
+    runAction(link, async () => {
+      await sharedInvoiceService.setSharedInvoicePasscode(link.id, null);
+      replaceLink({ ...link, hasPasscode: false });
+      toast({ title: 'Passcode removed' });
+    }, 'Failed to remove passcode');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share links for {invoice.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            Revoke or extend links you have sent, protect them with a passcode and see when they were opened.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading share links...</p>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No share links have been created for this invoice yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {links.map(link => {
+              const status = sharedInvoiceService.getShareLinkStatus(link);
+              const isBusy = busyLinkId === link.id;
+
+              return (
+                <div key={link.id} className="rounded-md border p-3 space-y-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={STATUS_VARIANTS[status]} className="capitalize">{status}</Badge>
+                        {link.hasPasscode && (
+                          <Badge variant="outline" className="gap-1">
+                            <Lock className="h-3 w-3" />
+                            Passcode
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="font-mono text-xs text-muted-foreground break-all">{getShareUrl(link)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Created {formatTimestamp(link.createdAt)}
+                        {' · '}
+                        {link.expiresAt ? `Expires ${formatTimestamp(link.expiresAt)}` : 'Never expires'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {link.accessCount} view{link.accessCount !== 1 ? 's' : ''}
+                        {link.lastViewedAt && ` · Last viewed ${formatTimestamp(link.lastViewedAt)}`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => handleCopy(link)} title="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <Select value="" onValueChange={(days) => handleExtend(link, Number(days))} disabled={isBusy}>
+                      <SelectTrigger className="h-8 w-40">
+                        <SelectValue placeholder={status === 'revoked' ? 'Reactivate for...' : 'Extend by...'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXTEND_OPTIONS.map(days => (
+                          <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {link.hasPasscode ? (
+                      <Button variant="outline" size="sm" onClick={() => handleRemovePasscode(link)} disabled={isBusy}>
+                        <LockOpen className="h-4 w-4 mr-1" />
+                        Remove passcode
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => handleStartPasscode(link)} disabled={isBusy}>
+                        <Lock className="h-4 w-4 mr-1" />
+                        Set passcode
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleToggleViews(link)} disabled={isBusy}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      {viewLogLinkId === link.id ? 'Hide views' : 'View log'}
+                    </Button>
+                    {status !== 'revoked' && (
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(link)} disabled={isBusy}>
+                        <Ban className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+
+                  {passcodeLinkId === link.id && (
+                    <div className="space-y-1">
+                      <div className="flex gap-2">
+                        <Input
+                          type="password"
+                          value={passcode}
+                          onChange={(e) => setPasscode(e.target.value)}
+                          placeholder="Passcode"
+                          className="h-8"
+                        />
+                        <Button size="sm" onClick={() => handleSavePasscode(link)} disabled={isBusy}>
+                          Save
+                        </Button>
+                      </div>
+                      {passcodeError && <p className="text-sm text-destructive">{passcodeError}</p>}
+                    </div>
+                  )}
+
+                  {viewLogLinkId === link.id && (
+                    views.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">This link has not been opened yet.</p>
+                    ) : (
+                      <ul className="max-h-40 overflow-y-auto text-sm divide-y">
+                        {views.map(view => (
+                          <li key={view.id} className="py-1 flex justify-between gap-4">
+                            <span>{formatTimestamp(view.viewedAt)}</span>
+                            <span className="truncate text-xs text-muted-foreground">{view.userAgent}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareLinkManager;
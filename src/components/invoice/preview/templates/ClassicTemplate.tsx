@@ -2,6 +2,7 @@ import React from 'react';
 import { Invoice } from '@/types';
 import { formatCurrency } from '@/utils/invoiceUtils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DocumentLabels, INVOICE_LABELS } from '@/components/invoice/templates/InvoiceTemplates';
 import { cn } from '@/lib/utils';
 
 interface ClassicTemplateProps {
@@ -14,6 +15,7 @@ interface ClassicTemplateProps {
   taxRate: string;
   tax: number;
   businessLogo?: string;
+  labels?: DocumentLabels;
 }
 
 const ClassicTemplate = ({ 
@@ -25,7 +27,8 @@ const ClassicTemplate = ({
   clientAddress,
   taxRate,
   tax,
-  businessLogo
+  businessLogo,
+  labels = INVOICE_LABELS
 }: ClassicTemplateProps) => {
   const isMobile = useIsMobile();
   
@@ -70,7 +73,7 @@ const ClassicTemplate = ({
               </div>
             )}
             <h1 className={cn("text-xl sm:text-2xl font-bold text-gray-800", businessLogo ? "mt-1" : "")}>
-              INVOICE
+              {labels.title}
             </h1>
             <p className="text-sm sm:text-base text-gray-600">#{invoice.invoiceNumber}</p>
           </div>
@@ -116,11 +119,11 @@ const ClassicTemplate = ({
         <div className="w-1/2">
           <div className="text-xs sm:text-sm">
             <div className="flex justify-between mb-1">
-              <span className="font-semibold">Invoice Number:</span>
+              <span className="font-semibold">{labels.numberLabel}:</span>
               <span>{invoice.invoiceNumber}</span>
             </div>
             <div className="flex justify-between mb-1">
-              <span className="font-semibold">Invoice Date:</span>
+              <span className="font-semibold">{labels.dateLabel}:</span>
               <span>{new Date(invoice.date).toLocaleDateString('en-US', { 
                 day: '2-digit', 
                 month: 'short', 
@@ -128,7 +131,7 @@ const ClassicTemplate = ({
               })}</span>
             </div>
             <div className="flex justify-between mb-1">
-              <span className="font-semibold">Due Date:</span>
+              <span className="font-semibold">{labels.secondaryLabel}:</span>
               <span>{new Date(invoice.dueDate).toLocaleDateString('en-US', { 
                 day: '2-digit', 
                 month: 'short', 
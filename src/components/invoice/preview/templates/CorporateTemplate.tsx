@@ -3,6 +3,7 @@ import { formatCurrency } from '@/utils/invoiceUtils';
 import { Invoice, LineItem, BusinessTheme, DEFAULT_BUSINESS_THEME } from '@/types';
 import { PDFCard, PDFCardContent } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DocumentLabels, INVOICE_LABELS } from '@/components/invoice/templates/InvoiceTemplates';
 
 interface CorporateTemplateProps {
   invoice: Invoice;
@@ -15,6 +16,7 @@ interface CorporateTemplateProps {
   tax: number;
   businessLogo?: string;
   theme?: BusinessTheme;
+  labels?: DocumentLabels;
 }
 
 const CorporateTemplate = ({
@@ -27,7 +29,8 @@ const CorporateTemplate = ({
   taxRate,
   tax,
   businessLogo,
-  theme = DEFAULT_BUSINESS_THEME
+  theme = DEFAULT_BUSINESS_THEME,
+  labels = INVOICE_LABELS
 }: CorporateTemplateProps) => {
   const isMobile = useIsMobile();
   
@@ -68,7 +71,7 @@ const CorporateTemplate = ({
             </div>
           )}
           <div>
-            <h1 className="text-xl sm:text-3xl font-bold mb-1">INVOICE</h1>
+            <h1 className="text-xl sm:text-3xl font-bold mb-1">{labels.title}</h1>
             <p className="text-sm sm:text-lg">#{invoice.invoiceNumber}</p>
           </div>
           <div className="text-right">
@@ -123,15 +126,15 @@ const CorporateTemplate = ({
         </div>
         <div className="p-3 sm:p-6 rounded-lg" style={{ backgroundColor: theme.background }}>
           <div className="mb-3 sm:mb-4">
-            <p className="text-xs font-bold uppercase tracking-wider mb-0.5 sm:mb-1" style={{ color: theme.textLight }}>Invoice Number</p>
+            <p className="text-xs font-bold uppercase tracking-wider mb-0.5 sm:mb-1" style={{ color: theme.textLight }}>{labels.numberLabel}</p>
             <p className="text-sm sm:text-lg font-medium" style={{ color: theme.text }}>{invoice.invoiceNumber}</p>
           </div>
           <div className="mb-3 sm:mb-4">
-            <p className="text-xs font-bold uppercase tracking-wider mb-0.5 sm:mb-1" style={{ color: theme.textLight }}>Invoice Date</p>
+            <p className="text-xs font-bold uppercase tracking-wider mb-0.5 sm:mb-1" style={{ color: theme.textLight }}>{labels.dateLabel}</p>
             <p className="text-sm sm:text-lg font-medium" style={{ color: theme.text }}>{new Date(invoice.date).toLocaleDateString()}</p>
           </div>
           <div>
-            <p className="text-xs font-bold uppercase tracking-wider mb-0.5 sm:mb-1" style={{ color: theme.textLight }}>Due Date</p>
+            <p className="text-xs font-bold uppercase tracking-wider mb-0.5 sm:mb-1" style={{ color: theme.textLight }}>{labels.secondaryLabel}</p>
             <p className="text-sm sm:text-lg font-medium" style={{ color: theme.text }}>{new Date(invoice.dueDate).toLocaleDateString()}</p>
           </div>
         </div>
@@ -245,7 +248,7 @@ const CorporateTemplate = ({
       
       {/* Footer */}
       <div className="border-t mt-6 sm:mt-8 pt-4 sm:pt-6 text-center" style={{ borderColor: theme.textLight + '40' }}>
-        <p className="text-xs sm:text-sm" style={{ color: theme.textLight }}>Payment is due within {getDaysDifference(invoice.date, invoice.dueDate)} days of issue</p>
+        <p className="text-xs sm:text-sm" style={{ color: theme.textLight }}>{labels.footerNote ?? `Payment is due within ${getDaysDifference(invoice.date, invoice.dueDate)} days of issue`}</p>
       </div>
     </div>
   );
@@ -3,6 +3,7 @@ import { formatCurrency } from '@/utils/invoiceUtils';
 import { Invoice, LineItem, BusinessTheme, DEFAULT_BUSINESS_THEME } from '@/types';
 import { PDFCard, PDFCardContent } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DocumentLabels, INVOICE_LABELS } from '@/components/invoice/templates/InvoiceTemplates';
 
 interface ExecutiveTemplateProps {
   invoice: Invoice;
@@ -15,6 +16,7 @@ interface ExecutiveTemplateProps {
   tax: number;
   businessLogo?: string;
   theme?: BusinessTheme;
+  labels?: DocumentLabels;
 }
 
 const ExecutiveTemplate = ({
@@ -27,7 +29,8 @@ const ExecutiveTemplate = ({
   taxRate,
   tax,
   businessLogo,
-  theme = DEFAULT_BUSINESS_THEME
+  theme = DEFAULT_BUSINESS_THEME,
+  labels = INVOICE_LABELS
 }: ExecutiveTemplateProps) => {
   const isMobile = useIsMobile();
   
@@ -58,7 +61,7 @@ const ExecutiveTemplate = ({
                 />
               </div>
             )}
-            <h1 className="text-2xl sm:text-3xl font-light tracking-wider mb-1" style={{ color: theme.text }}>INVOICE</h1>
+            <h1 className="text-2xl sm:text-3xl font-light tracking-wider mb-1" style={{ color: theme.text }}>{labels.title}</h1>
             <p className="text-base sm:text-lg font-semibold" style={{ color: theme.primary }}>#{invoice.invoiceNumber}</p>
           </div>
           <div className="text-right">
@@ -105,11 +108,11 @@ const ExecutiveTemplate = ({
         </div>
         <div className="text-right">
           <div className="mb-2 sm:mb-3">
-            <p className="text-xs sm:text-sm font-semibold uppercase tracking-wider mb-1" style={{ color: theme.textLight }}>Invoice Date</p>
+            <p className="text-xs sm:text-sm font-semibold uppercase tracking-wider mb-1" style={{ color: theme.textLight }}>{labels.dateLabel}</p>
             <p className="text-sm sm:text-lg" style={{ color: theme.text }}>{new Date(invoice.date).toLocaleDateString()}</p>
           </div>
           <div>
-            <p className="text-xs sm:text-sm font-semibold uppercase tracking-wider mb-1" style={{ color: theme.textLight }}>Due Date</p>
+            <p className="text-xs sm:text-sm font-semibold uppercase tracking-wider mb-1" style={{ color: theme.textLight }}>{labels.secondaryLabel}</p>
             <p className="text-sm sm:text-lg" style={{ color: theme.text }}>{new Date(invoice.dueDate).toLocaleDateString()}</p>
           </div>
         </div>
@@ -3,6 +3,7 @@ import { Invoice, BusinessTheme, DEFAULT_BUSINESS_THEME } from '@/types';
 import { Card, CardContent } from "@/components/ui/card";
 import { formatCurrency } from '@/utils/invoiceUtils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DocumentLabels, INVOICE_LABELS } from '@/components/invoice/templates/InvoiceTemplates';
 
 interface MinimalTemplateProps {
   invoice: Invoice;
@@ -15,6 +16,7 @@ interface MinimalTemplateProps {
   tax: number;
   businessLogo?: string;
   theme?: BusinessTheme;
+  labels?: DocumentLabels;
 }
 
 const MinimalTemplate = ({ 
@@ -27,7 +29,8 @@ const MinimalTemplate = ({
   taxRate,
   tax,
   businessLogo,
-  theme = DEFAULT_BUSINESS_THEME
+  theme = DEFAULT_BUSINESS_THEME,
+  labels = INVOICE_LABELS
 }: MinimalTemplateProps) => {
   const isMobile = useIsMobile();
   
@@ -59,7 +62,7 @@ const MinimalTemplate = ({
                 />
               </div>
             )}
-            <h1 className="text-xl sm:text-2xl font-light tracking-wide" style={{ color: theme.text }}>INVOICE</h1>
+            <h1 className="text-xl sm:text-2xl font-light tracking-wide" style={{ color: theme.text }}>{labels.title}</h1>
             <p className="mt-1 sm:mt-2 text-sm sm:text-base" style={{ color: theme.primary }}>#{invoice.invoiceNumber}</p>
           </div>
 
@@ -3,6 +3,7 @@ import { formatCurrency } from '@/utils/invoiceUtils';
 import { Invoice, LineItem, BusinessTheme, DEFAULT_BUSINESS_THEME } from '@/types';
 import { PDFCard, PDFCardContent } from '@/components/ui/card';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DocumentLabels, INVOICE_LABELS } from '@/components/invoice/templates/InvoiceTemplates';
 
 interface ModernInvoiceTemplateProps {
   invoice: Invoice;
@@ -15,6 +16,7 @@ interface ModernInvoiceTemplateProps {
   tax: number;
   businessLogo?: string;
   theme?: BusinessTheme;
+  labels?: DocumentLabels;
 }
 
 const ModernInvoiceTemplate = ({
@@ -27,7 +29,8 @@ const ModernInvoiceTemplate = ({
   taxRate,
   tax,
   businessLogo,
-  theme = DEFAULT_BUSINESS_THEME
+  theme = DEFAULT_BUSINESS_THEME,
+  labels = INVOICE_LABELS
 }: ModernInvoiceTemplateProps) => {
   const isMobile = useIsMobile();
 
@@ -77,7 +80,7 @@ const ModernInvoiceTemplate = ({
           <div className="mt-6 sm:mt-0 text-right w-full sm:w-auto">
             {/* <span className={`inline-block px-4 py-1 rounded-full border font-semibold text-sm mb-2 ${getStatusColor()}`}>{invoice.status}</span> */}
             <div className="text-xs opacity-80">
-              <span>Invoice #</span> <span className="font-bold">{invoice.invoiceNumber}</span>
+              <span className="capitalize">{labels.title.toLowerCase()} #</span> <span className="font-bold">{invoice.invoiceNumber}</span>
             </div>
             <div className="text-xs opacity-80">
               <span>Date: </span>{new Date(invoice.date).toLocaleDateString()}
@@ -100,11 +103,11 @@ const ModernInvoiceTemplate = ({
           </div>
           <div className="flex flex-col gap-2">
             <div>
-              <span className="text-xs font-bold" style={{ color: theme.textLight }}>Invoice Date: </span>
+              <span className="text-xs font-bold" style={{ color: theme.textLight }}>{labels.dateLabel}: </span>
               <span className="text-sm font-medium" style={{ color: theme.text }}>{new Date(invoice.date).toLocaleDateString()}</span>
             </div>
             <div>
-              <span className="text-xs font-bold" style={{ color: theme.textLight }}>Due Date: </span>
+              <span className="text-xs font-bold" style={{ color: theme.textLight }}>{labels.secondaryLabel}: </span>
               <span className="text-sm font-medium" style={{ color: theme.text }}>{new Date(invoice.dueDate).toLocaleDateString()}</span>
             </div>
             <div>
@@ -222,7 +225,7 @@ const ModernInvoiceTemplate = ({
           background: `linear-gradient(to right, ${theme.primary}10, ${theme.secondary}10)`,
           borderColor: theme.textLight + '30'
         }}>
-          <p className="text-xs" style={{ color: theme.textLight }}>Payment is due within {getDaysDifference(invoice.date, invoice.dueDate)} days of issue</p>
+          <p className="text-xs" style={{ color: theme.textLight }}>{labels.footerNote ?? `Payment is due within ${getDaysDifference(invoice.date, invoice.dueDate)} days of issue`}</p>
         </div>
       </div>
     </div>
@@ -3,6 +3,7 @@ import { Invoice, BusinessTheme, DEFAULT_BUSINESS_THEME } from '@/types';
 import { Card, CardContent } from "@/components/ui/card";
 import { formatCurrency } from '@/utils/invoiceUtils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DocumentLabels, INVOICE_LABELS } from '@/components/invoice/templates/InvoiceTemplates';
 
 interface ModernTemplateProps {
   invoice: Invoice;
@@ -15,6 +16,7 @@ interface ModernTemplateProps {
   tax: number;
   businessLogo?: string;
   theme?: BusinessTheme;
+  labels?: DocumentLabels;
 }
 
 const ModernTemplate = ({ 
@@ -27,7 +29,8 @@ const ModernTemplate = ({
   taxRate, 
   tax,
   businessLogo,
-  theme = DEFAULT_BUSINESS_THEME
+  theme = DEFAULT_BUSINESS_THEME,
+  labels = INVOICE_LABELS
 }: ModernTemplateProps) => {
   const isMobile = useIsMobile();
   
@@ -55,7 +58,7 @@ const ModernTemplate = ({
     <div className="w-full print-template p-3">
       {/* Header with Invoice Title */}
       <div className="p-3 sm:p-4 print:p-0">
-        <h3 className="text-xl sm:text-2xl font-bold" style={{ color: theme.text }}>Invoice</h3>
+        <h3 className="text-xl sm:text-2xl font-bold capitalize" style={{ color: theme.text }}>{labels.title.toLowerCase()}</h3>
       </div>
       
       {/* Company Header - Themed Background */}
@@ -113,11 +116,11 @@ const ModernTemplate = ({
         <div className="w-1/2">
           <div className="text-xs sm:text-sm">
             <div className="flex justify-between mb-1">
-              <span className="font-semibold" style={{ color: theme.text }}>Invoice Number:</span>
+              <span className="font-semibold" style={{ color: theme.text }}>{labels.numberLabel}:</span>
               <span style={{ color: theme.text }}>{invoice.invoiceNumber}</span>
             </div>
             <div className="flex justify-between mb-1">
-              <span className="font-semibold" style={{ color: theme.text }}>Invoice Date:</span>
+              <span className="font-semibold" style={{ color: theme.text }}>{labels.dateLabel}:</span>
               <span style={{ color: theme.text }}>{new Date(invoice.date).toLocaleDateString('en-US', { 
                 day: '2-digit', 
                 month: 'short', 
@@ -125,7 +128,7 @@ const ModernTemplate = ({
               })}</span>
             </div>
             <div className="flex justify-between mb-1">
-              <span className="font-semibold" style={{ color: theme.text }}>Due Date:</span>
+              <span className="font-semibold" style={{ color: theme.text }}>{labels.secondaryLabel}:</span>
               <span style={{ color: theme.text }}>{new Date(invoice.dueDate).toLocaleDateString('en-US', { 
                 day: '2-digit', 
                 month: 'short', 
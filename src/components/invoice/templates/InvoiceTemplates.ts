@@ -45,3 +45,28 @@ export const invoiceTemplates: InvoiceTemplate[] = [
     preview: 'Gradient header, bold typography, modern layout, and subtle shadows'
   }
 ];
+
+// Headings printed by the layouts, overridden when rendering other documents such as quotes
+export interface DocumentLabels {
+  title: string;
+  numberLabel: string;
+  dateLabel: string;
+  secondaryLabel: string;
+  secondaryValue?: string;
+  footerNote?: string;
+}
+
+export const INVOICE_LABELS: DocumentLabels = {
+  title: 'INVOICE',
+  numberLabel: 'Invoice Number',
+  dateLabel: 'Invoice Date',
+  secondaryLabel: 'Due Date',
+};
+
+export const QUOTE_LABELS: DocumentLabels = {
+  title: 'QUOTE',
+  numberLabel: 'Quote Number',
+  dateLabel: 'Quote Date',
+  secondaryLabel: 'Valid Until',
+  footerNote: 'Prices are valid until the date shown above',
+};
@@ -6,7 +6,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { Item, ItemCategory } from '@/types';
+import { Item, ItemCategory, TaxCode, TAX_CODES, DEFAULT_TAX_CODE } from '@/types';
 import { useAppData } from '@/hooks/useAppData';
 import {
   Select,
@@ -48,6 +48,7 @@ const itemFormSchema = z.object({
   salePrice: z.number().nullable().optional(),
   purchasePrice: z.number().nullable().optional(),
   taxRate: z.number().nullable().optional(),
+  taxCode: z.enum(['GST15', 'ZERO', 'EXEMPT', 'NOTAX']).default(DEFAULT_TAX_CODE),
   enableSaleInfo: z.boolean().default(true),
   enablePurchaseInfo: z.boolean().default(false),
   unit: z.string().default('each'),
@@ -73,6 +74,7 @@ export function ItemForm({ initialData, onSubmit, isLoading = false, categories,
       salePrice: initialData?.salePrice || null,
       purchasePrice: initialData?.purchasePrice || null,
       taxRate: initialData?.taxRate || null,
+      taxCode: initialData?.taxCode || DEFAULT_TAX_CODE,
       enableSaleInfo: initialData?.enableSaleInfo ?? true,
       enablePurchaseInfo: initialData?.enablePurchaseInfo ?? false,
       unit: initialData?.unit || 'each',
@@ -93,6 +95,7 @@ export function ItemForm({ initialData, onSubmit, isLoading = false, categories,
         salePrice: initialData?.salePrice || null,
         purchasePrice: initialData?.purchasePrice || null,
         taxRate: initialData?.taxRate || null,
+        taxCode: initialData?.taxCode || DEFAULT_TAX_CODE,
         enableSaleInfo: saleInfoEnabled,
         enablePurchaseInfo: purchaseInfoEnabled,
         unit: initialData?.unit || 'each',
@@ -109,6 +112,7 @@ export function ItemForm({ initialData, onSubmit, isLoading = false, categories,
         salePrice: null,
         purchasePrice: null,
         taxRate: null,
+        taxCode: DEFAULT_TAX_CODE,
         enableSaleInfo: true,
         enablePurchaseInfo: false,
         unit: 'each',
@@ -178,6 +182,7 @@ export function ItemForm({ initialData, onSubmit, isLoading = false, categories,
       salePrice: showSaleInfo ? values.salePrice || null : null,
       purchasePrice: showPurchaseInfo ? values.purchasePrice || null : null,
       taxRate: values.taxRate || null,
+      taxCode: values.taxCode,
       enableSaleInfo: showSaleInfo,
       enablePurchaseInfo: showPurchaseInfo,
       unit: values.unit,
@@ -486,6 +491,31 @@ export function ItemForm({ initialData, onSubmit, isLoading = false, categories,
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="taxCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium">Tax Code</FormLabel>
+                  <Select value={field.value} onValueChange={value => field.onChange(value as TaxCode)}>
+                    <FormControl>
+                      <SelectTrigger className="h-11">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(TAX_CODES) as TaxCode[]).map(code => (
+                        <SelectItem key={code} value={code}>
+                          {TAX_CODES[code].label} - {TAX_CODES[code].description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
         </div>
 
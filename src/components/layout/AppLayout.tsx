@@ -3,6 +3,8 @@ import { Sidebar } from './Sidebar';
 import { Header } from './Header';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useDunningScheduler } from '@/hooks/useDunningScheduler';
+import { usePaymentGatewaySync } from '@/hooks/usePaymentGatewaySync';
 import { Drawer, DrawerContent, DrawerTrigger } from "@/components/ui/drawer";
 import { Menu } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -19,6 +21,8 @@ export function AppLayout({
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const isMobile = useIsMobile();
+  useDunningScheduler();
+  usePaymentGatewaySync();
   
   // Temporarily commented out chat functionality
   /*
@@ -25,7 +25,15 @@ import {
   FileBarChart,
   PieChart,
   Building2,
-  Upload
+  Upload,
+  FileMinus,
+  ClipboardList,
+  Wand2,
+  BellRing,
+  ScrollText,
+  ReceiptText,
+  Store,
+  Target
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import AppVersion from '@/components/common/AppVersion';
@@ -51,7 +59,11 @@ export function Sidebar({ collapsed, isMobile, onCloseMobileMenu }: SidebarProps
     {
       title: 'Business',
       items: [
+        { name: 'Quotes', path: '/quotes', icon: ClipboardList, badge: null, permission: 'invoices:read' as Permission },
         { name: 'Invoices', path: '/invoices', icon: Receipt, badge: 'New', permission: 'invoices:read' as Permission },
+        { name: 'Credit Notes', path: '/credit-notes', icon: FileMinus, badge: null, permission: 'invoices:read' as Permission },
+        { name: 'Payment Reminders', path: '/payment-reminders', icon: BellRing, badge: null, permission: 'invoices:read' as Permission },
+        { name: 'Statements', path: '/statements', icon: ScrollText, badge: null, permission: 'invoices:read' as Permission },
         { name: 'Customers', path: '/customers', icon: Users, badge: null, permission: 'customers:read' as Permission },
         { name: 'Items', path: '/items', icon: FolderOpen, badge: null, permission: undefined },
       ]
@@ -60,10 +72,13 @@ export function Sidebar({ collapsed, isMobile, onCloseMobileMenu }: SidebarProps
       title: 'Financial',
       items: [
         { name: 'Expenses', path: '/expenses', icon: CreditCard, badge: null, permission: 'expenses:read' as Permission },
+        { name: 'Bills', path: '/bills', icon: ReceiptText, badge: null, permission: 'expenses:read' as Permission },
+        { name: 'Vendors', path: '/vendors', icon: Store, badge: null, permission: 'expenses:read' as Permission },
         { name: 'Expense Categories', path: '/expense-categories', icon: Tag, badge: null, permission: 'expenses:read' as Permission },
         { name: 'Accounts', path: '/accounts', icon: Activity, badge: null, permission: 'accounts:read' as Permission },
         { name: 'Bank Accounts', path: '/bank-accounts', icon: Building2, badge: null, permission: undefined },
         { name: 'Import Transactions', path: '/transaction-import', icon: Upload, badge: 'New', permission: undefined },
+        { name: 'Bank Rules', path: '/bank-rules', icon: Wand2, badge: null, permission: undefined },
         { name: 'Categories', path: '/categories', icon: Zap, badge: null, permission: undefined },
       ]
     },
@@ -81,6 +96,7 @@ export function Sidebar({ collapsed, isMobile, onCloseMobileMenu }: SidebarProps
       title: 'Reports & Compliance',
       items: [
         { name: 'Financial Reports', path: '/financial-reports', icon: FileBarChart, badge: null, permission: 'reports:view' as Permission },
+        { name: 'Budgets', path: '/budgets', icon: Target, badge: null, permission: 'reports:view' as Permission },
         { name: 'IRD Reporting', path: '/ird-reports', icon: PieChart, badge: 'New', permission: 'reports:generate' as Permission },
         { name: 'Journal Entries', path: '/journal-entries', icon: FileText, badge: null, permission: undefined },
       ]
@@ -1,6 +1,8 @@
 import React from 'react';
-import { Building2, Mail, Globe } from 'lucide-react';
+import { Building2, Mail, Globe, BookOpen } from 'lucide-react';
 import { OnboardingStepProps } from '../../types';
+import { ChartTemplatePack } from '../../types/payment';
+import { TEMPLATE_PACKS, chartOfAccountsService } from '../../services/chartOfAccountsService';
 
 const countries = [
   'New Zealand', 'Australia', 'United States', 'United Kingdom', 'Canada', 
@@ -80,7 +82,10 @@ export default function WelcomeStep({ data, onDataChange, onNext, isLoading }: O
             <select
               id="country"
               value={data.country}
-              onChange={(e) => onDataChange({ country: e.target.value })}
+              onChange={(e) => onDataChange({
+                country: e.target.value,
+                chartTemplatePack: chartOfAccountsService.getDefaultPack(e.target.value)
+              })}
               className="block w-full pl-10 pr-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent appearance-none"
               required
             >
@@ -91,6 +96,32 @@ export default function WelcomeStep({ data, onDataChange, onNext, isLoading }: O
             </select>
           </div>
         </div>
+
+        {/* Chart of Accounts */}
+        <div>
+          <label htmlFor="chartTemplatePack" className="block text-sm font-medium text-foreground mb-2">
+            Chart of Accounts
+          </label>
+          <div className="relative">
+            <BookOpen className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+            <select
+              id="chartTemplatePack"
+              value={data.chartTemplatePack || ''}
+              onChange={(e) => onDataChange({ chartTemplatePack: (e.target.value || null) as ChartTemplatePack | null })}
+              className="block w-full pl-10 pr-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent appearance-none"
+            >
+              <option value="">Set up later</option>
+              {(Object.keys(TEMPLATE_PACKS) as ChartTemplatePack[]).map(pack => (
+                <option key={pack} value={pack}>{TEMPLATE_PACKS[pack].label}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {data.chartTemplatePack
+              ? TEMPLATE_PACKS[data.chartTemplatePack].description
+              : 'You can install a chart of accounts from Settings at any time.'}
+          </p>
+        </div>
       </div>
 
       {/* Info Box */}
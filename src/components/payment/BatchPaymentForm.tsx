@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { paymentService } from '@/services/paymentService';
+import {
+  AllocatableInvoice,
+  CreateBatchPaymentRequest,
+  CustomerCredit,
+  EnhancedInvoice,
+  Payment
+} from '@/types/payment';
+
+interface BatchPaymentFormProps {
+  invoices: EnhancedInvoice[];
+  onSubmit: (request: CreateBatchPaymentRequest) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+const paymentMethods: { value: Payment['paymentMethod']; label: string }[] = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'credit_card', label: 'Credit Card' },
+  { value: 'online', label: 'Online Payment' }
+];
+
+// Oldest-first split, formatted for the allocation inputs
+const autoAllocate = (amount: number, invoices: AllocatableInvoice[]): Record<string, string> =>
+  Object.fromEntries(
+    paymentService.allocateOldestFirst(amount, invoices).allocations
+      .map(allocation => [allocation.invoiceId, allocation.amountAllocated.toFixed(2)])
+  );
+
+export function BatchPaymentForm({ invoices, onSubmit, onCancel, isLoading = false }: BatchPaymentFormProps) {
+  const [customerId, setCustomerId] = useState('');
+  const [currency, setCurrency] = useState('');
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [paymentMethod, setPaymentMethod] = useState<Payment['paymentMethod']>('bank_transfer');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [credits, setCredits] = useState<CustomerCredit[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const customers = useMemo(() => {
+    const byId = new Map<string, string>();
+    invoices.forEach(invoice => {
+      if (invoice.customerId && !byId.has(invoice.customerId)) {
+        byId.set(invoice.customerId, invoice.customer?.name || 'Unknown Customer');
+      }
+    });
+    return [...byId.entries()].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [invoices]);
+
+  const openInvoices: AllocatableInvoice[] = useMemo(() =>
+    invoices
+      .filter(invoice => invoice.customerId === customerId && invoice.balanceDue > 0)
+      .map(invoice => ({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        date: invoice.date,
+        dueDate: invoice.dueDate,
+        balanceDue: invoice.balanceDue,
+        currency: invoice.currency
+      }))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+    [invoices, customerId]
+  );
+
+  // One payment settles invoices in one currency, defaulting to that of the invoice due first
+  const currencies = useMemo(() => [...new Set(openInvoices.map(invoice => invoice.currency))], [openInvoices]);
+  const paymentCurrency = currencies.includes(currency) ? currency : currencies[0];
+
+  const customerInvoices = useMemo(
+    () => openInvoices.filter(invoice => invoice.currency === paymentCurrency),
+    [openInvoices, paymentCurrency]
+  );
+
+  const paymentAmount = parseFloat(amount) || 0;
+
+  useEffect(() => {
+    setAllocations(autoAllocate(paymentAmount, customerInvoices));
+  }, [paymentAmount, customerInvoices]);
+
+  useEffect(() => {
+    if (!customerId) {
+      setCredits([]);
+      return;
+    }
+    paymentService.getCustomerCredits(customerId)
+      .then(setCredits)
+      .catch(err => console.error('Error loading customer credits:', err));
+  }, [customerId]);
+
+  const totalAllocated = Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+  const unapplied = Math.round((paymentAmount - totalAllocated) * 100) / 100;
+  const availableCredit = credits.reduce((sum, credit) => sum + credit.remainingCredit, 0);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    const requested = customerInvoices.map(invoice => ({
+      invoiceId: invoice.id,
+      amount: parseFloat(allocations[invoice.id] || '0') || 0
+    }));
+
+    try {
+      // Validate up front so the user sees the problem before anything is saved
+      paymentService.applyManualAllocations(paymentAmount, requested, customerInvoices);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid allocation');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await onSubmit({
+        customerId,
+        paymentMethod,
+        amount: paymentAmount,
+        paymentDate,
+        currency: paymentCurrency,
+        referenceNumber: referenceNumber || undefined,
+        notes: notes || undefined,
+        allocations: requested.filter(allocation => allocation.amount > 0)
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Customer</Label>
+          <Select value={customerId} onValueChange={setCustomerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select customer" />
+            </SelectTrigger>
+            <SelectContent>
+              {customers.map(customer => (
+                <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="batch-amount">Amount Received</Label>
+          <Input
+            id="batch-amount"
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="batch-date">Payment Date</Label>
+          <Input id="batch-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Payment Method</Label>
+          <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as Payment['paymentMethod'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethods.map(method => (
+                <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {currencies.length > 1 && (
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={paymentCurrency} onValueChange={setCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="batch-reference">Reference Number</Label>
+          <Input id="batch-reference" value={referenceNumber} onChange={(e) => setReferenceNumber(e.target.value)} />
+        </div>
+      </div>
+
+      {customerId && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Allocate to Invoices</h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setAllocations(autoAllocate(paymentAmount, customerInvoices))}
+            >
+              <Wand2 className="h-4 w-4" />
+              Auto-allocate
+            </Button>
+          </div>
+
+          {availableCredit > 0 && (
+            <p className="text-sm text-muted-foreground">
+              This customer already has ${availableCredit.toFixed(2)} of unapplied credit.
+            </p>
+          )}
+
+          {customerInvoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open invoices for this customer.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="w-36 text-right">Allocate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customerInvoices.map(invoice => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">#{invoice.invoiceNumber}</TableCell>
+                    <TableCell>{invoice.dueDate ? format(new Date(invoice.dueDate), 'MMM dd, yyyy') : '-'}</TableCell>
+                    <TableCell className="text-right">${invoice.balanceDue.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="text-right"
+                        value={allocations[invoice.id] || ''}
+                        onChange={(e) => setAllocations(current => ({ ...current, [invoice.id]: e.target.value }))}
+                        placeholder="0.00"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex flex-wrap items-center justify-end gap-3 text-sm">
+            <span>Allocated: <strong>${totalAllocated.toFixed(2)}</strong></span>
+            {unapplied > 0 && (
+              <Badge variant="outline">${unapplied.toFixed(2)} held as customer credit</Badge>
+            )}
+            {unapplied < 0 && (
+              <Badge variant="destructive">Over-allocated by ${Math.abs(unapplied).toFixed(2)}</Badge>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="batch-notes">Notes</Label>
+        <Textarea id="batch-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!customerId || paymentAmount <= 0 || unapplied < 0 || submitting || isLoading}>
+          {submitting ? 'Recording...' : 'Record Payment'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -50,7 +50,7 @@ export function PaymentHistory({
   const totalPayments = payments.filter(p => p.status === 'completed').length;
   const totalAmount = payments
     .filter(p => p.status === 'completed')
-    .reduce((sum, p) => sum + (p.amount || 0), 0);
+    .reduce((sum, p) => sum + (p.amount || 0) - (p.amountRefunded || 0), 0);
   const averagePayment = totalPayments > 0 ? totalAmount / totalPayments : 0;
   const pendingPayments = payments.filter(p => p.status === 'pending').length;
 
@@ -263,7 +263,7 @@ export function PaymentHistory({
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
-                            <span>#{invoice?.invoiceNumber || 'N/A'}</span>
+                            <span>{payment.invoiceId ? `#${invoice?.invoiceNumber || 'N/A'}` : 'Multiple invoices'}</span>
                             {invoice && (
                               <Button
                                 variant="ghost"
@@ -278,6 +278,11 @@ export function PaymentHistory({
                         </TableCell>
                         <TableCell className="font-medium">
                           ${payment.amount.toFixed(2)}
+                          {!!payment.amountRefunded && payment.status !== 'refunded' && (
+                            <div className="text-xs font-normal text-muted-foreground">
+                              ${payment.amountRefunded.toFixed(2)} refunded
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           {getPaymentMethodLabel(payment.paymentMethod)}
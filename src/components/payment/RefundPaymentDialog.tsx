@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { paymentService } from '@/services/paymentService';
+import { CreateRefundRequest, Payment } from '@/types/payment';
+
+interface RefundPaymentDialogProps {
+  payment: Payment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (request: CreateRefundRequest) => Promise<void>;
+}
+
+const refundMethods: { value: Payment['paymentMethod']; label: string }[] = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'credit_card', label: 'Credit Card' },
+  { value: 'online', label: 'Online Payment' }
+];
+
+export function RefundPaymentDialog({ payment, open, onOpenChange, onSubmit }: RefundPaymentDialogProps) {
+  const [amount, setAmount] = useState('');
+  const [refundDate, setRefundDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [refundMethod, setRefundMethod] = useState<Payment['paymentMethod']>('bank_transfer');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const refundable = payment ? paymentService.getRefundableAmount(payment) : 0;
+
+  useEffect(() => {
+    if (open && payment) {
+      setAmount(paymentService.getRefundableAmount(payment).toFixed(2));
+      setRefundDate(format(new Date(), 'yyyy-MM-dd'));
+      setRefundMethod(payment.paymentMethod);
+      setReason('');
+      setError(null);
+    }
+  }, [open, payment]);
+
+  const handleSubmit = async () => {
+    if (!payment) return;
+
+    const request: CreateRefundRequest = {
+      paymentId: payment.id,
+      amount: parseFloat(amount) || 0,
+      refundDate,
+      refundMethod,
+      reason
+    };
+
+    try {
+      paymentService.validateRefund(payment, request);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid refund');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onSubmit(request);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refund payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            {payment && (
+              <>
+                ${payment.amount.toFixed(2)} received on {format(new Date(payment.paymentDate), 'dd MMM yyyy')}.
+                {' '}${refundable.toFixed(2)} can still be refunded.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={refundable}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-date">Refund Date</Label>
+              <Input id="refund-date" type="date" value={refundDate} onChange={(e) => setRefundDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Refunded By</Label>
+            <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as Payment['paymentMethod'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {refundMethods.map(method => (
+                  <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Duplicate payment"
+              rows={2}
+            />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting}>
+            {submitting ? 'Refunding...' : 'Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -123,7 +123,7 @@ export function ReceiptViewer({
                 <ReceiptIcon className="h-6 w-6 text-green-600" />
               </div>
               <div>
-                <CardTitle className="text-xl">Payment Receipt</CardTitle>
+                <CardTitle className="text-xl">{receiptData.refund ? 'Refund Receipt' : 'Payment Receipt'}</CardTitle>
                 <div className="flex items-center gap-2 mt-1">
                   <span className="text-lg font-mono font-bold text-green-600">
                     {receipt.receiptNumber}
@@ -207,7 +207,7 @@ export function ReceiptViewer({
           <CardContent className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <p className="text-sm text-muted-foreground">Amount Paid</p>
+                <p className="text-sm text-muted-foreground">{receiptData.refund ? 'Amount Refunded' : 'Amount Paid'}</p>
                 <p className="text-2xl font-bold text-green-600">
                   {invoice.currency || '$'}{(receiptData.amountPaid || 0).toFixed(2)}
                 </p>
@@ -399,7 +399,7 @@ function FullReceiptView({ receiptData }: { receiptData: ReceiptData }) {
         <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
           <ReceiptIcon className="h-8 w-8 text-green-600" />
         </div>
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Payment Receipt</h1>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{receiptData.refund ? 'Refund Receipt' : 'Payment Receipt'}</h1>
         <p className="text-lg text-gray-600">#{receiptData.receiptNumber || 'N/A'}</p>
       </div>
 
@@ -459,7 +459,7 @@ function FullReceiptView({ receiptData }: { receiptData: ReceiptData }) {
 
       {/* Amount Paid */}
       <div className="mb-8 p-6 bg-green-50 rounded-lg text-center">
-        <p className="text-sm text-gray-500 mb-2">Amount Paid</p>
+        <p className="text-sm text-gray-500 mb-2">{receiptData.refund ? 'Amount Refunded' : 'Amount Paid'}</p>
         <p className="text-4xl font-bold text-green-600">
           {invoice.currency || '$'}{(receiptData.amountPaid || 0).toFixed(2)}
         </p>
@@ -513,7 +513,7 @@ function FullReceiptView({ receiptData }: { receiptData: ReceiptData }) {
 
       {/* Footer */}
       <div className="text-center text-sm text-gray-500 border-t pt-6">
-        <p className="mb-2">Thank you for your payment!</p>
+        <p className="mb-2">{receiptData.refund ? `Refunded: ${receiptData.refund.reason}` : 'Thank you for your payment!'}</p>
         <p>This receipt was generated on {format(new Date(), 'dd MMM yyyy')} at {format(new Date(), 'HH:mm')}</p>
         {businessInfo.website && <p>Visit us at {businessInfo.website}</p>}
       </div>
@@ -1,5 +1,5 @@
 import React, { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { FileRejection, useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,11 +13,12 @@ import {
   Building2,
   CreditCard
 } from 'lucide-react';
-import { BankAccount } from '@/types/bankTransaction';
+import { BankAccount, ImportFileType } from '@/types/bankTransaction';
+import { detectStatementFormat } from '@/services/bankStatementParser';
 import { cn } from '@/lib/utils';
 
 interface FileUploadZoneProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect: (file: File, fileType: ImportFileType) => void;
   bankAccounts: BankAccount[];
   selectedAccount: BankAccount | null;
   onAccountSelect: (account: BankAccount) => void;
@@ -33,15 +34,15 @@ export function FileUploadZone({
 }: FileUploadZoneProps) {
   const [uploadError, setUploadError] = useState<string | null>(null);
 
-  const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
     setUploadError(null);
 
     if (rejectedFiles.length > 0) {
       const rejection = rejectedFiles[0];
-      if (rejection.errors.some((e: any) => e.code === 'file-too-large')) {
+      if (rejection.errors.some(e => e.code === 'file-too-large')) {
         setUploadError('File is too large. Maximum size is 10MB.');
-      } else if (rejection.errors.some((e: any) => e.code === 'file-invalid-type')) {
-        setUploadError('Invalid file type. Please upload a CSV or PDF file.');
+      } else if (rejection.errors.some(e => e.code === 'file-invalid-type')) {
+        setUploadError('Invalid file type. Please upload a CSV, OFX, QFX, CAMT.053 (XML) or PDF file.');
       } else {
         setUploadError('File upload failed. Please try again.');
       }
@@ -53,7 +54,13 @@ export function FileUploadZone({
         setUploadError('Please select a bank account first.');
         return;
       }
-      onFileSelect(acceptedFiles[0]);
+
+      const file = acceptedFiles[0];
+      // Sniff the contents so OFX and CAMT.053 files skip column mapping
+      const fileType = file.name.toLowerCase().endsWith('.pdf')
+        ? 'pdf'
+        : detectStatementFormat(await file.text(), file.name);
+      onFileSelect(file, fileType);
     }
   }, [onFileSelect, selectedAccount]);
 
@@ -62,7 +69,10 @@ export function FileUploadZone({
     accept: {
       'text/csv': ['.csv'],
       'application/pdf': ['.pdf'],
-      'text/plain': ['.txt']
+      'text/plain': ['.txt'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml']
     },
     maxSize: 10 * 1024 * 1024, // 10MB
     multiple: false,
@@ -233,7 +243,7 @@ export function FileUploadZone({
                       <span className="text-primary">click to browse</span>
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      Supports CSV and PDF files up to 10MB
+                      Supports CSV, OFX/QFX, CAMT.053 and PDF files up to 10MB
                     </p>
                   </>
                 )}
@@ -245,6 +255,14 @@ export function FileUploadZone({
                     <File className="w-3 h-3" />
                     CSV
                   </Badge>
+                  <Badge variant="outline" className="flex items-center gap-1">
+                    <File className="w-3 h-3" />
+                    OFX / QFX
+                  </Badge>
+                  <Badge variant="outline" className="flex items-center gap-1">
+                    <File className="w-3 h-3" />
+                    CAMT.053
+                  </Badge>
                   <Badge variant="outline" className="flex items-center gap-1">
                     <FileText className="w-3 h-3" />
                     PDF
@@ -293,6 +311,21 @@ export function FileUploadZone({
               </ul>
             </div>
             
+            <div className="space-y-2">
+              <h4 className="font-medium flex items-center gap-2">
+                <File className="w-4 h-4" />
+                OFX, QFX and CAMT.053 Files
+              </h4>
+              <p className="text-sm text-muted-foreground">
+                Structured statements exported from NZ internet banking
+              </p>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                <li>• Format detected automatically</li>
+                <li>• No column mapping needed</li>
+                <li>• Bank transaction ids prevent duplicate imports</li>
+              </ul>
+            </div>
+
             <div className="space-y-2">
               <h4 className="font-medium flex items-center gap-2">
                 <FileText className="w-4 h-4" />
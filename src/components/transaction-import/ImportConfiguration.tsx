@@ -1,13 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
@@ -20,12 +24,19 @@ import {
   Calendar,
   Type,
   DollarSign,
-  CheckCircle
+  CheckCircle,
+  Bookmark,
+  Save
 } from 'lucide-react';
 import { BankAccount, CSVColumnMapping } from '@/types/bankTransaction';
 import { parseCSVTransactions } from '@/services/csvTransactionParser';
+import { CSVEncoding, CSVParseError, CSVSample, detectDelimiter, detectHeaderRow, parseCSVSample, readCSVSample } from '@/services/csvParser';
+import { BUILT_IN_IMPORT_PROFILES, csvImportProfileService } from '@/services/csvImportProfileService';
+import { CSVImportProfile } from '@/types/csvImportProfile';
 import { toast } from 'sonner';
 
+const DATE_FORMATS = ['DD/MM/YYYY', 'DD/MM/YY', 'DD-MM-YYYY', 'DD.MM.YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'YYYY/MM/DD'];
+
 interface ImportConfigurationProps {
   file: File;
   bankAccount: BankAccount;
@@ -39,9 +50,7 @@ export function ImportConfiguration({
   onConfigurationComplete,
   onBack
 }: ImportConfigurationProps) {
-  const [csvData, setCsvData] = useState<string>('');
-  const [headers, setHeaders] = useState<string[]>([]);
-  const [sampleRows, setSampleRows] = useState<string[][]>([]);
+  const [csvSample, setCsvSample] = useState<CSVSample | null>(null); // Start of the file for detection and previews
   const [columnMapping, setColumnMapping] = useState<CSVColumnMapping>({
     date: '',
     description: '',
@@ -50,12 +59,42 @@ export function ImportConfiguration({
     reference: undefined,
   });
   const [dateFormat, setDateFormat] = useState<string>('DD/MM/YYYY');
+  const [delimiter, setDelimiter] = useState<string>(',');
+  const [skipRows, setSkipRows] = useState(0);
+  const [encoding, setEncoding] = useState<CSVEncoding | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<any>(null);
+  const [profiles, setProfiles] = useState<CSVImportProfile[]>(BUILT_IN_IMPORT_PROFILES);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('none');
+  const [profileName, setProfileName] = useState('');
+  const [profileForAccountOnly, setProfileForAccountOnly] = useState(true);
+  const [savingProfile, setSavingProfile] = useState(false);
+  const announcedProfileId = useRef<string | null>(null);
+
+  const records = useMemo(() => {
+    if (!csvSample) return [];
+    try {
+      return parseCSVSample(csvSample, { delimiter });
+    } catch (parseError) {
+      return [];
+    }
+  }, [csvSample, delimiter]);
+
+  const headers = useMemo(
+    () => records[skipRows]?.fields.map(header => header.trim()) || [],
+    [records, skipRows]
+  );
+  const columnOptions = headers.filter(Boolean);
+
+  // Get first 3 rows as sample
+  const sampleRows = useMemo(
+    () => records.slice(skipRows + 1, skipRows + 4).map(record => record.fields.map(cell => cell.trim())),
+    [records, skipRows]
+  );
 
   useEffect(() => {
-    if (file && file.type === 'text/csv') {
+    if (file && !file.name.toLowerCase().endsWith('.pdf')) {
       loadCSVFile();
     } else {
       setError('PDF import is not yet supported. Please upload a CSV file.');
@@ -63,38 +102,20 @@ export function ImportConfiguration({
   }, [file]);
 
   useEffect(() => {
-    if (csvData && headers.length > 0) {
-      // Auto-detect column mappings
-      autoDetectColumns();
-    }
-  }, [csvData, headers]);
+    loadProfiles();
+  }, []);
 
-  const loadCSVFile = async () => {
-    try {
-      const text = await file.text();
-      setCsvData(text);
-      
-      // Parse headers and sample rows
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length > 0) {
-        const headerLine = lines[0];
-        const parsedHeaders = headerLine.split(',').map(h => h.trim().replace(/"/g, ''));
-        setHeaders(parsedHeaders);
-        
-        // Get first 3 rows as sample
-        const sampleLines = lines.slice(1, 4);
-        const parsedSamples = sampleLines.map(line => 
-          line.split(',').map(cell => cell.trim().replace(/"/g, ''))
-        );
-        setSampleRows(parsedSamples);
-      }
-    } catch (error) {
-      console.error('Failed to load CSV file:', error);
-      setError('Failed to read CSV file. Please check the file format.');
+  const applyProfile = useCallback((profile: CSVImportProfile) => {
+    setSelectedProfileId(profile.id);
+    setColumnMapping(csvImportProfileService.resolveMapping(profile, headers));
+    setDateFormat(profile.dateFormat);
+    if (profile.delimiter) {
+      setDelimiter(profile.delimiter);
     }
-  };
+    setPreviewData(null);
+  }, [headers]);
 
-  const autoDetectColumns = () => {
+  const autoDetectColumns = useCallback(() => {
     const mapping: CSVColumnMapping = {
       date: '',
       description: '',
@@ -116,10 +137,16 @@ export function ImportConfiguration({
         mapping.description = header;
       }
       
-      // Amount column detection
-      if ((lowerHeader.includes('amount') || lowerHeader.includes('credit') || lowerHeader.includes('debit')) && !mapping.amount) {
+      // Amount column detection, falling back to separate debit and credit columns
+      if (lowerHeader.includes('amount') && !mapping.amount) {
         mapping.amount = header;
       }
+      if ((lowerHeader.includes('debit') || lowerHeader.includes('withdrawal')) && !mapping.debit) {
+        mapping.debit = header;
+      }
+      if ((lowerHeader.includes('credit') || lowerHeader.includes('deposit')) && !mapping.credit) {
+        mapping.credit = header;
+      }
       
       // Balance column detection (optional)
       if (lowerHeader.includes('balance') && !mapping.balance) {
@@ -132,10 +159,100 @@ export function ImportConfiguration({
       }
     });
 
+    if (mapping.amount) {
+      mapping.debit = undefined;
+      mapping.credit = undefined;
+    }
+
     setColumnMapping(mapping);
+  }, [headers]);
+
+  useEffect(() => {
+    if (csvSample && headers.length > 0) {
+      // Use a saved profile when the header row matches one, otherwise guess the columns
+      const profile = csvImportProfileService.findMatchingProfile(headers, profiles, bankAccount.id);
+      if (profile) {
+        applyProfile(profile);
+        if (announcedProfileId.current !== profile.id) {
+          announcedProfileId.current = profile.id;
+          toast.success(`Using import profile "${profile.name}"`);
+        }
+      } else {
+        setSelectedProfileId('none');
+        autoDetectColumns();
+      }
+    }
+  }, [csvSample, headers, profiles, bankAccount.id, applyProfile, autoDetectColumns]);
+
+  const loadProfiles = async () => {
+    try {
+      const userProfiles = await csvImportProfileService.getImportProfiles();
+      setProfiles([...userProfiles, ...BUILT_IN_IMPORT_PROFILES]);
+    } catch (error) {
+      // Built-in profiles still work without saved ones
+      console.error('Failed to load import profiles:', error);
+    }
+  };
+
+  const handleProfileChange = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (profile) {
+      applyProfile(profile);
+    } else {
+      setSelectedProfileId('none');
+      autoDetectColumns();
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) {
+      toast.error('Enter a name for the import profile');
+      return;
+    }
+
+    setSavingProfile(true);
+    try {
+      const profile = await csvImportProfileService.createImportProfile({
+        name: profileName,
+        bankAccountId: profileForAccountOnly ? bankAccount.id : null,
+        columnMapping,
+        dateFormat,
+        delimiter,
+        headerFingerprint: csvImportProfileService.createHeaderFingerprint(headers),
+      });
+      announcedProfileId.current = profile.id;
+      setProfiles(current => [profile, ...current]);
+      setProfileName('');
+      toast.success(`Saved import profile "${profile.name}"`);
+    } catch (error) {
+      console.error('Failed to save import profile:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save import profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const loadCSVFile = async () => {
+    try {
+      // Only the start of the file is read here; parsing streams the rest
+      const sample = await readCSVSample(file);
+      const detectedDelimiter = detectDelimiter(sample.text);
+
+      // Skip any account details the bank puts above the header
+      setSkipRows(detectHeaderRow(parseCSVSample(sample, { delimiter: detectedDelimiter })));
+      setDelimiter(detectedDelimiter);
+      setEncoding(sample.encoding);
+      setCsvSample(sample);
+    } catch (error) {
+      console.error('Failed to load CSV file:', error);
+      setError(error instanceof CSVParseError
+        ? `Failed to read CSV file: ${error.message}`
+        : 'Failed to read CSV file. Please check the file format.');
+    }
   };
 
   const handleColumnMappingChange = (field: keyof CSVColumnMapping, value: string) => {
+    setSelectedProfileId('none');
     setColumnMapping(prev => ({
       ...prev,
       [field]: value === 'none' ? undefined : value,
@@ -143,8 +260,8 @@ export function ImportConfiguration({
   };
 
   const handlePreview = async () => {
-    if (!columnMapping.date || !columnMapping.description || !columnMapping.amount) {
-      setError('Please select columns for Date, Description, and Amount.');
+    if (!isRequiredMappingComplete()) {
+      setError('Please select columns for Date, Description, and Amount (or Debit and Credit).');
       return;
     }
 
@@ -152,14 +269,14 @@ export function ImportConfiguration({
     setError(null);
 
     try {
-      const result = await parseCSVTransactions(csvData, columnMapping, dateFormat);
-      
-      if (!result.success) {
-        setError(result.error || 'Failed to parse CSV file');
+      const result = await parseCSVTransactions(file, columnMapping, dateFormat, { delimiter, skipRows });
+
+      if (result.transactions.length === 0) {
+        setError(result.errors[0] || 'Failed to parse CSV file');
         return;
       }
 
-      setPreviewData(result);
+      setPreviewData({ ...result, fileType: 'csv', columnMapping, dateFormat, delimiter, skipRows });
       toast.success(`Successfully parsed ${result.transactions.length} transactions`);
     } catch (error) {
       console.error('Failed to parse CSV:', error);
@@ -176,7 +293,8 @@ export function ImportConfiguration({
   };
 
   const isRequiredMappingComplete = () => {
-    return columnMapping.date && columnMapping.description && columnMapping.amount;
+    return !!(columnMapping.date && columnMapping.description &&
+      (columnMapping.amount || columnMapping.debit || columnMapping.credit));
   };
 
   const renderColumnMapping = () => (
@@ -212,7 +330,7 @@ export function ImportConfiguration({
                   <SelectValue placeholder="Select date column" />
                 </SelectTrigger>
                 <SelectContent>
-                  {headers.map((header) => (
+                  {columnOptions.map((header) => (
                     <SelectItem key={header} value={header}>
                       {header}
                     </SelectItem>
@@ -234,7 +352,7 @@ export function ImportConfiguration({
                   <SelectValue placeholder="Select description column" />
                 </SelectTrigger>
                 <SelectContent>
-                  {headers.map((header) => (
+                  {columnOptions.map((header) => (
                     <SelectItem key={header} value={header}>
                       {header}
                     </SelectItem>
@@ -249,14 +367,15 @@ export function ImportConfiguration({
                 Amount Column
               </Label>
               <Select
-                value={columnMapping.amount}
+                value={columnMapping.amount || 'none'}
                 onValueChange={(value) => handleColumnMappingChange('amount', value)}
               >
                 <SelectTrigger id="amount-column">
                   <SelectValue placeholder="Select amount column" />
                 </SelectTrigger>
                 <SelectContent>
-                  {headers.map((header) => (
+                  <SelectItem value="none">Separate debit and credit columns</SelectItem>
+                  {columnOptions.map((header) => (
                     <SelectItem key={header} value={header}>
                       {header}
                     </SelectItem>
@@ -264,6 +383,34 @@ export function ImportConfiguration({
                 </SelectContent>
               </Select>
             </div>
+
+            {!columnMapping.amount && (
+              <div className="grid gap-4 grid-cols-2">
+                {(['debit', 'credit'] as const).map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`${field}-column`}>
+                      {field === 'debit' ? 'Debit Column' : 'Credit Column'}
+                    </Label>
+                    <Select
+                      value={columnMapping[field] || 'none'}
+                      onValueChange={(value) => handleColumnMappingChange(field, value)}
+                    >
+                      <SelectTrigger id={`${field}-column`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {columnOptions.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Optional Fields */}
@@ -284,7 +431,7 @@ export function ImportConfiguration({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="none">None</SelectItem>
-                  {headers.map((header) => (
+                  {columnOptions.map((header) => (
                     <SelectItem key={header} value={header}>
                       {header}
                     </SelectItem>
@@ -304,7 +451,27 @@ export function ImportConfiguration({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="none">None</SelectItem>
-                  {headers.map((header) => (
+                  {columnOptions.map((header) => (
+                    <SelectItem key={header} value={header}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="external-id-column">Transaction ID Column</Label>
+              <Select
+                value={columnMapping.externalId || 'none'}
+                onValueChange={(value) => handleColumnMappingChange('externalId', value)}
+              >
+                <SelectTrigger id="external-id-column">
+                  <SelectValue placeholder="Select transaction ID column (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {columnOptions.map((header) => (
                     <SelectItem key={header} value={header}>
                       {header}
                     </SelectItem>
@@ -315,17 +482,54 @@ export function ImportConfiguration({
 
             <div className="space-y-2">
               <Label htmlFor="date-format">Date Format</Label>
-              <Select value={dateFormat} onValueChange={setDateFormat}>
+              <Select
+                value={dateFormat}
+                onValueChange={(value) => {
+                  setSelectedProfileId('none');
+                  setDateFormat(value);
+                }}
+              >
                 <SelectTrigger id="date-format">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
-                  <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
-                  <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                  {DATE_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>{format}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="delimiter">Delimiter</Label>
+                <Select value={delimiter} onValueChange={setDelimiter}>
+                  <SelectTrigger id="delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">Comma (,)</SelectItem>
+                    <SelectItem value=";">Semicolon (;)</SelectItem>
+                    <SelectItem value={'\t'}>Tab</SelectItem>
+                    <SelectItem value="|">Pipe (|)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="skip-rows">Rows Above Header</Label>
+                <Input
+                  id="skip-rows"
+                  type="number"
+                  min="0"
+                  value={skipRows}
+                  onChange={(e) => setSkipRows(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+              </div>
+            </div>
+            {encoding && (
+              <p className="text-xs text-muted-foreground">Detected encoding: {encoding.toUpperCase()}</p>
+            )}
           </div>
         </div>
 
@@ -352,6 +556,84 @@ export function ImportConfiguration({
     </Card>
   );
 
+  const userProfiles = profiles.filter(profile => !profile.isBuiltIn);
+
+  const renderImportProfile = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bookmark className="w-5 h-5" />
+          Import Profile
+        </CardTitle>
+        <CardDescription>
+          Saved mappings are picked automatically when a file has the same columns
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="import-profile">Profile</Label>
+          <Select value={selectedProfileId} onValueChange={handleProfileChange}>
+            <SelectTrigger id="import-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Custom mapping</SelectItem>
+              {userProfiles.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved profiles</SelectLabel>
+                  {userProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+              <SelectGroup>
+                <SelectLabel>Banks</SelectLabel>
+                {BUILT_IN_IMPORT_PROFILES.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="profile-name">Save current mapping as</Label>
+          <div className="flex gap-2">
+            <Input
+              id="profile-name"
+              placeholder="e.g. ANZ Business Cheque"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={handleSaveProfile}
+              disabled={savingProfile || !isRequiredMappingComplete()}
+              className="flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="profile-account-only"
+              checked={profileForAccountOnly}
+              onCheckedChange={(checked) => setProfileForAccountOnly(checked === true)}
+            />
+            <Label htmlFor="profile-account-only" className="text-sm font-normal">
+              Only use for {bankAccount.accountName}
+            </Label>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   const renderDataPreview = () => (
     <Card>
       <CardHeader>
@@ -460,6 +742,11 @@ export function ImportConfiguration({
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
                 {previewData.errors.length} rows had parsing errors and will be skipped during import.
+                <ul className="mt-2 space-y-1 text-xs">
+                  {previewData.errors.slice(0, 5).map((rowError: string) => (
+                    <li key={rowError}>{rowError}</li>
+                  ))}
+                </ul>
               </AlertDescription>
             </Alert>
           )}
@@ -511,6 +798,7 @@ export function ImportConfiguration({
       {headers.length > 0 && (
         <>
           {renderDataPreview()}
+          {renderImportProfile()}
           {renderColumnMapping()}
           {renderParseResults()}
         </>
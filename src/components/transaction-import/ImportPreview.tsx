@@ -18,7 +18,7 @@ import {
   TrendingDown,
   AlertTriangle
 } from 'lucide-react';
-import { BankAccount, ImportedTransaction, TransactionImportConfig, TransactionImportResult } from '@/types/bankTransaction';
+import { BankAccount, ImportedTransaction, TransactionImportResult } from '@/types/bankTransaction';
 import { transactionImportService } from '@/services/transactionImportService';
 import { toast } from 'sonner';
 
@@ -74,23 +74,20 @@ export function ImportPreview({
         (_: any, index: number) => selectedTransactions.has(index)
       );
 
-      const csvData = prepareCsvDataForImport(transactionsToImport);
-      
-      const config: TransactionImportConfig = {
+      // Rows were already parsed in the previous step, so import them directly
+      const result = await transactionImportService.importParsedTransactions(transactionsToImport, {
         bankAccountId: bankAccount.id,
-        columnMapping: parseResult.columnMapping,
-        dateFormat: parseResult.dateFormat || 'DD/MM/YYYY',
+        fileType: parseResult.fileType || 'csv',
+        csvMapping: parseResult.columnMapping,
+        dateFormat: parseResult.dateFormat,
         skipDuplicates: true,
-        categorizeTransactions: true,
-      };
+      });
 
-      const result = await transactionImportService.importTransactions(csvData, config);
-      
       if (result.success) {
-        toast.success(`Successfully imported ${result.imported} transactions`);
+        toast.success(`Successfully imported ${result.importedCount} transactions`);
         onImportConfirm(result);
       } else {
-        setError(result.error || 'Import failed');
+        setError(result.errors[0] || 'Import failed');
       }
     } catch (error) {
       console.error('Import failed:', error);
@@ -100,40 +97,6 @@ export function ImportPreview({
     }
   };
 
-  const prepareCsvDataForImport = (transactions: ImportedTransaction[]): string => {
-    // Convert transactions back to CSV format for the import service
-    const headers = Object.keys(parseResult.columnMapping);
-    const rows = transactions.map(transaction => {
-      return headers.map(header => {
-        switch (header) {
-          case 'date':
-            return formatDateForCsv(transaction.date);
-          case 'description':
-            return transaction.description;
-          case 'amount':
-            return transaction.amount.toString();
-          case 'balance':
-            return transaction.balance?.toString() || '';
-          case 'reference':
-            return transaction.reference || '';
-          default:
-            return '';
-        }
-      }).join(',');
-    });
-
-    return [headers.join(','), ...rows].join('\n');
-  };
-
-  const formatDateForCsv = (date: string): string => {
-    // Convert ISO date back to the expected format
-    const d = new Date(date);
-    const day = d.getDate().toString().padStart(2, '0');
-    const month = (d.getMonth() + 1).toString().padStart(2, '0');
-    const year = d.getFullYear();
-    return `${day}/${month}/${year}`;
-  };
-
   const formatAmount = (amount: number, currency: string = bankAccount.currency) => {
     return new Intl.NumberFormat('en-NZ', {
       style: 'currency',
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
 import { customerService, invoiceService, businessProfileService, itemService, itemCategoryService, accountService, expenseService, expenseCategoryService } from "@/services/supabaseService";
 import { paymentService } from "@/services/paymentService";
+import { PeriodLockedError } from "@/services/periodLockService";
 import { Customer, Invoice, BusinessProfile, Item, ItemCategory, Account, Expense, ExpenseCategory } from "@/types";
 import { Payment, Receipt, CreatePaymentRequest, EnhancedInvoice } from "@/types/payment";
 import { useToast } from "@/hooks/use-toast";
@@ -262,7 +263,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error creating invoice:", error);
       toast({
         title: "Error",
-        description: "Failed to create invoice. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to create invoice. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -283,7 +284,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error updating invoice:", error);
       toast({
         title: "Error",
-        description: "Failed to update invoice. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to update invoice. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -302,7 +303,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error deleting invoice:", error);
       toast({
         title: "Error",
-        description: "Failed to delete invoice. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to delete invoice. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -548,7 +549,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error('Error updating invoice status:', error);
       toast({
         title: 'Error',
-        description: 'Failed to update invoice status. Please try again.',
+        description: error instanceof PeriodLockedError ? error.message : 'Failed to update invoice status. Please try again.',
         variant: 'destructive',
       });
       throw error;
@@ -752,7 +753,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error creating expense:", error);
       toast({
         title: "Error",
-        description: "Failed to create expense. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to create expense. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -772,7 +773,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error updating expense:", error);
       toast({
         title: "Error",
-        description: "Failed to update expense. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to update expense. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -791,7 +792,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error deleting expense:", error);
       toast({
         title: "Error",
-        description: "Failed to delete expense. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to delete expense. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -909,7 +910,7 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.error("Error creating payment:", error);
       toast({
         title: "Error",
-        description: "Failed to record payment. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to record payment. Please try again.",
         variant: "destructive",
       });
       throw error;
@@ -6,7 +6,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { solidDataManager } from '@/services/DataManagerSOLID';
 import { Customer, Invoice, BusinessProfile, Item, ItemCategory, Account, Expense, ExpenseCategory } from "@/types";
-import { Payment, Receipt, CreatePaymentRequest, EnhancedInvoice } from "@/types/payment";
+import { Payment, Receipt, CreatePaymentRequest, EnhancedInvoice, CreateBatchPaymentRequest, CreateRefundRequest } from "@/types/payment";
 
 interface AppData {
   customers: Customer[];
@@ -82,6 +82,12 @@ export const useAppData = () => {
   const updateInvoiceStatus = useCallback((id: string, status: Invoice['status']) => 
     solidDataManager.updateInvoiceStatus(id, status), []);
   
+  const runRecurringSchedule = useCallback((scheduleId: string, runDate?: string) => 
+    solidDataManager.runRecurringSchedule(scheduleId, runDate), []);
+  
+  const convertQuoteToInvoice = useCallback((quoteId: string) => 
+    solidDataManager.convertQuoteToInvoice(quoteId), []);
+  
   const createCustomer = useCallback((customer: Omit<Customer, "id" | "createdAt" | "updatedAt">) => 
     solidDataManager.createCustomer(customer), []);
   
@@ -103,6 +109,12 @@ export const useAppData = () => {
   const createPayment = useCallback((payment: CreatePaymentRequest) => 
     solidDataManager.createPayment(payment), []);
   
+  const createBatchPayment = useCallback((request: CreateBatchPaymentRequest) => 
+    solidDataManager.createBatchPayment(request), []);
+  
+  const refundPayment = useCallback((request: CreateRefundRequest) => 
+    solidDataManager.refundPayment(request), []);
+  
   const getInvoicesWithBalance = useCallback(() => 
     solidDataManager.getInvoicesWithBalance(), []);
 
@@ -189,6 +201,8 @@ export const useAppData = () => {
     getInvoice,
     getNextInvoiceNumber,
     updateInvoiceStatus,
+    runRecurringSchedule,
+    convertQuoteToInvoice,
     createCustomer,
     updateCustomer,
     deleteCustomer,
@@ -196,6 +210,8 @@ export const useAppData = () => {
     saveBusinessProfile,
     updateBusinessProfile,
     createPayment,
+    createBatchPayment,
+    refundPayment,
     getInvoicesWithBalance,
     createItem,
     updateItem,
@@ -181,6 +181,87 @@ export const useBreadcrumbs = (): BreadcrumbItem[] => {
         });
         break;
 
+      case 'quotes':
+        breadcrumbs.push({
+          label: 'Quotes',
+          path: '/quotes',
+          isCurrentPage: pathSegments.length === 1
+        });
+
+        if (secondSegment === 'new') {
+          breadcrumbs.push({
+            label: 'New Quote',
+            isCurrentPage: true
+          });
+        } else if (thirdSegment === 'edit') {
+          breadcrumbs.push({
+            label: 'Edit Quote',
+            isCurrentPage: true
+          });
+        }
+        break;
+
+      case 'credit-notes':
+        breadcrumbs.push({
+          label: 'Credit Notes',
+          isCurrentPage: true
+        });
+        break;
+
+      case 'payment-reminders':
+        breadcrumbs.push({
+          label: 'Payment Reminders',
+          isCurrentPage: true
+        });
+        break;
+
+      case 'bills':
+        breadcrumbs.push({
+          label: 'Bills',
+          isCurrentPage: true
+        });
+        break;
+
+      case 'vendors':
+        breadcrumbs.push({
+          label: 'Vendors',
+          isCurrentPage: true
+        });
+        break;
+
+      case 'statements':
+        breadcrumbs.push({
+          label: 'Customer Statements',
+          isCurrentPage: true
+        });
+        break;
+
+      case 'bank-rules':
+        breadcrumbs.push({
+          label: 'Bank Accounts',
+          path: '/bank-accounts'
+        });
+        breadcrumbs.push({
+          label: 'Bank Rules',
+          isCurrentPage: true
+        });
+        break;
+
+      case 'bank-accounts':
+        breadcrumbs.push({
+          label: 'Bank Accounts',
+          path: '/bank-accounts',
+          isCurrentPage: pathSegments.length === 1
+        });
+
+        if (thirdSegment === 'reconcile') {
+          breadcrumbs.push({
+            label: 'Reconcile',
+            isCurrentPage: true
+          });
+        }
+        break;
+
       case 'journal-entries':
         breadcrumbs.push({
           label: 'Journal Entries',
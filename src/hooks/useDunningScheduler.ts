@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/StableAuthContext';
+import { dunningService } from '@/services/dunningService';
+
+// Sends the day's due payment reminders once the user opens the app, when their policy allows it
+export const useDunningScheduler = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    dunningService.runScheduledReminders()
+      .then(result => {
+        if (result && result.sent.length > 0) {
+          toast.success(`Sent ${result.sent.length} scheduled payment reminder${result.sent.length !== 1 ? 's' : ''}`);
+        }
+        if (result && result.failed.length > 0) {
+          toast.error(`${result.failed.length} scheduled payment reminder${result.failed.length !== 1 ? 's' : ''} could not be sent`);
+        }
+      })
+      .catch(error => console.error('Error running scheduled payment reminders:', error));
+  }, [user?.id]);
+};
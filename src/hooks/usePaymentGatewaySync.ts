@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/StableAuthContext';
+import { paymentGatewayService } from '@/services/paymentGatewayService';
+
+// Records payments for online checkouts the gateway webhook couldn't record itself, and mock checkouts
+export const usePaymentGatewaySync = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user?.id || !paymentGatewayService.isOnlinePaymentEnabled()) return;
+
+    paymentGatewayService.settleCompletedCheckouts()
+      .then(result => {
+        if (result.recorded.length > 0) {
+          toast.success(`Recorded ${result.recorded.length} online payment${result.recorded.length !== 1 ? 's' : ''}`);
+        }
+        if (result.failed.length > 0) {
+          toast.error(`${result.failed.length} online payment${result.failed.length !== 1 ? 's' : ''} could not be recorded`);
+        }
+      })
+      .catch(error => console.error('Error recording online payments:', error));
+  }, [user?.id]);
+};
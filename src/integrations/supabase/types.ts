@@ -23,6 +23,7 @@ export type Database = {
           id: string
           invoice_number_format: string | null
           invoice_number_sequence: number | null
+          base_currency: string | null
           logo_url: string | null
           name: string
           phone: string | null
@@ -46,6 +47,7 @@ export type Database = {
           id?: string
           invoice_number_format?: string | null
           invoice_number_sequence?: number | null
+          base_currency?: string | null
           logo_url?: string | null
           name: string
           phone?: string | null
@@ -69,6 +71,7 @@ export type Database = {
           id?: string
           invoice_number_format?: string | null
           invoice_number_sequence?: number | null
+          base_currency?: string | null
           logo_url?: string | null
           name?: string
           phone?: string | null
@@ -154,6 +157,9 @@ export type Database = {
           tax_rate: number | null
           payment_status: string | null
           balance_due: number | null
+          total_paid: number | null
+          total_credited: number | null
+          exchange_rate: number | null
           tax_breakdown: any | null
         }
         Insert: {
@@ -177,6 +183,9 @@ export type Database = {
           tax_rate?: number | null
           payment_status?: string | null
           balance_due?: number | null
+          total_paid?: number | null
+          total_credited?: number | null
+          exchange_rate?: number | null
           tax_breakdown?: any | null
         }
         Update: {
@@ -200,6 +209,9 @@ export type Database = {
           tax_rate?: number | null
           payment_status?: string | null
           balance_due?: number | null
+          total_paid?: number | null
+          total_credited?: number | null
+          exchange_rate?: number | null
           tax_breakdown?: any | null
         }
         Relationships: [
@@ -248,6 +260,7 @@ export type Database = {
           purchase_price: number | null
           sale_price: number | null
           tax_rate: number | null
+          tax_code: string | null
           type: string
           unit: string | null
           updated_at: string
@@ -264,6 +277,7 @@ export type Database = {
           purchase_price?: number | null
           sale_price?: number | null
           tax_rate?: number | null
+          tax_code?: string | null
           type: string
           unit?: string | null
           updated_at?: string
@@ -280,6 +294,7 @@ export type Database = {
           purchase_price?: number | null
           sale_price?: number | null
           tax_rate?: number | null
+          tax_code?: string | null
           type?: string
           unit?: string | null
           updated_at?: string
@@ -304,6 +319,7 @@ export type Database = {
           quantity: number
           rate: number
           tax: number | null
+          tax_code: string | null
           total: number
           unit: string | null
           updated_at: string
@@ -318,6 +334,7 @@ export type Database = {
           quantity: number
           rate: number
           tax?: number | null
+          tax_code?: string | null
           total: number
           unit?: string | null
           updated_at?: string
@@ -332,6 +349,7 @@ export type Database = {
           quantity?: number
           rate?: number
           tax?: number | null
+          tax_code?: string | null
           total?: number
           unit?: string | null
           updated_at?: string
@@ -425,6 +443,8 @@ export type Database = {
       }
       expenses: {
         Row: {
+          vendor_name: string | null
+          vendor_id: string | null
           id: string
           user_id: string
           date: string
@@ -442,6 +462,8 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          vendor_name?: string | null
+          vendor_id?: string | null
           id?: string
           user_id: string
           date: string
@@ -459,6 +481,8 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          vendor_name?: string | null
+          vendor_id?: string | null
           id?: string
           user_id?: string
           date?: string
@@ -479,6 +503,10 @@ export type Database = {
       }
       payments: {
         Row: {
+          gateway: string | null
+          gateway_payment_id: string | null
+          amount_refunded: number
+          customer_id: string | null
           id: string
           user_id: string
           invoice_id: string | null
@@ -486,11 +514,16 @@ export type Database = {
           payment_date: string
           payment_method: string
           reference_number: string | null
-          status: 'pending' | 'completed' | 'failed' | 'cancelled'
+          exchange_rate: number | null
+          status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded'
           created_at: string
           updated_at: string
         }
         Insert: {
+          gateway?: string | null
+          gateway_payment_id?: string | null
+          amount_refunded?: number
+          customer_id?: string | null
           id?: string
           user_id: string
           invoice_id?: string | null
@@ -498,11 +531,16 @@ export type Database = {
           payment_date: string
           payment_method?: string
           reference_number?: string | null
-          status?: 'pending' | 'completed' | 'failed' | 'cancelled'
+          exchange_rate?: number | null
+          status?: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded'
           created_at?: string
           updated_at?: string
         }
         Update: {
+          gateway?: string | null
+          gateway_payment_id?: string | null
+          amount_refunded?: number
+          customer_id?: string | null
           id?: string
           user_id?: string
           invoice_id?: string | null
@@ -510,7 +548,8 @@ export type Database = {
           payment_date?: string
           payment_method?: string
           reference_number?: string | null
-          status?: 'pending' | 'completed' | 'failed' | 'cancelled'
+          exchange_rate?: number | null
+          status?: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded'
           created_at?: string
           updated_at?: string
         }
@@ -625,12 +664,1636 @@ export type Database = {
           }
         ]
       }
+      recurring_invoice_schedules: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          customer_id: string
+          template_invoice_id: string | null
+          template_data: Json
+          frequency: 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'yearly'
+          start_date: string
+          end_date: string | null
+          next_run_date: string
+          last_run_date: string | null
+          auto_send: boolean
+          status: 'active' | 'paused' | 'completed'
+          occurrences_generated: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          customer_id: string
+          template_invoice_id?: string | null
+          template_data: Json
+          frequency: 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'yearly'
+          start_date: string
+          end_date?: string | null
+          next_run_date: string
+          last_run_date?: string | null
+          auto_send?: boolean
+          status?: 'active' | 'paused' | 'completed'
+          occurrences_generated?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          customer_id?: string
+          template_invoice_id?: string | null
+          template_data?: Json
+          frequency?: 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'yearly'
+          start_date?: string
+          end_date?: string | null
+          next_run_date?: string
+          last_run_date?: string | null
+          auto_send?: boolean
+          status?: 'active' | 'paused' | 'completed'
+          occurrences_generated?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_schedules_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_schedules_template_invoice_id_fkey"
+            columns: ["template_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      credit_notes: {
+        Row: {
+          id: string
+          user_id: string
+          credit_note_number: string
+          invoice_id: string
+          customer_id: string
+          date: string
+          reason: string
+          items: Json
+          subtotal: number
+          tax_amount: number
+          total: number
+          currency: string
+          exchange_rate: number | null
+          amount_applied: number
+          status: 'issued' | 'void'
+          journal_entry_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          credit_note_number: string
+          invoice_id: string
+          customer_id: string
+          date: string
+          reason: string
+          items: Json
+          subtotal: number
+          tax_amount?: number
+          total: number
+          currency: string
+          exchange_rate?: number | null
+          amount_applied?: number
+          status?: 'issued' | 'void'
+          journal_entry_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          credit_note_number?: string
+          invoice_id?: string
+          customer_id?: string
+          date?: string
+          reason?: string
+          items?: Json
+          subtotal?: number
+          tax_amount?: number
+          total?: number
+          currency?: string
+          exchange_rate?: number | null
+          amount_applied?: number
+          status?: 'issued' | 'void'
+          journal_entry_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      credit_note_applications: {
+        Row: {
+          id: string
+          user_id: string
+          credit_note_id: string
+          invoice_id: string
+          amount: number
+          applied_date: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          credit_note_id: string
+          invoice_id: string
+          amount: number
+          applied_date: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          credit_note_id?: string
+          invoice_id?: string
+          amount?: number
+          applied_date?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_applications_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_applications_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      quotes: {
+        Row: {
+          additional_charges_list: Json | null
+          additional_charges_total: number | null
+          converted_invoice_id: string | null
+          created_at: string | null
+          currency: string
+          customer_id: string | null
+          date: string
+          discount: number | null
+          expiry_date: string
+          id: string
+          items: Json
+          notes: string | null
+          quote_number: string
+          responded_at: string | null
+          responded_by: string | null
+          response_note: string | null
+          share_token: string
+          status: string | null
+          subtotal: number
+          tax_amount: number
+          template_name: string | null
+          terms: string | null
+          total: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          additional_charges_list?: Json | null
+          additional_charges_total?: number | null
+          converted_invoice_id?: string | null
+          created_at?: string | null
+          currency: string
+          customer_id?: string | null
+          date: string
+          discount?: number | null
+          expiry_date: string
+          id?: string
+          items?: Json
+          notes?: string | null
+          quote_number: string
+          responded_at?: string | null
+          responded_by?: string | null
+          response_note?: string | null
+          share_token?: string
+          status?: string | null
+          subtotal?: number
+          tax_amount?: number
+          template_name?: string | null
+          terms?: string | null
+          total?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          additional_charges_list?: Json | null
+          additional_charges_total?: number | null
+          converted_invoice_id?: string | null
+          created_at?: string | null
+          currency?: string
+          customer_id?: string | null
+          date?: string
+          discount?: number | null
+          expiry_date?: string
+          id?: string
+          items?: Json
+          notes?: string | null
+          quote_number?: string
+          responded_at?: string | null
+          responded_by?: string | null
+          response_note?: string | null
+          share_token?: string
+          status?: string | null
+          subtotal?: number
+          tax_amount?: number
+          template_name?: string | null
+          terms?: string | null
+          total?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotes_converted_invoice_id_fkey"
+            columns: ["converted_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          from_currency: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string
+          to_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string
+          to_currency: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+          to_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      accounts: {
+        Row: {
+          merged_into_account_id: string | null
+          account_class: string | null
+          account_number: string | null
+          created_at: string
+          currency: string
+          current_balance: number
+          description: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          normal_balance: string | null
+          opening_balance: number
+          parent_account_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          merged_into_account_id?: string | null
+          account_class?: string | null
+          account_number?: string | null
+          created_at?: string
+          currency?: string
+          current_balance?: number
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          normal_balance?: string | null
+          opening_balance?: number
+          parent_account_id?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          merged_into_account_id?: string | null
+          account_class?: string | null
+          account_number?: string | null
+          created_at?: string
+          currency?: string
+          current_balance?: number
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          normal_balance?: string | null
+          opening_balance?: number
+          parent_account_id?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      journal_entries: {
+        Row: {
+          auto_posted: boolean
+          reverses_entry_id: string | null
+          created_at: string
+          description: string
+          entry_date: string
+          entry_number: string
+          id: string
+          reference_id: string | null
+          reference_type: string | null
+          status: string | null
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_posted?: boolean
+          reverses_entry_id?: string | null
+          created_at?: string
+          description: string
+          entry_date: string
+          entry_number: string
+          id?: string
+          reference_id?: string | null
+          reference_type?: string | null
+          status?: string | null
+          total_amount: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_posted?: boolean
+          reverses_entry_id?: string | null
+          created_at?: string
+          description?: string
+          entry_date?: string
+          entry_number?: string
+          id?: string
+          reference_id?: string | null
+          reference_type?: string | null
+          status?: string | null
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      journal_entry_lines: {
+        Row: {
+          account_id: string
+          created_at: string
+          credit_amount: number | null
+          debit_amount: number | null
+          description: string | null
+          id: string
+          journal_entry_id: string
+          line_order: number
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          credit_amount?: number | null
+          debit_amount?: number | null
+          description?: string | null
+          id?: string
+          journal_entry_id: string
+          line_order: number
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          credit_amount?: number | null
+          debit_amount?: number | null
+          description?: string | null
+          id?: string
+          journal_entry_id?: string
+          line_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entry_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entry_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bank_accounts: {
+        Row: {
+          account_name: string
+          account_number: string
+          account_type: string
+          bank_name: string
+          created_at: string
+          currency: string
+          current_balance: number
+          id: string
+          is_active: boolean
+          opening_balance: number
+          statement_balance: number | null
+          statement_date: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_name: string
+          account_number: string
+          account_type: string
+          bank_name: string
+          created_at?: string
+          currency?: string
+          current_balance?: number
+          id?: string
+          is_active?: boolean
+          opening_balance?: number
+          statement_balance?: number | null
+          statement_date?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_name?: string
+          account_number?: string
+          account_type?: string
+          bank_name?: string
+          created_at?: string
+          currency?: string
+          current_balance?: number
+          id?: string
+          is_active?: boolean
+          opening_balance?: number
+          statement_balance?: number | null
+          statement_date?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_transactions: {
+        Row: {
+          vendor_id: string | null
+          amount: number
+          balance: number | null
+          bank_account_id: string
+          bank_rule_id: string | null
+          category: string | null
+          created_at: string
+          customer_id: string | null
+          description: string
+          expense_category_id: string | null
+          external_id: string | null
+          id: string
+          is_reconciled: boolean
+          merchant: string | null
+          notes: string | null
+          reconciled_at: string | null
+          reference: string | null
+          tax_code: string | null
+          transaction_date: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          vendor_id?: string | null
+          amount: number
+          balance?: number | null
+          bank_account_id: string
+          bank_rule_id?: string | null
+          category?: string | null
+          created_at?: string
+          customer_id?: string | null
+          description: string
+          expense_category_id?: string | null
+          external_id?: string | null
+          id?: string
+          is_reconciled?: boolean
+          merchant?: string | null
+          notes?: string | null
+          reconciled_at?: string | null
+          reference?: string | null
+          tax_code?: string | null
+          transaction_date: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          vendor_id?: string | null
+          amount?: number
+          balance?: number | null
+          bank_account_id?: string
+          bank_rule_id?: string | null
+          category?: string | null
+          created_at?: string
+          customer_id?: string | null
+          description?: string
+          expense_category_id?: string | null
+          external_id?: string | null
+          id?: string
+          is_reconciled?: boolean
+          merchant?: string | null
+          notes?: string | null
+          reconciled_at?: string | null
+          reference?: string | null
+          tax_code?: string | null
+          transaction_date?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_transactions_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bank_reconciliation_matches: {
+        Row: {
+          amount: number
+          bank_transaction_id: string
+          created_at: string
+          expense_id: string | null
+          id: string
+          match_type: string
+          payment_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bank_transaction_id: string
+          created_at?: string
+          expense_id?: string | null
+          id?: string
+          match_type: string
+          payment_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bank_transaction_id?: string
+          created_at?: string
+          expense_id?: string | null
+          id?: string
+          match_type?: string
+          payment_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_reconciliation_matches_bank_transaction_id_fkey"
+            columns: ["bank_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "bank_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliation_matches_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliation_matches_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bank_rules: {
+        Row: {
+          actions: Json
+          conditions: Json
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          priority: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          actions?: Json
+          conditions?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          priority?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          actions?: Json
+          conditions?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          priority?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      csv_import_profiles: {
+        Row: {
+          bank_account_id: string | null
+          column_mapping: Json
+          created_at: string
+          date_format: string
+          delimiter: string | null
+          header_fingerprint: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bank_account_id?: string | null
+          column_mapping: Json
+          created_at?: string
+          date_format?: string
+          delimiter?: string | null
+          header_fingerprint: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bank_account_id?: string | null
+          column_mapping?: Json
+          created_at?: string
+          date_format?: string
+          delimiter?: string | null
+          header_fingerprint?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "csv_import_profiles_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      dunning_policies: {
+        Row: {
+          auto_send: boolean
+          created_at: string
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          steps: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_send?: boolean
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          steps?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_send?: boolean
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          steps?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoice_reminders: {
+        Row: {
+          created_at: string
+          dunning_policy_id: string | null
+          id: string
+          invoice_id: string
+          message_id: string | null
+          reminder_type: string
+          sent_at: string
+          sent_to: string
+          step_offset_days: number | null
+          trigger: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dunning_policy_id?: string | null
+          id?: string
+          invoice_id: string
+          message_id?: string | null
+          reminder_type: string
+          sent_at?: string
+          sent_to: string
+          step_offset_days?: number | null
+          trigger?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dunning_policy_id?: string | null
+          id?: string
+          invoice_id?: string
+          message_id?: string | null
+          reminder_type?: string
+          sent_at?: string
+          sent_to?: string
+          step_offset_days?: number | null
+          trigger?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_reminders_dunning_policy_id_fkey"
+            columns: ["dunning_policy_id"]
+            isOneToOne: false
+            referencedRelation: "dunning_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          invoice_id: string
+          payment_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          invoice_id: string
+          payment_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          payment_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      customer_credits: {
+        Row: {
+          amount: number
+          amount_applied: number
+          created_at: string
+          currency: string
+          customer_id: string
+          id: string
+          payment_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          amount_applied?: number
+          created_at?: string
+          currency?: string
+          customer_id: string
+          id?: string
+          payment_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          amount_applied?: number
+          created_at?: string
+          currency?: string
+          customer_id?: string
+          id?: string
+          payment_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_credits_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_credits_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      payment_refunds: {
+        Row: {
+          id: string
+          user_id: string
+          payment_id: string
+          amount: number
+          refund_date: string
+          refund_method: string
+          reason: string
+          status: string
+          gateway_refund_id: string | null
+          journal_entry_id: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          payment_id: string
+          amount: number
+          refund_date: string
+          refund_method: string
+          reason: string
+          status?: string
+          gateway_refund_id?: string | null
+          journal_entry_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          payment_id?: string
+          amount?: number
+          refund_date?: string
+          refund_method?: string
+          reason?: string
+          status?: string
+          gateway_refund_id?: string | null
+          journal_entry_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_refunds_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bills: {
+        Row: {
+          vendor_id: string | null
+          id: string
+          user_id: string
+          bill_number: string | null
+          supplier_name: string
+          bill_date: string
+          due_date: string
+          items: Json
+          subtotal: number
+          tax_amount: number
+          total: number
+          currency: string
+          amount_paid: number
+          status: 'awaiting_payment' | 'partially_paid' | 'paid' | 'void'
+          notes: string | null
+          receipt_url: string | null
+          journal_entry_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          vendor_id?: string | null
+          id?: string
+          user_id: string
+          bill_number?: string | null
+          supplier_name: string
+          bill_date: string
+          due_date: string
+          items?: Json
+          subtotal: number
+          tax_amount?: number
+          total: number
+          currency?: string
+          amount_paid?: number
+          status?: 'awaiting_payment' | 'partially_paid' | 'paid' | 'void'
+          notes?: string | null
+          receipt_url?: string | null
+          journal_entry_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          vendor_id?: string | null
+          id?: string
+          user_id?: string
+          bill_number?: string | null
+          supplier_name?: string
+          bill_date?: string
+          due_date?: string
+          items?: Json
+          subtotal?: number
+          tax_amount?: number
+          total?: number
+          currency?: string
+          amount_paid?: number
+          status?: 'awaiting_payment' | 'partially_paid' | 'paid' | 'void'
+          notes?: string | null
+          receipt_url?: string | null
+          journal_entry_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      bill_payments: {
+        Row: {
+          id: string
+          user_id: string
+          bill_id: string
+          bank_account_id: string
+          amount: number
+          payment_date: string
+          reference: string | null
+          journal_entry_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          bill_id: string
+          bank_account_id: string
+          amount: number
+          payment_date: string
+          reference?: string | null
+          journal_entry_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          bill_id?: string
+          bank_account_id?: string
+          amount?: number
+          payment_date?: string
+          reference?: string | null
+          journal_entry_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      vendors: {
+        Row: {
+          address: string | null
+          aliases: string[]
+          contact_name: string | null
+          created_at: string
+          default_expense_category_id: string | null
+          default_payment_method: string | null
+          email: string | null
+          gst_number: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address?: string | null
+          aliases?: string[]
+          contact_name?: string | null
+          created_at?: string
+          default_expense_category_id?: string | null
+          default_payment_method?: string | null
+          email?: string | null
+          gst_number?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string | null
+          aliases?: string[]
+          contact_name?: string | null
+          created_at?: string
+          default_expense_category_id?: string | null
+          default_payment_method?: string | null
+          email?: string | null
+          gst_number?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vendors_default_expense_category_id_fkey"
+            columns: ["default_expense_category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      shared_invoices: {
+        Row: {
+          id: string
+          original_invoice_id: string
+          share_token: string
+          invoice_data: Json
+          template_data: Json
+          expires_at: string | null
+          access_count: number
+          is_active: boolean
+          created_by: string
+          passcode_hash: string | null
+          last_viewed_at: string | null
+          revoked_at: string | null
+          failed_passcode_attempts: number
+          passcode_locked_until: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          original_invoice_id: string
+          share_token?: string
+          invoice_data: Json
+          template_data: Json
+          expires_at?: string | null
+          access_count?: number
+          is_active?: boolean
+          created_by: string
+          passcode_hash?: string | null
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          failed_passcode_attempts?: number
+          passcode_locked_until?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          original_invoice_id?: string
+          share_token?: string
+          invoice_data?: Json
+          template_data?: Json
+          expires_at?: string | null
+          access_count?: number
+          is_active?: boolean
+          created_by?: string
+          passcode_hash?: string | null
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          failed_passcode_attempts?: number
+          passcode_locked_until?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_invoices_original_invoice_id_fkey"
+            columns: ["original_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      shared_invoice_views: {
+        Row: {
+          id: string
+          shared_invoice_id: string
+          viewed_at: string
+          user_agent: string | null
+        }
+        Insert: {
+          id?: string
+          shared_invoice_id: string
+          viewed_at?: string
+          user_agent?: string | null
+        }
+        Update: {
+          id?: string
+          shared_invoice_id?: string
+          viewed_at?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_invoice_views_shared_invoice_id_fkey"
+            columns: ["shared_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "shared_invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          user_id: string
+          actor_id: string | null
+          actor_email: string | null
+          entity_type: string
+          entity_id: string
+          entity_label: string | null
+          action: string
+          old_data: Json | null
+          new_data: Json | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          actor_id?: string | null
+          actor_email?: string | null
+          entity_type: string
+          entity_id: string
+          entity_label?: string | null
+          action: string
+          old_data?: Json | null
+          new_data?: Json | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          entity_type?: string
+          entity_id?: string
+          entity_label?: string | null
+          action?: string
+          old_data?: Json | null
+          new_data?: Json | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      payment_checkout_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          invoice_id: string
+          gateway: string
+          external_id: string
+          checkout_url: string | null
+          amount: number
+          currency: string
+          status: string
+          webhook_event: Json | null
+          payment_id: string | null
+          completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          invoice_id: string
+          gateway: string
+          external_id: string
+          checkout_url?: string | null
+          amount: number
+          currency: string
+          status?: string
+          webhook_event?: Json | null
+          payment_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          invoice_id?: string
+          gateway?: string
+          external_id?: string
+          checkout_url?: string | null
+          amount?: number
+          currency?: string
+          status?: string
+          webhook_event?: Json | null
+          payment_id?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_checkout_sessions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_checkout_sessions_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      posting_account_mappings: {
+        Row: {
+          id: string
+          user_id: string
+          posting_role: string
+          account_id: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          posting_role: string
+          account_id: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          posting_role?: string
+          account_id?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posting_account_mappings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      period_locks: {
+        Row: {
+          created_at: string
+          id: string
+          lock_date: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lock_date?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lock_date?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      account_templates: {
+        Row: {
+          account_class: string
+          account_number: string
+          account_type: string
+          country_code: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_system: boolean | null
+          name: string
+          normal_balance: string
+          parent_account_number: string | null
+          template_pack: string
+        }
+        Insert: {
+          account_class: string
+          account_number: string
+          account_type: string
+          country_code?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean | null
+          name: string
+          normal_balance: string
+          parent_account_number?: string | null
+          template_pack: string
+        }
+        Update: {
+          account_class?: string
+          account_number?: string
+          account_type?: string
+          country_code?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean | null
+          name?: string
+          normal_balance?: string
+          parent_account_number?: string | null
+          template_pack?: string
+        }
+        Relationships: []
+      }
+      budgets: {
+        Row: {
+          account_id: string | null
+          amount: number
+          created_at: string
+          expense_category_id: string | null
+          id: string
+          period_month: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount?: number
+          created_at?: string
+          expense_category_id?: string | null
+          id?: string
+          period_month: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          created_at?: string
+          expense_category_id?: string | null
+          id?: string
+          period_month?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budgets_expense_category_id_fkey"
+            columns: ["expense_category_id"]
+            isOneToOne: false
+            referencedRelation: "expense_categories"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_credit_note: {
+        Args: { p_credit_note_id: string; p_invoice_id: string; p_amount: number; p_applied_date: string }
+        Returns: undefined
+      }
+      complete_payment_refund: {
+        Args: {
+          p_refund_id: string
+          p_from_credit: number
+          p_allocation_reductions: Json
+          p_entry_number: string | null
+          p_journal_amount: number | null
+          p_journal_description: string | null
+          p_journal_lines: Json | null
+        }
+        Returns: string | null
+      }
+      get_shared_quote_by_token: {
+        Args: { token: string }
+        Returns: {
+          quote: Json
+          customer: Json
+          business_profile: Json
+        }[]
+      }
+      last_credit_note_sequence: {
+        Args: { p_user_id: string; p_prefix: string }
+        Returns: number
+      }
+      last_journal_entry_sequence: {
+        Args: { p_user_id: string; p_prefix: string }
+        Returns: number
+      }
+      link_checkout_payment: {
+        Args: { p_gateway: string; p_external_id: string; p_payment_id: string }
+        Returns: undefined
+      }
+      merge_accounts: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: undefined
+      }
+      next_credit_note_sequence: {
+        Args: { p_user_id: string; p_prefix: string }
+        Returns: number
+      }
+      next_journal_entry_sequence: {
+        Args: { p_user_id: string; p_prefix: string }
+        Returns: number
+      }
+      respond_to_shared_quote: {
+        Args: {
+          token: string
+          response: string
+          responder_name: string
+          note?: string
+        }
+        Returns: string
+      }
+      set_shared_invoice_passcode: {
+        Args: { share_id: string; passcode: string | null }
+        Returns: undefined
+      }
+      view_shared_invoice: {
+        Args: { token: string; passcode?: string; viewer_agent?: string }
+        Returns: {
+          status: string
+          invoice_data: Json | null
+          template_data: Json | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -3,7 +3,8 @@
  */
 
 import { Customer, Invoice, BusinessProfile, Item, ItemCategory, Account, Expense, ExpenseCategory } from "@/types";
-import { Payment, Receipt, CreatePaymentRequest, EnhancedInvoice } from "@/types/payment";
+import { Payment, Receipt, CreatePaymentRequest, CreateBatchPaymentRequest, BatchPaymentResult, CreateRefundRequest, RefundResult, EnhancedInvoice } from "@/types/payment";
+import { RecurringRunResult } from "@/types/recurringInvoice";
 
 // Data state interface
 export interface IDataState {
@@ -62,6 +63,13 @@ export interface IDataCRUD {
   getInvoice(id: string): Promise<Invoice | null>;
   getNextInvoiceNumber(): Promise<string>;
   updateInvoiceStatus(id: string, status: Invoice['status']): Promise<Invoice>;
+
+  // Recurring invoice operations
+  runRecurringSchedule(scheduleId: string, runDate?: string): Promise<RecurringRunResult>;
+  processDueRecurringSchedules(): Promise<RecurringRunResult[]>;
+
+  // Quote operations
+  convertQuoteToInvoice(quoteId: string): Promise<Invoice>;
   
   // Customer operations
   createCustomer(customer: Omit<Customer, "id" | "createdAt" | "updatedAt">): Promise<Customer>;
@@ -75,6 +83,8 @@ export interface IDataCRUD {
   
   // Payment operations
   createPayment(payment: CreatePaymentRequest): Promise<Payment>;
+  createBatchPayment(request: CreateBatchPaymentRequest): Promise<BatchPaymentResult>;
+  refundPayment(request: CreateRefundRequest): Promise<RefundResult>;
   getInvoicesWithBalance(): Promise<EnhancedInvoice[]>;
 }
 
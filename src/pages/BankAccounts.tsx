@@ -4,7 +4,7 @@ import { bankAccountService } from '@/services/bankAccountService';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2, CreditCard, Building, Landmark, Wallet, Upload } from 'lucide-react';
+import { Plus, Edit, Trash2, CreditCard, Building, Landmark, Wallet, Upload, ListChecks, Wand2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { BankAccountDialog } from '@/components/bank-account/BankAccountDialog';
 import { useNavigate } from 'react-router-dom';
@@ -98,6 +98,10 @@ export default function BankAccountsPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate('/bank-rules')} className="gap-2">
+            <Wand2 className="h-4 w-4" />
+            Bank Rules
+          </Button>
           <Button 
             variant="outline" 
             onClick={() => navigate('/transaction-import')} 
@@ -184,6 +188,15 @@ export default function BankAccountsPage() {
                   </div>
 
                   <div className="flex gap-2 pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => navigate(`/bank-accounts/${account.id}/reconcile`)}
+                      className="flex-1 gap-2"
+                    >
+                      <ListChecks className="h-3 w-3" />
+                      Reconcile
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -0,0 +1,411 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, Link2, Plus, Save, Undo2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MatchTransactionDialog } from '@/components/bank-reconciliation/MatchTransactionDialog';
+import { CreateExpenseFromTransactionDialog } from '@/components/bank-reconciliation/CreateExpenseFromTransactionDialog';
+import { bankAccountService } from '@/services/bankAccountService';
+import { transactionImportService } from '@/services/transactionImportService';
+import { bankReconciliationService } from '@/services/bankReconciliationService';
+import { useAppData } from '@/hooks/useAppData';
+import { BankAccount, BankTransaction } from '@/types/bankTransaction';
+import { MatchSuggestion, ReconciliationCandidate, ReconciliationMatch } from '@/types/bankReconciliation';
+
+const CONFIDENCE_STYLES: Record<MatchSuggestion['confidence'], string> = {
+  high: 'text-green-700 border-green-200 bg-green-50',
+  medium: 'text-amber-700 border-amber-200 bg-amber-50',
+  low: 'text-muted-foreground'
+};
+
+export default function BankReconciliationPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { expenseCategories } = useAppData();
+
+  const [account, setAccount] = useState<BankAccount | null>(null);
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [candidates, setCandidates] = useState<ReconciliationCandidate[]>([]);
+  const [matches, setMatches] = useState<ReconciliationMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [statementDate, setStatementDate] = useState('');
+  const [matchingTransaction, setMatchingTransaction] = useState<BankTransaction | null>(null);
+  const [expenseTransaction, setExpenseTransaction] = useState<BankTransaction | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const [bankAccount, bankTransactions, reconciliationCandidates, reconciliationMatches] = await Promise.all([
+        bankAccountService.getBankAccount(id),
+        transactionImportService.getExistingTransactions(id),
+        bankReconciliationService.getCandidates(),
+        bankReconciliationService.getReconciliationMatches(id)
+      ]);
+
+      setAccount(bankAccount);
+      setTransactions(bankTransactions.sort((a, b) => b.transactionDate.localeCompare(a.transactionDate)));
+      setCandidates(reconciliationCandidates);
+      setMatches(reconciliationMatches);
+      setStatementBalance(bankAccount?.statementBalance != null ? String(bankAccount.statementBalance) : '');
+      setStatementDate(bankAccount?.statementDate || '');
+    } catch (error) {
+      console.error('Error loading reconciliation data:', error);
+      toast.error('Failed to load reconciliation data');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const unreconciled = useMemo(() => transactions.filter(transaction => !transaction.isReconciled), [transactions]);
+  const reconciled = useMemo(() => transactions.filter(transaction => transaction.isReconciled), [transactions]);
+
+  const suggestionsByTransaction = useMemo(() => {
+    const suggestions = new Map<string, MatchSuggestion[]>();
+    unreconciled.forEach(transaction => {
+      suggestions.set(transaction.id, bankReconciliationService.suggestMatches(transaction, candidates));
+    });
+    return suggestions;
+  }, [unreconciled, candidates]);
+
+  const matchingSuggestions = useMemo(
+    () => matchingTransaction ? suggestionsByTransaction.get(matchingTransaction.id) || [] : [],
+    [matchingTransaction, suggestionsByTransaction]
+  );
+
+  const summary = useMemo(
+    () => account ? bankReconciliationService.calculateReconciliationSummary(account, transactions) : null,
+    [account, transactions]
+  );
+
+  const currency = account?.currency || 'NZD';
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-NZ', { style: 'currency', currency }).format(amount);
+
+  const handleMatch = async (transaction: BankTransaction, selected: ReconciliationCandidate[]) => {
+    try {
+      await bankReconciliationService.reconcileTransaction(transaction, selected);
+      toast.success('Transaction reconciled');
+      await loadData();
+    } catch (error) {
+      console.error('Error reconciling transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reconcile transaction');
+      throw error;
+    }
+  };
+
+  const handleCreateExpense = async (
+    transaction: BankTransaction,
+    details: { description: string; categoryId: string | null; taxAmount: number }
+  ) => {
+    try {
+      await bankReconciliationService.createExpenseFromTransaction(transaction, { ...details, currency });
+      toast.success('Expense created and reconciled');
+      await loadData();
+    } catch (error) {
+      console.error('Error creating expense from transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create expense');
+      throw error;
+    }
+  };
+
+  const handleUndo = async (transaction: BankTransaction) => {
+    try {
+      await bankReconciliationService.unreconcileTransaction(transaction.id);
+      toast.success('Reconciliation removed');
+      await loadData();
+    } catch (error) {
+      console.error('Error removing reconciliation:', error);
+      toast.error('Failed to remove reconciliation');
+    }
+  };
+
+  const handleSaveStatementBalance = async () => {
+    if (!account) return;
+    const balance = parseFloat(statementBalance);
+    if (isNaN(balance) || !statementDate) {
+      toast.error('Enter the closing balance and date from your statement');
+      return;
+    }
+
+    try {
+      const updated = await bankReconciliationService.updateStatementBalance(account.id, balance, statementDate);
+      setAccount(updated);
+      toast.success('Statement balance saved');
+    } catch (error) {
+      console.error('Error saving statement balance:', error);
+      toast.error('Failed to save statement balance');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!account || !summary) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="pt-6 text-center py-12">
+            <p className="text-muted-foreground mb-4">Bank account not found</p>
+            <Button variant="outline" onClick={() => navigate('/bank-accounts')}>Back to Bank Accounts</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/bank-accounts')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Reconcile {account.accountName}</h1>
+            <p className="text-muted-foreground">
+              {account.bankName} • {account.accountNumber}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/transaction-import')} className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import Transactions
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Statement balance</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(summary.statementBalance)}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="statement-balance" className="text-xs">Closing balance</Label>
+                <Input
+                  id="statement-balance"
+                  type="number"
+                  step="0.01"
+                  value={statementBalance}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="statement-date" className="text-xs">Statement date</Label>
+                <Input
+                  id="statement-date"
+                  type="date"
+                  value={statementDate}
+                  onChange={(e) => setStatementDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button size="sm" variant="outline" className="w-full gap-2" onClick={handleSaveStatementBalance}>
+              <Save className="h-3 w-3" />
+              Save statement balance
+            </Button>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Reconciled ledger balance</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(summary.ledgerBalance)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            Opening balance plus {summary.reconciledCount} reconciled transaction{summary.reconciledCount === 1 ? '' : 's'}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Difference</CardDescription>
+            <CardTitle className={`text-2xl ${summary.difference === 0 ? 'text-green-600' : 'text-orange-600'}`}>
+              {formatCurrency(summary.difference)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {summary.difference === 0
+              ? 'Your books agree with the bank statement'
+              : `${summary.unreconciledCount} transaction${summary.unreconciledCount === 1 ? '' : 's'} still to reconcile`}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="unreconciled">
+        <TabsList>
+          <TabsTrigger value="unreconciled">To reconcile ({unreconciled.length})</TabsTrigger>
+          <TabsTrigger value="reconciled">Reconciled ({reconciled.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="unreconciled">
+          <Card>
+            <CardContent className="pt-6">
+              {unreconciled.length === 0 ? (
+                <div className="text-center py-12">
+                  <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+                  <p className="text-muted-foreground">All imported transactions are reconciled</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Suggested match</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unreconciled.map(transaction => {
+                      const suggestion = suggestionsByTransaction.get(transaction.id)?.[0];
+                      return (
+                        <TableRow key={transaction.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(transaction.transactionDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{transaction.description}</div>
+                            {transaction.reference && (
+                              <div className="text-xs text-muted-foreground">{transaction.reference}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className={`text-right font-mono ${transaction.type === 'credit' ? 'text-green-600' : ''}`}>
+                            {transaction.type === 'credit' ? '' : '-'}{formatCurrency(transaction.amount)}
+                          </TableCell>
+                          <TableCell>
+                            {suggestion ? (
+                              <div className="space-y-1">
+                                <div className="text-sm">
+                                  {suggestion.candidates.map(candidate => candidate.description || candidate.reference).join(', ')}
+                                </div>
+                                <Badge variant="outline" className={CONFIDENCE_STYLES[suggestion.confidence]}>
+                                  {suggestion.reasons.join(' · ')}
+                                </Badge>
+                              </div>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">No match found</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              {suggestion && (
+                                <Button size="sm" onClick={() => handleMatch(transaction, suggestion.candidates).catch(() => undefined)}>
+                                  Match
+                                </Button>
+                              )}
+                              <Button size="sm" variant="outline" className="gap-1" onClick={() => setMatchingTransaction(transaction)}>
+                                <Link2 className="h-3 w-3" />
+                                Find
+                              </Button>
+                              {transaction.type === 'debit' && (
+                                <Button size="sm" variant="outline" className="gap-1" onClick={() => setExpenseTransaction(transaction)}>
+                                  <Plus className="h-3 w-3" />
+                                  Expense
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reconciled">
+          <Card>
+            <CardContent className="pt-6">
+              {reconciled.length === 0 ? (
+                <p className="text-center py-12 text-muted-foreground">No reconciled transactions yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Matched to</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reconciled.map(transaction => {
+                      const transactionMatches = matches.filter(match => match.bankTransactionId === transaction.id);
+                      const matchLabel = transaction.type === 'credit' ? 'payment' : 'expense';
+                      return (
+                        <TableRow key={transaction.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(transaction.transactionDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>{transaction.description}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {transaction.type === 'credit' ? '' : '-'}{formatCurrency(transaction.amount)}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {transactionMatches.length} {matchLabel}{transactionMatches.length === 1 ? '' : 's'}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => handleUndo(transaction)}
+                              aria-label="Undo reconciliation"
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <MatchTransactionDialog
+        open={!!matchingTransaction}
+        onOpenChange={(open) => !open && setMatchingTransaction(null)}
+        transaction={matchingTransaction}
+        candidates={candidates}
+        suggestions={matchingSuggestions}
+        currency={currency}
+        onMatch={handleMatch}
+      />
+
+      <CreateExpenseFromTransactionDialog
+        open={!!expenseTransaction}
+        onOpenChange={(open) => !open && setExpenseTransaction(null)}
+        transaction={expenseTransaction}
+        categories={expenseCategories}
+        currency={currency}
+        onCreate={handleCreateExpense}
+      />
+    </div>
+  );
+}
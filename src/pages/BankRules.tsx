@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, Pencil, Plus, Trash2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BankRuleDialog, BankRuleDraft } from '@/components/bank-rules/BankRuleDialog';
+import { bankRuleService } from '@/services/bankRuleService';
+import { bankAccountService } from '@/services/bankAccountService';
+import { transactionImportService } from '@/services/transactionImportService';
+import { useAppData } from '@/hooks/useAppData';
+import { TAX_CODES } from '@/types';
+import { BankAccount, BankTransaction } from '@/types/bankTransaction';
+import { BankRule } from '@/types/bankRule';
+
+export default function BankRulesPage() {
+  const navigate = useNavigate();
+  const { expenseCategories, customers } = useAppData();
+
+  const [rules, setRules] = useState<BankRule[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [pastTransactions, setPastTransactions] = useState<BankTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<BankRule | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [bankRules, accounts, transactions] = await Promise.all([
+        bankRuleService.getBankRules(),
+        bankAccountService.getBankAccounts(),
+        transactionImportService.getRecentTransactions()
+      ]);
+      setRules(bankRules);
+      setBankAccounts(accounts);
+      setPastTransactions(transactions);
+    } catch (error) {
+      console.error('Error loading bank rules:', error);
+      toast.error('Failed to load bank rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const nextPriority = useMemo(
+    () => rules.reduce((max, rule) => Math.max(max, rule.priority), 0) + 10,
+    [rules]
+  );
+
+  const describeConditions = (rule: BankRule): string => {
+    const { conditions } = rule;
+    const parts: string[] = [];
+    if (conditions.descriptionValue) {
+      parts.push(conditions.descriptionOperator === 'regex'
+        ? `description matches /${conditions.descriptionValue}/`
+        : `description contains "${conditions.descriptionValue}"`);
+    }
+    if (conditions.amountMin != null && conditions.amountMax != null) {
+      parts.push(`amount ${conditions.amountMin}–${conditions.amountMax}`);
+    } else if (conditions.amountMin != null) {
+      parts.push(`amount ≥ ${conditions.amountMin}`);
+    } else if (conditions.amountMax != null) {
+      parts.push(`amount ≤ ${conditions.amountMax}`);
+    }
+    if (conditions.transactionType) {
+      parts.push(conditions.transactionType === 'debit' ? 'money spent' : 'money received');
+    }
+    if (conditions.bankAccountId) {
+      const account = bankAccounts.find(a => a.id === conditions.bankAccountId);
+      parts.push(`in ${account?.accountName || 'selected account'}`);
+    }
+    return parts.join(', ');
+  };
+
+  const describeActions = (rule: BankRule): string[] => {
+    const { actions } = rule;
+    const parts: string[] = [];
+    if (actions.expenseCategoryId) {
+      parts.push(expenseCategories.find(c => c.id === actions.expenseCategoryId)?.name || 'Category');
+    }
+    if (actions.merchant) parts.push(actions.merchant);
+    if (actions.customerId) {
+      parts.push(customers.find(c => c.id === actions.customerId)?.name || 'Customer');
+    }
+    if (actions.taxCode) parts.push(TAX_CODES[actions.taxCode].label);
+    if (actions.autoCreateExpense) parts.push('Auto-create expense');
+    return parts;
+  };
+
+  const handleSave = async (draft: BankRuleDraft) => {
+    if (editingRule) {
+      await bankRuleService.updateBankRule(editingRule.id, draft);
+      toast.success('Bank rule updated');
+    } else {
+      await bankRuleService.createBankRule(draft);
+      toast.success('Bank rule created');
+    }
+    await loadData();
+  };
+
+  const handleToggle = async (rule: BankRule, isActive: boolean) => {
+    try {
+      await bankRuleService.updateBankRule(rule.id, { isActive });
+      setRules(current => current.map(r => r.id === rule.id ? { ...r, isActive } : r));
+    } catch (error) {
+      console.error('Error updating bank rule:', error);
+      toast.error('Failed to update bank rule');
+    }
+  };
+
+  const handleMove = async (rule: BankRule, direction: 'up' | 'down') => {
+    try {
+      await bankRuleService.moveBankRule(rules, rule.id, direction);
+      await loadData();
+    } catch (error) {
+      console.error('Error reordering bank rules:', error);
+      toast.error('Failed to reorder bank rules');
+    }
+  };
+
+  const handleDelete = async (rule: BankRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Transactions it already categorised are not changed.`)) {
+      return;
+    }
+    try {
+      await bankRuleService.deleteBankRule(rule.id);
+      toast.success('Bank rule deleted');
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting bank rule:', error);
+      toast.error('Failed to delete bank rule');
+    }
+  };
+
+  const openDialog = (rule: BankRule | null) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/bank-accounts')} className="gap-2 mb-2 -ml-3">
+            <ArrowLeft className="h-4 w-4" />
+            Back to Bank Accounts
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Bank Rules</h1>
+          <p className="text-muted-foreground">
+            Automatically categorise transactions as they are imported
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            Evaluated from top to bottom. Transactions that match no rule fall back to the built-in categories.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">Loading bank rules...</p>
+          ) : rules.length === 0 ? (
+            <div className="py-12 text-center space-y-3">
+              <Wand2 className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">No bank rules yet</p>
+              <Button variant="outline" onClick={() => openDialog(null)}>Create your first rule</Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Order</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Actions</TableHead>
+                  <TableHead className="w-20">Active</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule, index) => (
+                  <TableRow key={rule.id} className={rule.isActive ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => handleMove(rule, 'up')}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === rules.length - 1} onClick={() => handleMove(rule, 'down')}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      <div className="text-xs text-muted-foreground">{describeConditions(rule)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {describeActions(rule).map(action => (
+                          <Badge key={action} variant="outline">{action}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={rule.isActive} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BankRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rule={editingRule}
+        rules={rules}
+        nextPriority={nextPriority}
+        bankAccounts={bankAccounts}
+        expenseCategories={expenseCategories}
+        customers={customers}
+        pastTransactions={pastTransactions}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Ban, Plus, ReceiptText, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BillFormDialog } from '@/components/bill/BillFormDialog';
+import { BillPaymentDialog } from '@/components/bill/BillPaymentDialog';
+import { billService } from '@/services/billService';
+import { Bill, BillStatus, CreateBillRequest, RecordBillPaymentRequest } from '@/types/bill';
+import { ReceiptScanResult } from '@/types/receipt';
+import { AgingBuckets } from '@/types/statement';
+
+const STATUS_LABELS: Record<BillStatus, string> = {
+  awaiting_payment: 'Awaiting Payment',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+const STATUS_VARIANTS: Record<BillStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  awaiting_payment: 'destructive',
+  partially_paid: 'secondary',
+  paid: 'default',
+  void: 'outline',
+};
+
+const AGING_COLUMNS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30 days' },
+  { key: 'days31to60', label: '31-60 days' },
+  { key: 'days61to90', label: '61-90 days' },
+  { key: 'over90', label: '90+ days' },
+];
+
+// Set by the expense form when a scanned receipt should be recorded as a bill instead
+interface BillsLocationState {
+  scanResult?: ReceiptScanResult;
+  receiptUrl?: string | null;
+}
+
+export default function BillsPage() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [aging, setAging] = useState<AgingBuckets | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [formValues, setFormValues] = useState<CreateBillRequest | null>(null);
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [allBills, payables] = await Promise.all([
+        billService.getBills(),
+        billService.getPayablesAging()
+      ]);
+      setBills(allBills);
+      setAging(payables.aging);
+    } catch (error) {
+      console.error('Error loading bills:', error);
+      toast.error('Failed to load bills');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    const state = location.state as BillsLocationState | null;
+    if (state?.scanResult) {
+      setFormValues(billService.buildBillFromScan(state.scanResult, state.receiptUrl));
+      setFormOpen(true);
+      // Clear the state so a refresh does not reopen the form
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location.state, location.pathname, navigate]);
+
+  const openNewBill = () => {
+    setFormValues(null);
+    setFormOpen(true);
+  };
+
+  const handleCreate = async (request: CreateBillRequest) => {
+    await billService.createBill(request);
+    toast.success(`Bill from ${request.supplierName} recorded`);
+    await loadData();
+  };
+
+  const handlePayment = async (request: RecordBillPaymentRequest) => {
+    const bill = await billService.recordPayment(request);
+    toast.success(bill.status === 'paid'
+      ? `Bill from ${bill.supplierName} paid in full`
+      : `Payment recorded, $${bill.balanceDue.toFixed(2)} still owing`);
+    await loadData();
+  };
+
+  const handleVoid = async (bill: Bill) => {
+    if (!window.confirm(`Void the bill from ${bill.supplierName}? Its journal entry will be reversed.`)) return;
+
+    try {
+      await billService.voidBill(bill.id);
+      toast.success('Bill voided');
+      await loadData();
+    } catch (error) {
+      console.error('Error voiding bill:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to void bill');
+    }
+  };
+
+  const isOverdue = (bill: Bill) =>
+    bill.balanceDue > 0 && bill.dueDate < format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Bills</h1>
+          <p className="text-muted-foreground">
+            Supplier invoices you owe, paid in full or in part from your bank accounts
+          </p>
+        </div>
+        <Button onClick={openNewBill} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Bill
+        </Button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+        {AGING_COLUMNS.map(column => (
+          <Card key={column.key}>
+            <CardHeader className="pb-2">
+              <CardDescription>{column.label}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-xl font-bold ${column.key !== 'current' && (aging?.[column.key] || 0) > 0 ? 'text-red-600' : ''}`}>
+                ${(aging?.[column.key] || 0).toFixed(2)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Payable</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">${(aging?.total || 0).toFixed(2)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Bills</CardTitle>
+          <CardDescription>
+            Bills post to Accounts Payable when recorded and are cleared as payments are made.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">Loading bills...</p>
+          ) : bills.length === 0 ? (
+            <div className="py-12 text-center space-y-3">
+              <ReceiptText className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">No bills yet</p>
+              <Button variant="outline" onClick={openNewBill}>Record your first bill</Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Bill Date</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Owing</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-44" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bills.map(bill => (
+                  <TableRow key={bill.id}>
+                    <TableCell>
+                      <div className="font-medium">{bill.supplierName}</div>
+                      {bill.billNumber && <div className="text-xs text-muted-foreground">#{bill.billNumber}</div>}
+                    </TableCell>
+                    <TableCell>{format(parseISO(bill.billDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell className={isOverdue(bill) ? 'text-red-600' : ''}>
+                      {format(parseISO(bill.dueDate), 'dd MMM yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right">${bill.total.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${bill.balanceDue.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[bill.status]}>{STATUS_LABELS[bill.status]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        {bill.balanceDue > 0 && (
+                          <Button size="sm" variant="outline" className="gap-1" onClick={() => setPayingBill(bill)}>
+                            <Wallet className="h-4 w-4" />
+                            Pay
+                          </Button>
+                        )}
+                        {bill.status !== 'void' && bill.amountPaid === 0 && (
+                          <Button size="sm" variant="ghost" className="gap-1" onClick={() => handleVoid(bill)}>
+                            <Ban className="h-4 w-4" />
+                            Void
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BillFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        initialValues={formValues}
+        onSubmit={handleCreate}
+      />
+
+      <BillPaymentDialog
+        bill={payingBill}
+        open={!!payingBill}
+        onOpenChange={(open) => !open && setPayingBill(null)}
+        onSubmit={handlePayment}
+      />
+    </div>
+  );
+}
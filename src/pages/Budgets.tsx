@@ -0,0 +1,346 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { budgetService } from '@/services/budgetService';
+import { readCSVText } from '@/services/csvParser';
+import { BudgetCell, BudgetTarget, BudgetVsActualLine, BudgetVsActualReport } from '@/types/budget';
+
+// NZ financial years run April to March; years are named by the March they end in
+const currentFinancialYear = () => {
+  const now = new Date();
+  return now.getMonth() >= 3 ? now.getFullYear() + 1 : now.getFullYear();
+};
+
+const financialYearMonths = (yearEnd: number) => budgetService.getMonths(`${yearEnd - 1}-04-01`, `${yearEnd}-03-01`);
+
+const cellKey = (target: Pick<BudgetTarget, 'type' | 'id'>, month: string) => `${target.type}:${target.id}:${month.slice(0, 7)}`;
+
+const targetLabel = (target: BudgetTarget) => `${target.accountNumber ? `${target.accountNumber} ` : ''}${target.name}`;
+
+const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const TARGET_GROUPS: Array<{ title: string; include: (target: BudgetTarget) => boolean }> = [
+  { title: 'Revenue accounts', include: target => target.type === 'account' && target.kind === 'revenue' },
+  { title: 'Expense accounts', include: target => target.type === 'account' && target.kind === 'expense' },
+  { title: 'Expense categories', include: target => target.type === 'category' }
+];
+
+export default function BudgetsPage() {
+  const [yearEnd, setYearEnd] = useState(currentFinancialYear);
+  const [targets, setTargets] = useState<BudgetTarget[]>([]);
+  const [saved, setSaved] = useState<Record<string, number>>({});
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [startMonth, setStartMonth] = useState(`${currentFinancialYear() - 1}-04`);
+  const [endMonth, setEndMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [report, setReport] = useState<BudgetVsActualReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+
+  const months = useMemo(() => financialYearMonths(yearEnd), [yearEnd]);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      setLoading(true);
+      const yearMonths = financialYearMonths(yearEnd);
+      const [budgetTargets, budgets] = await Promise.all([
+        budgetService.getTargets(),
+        budgetService.getBudgets(yearMonths[0], yearMonths[yearMonths.length - 1])
+      ]);
+      const savedAmounts = Object.fromEntries(budgets.map(budget => [
+        cellKey({ type: budget.targetType, id: budget.targetId }, budget.periodMonth),
+        budget.amount
+      ]));
+      setTargets(budgetTargets);
+      setSaved(savedAmounts);
+      setAmounts(Object.fromEntries(Object.entries(savedAmounts).map(([key, amount]) => [key, amount ? String(amount) : ''])));
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+      toast.error('Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  }, [yearEnd]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  const changedCells = useMemo(() => {
+    const cells: BudgetCell[] = [];
+    targets.forEach(target => months.forEach(month => {
+      const key = cellKey(target, month);
+      const amount = Number(amounts[key] || 0);
+      if (amount !== (saved[key] || 0)) {
+        cells.push({ targetType: target.type, targetId: target.id, periodMonth: month, amount });
+      }
+    }));
+    return cells;
+  }, [targets, months, amounts, saved]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await budgetService.saveBudgets(changedCells);
+      toast.success('Budget saved');
+      await loadBudgets();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { text } = await readCSVText(file);
+      const result = budgetService.parseBudgetCsv(text, targets, months);
+      if (result.cells.length === 0) {
+        toast.error(result.errors[0] || 'No budget amounts found in the file');
+        return;
+      }
+
+      setAmounts(prev => ({
+        ...prev,
+        ...Object.fromEntries(result.cells.map(cell => [cellKey({ type: cell.targetType, id: cell.targetId }, cell.periodMonth), String(cell.amount)]))
+      }));
+
+      const skipped = [
+        result.unmatchedNames.length > 0 ? `No account or category matched: ${result.unmatchedNames.join(', ')}` : '',
+        ...result.errors
+      ].filter(Boolean);
+      toast.success(`${result.cells.length} budget amounts imported. Review them and save.`, {
+        description: skipped.length > 0 ? skipped.join('. ') : undefined
+      });
+    } catch (error) {
+      console.error('Error importing budget:', error);
+      toast.error('Could not read the CSV file');
+    }
+  };
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoadingReport(true);
+      setReport(await budgetService.getBudgetVsActual(`${startMonth}-01`, `${endMonth}-01`));
+    } catch (error) {
+      console.error('Error loading budget vs actual:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load budget vs actual');
+    } finally {
+      setLoadingReport(false);
+    }
+  }, [startMonth, endMonth]);
+
+  const rowTotal = (target: BudgetTarget) =>
+    months.reduce((sum, month) => sum + Number(amounts[cellKey(target, month)] || 0), 0);
+
+  // Green when the line is doing better than budget
+  const varianceClass = (line: BudgetVsActualLine, variance: number) => {
+    if (variance === 0) return 'text-muted-foreground';
+    const favourable = line.target.kind === 'revenue' ? variance > 0 : variance < 0;
+    return favourable ? 'text-green-600' : 'text-red-600';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Budgets</h1>
+        <p className="text-muted-foreground">
+          Monthly budgets for revenue, expense accounts and expense categories, compared with what has been posted to the ledger
+        </p>
+      </div>
+
+      <Tabs defaultValue="budget">
+        <TabsList>
+          <TabsTrigger value="budget">Budget</TabsTrigger>
+          <TabsTrigger value="actual">Budget vs Actual</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="budget">
+          <Card>
+            <CardHeader className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+              <div>
+                <CardTitle>Budget</CardTitle>
+                <CardDescription>
+                  Import a CSV with one row per account or category and a column per month, or type amounts in.
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label>Financial year</Label>
+                  <Select value={String(yearEnd)} onValueChange={(value) => setYearEnd(Number(value))}>
+                    <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {[-1, 0, 1, 2].map(offset => currentFinancialYear() + offset).map(year => (
+                        <SelectItem key={year} value={String(year)}>Year ending Mar {year}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+                <Button variant="outline" className="gap-2" onClick={() => fileInputRef.current?.click()} disabled={loading}>
+                  <Upload className="h-4 w-4" />
+                  Import CSV
+                </Button>
+                <Button onClick={handleSave} disabled={saving || changedCells.length === 0}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Budget
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : targets.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  Add revenue and expense accounts in Settings &gt; Chart of Accounts, or expense categories, to start budgeting.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-48">Account or category</TableHead>
+                        {months.map(month => (
+                          <TableHead key={month} className="min-w-24 text-right">{format(parseISO(month), 'MMM yy')}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {TARGET_GROUPS.map(group => {
+                        const groupTargets = targets.filter(group.include);
+                        if (groupTargets.length === 0) return null;
+                        return (
+                          <React.Fragment key={group.title}>
+                            <TableRow>
+                              <TableCell colSpan={months.length + 2} className="bg-muted/50 font-medium">{group.title}</TableCell>
+                            </TableRow>
+                            {groupTargets.map(target => (
+                              <TableRow key={`${target.type}:${target.id}`}>
+                                <TableCell className="whitespace-nowrap">{targetLabel(target)}</TableCell>
+                                {months.map(month => {
+                                  const key = cellKey(target, month);
+                                  return (
+                                    <TableCell key={month} className="p-1">
+                                      <Input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        inputMode="decimal"
+                                        className="h-8 text-right"
+                                        aria-label={`${target.name} ${format(parseISO(month), 'MMMM yyyy')}`}
+                                        value={amounts[key] ?? ''}
+                                        onChange={(event) => setAmounts(prev => ({ ...prev, [key]: event.target.value }))}
+                                      />
+                                    </TableCell>
+                                  );
+                                })}
+                                <TableCell className="text-right font-medium">{formatAmount(rowTotal(target))}</TableCell>
+                              </TableRow>
+                            ))}
+                          </React.Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="actual">
+          <Card>
+            <CardHeader className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+              <div>
+                <CardTitle>Budget vs Actual</CardTitle>
+                <CardDescription>
+                  Actuals are the posted ledger lines behind the financial statements. Variance is actual minus budget.
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="budget-start">From</Label>
+                  <Input id="budget-start" type="month" value={startMonth} onChange={(event) => setStartMonth(event.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="budget-end">To</Label>
+                  <Input id="budget-end" type="month" value={endMonth} onChange={(event) => setEndMonth(event.target.value)} />
+                </div>
+                <Button onClick={loadReport} disabled={loadingReport || !startMonth || !endMonth}>
+                  {loadingReport && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Run Report
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!report ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Choose a range and run the report.</p>
+              ) : report.lines.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">Nothing is budgeted in this range.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="min-w-48">Account or category</TableHead>
+                        {report.months.length > 1 && report.months.map(month => (
+                          <TableHead key={month} className="min-w-28 text-right">{format(parseISO(month), 'MMM yy')}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Budget</TableHead>
+                        <TableHead className="text-right">Actual</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                        <TableHead className="text-right">%</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.lines.map(line => (
+                        <TableRow key={`${line.target.type}:${line.target.id}`}>
+                          <TableCell className="whitespace-nowrap">
+                            {targetLabel(line.target)}
+                            {line.overBudget && <Badge variant="destructive" className="ml-2">Over budget</Badge>}
+                          </TableCell>
+                          {report.months.length > 1 && line.periods.map(period => (
+                            <TableCell key={period.periodMonth} className="text-right">
+                              <div>{formatAmount(period.actual)}</div>
+                              <div className={`text-xs ${varianceClass(line, period.variance)}`}>
+                                {period.variancePercent === null ? `of ${formatAmount(period.budget)}` : `${period.variancePercent > 0 ? '+' : ''}${period.variancePercent}%`}
+                              </div>
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right">{formatAmount(line.total.budget)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(line.total.actual)}</TableCell>
+                          <TableCell className={`text-right ${varianceClass(line, line.total.variance)}`}>{formatAmount(line.total.variance)}</TableCell>
+                          <TableCell className={`text-right ${varianceClass(line, line.total.variance)}`}>
+                            {line.total.variancePercent === null ? '—' : `${line.total.variancePercent > 0 ? '+' : ''}${line.total.variancePercent}%`}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
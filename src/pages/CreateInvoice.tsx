@@ -7,6 +7,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Customer } from '@/types';
 import CustomerFormDrawer, { CustomerFormValues } from '@/components/customer/CustomerFormDrawer';
 import { invoiceService } from '@/services/supabaseService';
+import { PeriodLockedError } from '@/services/periodLockService';
 import { useForm } from 'react-hook-form';
 import { formatDate } from '@/utils/invoiceUtils';
 
@@ -146,7 +147,7 @@ const CreateInvoice = () => {
       console.error('Error creating invoice:', error);
       toast({
         title: "Error",
-        description: "Failed to create invoice. Please try again.",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to create invoice. Please try again.",
         variant: "destructive"
       });
     }
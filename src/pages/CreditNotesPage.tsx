@@ -0,0 +1,324 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Eye, FileMinus, RefreshCw, Search, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAppData } from '@/hooks/useAppData';
+import { CreditNote } from '@/types/creditNote';
+import { EnhancedInvoice } from '@/types/payment';
+import { creditNoteService } from '@/services/creditNoteService';
+import { paymentService } from '@/services/paymentService';
+import { createCreditNoteHtml } from '@/services/invoiceTemplateRenderer';
+import { formatCurrency } from '@/utils/invoiceUtils';
+
+export default function CreditNotesPage() {
+  const { toast } = useToast();
+  const { businessProfile, refreshInvoices } = useAppData();
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const [previewNote, setPreviewNote] = useState<CreditNote | null>(null);
+
+  const [applyNote, setApplyNote] = useState<CreditNote | null>(null);
+  const [openInvoices, setOpenInvoices] = useState<EnhancedInvoice[]>([]);
+  const [targetInvoiceId, setTargetInvoiceId] = useState('');
+  const [applyAmount, setApplyAmount] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const loadCreditNotes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCreditNotes(await creditNoteService.getCreditNotes());
+    } catch (error) {
+      console.error('Error loading credit notes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load credit notes',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadCreditNotes();
+  }, [loadCreditNotes]);
+
+  const filteredCreditNotes = useMemo(() => {
+    if (!searchTerm) return creditNotes;
+    const term = searchTerm.toLowerCase();
+    return creditNotes.filter(note =>
+      note.creditNoteNumber.toLowerCase().includes(term) ||
+      note.invoice?.invoiceNumber?.toLowerCase().includes(term) ||
+      note.customer?.name?.toLowerCase().includes(term)
+    );
+  }, [creditNotes, searchTerm]);
+
+  const handleOpenApply = async (creditNote: CreditNote) => {
+    setApplyNote(creditNote);
+    setTargetInvoiceId('');
+    setApplyAmount('');
+    try {
+      const invoices = await paymentService.getInvoicesWithBalance();
+      setOpenInvoices(invoices.filter(invoice => invoice.customerId === creditNote.customerId));
+    } catch (error) {
+      console.error('Error loading invoices with balance:', error);
+      setOpenInvoices([]);
+    }
+  };
+
+  const handleSelectInvoice = (invoiceId: string) => {
+    setTargetInvoiceId(invoiceId);
+    const invoice = openInvoices.find(inv => inv.id === invoiceId);
+    if (invoice && applyNote) {
+      setApplyAmount(Math.min(invoice.balanceDue, applyNote.remainingCredit).toFixed(2));
+    }
+  };
+
+  const handleApply = async () => {
+    if (!applyNote || !targetInvoiceId) return;
+    setIsApplying(true);
+    try {
+      await creditNoteService.applyCredit(applyNote.id, targetInvoiceId, parseFloat(applyAmount));
+      toast({
+        title: 'Credit applied',
+        description: `${formatCurrency(parseFloat(applyAmount), applyNote.currency)} from ${applyNote.creditNoteNumber} was applied.`
+      });
+      setApplyNote(null);
+      await Promise.all([loadCreditNotes(), refreshInvoices()]);
+    } catch (error) {
+      toast({
+        title: 'Could not apply credit',
+        description: error instanceof Error ? error.message : 'An error occurred while applying the credit',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const issuedNotes = creditNotes.filter(note => note.status === 'issued');
+  const totalCredited = issuedNotes.reduce((sum, note) => sum + note.total, 0);
+  const heldCredit = issuedNotes.reduce((sum, note) => sum + note.remainingCredit, 0);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Credit Notes</h1>
+          <p className="text-muted-foreground">
+            Credits issued against invoices and customer credit on hand
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadCreditNotes}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Credit Notes Issued</p>
+            <p className="text-2xl font-bold">{issuedNotes.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Total Credited</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalCredited)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Held as Customer Credit</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(heldCredit)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            All Credit Notes
+          </CardTitle>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search credit notes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredCreditNotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No credit notes yet. Issue one from the invoice list.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Remaining</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCreditNotes.map(note => (
+                    <TableRow key={note.id}>
+                      <TableCell className="font-medium">{note.creditNoteNumber}</TableCell>
+                      <TableCell>
+                        <Link to={`/invoices/${note.invoiceId}`} className="text-primary hover:underline">
+                          {note.invoice?.invoiceNumber || 'View invoice'}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{note.customer?.name}</TableCell>
+                      <TableCell>{note.date}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(note.total, note.currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(note.remainingCredit, note.currency)}</TableCell>
+                      <TableCell>
+                        <Badge variant={note.status === 'void' ? 'outline' : note.remainingCredit > 0 ? 'secondary' : 'default'}>
+                          {note.status === 'void' ? 'Void' : note.remainingCredit > 0 ? 'Credit held' : 'Applied'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label="View credit note"
+                          onClick={() => setPreviewNote(note)}
+                        >
+                          <Eye size={16} />
+                        </Button>
+                        {note.status === 'issued' && note.remainingCredit > 0 && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Apply credit to an invoice"
+                            title="Apply credit"
+                            onClick={() => handleOpenApply(note)}
+                          >
+                            <Wallet size={16} />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      <Dialog open={!!previewNote} onOpenChange={(open) => !open && setPreviewNote(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Credit Note {previewNote?.creditNoteNumber}</DialogTitle>
+          </DialogHeader>
+          {previewNote && (
+            <iframe
+              title={`Credit note ${previewNote.creditNoteNumber}`}
+              srcDoc={createCreditNoteHtml(previewNote, businessProfile)}
+              className="w-full h-[70vh] rounded border"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Apply held credit */}
+      <Dialog open={!!applyNote} onOpenChange={(open) => !open && setApplyNote(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Apply Customer Credit</DialogTitle>
+            <DialogDescription>
+              {applyNote && `${formatCurrency(applyNote.remainingCredit, applyNote.currency)} available from ${applyNote.creditNoteNumber}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Invoice</Label>
+              <Select value={targetInvoiceId} onValueChange={handleSelectInvoice}>
+                <SelectTrigger>
+                  <SelectValue placeholder={openInvoices.length ? 'Select an invoice' : 'No open invoices for this customer'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {openInvoices.map(invoice => (
+                    <SelectItem key={invoice.id} value={invoice.id}>
+                      {invoice.invoiceNumber} - {formatCurrency(invoice.balanceDue, applyNote?.currency)} due
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="apply-credit-amount">Amount</Label>
+              <Input
+                id="apply-credit-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={applyAmount}
+                onChange={(e) => setApplyAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyNote(null)} disabled={isApplying}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={isApplying || !targetInvoiceId || !(parseFloat(applyAmount) > 0)}>
+              {isApplying ? 'Applying...' : 'Apply Credit'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { Download, Loader2, Mail, ScrollText, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { customerStatementService } from '@/services/customerStatementService';
+import { businessProfileService, customerService } from '@/services/supabaseService';
+import { createStatementHtml } from '@/services/invoiceTemplateRenderer';
+import { BusinessProfile, Customer } from '@/types';
+import { CustomerStatement, StatementOptions, StatementStyle } from '@/types/statement';
+
+const STYLE_LABELS: Record<StatementStyle, string> = {
+  open_item: 'Open item',
+  balance_forward: 'Balance forward',
+};
+
+export default function CustomerStatementsPage() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [businessProfile, setBusinessProfile] = useState<BusinessProfile | null>(null);
+  const [customerId, setCustomerId] = useState('');
+  const [periodStart, setPeriodStart] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [periodEnd, setPeriodEnd] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [style, setStyle] = useState<StatementStyle>('balance_forward');
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [emailing, setEmailing] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  const options: StatementOptions = { periodStart, periodEnd, style };
+
+  useEffect(() => {
+    Promise.all([customerService.getCustomers(), businessProfileService.getBusinessProfile()])
+      .then(([customerList, profile]) => {
+        setCustomers(customerList);
+        setBusinessProfile(profile);
+      })
+      .catch(error => {
+        console.error('Error loading statement data:', error);
+        toast.error('Failed to load customers');
+      });
+  }, []);
+
+  // A preview for old settings would be misleading, so clear it when anything changes
+  useEffect(() => {
+    setStatement(null);
+  }, [customerId, periodStart, periodEnd, style]);
+
+  const handleGenerate = async () => {
+    if (!customerId) return;
+    try {
+      setGenerating(true);
+      setStatement(await customerStatementService.generateStatement(customerId, options));
+    } catch (error) {
+      console.error('Error generating statement:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate statement');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!statement) return;
+    try {
+      setDownloading(true);
+      const pdf = await customerStatementService.generateStatementPDF(statement, businessProfile);
+      const url = URL.createObjectURL(new Blob([pdf], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `statement-${statement.customer.name.replace(/\s+/g, '-').toLowerCase()}-${statement.periodEnd}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading statement:', error);
+      toast.error('Failed to generate PDF');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!statement) return;
+    setEmailing(true);
+    const result = await customerStatementService.emailStatement(statement, businessProfile);
+    setEmailing(false);
+    if (result.success) {
+      toast.success(`Statement sent to ${statement.customer.email}`);
+    } else {
+      toast.error(result.error || 'Failed to send statement');
+    }
+  };
+
+  const handleEmailAll = async () => {
+    if (!window.confirm('Email a statement for this period to every customer with an outstanding balance?')) {
+      return;
+    }
+    try {
+      setBulkProgress({ completed: 0, total: 0 });
+      const results = await customerStatementService.emailStatementsToCustomersWithBalance(
+        options,
+        (completed, total) => setBulkProgress({ completed, total })
+      );
+      const failed = results.filter(result => !result.success);
+      const sent = results.length - failed.length;
+
+      if (results.length === 0) {
+        toast.info('No customers have an outstanding balance');
+      }
+      if (sent > 0) {
+        toast.success(`Sent ${sent} statement${sent !== 1 ? 's' : ''}`);
+      }
+      if (failed.length > 0) {
+        toast.error(`${failed.length} statement${failed.length !== 1 ? 's' : ''} not sent: ${failed[0].customerName} - ${failed[0].error}`);
+      }
+    } catch (error) {
+      console.error('Error sending statements:', error);
+      toast.error('Failed to send statements');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Customer Statements</h1>
+          <p className="text-muted-foreground">
+            Show customers what they owe and how it has built up
+          </p>
+        </div>
+        <Button onClick={handleEmailAll} disabled={bulkProgress !== null} className="gap-2">
+          {bulkProgress ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          {bulkProgress && bulkProgress.total > 0
+            ? `Sending ${bulkProgress.completed}/${bulkProgress.total}...`
+            : 'Email All With Balance'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement Settings</CardTitle>
+          <CardDescription>
+            Balance forward lists every transaction in the period after an opening balance. Open item lists only invoices still owing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-start">From</Label>
+              <Input id="statement-start" type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-end">To</Label>
+              <Input id="statement-end" type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Style</Label>
+              <Select value={style} onValueChange={(value) => setStyle(value as StatementStyle)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STYLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="mt-4 flex flex-wrap justify-end gap-2">
+            {statement && (
+              <>
+                <Button variant="outline" onClick={handleDownload} disabled={downloading} className="gap-2">
+                  {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  Download PDF
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleEmail}
+                  disabled={emailing || !statement.customer.email}
+                  className="gap-2"
+                >
+                  {emailing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                  Email
+                </Button>
+              </>
+            )}
+            <Button onClick={handleGenerate} disabled={!customerId || generating} className="gap-2">
+              {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScrollText className="h-4 w-4" />}
+              Generate
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {statement ? (
+        <Card>
+          <CardContent className="overflow-x-auto p-4">
+            <div dangerouslySetInnerHTML={{ __html: createStatementHtml(statement, businessProfile) }} />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="py-12 text-center space-y-3">
+          <ScrollText className="h-10 w-10 mx-auto text-muted-foreground" />
+          <p className="text-muted-foreground">Choose a customer and period to preview their statement</p>
+        </div>
+      )}
+    </div>
+  );
+}
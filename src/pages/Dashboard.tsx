@@ -11,6 +11,7 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import MobileBalanceCard from '@/components/mobile/MobileBalanceCard';
 import MobileQuickActions from '@/components/mobile/MobileQuickActions';
 import MobileChartCard from '@/components/mobile/MobileChartCard';
+import OverBudgetWidget from '@/components/budget/OverBudgetWidget';
 
 const Dashboard = () => {
   const { 
@@ -661,7 +662,7 @@ const Dashboard = () => {
       </div>
 
       {/* Expense Intelligence */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <Card>
           <CardHeader>
             <CardTitle>Top Expense Categories</CardTitle>
@@ -741,6 +742,8 @@ const Dashboard = () => {
             )}
           </CardContent>
         </Card>
+
+        <OverBudgetWidget />
       </div>
       
       {/* Invoice Status and Recent Activity */}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAppData } from '@/hooks/useAppData';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
@@ -8,6 +9,7 @@ import { Expense } from '@/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { ExpenseFormValues } from '@/components/expense/ExpenseFormDrawer';
+import { ReceiptScanResult } from '@/types/receipt';
 
 const Expenses = () => {
   const { 
@@ -18,6 +20,7 @@ const Expenses = () => {
     deleteExpense 
   } = useAppData();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
   const [isSaving, setIsSaving] = useState(false);
@@ -37,6 +40,12 @@ const Expenses = () => {
     setSelectedExpense(null);
   };
 
+  // The bills page opens a prefilled bill form from the scan
+  const handleRecordAsBill = (scanResult: ReceiptScanResult, receiptUrl: string | null) => {
+    handleCloseDrawer();
+    navigate('/bills', { state: { scanResult, receiptUrl } });
+  };
+
   const handleSaveExpense = async (expenseData: ExpenseFormValues) => {
     try {
       setIsSaving(true);
@@ -47,6 +56,7 @@ const Expenses = () => {
         categoryId: expenseData.categoryId === 'no-category' ? null : expenseData.categoryId || null,
         accountId: expenseData.accountId === 'no-account' ? null : expenseData.accountId || null,
         vendorName: expenseData.vendorName || null,
+        vendorId: expenseData.vendorId === 'no-vendor' ? null : expenseData.vendorId || null,
         receiptUrl: expenseData.receiptUrl || null,
         expenseDate: expenseData.expenseDate,
         status: expenseData.status,
@@ -161,6 +171,7 @@ const Expenses = () => {
         onOpenChange={handleCloseDrawer}
         initialValues={selectedExpense}
         onSubmit={handleSaveExpense}
+        onRecordAsBill={handleRecordAsBill}
       />
     </div>
   );
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { FileBarChart, Download, RefreshCw, Filter, Calendar, TrendingUp, DollarSign, Receipt, Target, Eye, ChevronDown, ChevronRight, BarChart3, PieChart } from 'lucide-react';
+import { FileBarChart, Download, RefreshCw, Filter, Calendar, TrendingUp, DollarSign, Receipt, Target, Eye, ChevronDown, ChevronRight, BarChart3, PieChart, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -17,8 +17,11 @@ import {
   ProfitLossData, 
   BalanceSheetData, 
   CashFlowData, 
-  TrialBalanceData 
+  TrialBalanceData,
+  AgedReceivablesData
 } from '@/services/financialReportsService';
+import { pdfService } from '@/services/pdfService';
+import { Link } from 'react-router-dom';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 
 
@@ -457,6 +460,130 @@ const TrialBalanceReportDetail: React.FC<{ data: TrialBalanceData }> = ({ data }
   </div>
 );
 
+const AGING_COLUMNS: Array<[keyof AgedReceivablesData['totals'], string]> = [
+  ['current', 'Current'],
+  ['days1to30', '1-30'],
+  ['days31to60', '31-60'],
+  ['days61to90', '61-90'],
+  ['over90', '90+'],
+  ['total', 'Total']
+];
+
+const formatAgingAmount = (amount: number) => amount > 0 ? `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '-';
+
+const bucketFor = (daysPastDue: number): keyof AgedReceivablesData['totals'] => {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'over90';
+};
+
+const AgedReceivablesReportDetail: React.FC<{ data: AgedReceivablesData }> = ({ data }) => {
+  const [expandedCustomers, setExpandedCustomers] = useState<Set<string>>(new Set());
+
+  const toggleCustomer = (customerId: string) => {
+    const next = new Set(expandedCustomers);
+    if (next.has(customerId)) {
+      next.delete(customerId);
+    } else {
+      next.add(customerId);
+    }
+    setExpandedCustomers(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {AGING_COLUMNS.map(([key, label]) => (
+          <Card key={key}>
+            <CardContent className="p-4">
+              <div className="text-center">
+                <p className="text-sm text-muted-foreground">{key === 'total' ? 'Total Owing' : `${label}${key === 'current' ? '' : ' days'}`}</p>
+                <p className={`text-xl font-bold ${key === 'over90' && data.totals.over90 > 0 ? 'text-red-600' : ''}`}>
+                  ${data.totals[key].toLocaleString()}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Aged Receivables by Customer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.customers.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">Nothing was owing at this date</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {AGING_COLUMNS.map(([key, label]) => (
+                    <TableHead key={key} className="text-right">{label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.customers.map(customer => {
+                  const isExpanded = expandedCustomers.has(customer.customerId);
+                  return (
+                    <React.Fragment key={customer.customerId}>
+                      <TableRow className="cursor-pointer hover:bg-muted/50" onClick={() => toggleCustomer(customer.customerId)}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            {customer.customerName}
+                            <Badge variant="outline">{customer.invoices.length}</Badge>
+                          </div>
+                        </TableCell>
+                        {AGING_COLUMNS.map(([key]) => (
+                          <TableCell key={key} className={`text-right ${key === 'total' ? 'font-semibold' : ''}`}>
+                            {formatAgingAmount(customer.aging[key])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                      {isExpanded && customer.invoices.map(invoice => (
+                        <TableRow key={invoice.invoiceId} className="bg-muted/30 text-sm">
+                          <TableCell className="pl-10">
+                            <Link to={`/invoices/${invoice.invoiceId}`} className="text-primary hover:underline">
+                              #{invoice.invoiceNumber}
+                            </Link>
+                            <span className="ml-2 text-muted-foreground">
+                              due {format(new Date(invoice.dueDate), 'dd MMM yyyy')}
+                              {invoice.daysPastDue > 0 && ` (${invoice.daysPastDue} days overdue)`}
+                            </span>
+                          </TableCell>
+                          {AGING_COLUMNS.map(([key]) => {
+                            const inBucket = key === 'total' || key === bucketFor(invoice.daysPastDue);
+                            return (
+                              <TableCell key={key} className="text-right text-muted-foreground">
+                                {inBucket ? formatAgingAmount(invoice.balanceDue) : '-'}
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+                <TableRow className="border-t-2 font-bold">
+                  <TableCell>Total</TableCell>
+                  {AGING_COLUMNS.map(([key]) => (
+                    <TableCell key={key} className="text-right">{formatAgingAmount(data.totals[key])}</TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
 export default function FinancialReportsPage() {
   const [reports, setReports] = useState<FinancialReport[]>([]);
   const [reportSummary, setReportSummary] = useState<ReportSummary | null>(null);
@@ -552,6 +679,19 @@ export default function FinancialReportsPage() {
         console.error('Error generating Trial Balance report:', error);
       }
       
+      // Generate Aged Receivables report as at the end of the period
+      try {
+        const agedReceivablesReport = await financialReportsService.generateReport(
+          'accounts_receivable', 
+          currentPeriod, 
+          customStart, 
+          customEnd
+        );
+        generatedReports.push(agedReceivablesReport);
+      } catch (error) {
+        console.error('Error generating Aged Receivables report:', error);
+      }
+      
       setReports(generatedReports);
       
       // Generate report summary
@@ -594,13 +734,13 @@ export default function FinancialReportsPage() {
 
   const handleGenerateReport = async (reportType: string) => {
     try {
-      const validReportTypes = ['profit_loss', 'balance_sheet', 'cash_flow', 'trial_balance'];
+      const validReportTypes = ['profit_loss', 'balance_sheet', 'cash_flow', 'trial_balance', 'accounts_receivable'];
       if (!validReportTypes.includes(reportType)) {
         throw new Error(`Invalid report type: ${reportType}`);
       }
       
       const newReport = await financialReportsService.generateReport(
-        reportType as 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'trial_balance',
+        reportType as 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'trial_balance' | 'accounts_receivable',
         selectedPeriod,
         startDate,
         endDate
@@ -622,10 +762,32 @@ export default function FinancialReportsPage() {
     }
   };
 
+  const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleExportReport = async (reportId: string, format: string) => {
     try {
-      // Simulate export
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const report = reports.find(r => r.id === reportId);
+      if (report?.type === 'accounts_receivable') {
+        const data = report.data as AgedReceivablesData;
+        if (format === 'pdf') {
+          const pdf = await pdfService.generatePDFFromHtml(financialReportsService.agedReceivablesToHtml(data), report.name);
+          downloadFile(pdf, 'application/pdf', `aged-receivables-${data.asOfDate}.pdf`);
+        } else {
+          downloadFile(financialReportsService.agedReceivablesToCsv(data), 'text/csv', `aged-receivables-${data.asOfDate}.csv`);
+        }
+      } else {
+        // Simulate export
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
       
       toast({
         title: "Success",
@@ -650,6 +812,7 @@ export default function FinancialReportsPage() {
       case 'balance_sheet': return <Target className="h-4 w-4" />;
       case 'cash_flow': return <DollarSign className="h-4 w-4" />;
       case 'trial_balance': return <Receipt className="h-4 w-4" />;
+      case 'accounts_receivable': return <Users className="h-4 w-4" />;
       default: return <FileBarChart className="h-4 w-4" />;
     }
   };
@@ -913,7 +1076,9 @@ export default function FinancialReportsPage() {
                         <div>
                           <CardTitle className="text-lg">{report.name}</CardTitle>
                           <p className="text-sm text-muted-foreground">
-                            {format(new Date(report.period.startDate), 'dd MMM yyyy')} - {format(new Date(report.period.endDate), 'dd MMM yyyy')}
+                            {report.period.startDate === report.period.endDate
+                              ? `As at ${format(new Date(report.period.endDate), 'dd MMM yyyy')}`
+                              : `${format(new Date(report.period.startDate), 'dd MMM yyyy')} - ${format(new Date(report.period.endDate), 'dd MMM yyyy')}`}
                           </p>
                         </div>
                       </div>
@@ -938,9 +1103,9 @@ export default function FinancialReportsPage() {
                             size="sm"
                             onClick={(e) => {
                               e.stopPropagation();
-                              handleExportReport(report.id, 'excel');
+                              handleExportReport(report.id, report.type === 'accounts_receivable' ? 'csv' : 'excel');
                             }}
-                            title="Export as Excel"
+                            title={report.type === 'accounts_receivable' ? 'Export as CSV' : 'Export as Excel'}
                           >
                             <FileBarChart className="h-4 w-4" />
                           </Button>
@@ -969,6 +1134,9 @@ export default function FinancialReportsPage() {
                     {report.type === 'trial_balance' && (
                       <TrialBalanceReportDetail data={report.data as TrialBalanceData} />
                     )}
+                    {report.type === 'accounts_receivable' && (
+                      <AgedReceivablesReportDetail data={report.data as AgedReceivablesData} />
+                    )}
                   </CardContent>
                 </CollapsibleContent>
               </Collapsible>
@@ -1,18 +1,32 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAppData } from '@/hooks/useAppData';
 import InvoicePreview from '@/components/invoice/preview/InvoicePreview';
-import { Card } from '@/components/ui/card';
+import { AuditTimeline } from '@/components/audit/AuditTimeline';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft } from 'lucide-react';
+import { auditService } from '@/services/auditService';
+import { AuditTrail } from '@/types/payment';
 
 const InvoiceViewPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { invoices, isLoadingInvoices } = useAppData();
+  const [activity, setActivity] = useState<AuditTrail[]>([]);
+  const [isLoadingActivity, setIsLoadingActivity] = useState(true);
 
   const invoice = invoices.find((inv) => inv.id === id);
 
+  useEffect(() => {
+    if (!id) return;
+    setIsLoadingActivity(true);
+    auditService.getEntityHistory('invoice', id)
+      .then(setActivity)
+      .catch(error => console.error('Error loading invoice activity:', error))
+      .finally(() => setIsLoadingActivity(false));
+  }, [id]);
+
   if (isLoadingInvoices) {
     return <div className="flex justify-center items-center h-64">Loading invoice...</div>;
   }
@@ -33,12 +47,24 @@ const InvoiceViewPage = () => {
       <Button variant="ghost" className="mb-4" onClick={() => navigate(-1)}>
         <ChevronLeft className="mr-2 w-4 h-4" /> Back to Invoices
       </Button>
-      <InvoicePreview 
-        invoice={invoice} 
-        selectedTemplate={(invoice.templateName as any) || "classic"} 
+      <InvoicePreview
+        invoice={invoice}
+        selectedTemplate={(invoice.templateName as any) || "classic"}
       />
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="text-lg">Activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingActivity ? (
+            <p className="text-sm text-muted-foreground">Loading activity...</p>
+          ) : (
+            <AuditTimeline entries={activity} />
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
 
-export default InvoiceViewPage; 
\ No newline at end of file
+export default InvoiceViewPage;
@@ -3,7 +3,7 @@ import { useAppData } from '@/hooks/useAppData';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatCurrency, getStatusColor, formatDate } from '@/utils/invoiceUtils';
 import { Button } from '@/components/ui/button';
-import { Plus, ChevronRight, Calendar, DollarSign, Edit, Trash2, Copy, Loader2, Share2, Filter, X, Search, ChevronDown, RefreshCw, Clock } from 'lucide-react';
+import { Plus, ChevronRight, Calendar, DollarSign, Edit, Trash2, Copy, Loader2, Share2, Filter, X, Search, ChevronDown, RefreshCw, Clock, Repeat, FileMinus } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
@@ -23,6 +23,9 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import ShareInvoiceModal from '@/components/invoice/ShareInvoiceModal';
 import PaymentReminderModal from '@/components/invoice/PaymentReminderModal';
 import { PaymentCaptureModal } from '@/components/invoice/PaymentCaptureModal';
+import RecurringScheduleModal from '@/components/invoice/RecurringScheduleModal';
+import RecurringSchedulesPanel from '@/components/invoice/RecurringSchedulesPanel';
+import CreditNoteModal from '@/components/invoice/CreditNoteModal';
 import { Invoice, InvoiceStatus } from '@/types';
 import { CreatePaymentRequest } from '@/types/payment';
 import { paymentService } from '@/services/paymentService';
@@ -78,6 +81,11 @@ const Invoices = () => {
   const [paymentCaptureOpen, setPaymentCaptureOpen] = useState(false);
   const [invoiceForPayment, setInvoiceForPayment] = useState<Invoice | null>(null);
   const [recordingPayment, setRecordingPayment] = useState(false);
+  const [recurringModalOpen, setRecurringModalOpen] = useState(false);
+  const [invoiceForRecurring, setInvoiceForRecurring] = useState<Invoice | null>(null);
+  const [schedulesRefreshKey, setSchedulesRefreshKey] = useState(0);
+  const [creditNoteModalOpen, setCreditNoteModalOpen] = useState(false);
+  const [invoiceToCredit, setInvoiceToCredit] = useState<Invoice | null>(null);
   const [filtersOpen, setFiltersOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [filters, setFilters] = useState<InvoiceFilters>({
@@ -172,6 +180,16 @@ const Invoices = () => {
     setReminderModalOpen(true);
   };
 
+  const handleRecurringClick = (invoice: Invoice) => {
+    setInvoiceForRecurring(invoice);
+    setRecurringModalOpen(true);
+  };
+
+  const handleCreditNoteClick = (invoice: Invoice) => {
+    setInvoiceToCredit(invoice);
+    setCreditNoteModalOpen(true);
+  };
+
   const handlePaymentRecord = async (paymentData: CreatePaymentRequest) => {
     setRecordingPayment(true);
     try {
@@ -564,6 +582,8 @@ const Invoices = () => {
         </div>
       </div>
 
+      <RecurringSchedulesPanel refreshKey={schedulesRefreshKey} />
+
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="max-w-xs">
           <DialogHeader>
@@ -693,6 +713,28 @@ const Invoices = () => {
                   >
                     <Share2 size={16} />
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label="Make invoice recurring"
+                    onClick={() => handleRecurringClick(invoice)}
+                    title="Make Recurring"
+                  >
+                    <Repeat size={16} />
+                  </Button>
+                  {invoice.status !== 'draft' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Issue credit note"
+                      onClick={() => handleCreditNoteClick(invoice)}
+                      title="Issue Credit Note"
+                    >
+                      <FileMinus size={16} />
+                    </Button>
+                  )}
                   {(invoice.status === 'sent' || invoice.status === 'overdue') && (
                     <Button
                       variant="ghost"
@@ -801,6 +843,28 @@ const Invoices = () => {
                         >
                           <Share2 size={16} />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label="Make invoice recurring"
+                          onClick={() => handleRecurringClick(invoice)}
+                          title="Make Recurring"
+                        >
+                          <Repeat size={16} />
+                        </Button>
+                        {invoice.status !== 'draft' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Issue credit note"
+                            onClick={() => handleCreditNoteClick(invoice)}
+                            title="Issue Credit Note"
+                          >
+                            <FileMinus size={16} />
+                          </Button>
+                        )}
                         {(invoice.status === 'sent' || invoice.status === 'overdue') && (
                           <Button
                             variant="ghost"
@@ -873,6 +937,26 @@ const Invoices = () => {
         />
       )}
 
+      {/* Recurring Schedule Modal */}
+      {invoiceForRecurring && (
+        <RecurringScheduleModal
+          open={recurringModalOpen}
+          onOpenChange={setRecurringModalOpen}
+          invoice={invoiceForRecurring}
+          onCreated={() => setSchedulesRefreshKey(key => key + 1)}
+        />
+      )}
+
+      {/* Credit Note Modal */}
+      {invoiceToCredit && (
+        <CreditNoteModal
+          open={creditNoteModalOpen}
+          onOpenChange={setCreditNoteModalOpen}
+          invoice={invoiceToCredit}
+          onCreated={refreshInvoices}
+        />
+      )}
+
       {/* Payment Capture Modal */}
       {invoiceForPayment && (
         <PaymentCaptureModal
@@ -14,6 +14,7 @@ import { JournalEntry } from '@/types/payment';
 import { format, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, subMonths, subQuarters } from 'date-fns';
 import { useAuth } from "@/context/StableAuthContext";
 import { supabaseDataService } from '@/services/supabaseDataService';
+import { PeriodLockedError } from '@/services/periodLockService';
 
 interface JournalEntryFormData {
   description: string;
@@ -167,7 +168,7 @@ export default function JournalEntriesPage() {
       console.error('Error creating journal entry:', error);
       toast({
         title: "Error",
-        description: "Failed to create journal entry",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to create journal entry",
         variant: "destructive"
       });
     }
@@ -193,7 +194,7 @@ export default function JournalEntriesPage() {
       console.error('Error posting journal entry:', error);
       toast({
         title: "Error",
-        description: "Failed to post journal entry",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to post journal entry",
         variant: "destructive"
       });
     }
@@ -213,7 +214,7 @@ export default function JournalEntriesPage() {
       console.error('Error deleting journal entry:', error);
       toast({
         title: "Error",
-        description: "Failed to delete journal entry",
+        description: error instanceof PeriodLockedError ? error.message : "Failed to delete journal entry",
         variant: "destructive"
       });
     }
@@ -452,7 +453,10 @@ export default function JournalEntriesPage() {
                     </TableCell>
                     <TableCell>
                       <div>
-                        <p className="font-medium">{entry.description}</p>
+                        <p className="font-medium">
+                          {entry.description}
+                          {entry.autoPosted && <Badge variant="outline" className="ml-2">Automatic</Badge>}
+                        </p>
                         {entry.referenceNumber && (
                           <p className="text-sm text-muted-foreground">
                             Ref: {entry.referenceNumber}
@@ -4,6 +4,7 @@ import { useToast } from '@/hooks/use-toast';
 import { OnboardingStep, OnboardingData, DEFAULT_BUSINESS_THEME } from '../types';
 import { useAuth } from '../context/StableAuthContext';
 import { businessProfileService } from '../services/supabaseService';
+import { chartOfAccountsService } from '../services/chartOfAccountsService';
 import { supabase } from '@/integrations/supabase/client';
 import OnboardingLayout from '../components/onboarding/OnboardingLayout';
 import WelcomeStep from '../components/onboarding/WelcomeStep';
@@ -40,6 +41,7 @@ export default function Onboarding() {
     businessName: '',
     businessEmail: user?.email || '',
     country: 'New Zealand',
+    chartTemplatePack: chartOfAccountsService.getDefaultPack('New Zealand'),
     theme: DEFAULT_BUSINESS_THEME
   });
 
@@ -117,6 +119,20 @@ export default function Onboarding() {
       };
 
       await businessProfileService.createOrUpdateBusinessProfile(businessProfileData);
+
+      // The chart can be installed from Settings later, so a failure here doesn't hold up setup
+      if (onboardingData.chartTemplatePack) {
+        try {
+          await chartOfAccountsService.installTemplatePack(onboardingData.chartTemplatePack);
+        } catch (error) {
+          console.error('Error installing chart of accounts:', error);
+          toast({
+            title: 'Chart of accounts not installed',
+            description: 'You can install it from Settings > Chart of Accounts.',
+            variant: 'destructive'
+          });
+        }
+      }
       
       // Refresh user data to update onboarding status
       await refreshUser();
@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellRing, Loader2, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DunningPolicyDialog, DunningPolicyDraft } from '@/components/dunning/DunningPolicyDialog';
+import { dunningService } from '@/services/dunningService';
+import { DueReminder, DunningPolicy, DunningStep } from '@/types/dunning';
+
+const REMINDER_LABELS: Record<DunningStep['reminderType'], string> = {
+  gentle: 'Gentle',
+  firm: 'Firm',
+  final: 'Final',
+};
+
+const describeStep = (step: DunningStep) => {
+  if (step.offsetDays === 0) return `${REMINDER_LABELS[step.reminderType]} on due date`;
+  const days = Math.abs(step.offsetDays);
+  return `${REMINDER_LABELS[step.reminderType]} ${days}d ${step.offsetDays < 0 ? 'before' : 'after'}`;
+};
+
+export default function PaymentRemindersPage() {
+  const navigate = useNavigate();
+  const [policies, setPolicies] = useState<DunningPolicy[]>([]);
+  const [dueReminders, setDueReminders] = useState<DueReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<DunningPolicy | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [dunningPolicies, due] = await Promise.all([
+        dunningService.getDunningPolicies(),
+        dunningService.getDueReminders()
+      ]);
+      setPolicies(dunningPolicies);
+      setDueReminders(due);
+    } catch (error) {
+      console.error('Error loading payment reminders:', error);
+      toast.error('Failed to load payment reminders');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleSave = async (draft: DunningPolicyDraft) => {
+    if (editingPolicy) {
+      await dunningService.updateDunningPolicy(editingPolicy.id, draft);
+      toast.success('Reminder policy updated');
+    } else {
+      await dunningService.createDunningPolicy(draft);
+      toast.success('Reminder policy created');
+    }
+    await loadData();
+  };
+
+  const handleToggle = async (policy: DunningPolicy, changes: Partial<Pick<DunningPolicy, 'isActive' | 'autoSend'>>) => {
+    try {
+      await dunningService.updateDunningPolicy(policy.id, changes);
+      await loadData();
+    } catch (error) {
+      console.error('Error updating reminder policy:', error);
+      toast.error('Failed to update reminder policy');
+    }
+  };
+
+  const handleMakeDefault = async (policy: DunningPolicy) => {
+    try {
+      await dunningService.updateDunningPolicy(policy.id, { isDefault: true });
+      await loadData();
+    } catch (error) {
+      console.error('Error updating reminder policy:', error);
+      toast.error('Failed to update reminder policy');
+    }
+  };
+
+  const handleDelete = async (policy: DunningPolicy) => {
+    if (!window.confirm(`Delete the policy "${policy.name}"? Reminders already sent stay in each invoice's history.`)) {
+      return;
+    }
+    try {
+      await dunningService.deleteDunningPolicy(policy.id);
+      toast.success('Reminder policy deleted');
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting reminder policy:', error);
+      toast.error('Failed to delete reminder policy');
+    }
+  };
+
+  const handleSendDue = async () => {
+    setSending(true);
+    try {
+      const result = await dunningService.sendDueReminders(dueReminders);
+      if (result.sent.length > 0) {
+        toast.success(`Sent ${result.sent.length} payment reminder${result.sent.length !== 1 ? 's' : ''}`);
+      }
+      if (result.skipped.length > 0) {
+        toast.info(`Skipped ${result.skipped.length}: ${result.skipped[0].reason}`);
+      }
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} reminder${result.failed.length !== 1 ? 's' : ''} failed: ${result.failed[0].error}`);
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error sending payment reminders:', error);
+      toast.error('Failed to send payment reminders');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const openDialog = (policy: DunningPolicy | null) => {
+    setEditingPolicy(policy);
+    setDialogOpen(true);
+  };
+
+  const formatDays = (days: number) => {
+    if (days < 0) return `Due in ${-days} day${days !== -1 ? 's' : ''}`;
+    if (days === 0) return 'Due today';
+    return `${days} day${days !== 1 ? 's' : ''} overdue`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Payment Reminders</h1>
+          <p className="text-muted-foreground">
+            Chase overdue invoices on a schedule instead of one at a time
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Policy
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+          <CardDescription>
+            The policy applied to open invoices decides which reminder each one is due. Paid invoices are never chased.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">Loading reminder policies...</p>
+          ) : policies.length === 0 ? (
+            <div className="py-12 text-center space-y-3">
+              <BellRing className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">No reminder policies yet</p>
+              <Button variant="outline" onClick={() => openDialog(null)}>Create your first policy</Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead className="w-20">Active</TableHead>
+                  <TableHead className="w-28">Auto send</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map(policy => (
+                  <TableRow key={policy.id} className={policy.isActive ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {policy.name}
+                        {policy.isDefault ? (
+                          <Badge variant="secondary">Applied</Badge>
+                        ) : (
+                          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => handleMakeDefault(policy)}>
+                            Apply to open invoices
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {policy.steps.map(step => (
+                          <Badge key={step.offsetDays} variant="outline">{describeStep(step)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={policy.isActive} onCheckedChange={(checked) => handleToggle(policy, { isActive: checked })} />
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={policy.autoSend} onCheckedChange={(checked) => handleToggle(policy, { autoSend: checked })} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="icon" onClick={() => openDialog(policy)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(policy)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Due Now</CardTitle>
+            <CardDescription>Reminders the applied policy would send today</CardDescription>
+          </div>
+          <Button onClick={handleSendDue} disabled={sending || dueReminders.length === 0} className="gap-2">
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Send {dueReminders.length || ''} Reminder{dueReminders.length !== 1 ? 's' : ''}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? null : dueReminders.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No reminders are due</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reminder</TableHead>
+                  <TableHead>Last sent</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dueReminders.map(reminder => (
+                  <TableRow
+                    key={reminder.invoiceId}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/invoices/${reminder.invoiceId}`)}
+                  >
+                    <TableCell className="font-medium">{reminder.invoiceNumber}</TableCell>
+                    <TableCell>
+                      <div>{reminder.customerName}</div>
+                      {!reminder.customerEmail && (
+                        <div className="text-xs text-destructive">No email address</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDays(reminder.daysPastDue)}</TableCell>
+                    <TableCell>
+                      <Badge variant={reminder.step.reminderType === 'final' ? 'destructive' : 'outline'}>
+                        {REMINDER_LABELS[reminder.step.reminderType]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {reminder.lastReminderAt ? new Date(reminder.lastReminderAt).toLocaleDateString() : '—'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {reminder.currency}{reminder.total.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <DunningPolicyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        policy={editingPolicy}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -1,22 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, Filter, Download, RefreshCw } from 'lucide-react';
+import { Plus, Filter, Download, RefreshCw, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PaymentHistory } from '@/components/payment/PaymentHistory';
 import { PaymentForm } from '@/components/payment/PaymentForm';
+import { BatchPaymentForm } from '@/components/payment/BatchPaymentForm';
+import { RefundPaymentDialog } from '@/components/payment/RefundPaymentDialog';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { useAppData } from '@/hooks/useAppData';
-import { Payment, EnhancedInvoice, CreatePaymentRequest } from '@/types/payment';
+import { Payment, EnhancedInvoice, CreatePaymentRequest, CreateBatchPaymentRequest, CreateRefundRequest } from '@/types/payment';
 import { Invoice } from '@/types';
 import { paymentService } from '@/services/paymentService';
 
 export default function PaymentsPage() {
   const [unpaidInvoices, setUnpaidInvoices] = useState<EnhancedInvoice[]>([]);
   const [showQuickPayment, setShowQuickPayment] = useState(false);
+  const [showBatchPayment, setShowBatchPayment] = useState(false);
+  const [refundingPayment, setRefundingPayment] = useState<Payment | null>(null);
   const [selectedInvoice, setSelectedInvoice] = useState<EnhancedInvoice | null>(null);
   
   const navigate = useNavigate();
@@ -27,6 +31,8 @@ export default function PaymentsPage() {
     isLoadingPayments,
     invoices,
     createPayment,
+    createBatchPayment,
+    refundPayment,
     refreshPayments,
     refreshInvoices,
     getInvoicesWithBalance
@@ -73,6 +79,32 @@ export default function PaymentsPage() {
     }
   };
 
+  // Errors are rethrown so the form can show them next to the allocations
+  const handleCreateBatchPayment = async (request: CreateBatchPaymentRequest) => {
+    const result = await createBatchPayment(request);
+    await fetchUnpaidInvoices();
+    setShowBatchPayment(false);
+
+    toast({
+      title: "Payment recorded",
+      description: result.unappliedAmount > 0
+        ? `Allocated across ${result.allocations.length} invoice${result.allocations.length === 1 ? '' : 's'}; $${result.unappliedAmount.toFixed(2)} held as customer credit`
+        : `Allocated across ${result.allocations.length} invoice${result.allocations.length === 1 ? '' : 's'}`
+    });
+    navigate(`/receipts/${result.receipt.id}`);
+  };
+
+  // Errors are rethrown so the dialog can show them
+  const handleRefundPayment = async (request: CreateRefundRequest) => {
+    const result = await refundPayment(request);
+    await fetchUnpaidInvoices();
+
+    toast({
+      title: "Payment refunded",
+      description: `$${result.refund.amount.toFixed(2)} refunded. Refund receipt ${result.receipt.receiptNumber} created.`
+    });
+  };
+
   const handleViewReceipt = async (paymentId: string) => {
     try {
       // First get the receipt ID for this payment
@@ -217,6 +249,15 @@ export default function PaymentsPage() {
             Export
           </Button>
           
+          <Button
+            variant="outline"
+            onClick={() => setShowBatchPayment(true)}
+            disabled={unpaidInvoices.length === 0}
+          >
+            <Layers className="mr-2 h-4 w-4" />
+            Batch Payment
+          </Button>
+
           <Button
             onClick={() => setShowQuickPayment(true)}
             disabled={unpaidInvoices.length === 0}
@@ -251,6 +292,14 @@ export default function PaymentsPage() {
         onViewReceipt={handleViewReceipt}
         onDownloadReceipt={handleDownloadReceipt}
         onResendReceipt={handleResendReceipt}
+        onRefundPayment={(paymentId) => setRefundingPayment(payments.find(payment => payment.id === paymentId) || null)}
+      />
+
+      <RefundPaymentDialog
+        payment={refundingPayment}
+        open={!!refundingPayment}
+        onOpenChange={(open) => !open && setRefundingPayment(null)}
+        onSubmit={handleRefundPayment}
       />
 
       {/* Quick Payment Dialog */}
@@ -337,6 +386,21 @@ export default function PaymentsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Batch Payment Dialog */}
+      <Dialog open={showBatchPayment} onOpenChange={setShowBatchPayment}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Batch Payment</DialogTitle>
+          </DialogHeader>
+          <BatchPaymentForm
+            invoices={unpaidInvoices}
+            onSubmit={handleCreateBatchPayment}
+            onCancel={() => setShowBatchPayment(false)}
+            isLoading={isLoadingPayments}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useParams } from 'react-router-dom';
 import InvoicePreview from '@/components/invoice/preview/InvoicePreview';
+import PayNowButton from '@/components/invoice/PayNowButton';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { publicInvoiceService } from '@/services/supabaseService';
@@ -120,6 +121,7 @@ const PublicInvoice = () => {
             <Printer className="mr-2 h-4 w-4" />
             Print
           </Button>
+          <PayNowButton invoice={invoice} />
         </div>
       </div>
 
@@ -0,0 +1,383 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { addDays, format } from 'date-fns';
+import { ArrowLeft, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AdditionalChargesManager } from '@/components/invoice/AdditionalChargesManager';
+import TemplateSelector from '@/components/invoice/templates/TemplateSelector';
+import { invoiceTemplates, InvoiceTemplateId } from '@/components/invoice/templates/InvoiceTemplates';
+import { useToast } from '@/hooks/use-toast';
+import { useAppData } from '@/hooks/useAppData';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { AdditionalCharge, LineItem } from '@/types';
+import { CreateQuoteRequest } from '@/types/quote';
+import { quoteService } from '@/services/quoteService';
+import { formatCurrency } from '@/utils/invoiceUtils';
+
+const DEFAULT_VALID_DAYS = 30;
+
+const emptyLineItem = (index: number): LineItem => ({
+  id: `${index + 1}`,
+  description: '',
+  quantity: 1,
+  unit: 'each',
+  rate: 0,
+  total: 0
+});
+
+export default function QuoteFormPage() {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = !!id;
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const isMobile = useIsMobile();
+  const { customers, businessProfile, units = [] } = useAppData();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [loading, setLoading] = useState(isEditing);
+  const [isSaving, setIsSaving] = useState(false);
+  const [customerId, setCustomerId] = useState('');
+  const [date, setDate] = useState(today);
+  const [expiryDate, setExpiryDate] = useState(format(addDays(new Date(), DEFAULT_VALID_DAYS), 'yyyy-MM-dd'));
+  const [currency, setCurrency] = useState('NZD');
+  const [templateName, setTemplateName] = useState<InvoiceTemplateId>('classic');
+  const [items, setItems] = useState<LineItem[]>([emptyLineItem(0)]);
+  const [taxRate, setTaxRate] = useState<number>(businessProfile?.defaultTaxRate ?? 15);
+  const [discount, setDiscount] = useState(0);
+  const [additionalChargesList, setAdditionalChargesList] = useState<AdditionalCharge[]>([]);
+  const [isAdditionalChargesEnabled, setIsAdditionalChargesEnabled] = useState(false);
+  const [notes, setNotes] = useState(businessProfile?.defaultNotes || '');
+  const [terms, setTerms] = useState(businessProfile?.defaultTerms || '');
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadQuote = async () => {
+      try {
+        const quote = await quoteService.getQuote(id);
+        if (!quote) {
+          toast({ title: 'Quote not found', variant: 'destructive' });
+          navigate('/quotes');
+          return;
+        }
+        setCustomerId(quote.customerId);
+        setDate(quote.date);
+        setExpiryDate(quote.expiryDate);
+        setCurrency(quote.currency);
+        setTemplateName(quote.templateName);
+        setItems(quote.items.length > 0 ? quote.items : [emptyLineItem(0)]);
+        setTaxRate(quote.subtotal > 0 ? Math.round((quote.taxAmount / quote.subtotal) * 10000) / 100 : 0);
+        setDiscount(quote.discount || 0);
+        setAdditionalChargesList(quote.additionalChargesList || []);
+        setIsAdditionalChargesEnabled((quote.additionalChargesList || []).length > 0);
+        setNotes(quote.notes || '');
+        setTerms(quote.terms || '');
+      } catch (error) {
+        console.error('Error loading quote:', error);
+        toast({ title: 'Error', description: 'Failed to load quote', variant: 'destructive' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQuote();
+  }, [id, navigate, toast]);
+
+  const totals = useMemo(
+    () => quoteService.calculateQuoteTotals(
+      items,
+      taxRate,
+      isAdditionalChargesEnabled ? additionalChargesList : [],
+      discount
+    ),
+    [items, taxRate, isAdditionalChargesEnabled, additionalChargesList, discount]
+  );
+
+  const updateItem = (index: number, field: keyof LineItem, value: string | number) => {
+    setItems(prev => prev.map((item, i) => {
+      if (i !== index) return item;
+      const updated = { ...item, [field]: value };
+      if (field === 'quantity' || field === 'rate') {
+        updated.total = Number(updated.quantity) * Number(updated.rate);
+      }
+      return updated;
+    }));
+  };
+
+  const handleSave = async () => {
+    const quote: CreateQuoteRequest = {
+      customerId,
+      date,
+      expiryDate,
+      items: items.filter(item => item.description.trim().length > 0),
+      subtotal: totals.subtotal,
+      taxAmount: totals.taxAmount,
+      discount: discount || null,
+      additionalChargesList: isAdditionalChargesEnabled ? additionalChargesList : [],
+      additionalChargesTotal: totals.additionalChargesTotal,
+      total: totals.total,
+      notes: notes || null,
+      terms: terms || null,
+      currency,
+      templateName
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = isEditing
+        ? await quoteService.updateQuote(id, quote)
+        : await quoteService.createQuote(quote);
+      toast({
+        title: isEditing ? 'Quote updated' : 'Quote created',
+        description: `${saved.quoteNumber} has been saved.`
+      });
+      navigate('/quotes');
+    } catch (error) {
+      toast({
+        title: 'Could not save quote',
+        description: error instanceof Error ? error.message : 'An error occurred while saving the quote',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/quotes')} aria-label="Back to quotes">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h1 className="text-3xl font-bold">{isEditing ? 'Edit Quote' : 'New Quote'}</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Customer</Label>
+            <Select value={customerId} onValueChange={setCustomerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers.map(customer => (
+                  <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-date">Quote Date</Label>
+            <Input id="quote-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-expiry">Valid Until</Label>
+            <Input id="quote-expiry" type="date" value={expiryDate} min={date} onChange={(e) => setExpiryDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-currency">Currency</Label>
+            <Input id="quote-currency" value={currency} onChange={(e) => setCurrency(e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-tax-rate">GST Rate (%)</Label>
+            <Input
+              id="quote-tax-rate"
+              type="number"
+              min={0}
+              step="0.01"
+              value={taxRate}
+              onChange={(e) => setTaxRate(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Line Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-24">Qty</TableHead>
+                  <TableHead className="w-32">Unit</TableHead>
+                  <TableHead className="w-32">Rate</TableHead>
+                  <TableHead className="text-right w-32">Amount</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item, index) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Input
+                        value={item.description}
+                        placeholder="Description"
+                        onChange={(e) => updateItem(index, 'description', e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select value={item.unit || 'each'} onValueChange={(value) => updateItem(index, 'unit', value)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {units.map(unit => (
+                            <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={item.rate}
+                        onChange={(e) => updateItem(index, 'rate', parseFloat(e.target.value) || 0)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.total, currency)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        aria-label="Remove line item"
+                        disabled={items.length === 1}
+                        onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 size={16} />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => setItems(prev => [...prev, { ...emptyLineItem(prev.length), id: `${Date.now()}` }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Item
+          </Button>
+
+          <AdditionalChargesManager
+            charges={additionalChargesList}
+            onChargesChange={setAdditionalChargesList}
+            subtotal={totals.subtotal}
+            currency={currency}
+            enabled={isAdditionalChargesEnabled}
+            onEnabledChange={setIsAdditionalChargesEnabled}
+          />
+
+          <div className="flex justify-end">
+            <div className="w-full sm:w-72 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatCurrency(totals.subtotal, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">GST</span>
+                <span>{formatCurrency(totals.taxAmount, currency)}</span>
+              </div>
+              {totals.additionalChargesTotal > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Additional charges</span>
+                  <span>{formatCurrency(totals.additionalChargesTotal, currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <Label htmlFor="quote-discount" className="text-muted-foreground font-normal">Discount</Label>
+                <Input
+                  id="quote-discount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="w-28 h-8 text-right"
+                  value={discount}
+                  onChange={(e) => setDiscount(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Total</span>
+                <span>{formatCurrency(totals.total, currency)}</span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Template</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TemplateSelector
+            templates={invoiceTemplates}
+            selectedTemplate={templateName}
+            onSelectTemplate={setTemplateName}
+            isMobile={isMobile}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="quote-notes">Notes</Label>
+            <Textarea id="quote-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-terms">Terms</Label>
+            <Textarea id="quote-terms" value={terms} onChange={(e) => setTerms(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => navigate('/quotes')} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving || !customerId}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isEditing ? 'Save Changes' : 'Create Quote'}
+        </Button>
+      </div>
+    </div>
+  );
+}
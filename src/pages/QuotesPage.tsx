@@ -0,0 +1,360 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ClipboardList, Edit, Eye, FileText, Link2, Loader2, Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAppData } from '@/hooks/useAppData';
+import { Quote, QuoteStatus } from '@/types/quote';
+import { quoteService } from '@/services/quoteService';
+import { createQuoteTemplateData, renderTemplateComponent } from '@/services/invoiceTemplateRenderer';
+import { formatCurrency } from '@/utils/invoiceUtils';
+
+const STATUS_BADGES: Record<QuoteStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-800' },
+  sent: { label: 'Sent', className: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  declined: { label: 'Declined', className: 'bg-red-100 text-red-800' },
+  expired: { label: 'Expired', className: 'bg-amber-100 text-amber-800' },
+};
+
+export default function QuotesPage() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { businessProfile, convertQuoteToInvoice } = useAppData();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [previewQuote, setPreviewQuote] = useState<Quote | null>(null);
+  const [quoteToDelete, setQuoteToDelete] = useState<Quote | null>(null);
+  const [busyQuoteId, setBusyQuoteId] = useState<string | null>(null);
+
+  const loadQuotes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setQuotes(await quoteService.getQuotes());
+    } catch (error) {
+      console.error('Error loading quotes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load quotes',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  const filteredQuotes = useMemo(() => {
+    if (!searchTerm) return quotes;
+    const term = searchTerm.toLowerCase();
+    return quotes.filter(quote =>
+      quote.quoteNumber.toLowerCase().includes(term) ||
+      quote.customer?.name?.toLowerCase().includes(term)
+    );
+  }, [quotes, searchTerm]);
+
+  // Copying the link is how a quote is sent, so drafts move to sent here
+  const handleCopyLink = async (quote: Quote) => {
+    setBusyQuoteId(quote.id);
+    try {
+      if (quote.status === 'draft') {
+        await quoteService.updateQuoteStatus(quote.id, 'sent');
+      }
+      await navigator.clipboard.writeText(quoteService.getShareUrl(quote));
+      toast({
+        title: 'Link copied',
+        description: `Send the link to ${quote.customer?.name || 'your client'} so they can accept ${quote.quoteNumber} online.`
+      });
+      await loadQuotes();
+    } catch (error) {
+      console.error('Error sharing quote:', error);
+      toast({
+        title: 'Could not share quote',
+        description: error instanceof Error ? error.message : 'An error occurred while sharing the quote',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyQuoteId(null);
+    }
+  };
+
+  const handleConvert = async (quote: Quote) => {
+    setBusyQuoteId(quote.id);
+    try {
+      const invoice = await convertQuoteToInvoice(quote.id);
+      toast({
+        title: 'Invoice created',
+        description: `${quote.quoteNumber} was converted to invoice ${invoice.invoiceNumber}.`
+      });
+      navigate(`/invoices/${invoice.id}/edit`);
+    } catch (error) {
+      toast({
+        title: 'Could not convert quote',
+        description: error instanceof Error ? error.message : 'An error occurred while creating the invoice',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyQuoteId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!quoteToDelete) return;
+    try {
+      await quoteService.deleteQuote(quoteToDelete.id);
+      toast({ title: 'Quote deleted', description: `${quoteToDelete.quoteNumber} was deleted.` });
+      setQuoteToDelete(null);
+      await loadQuotes();
+    } catch (error) {
+      toast({
+        title: 'Could not delete quote',
+        description: error instanceof Error ? error.message : 'An error occurred while deleting the quote',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const openQuotes = quotes.filter(quote => quote.status === 'sent');
+  const acceptedQuotes = quotes.filter(quote => quote.status === 'accepted');
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Quotes</h1>
+          <p className="text-muted-foreground">
+            Estimates your clients can accept online and you can turn into invoices
+          </p>
+        </div>
+        <Button asChild>
+          <Link to="/quotes/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Quote
+          </Link>
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Awaiting Response</p>
+            <p className="text-2xl font-bold">{openQuotes.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Accepted</p>
+            <p className="text-2xl font-bold text-green-600">{acceptedQuotes.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Accepted, Not Yet Invoiced</p>
+            <p className="text-2xl font-bold">
+              {formatCurrency(
+                acceptedQuotes.filter(quote => !quote.convertedInvoiceId).reduce((sum, quote) => sum + quote.total, 0),
+                acceptedQuotes[0]?.currency || 'NZD'
+              )}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            All Quotes
+          </CardTitle>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search quotes..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredQuotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No quotes yet. Create one to send an estimate before the job starts.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Valid Until</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredQuotes.map(quote => (
+                    <TableRow key={quote.id}>
+                      <TableCell className="font-medium">{quote.quoteNumber}</TableCell>
+                      <TableCell>{quote.customer?.name}</TableCell>
+                      <TableCell>{quote.date}</TableCell>
+                      <TableCell>{quote.expiryDate}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(quote.total, quote.currency)}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[quote.status].className}>
+                          {STATUS_BADGES[quote.status].label}
+                        </Badge>
+                        {quote.convertedInvoiceId && (
+                          <Link to={`/invoices/${quote.convertedInvoiceId}`} className="ml-2 text-xs text-primary hover:underline">
+                            Invoiced
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label="Preview quote"
+                          onClick={() => setPreviewQuote(quote)}
+                        >
+                          <Eye size={16} />
+                        </Button>
+                        {quoteService.canEdit(quote) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Edit quote"
+                            onClick={() => navigate(`/quotes/${quote.id}/edit`)}
+                          >
+                            <Edit size={16} />
+                          </Button>
+                        )}
+                        {(quote.status === 'draft' || quote.status === 'sent') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Copy share link"
+                            title="Copy share link"
+                            disabled={busyQuoteId === quote.id}
+                            onClick={() => handleCopyLink(quote)}
+                          >
+                            <Link2 size={16} />
+                          </Button>
+                        )}
+                        {quoteService.canConvert(quote) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            disabled={busyQuoteId === quote.id}
+                            onClick={() => handleConvert(quote)}
+                          >
+                            {busyQuoteId === quote.id ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <FileText className="mr-1 h-4 w-4" />
+                            )}
+                            Convert to Invoice
+                          </Button>
+                        )}
+                        {!quote.convertedInvoiceId && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-red-600"
+                            aria-label="Delete quote"
+                            onClick={() => setQuoteToDelete(quote)}
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      <Dialog open={!!previewQuote} onOpenChange={(open) => !open && setPreviewQuote(null)}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Quote {previewQuote?.quoteNumber}</DialogTitle>
+            {previewQuote?.respondedBy && (
+              <DialogDescription>
+                {STATUS_BADGES[previewQuote.status].label} by {previewQuote.respondedBy}
+                {previewQuote.responseNote ? ` - "${previewQuote.responseNote}"` : ''}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {previewQuote && renderTemplateComponent(
+            previewQuote.templateName,
+            createQuoteTemplateData(previewQuote, businessProfile)
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete */}
+      <Dialog open={!!quoteToDelete} onOpenChange={(open) => !open && setQuoteToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Quote</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {quoteToDelete?.quoteNumber}? The share link will stop working.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQuoteToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -365,8 +365,14 @@ export default function ReceiptViewPage() {
             
             <div className="space-y-3">
               <div>
-                <label className="text-sm font-medium text-muted-foreground">Invoice Number</label>
-                <p className="font-mono">{receipt.receiptData?.invoice.invoiceNumber}</p>
+                <label className="text-sm font-medium text-muted-foreground">
+                  {receipt.receiptData?.allocations ? 'Invoices' : 'Invoice Number'}
+                </label>
+                <p className="font-mono">
+                  {receipt.receiptData?.allocations
+                    ? receipt.receiptData.allocations.map(allocation => allocation.invoiceNumber).join(', ')
+                    : receipt.receiptData?.invoice?.invoiceNumber || 'Multiple invoices'}
+                </p>
               </div>
               <div>
                 <label className="text-sm font-medium text-muted-foreground">Customer</label>
@@ -374,9 +380,17 @@ export default function ReceiptViewPage() {
                 <p className="text-sm text-muted-foreground">{receipt.receiptData?.customer.email}</p>
               </div>
               <div>
-                <label className="text-sm font-medium text-muted-foreground">Amount Paid</label>
+                <label className="text-sm font-medium text-muted-foreground">
+                  {receipt.receiptData?.refund ? 'Amount Refunded' : 'Amount Paid'}
+                </label>
                 <p className="text-lg font-semibold">${receipt.receiptData?.amountPaid.toFixed(2)}</p>
               </div>
+              {receipt.receiptData?.refund && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Refund Reason</label>
+                  <p>{receipt.receiptData.refund.reason}</p>
+                </div>
+              )}
               {receipt.receiptData?.balanceAfterPayment !== undefined && (
                 <div>
                   <label className="text-sm font-medium text-muted-foreground">Remaining Balance</label>
@@ -388,6 +402,32 @@ export default function ReceiptViewPage() {
             </div>
           </div>
 
+          {/* Batch payment split */}
+          {receipt.receiptData?.allocations && receipt.receiptData.allocations.length > 0 && (
+            <div className="border-t pt-4 mb-6">
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">Allocated To</h3>
+              <div className="space-y-1 text-sm">
+                {receipt.receiptData.allocations.map(allocation => (
+                  <div key={allocation.invoiceId} className="flex justify-between">
+                    <span className="font-mono">#{allocation.invoiceNumber}</span>
+                    <span>
+                      ${allocation.amountAllocated.toFixed(2)}
+                      <span className="text-muted-foreground ml-2">
+                        (${allocation.remainingBalance.toFixed(2)} remaining)
+                      </span>
+                    </span>
+                  </div>
+                ))}
+                {!!receipt.receiptData.unappliedAmount && (
+                  <div className="flex justify-between font-medium">
+                    <span>Held as customer credit</span>
+                    <span>${receipt.receiptData.unappliedAmount.toFixed(2)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Generated timestamps */}
           <div className="border-t pt-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-muted-foreground">
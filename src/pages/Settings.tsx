@@ -13,6 +13,21 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2, Upload } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import ThemePicker from '@/components/business/ThemePicker';
+import ExchangeRatesManager from '@/components/business/ExchangeRatesManager';
+import AuditLogViewer from '@/components/audit/AuditLogViewer';
+import PostingAccountsManager from '@/components/accounting/PostingAccountsManager';
+import PeriodLockManager from '@/components/accounting/PeriodLockManager';
+import ChartOfAccountsManager from '@/components/accounting/ChartOfAccountsManager';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const BASE_CURRENCIES = [
+  { value: 'NZD', label: 'NZD - New Zealand Dollar' },
+  { value: 'AUD', label: 'AUD - Australian Dollar' },
+  { value: 'USD', label: 'USD - US Dollar' },
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'GBP', label: 'GBP - British Pound' },
+  { value: 'CAD', label: 'CAD - Canadian Dollar' },
+] as const;
 
 const profileFormSchema = z.object({
   name: z.string().min(1, { message: "Business name is required" }),
@@ -30,6 +45,7 @@ const profileFormSchema = z.object({
   defaultNotes: z.string().optional(),
   invoiceNumberFormat: z.string().min(2, { message: "Format required" }).optional(),
   invoiceNumberSequence: z.number().optional(),
+  baseCurrency: z.string().default('NZD'),
   logoFile: z.any().optional()
 });
 
@@ -61,6 +77,7 @@ const Settings = () => {
       defaultNotes: businessProfile?.defaultNotes || '',
       invoiceNumberFormat: businessProfile?.invoiceNumberFormat || 'INV-{YYYY}-{SEQ}',
       invoiceNumberSequence: businessProfile?.invoiceNumberSequence ?? 1,
+      baseCurrency: businessProfile?.baseCurrency || 'NZD',
       logoFile: undefined,
     },
   });
@@ -89,6 +106,7 @@ const Settings = () => {
         defaultNotes: businessProfile.defaultNotes || '',
         invoiceNumberFormat: businessProfile.invoiceNumberFormat || 'INV-{YYYY}-{SEQ}',
         invoiceNumberSequence: businessProfile.invoiceNumberSequence ?? 1,
+        baseCurrency: businessProfile.baseCurrency || 'NZD',
         logoFile: undefined,
       });
       setPreviewLogoUrl(businessProfile.logoUrl || undefined);
@@ -141,6 +159,7 @@ const Settings = () => {
         id: businessProfile?.id,
         invoiceNumberFormat: data.invoiceNumberFormat?.trim() || 'INV-{YYYY}-{SEQ}',
         invoiceNumberSequence: data.invoiceNumberSequence ?? 1,
+        baseCurrency: data.baseCurrency || 'NZD',
         logoUrl: logoUrlToSave,
       };
       
@@ -206,6 +225,11 @@ const Settings = () => {
           <TabsTrigger value="profile">Business Profile</TabsTrigger>
           <TabsTrigger value="preferences">Preferences</TabsTrigger>
           <TabsTrigger value="appearance">Appearance</TabsTrigger>
+          <TabsTrigger value="currencies">Currencies</TabsTrigger>
+          <TabsTrigger value="chart">Chart of Accounts</TabsTrigger>
+          <TabsTrigger value="posting">Ledger Posting</TabsTrigger>
+          <TabsTrigger value="locks">Lock Dates</TabsTrigger>
+          <TabsTrigger value="audit">Audit Log</TabsTrigger>
         </TabsList>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)}>
@@ -468,6 +492,34 @@ const Settings = () => {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="baseCurrency"
+                      render={({ field }) => (
+                        <FormItem className="space-y-2">
+                          <FormLabel>Base Currency</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select base currency" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {BASE_CURRENCIES.map((currency) => (
+                                <SelectItem key={currency.value} value={currency.value}>
+                                  {currency.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="text-xs text-muted-foreground">
+                            Reports and the ledger are expressed in this currency. Invoices in other currencies are converted at the rate locked when they were created.
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </CardContent>
               </Card>
@@ -480,22 +532,44 @@ const Settings = () => {
               />
             </TabsContent>
             
-            <div className="mt-6">
-              <Button
-                type="submit"
-                className="bg-invoice-teal hover:bg-invoice-teal/90"
-                disabled={isSaving}
-              >
-                {isSaving ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : "Save Changes"}
-              </Button>
-            </div>
+            {activeTab !== 'currencies' && activeTab !== 'chart' && activeTab !== 'posting' && activeTab !== 'locks' && activeTab !== 'audit' && (
+              <div className="mt-6">
+                <Button
+                  type="submit"
+                  className="bg-invoice-teal hover:bg-invoice-teal/90"
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : "Save Changes"}
+                </Button>
+              </div>
+            )}
           </form>
         </Form>
+
+        <TabsContent value="currencies" className="mt-4">
+          <ExchangeRatesManager baseCurrency={businessProfile?.baseCurrency || 'NZD'} />
+        </TabsContent>
+
+        <TabsContent value="chart" className="mt-4">
+          <ChartOfAccountsManager />
+        </TabsContent>
+
+        <TabsContent value="posting" className="mt-4">
+          <PostingAccountsManager />
+        </TabsContent>
+
+        <TabsContent value="locks" className="mt-4">
+          <PeriodLockManager />
+        </TabsContent>
+
+        <TabsContent value="audit" className="mt-4">
+          <AuditLogViewer />
+        </TabsContent>
       </Tabs>
     </div>
   );
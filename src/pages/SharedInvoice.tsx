@@ -1,12 +1,14 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, FileText, AlertCircle, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Download, FileText, AlertCircle, Loader2, Lock } from 'lucide-react';
 import { sharedInvoiceService } from '@/services/supabaseService';
-import { Invoice, BusinessProfile } from '@/types';
+import { Invoice, BusinessProfile, SharedInvoiceAccessStatus } from '@/types';
 import { generateInvoicePdf } from '@/utils/pdfUtils';
 import { useToast } from '@/hooks/use-toast';
+import PayNowButton from '@/components/invoice/PayNowButton';
 
 // Import template components
 import ClassicTemplate from '@/components/invoice/preview/templates/ClassicTemplate';
@@ -16,6 +18,11 @@ import ExecutiveTemplate from '@/components/invoice/preview/templates/ExecutiveT
 import CorporateTemplate from '@/components/invoice/preview/templates/CorporateTemplate';
 import ModernInvoiceTemplate from '@/components/invoice/preview/templates/ModernInvoiceTemplate';
 
+const PASSCODE_ERRORS: Partial<Record<SharedInvoiceAccessStatus, string>> = {
+  invalid_passcode: 'Incorrect passcode. Please try again.',
+  passcode_locked: 'Too many incorrect attempts. Please try again later.'
+};
+
 const SharedInvoice: React.FC = () => {
   const { shareToken } = useParams<{ shareToken: string }>();
   const navigate = useNavigate();
@@ -27,39 +34,59 @@ const SharedInvoice: React.FC = () => {
   const [businessProfile, setBusinessProfile] = useState<BusinessProfile | null>(null);
   const [templateName, setTemplateName] = useState<string>('classic');
   const [isDownloading, setIsDownloading] = useState(false);
+  const [needsPasscode, setNeedsPasscode] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
 
-  useEffect(() => {
-    const fetchSharedInvoice = async () => {
-      if (!shareToken) {
-        setError('Invalid share link');
+  const fetchSharedInvoice = useCallback(async (enteredPasscode?: string) => {
+    if (!shareToken) {
+      setError('Invalid share link');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const result = await sharedInvoiceService.getSharedInvoiceByToken(shareToken, enteredPasscode);
+
+      if (result.status === 'passcode_required' || result.status === 'invalid_passcode' || result.status === 'passcode_locked') {
+        setNeedsPasscode(true);
+        setPasscodeError(PASSCODE_ERRORS[result.status] ?? null);
         setLoading(false);
         return;
       }
 
-      try {
-        const result = await sharedInvoiceService.getSharedInvoiceByToken(shareToken);
-        
-        if (!result) {
-          setError('Invoice not found or link has expired');
-          setLoading(false);
-          return;
-        }
-
-        
-        setInvoiceData(result.invoiceData);
-        setBusinessProfile(result.templateData.businessProfile);
-        setTemplateName(result.templateData.templateName || 'classic');
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching shared invoice:', err);
-        setError('Failed to load invoice');
+      if (result.status !== 'ok' || !result.invoiceData || !result.templateData) {
+        setError('Invoice not found or link has expired');
         setLoading(false);
+        return;
       }
-    };
 
-    fetchSharedInvoice();
+      setNeedsPasscode(false);
+      setInvoiceData(result.invoiceData);
+      setBusinessProfile(result.templateData.businessProfile);
+      setTemplateName(result.templateData.templateName || 'classic');
+      setLoading(false);
+    } catch (err) {
+      console.error('Error fetching shared invoice:', err);
+      setError('Failed to load invoice');
+      setLoading(false);
+    }
   }, [shareToken]);
 
+  useEffect(() => {
+    fetchSharedInvoice();
+  }, [fetchSharedInvoice]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode.trim()) return;
+
+    setIsUnlocking(true);
+    await fetchSharedInvoice(passcode.trim());
+    setIsUnlocking(false);
+  };
+
   const handleDownloadPdf = async () => {
     if (!invoiceData || !businessProfile) return;
 
@@ -148,6 +175,40 @@ const SharedInvoice: React.FC = () => {
     );
   }
 
+  if (needsPasscode) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md w-full mx-4">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 bg-blue-100 rounded-full p-3 w-fit">
+              <Lock className="h-6 w-6 text-blue-600" />
+            </div>
+            <CardTitle className="text-xl text-gray-900">Passcode Required</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <p className="text-center text-gray-600">
+                Enter the passcode you received from the sender to view this invoice.
+              </p>
+              <Input
+                type="password"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                placeholder="Passcode"
+                aria-label="Passcode"
+                autoFocus
+              />
+              {passcodeError && <p className="text-sm text-red-600">{passcodeError}</p>}
+              <Button type="submit" className="w-full" disabled={isUnlocking || !passcode.trim()}>
+                {isUnlocking ? 'Checking...' : 'View Invoice'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -209,6 +270,7 @@ const SharedInvoice: React.FC = () => {
                 )}
                 <span>{isDownloading ? 'Generating...' : 'Download PDF'}</span>
               </Button>
+              {invoiceData && <PayNowButton invoice={invoiceData} shareToken={shareToken} />}
             </div>
           </div>
         </div>
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertCircle, CheckCircle2, ClipboardList, Loader2, XCircle } from 'lucide-react';
+import { quoteService } from '@/services/quoteService';
+import { createQuoteTemplateData, renderTemplateComponent } from '@/services/invoiceTemplateRenderer';
+import { Quote, QuoteResponse } from '@/types/quote';
+import { BusinessProfile } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+
+const SharedQuote: React.FC = () => {
+  const { shareToken } = useParams<{ shareToken: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [businessProfile, setBusinessProfile] = useState<BusinessProfile | null>(null);
+  const [name, setName] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState<QuoteResponse | null>(null);
+
+  useEffect(() => {
+    const fetchSharedQuote = async () => {
+      if (!shareToken) {
+        setError('Invalid share link');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const result = await quoteService.getSharedQuoteByToken(shareToken);
+
+        if (!result) {
+          setError('Quote not found or link is no longer active');
+          setLoading(false);
+          return;
+        }
+
+        setQuote(result.quote);
+        setBusinessProfile(result.businessProfile);
+        setLoading(false);
+      } catch (err) {
+        console.error('Error fetching shared quote:', err);
+        setError('Failed to load quote');
+        setLoading(false);
+      }
+    };
+
+    fetchSharedQuote();
+  }, [shareToken]);
+
+  const handleRespond = async (response: QuoteResponse) => {
+    if (!shareToken || !quote) return;
+
+    setSubmitting(response);
+    try {
+      const status = await quoteService.respondToQuote(shareToken, response, name, note);
+      setQuote({ ...quote, status, respondedBy: name.trim(), responseNote: note.trim() || null });
+      toast({
+        title: response === 'accepted' ? 'Quote accepted' : 'Quote declined',
+        description: `Your response has been sent to ${businessProfile?.name || 'the business'}.`,
+      });
+    } catch (err) {
+      toast({
+        title: 'Could not send your response',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-blue-600" />
+          <p className="text-gray-600">Loading quote...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !quote) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="max-w-md w-full mx-4">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 bg-red-100 rounded-full p-3 w-fit">
+              <AlertCircle className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle className="text-xl text-gray-900">Quote Not Found</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center space-y-4">
+            <p className="text-gray-600">{error}</p>
+            <p className="text-sm text-gray-500">
+              This link may have been withdrawn. Please request a new link from the sender.
+            </p>
+            <Button
+              onClick={() => navigate('/')}
+              className="w-full"
+            >
+              Go to Homepage
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const renderResponseSection = () => {
+    if (quote.status === 'accepted' || quote.status === 'declined') {
+      const accepted = quote.status === 'accepted';
+      return (
+        <div className={`flex items-center gap-3 rounded-lg border p-4 ${accepted ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+          {accepted ? (
+            <CheckCircle2 className="h-5 w-5 text-green-600" />
+          ) : (
+            <XCircle className="h-5 w-5 text-red-600" />
+          )}
+          <p className="text-sm text-gray-700">
+            This quote was {quote.status}{quote.respondedBy ? ` by ${quote.respondedBy}` : ''}.
+          </p>
+        </div>
+      );
+    }
+
+    if (quote.status === 'expired') {
+      return (
+        <div className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <AlertCircle className="h-5 w-5 text-amber-600" />
+          <p className="text-sm text-gray-700">
+            This quote expired on {new Date(quote.expiryDate).toLocaleDateString()}. Please contact {businessProfile?.name || 'the sender'} for an updated quote.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="quote-responder-name">Your name</Label>
+            <Input
+              id="quote-responder-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Full name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-response-note">Message (optional)</Label>
+            <Textarea
+              id="quote-response-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={1}
+            />
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row justify-end gap-3">
+          <Button
+            variant="outline"
+            onClick={() => handleRespond('declined')}
+            disabled={!!submitting || !name.trim()}
+          >
+            {submitting === 'declined' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Decline
+          </Button>
+          <Button
+            onClick={() => handleRespond('accepted')}
+            disabled={!!submitting || !name.trim()}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {submitting === 'accepted' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accept Quote
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-3">
+            <div className="bg-blue-100 rounded-lg p-2">
+              <ClipboardList className="h-5 w-5 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-gray-900">
+                Quote {quote.quoteNumber}
+              </h1>
+              <p className="text-sm text-gray-500">
+                From {businessProfile?.name || 'Business'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Quote Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="p-6 md:p-8">
+            {renderTemplateComponent(quote.templateName, createQuoteTemplateData(quote, businessProfile))}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Your response</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {renderResponseSection()}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SharedQuote;
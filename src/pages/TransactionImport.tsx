@@ -19,7 +19,8 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { bankAccountService } from '@/services/bankAccountService';
-import { BankAccount, TransactionImportResult, ImportedTransaction } from '@/types/bankTransaction';
+import { BankAccount, TransactionImportResult, ImportedTransaction, ImportFileType } from '@/types/bankTransaction';
+import { isStatementFileFormat, parseStatementFile } from '@/services/bankStatementParser';
 import { FileUploadZone } from '@/components/transaction-import/FileUploadZone';
 import { ImportPreview } from '@/components/transaction-import/ImportPreview';
 import { ImportConfiguration } from '@/components/transaction-import/ImportConfiguration';
@@ -66,11 +67,29 @@ export default function TransactionImportPage() {
     }
   };
 
-  const handleFileSelect = (file: File) => {
+  const handleFileSelect = async (file: File, fileType: ImportFileType) => {
+    if (!isStatementFileFormat(fileType)) {
+      setImportState(prev => ({
+        ...prev,
+        file,
+        step: 'configure',
+        error: null,
+      }));
+      return;
+    }
+
+    // OFX and CAMT.053 files describe their own fields, so go straight to the preview
+    const parseResult = parseStatementFile(await file.text(), fileType);
+    if (!parseResult.success) {
+      toast.error(parseResult.errors[0] || 'Could not read the statement file');
+      return;
+    }
+
     setImportState(prev => ({
       ...prev,
       file,
-      step: 'configure',
+      parseResult: { ...parseResult, fileType },
+      step: 'preview',
       error: null,
     }));
   };
@@ -136,7 +155,7 @@ export default function TransactionImportPage() {
       <div>
         <h1 className="text-3xl font-bold">Import Transactions</h1>
         <p className="text-muted-foreground mt-2">
-          Upload your bank statement (CSV or PDF) to automatically import transactions
+          Upload your bank statement (CSV, OFX, QFX, CAMT.053 or PDF) to automatically import transactions
         </p>
       </div>
 
@@ -209,7 +228,10 @@ export default function TransactionImportPage() {
             parseResult={importState.parseResult}
             bankAccount={importState.bankAccount!}
             onImportConfirm={handleImportConfirm}
-            onBack={() => setImportState(prev => ({ ...prev, step: 'configure' }))}
+            onBack={() => setImportState(prev => ({
+              ...prev,
+              step: isStatementFileFormat(prev.parseResult?.fileType) ? 'upload' : 'configure'
+            }))}
           />
         );
 
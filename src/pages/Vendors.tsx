@@ -0,0 +1,356 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, parseISO, startOfYear } from 'date-fns';
+import { GitMerge, Pencil, Plus, Store, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { VendorDialog, VendorDraft } from '@/components/vendor/VendorDialog';
+import { vendorService } from '@/services/vendorService';
+import { useAppData } from '@/hooks/useAppData';
+import { Vendor, VendorNameGroup, VendorNameUsage, VendorSpendReport } from '@/types/vendor';
+
+export default function VendorsPage() {
+  const { expenseCategories } = useAppData();
+
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [unlinkedNames, setUnlinkedNames] = useState<VendorNameUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  // Names to merge into the vendor being created from a group
+  const [pendingGroup, setPendingGroup] = useState<VendorNameGroup | null>(null);
+  const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+
+  const [startDate, setStartDate] = useState(format(startOfYear(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [spendReport, setSpendReport] = useState<VendorSpendReport | null>(null);
+  const [loadingSpend, setLoadingSpend] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [allVendors, names] = await Promise.all([
+        vendorService.getVendors(),
+        vendorService.getUnlinkedVendorNames()
+      ]);
+      setVendors(allVendors);
+      setUnlinkedNames(names);
+    } catch (error) {
+      console.error('Error loading vendors:', error);
+      toast.error('Failed to load vendors');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadSpend = useCallback(async () => {
+    try {
+      setLoadingSpend(true);
+      setSpendReport(await vendorService.getVendorSpendReport(startDate, endDate));
+    } catch (error) {
+      console.error('Error loading vendor spend:', error);
+      toast.error('Failed to load vendor spend');
+    } finally {
+      setLoadingSpend(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    loadSpend();
+  }, [loadSpend]);
+
+  const nameGroups = useMemo(
+    () => vendorService.groupVendorNames(unlinkedNames, vendors),
+    [unlinkedNames, vendors]
+  );
+
+  const categoryName = (id?: string | null) =>
+    expenseCategories.find(category => category.id === id)?.name;
+
+  const openDialog = (vendor: Vendor | null, group: VendorNameGroup | null = null) => {
+    setEditingVendor(vendor);
+    setPendingGroup(group);
+    setDialogOpen(true);
+  };
+
+  const mergeGroup = async (vendor: Vendor, group: VendorNameGroup) => {
+    const result = await vendorService.mergeVendorNames(vendor, group.names.map(usage => usage.name));
+    const linked = result.expensesLinked + result.billsLinked + result.bankTransactionsLinked;
+    toast.success(`Linked ${linked} record${linked !== 1 ? 's' : ''} to ${vendor.name}`);
+  };
+
+  const handleSave = async (draft: VendorDraft) => {
+    if (editingVendor) {
+      await vendorService.updateVendor(editingVendor.id, draft);
+      toast.success('Vendor updated');
+    } else {
+      const vendor = await vendorService.createVendor(draft);
+      if (pendingGroup) {
+        await mergeGroup(vendor, pendingGroup);
+      } else {
+        toast.success('Vendor created');
+      }
+    }
+    await Promise.all([loadData(), loadSpend()]);
+  };
+
+  const handleMerge = async (group: VendorNameGroup) => {
+    if (!group.vendor) return;
+    setMergingGroup(group.suggestedName);
+    try {
+      await mergeGroup(group.vendor, group);
+      await Promise.all([loadData(), loadSpend()]);
+    } catch (error) {
+      console.error('Error merging vendor names:', error);
+      toast.error('Failed to link records to vendor');
+    } finally {
+      setMergingGroup(null);
+    }
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (!window.confirm(`Delete ${vendor.name}? Linked expenses and bills keep their vendor name.`)) return;
+    try {
+      await vendorService.deleteVendor(vendor.id);
+      toast.success('Vendor deleted');
+      await Promise.all([loadData(), loadSpend()]);
+    } catch (error) {
+      console.error('Error deleting vendor:', error);
+      toast.error('Failed to delete vendor');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Vendors</h1>
+          <p className="text-muted-foreground">
+            The suppliers you buy from, with spend across expenses, bills and bank transactions
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Vendor
+        </Button>
+      </div>
+
+      <Tabs defaultValue="directory">
+        <TabsList>
+          <TabsTrigger value="directory">Directory</TabsTrigger>
+          <TabsTrigger value="merge" className="gap-2">
+            Merge Names
+            {nameGroups.length > 0 && <Badge variant="secondary">{nameGroups.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="spend">Spend</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="directory">
+          <Card>
+            <CardContent className="pt-6">
+              {loading ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">Loading vendors...</p>
+              ) : vendors.length === 0 ? (
+                <div className="py-12 text-center space-y-3">
+                  <Store className="h-10 w-10 mx-auto text-muted-foreground" />
+                  <p className="text-muted-foreground">No vendors yet</p>
+                  <Button variant="outline" onClick={() => openDialog(null)}>Add your first vendor</Button>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>GST Number</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Default Category</TableHead>
+                      <TableHead className="w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {vendors.map(vendor => (
+                      <TableRow key={vendor.id} className={vendor.isActive ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <div className="font-medium flex items-center gap-2">
+                            {vendor.name}
+                            {!vendor.isActive && <Badge variant="outline">Inactive</Badge>}
+                          </div>
+                          {vendor.aliases.length > 0 && (
+                            <div className="text-xs text-muted-foreground truncate max-w-xs">
+                              Also: {vendor.aliases.join(', ')}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{vendor.gstNumber || '—'}</TableCell>
+                        <TableCell>
+                          <div>{vendor.contactName || '—'}</div>
+                          {vendor.email && <div className="text-xs text-muted-foreground">{vendor.email}</div>}
+                        </TableCell>
+                        <TableCell>{categoryName(vendor.defaultExpenseCategoryId) || '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" onClick={() => openDialog(vendor)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" onClick={() => handleDelete(vendor)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="merge">
+          <Card>
+            <CardHeader>
+              <CardTitle>Unlinked Vendor Names</CardTitle>
+              <CardDescription>
+                Vendor names typed on expenses, bills and bank transactions, grouped by likely supplier.
+                Linking a group attributes its history to one vendor and teaches matching the other spellings.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">Looking for vendor names...</p>
+              ) : nameGroups.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">Every record with a vendor name is linked to a vendor</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Spellings</TableHead>
+                      <TableHead className="text-right">Records</TableHead>
+                      <TableHead className="text-right">Spend</TableHead>
+                      <TableHead className="w-40" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {nameGroups.map(group => (
+                      <TableRow key={group.vendor?.id || group.suggestedName}>
+                        <TableCell className="font-medium">
+                          {group.suggestedName}
+                          {group.vendor && <Badge variant="secondary" className="ml-2">Existing vendor</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {group.names.map(usage => (
+                              <Badge key={usage.name} variant="outline">{usage.name} ({usage.count})</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{group.count}</TableCell>
+                        <TableCell className="text-right">${group.total.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end">
+                            {group.vendor ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="gap-1"
+                                disabled={mergingGroup === group.suggestedName}
+                                onClick={() => handleMerge(group)}
+                              >
+                                <GitMerge className="h-4 w-4" />
+                                Link
+                              </Button>
+                            ) : (
+                              <Button size="sm" variant="outline" className="gap-1" onClick={() => openDialog(null, group)}>
+                                <Plus className="h-4 w-4" />
+                                Create vendor
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="spend">
+          <Card>
+            <CardHeader>
+              <CardTitle>Spend by Vendor</CardTitle>
+              <CardDescription>Expenses and bills dated in the period, including GST. Rejected expenses and void bills are left out.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="vendor-spend-start">From</Label>
+                  <Input id="vendor-spend-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="vendor-spend-end">To</Label>
+                  <Input id="vendor-spend-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+              </div>
+
+              {loadingSpend ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">Loading vendor spend...</p>
+              ) : !spendReport || spendReport.vendors.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">No spend in this period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead className="text-right">Expenses</TableHead>
+                      <TableHead className="text-right">Bills</TableHead>
+                      <TableHead>Last Purchase</TableHead>
+                      <TableHead className="text-right">GST</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {spendReport.vendors.map(spend => (
+                      <TableRow key={spend.vendorId || 'unassigned'}>
+                        <TableCell className={spend.vendorId ? 'font-medium' : 'text-muted-foreground'}>{spend.vendorName}</TableCell>
+                        <TableCell className="text-right">{spend.expenseCount}</TableCell>
+                        <TableCell className="text-right">{spend.billCount}</TableCell>
+                        <TableCell>{spend.lastPurchaseDate ? format(parseISO(spend.lastPurchaseDate), 'dd MMM yyyy') : '—'}</TableCell>
+                        <TableCell className="text-right">${spend.taxAmount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">${spend.total.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-semibold">
+                      <TableCell colSpan={5}>Total</TableCell>
+                      <TableCell className="text-right">${spendReport.total.toFixed(2)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <VendorDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        vendor={editingVendor}
+        initialName={pendingGroup?.suggestedName}
+        expenseCategories={expenseCategories}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -34,6 +34,8 @@ const Categories = lazy(() => import("@/pages/Categories"));
 const Expenses = lazy(() => import("@/pages/Expenses"));
 const ExpenseCategories = lazy(() => import("@/pages/ExpenseCategories"));
 const BankAccounts = lazy(() => import("@/pages/BankAccounts"));
+const BankReconciliation = lazy(() => import("@/pages/BankReconciliation"));
+const BankRules = lazy(() => import("@/pages/BankRules"));
 const TransactionImport = lazy(() => import("@/pages/TransactionImport"));
 const Onboarding = lazy(() => import("@/pages/Onboarding"));
 const EmailConfirmation = lazy(() => import("@/pages/EmailConfirmation"));
@@ -45,11 +47,20 @@ const AccountingDashboardPage = lazy(() => import("@/pages/AccountingDashboardPa
 const TaxConfigurationPage = lazy(() => import("@/pages/TaxConfigurationPage"));
 const TaxOverviewPage = lazy(() => import("@/pages/TaxOverviewPage"));
 const FinancialReportsPage = lazy(() => import("@/pages/FinancialReportsPage"));
+const Budgets = lazy(() => import("@/pages/Budgets"));
 const IRDReportingPage = lazy(() => import("@/pages/IRDReportingPage"));
 const JournalEntriesPage = lazy(() => import("@/pages/JournalEntriesPage"));
 const ReceiptViewPage = lazy(() => import("@/pages/ReceiptViewPage"));
 const AuthCallback = lazy(() => import("@/pages/AuthCallback"));
 const PaymentDetailPage = lazy(() => import("@/pages/PaymentDetailPage"));
+const CreditNotesPage = lazy(() => import("@/pages/CreditNotesPage"));
+const PaymentReminders = lazy(() => import("@/pages/PaymentReminders"));
+const CustomerStatements = lazy(() => import("@/pages/CustomerStatements"));
+const Bills = lazy(() => import("@/pages/Bills"));
+const Vendors = lazy(() => import("@/pages/Vendors"));
+const QuotesPage = lazy(() => import("@/pages/QuotesPage"));
+const QuoteFormPage = lazy(() => import("@/pages/QuoteFormPage"));
+const SharedQuote = lazy(() => import("@/pages/SharedQuote"));
 // Loading component
 const LoadingScreen = () => (
   <div className="flex h-screen w-screen items-center justify-center">
@@ -135,14 +146,80 @@ const appRoutes: RouteObject[] = [
           { path: "invoices/create", element: <CreateInvoice /> },
           { path: "invoices/:id/edit", element: <EditInvoice /> },
           { path: "invoices/:id", element: <InvoiceViewPage /> },
+          { 
+            path: "quotes", 
+            element: (
+              <PermissionGuard permission="invoices:read">
+                <QuotesPage />
+              </PermissionGuard>
+            )
+          },
+          { 
+            path: "quotes/new", 
+            element: (
+              <PermissionGuard permission="invoices:create">
+                <QuoteFormPage />
+              </PermissionGuard>
+            )
+          },
+          { 
+            path: "quotes/:id/edit", 
+            element: (
+              <PermissionGuard permission="invoices:update">
+                <QuoteFormPage />
+              </PermissionGuard>
+            )
+          },
+          { 
+            path: "credit-notes", 
+            element: (
+              <PermissionGuard permission="invoices:read">
+                <CreditNotesPage />
+              </PermissionGuard>
+            )
+          },
+          { 
+            path: "payment-reminders", 
+            element: (
+              <PermissionGuard permission="invoices:read">
+                <PaymentReminders />
+              </PermissionGuard>
+            )
+          },
+          { 
+            path: "statements", 
+            element: (
+              <PermissionGuard permission="invoices:read">
+                <CustomerStatements />
+              </PermissionGuard>
+            )
+          },
           { path: "customers", element: <Customers /> },
           { path: "items", element: <Items /> },
           { path: "settings", element: <Settings /> },
           { path: "accounts", element: <AccountsPage /> },
           { path: "bank-accounts", element: <BankAccounts /> },
+          { path: "bank-accounts/:id/reconcile", element: <BankReconciliation /> },
+          { path: "bank-rules", element: <BankRules /> },
           { path: "transaction-import", element: <TransactionImport /> },
           { path: "categories", element: <Categories /> },
           { path: "expenses", element: <Expenses /> },
+          { 
+            path: "bills", 
+            element: (
+              <PermissionGuard permission="expenses:read">
+                <Bills />
+              </PermissionGuard>
+            )
+          },
+          { 
+            path: "vendors", 
+            element: (
+              <PermissionGuard permission="expenses:read">
+                <Vendors />
+              </PermissionGuard>
+            )
+          },
           { path: "expense-categories", element: <ExpenseCategories /> },
           
           // Payment & Accounting Routes
@@ -213,6 +290,14 @@ const appRoutes: RouteObject[] = [
               </PermissionGuard>
             )
           },
+          { 
+            path: "budgets", 
+            element: (
+              <PermissionGuard permission="reports:view">
+                <Budgets />
+              </PermissionGuard>
+            )
+          },
           { 
             path: "ird-reports", 
             element: (
@@ -232,6 +317,10 @@ const appRoutes: RouteObject[] = [
         path: "/shared/invoice/:shareToken",
         element: <SuspenseWrapper><SharedInvoice /></SuspenseWrapper>,
       },
+      {
+        path: "/shared/quote/:shareToken",
+        element: <SuspenseWrapper><SharedQuote /></SuspenseWrapper>,
+      },
       {
         path: "*",
         element: <SuspenseWrapper><NotFound /></SuspenseWrapper>,
@@ -9,8 +9,11 @@
 
 import { IDataManager, IDataState, ILoadingState, IDataSubscriber } from "@/interfaces/IDataManager";
 import { serviceContainer } from "@/services/ServiceContainer";
+import { format } from "date-fns";
 import { Customer, Invoice, BusinessProfile, Item, ItemCategory, Account, Expense, ExpenseCategory } from "@/types";
-import { Payment, Receipt, CreatePaymentRequest, EnhancedInvoice } from "@/types/payment";
+import { Payment, Receipt, CreatePaymentRequest, CreateBatchPaymentRequest, BatchPaymentResult, CreateRefundRequest, RefundResult, EnhancedInvoice } from "@/types/payment";
+import { RecurringInvoiceSchedule, RecurringRunResult } from "@/types/recurringInvoice";
+import { Quote } from "@/types/quote";
 
 // Single Responsibility: State Management
 class DataStateManager {
@@ -200,6 +203,9 @@ class SOLIDDataManager implements IDataManager {
       this.fetchPayments(),
       this.fetchReceipts()
     ]);
+
+    // Generate any recurring invoices that fell due since the last session
+    await this.processDueRecurringSchedules();
   }
 
   reset(): void {
@@ -386,6 +392,109 @@ class SOLIDDataManager implements IDataManager {
     }
   }
 
+  // Recurring invoice operations
+  async runRecurringSchedule(scheduleId: string, runDate?: string): Promise<RecurringRunResult> {
+    const schedule = await serviceContainer.recurringInvoiceService.getSchedule(scheduleId);
+    if (!schedule) {
+      throw new Error(`Recurring schedule with id ${scheduleId} not found`);
+    }
+    return this.generateRecurringInvoice(schedule, runDate || format(new Date(), 'yyyy-MM-dd'));
+  }
+
+  async processDueRecurringSchedules(): Promise<RecurringRunResult[]> {
+    const results: RecurringRunResult[] = [];
+    try {
+      const schedules: RecurringInvoiceSchedule[] = await serviceContainer.recurringInvoiceService.getSchedules();
+
+      for (const schedule of schedules) {
+        let current: RecurringInvoiceSchedule | null = schedule;
+        for (const runDate of serviceContainer.recurringInvoiceService.getDueRunDates(schedule)) {
+          if (!current) break;
+          const result = await this.generateRecurringInvoice(current, runDate);
+          results.push(result);
+          if (result.error) break;
+          current = await serviceContainer.recurringInvoiceService.getSchedule(schedule.id);
+        }
+      }
+    } catch (error) {
+      console.error('DataManager: Error processing recurring schedules:', error);
+    }
+    return results;
+  }
+
+  // Numbering and persistence go through the regular invoice path so the
+  // business profile sequence advances exactly as for manual invoices.
+  // The run is claimed first so another tab or device can't generate and send it as well.
+  private async generateRecurringInvoice(schedule: RecurringInvoiceSchedule, runDate: string): Promise<RecurringRunResult> {
+    try {
+      const claimed = await serviceContainer.recurringInvoiceService.claimRun(schedule, runDate);
+      if (!claimed) {
+        return {
+          scheduleId: schedule.id,
+          runDate,
+          sent: false,
+          error: `The ${runDate} invoice for ${schedule.name} has already been generated`
+        };
+      }
+
+      let invoice: Invoice;
+      try {
+        const invoiceNumber = await this.getNextInvoiceNumber();
+        const invoiceData = serviceContainer.recurringInvoiceService.buildInvoiceFromSchedule(schedule, invoiceNumber, runDate);
+        invoice = await this.createInvoice(invoiceData);
+      } catch (error) {
+        await serviceContainer.recurringInvoiceService.releaseRun(schedule, claimed);
+        throw error;
+      }
+
+      let sent = false;
+      if (schedule.autoSend) {
+        sent = await serviceContainer.recurringInvoiceService.sendGeneratedInvoice(
+          invoice,
+          this.stateManager.getData().businessProfile
+        );
+        if (!sent) {
+          invoice = await this.updateInvoiceStatus(invoice.id, 'draft');
+        }
+      }
+
+      return { scheduleId: schedule.id, invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber, runDate, sent };
+    } catch (error) {
+      console.error('DataManager: Error generating recurring invoice:', error);
+      return {
+        scheduleId: schedule.id,
+        runDate,
+        sent: false,
+        error: error instanceof Error ? error.message : 'Failed to generate recurring invoice'
+      };
+    }
+  }
+
+  // Quote conversion: the invoice takes the next number from the business profile sequence
+  async convertQuoteToInvoice(quoteId: string): Promise<Invoice> {
+    const quote: Quote | null = await serviceContainer.quoteService.getQuote(quoteId);
+    if (!quote) {
+      throw new Error(`Quote with id ${quoteId} not found`);
+    }
+    if (!serviceContainer.quoteService.canConvert(quote)) {
+      throw new Error(quote.convertedInvoiceId
+        ? `Quote ${quote.quoteNumber} has already been converted to an invoice`
+        : `Quote ${quote.quoteNumber} was declined and cannot be converted`);
+    }
+
+    try {
+      const invoiceNumber = await this.getNextInvoiceNumber();
+      const invoice = await this.createInvoice(
+        serviceContainer.quoteService.buildInvoiceFromQuote(quote, invoiceNumber)
+      );
+      await serviceContainer.quoteService.markConverted(quote.id, invoice.id);
+      return invoice;
+    } catch (error) {
+      console.error('DataManager: Error converting quote to invoice:', error);
+      throw error;
+    }
+  }
+
   // Customer CRUD operations
   async createCustomer(customer: Omit<Customer, "id" | "createdAt" | "updatedAt">): Promise<Customer> {
     try {
@@ -711,6 +820,39 @@ class SOLIDDataManager implements IDataManager {
     }
   }
 
+  async createBatchPayment(request: CreateBatchPaymentRequest): Promise<BatchPaymentResult> {
+    try {
+      const result = await serviceContainer.paymentService.createBatchPayment(request);
+      const currentData = this.stateManager.getData();
+      const existingPayments = currentData.payments || [];
+      this.stateManager.updateData('payments', [result.payment, ...existingPayments]);
+      // Every allocated invoice has a new balance
+      await Promise.all([this.fetchInvoices(), this.fetchReceipts()]);
+      return result;
+    } catch (error) {
+      console.error('DataManager: Error creating batch payment:', error);
+      throw error;
+    }
+  }
+
+  async refundPayment(request: CreateRefundRequest): Promise<RefundResult> {
+    try {
+      const result = await serviceContainer.paymentService.refundPayment(request);
+      const currentData = this.stateManager.getData();
+      const existingPayments = currentData.payments || [];
+      this.stateManager.updateData(
+        'payments',
+        existingPayments.map(payment => payment.id === result.payment.id ? result.payment : payment)
+      );
+      // Refunds reopen invoice balances and add a refund receipt
+      await Promise.all([this.fetchInvoices(), this.fetchReceipts()]);
+      return result;
+    } catch (error) {
+      console.error('DataManager: Error refunding payment:', error);
+      throw error;
+    }
+  }
+
   async getInvoicesWithBalance(): Promise<EnhancedInvoice[]> {
     try {
       return await serviceContainer.paymentService.getInvoicesWithBalance();
@@ -7,6 +7,12 @@
 
 import { customerService, invoiceService, businessProfileService, itemService, itemCategoryService, accountService, expenseService, expenseCategoryService } from "@/services/supabaseService";
 import { paymentService } from "@/services/paymentService";
+import { recurringInvoiceService } from "@/services/recurringInvoiceService";
+import { quoteService } from "@/services/quoteService";
+import { BusinessProfile, Invoice } from "@/types";
+import { RecurringInvoiceSchedule } from "@/types/recurringInvoice";
+import { Quote } from "@/types/quote";
+import { BatchPaymentResult, CreateBatchPaymentRequest, CreateRefundRequest, RefundResult } from "@/types/payment";
 
 // Service interfaces for dependency inversion
 export interface ICustomerService {
@@ -37,6 +43,8 @@ export interface IPaymentService {
   getPayments(): Promise<any[]>;
   getReceipts(): Promise<any[]>;
   createPayment(payment: any): Promise<any>;
+  createBatchPayment(request: CreateBatchPaymentRequest): Promise<BatchPaymentResult>;
+  refundPayment(request: CreateRefundRequest): Promise<RefundResult>;
   getInvoicesWithBalance(): Promise<any[]>;
 }
 
@@ -76,6 +84,23 @@ export interface IExpenseCategoryService {
   getExpenseCategory(id: string): Promise<any>;
 }
 
+export interface IRecurringInvoiceService {
+  getSchedules(): Promise<RecurringInvoiceSchedule[]>;
+  getSchedule(id: string): Promise<RecurringInvoiceSchedule | null>;
+  getDueRunDates(schedule: RecurringInvoiceSchedule, asOf?: string): string[];
+  buildInvoiceFromSchedule(schedule: RecurringInvoiceSchedule, invoiceNumber: string, runDate: string): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>;
+  claimRun(schedule: RecurringInvoiceSchedule, runDate: string): Promise<RecurringInvoiceSchedule | null>;
+  releaseRun(schedule: RecurringInvoiceSchedule, claimed: RecurringInvoiceSchedule): Promise<void>;
+  sendGeneratedInvoice(invoice: Invoice, businessProfile?: BusinessProfile | null): Promise<boolean>;
+}
+
+export interface IQuoteService {
+  getQuote(id: string): Promise<Quote | null>;
+  canConvert(quote: Quote): boolean;
+  buildInvoiceFromQuote(quote: Quote, invoiceNumber: string, invoiceDate?: string, dueInDays?: number): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>;
+  markConverted(id: string, invoiceId: string): Promise<Quote>;
+}
+
 // Service container class
 class ServiceContainer {
   private static instance: ServiceContainer;
@@ -103,6 +128,8 @@ class ServiceContainer {
     this.register('expenseService', expenseService);
     this.register('expenseCategoryService', expenseCategoryService);
     this.register('paymentService', paymentService);
+    this.register('recurringInvoiceService', recurringInvoiceService);
+    this.register('quoteService', quoteService);
   }
 
   register<T>(name: string, service: T): void {
@@ -134,6 +161,14 @@ class ServiceContainer {
     return this.get<IPaymentService>('paymentService');
   }
 
+  get recurringInvoiceService(): IRecurringInvoiceService {
+    return this.get<IRecurringInvoiceService>('recurringInvoiceService');
+  }
+
+  get quoteService(): IQuoteService {
+    return this.get<IQuoteService>('quoteService');
+  }
+
   get itemService(): IItemService {
     return this.get<IItemService>('itemService');
   }
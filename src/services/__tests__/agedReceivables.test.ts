@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { financialReportsService, ReceivableInvoice, ReceivableSettlement } from '../financialReportsService';
+
+describe('Aged Receivables', () => {
+  const invoices: ReceivableInvoice[] = [
+    { id: 'inv-1', invoiceNumber: 'INV-1', customerId: 'c-1', customerName: 'Acme', date: '2024-03-01', dueDate: '2024-04-10', total: 1000 },
+    { id: 'inv-2', invoiceNumber: 'INV-2', customerId: 'c-1', customerName: 'Acme', date: '2024-05-01', dueDate: '2024-06-15', total: 400 },
+    { id: 'inv-3', invoiceNumber: 'INV-3', customerId: 'c-2', customerName: 'Kiwi, Ltd', date: '2024-06-01', dueDate: '2024-07-01', total: 200, exchangeRate: 1.5 },
+    { id: 'inv-4', invoiceNumber: 'INV-4', customerId: 'c-2', customerName: 'Kiwi, Ltd', date: '2024-07-10', dueDate: '2024-08-10', total: 50 },
+  ];
+
+  const settlements: ReceivableSettlement[] = [
+    { invoiceId: 'inv-1', amount: 600, date: '2024-04-10' },
+    { invoiceId: 'inv-1', amount: 400, date: '2024-07-05' },
+    { invoiceId: 'inv-2', amount: 100, date: '2024-06-01' },
+    { invoiceId: 'inv-2', amount: -50, date: '2024-06-20' },
+  ];
+
+  it('should rebuild balances from settlements dated on or before the as-of date', () => {
+    const report = financialReportsService.buildAgedReceivables(invoices, settlements, '2024-06-30');
+    const acme = report.customers.find(customer => customer.customerId === 'c-1');
+
+    expect(acme?.invoices.map(invoice => [invoice.invoiceNumber, invoice.balanceDue])).toEqual([
+      ['INV-1', 400],
+      ['INV-2', 350],
+    ]);
+    expect(acme?.aging).toMatchObject({ days1to30: 350, days61to90: 400, total: 750 });
+  });
+
+  it('should leave out invoices issued after the as-of date and those already settled', () => {
+    const report = financialReportsService.buildAgedReceivables(invoices, settlements, '2024-07-31');
+
+    expect(report.customers.flatMap(customer => customer.invoices.map(invoice => invoice.invoiceNumber)))
+      .toEqual(['INV-2', 'INV-3', 'INV-4']);
+    expect(financialReportsService.buildAgedReceivables(invoices, settlements, '2024-02-28').customers).toEqual([]);
+  });
+
+  it('should report foreign currency invoices in base currency', () => {
+    const report = financialReportsService.buildAgedReceivables(invoices, settlements, '2024-06-30');
+    const kiwi = report.customers.find(customer => customer.customerId === 'c-2');
+
+    expect(kiwi?.aging).toMatchObject({ current: 300, total: 300 });
+    expect(report.totals.total).toBe(1050);
+  });
+
+  it('should export customer and invoice rows to CSV', () => {
+    const report = financialReportsService.buildAgedReceivables(invoices, settlements, '2024-06-30');
+    const lines = financialReportsService.agedReceivablesToCsv(report).split('\n');
+
+    expect(lines[0]).toBe('Customer,Invoice,Invoice Date,Due Date,Current,1-30 days,31-60 days,61-90 days,90+ days,Total');
+    expect(lines).toContain('Acme,INV-2,2024-05-01,2024-06-15,0.00,350.00,0.00,0.00,0.00,350.00');
+    expect(lines).toContain('"Kiwi, Ltd",,,,300.00,0.00,0.00,0.00,0.00,300.00');
+    expect(lines[lines.length - 1]).toBe('Total,,,,300.00,350.00,0.00,400.00,0.00,1050.00');
+  });
+});
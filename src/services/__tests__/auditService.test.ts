@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { auditService } from '../auditService';
+import { AuditTrail } from '../../types/payment';
+
+describe('Audit trail', () => {
+  const entry = (overrides: Partial<AuditTrail>): AuditTrail => ({
+    id: 'log-1',
+    userId: 'user-1',
+    actorEmail: 'owner@example.com',
+    action: 'update',
+    entityType: 'invoice',
+    entityId: 'inv-1',
+    entityLabel: 'INV-0042',
+    timestamp: '2024-05-01T09:30:00.000Z',
+    ...overrides
+  });
+
+  const totalChange = entry({
+    oldData: { total: 100, subtotal: 86.96, updated_at: '2024-04-01' },
+    newData: { total: 115, subtotal: 100, updated_at: '2024-05-01' }
+  });
+
+  it('should list changed fields with before and after values, ignoring bookkeeping columns', () => {
+    expect(auditService.getAuditChanges(totalChange)).toEqual([
+      { field: 'subtotal', before: 86.96, after: 100 },
+      { field: 'total', before: 100, after: 115 },
+    ]);
+    expect(auditService.describeAuditEntry(totalChange)).toBe('2 fields updated');
+
+    const statusChange = entry({ action: 'status_change', oldData: { status: 'draft', notes: null }, newData: { status: 'sent', notes: 'Thanks' } });
+    expect(auditService.getAuditChanges(statusChange).map(change => change.field)).toEqual(['status', 'notes']);
+    expect(auditService.describeAuditEntry(statusChange)).toBe('Status changed from draft to sent');
+  });
+
+  it('should describe activity entries without listing fields', () => {
+    const created = entry({ action: 'create', newData: { total: 100 } });
+    expect(auditService.getAuditChanges(created)).toEqual([]);
+    expect(auditService.describeAuditEntry(created)).toBe('Invoice created');
+    expect(auditService.describeAuditEntry(entry({ action: 'payment', newData: { amount: 57.5, payment_method: 'bank_transfer' } })))
+      .toBe('Payment of 57.50 recorded by bank transfer');
+    expect(auditService.describeAuditEntry(entry({ action: 'reminder', newData: { reminder_type: 'final', sent_to: 'ap@client.co.nz' } })))
+      .toBe('Final reminder sent to ap@client.co.nz');
+    expect(auditService.describeAuditEntry(entry({ action: 'share', oldData: { is_active: true }, newData: { is_active: false } })))
+      .toBe('Share link revoked');
+
+    const view = entry({ action: 'view', actorEmail: null, newData: { share_token: 'abc' } });
+    expect(auditService.describeAuditEntry(view)).toBe('Viewed through share link');
+    expect(auditService.getActorLabel(view)).toBe('Customer');
+  });
+
+  it('should search by record, user and changed values', () => {
+    const customerRename = entry({
+      id: 'log-2',
+      entityType: 'customer',
+      entityLabel: 'Acme Ltd',
+      actorEmail: 'bookkeeper@example.com',
+      oldData: { name: 'Acme' },
+      newData: { name: 'Acme Ltd' }
+    });
+    const entries = [totalChange, customerRename];
+
+    expect(auditService.filterAuditEntries(entries, 'total')).toEqual([totalChange]);
+    expect(auditService.filterAuditEntries(entries, '115')).toEqual([totalChange]);
+    expect(auditService.filterAuditEntries(entries, 'BOOKKEEPER')).toEqual([customerRename]);
+    expect(auditService.filterAuditEntries(entries, '  ')).toEqual(entries);
+  });
+});
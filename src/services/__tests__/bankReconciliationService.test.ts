@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { bankReconciliationService } from '../bankReconciliationService';
+import { BankTransaction } from '../../types/bankTransaction';
+import { ReconciliationCandidate } from '../../types/bankReconciliation';
+
+describe('Bank Reconciliation Service', () => {
+  const transaction = (overrides: Partial<BankTransaction> = {}): BankTransaction => ({
+    id: 'txn-1',
+    bankAccountId: 'bank-1',
+    transactionDate: '2024-03-10',
+    description: 'ACME LTD INV-0042',
+    amount: 1150,
+    type: 'credit',
+    isReconciled: false,
+    ...overrides
+  });
+
+  const payment = (overrides: Partial<ReconciliationCandidate> = {}): ReconciliationCandidate => ({
+    id: 'pay-1',
+    matchType: 'payment',
+    date: '2024-03-09',
+    amount: 1150,
+    description: 'Acme Ltd - INV-0042',
+    reference: 'INV-0042',
+    ...overrides
+  });
+
+  describe('suggestMatches', () => {
+    it('should rank an exact amount with a matching reference first', () => {
+      const suggestions = bankReconciliationService.suggestMatches(transaction(), [
+        payment({ id: 'pay-other', reference: 'INV-0099', description: 'Other Co - INV-0099', date: '2024-03-12' }),
+        payment()
+      ]);
+
+      expect(suggestions[0].candidates.map(candidate => candidate.id)).toEqual(['pay-1']);
+      expect(suggestions[0].confidence).toBe('high');
+      expect(suggestions[0].reasons).toContain('Reference matches');
+      expect(suggestions[1].score).toBeLessThan(suggestions[0].score);
+    });
+
+    it('should ignore records outside the date window or of the wrong type', () => {
+      const suggestions = bankReconciliationService.suggestMatches(transaction(), [
+        payment({ date: '2024-02-01' }),
+        payment({ id: 'exp-1', matchType: 'expense' })
+      ]);
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it('should suggest several payments that add up to one deposit', () => {
+      const suggestions = bankReconciliationService.suggestMatches(transaction({ amount: 1500 }), [
+        payment({ id: 'pay-a', amount: 1000 }),
+        payment({ id: 'pay-b', amount: 500, date: '2024-03-08' }),
+        payment({ id: 'pay-c', amount: 250 })
+      ]);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0].candidates.map(candidate => candidate.id)).toEqual(['pay-a', 'pay-b']);
+      expect(suggestions[0].reasons[0]).toBe('2 records add up to the amount');
+    });
+  });
+
+  describe('referenceSimilarity', () => {
+    it('should find the reference anywhere in the bank text regardless of punctuation', () => {
+      expect(bankReconciliationService.referenceSimilarity(
+        transaction({ description: 'DIRECT CREDIT', reference: 'inv 0042' }),
+        payment()
+      )).toBe(1);
+    });
+
+    it('should return 0 when nothing lines up', () => {
+      expect(bankReconciliationService.referenceSimilarity(
+        transaction({ description: 'SALARY' }),
+        payment({ description: 'Acme Ltd', reference: 'INV-0042' })
+      )).toBe(0);
+    });
+  });
+
+  describe('validateMatch', () => {
+    it('should accept records totalling the transaction amount', () => {
+      expect(() => bankReconciliationService.validateMatch(transaction(), [
+        payment({ amount: 1000 }),
+        payment({ id: 'pay-2', amount: 150 })
+      ])).not.toThrow();
+    });
+
+    it('should reject a total that does not match', () => {
+      expect(() => bankReconciliationService.validateMatch(transaction(), [payment({ amount: 1000 })]))
+        .toThrow('Matched records total 1000.00 but the transaction is 1150.00');
+    });
+
+    it('should only match money spent to expenses', () => {
+      expect(() => bankReconciliationService.validateMatch(transaction({ type: 'debit' }), [payment()]))
+        .toThrow('Money spent can only be matched to expenses');
+    });
+
+    it('should reject transactions that are already reconciled', () => {
+      expect(() => bankReconciliationService.validateMatch(transaction({ isReconciled: true }), [payment()]))
+        .toThrow('already reconciled');
+    });
+  });
+
+  describe('calculateReconciliationSummary', () => {
+    const transactions = [
+      transaction({ id: 't1', amount: 1000, type: 'credit', isReconciled: true, balance: 1500, transactionDate: '2024-03-01' }),
+      transaction({ id: 't2', amount: 200, type: 'debit', isReconciled: false, balance: 1300, transactionDate: '2024-03-05' })
+    ];
+
+    it('should compare the latest statement balance with the reconciled ledger balance', () => {
+      expect(bankReconciliationService.calculateReconciliationSummary({ openingBalance: 500 }, transactions)).toEqual({
+        statementBalance: 1300,
+        ledgerBalance: 1500,
+        difference: -200,
+        reconciledCount: 1,
+        unreconciledCount: 1
+      });
+    });
+
+    it('should prefer an entered statement balance', () => {
+      const summary = bankReconciliationService.calculateReconciliationSummary(
+        { openingBalance: 500, statementBalance: 1500 },
+        transactions
+      );
+
+      expect(summary.difference).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { bankRuleService } from '../bankRuleService';
+import { BankRule } from '../../types/bankRule';
+import { ImportedTransaction } from '../../types/bankTransaction';
+
+describe('Bank Rule Service', () => {
+  const rule = (overrides: Partial<BankRule> = {}): BankRule => ({
+    id: 'rule-1',
+    name: 'Power',
+    priority: 10,
+    isActive: true,
+    conditions: { descriptionOperator: 'contains', descriptionValue: 'meridian' },
+    actions: { expenseCategoryId: 'cat-utilities', taxCode: 'GST15' },
+    ...overrides
+  });
+
+  const transaction = (overrides: Partial<ImportedTransaction> = {}): ImportedTransaction => ({
+    date: '2024-03-01',
+    description: 'MERIDIAN ENERGY DD',
+    amount: 230,
+    type: 'debit',
+    ...overrides
+  });
+
+  describe('matchesRule', () => {
+    it('should match description text case-insensitively', () => {
+      expect(bankRuleService.matchesRule(rule(), transaction())).toBe(true);
+      expect(bankRuleService.matchesRule(rule(), transaction({ description: 'CONTACT ENERGY' }))).toBe(false);
+    });
+
+    it('should support regular expressions', () => {
+      const regexRule = rule({ conditions: { descriptionOperator: 'regex', descriptionValue: '^(meridian|contact) energy' } });
+
+      expect(bankRuleService.matchesRule(regexRule, transaction({ description: 'Contact Energy 1234' }))).toBe(true);
+      expect(bankRuleService.matchesRule(regexRule, transaction({ description: 'PAYMENT TO CONTACT ENERGY' }))).toBe(false);
+    });
+
+    it('should require every set condition to match', () => {
+      const strictRule = rule({
+        conditions: {
+          descriptionOperator: 'contains',
+          descriptionValue: 'meridian',
+          amountMin: 100,
+          amountMax: 300,
+          transactionType: 'debit',
+          bankAccountId: 'bank-1'
+        }
+      });
+
+      expect(bankRuleService.matchesRule(strictRule, { ...transaction(), bankAccountId: 'bank-1' })).toBe(true);
+      expect(bankRuleService.matchesRule(strictRule, { ...transaction(), bankAccountId: 'bank-2' })).toBe(false);
+      expect(bankRuleService.matchesRule(strictRule, { ...transaction({ amount: 350 }), bankAccountId: 'bank-1' })).toBe(false);
+      expect(bankRuleService.matchesRule(strictRule, { ...transaction({ type: 'credit' }), bankAccountId: 'bank-1' })).toBe(false);
+    });
+  });
+
+  describe('applyRules', () => {
+    it('should apply the first active rule in priority order', () => {
+      const rules = [
+        rule({ id: 'late', priority: 20, actions: { merchant: 'Late rule' } }),
+        rule({ id: 'inactive', priority: 1, isActive: false, actions: { merchant: 'Inactive rule' } }),
+        rule({ id: 'early', priority: 5, actions: { merchant: 'Meridian Energy', taxCode: 'GST15' } })
+      ];
+
+      const [result] = bankRuleService.applyRules([transaction()], rules, 'bank-1');
+
+      expect(result.bankRuleId).toBe('early');
+      expect(result.merchant).toBe('Meridian Energy');
+      expect(result.taxCode).toBe('GST15');
+    });
+
+    it('should leave unmatched transactions untouched', () => {
+      const unmatched = transaction({ description: 'SALARY' });
+
+      expect(bankRuleService.applyRules([unmatched], [rule()], 'bank-1')).toEqual([unmatched]);
+    });
+  });
+
+  describe('testRule', () => {
+    it('should report matches already claimed by a higher-priority rule', () => {
+      const past = [
+        { id: 't1', ...transaction() },
+        { id: 't2', ...transaction({ description: 'MERIDIAN ENERGY REFUND', type: 'credit' as const }) },
+        { id: 't3', ...transaction({ description: 'SALARY' }) }
+      ];
+      const existing = [rule({ id: 'refunds', priority: 1, conditions: { transactionType: 'credit' } })];
+
+      const result = bankRuleService.testRule(rule({ id: 'draft', priority: 10 }), past, existing);
+
+      expect(result.matched.map(t => t.id)).toEqual(['t1', 't2']);
+      expect(result.shadowed.map(t => t.id)).toEqual(['t2']);
+    });
+  });
+
+  describe('validateRule', () => {
+    it('should require at least one condition', () => {
+      expect(() => bankRuleService.validateRule(rule({ conditions: {} }))).toThrow('Add at least one condition');
+    });
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => bankRuleService.validateRule(rule({ conditions: { descriptionOperator: 'regex', descriptionValue: '(' } })))
+        .toThrow('not a valid regular expression');
+    });
+
+    it('should only auto-create expenses for money spent', () => {
+      expect(() => bankRuleService.validateRule(rule({ actions: { autoCreateExpense: true } })))
+        .toThrow('Auto-create expense requires the rule to match money spent only');
+    });
+  });
+
+  describe('calculateIncludedGST', () => {
+    it('should extract GST from standard-rated amounts only', () => {
+      expect(bankRuleService.calculateIncludedGST(230, 'GST15')).toBe(30);
+      expect(bankRuleService.calculateIncludedGST(230, 'EXEMPT')).toBe(0);
+    });
+  });
+});
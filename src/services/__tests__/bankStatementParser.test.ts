@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectStatementFormat,
+  parseCAMT053Transactions,
+  parseOFXTransactions
+} from '../bankStatementParser';
+
+describe('Bank Statement Parser', () => {
+  const sgmlOFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+ENCODING:USASCII
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>NZD
+<BANKACCTFROM>
+<BANKID>12
+<ACCTID>12-3456-0123456-00
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[+12:NZST]
+<TRNAMT>-4.50
+<FITID>202401150001
+<NAME>COFFEE CULTURE
+<MEMO>EFTPOS 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240116
+<TRNAMT>2500.00
+<FITID>202401160001
+<NAME>ACME LTD
+<MEMO>INV-0042
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>3495.50
+<DTASOF>20240131
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+  const xmlOFX = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>NZD</CURDEF>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240201</DTPOSTED><TRNAMT>-120.00</TRNAMT><FITID>X-1</FITID><NAME>Smith &amp; Co</NAME></STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+  const camt053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><Othr><Id>123456789</Id></Othr></Id><Ccy>NZD</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="NZD">880.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-03-31</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <NtryRef>E1</NtryRef>
+        <Amt Ccy="NZD">1150.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-03-10</Dt></BookgDt>
+        <AcctSvcrRef>BANK-REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>INV-0042</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Acme Ltd</Nm></Dbtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>E2</NtryRef>
+        <Amt Ccy="NZD">270.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2024-03-12T09:30:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Cdtr><Nm>Power Co</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>ACC 998877</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>E3</NtryRef>
+        <Amt Ccy="NZD">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-03-13</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+  describe('detectStatementFormat', () => {
+    it('should recognise each format from its contents', () => {
+      expect(detectStatementFormat(sgmlOFX, 'statement.txt')).toBe('ofx');
+      expect(detectStatementFormat(xmlOFX, 'statement.qfx')).toBe('qfx');
+      expect(detectStatementFormat(camt053, 'statement.xml')).toBe('camt053');
+      expect(detectStatementFormat('Date,Amount\n2024-01-01,5', 'export.csv')).toBe('csv');
+    });
+  });
+
+  describe('parseOFXTransactions', () => {
+    it('should parse SGML statements without closing tags', () => {
+      const result = parseOFXTransactions(sgmlOFX);
+
+      expect(result.success).toBe(true);
+      expect(result.transactions).toEqual([
+        {
+          date: '2024-01-15',
+          description: 'COFFEE CULTURE',
+          reference: 'EFTPOS 1234',
+          externalId: '202401150001',
+          amount: 4.5,
+          type: 'debit',
+          merchant: 'COFFEE CULTURE'
+        },
+        {
+          date: '2024-01-16',
+          description: 'ACME LTD',
+          reference: 'INV-0042',
+          externalId: '202401160001',
+          amount: 2500,
+          type: 'credit',
+          merchant: 'ACME LTD'
+        }
+      ]);
+      expect(result.accountNumber).toBe('12-3456-0123456-00');
+      expect(result.currency).toBe('NZD');
+      expect(result.closingBalance).toBe(3495.5);
+      expect(result.closingBalanceDate).toBe('2024-01-31');
+    });
+
+    it('should parse XML statements and decode entities', () => {
+      const result = parseOFXTransactions(xmlOFX);
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        date: '2024-02-01',
+        description: 'Smith & Co',
+        externalId: 'X-1',
+        amount: 120,
+        type: 'debit'
+      });
+    });
+
+    it('should report transactions with missing amounts', () => {
+      const result = parseOFXTransactions(sgmlOFX.replace('<TRNAMT>-4.50\n', ''));
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.errors).toEqual(['Transaction 1 (202401150001): missing or invalid date or amount']);
+    });
+
+    it('should reject files that are not OFX', () => {
+      expect(parseOFXTransactions('Date,Amount').success).toBe(false);
+    });
+  });
+
+  describe('parseCAMT053Transactions', () => {
+    it('should parse booked entries with counterparty and references', () => {
+      const result = parseCAMT053Transactions(camt053);
+
+      expect(result.success).toBe(true);
+      expect(result.transactions).toEqual([
+        {
+          date: '2024-03-10',
+          description: 'Acme Ltd',
+          reference: 'INV-0042',
+          externalId: 'BANK-REF-1',
+          amount: 1150,
+          type: 'credit',
+          merchant: 'Acme Ltd'
+        },
+        {
+          date: '2024-03-12',
+          description: 'Power Co',
+          reference: 'ACC 998877',
+          externalId: 'E2',
+          amount: 270,
+          type: 'debit',
+          merchant: 'Power Co'
+        }
+      ]);
+    });
+
+    it('should read the account and closing balance', () => {
+      const result = parseCAMT053Transactions(camt053);
+
+      expect(result.accountNumber).toBe('123456789');
+      expect(result.currency).toBe('NZD');
+      expect(result.closingBalance).toBe(880);
+      expect(result.closingBalanceDate).toBe('2024-03-31');
+    });
+  });
+});
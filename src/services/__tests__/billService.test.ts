@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { billService } from '../billService';
+import { BillItem } from '../../types/bill';
+import { ReceiptScanResult } from '../../types/receipt';
+
+describe('Supplier Bills', () => {
+  const accounts = [
+    { id: 'ap', account_number: '2100' },
+    { id: 'gst', account_number: '1300' },
+    { id: 'purchases', account_number: '5000' },
+    { id: 'bank', account_number: '1110' },
+    { id: 'card', account_number: '2300' },
+  ];
+
+  const items: BillItem[] = [
+    { description: 'Stock', quantity: 2, rate: 100, total: 200, taxCode: 'GST15' },
+    { description: 'Power', quantity: 1, rate: 80, total: 80, taxCode: 'GST15', accountId: 'utilities' },
+    { description: 'Stamps', quantity: 1, rate: 20, total: 20, taxCode: 'NOTAX', accountId: 'utilities' },
+  ];
+
+  it('should only charge GST on standard-rated lines', () => {
+    expect(billService.calculateBillTotals(items)).toEqual({ subtotal: 300, taxAmount: 42, total: 342 });
+  });
+
+  it('should debit expense accounts and GST paid and credit accounts payable', () => {
+    const lines = billService.buildBillJournalLines({ supplierName: 'Acme', items, taxAmount: 42, total: 342 }, accounts);
+
+    expect(lines?.map(line => [line.account_id, line.debit_amount, line.credit_amount])).toEqual([
+      ['purchases', 200, 0],
+      ['utilities', 100, 0],
+      ['gst', 42, 0],
+      ['ap', 0, 342],
+    ]);
+    expect(billService.buildBillJournalLines(
+      { supplierName: 'Acme', items, taxAmount: 42, total: 342 },
+      accounts.filter(account => account.account_number !== '2100')
+    )).toBeNull();
+  });
+
+  it('should credit the credit card liability when a bill is paid by card', () => {
+    const byBank = billService.buildBillPaymentJournalLines(150, 'checking', 'Payment', accounts);
+    const byCard = billService.buildBillPaymentJournalLines(150, 'credit_card', 'Payment', accounts);
+
+    expect(byBank?.map(line => [line.account_id, line.debit_amount, line.credit_amount])).toEqual([['ap', 150, 0], ['bank', 0, 150]]);
+    expect(byCard?.[1].account_id).toBe('card');
+  });
+
+  it('should allow partial payments up to the balance owing', () => {
+    const bill = { status: 'partially_paid' as const, balanceDue: 100 };
+
+    expect(() => billService.validateBillPayment(bill, { amount: 60, paymentDate: '2024-05-01' })).not.toThrow();
+    expect(() => billService.validateBillPayment(bill, { amount: 100.01, paymentDate: '2024-05-01' })).toThrow('exceeds');
+    expect(() => billService.validateBillPayment({ status: 'void', balanceDue: 0 }, { amount: 10, paymentDate: '2024-05-01' }))
+      .toThrow('Void bills cannot be paid');
+    expect(billService.getBillStatus(342, 100)).toBe('partially_paid');
+    expect(billService.getBillStatus(342, 342)).toBe('paid');
+  });
+
+  it('should build a bill from a scanned receipt with GST-inclusive line prices', () => {
+    const scan: ReceiptScanResult = {
+      merchantName: 'Office Co',
+      date: '2024-05-10',
+      total: 115,
+      tax: 15,
+      subtotal: null,
+      items: [{ description: 'Paper', quantity: 2, price: 57.5 }],
+      paymentMethod: 'card',
+      suggestedCategory: null,
+      confidence: 0.9,
+      notes: null,
+    };
+
+    const bill = billService.buildBillFromScan(scan, 'https://example.com/receipt.png');
+
+    expect(bill).toMatchObject({ supplierName: 'Office Co', billDate: '2024-05-10', dueDate: '2024-06-09' });
+    expect(bill.items).toEqual([{ description: 'Paper', quantity: 2, rate: 50, total: 100, taxCode: 'GST15' }]);
+    expect(billService.calculateBillTotals(bill.items).total).toBe(115);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { budgetService } from '../budgetService';
+import { LedgerAccount, LedgerEntry } from '../financialReportsService';
+import { Budget, BudgetTarget } from '../../types/budget';
+
+const accounts: LedgerAccount[] = [
+  { id: 'bank', accountNumber: '1110', name: 'Bank', accountClass: 'Asset', parentAccountId: null, type: 'bank' },
+  { id: 'sales', accountNumber: '4000', name: 'Sales Revenue', accountClass: 'Revenue', parentAccountId: null, type: 'custom' },
+  { id: 'wages', accountNumber: '6950', name: 'Wages & Salaries', accountClass: 'Expense', parentAccountId: null, type: 'custom' },
+  { id: 'kiwisaver', accountNumber: '6960', name: 'KiwiSaver', accountClass: 'Expense', parentAccountId: 'wages', type: 'custom' },
+  { id: 'office', accountNumber: '6600', name: 'Office Supplies', accountClass: 'Expense', parentAccountId: null, type: 'custom' },
+  { id: 'gst', accountNumber: '1300', name: 'GST Paid', accountClass: 'Asset', parentAccountId: null, type: 'custom' }
+];
+
+const targets: BudgetTarget[] = budgetService.buildTargets(accounts, [{ id: 'stationery', name: 'Stationery' }]);
+
+const budget = (targetType: Budget['targetType'], targetId: string, periodMonth: string, amount: number): Budget => ({
+  id: `${targetId}-${periodMonth}`,
+  targetType,
+  targetId,
+  periodMonth,
+  amount,
+  userId: 'user-1',
+  createdAt: '2025-04-01T00:00:00Z',
+  updatedAt: '2025-04-01T00:00:00Z'
+});
+
+describe('Budgets', () => {
+  it('should compare budgets with posted actuals per month, rolling sub-accounts into their parent', () => {
+    const entries: LedgerEntry[] = [
+      { id: 'je-1', entryDate: '2025-04-10', lines: [{ accountId: 'bank', debit: 1200, credit: 0 }, { accountId: 'sales', debit: 0, credit: 1200 }] },
+      { id: 'je-2', entryDate: '2025-04-20', lines: [{ accountId: 'wages', debit: 800, credit: 0 }, { accountId: 'kiwisaver', debit: 24, credit: 0 }, { accountId: 'bank', debit: 0, credit: 824 }] },
+      { id: 'je-3', entryDate: '2025-05-05', lines: [{ accountId: 'bank', debit: 700, credit: 0 }, { accountId: 'sales', debit: 0, credit: 700 }] },
+      {
+        id: 'je-4',
+        entryDate: '2025-05-12',
+        referenceType: 'expense',
+        referenceId: 'expense-1',
+        lines: [{ accountId: 'office', debit: 100, credit: 0 }, { accountId: 'gst', debit: 15, credit: 0 }, { accountId: 'bank', debit: 0, credit: 115 }]
+      },
+      // Closing entries aren't activity for the month
+      { id: 'je-close', entryDate: '2025-05-31', closing: true, lines: [{ accountId: 'sales', debit: 1900, credit: 0 }] }
+    ];
+
+    const report = budgetService.buildBudgetVsActual(
+      targets,
+      [
+        budget('account', 'sales', '2025-04-01', 1000),
+        budget('account', 'sales', '2025-05-01', 1000),
+        budget('account', 'wages', '2025-04-01', 800),
+        budget('category', 'stationery', '2025-05-01', 80)
+      ],
+      accounts,
+      entries,
+      new Map([['expense-1', 'stationery']]),
+      budgetService.getMonths('2025-04-01', '2025-05-01')
+    );
+
+    expect(report.months).toEqual(['2025-04-01', '2025-05-01']);
+    expect(report.lines.map(line => line.target.id)).toEqual(['sales', 'wages', 'stationery']);
+
+    const [sales, wages, stationery] = report.lines;
+    expect(sales.periods.map(period => [period.budget, period.actual, period.variance, period.variancePercent])).toEqual([
+      [1000, 1200, 200, 20],
+      [1000, 700, -300, -30]
+    ]);
+    expect(sales.total).toMatchObject({ budget: 2000, actual: 1900, variance: -100, variancePercent: -5 });
+    expect(sales.overBudget).toBe(false);
+
+    expect(wages.periods[0]).toMatchObject({ budget: 800, actual: 824, variance: 24, variancePercent: 3 });
+    expect(wages.periods[1]).toMatchObject({ budget: 0, actual: 0, variancePercent: null });
+    expect(wages.overBudget).toBe(true);
+
+    // GST and the bank side of the expense aren't spending
+    expect(stationery.total).toMatchObject({ budget: 80, actual: 100, variance: 20, variancePercent: 25 });
+    expect(stationery.overBudget).toBe(true);
+  });
+
+  it('should import a budget grid from CSV by account number, name or category', () => {
+    const months = budgetService.getMonths('2025-04-01', '2026-03-01');
+    const csv = [
+      'Account,Apr,May,2026-03,Notes',
+      '4000,"1,000.00",$1200,,',
+      'Stationery,80,-5,90,',
+      'Travel,100,100,100,'
+    ].join('\n');
+
+    const result = budgetService.parseBudgetCsv(csv, targets, months);
+
+    expect(result.cells).toEqual([
+      { targetType: 'account', targetId: 'sales', periodMonth: '2025-04-01', amount: 1000 },
+      { targetType: 'account', targetId: 'sales', periodMonth: '2025-05-01', amount: 1200 },
+      { targetType: 'category', targetId: 'stationery', periodMonth: '2025-04-01', amount: 80 },
+      { targetType: 'category', targetId: 'stationery', periodMonth: '2026-03-01', amount: 90 }
+    ]);
+    expect(result.unmatchedNames).toEqual(['Travel']);
+    expect(result.errors).toEqual(['Line 3: "-5" isn\'t a budget amount']);
+  });
+});
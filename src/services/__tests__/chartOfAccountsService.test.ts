@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { chartOfAccountsService } from '../chartOfAccountsService';
+import { financialReportsService, LedgerAccount, LedgerEntry } from '../financialReportsService';
+import { AccountTemplate, EnhancedAccount } from '../../types/payment';
+
+const template = (accountNumber: string, name: string, parentAccountNumber?: string): AccountTemplate => ({
+  id: accountNumber,
+  templatePack: 'nz_sole_trader',
+  name,
+  accountNumber,
+  parentAccountNumber,
+  accountClass: 'Asset',
+  accountType: 'bank',
+  normalBalance: 'debit',
+  isSystem: true,
+  countryCode: 'NZ',
+  createdAt: '2025-07-01T00:00:00Z'
+});
+
+const account = (id: string, accountNumber: string, name: string, overrides: Partial<EnhancedAccount> = {}): EnhancedAccount => ({
+  id,
+  name,
+  accountNumber,
+  accountClass: 'Asset',
+  type: 'custom',
+  currency: 'NZD',
+  openingBalance: 0,
+  currentBalance: 0,
+  isActive: true,
+  ...overrides
+});
+
+describe('Chart of accounts', () => {
+  it('should install parents before children and skip account numbers already in the chart', () => {
+    const templates = [
+      template('1110', 'Business Bank Account', '1100'),
+      template('1505', 'Accumulated Depreciation', '1500'),
+      template('1100', 'Bank & Cash'),
+      template('1500', 'Equipment'),
+      template('1120', 'Cash on Hand', '1100')
+    ];
+
+    expect(chartOfAccountsService.buildInstallPlan(templates, []).map(t => t.accountNumber))
+      .toEqual(['1100', '1500', '1110', '1120', '1505']);
+    expect(chartOfAccountsService.buildInstallPlan(templates, ['1100', '1110']).map(t => t.accountNumber))
+      .toEqual(['1120', '1500', '1505']);
+  });
+
+  it('should nest accounts under their parents in account number order', () => {
+    const tree = chartOfAccountsService.buildAccountTree([
+      account('cash', '1120', 'Cash', { parentAccountId: 'bank-cash' }),
+      account('equipment', '1500', 'Equipment'),
+      account('bank', '1110', 'Bank', { parentAccountId: 'bank-cash' }),
+      account('bank-cash', '1100', 'Bank & Cash'),
+      account('orphan', '1600', 'Orphan', { parentAccountId: 'missing' })
+    ]);
+
+    expect(tree.map(node => node.id)).toEqual(['bank-cash', 'equipment', 'orphan']);
+    expect(tree[0].childAccounts?.map(node => node.id)).toEqual(['bank', 'cash']);
+  });
+
+  it('should only merge into an active account of the same class', () => {
+    const bank = account('bank', '1110', 'Bank');
+    const savings = account('savings', '1115', 'Savings');
+
+    expect(chartOfAccountsService.validateMerge(savings, bank)).toBeNull();
+    expect(chartOfAccountsService.validateMerge(savings, savings)).toBe('Choose a different account to merge into');
+    expect(chartOfAccountsService.validateMerge(savings, { ...bank, isActive: false }))
+      .toBe('Bank is inactive; reactivate it before merging into it');
+    expect(chartOfAccountsService.validateMerge(savings, account('loan', '2400', 'Loan', { accountClass: 'Liability' })))
+      .toBe('Only accounts of the same class can be merged (Asset into Liability)');
+  });
+
+  it('should not merge an account into any of its sub-accounts', () => {
+    const bankCash = account('bank-cash', '1100', 'Bank & Cash');
+    const bank = account('bank', '1110', 'Bank', { parentAccountId: 'bank-cash' });
+    const savings = account('savings', '1115', 'Savings', { parentAccountId: 'bank' });
+    const chart = [bankCash, bank, savings];
+
+    expect(chartOfAccountsService.validateMerge(bankCash, savings, chart))
+      .toBe('Move Savings out from under Bank & Cash before merging into it');
+    expect(chartOfAccountsService.validateMerge(bankCash, bank, chart))
+      .toBe('Move Bank out from under Bank & Cash before merging into it');
+    expect(chartOfAccountsService.validateMerge(savings, bankCash, chart)).toBeNull();
+  });
+
+  it('should report lines posted to a merged account under the account it was merged into', () => {
+    const accounts: LedgerAccount[] = [
+      { id: 'bank', accountNumber: '1110', name: 'Bank', accountClass: 'Asset', parentAccountId: null, type: 'bank' },
+      { id: 'savings', accountNumber: '1115', name: 'Savings', accountClass: 'Asset', parentAccountId: null, type: 'bank', mergedIntoAccountId: 'bank' },
+      { id: 'sales', accountNumber: '4000', name: 'Sales', accountClass: 'Revenue', parentAccountId: null, type: 'custom' }
+    ];
+    const entries: LedgerEntry[] = [
+      { id: 'je-1', entryDate: '2024-05-01', lines: [{ accountId: 'savings', debit: 300, credit: 0 }, { accountId: 'sales', debit: 0, credit: 300 }] },
+      { id: 'je-2', entryDate: '2024-05-02', lines: [{ accountId: 'bank', debit: 200, credit: 0 }, { accountId: 'sales', debit: 0, credit: 200 }] }
+    ];
+
+    const merged = financialReportsService.applyAccountMerges(accounts, entries);
+    const trialBalance = financialReportsService.buildTrialBalance(merged.accounts, merged.entries, '2024-05-31');
+
+    expect(merged.accounts.map(a => a.id)).toEqual(['bank', 'sales']);
+    expect(trialBalance.accounts.find(line => line.accountName === '1110 Bank')?.debitBalance).toBe(500);
+    // The original lines are untouched
+    expect(entries[0].lines[0].accountId).toBe('savings');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { creditNoteService } from '../creditNoteService';
+import { CreateCreditNoteRequest } from '../../types/creditNote';
+import { Invoice } from '../../types';
+
+describe('Credit Note Service', () => {
+  const invoice = {
+    id: 'invoice-1',
+    invoiceNumber: 'INV-0001',
+    customerId: 'customer-1',
+    date: '2024-03-01',
+    dueDate: '2024-03-20',
+    items: [
+      { id: 'line-1', description: 'Website design', quantity: 1, unit: 'each', rate: 800, tax: 15, total: 800 },
+      { id: 'line-2', description: 'Hosting', quantity: 4, unit: 'month', rate: 50, tax: 15, total: 200 }
+    ],
+    subtotal: 1000,
+    taxAmount: 150,
+    total: 1150,
+    status: 'sent',
+    currency: 'NZD'
+  } as Invoice;
+
+  const request = (overrides: Partial<CreateCreditNoteRequest> = {}): CreateCreditNoteRequest => ({
+    invoice,
+    items: creditNoteService.buildFullCreditItems(invoice),
+    reason: 'Hosting cancelled',
+    date: '2024-03-10',
+    applyToInvoice: true,
+    ...overrides
+  });
+
+  describe('calculateCreditNoteTotals', () => {
+    it('should credit GST at the invoice rate for a full reversal', () => {
+      const totals = creditNoteService.calculateCreditNoteTotals(
+        creditNoteService.buildFullCreditItems(invoice),
+        invoice
+      );
+
+      expect(totals).toEqual({ subtotal: 1000, taxAmount: 150, total: 1150 });
+    });
+
+    it('should keep GST proportional for a partial credit', () => {
+      const items = creditNoteService.buildFullCreditItems(invoice)
+        .filter(item => item.lineItemId === 'line-2')
+        .map(item => ({ ...item, quantity: 2, total: 100 }));
+
+      const totals = creditNoteService.calculateCreditNoteTotals(items, invoice);
+
+      expect(totals).toEqual({ subtotal: 100, taxAmount: 15, total: 115 });
+    });
+  });
+
+  describe('validateCreditNote', () => {
+    it('should accept a full credit of an issued invoice', () => {
+      expect(() => creditNoteService.validateCreditNote(request())).not.toThrow();
+    });
+
+    it('should reject draft invoices', () => {
+      expect(() => creditNoteService.validateCreditNote(request({
+        invoice: { ...invoice, status: 'draft' }
+      }))).toThrow('Draft invoices');
+    });
+
+    it('should require a reason', () => {
+      expect(() => creditNoteService.validateCreditNote(request({ reason: '  ' })))
+        .toThrow('A reason for the credit is required');
+    });
+
+    it('should not credit more than the invoiced quantity', () => {
+      const items = creditNoteService.buildFullCreditItems(invoice)
+        .map(item => item.lineItemId === 'line-2' ? { ...item, quantity: 5 } : item);
+
+      expect(() => creditNoteService.validateCreditNote(request({ items })))
+        .toThrow('Cannot credit more than the invoiced quantity for "Hosting"');
+    });
+
+    it('should not credit more of a line than earlier credit notes left uncredited', () => {
+      const earlier = [{ items: [{ lineItemId: 'line-2', description: 'Hosting', quantity: 3, unit: 'month', rate: 50, total: 150 }] }];
+      const items = creditNoteService.buildFullCreditItems(invoice)
+        .filter(item => item.lineItemId === 'line-2')
+        .map(item => ({ ...item, quantity: 2, total: 100 }));
+
+      expect(creditNoteService.getCreditedQuantities(earlier)).toEqual({ 'line-2': 3 });
+      expect(() => creditNoteService.validateCreditNote(request({ items }), 172.5, creditNoteService.getCreditedQuantities(earlier)))
+        .toThrow('Cannot credit more than the 1 left uncredited of the invoiced quantity for "Hosting"');
+    });
+
+    it('should not credit a line above its invoiced rate', () => {
+      const items = creditNoteService.buildFullCreditItems(invoice)
+        .map(item => item.lineItemId === 'line-2' ? { ...item, rate: 60 } : item);
+
+      expect(() => creditNoteService.validateCreditNote(request({ items })))
+        .toThrow('Cannot credit "Hosting" at more than its invoiced rate of 50.00');
+    });
+
+    it('should not exceed the amount left after earlier credit notes', () => {
+      expect(() => creditNoteService.validateCreditNote(request(), 115))
+        .toThrow('Credit total exceeds the remaining creditable amount of 1035.00');
+    });
+  });
+
+  describe('buildReversingJournalLines', () => {
+    const accounts = { receivables: 'acc-ar', gst_output: 'acc-gst', sales: 'acc-sales' };
+    const creditNote = { creditNoteNumber: 'CN-0001', subtotal: 100, taxAmount: 15, total: 115 };
+
+    it('should debit sales and GST and credit receivables', () => {
+      const lines = creditNoteService.buildReversingJournalLines(creditNote, accounts);
+
+      expect(lines).toEqual([
+        expect.objectContaining({ account_id: 'acc-sales', debit_amount: 100, credit_amount: 0 }),
+        expect.objectContaining({ account_id: 'acc-gst', debit_amount: 15, credit_amount: 0 }),
+        expect.objectContaining({ account_id: 'acc-ar', debit_amount: 0, credit_amount: 115 })
+      ]);
+    });
+
+    it('should return null when the chart of accounts is incomplete', () => {
+      const lines = creditNoteService.buildReversingJournalLines(
+        creditNote,
+        { receivables: accounts.receivables, sales: accounts.sales }
+      );
+
+      expect(lines).toBeNull();
+    });
+  });
+});
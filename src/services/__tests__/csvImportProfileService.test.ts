@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_IMPORT_PROFILES, csvImportProfileService } from '../csvImportProfileService';
+import { CSVImportProfile } from '../../types/csvImportProfile';
+
+describe('CSV Import Profile Service', () => {
+  const westpacHeaders = ['Date', 'Amount', 'Other Party', 'Description', 'Reference', 'Particulars', 'Analysis Code'];
+
+  const profile = (overrides: Partial<CSVImportProfile> = {}): CSVImportProfile => ({
+    id: 'profile-1',
+    name: 'My Westpac',
+    columnMapping: { date: 'Date', description: 'Description', amount: 'Amount' },
+    dateFormat: 'DD/MM/YYYY',
+    headerFingerprint: csvImportProfileService.createHeaderFingerprint(westpacHeaders),
+    ...overrides
+  });
+
+  it('should fingerprint headers ignoring case and surrounding whitespace', () => {
+    expect(csvImportProfileService.createHeaderFingerprint([' Date', 'AMOUNT ', 'Other  Party']))
+      .toBe('date|amount|other party');
+  });
+
+  it('should recognise each built-in NZ bank export', () => {
+    const asb = csvImportProfileService.findMatchingProfile(
+      ['Date', 'Unique Id', 'Tran Type', 'Cheque Number', 'Payee', 'Memo', 'Amount'],
+      BUILT_IN_IMPORT_PROFILES
+    );
+    expect(asb?.name).toBe('ASB');
+    expect(asb?.columnMapping.externalId).toBe('Unique Id');
+
+    expect(csvImportProfileService.findMatchingProfile(westpacHeaders, BUILT_IN_IMPORT_PROFILES)?.name).toBe('Westpac');
+    expect(BUILT_IN_IMPORT_PROFILES.map(p => p.name)).toEqual(['ANZ', 'ASB', 'BNZ', 'Westpac', 'Kiwibank']);
+  });
+
+  it('should match built-in profiles when the bank adds columns', () => {
+    const match = csvImportProfileService.findMatchingProfile([...westpacHeaders, 'Balance'], BUILT_IN_IMPORT_PROFILES);
+    expect(match?.name).toBe('Westpac');
+  });
+
+  it('should prefer a profile tied to the account over shared and built-in profiles', () => {
+    const shared = profile({ id: 'shared' });
+    const forAccount = profile({ id: 'account', bankAccountId: 'acc-1' });
+    const profiles = [shared, forAccount, ...BUILT_IN_IMPORT_PROFILES];
+
+    expect(csvImportProfileService.findMatchingProfile(westpacHeaders, profiles, 'acc-1')?.id).toBe('account');
+    expect(csvImportProfileService.findMatchingProfile(westpacHeaders, profiles, 'acc-2')?.id).toBe('shared');
+  });
+
+  it('should not offer profiles tied to another account', () => {
+    const profiles = [profile({ bankAccountId: 'acc-1' })];
+    expect(csvImportProfileService.findMatchingProfile(westpacHeaders, profiles, 'acc-2')).toBeUndefined();
+  });
+
+  it('should return no profile for unknown files', () => {
+    expect(csvImportProfileService.findMatchingProfile(['When', 'What', 'How Much'], BUILT_IN_IMPORT_PROFILES)).toBeUndefined();
+  });
+
+  it('should resolve mapped columns to the file header spelling', () => {
+    const mapping = csvImportProfileService.resolveMapping(profile(), ['DATE', 'amount', 'description ']);
+    expect(mapping).toEqual({ date: 'DATE', description: 'description ', amount: 'amount' });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CSVParseError,
+  CSVTokenizer,
+  detectDelimiter,
+  detectEncoding,
+  detectHeaderRow,
+  parseCSV
+} from '../csvParser';
+
+describe('CSV Parser', () => {
+  describe('parseCSV', () => {
+    it('should handle quoted delimiters, escaped quotes and newlines inside fields', () => {
+      const records = parseCSV('Date,Memo,Amount\r\n2024-01-15,"Invoice 42, ""urgent""\r\nsecond line",-4.50\r\n');
+
+      expect(records).toEqual([
+        { fields: ['Date', 'Memo', 'Amount'], line: 1 },
+        { fields: ['2024-01-15', 'Invoice 42, "urgent"\nsecond line', '-4.50'], line: 2 }
+      ]);
+    });
+
+    it('should strip a byte order mark and skip blank lines', () => {
+      const records = parseCSV('\uFEFFDate;Amount\n\n2024-01-15;10\n', { delimiter: ';' });
+
+      expect(records.map(record => record.fields)).toEqual([['Date', 'Amount'], ['2024-01-15', '10']]);
+      expect(records[1].line).toBe(3);
+    });
+
+    it('should give the same result when data arrives in chunks', () => {
+      const text = 'a,"b\r\nc",d\r\n"e""f",g,h';
+      const tokenizer = new CSVTokenizer();
+      const records = [...text].flatMap(char => tokenizer.push(char)).concat(tokenizer.end());
+
+      expect(records).toEqual(parseCSV(text));
+    });
+
+    it('should report an unterminated quoted field with its position', () => {
+      try {
+        parseCSV('Date,Memo\n2024-01-15,"never closed\nmore');
+        expect.fail('Expected a CSVParseError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CSVParseError);
+        expect((error as CSVParseError).line).toBe(2);
+        expect((error as CSVParseError).column).toBe(2);
+      }
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should pick the delimiter that gives consistent columns', () => {
+      expect(detectDelimiter('Date;Description;Amount\n15/01/2024;Coffee, large;-4,50\n')).toBe(';');
+      expect(detectDelimiter('Date\tDescription\tAmount\n2024-01-15\tCoffee\t-4.50\n')).toBe('\t');
+      expect(detectDelimiter('Date,Description,Amount\n2024-01-15,"Coffee; large",-4.50\n')).toBe(',');
+    });
+  });
+
+  describe('detectEncoding', () => {
+    it('should recognise byte order marks, UTF-8 and single-byte exports', () => {
+      expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8');
+      expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+      expect(detectEncoding(new TextEncoder().encode('Māori'))).toBe('utf-8');
+      expect(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x2c]))).toBe('windows-1252');
+    });
+  });
+
+  describe('detectHeaderRow', () => {
+    it('should skip bank account details above the header', () => {
+      const records = parseCSV([
+        'Account,12-3456-0123456-00',
+        'From 01/01/2024 to 31/01/2024',
+        '',
+        'Date,Description,Debit,Credit,Balance',
+        '15/01/2024,Coffee,4.50,,995.50',
+        '16/01/2024,Salary,,2500.00,3495.50'
+      ].join('\n'));
+
+      expect(detectHeaderRow(records)).toBe(2);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
 import { parseCSVTransactions } from '../csvTransactionParser';
 import { CSVColumnMapping, ImportedTransaction } from '../../types/bankTransaction';
 
@@ -158,6 +159,102 @@ invalid-date,"Coffee Shop Purchase",-4.50,DEBIT
     });
   });
 
+  describe('Bank export formats', () => {
+    it('should parse semicolon files with preamble rows, CRLF endings and multiline memos', async () => {
+      const csv = '\uFEFFAccount;12-3456-0123456-00\r\n' +
+        'Date;Description;Amount\r\n' +
+        '15/01/2024;"Coffee\r\nLatte; large";-4.50\r\n' +
+        '16/01/2024;Salary;2500.00\r\n';
+
+      const result = await parseCSVTransactions(csv, { date: 'Date', description: 'Description', amount: 'Amount' }, 'DD/MM/YYYY');
+
+      expect(result.success).toBe(true);
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[0].description).toBe('Coffee\nLatte; large');
+      expect(result.transactions[1].date).toBe('2024-01-16');
+    });
+
+    it('should read decimal commas in semicolon exports', async () => {
+      const csv = 'Datum;Omschrijving;Bedrag;Saldo\n' +
+        '15/01/2024;Koffie;-12,50;1.222,06\n' +
+        '16/01/2024;Salaris;1.234,56;2.456,62\n';
+
+      const result = await parseCSVTransactions(csv, { date: 'Datum', description: 'Omschrijving', amount: 'Bedrag', balance: 'Saldo' }, 'DD/MM/YYYY');
+
+      expect(result.success).toBe(true);
+      expect(result.transactions.map(t => [t.amount, t.type, t.balance])).toEqual([
+        [12.5, 'debit', 1222.06],
+        [1234.56, 'credit', 2456.62]
+      ]);
+    });
+
+    it('should use the decimal separator option over detection', async () => {
+      const csv = `Date;Description;Amount
+2024-01-15;Transfer;1.234`;
+
+      const detected = await parseCSVTransactions(csv, { date: 'Date', description: 'Description', amount: 'Amount' });
+      expect(detected.transactions[0].amount).toBe(1234);
+
+      const pointed = await parseCSVTransactions(csv, { date: 'Date', description: 'Description', amount: 'Amount' }, undefined, { decimalSeparator: '.' });
+      expect(pointed.transactions[0].amount).toBe(1.234);
+    });
+
+    it('should stream files larger than one read chunk', async () => {
+      const rows = Array.from({ length: 3000 }, (_, index) => `2024-01-15,"Payment ${index + 1}",-${index + 1}.50`);
+      // jsdom's Blob can't be streamed; Node's can, as the browser File can
+      const file = new NodeBlob(['\uFEFFAccount 12-3456-0123456-00\n', `Date,Description,Amount\n${rows.join('\n')}`]) as unknown as Blob;
+
+      const result = await parseCSVTransactions(file, { date: 'Date', description: 'Description', amount: 'Amount' });
+
+      expect(result.success).toBe(true);
+      expect(result.transactions).toHaveLength(3000);
+      expect(result.transactions[2999]).toMatchObject({ description: 'Payment 3000', amount: 3000.5, type: 'debit' });
+    });
+
+    it('should read separate debit and credit columns', async () => {
+      const csv = `Date,Description,Debit,Credit
+2024-01-15,Coffee,4.50,
+2024-01-16,Salary,,2500.00`;
+
+      const result = await parseCSVTransactions(csv, {
+        date: 'Date',
+        description: 'Description',
+        debit: 'Debit',
+        credit: 'Credit'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transactions.map(t => [t.amount, t.type])).toEqual([[4.5, 'debit'], [2500, 'credit']]);
+    });
+
+    it('should report errors by row and column', async () => {
+      const csv = `Date,Description,Amount
+2024-01-15,Coffee,-4.50
+2024-01-16,Salary,lots`;
+
+      const result = await parseCSVTransactions(csv, { date: 'Date', description: 'Description', amount: 'Amount' });
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.errors).toEqual(['Row 3, column 3 (Amount): Invalid amount: lots']);
+    });
+
+    it('should parse bank date formats and transaction id columns', async () => {
+      const csv = `Date,Unique Id,Payee,Amount
+2024/03/05,2024030501,Countdown,-82.10`;
+      const mapping = { date: 'Date', description: 'Payee', amount: 'Amount', externalId: 'Unique Id' };
+
+      const result = await parseCSVTransactions(csv, mapping, 'YYYY/MM/DD');
+      expect(result.transactions[0].date).toBe('2024-03-05');
+      expect(result.transactions[0].externalId).toBe('2024030501');
+
+      const shortYear = await parseCSVTransactions(`Date,Payee,Amount\n05/03/24,Countdown,-82.10`, mapping, 'DD/MM/YY');
+      expect(shortYear.transactions[0].date).toBe('2024-03-05');
+
+      const dashed = await parseCSVTransactions(`Date,Payee,Amount\n05-03-2024,Countdown,-82.10`, mapping, 'DD-MM-YYYY');
+      expect(dashed.transactions[0].date).toBe('2024-03-05');
+    });
+  });
+
   describe('Duplicate Detection', () => {
     it('should identify potential duplicate transactions', async () => {
       const csvWithDuplicates = `Date,Description,Amount,Type,Reference
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { customerStatementService } from '../customerStatementService';
+import { StatementOpenItem, StatementTransaction } from '../../types/statement';
+
+describe('Customer Statements', () => {
+  const transactions: StatementTransaction[] = [
+    { date: '2024-01-10', type: 'invoice', reference: 'INV-1', description: 'Invoice INV-1', debit: 500, credit: 0 },
+    { date: '2024-01-20', type: 'payment', reference: '', description: 'Payment', debit: 0, credit: 200 },
+    { date: '2024-02-05', type: 'invoice', reference: 'INV-2', description: 'Invoice INV-2', debit: 300, credit: 0 },
+    { date: '2024-02-05', type: 'payment', reference: '', description: 'Payment', debit: 0, credit: 100 },
+    { date: '2024-02-12', type: 'credit_note', reference: 'CN-1', description: 'Credit note CN-1', debit: 0, credit: 50 },
+    { date: '2024-03-01', type: 'invoice', reference: 'INV-3', description: 'Invoice INV-3', debit: 80, credit: 0 },
+  ];
+
+  describe('buildBalanceForward', () => {
+    it('should roll activity before the period into the opening balance', () => {
+      const result = customerStatementService.buildBalanceForward(transactions, '2024-02-01', '2024-02-29');
+
+      expect(result.openingBalance).toBe(300);
+      expect(result.lines.map(line => line.reference)).toEqual(['INV-2', '', 'CN-1']);
+      expect(result.closingBalance).toBe(450);
+    });
+
+    it('should keep a running balance with charges ahead of payments on the same day', () => {
+      const result = customerStatementService.buildBalanceForward(transactions, '2024-02-01', '2024-02-29');
+      expect(result.lines.map(line => line.balance)).toEqual([600, 500, 450]);
+    });
+  });
+
+  describe('buildOpenItem', () => {
+    const openItems: StatementOpenItem[] = [
+      { invoiceId: 'inv-2', invoiceNumber: 'INV-2', date: '2024-02-05', dueDate: '2024-03-05', total: 300, balanceDue: 300 },
+      { invoiceId: 'inv-1', invoiceNumber: 'INV-1', date: '2024-01-10', dueDate: '2024-02-10', total: 500, balanceDue: 150 },
+    ];
+
+    it('should list outstanding invoices oldest first', () => {
+      const result = customerStatementService.buildOpenItem(openItems, 0);
+
+      expect(result.lines.map(line => line.reference)).toEqual(['INV-1', 'INV-2']);
+      expect(result.lines[0].description).toBe('Invoice INV-1 (of 500.00)');
+      expect(result.closingBalance).toBe(450);
+    });
+
+    it('should net off unapplied customer credit', () => {
+      const result = customerStatementService.buildOpenItem(openItems, 75);
+
+      expect(result.lines[2]).toMatchObject({ type: 'credit', credit: 75, balance: 375 });
+      expect(result.closingBalance).toBe(375);
+    });
+  });
+
+  describe('calculateAging', () => {
+    it('should bucket balances by days past due', () => {
+      const aging = customerStatementService.calculateAging([
+        { dueDate: '2024-06-30', balanceDue: 100 },
+        { dueDate: '2024-06-20', balanceDue: 40 },
+        { dueDate: '2024-05-15', balanceDue: 60 },
+        { dueDate: '2024-04-20', balanceDue: 25 },
+        { dueDate: '2024-02-01', balanceDue: 10.5 },
+      ], '2024-06-30');
+
+      expect(aging).toEqual({
+        current: 100,
+        days1to30: 40,
+        days31to60: 60,
+        days61to90: 25,
+        over90: 10.5,
+        total: 235.5,
+      });
+    });
+  });
+
+  describe('validateOptions', () => {
+    it('should reject a period that ends before it starts', () => {
+      expect(() => customerStatementService.validateOptions({
+        periodStart: '2024-03-01',
+        periodEnd: '2024-02-01',
+        style: 'open_item',
+      })).toThrow('before the end date');
+    });
+  });
+});
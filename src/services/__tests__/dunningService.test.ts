@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_DUNNING_STEPS, dunningService } from '../dunningService';
+
+describe('Dunning Service', () => {
+  const today = new Date(2024, 2, 20); // 20 March 2024
+
+  describe('calculateDaysRelativeToDue', () => {
+    it('should count whole days either side of the due date', () => {
+      expect(dunningService.calculateDaysRelativeToDue('2024-03-20', today)).toBe(0);
+      expect(dunningService.calculateDaysRelativeToDue('2024-03-23', today)).toBe(-3);
+      expect(dunningService.calculateDaysRelativeToDue('2024-02-28', today)).toBe(21);
+    });
+  });
+
+  describe('getDueStep', () => {
+    it('should send nothing before the first step is reached', () => {
+      expect(dunningService.getDueStep(DEFAULT_DUNNING_STEPS, -5, [])).toBeNull();
+    });
+
+    it('should send the pre-due reminder three days before the due date', () => {
+      expect(dunningService.getDueStep(DEFAULT_DUNNING_STEPS, -3, [])).toEqual({ offsetDays: -3, reminderType: 'gentle' });
+    });
+
+    it('should not repeat a step that has already been sent', () => {
+      expect(dunningService.getDueStep(DEFAULT_DUNNING_STEPS, 10, [-3, 7])).toBeNull();
+    });
+
+    it('should move on to the next step once it is reached', () => {
+      expect(dunningService.getDueStep(DEFAULT_DUNNING_STEPS, 21, [-3, 7])).toEqual({ offsetDays: 21, reminderType: 'firm' });
+    });
+
+    it('should only send the latest step when earlier ones were missed', () => {
+      expect(dunningService.getDueStep(DEFAULT_DUNNING_STEPS, 50, [])).toEqual({ offsetDays: 45, reminderType: 'final' });
+    });
+
+    it('should order steps regardless of how they were entered', () => {
+      const steps = [...DEFAULT_DUNNING_STEPS].reverse();
+      expect(dunningService.getDueStep(steps, 8, [-3])).toEqual({ offsetDays: 7, reminderType: 'gentle' });
+    });
+  });
+
+  describe('validatePolicy', () => {
+    it('should accept the default schedule', () => {
+      expect(() => dunningService.validatePolicy({ name: 'Standard', steps: DEFAULT_DUNNING_STEPS })).not.toThrow();
+    });
+
+    it('should reject policies without steps or with two steps on the same day', () => {
+      expect(() => dunningService.validatePolicy({ name: 'Empty', steps: [] })).toThrow('Add at least one reminder step');
+      expect(() => dunningService.validatePolicy({
+        name: 'Twice',
+        steps: [{ offsetDays: 7, reminderType: 'gentle' }, { offsetDays: 7, reminderType: 'firm' }]
+      })).toThrow('Each reminder step must be on a different day');
+    });
+  });
+
+  describe('runScheduledReminders', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+      localStorage.clear();
+    });
+
+    it('should only mark the day as run once the reminders have gone out', async () => {
+      vi.spyOn(dunningService, 'getDefaultPolicy').mockResolvedValue({
+        id: 'policy-1',
+        name: 'Standard',
+        steps: DEFAULT_DUNNING_STEPS,
+        isActive: true,
+        isDefault: true,
+        autoSend: true
+      });
+      const sendDueReminders = vi.spyOn(dunningService, 'sendDueReminders')
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValue({ sent: [], skipped: [], failed: [] });
+
+      await expect(dunningService.runScheduledReminders(today)).rejects.toThrow('Network error');
+      await expect(dunningService.runScheduledReminders(today)).resolves.toEqual({ sent: [], skipped: [], failed: [] });
+      await expect(dunningService.runScheduledReminders(today)).resolves.toBeNull();
+      expect(sendDueReminders).toHaveBeenCalledTimes(2);
+    });
+  });
+});
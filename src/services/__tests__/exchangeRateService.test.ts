@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { exchangeRateService } from '../exchangeRateService';
+
+describe('Exchange Rate Service', () => {
+  describe('parseRatesCsv', () => {
+    it('should parse rates with ISO and NZ style dates', () => {
+      const csv = [
+        'Date,From,To,Rate',
+        '2024-03-01,usd,NZD,1.6421',
+        '15/03/2024,AUD,NZD,1.0712'
+      ].join('\n');
+
+      const result = exchangeRateService.parseRatesCsv(csv);
+
+      expect(result.errors).toEqual([]);
+      expect(result.rates).toEqual([
+        { fromCurrency: 'USD', toCurrency: 'NZD', rate: 1.6421, rateDate: '2024-03-01' },
+        { fromCurrency: 'AUD', toCurrency: 'NZD', rate: 1.0712, rateDate: '2024-03-15' }
+      ]);
+    });
+
+    it('should use the default target currency when the file has no "to" column', () => {
+      const result = exchangeRateService.parseRatesCsv('date,currency,rate\n2024-03-01,USD,1.64', 'NZD');
+
+      expect(result.rates).toEqual([
+        { fromCurrency: 'USD', toCurrency: 'NZD', rate: 1.64, rateDate: '2024-03-01' }
+      ]);
+    });
+
+    it('should report bad rows and keep the good ones', () => {
+      const csv = [
+        'date,from,to,rate',
+        '2024-03-01,USD,NZD,1.64',
+        'yesterday,USD,NZD,1.65',
+        '2024-03-02,NZD,NZD,1',
+        '2024-03-03,AUD,NZD,-1'
+      ].join('\n');
+
+      const result = exchangeRateService.parseRatesCsv(csv);
+
+      expect(result.rates).toHaveLength(1);
+      expect(result.errors).toEqual([
+        'Row 3: invalid date "yesterday"',
+        'Row 4: a rate needs two different currencies',
+        'Row 5: rate must be a positive number'
+      ]);
+    });
+
+    it('should reject files missing required columns', () => {
+      const result = exchangeRateService.parseRatesCsv('date,from\n2024-03-01,USD');
+
+      expect(result.rates).toEqual([]);
+      expect(result.errors).toEqual(['Missing required column(s): to, rate']);
+    });
+  });
+
+  describe('convertToBase', () => {
+    it('should convert at the locked rate and treat a missing rate as base currency', () => {
+      expect(exchangeRateService.convertToBase(1000, 1.6421)).toBe(1642.1);
+      expect(exchangeRateService.convertToBase(250, null)).toBe(250);
+    });
+  });
+
+  describe('calculateRealisedFx', () => {
+    it('should report a gain when the currency strengthens before payment', () => {
+      expect(exchangeRateService.calculateRealisedFx(1000, 1.6, 1.65)).toEqual({
+        invoiceBaseAmount: 1600,
+        paymentBaseAmount: 1650,
+        gainLoss: 50
+      });
+    });
+
+    it('should report a loss when the currency weakens before payment', () => {
+      expect(exchangeRateService.calculateRealisedFx(500, 1.1, 1.05).gainLoss).toBe(-25);
+    });
+  });
+
+  describe('lockSettlementRate', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should use the rate on or before the payment date', async () => {
+      vi.spyOn(exchangeRateService, 'findRate').mockResolvedValue(1.65);
+      await expect(exchangeRateService.lockSettlementRate('USD', 'NZD', '2024-06-01', 1.6)).resolves.toBe(1.65);
+    });
+
+    it('should settle invoices without a captured rate at their stored rate', async () => {
+      vi.spyOn(exchangeRateService, 'findRate').mockResolvedValue(null);
+      await expect(exchangeRateService.lockSettlementRate('USD', 'NZD', '2024-06-01', 1.6)).resolves.toBe(1.6);
+      await expect(exchangeRateService.lockSettlementRate('USD', 'NZD', '2024-06-01', null)).resolves.toBe(1);
+    });
+  });
+
+  describe('buildRealisedFxJournalLines', () => {
+    const accounts = { receivables: 'acc-receivables', fx_gain_loss: 'acc-fx' };
+
+    it('should debit receivables and credit FX for a gain', () => {
+      const lines = exchangeRateService.buildRealisedFxJournalLines(50, 'FX gain', accounts);
+
+      expect(lines).toEqual([
+        { account_id: 'acc-receivables', description: 'FX gain', debit_amount: 50, credit_amount: 0, line_order: 1 },
+        { account_id: 'acc-fx', description: 'FX gain', debit_amount: 0, credit_amount: 50, line_order: 2 }
+      ]);
+    });
+
+    it('should debit FX and credit receivables for a loss', () => {
+      const lines = exchangeRateService.buildRealisedFxJournalLines(-25, 'FX loss', accounts);
+
+      expect(lines?.[0]).toMatchObject({ account_id: 'acc-fx', debit_amount: 25 });
+      expect(lines?.[1]).toMatchObject({ account_id: 'acc-receivables', credit_amount: 25 });
+    });
+
+    it('should skip posting when there is no difference or the FX account is missing', () => {
+      expect(exchangeRateService.buildRealisedFxJournalLines(0, 'None', accounts)).toBeNull();
+      expect(exchangeRateService.buildRealisedFxJournalLines(50, 'FX gain', { receivables: accounts.receivables })).toBeNull();
+    });
+  });
+
+  describe('validateExchangeRate', () => {
+    it('should reject a rate between the same currency', () => {
+      expect(() => exchangeRateService.validateExchangeRate({
+        fromCurrency: 'nzd', toCurrency: 'NZD', rate: 1, rateDate: '2024-03-01'
+      })).toThrow('Currencies must be different');
+    });
+
+    it('should reject non-positive rates', () => {
+      expect(() => exchangeRateService.validateExchangeRate({
+        fromCurrency: 'USD', toCurrency: 'NZD', rate: 0, rateDate: '2024-03-01'
+      })).toThrow('Rate must be greater than zero');
+    });
+  });
+});
@@ -159,6 +159,8 @@ describe('expenseService', () => {
       const mockQuery = {
         insert: vi.fn().mockReturnThis(),
         select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockReturnValue({ data: null, error: null }), // No period lock
         single: vi.fn().mockReturnValue({ data: newExpenseData, error: null }),
       }
       
@@ -182,6 +184,8 @@ describe('expenseService', () => {
       const mockQuery = {
         insert: vi.fn().mockReturnThis(),
         select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        maybeSingle: vi.fn().mockReturnValue({ data: null, error: null }),
         single: vi.fn().mockReturnValue({ data: null, error: mockSupabaseError }),
       }
       
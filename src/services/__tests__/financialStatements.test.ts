@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { financialReportsService, LedgerAccount, LedgerEntry } from '../financialReportsService';
+
+describe('Ledger financial statements', () => {
+  const account = (id: string, accountNumber: string, name: string, accountClass: LedgerAccount['accountClass'], overrides: Partial<LedgerAccount> = {}): LedgerAccount => ({
+    id, accountNumber, name, accountClass, parentAccountId: null, type: 'custom', ...overrides
+  });
+
+  const accounts: LedgerAccount[] = [
+    account('bank', '1110', 'Bank Account - Current', 'Asset', { type: 'bank' }),
+    account('ar', '1200', 'Accounts Receivable', 'Asset'),
+    account('gst-paid', '1300', 'GST Paid on Purchases', 'Asset'),
+    account('equipment', '1500', 'Equipment', 'Asset'),
+    account('gst-collected', '2200', 'GST Collected on Sales', 'Liability'),
+    account('loan', '2400', 'Bank Loan', 'Liability', { type: 'loan' }),
+    account('equity', '3000', 'Owner Equity', 'Equity'),
+    account('sales', '4000', 'Sales Revenue', 'Revenue'),
+    account('consulting', '4010', 'Consulting', 'Revenue', { parentAccountId: 'sales' }),
+    account('cogs', '5000', 'Cost of Goods Sold', 'Expense'),
+    account('office', '6600', 'Office Supplies', 'Expense')
+  ];
+
+  const entry = (id: string, entryDate: string, lines: Array<[string, number, number]>): LedgerEntry => ({
+    id, entryDate, lines: lines.map(([accountId, debit, credit]) => ({ accountId, debit, credit }))
+  });
+
+  const entries: LedgerEntry[] = [
+    entry('je-1', '2024-01-05', [['bank', 5000, 0], ['equity', 0, 5000]]),
+    entry('je-2', '2024-02-01', [['ar', 1150, 0], ['sales', 0, 600], ['consulting', 0, 400], ['gst-collected', 0, 150]]),
+    entry('je-3', '2024-02-10', [['bank', 1150, 0], ['ar', 0, 1150]]),
+    entry('je-4', '2024-02-15', [['office', 200, 0], ['gst-paid', 30, 0], ['bank', 0, 230]]),
+    entry('je-5', '2024-02-20', [['equipment', 3000, 0], ['bank', 0, 1000], ['loan', 0, 2000]]),
+    entry('je-6', '2024-02-25', [['cogs', 300, 0], ['bank', 0, 300]]),
+    // An automatic posting and its reversal net to nothing
+    entry('je-7', '2024-02-28', [['ar', 115, 0], ['sales', 0, 100], ['gst-collected', 0, 15]]),
+    entry('je-8', '2024-02-28', [['ar', 0, 115], ['sales', 100, 0], ['gst-collected', 15, 0]])
+  ];
+
+  it('should build the profit and loss from revenue and expense accounts, rolling children into their parents', () => {
+    const report = financialReportsService.buildProfitLoss(accounts, entries, '2024-02-01', '2024-02-29');
+
+    expect(report).toMatchObject({ totalRevenue: 1000, costOfGoodsSold: 300, grossProfit: 700, operatingExpenses: 200, netIncome: 500 });
+    expect(report.revenueBreakdown).toEqual([{ category: 'Sales Revenue', amount: 1000, percentage: 100 }]);
+    expect(report.expenseBreakdown).toEqual([
+      { category: 'Cost of Goods Sold', amount: 300, percentage: 60 },
+      { category: 'Office Supplies', amount: 200, percentage: 40 }
+    ]);
+  });
+
+  it('should balance assets against liabilities and equity including current earnings', () => {
+    const report = financialReportsService.buildBalanceSheet(accounts, entries, '2024-02-29');
+
+    expect(report).toMatchObject({
+      totalAssets: 7650,
+      currentAssets: 4650,
+      fixedAssets: 3000,
+      totalLiabilities: 2150,
+      currentLiabilities: 150,
+      longTermLiabilities: 2000,
+      equity: 5500
+    });
+    expect(report.totalAssets).toBe(report.totalLiabilities + report.equity);
+    expect(report.assetBreakdown.map(line => line.category)).toEqual(['Bank Account - Current', 'GST Paid on Purchases', 'Equipment']);
+  });
+
+  it('should class cash movements by the accounts on the other side of each entry', () => {
+    const report = financialReportsService.buildCashFlow(accounts, entries, '2024-02-01', '2024-02-29');
+    const balanceSheet = financialReportsService.buildBalanceSheet(accounts, entries, '2024-02-29');
+
+    expect(report.operatingActivities).toEqual([
+      { description: 'Accounts Receivable', amount: 1150 },
+      { description: 'GST Paid on Purchases', amount: -30 },
+      { description: 'Cost of Goods Sold', amount: -300 },
+      { description: 'Office Supplies', amount: -200 }
+    ]);
+    expect(report).toMatchObject({ operatingCashFlow: 620, investingCashFlow: -3000, financingCashFlow: 2000, netCashFlow: -380, beginningCash: 5000, endingCash: 4620 });
+    expect(report.endingCash).toBe(balanceSheet.assetBreakdown.find(line => line.category === 'Bank Account - Current')?.amount);
+  });
+
+  it('should list every account with a balance in the trial balance', () => {
+    const report = financialReportsService.buildTrialBalance(accounts, entries, '2024-02-29');
+
+    expect(report).toMatchObject({ totalDebits: 8150, totalCredits: 8150, accountCount: 10, balanceStatus: 'balanced' });
+    expect(report.accounts[0]).toEqual({ accountName: '1110 Bank Account - Current', accountType: 'Asset', debitBalance: 4620, creditBalance: 0 });
+    expect(financialReportsService.buildTrialBalance(accounts, entries, '2024-01-31').accountCount).toBe(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { paymentService } from '../paymentService';
+import { AllocatableInvoice } from '@/types/payment';
+
+describe('Batch Payment Allocation', () => {
+  const invoices: AllocatableInvoice[] = [
+    { id: 'inv-3', invoiceNumber: 'INV-003', date: '2024-03-01', dueDate: '2024-03-31', balanceDue: 300 },
+    { id: 'inv-1', invoiceNumber: 'INV-001', date: '2024-01-01', dueDate: '2024-01-31', balanceDue: 100 },
+    { id: 'inv-2', invoiceNumber: 'INV-002', date: '2024-02-01', dueDate: '2024-02-29', balanceDue: 200.5 },
+  ];
+
+  describe('allocateOldestFirst', () => {
+    it('should settle invoices in due date order', () => {
+      const result = paymentService.allocateOldestFirst(600.5, invoices);
+
+      expect(result.allocations.map(a => a.invoiceId)).toEqual(['inv-1', 'inv-2', 'inv-3']);
+      expect(result.allocations.every(a => a.remainingBalance === 0)).toBe(true);
+      expect(result.unappliedAmount).toBe(0);
+    });
+
+    it('should part-pay the next invoice when the payment runs out', () => {
+      const result = paymentService.allocateOldestFirst(150, invoices);
+
+      expect(result.allocations).toEqual([
+        { invoiceId: 'inv-1', invoiceNumber: 'INV-001', amountAllocated: 100, remainingBalance: 0 },
+        { invoiceId: 'inv-2', invoiceNumber: 'INV-002', amountAllocated: 50, remainingBalance: 150.5 },
+      ]);
+      expect(result.unappliedAmount).toBe(0);
+    });
+
+    it('should leave an overpayment unapplied', () => {
+      const result = paymentService.allocateOldestFirst(700, invoices);
+
+      expect(result.allocations).toHaveLength(3);
+      expect(result.unappliedAmount).toBe(99.5);
+    });
+
+    it('should only settle invoices in the payment currency', () => {
+      const result = paymentService.allocateOldestFirst(
+        500,
+        [
+          { id: 'inv-4', invoiceNumber: 'INV-004', dueDate: '2024-01-15', balanceDue: 250, currency: 'USD' },
+          { id: 'inv-5', invoiceNumber: 'INV-005', dueDate: '2024-02-15', balanceDue: 100, currency: 'NZD' }
+        ],
+        'NZD'
+      );
+
+      expect(result.allocations.map(a => a.invoiceId)).toEqual(['inv-5']);
+      expect(result.unappliedAmount).toBe(400);
+    });
+  });
+
+  describe('applyManualAllocations', () => {
+    it('should accept a split that skips the oldest invoice', () => {
+      const result = paymentService.applyManualAllocations(
+        350,
+        [{ invoiceId: 'inv-3', amount: 300 }, { invoiceId: 'inv-1', amount: 0 }],
+        invoices
+      );
+
+      expect(result.allocations).toEqual([
+        { invoiceId: 'inv-3', invoiceNumber: 'INV-003', amountAllocated: 300, remainingBalance: 0 },
+      ]);
+      expect(result.unappliedAmount).toBe(50);
+    });
+
+    it('should reject an allocation above the invoice balance', () => {
+      expect(() => paymentService.applyManualAllocations(500, [{ invoiceId: 'inv-1', amount: 150 }], invoices))
+        .toThrow('exceeds its balance');
+    });
+
+    it('should reject allocations that add up to more than the payment', () => {
+      expect(() => paymentService.applyManualAllocations(
+        250,
+        [{ invoiceId: 'inv-1', amount: 100 }, { invoiceId: 'inv-2', amount: 200 }],
+        invoices
+      )).toThrow('more than the payment');
+    });
+
+    it('should reject repeated lines that together exceed an invoice balance', () => {
+      expect(() => paymentService.applyManualAllocations(
+        200,
+        [{ invoiceId: 'inv-1', amount: 80 }, { invoiceId: 'inv-1', amount: 80 }],
+        invoices
+      )).toThrow('exceeds its balance');
+    });
+
+    it('should reject invoices that are not open for the customer', () => {
+      expect(() => paymentService.applyManualAllocations(100, [{ invoiceId: 'inv-9', amount: 100 }], invoices))
+        .toThrow('open invoices');
+    });
+  });
+});
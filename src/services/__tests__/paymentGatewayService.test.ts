@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { paymentGatewayService } from '../paymentGatewayService';
+import { mockPaymentGateway, stripePaymentGateway } from '../paymentGatewayAdapters';
+import { paymentService } from '../paymentService';
+import { Payment } from '../../types/payment';
+
+describe('Online payment gateway', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  const checkoutRequest = {
+    invoiceId: 'inv-1',
+    amount: 115,
+    currency: 'NZD',
+    description: 'Invoice INV-0042',
+    successUrl: 'https://app.example.com/invoice/inv-1?payment=success',
+    cancelUrl: 'https://app.example.com/invoice/inv-1?payment=cancelled'
+  };
+
+  it('should complete a mock checkout once and queue its webhook until settled', async () => {
+    const session = await mockPaymentGateway.createCheckoutSession(checkoutRequest);
+    expect(session.url).toBe(`https://app.example.com/invoice/inv-1?payment=success&session_id=${session.id}`);
+    expect(await mockPaymentGateway.listCompletedCheckouts()).toEqual([]);
+
+    const event = mockPaymentGateway.completeCheckout(session.id);
+    mockPaymentGateway.completeCheckout(session.id);
+    expect(event).toMatchObject({ type: 'checkout.completed', gateway: 'mock', invoiceId: 'inv-1', amount: 115, currency: 'NZD' });
+    expect(await mockPaymentGateway.listCompletedCheckouts()).toEqual([event]);
+
+    await mockPaymentGateway.markCheckoutSettled(event, 'pay-1');
+    expect(await mockPaymentGateway.listCompletedCheckouts()).toEqual([]);
+  });
+
+  it('should map Stripe checkout and refund events', () => {
+    const completed = stripePaymentGateway.parseWebhookEvent(JSON.stringify({
+      id: 'evt_1',
+      type: 'checkout.session.completed',
+      created: 1717243200,
+      data: { object: { id: 'cs_1', amount_total: 11550, currency: 'nzd', payment_intent: 'pi_1', metadata: { invoice_id: 'inv-1' } } }
+    }));
+    expect(completed).toEqual({
+      id: 'evt_1',
+      type: 'checkout.completed',
+      gateway: 'stripe',
+      sessionId: 'cs_1',
+      invoiceId: 'inv-1',
+      amount: 115.5,
+      currency: 'NZD',
+      paymentReference: 'pi_1',
+      occurredAt: '2024-06-01T12:00:00.000Z'
+    });
+
+    const yen = stripePaymentGateway.parseWebhookEvent(JSON.stringify({
+      id: 'evt_2',
+      type: 'checkout.session.completed',
+      created: 1717243200,
+      data: { object: { id: 'cs_2', amount_total: 5000, currency: 'jpy', client_reference_id: 'inv-2' } }
+    }));
+    expect(yen).toMatchObject({ amount: 5000, invoiceId: 'inv-2', paymentReference: undefined });
+
+    expect(stripePaymentGateway.parseWebhookEvent(JSON.stringify({
+      id: 'evt_5',
+      type: 'checkout.session.async_payment_succeeded',
+      created: 1717243200,
+      data: { object: { id: 'cs_3', amount_total: 2000, currency: 'nzd', payment_intent: 'pi_3' } }
+    }))).toMatchObject({ type: 'checkout.completed', sessionId: 'cs_3', amount: 20 });
+    expect(paymentGatewayService.getGatewayPaymentId(yen)).toBe('cs_2');
+
+    expect(stripePaymentGateway.parseWebhookEvent(JSON.stringify({
+      id: 'evt_3',
+      type: 'charge.refunded',
+      created: 1717243200,
+      data: { object: { id: 'ch_1', amount_refunded: 2000, currency: 'nzd', payment_intent: 'pi_1' } }
+    }))).toMatchObject({ type: 'refund.succeeded', amount: 20, paymentReference: 'pi_1' });
+
+    expect(() => stripePaymentGateway.parseWebhookEvent(JSON.stringify({
+      id: 'evt_4', type: 'customer.created', created: 1717243200, data: { object: { id: 'cus_1' } }
+    }))).toThrow('Unsupported Stripe event type: customer.created');
+  });
+
+  it('should record a completed checkout as an online payment only once', async () => {
+    const session = await mockPaymentGateway.createCheckoutSession(checkoutRequest);
+    const payload = mockPaymentGateway.buildWebhookPayload(session);
+    const payment = { id: 'pay-1', invoiceId: 'inv-1', amount: 115 } as Payment;
+
+    const findGatewayPayment = vi.spyOn(paymentGatewayService, 'findGatewayPayment').mockResolvedValueOnce(null);
+    const createPayment = vi.spyOn(paymentService, 'createPayment').mockResolvedValue(payment);
+
+    expect(await paymentGatewayService.handleWebhook('mock', payload)).toBe(payment);
+    expect(createPayment).toHaveBeenCalledWith(expect.objectContaining({
+      invoiceId: 'inv-1',
+      paymentMethod: 'online',
+      amount: 115,
+      gateway: 'mock',
+      gatewayPaymentId: expect.stringMatching(/^mock_pi_/)
+    }));
+
+    // A redelivered webhook finds the payment already recorded
+    findGatewayPayment.mockResolvedValueOnce(payment);
+    expect(await paymentGatewayService.handleWebhook('mock', payload)).toBe(payment);
+    expect(createPayment).toHaveBeenCalledTimes(1);
+
+    const expired = mockPaymentGateway.buildWebhookPayload(session, 'checkout.expired');
+    expect(await paymentGatewayService.handleWebhook('mock', expired)).toBeNull();
+  });
+
+  it('should only charge what is left on the invoice', () => {
+    const invoice = { id: 'inv-1', invoiceNumber: 'INV-0042', total: 115, status: 'sent' } as Parameters<typeof paymentGatewayService.getAmountDue>[0];
+    expect(paymentGatewayService.getAmountDue(invoice)).toBe(115);
+    expect(paymentGatewayService.getAmountDue({ ...invoice, balanceDue: 40.004 })).toBe(40);
+    expect(paymentGatewayService.getAmountDue({ ...invoice, status: 'paid' })).toBe(0);
+  });
+});
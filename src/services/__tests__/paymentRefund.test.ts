@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { paymentService } from '../paymentService';
+
+describe('Payment Refunds', () => {
+  const payment = { amount: 500, amountRefunded: 200, status: 'completed' as const };
+
+  describe('validateRefund', () => {
+    it('should allow a partial refund of what is left on the payment', () => {
+      expect(paymentService.getRefundableAmount(payment)).toBe(300);
+      expect(() => paymentService.validateRefund(payment, { amount: 300, reason: 'Overcharged' })).not.toThrow();
+    });
+
+    it('should reject refunding more than is left', () => {
+      expect(() => paymentService.validateRefund(payment, { amount: 300.01, reason: 'Overcharged' }))
+        .toThrow('exceeds the 300.00 left');
+    });
+
+    it('should require a reason and a positive amount', () => {
+      expect(() => paymentService.validateRefund(payment, { amount: 50, reason: '  ' })).toThrow('reason is required');
+      expect(() => paymentService.validateRefund(payment, { amount: 0, reason: 'Duplicate' })).toThrow('greater than 0');
+    });
+
+    it('should only refund completed payments', () => {
+      expect(() => paymentService.validateRefund({ ...payment, status: 'refunded' }, { amount: 10, reason: 'Duplicate' }))
+        .toThrow('Only completed payments');
+    });
+  });
+
+  describe('planBatchRefund', () => {
+    const allocations = [
+      { invoiceId: 'inv-1', amount: 100, dueDate: '2024-01-31' },
+      { invoiceId: 'inv-2', amount: 200, dueDate: '2024-02-29' },
+    ];
+
+    it('should return unapplied credit before touching invoices', () => {
+      expect(paymentService.planBatchRefund(40, 50, allocations)).toEqual({ fromCredit: 40, allocationReductions: [] });
+    });
+
+    it('should unwind the latest invoice first once the credit is used up', () => {
+      expect(paymentService.planBatchRefund(300, 50, allocations)).toEqual({
+        fromCredit: 50,
+        allocationReductions: [
+          { invoiceId: 'inv-2', amount: 200 },
+          { invoiceId: 'inv-1', amount: 50 },
+        ],
+      });
+    });
+
+    it('should reject a refund larger than the payment still covers', () => {
+      expect(() => paymentService.planBatchRefund(400, 50, allocations)).toThrow('more than is left');
+    });
+  });
+
+  describe('buildRefundJournalLines', () => {
+    const accounts = { receivables: 'ar', bank: 'bank', cash: 'cash', customer_credits: 'credits' };
+
+    it('should debit receivables and credit the bank account', () => {
+      const lines = paymentService.buildRefundJournalLines(120, 'bank_transfer', 'Refund', accounts);
+
+      expect(lines).toEqual([
+        { account_id: 'ar', description: 'Refund', debit_amount: 120, credit_amount: 0, line_order: 1 },
+        { account_id: 'bank', description: 'Refund', debit_amount: 0, credit_amount: 120, line_order: 2 },
+      ]);
+    });
+
+    it('should debit customer credits for the part refunded from unapplied credit', () => {
+      const lines = paymentService.buildRefundJournalLines(120, 'bank_transfer', 'Refund', accounts, 50);
+
+      expect(lines).toEqual([
+        { account_id: 'ar', description: 'Refund', debit_amount: 70, credit_amount: 0, line_order: 1 },
+        { account_id: 'credits', description: 'Refund', debit_amount: 50, credit_amount: 0, line_order: 2 },
+        { account_id: 'bank', description: 'Refund', debit_amount: 0, credit_amount: 120, line_order: 3 },
+      ]);
+    });
+
+    it('should credit cash on hand for cash refunds', () => {
+      const lines = paymentService.buildRefundJournalLines(20, 'cash', 'Refund', accounts);
+      expect(lines?.[1].account_id).toBe('cash');
+    });
+
+    it('should skip posting when the chart of accounts is incomplete', () => {
+      expect(paymentService.buildRefundJournalLines(20, 'cash', 'Refund', { receivables: 'ar', bank: 'bank' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { periodLockService, PeriodLockedError } from '../periodLockService';
+import { financialReportsService, LedgerAccount, LedgerEntry } from '../financialReportsService';
+
+describe('Period locking', () => {
+  it('should lock dates on or before the lock date', () => {
+    expect(periodLockService.isDateLocked('2024-06-30', '2024-06-30')).toBe(true);
+    expect(periodLockService.isDateLocked('2024-06-30T09:00:00Z', '2024-06-30')).toBe(true);
+    expect(periodLockService.isDateLocked('2024-07-01', '2024-06-30')).toBe(false);
+    expect(periodLockService.isDateLocked(undefined, '2024-06-30')).toBe(false);
+    expect(periodLockService.isDateLocked('2024-06-30', null)).toBe(false);
+
+    expect(new PeriodLockedError({ recordType: 'invoice', lockDate: '2024-06-30' }).message)
+      .toBe('Invoices dated on or before 30 Jun 2024 are locked. Move the lock date in settings to make changes.');
+  });
+});
+
+describe('Year-end close', () => {
+  const accounts: LedgerAccount[] = [
+    { id: 'bank', accountNumber: '1110', name: 'Bank', accountClass: 'Asset', parentAccountId: null, type: 'bank' },
+    { id: 'retained', accountNumber: '3100', name: 'Retained Earnings', accountClass: 'Equity', parentAccountId: null, type: 'custom' },
+    { id: 'sales', accountNumber: '4000', name: 'Sales Revenue', accountClass: 'Revenue', parentAccountId: null, type: 'custom' },
+    { id: 'rent', accountNumber: '6000', name: 'Rent Expense', accountClass: 'Expense', parentAccountId: null, type: 'custom' }
+  ];
+
+  const entries: LedgerEntry[] = [
+    { id: 'je-1', entryDate: '2024-01-15', lines: [{ accountId: 'bank', debit: 900, credit: 0 }, { accountId: 'sales', debit: 0, credit: 900 }] },
+    { id: 'je-2', entryDate: '2024-02-01', lines: [{ accountId: 'rent', debit: 250, credit: 0 }, { accountId: 'bank', debit: 0, credit: 250 }] },
+    { id: 'je-3', entryDate: '2024-04-02', lines: [{ accountId: 'bank', debit: 100, credit: 0 }, { accountId: 'sales', debit: 0, credit: 100 }] }
+  ];
+
+  it('should move revenue and expense balances up to the year end into retained earnings', () => {
+    const closing = periodLockService.buildClosingLines(accounts, entries, '2024-03-31', 'retained')!;
+
+    expect(closing).toMatchObject({ netProfit: 650, accountsClosed: 2 });
+    expect(closing.lines.map(line => [line.account_id, line.debit_amount, line.credit_amount])).toEqual([
+      ['sales', 900, 0],
+      ['rent', 0, 250],
+      ['retained', 0, 650]
+    ]);
+
+    // Closing again picks up nothing until more is posted to the year
+    const closed: LedgerEntry = {
+      id: 'je-close',
+      entryDate: '2024-03-31',
+      closing: true,
+      lines: closing.lines.map(line => ({ accountId: line.account_id, debit: line.debit_amount, credit: line.credit_amount }))
+    };
+    expect(periodLockService.buildClosingLines(accounts, [...entries, closed], '2024-03-31', 'retained')).toBeNull();
+
+    // The closed year still reports its profit, and the balance sheet is unchanged by the close
+    expect(financialReportsService.buildProfitLoss(accounts, [...entries, closed], '2023-04-01', '2024-03-31').netIncome).toBe(650);
+    expect(financialReportsService.buildBalanceSheet(accounts, [...entries, closed], '2024-03-31').equity).toBe(650);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { postingService } from '../postingService';
+import { Expense, Invoice } from '../../types';
+import { Payment } from '../../types/payment';
+import { PostedEntry, PostingRole } from '../../types/posting';
+
+describe('Automatic posting', () => {
+  const accounts: Partial<Record<PostingRole, string>> = {
+    receivables: 'acc-ar',
+    customer_credits: 'acc-credits',
+    sales: 'acc-sales',
+    gst_output: 'acc-gst-out',
+    bank: 'acc-bank',
+    cash: 'acc-cash',
+    expense: 'acc-expense',
+    gst_input: 'acc-gst-in'
+  };
+
+  const amounts = (lines: ReturnType<typeof postingService.resolveJournalLines>) =>
+    lines?.map(line => [line.account_id, line.debit_amount, line.credit_amount]);
+
+  it('should post sent invoices to receivables, sales and GST in the base currency', () => {
+    const invoice = {
+      id: 'inv-1',
+      invoiceNumber: 'INV-0042',
+      date: '2024-05-01',
+      status: 'sent',
+      total: 115,
+      taxAmount: 15,
+      exchangeRate: 1.1
+    } as Invoice;
+
+    const draft = postingService.buildInvoicePosting(invoice)!;
+    expect(draft).toMatchObject({ referenceType: 'invoice', referenceId: 'inv-1', entryDate: '2024-05-01' });
+    expect(amounts(postingService.resolveJournalLines(draft.legs, accounts))).toEqual([
+      ['acc-ar', 126.5, 0],
+      ['acc-sales', 0, 110],
+      ['acc-gst-out', 0, 16.5]
+    ]);
+
+    expect(postingService.buildInvoicePosting({ ...invoice, status: 'draft' })).toBeNull();
+    // Nothing posts when an account is missing rather than posting half an entry
+    expect(postingService.resolveJournalLines(draft.legs, { ...accounts, gst_output: undefined })).toBeNull();
+  });
+
+  it('should post payments to bank or cash and expenses against the account they were paid from', () => {
+    const payment = { id: 'pay-1', amount: 50, exchangeRate: 1, paymentMethod: 'cash', paymentDate: '2024-05-10', status: 'completed' } as Payment;
+    expect(amounts(postingService.resolveJournalLines(postingService.buildPaymentPosting(payment, 'INV-0042')!.legs, accounts))).toEqual([
+      ['acc-cash', 50, 0],
+      ['acc-ar', 0, 50]
+    ]);
+    expect(postingService.buildPaymentPosting({ ...payment, status: 'cancelled' })).toBeNull();
+
+    // A batch payment's overpayment is held as a liability rather than reducing receivables
+    const batchPayment = {
+      ...payment,
+      amount: 300,
+      paymentMethod: 'bank_transfer',
+      allocations: [{ invoiceId: 'inv-1', invoiceNumber: 'INV-0042', amountAllocated: 250, remainingBalance: 0 }]
+    } as Payment;
+    expect(amounts(postingService.resolveJournalLines(postingService.buildPaymentPosting(batchPayment)!.legs, accounts))).toEqual([
+      ['acc-bank', 300, 0],
+      ['acc-ar', 0, 250],
+      ['acc-credits', 0, 50]
+    ]);
+
+    const expense = { id: 'exp-1', description: 'Printer paper', amount: 23, taxAmount: 3, expenseDate: '2024-05-12', status: 'approved', accountId: 'acc-visa' } as Expense;
+    expect(amounts(postingService.resolveJournalLines(postingService.buildExpensePosting(expense)!.legs, accounts))).toEqual([
+      ['acc-expense', 20, 0],
+      ['acc-gst-in', 3, 0],
+      ['acc-visa', 0, 23]
+    ]);
+
+    // Zero GST leaves the GST leg out, and unrecorded accounts fall back to the bank
+    expect(amounts(postingService.resolveJournalLines(postingService.buildExpensePosting({ ...expense, taxAmount: 0, accountId: null })!.legs, accounts))).toEqual([
+      ['acc-expense', 23, 0],
+      ['acc-bank', 0, 23]
+    ]);
+  });
+
+  it('should find the standing entry and only repost when the posting changed', () => {
+    const lines = postingService.resolveJournalLines(
+      postingService.buildPaymentPosting({ id: 'pay-1', amount: 50, paymentMethod: 'bank_transfer', paymentDate: '2024-05-10', status: 'completed' } as Payment)!.legs,
+      accounts
+    )!;
+    const entry = (id: string, overrides: Partial<PostedEntry> = {}): PostedEntry => ({
+      id,
+      entryNumber: `JE-2024-${id}`,
+      entryDate: '2024-05-10',
+      description: 'Payment received',
+      reversesEntryId: null,
+      lines,
+      ...overrides
+    });
+
+    const original = entry('001');
+    const reversal = entry('002', { reversesEntryId: '001', lines: postingService.buildReversalLines(lines) });
+    const repost = entry('003');
+
+    expect(postingService.findActiveEntry([original])).toBe(original);
+    expect(postingService.findActiveEntry([original, reversal])).toBeNull();
+    expect(postingService.findActiveEntry([original, reversal, repost])).toBe(repost);
+
+    expect(postingService.isBalanced([...lines, ...reversal.lines])).toBe(true);
+    expect(reversal.lines.map(line => [line.debit_amount, line.credit_amount])).toEqual([[0, 50], [50, 0]]);
+
+    expect(postingService.isSamePosting(original, '2024-05-10', [...lines].reverse())).toBe(true);
+    expect(postingService.isSamePosting(original, '2024-05-11', lines)).toBe(false);
+    expect(postingService.isSamePosting(original, '2024-05-10', lines.map(line => ({ ...line, debit_amount: line.debit_amount && 60, credit_amount: line.credit_amount && 60 })))).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { quoteService } from '../quoteService';
+import { Quote } from '../../types/quote';
+import { AdditionalCharge } from '../../types';
+
+describe('Quote Service', () => {
+  const baseQuote: Quote = {
+    id: 'quote-1',
+    quoteNumber: 'QT-0001',
+    customerId: 'customer-1',
+    date: '2024-03-01',
+    expiryDate: '2024-03-31',
+    items: [
+      { id: 'line-1', description: 'Kitchen renovation labour', quantity: 20, unit: 'hour', rate: 85, total: 1700 },
+      { id: 'line-2', description: 'Benchtop', quantity: 1, unit: 'each', rate: 1300, total: 1300 }
+    ],
+    subtotal: 3000,
+    taxAmount: 450,
+    discount: 100,
+    additionalChargesList: [],
+    additionalChargesTotal: 0,
+    total: 3350,
+    status: 'sent',
+    notes: 'Materials supplied by us',
+    terms: 'Deposit required before work starts',
+    currency: 'NZD',
+    templateName: 'modern',
+    shareToken: 'token-1'
+  };
+
+  describe('getEffectiveStatus', () => {
+    it('should report a sent quote past its expiry date as expired', () => {
+      expect(quoteService.getEffectiveStatus(baseQuote, '2024-04-01')).toBe('expired');
+    });
+
+    it('should keep a sent quote open until the end of its expiry date', () => {
+      expect(quoteService.getEffectiveStatus(baseQuote, '2024-03-31')).toBe('sent');
+    });
+
+    it('should not expire quotes that have already been answered', () => {
+      expect(quoteService.getEffectiveStatus({ ...baseQuote, status: 'accepted' }, '2024-06-01')).toBe('accepted');
+    });
+  });
+
+  describe('canConvert', () => {
+    it('should allow converting accepted quotes once', () => {
+      expect(quoteService.canConvert({ ...baseQuote, status: 'accepted' })).toBe(true);
+      expect(quoteService.canConvert({ ...baseQuote, status: 'accepted', convertedInvoiceId: 'invoice-1' })).toBe(false);
+    });
+
+    it('should not convert declined quotes', () => {
+      expect(quoteService.canConvert({ ...baseQuote, status: 'declined' })).toBe(false);
+    });
+  });
+
+  describe('calculateQuoteTotals', () => {
+    it('should include GST, active additional charges and discount', () => {
+      const charges: AdditionalCharge[] = [
+        { id: 'c1', type: 'delivery', label: 'Delivery', calculationType: 'fixed', amount: 50, isActive: true },
+        { id: 'c2', type: 'rush', label: 'Rush', calculationType: 'percentage', amount: 10, isActive: true },
+        { id: 'c3', type: 'handling', label: 'Handling', calculationType: 'fixed', amount: 999, isActive: false }
+      ];
+
+      const totals = quoteService.calculateQuoteTotals(baseQuote.items, 15, charges, 100);
+
+      expect(totals).toEqual({
+        subtotal: 3000,
+        taxAmount: 450,
+        additionalChargesTotal: 350,
+        total: 3700
+      });
+    });
+  });
+
+  describe('buildInvoiceFromQuote', () => {
+    it('should carry over the customer, items and totals as a draft invoice', () => {
+      const invoice = quoteService.buildInvoiceFromQuote(
+        { ...baseQuote, status: 'accepted' },
+        'INV-0042',
+        '2024-03-10',
+        14
+      );
+
+      expect(invoice).toMatchObject({
+        invoiceNumber: 'INV-0042',
+        customerId: 'customer-1',
+        date: '2024-03-10',
+        dueDate: '2024-03-24',
+        subtotal: 3000,
+        taxAmount: 450,
+        discount: 100,
+        total: 3350,
+        status: 'draft',
+        currency: 'NZD',
+        templateName: 'modern',
+        notes: 'Materials supplied by us'
+      });
+      expect(invoice.items).toHaveLength(2);
+      expect(invoice.items[0]).toMatchObject({ description: 'Kitchen renovation labour', quantity: 20, unit: 'hour', rate: 85 });
+      expect(invoice.items[0].id).toBeUndefined();
+    });
+  });
+
+  describe('validateQuote', () => {
+    it('should accept a complete quote', () => {
+      expect(() => quoteService.validateQuote(baseQuote)).not.toThrow();
+    });
+
+    it('should require a customer', () => {
+      expect(() => quoteService.validateQuote({ ...baseQuote, customerId: '' })).toThrow('Customer is required');
+    });
+
+    it('should require at least one line item', () => {
+      expect(() => quoteService.validateQuote({ ...baseQuote, items: [] }))
+        .toThrow('A quote must have at least one line item');
+    });
+
+    it('should reject an expiry date before the quote date', () => {
+      expect(() => quoteService.validateQuote({ ...baseQuote, expiryDate: '2024-02-28' }))
+        .toThrow('Expiry date must be on or after the quote date');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { recurringInvoiceService } from '../recurringInvoiceService';
+import { RecurringInvoiceSchedule } from '../../types/recurringInvoice';
+import { Invoice } from '../../types';
+
+describe('Recurring Invoice Service', () => {
+  const baseSchedule: RecurringInvoiceSchedule = {
+    id: 'schedule-1',
+    name: 'Monthly retainer',
+    customerId: 'customer-1',
+    template: {
+      items: [
+        { description: 'Retainer', quantity: 1, unit: 'month', rate: 500, tax: 15, total: 500 }
+      ],
+      subtotal: 500,
+      taxAmount: 75,
+      total: 575,
+      currency: 'NZD',
+      dueInDays: 14
+    },
+    frequency: 'monthly',
+    startDate: '2024-01-31',
+    nextRunDate: '2024-01-31',
+    autoSend: false,
+    status: 'active',
+    occurrencesGenerated: 0
+  };
+
+  describe('calculateNextRunDate', () => {
+    it('should advance by the schedule frequency', () => {
+      expect(recurringInvoiceService.calculateNextRunDate('2024-01-01', 'weekly')).toBe('2024-01-08');
+      expect(recurringInvoiceService.calculateNextRunDate('2024-01-01', 'fortnightly')).toBe('2024-01-15');
+      expect(recurringInvoiceService.calculateNextRunDate('2024-01-01', 'quarterly')).toBe('2024-04-01');
+      expect(recurringInvoiceService.calculateNextRunDate('2024-01-01', 'yearly')).toBe('2025-01-01');
+    });
+
+    it('should clamp monthly runs to the end of shorter months', () => {
+      expect(recurringInvoiceService.calculateNextRunDate('2024-01-31', 'monthly')).toBe('2024-02-29');
+    });
+
+    it('should keep month-end schedules on the last day of each month', () => {
+      expect(recurringInvoiceService.calculateNextRunDate('2024-02-29', 'monthly', '2024-01-31')).toBe('2024-03-31');
+      expect(recurringInvoiceService.calculateNextRunDate('2024-03-31', 'monthly', '2024-01-31')).toBe('2024-04-30');
+      expect(recurringInvoiceService.calculateNextRunDate('2024-11-30', 'quarterly', '2024-08-31')).toBe('2025-02-28');
+    });
+  });
+
+  describe('getDueRunDates', () => {
+    it('should return every missed occurrence up to today', () => {
+      const runDates = recurringInvoiceService.getDueRunDates(
+        { ...baseSchedule, frequency: 'weekly', startDate: '2024-01-01', nextRunDate: '2024-01-01' },
+        '2024-01-20'
+      );
+
+      expect(runDates).toEqual(['2024-01-01', '2024-01-08', '2024-01-15']);
+    });
+
+    it('should not drift when catching up on a month-end schedule', () => {
+      const runDates = recurringInvoiceService.getDueRunDates(baseSchedule, '2024-05-31');
+
+      expect(runDates).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+    });
+
+    it('should stop at the schedule end date', () => {
+      const runDates = recurringInvoiceService.getDueRunDates(
+        { ...baseSchedule, frequency: 'weekly', startDate: '2024-01-01', nextRunDate: '2024-01-01', endDate: '2024-01-10' },
+        '2024-01-20'
+      );
+
+      expect(runDates).toEqual(['2024-01-01', '2024-01-08']);
+    });
+
+    it('should not generate runs for paused schedules', () => {
+      const runDates = recurringInvoiceService.getDueRunDates(
+        { ...baseSchedule, status: 'paused' },
+        '2024-06-01'
+      );
+
+      expect(runDates).toHaveLength(0);
+    });
+  });
+
+  describe('buildInvoiceFromSchedule', () => {
+    it('should create a draft invoice dated on the run date', () => {
+      const invoice = recurringInvoiceService.buildInvoiceFromSchedule(baseSchedule, 'INV-0042', '2024-03-01');
+
+      expect(invoice.invoiceNumber).toBe('INV-0042');
+      expect(invoice.date).toBe('2024-03-01');
+      expect(invoice.dueDate).toBe('2024-03-15');
+      expect(invoice.status).toBe('draft');
+      expect(invoice.total).toBe(575);
+      expect(invoice.items).toHaveLength(1);
+    });
+
+    it('should mark auto-send invoices as sent', () => {
+      const invoice = recurringInvoiceService.buildInvoiceFromSchedule(
+        { ...baseSchedule, autoSend: true },
+        'INV-0043',
+        '2024-03-01'
+      );
+
+      expect(invoice.status).toBe('sent');
+    });
+  });
+
+  describe('createTemplateFromInvoice', () => {
+    it('should strip line item ids and keep the payment terms', () => {
+      const invoice = {
+        id: 'invoice-1',
+        invoiceNumber: 'INV-0001',
+        customerId: 'customer-1',
+        date: '2024-01-01',
+        dueDate: '2024-01-21',
+        items: [
+          { id: 'item-1', invoiceId: 'invoice-1', description: 'Retainer', quantity: 1, unit: 'month', rate: 500, tax: 15, total: 500 }
+        ],
+        subtotal: 500,
+        taxAmount: 75,
+        total: 575,
+        status: 'sent',
+        currency: 'NZD',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      } as Invoice;
+
+      const template = recurringInvoiceService.createTemplateFromInvoice(invoice);
+
+      expect(template.dueInDays).toBe(20);
+      expect(template.items[0]).not.toHaveProperty('id');
+      expect(template.items[0]).not.toHaveProperty('invoiceId');
+    });
+  });
+
+  describe('validateSchedule', () => {
+    it('should reject an end date before the start date', () => {
+      expect(() => recurringInvoiceService.validateSchedule({
+        ...baseSchedule,
+        endDate: '2023-12-31'
+      })).toThrow('End date must be after start date');
+    });
+  });
+});
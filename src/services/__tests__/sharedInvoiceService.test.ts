@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { sharedInvoiceService } from '../supabaseService';
+import { SharedInvoice } from '../../types';
+
+describe('Share links', () => {
+  const now = new Date('2024-06-01T12:00:00.000Z');
+
+  const link = (overrides: Partial<SharedInvoice> = {}): SharedInvoice => ({
+    id: 'share-1',
+    originalInvoiceId: 'inv-1',
+    invoiceData: {} as SharedInvoice['invoiceData'],
+    templateData: { templateName: 'classic', businessProfile: {} as SharedInvoice['templateData']['businessProfile'] },
+    shareToken: 'token-1',
+    createdAt: '2024-05-01T00:00:00.000Z',
+    expiresAt: null,
+    accessCount: 0,
+    isActive: true,
+    createdBy: 'user-1',
+    ...overrides
+  });
+
+  it('should report revoked before expired', () => {
+    expect(sharedInvoiceService.getShareLinkStatus(link(), now)).toBe('active');
+    expect(sharedInvoiceService.getShareLinkStatus(link({ expiresAt: '2024-06-02T00:00:00.000Z' }), now)).toBe('active');
+    expect(sharedInvoiceService.getShareLinkStatus(link({ expiresAt: '2024-05-31T00:00:00.000Z' }), now)).toBe('expired');
+    expect(sharedInvoiceService.getShareLinkStatus(link({ isActive: false, expiresAt: '2024-05-31T00:00:00.000Z' }), now)).toBe('revoked');
+  });
+
+  it('should extend from the current expiry while it is still ahead, otherwise from now', () => {
+    expect(sharedInvoiceService.getExtendedExpiry('2024-06-10T12:00:00.000Z', 7, now)).toBe('2024-06-17T12:00:00.000Z');
+    expect(sharedInvoiceService.getExtendedExpiry('2024-05-10T12:00:00.000Z', 7, now)).toBe('2024-06-08T12:00:00.000Z');
+    expect(sharedInvoiceService.getExtendedExpiry(null, 30, now)).toBe('2024-07-01T12:00:00.000Z');
+    expect(() => sharedInvoiceService.getExtendedExpiry(null, 0, now)).toThrow('Extension must be at least one day');
+  });
+
+  it('should require passcodes of at least eight characters', () => {
+    expect(() => sharedInvoiceService.validateSharePasscode('48213579')).not.toThrow();
+    expect(() => sharedInvoiceService.validateSharePasscode(' 4821357 ')).toThrow('Passcode must be at least 8 characters');
+  });
+});
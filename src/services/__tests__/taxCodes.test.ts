@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { TaxCalculationService } from '../taxCalculationService';
+import { TaxConfiguration } from '@/types/payment';
+
+describe('Tax codes', () => {
+  const service = new TaxCalculationService();
+
+  const taxConfig: TaxConfiguration = {
+    id: 'tax-config',
+    userId: 'user-1',
+    countryCode: 'NZ',
+    taxType: 'GST',
+    taxRate: 0.15,
+    taxName: 'GST',
+    appliesToServices: true,
+    appliesToGoods: true,
+    effectiveFrom: '2024-01-01',
+    isActive: true,
+    createdAt: '2024-01-01',
+    updatedAt: '2024-01-01'
+  };
+
+  describe('resolveTaxCode', () => {
+    it('should prefer the line code and fall back to the legacy taxable flag', () => {
+      expect(service.resolveTaxCode({ taxCode: 'EXEMPT', taxable: true })).toBe('EXEMPT');
+      expect(service.resolveTaxCode({ taxable: false })).toBe('ZERO');
+      expect(service.resolveTaxCode({})).toBe('GST15');
+    });
+  });
+
+  describe('calculateTax', () => {
+    it('should only charge GST on standard-rated lines', () => {
+      const result = service.calculateTax({
+        items: [
+          { description: 'Consulting', quantity: 1, unitPrice: 1000, taxCode: 'GST15' },
+          { description: 'Export freight', quantity: 1, unitPrice: 500, taxCode: 'ZERO' },
+          { description: 'Interest', quantity: 1, unitPrice: 200, taxCode: 'EXEMPT' }
+        ],
+        taxInclusive: false
+      }, taxConfig);
+
+      expect(result.subtotal).toBe(1700);
+      expect(result.taxAmount).toBe(150);
+      expect(result.total).toBe(1850);
+      expect(result.breakdown.lineItems.map(line => line.taxAmount)).toEqual([150, 0, 0]);
+      expect(result.breakdown.taxCodeTotals).toEqual({
+        GST15: { amount: 1000, taxAmount: 150 },
+        ZERO: { amount: 500, taxAmount: 0 },
+        EXEMPT: { amount: 200, taxAmount: 0 }
+      });
+    });
+
+    it('should apportion a discount between standard and zero-rated lines', () => {
+      const result = service.calculateTax({
+        items: [
+          { description: 'Standard', quantity: 1, unitPrice: 600, taxCode: 'GST15' },
+          { description: 'Zero', quantity: 1, unitPrice: 400, taxCode: 'ZERO' }
+        ],
+        discounts: 100,
+        taxInclusive: false
+      }, taxConfig);
+
+      // 60 of the discount comes off the standard-rated lines
+      expect(result.subtotal).toBe(900);
+      expect(result.taxAmount).toBe(81);
+      expect(result.breakdown.taxCodeTotals).toEqual({
+        GST15: { amount: 540, taxAmount: 81 },
+        ZERO: { amount: 360, taxAmount: 0 }
+      });
+    });
+
+    it('should extract GST only from standard-rated tax-inclusive lines', () => {
+      const result = service.calculateTax({
+        items: [
+          { description: 'Standard', quantity: 1, unitPrice: 115, taxCode: 'GST15' },
+          { description: 'Out of scope', quantity: 1, unitPrice: 50, taxCode: 'NOTAX' }
+        ],
+        taxInclusive: true
+      }, taxConfig);
+
+      expect(result.taxAmount).toBe(15);
+      expect(result.subtotal).toBe(150);
+      expect(result.total).toBe(165);
+    });
+  });
+
+  describe('calculateGSTReturnSales', () => {
+    it('should bucket sales by tax code', async () => {
+      const result = await service.calculateGSTReturnSales([
+        { amount: 1150, taxInclusive: true, taxCode: 'GST15' },
+        { amount: 500, taxInclusive: true, taxCode: 'ZERO' },
+        { amount: 200, taxInclusive: true, taxCode: 'EXEMPT' },
+        { amount: 80, taxInclusive: true, taxCode: 'NOTAX' }
+      ], taxConfig);
+
+      expect(result).toEqual({
+        totalSales: 1650,
+        gstOnSales: 150,
+        standardRated: 1150,
+        zeroRated: 500,
+        exempt: 200
+      });
+    });
+  });
+
+  describe('splitInvoiceByTaxCode', () => {
+    it('should spread the invoice net across codes and add GST to standard-rated sales', () => {
+      const sales = service.splitInvoiceByTaxCode({
+        total: 1000,
+        taxAmount: 90,
+        lineItems: [
+          { total: 700, taxCode: 'GST15' },
+          { total: 300, taxCode: 'ZERO' }
+        ]
+      });
+
+      // Net 910 after a discount, scaled across lines totalling 1000
+      expect(sales).toEqual([
+        { amount: 727, taxInclusive: true, taxable: true, taxCode: 'GST15' },
+        { amount: 273, taxInclusive: true, taxable: false, taxCode: 'ZERO' }
+      ]);
+    });
+
+    it('should treat an invoice without lines as standard-rated', () => {
+      expect(service.splitInvoiceByTaxCode({ total: 115, taxAmount: 15 })).toEqual([
+        { amount: 115, taxInclusive: true, taxable: true, taxCode: 'GST15' }
+      ]);
+    });
+
+    it('should report foreign currency invoices in the base currency at the locked rate', () => {
+      const sales = service.splitInvoiceByTaxCode({
+        total: 230,
+        taxAmount: 30,
+        exchangeRate: 1.6,
+        lineItems: [
+          { total: 100, taxCode: 'GST15' },
+          { total: 100, taxCode: 'ZERO' }
+        ]
+      });
+
+      expect(sales).toEqual([
+        { amount: 208, taxInclusive: true, taxable: true, taxCode: 'GST15' },
+        { amount: 160, taxInclusive: true, taxable: false, taxCode: 'ZERO' }
+      ]);
+    });
+  });
+});
@@ -96,6 +96,30 @@ describe('Transaction Import Service', () => {
 
       expect(duplicates).toHaveLength(1);
     });
+
+    it('should use the bank transaction id when both sides have one', () => {
+      const transactions: ImportedTransaction[] = [
+        { date: '2024-01-15', description: 'Coffee', amount: 4.50, type: 'debit', externalId: 'FIT-1' },
+        { date: '2024-01-15', description: 'Coffee', amount: 4.50, type: 'debit', externalId: 'FIT-2' }
+      ];
+
+      const existing = [
+        {
+          id: '1',
+          transactionDate: '2024-01-20',
+          description: 'COFFEE SHOP',
+          externalId: 'FIT-1',
+          amount: 4.50,
+          type: 'debit' as const,
+          bankAccountId: mockBankAccountId,
+          isReconciled: false
+        }
+      ];
+
+      const duplicates = transactionImportService.detectDuplicates(transactions, existing);
+
+      expect(duplicates).toEqual([0]);
+    });
   });
 
   describe('categorizeTransactions', () => {
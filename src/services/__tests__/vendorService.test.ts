@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { vendorService } from '../vendorService';
+import { ImportedTransaction } from '../../types/bankTransaction';
+import { Vendor, VendorSpendRecord } from '../../types/vendor';
+
+describe('Vendors', () => {
+  const vendor = (id: string, name: string, overrides: Partial<Vendor> = {}): Vendor => ({
+    id, name, aliases: [], isActive: true, ...overrides
+  });
+
+  const vendors: Vendor[] = [
+    vendor('v-1', 'Bunnings Warehouse', { defaultExpenseCategoryId: 'cat-hardware' }),
+    vendor('v-2', 'Countdown', { aliases: ['CDOWN AKL'] }),
+    vendor('v-3', 'Old Supplier', { isActive: false }),
+  ];
+
+  describe('vendor name matching', () => {
+    it('should ignore case, punctuation, store numbers and company suffixes', () => {
+      expect(vendorService.normaliseVendorName('COUNTDOWN #123 Ltd.')).toBe('countdown');
+      expect(vendorService.vendorNameSimilarity('Count Down', 'countdown')).toBe(1);
+      expect(vendorService.vendorNameSimilarity('Bunings', 'Bunnings')).toBeGreaterThan(0.8);
+      expect(vendorService.vendorNameSimilarity('BP', 'BNZ')).toBeLessThan(0.5);
+    });
+
+    it('should match active vendors by name, containment or merged spelling', () => {
+      expect(vendorService.findVendorMatch('Bunnings', vendors)?.vendor.id).toBe('v-1');
+      expect(vendorService.findVendorMatch('cdown akl', vendors)?.vendor.id).toBe('v-2');
+      expect(vendorService.findVendorMatch('Old Supplier', vendors)).toBeNull();
+      expect(vendorService.findVendorMatch('Mitre 10', vendors)).toBeNull();
+    });
+  });
+
+  it('should link imported transactions to vendors without overriding bank rules', () => {
+    const transactions: ImportedTransaction[] = [
+      { date: '2024-05-01', description: 'EFTPOS BUNNINGS WAREHOUSE 4021 AKL', amount: 80, type: 'debit' },
+      { date: '2024-05-02', description: 'POS', merchant: 'Countdown', amount: 40, type: 'debit', expenseCategoryId: 'cat-rule' },
+      { date: '2024-05-03', description: 'SALARY', amount: 2000, type: 'credit' },
+    ];
+
+    const [bunnings, countdown, salary] = vendorService.applyVendors(transactions, vendors);
+
+    expect(bunnings).toMatchObject({ vendorId: 'v-1', merchant: 'Bunnings Warehouse', expenseCategoryId: 'cat-hardware' });
+    expect(countdown).toMatchObject({ vendorId: 'v-2', expenseCategoryId: 'cat-rule' });
+    expect(salary.vendorId).toBeUndefined();
+  });
+
+  it('should group spellings of the same supplier for merging', () => {
+    const names = vendorService.summariseVendorNames([
+      { name: 'Z Energy', amount: 50 },
+      { name: 'Z Energy', amount: 60 },
+      { name: 'Z-Energy Ltd', amount: 40 },
+      { name: 'BUNNINGS', amount: 25 },
+      { name: 'Stationery Co', amount: 10 },
+    ]);
+
+    const groups = vendorService.groupVendorNames(names, vendors);
+
+    expect(groups.map(group => [group.suggestedName, group.names.map(usage => usage.name), group.total])).toEqual([
+      ['Z Energy', ['Z Energy', 'Z-Energy Ltd'], 150],
+      ['Bunnings Warehouse', ['BUNNINGS'], 25],
+      ['Stationery Co', ['Stationery Co'], 10],
+    ]);
+    expect(groups[1].vendor?.id).toBe('v-1');
+  });
+
+  it('should total spend per vendor in the period with unlinked spend last', () => {
+    const records: VendorSpendRecord[] = [
+      { vendorId: 'v-1', date: '2024-04-10', amount: 115, taxAmount: 15, source: 'expense' },
+      { vendorId: 'v-1', date: '2024-05-20', amount: 230, taxAmount: 30, source: 'bill' },
+      { vendorId: 'v-2', date: '2024-05-01', amount: 400, taxAmount: 0, source: 'expense' },
+      { vendorId: null, date: '2024-05-05', amount: 999, taxAmount: 0, source: 'expense' },
+      { vendorId: 'v-2', date: '2024-07-01', amount: 50, taxAmount: 0, source: 'expense' },
+    ];
+
+    const report = vendorService.buildVendorSpendReport(records, vendors, '2024-04-01', '2024-06-30');
+
+    expect(report.vendors.map(spend => [spend.vendorName, spend.total])).toEqual([
+      ['Countdown', 400],
+      ['Bunnings Warehouse', 345],
+      ['Unassigned', 999],
+    ]);
+    expect(report.vendors[1]).toMatchObject({ expenseCount: 1, billCount: 1, taxAmount: 45, lastPurchaseDate: '2024-05-20' });
+    expect(report.total).toBe(1744);
+  });
+});
@@ -1,6 +1,9 @@
 import { supabase } from '@/integrations/supabase/client';
 import { FinancialSummary, AccountBalanceSummary } from '@/types/payment';
+import { AgingBuckets } from '@/types/statement';
 import { startOfMonth, endOfMonth, format } from 'date-fns';
+import { exchangeRateService } from './exchangeRateService';
+import { billService } from './billService';
 
 export interface FinancialPeriod {
   startDate: string;
@@ -34,7 +37,7 @@ export class AccountingService {
       // Get invoices data with error handling
       const { data: invoices, error: invoicesError } = await supabase
         .from('invoices')
-        .select('total, status')
+        .select('total, status, exchange_rate')
         .eq('user_id', user.id)
         .gte('date', startDate)
         .lte('date', endDate);
@@ -64,7 +67,7 @@ export class AccountingService {
       // Get payments data with error handling
       const { data: payments, error: paymentsError } = await supabase
         .from('payments')
-        .select('amount')
+        .select('amount, exchange_rate')
         .eq('user_id', user.id)
         .gte('payment_date', startDate)
         .lte('payment_date', endDate);
@@ -77,15 +80,16 @@ export class AccountingService {
 
       console.log('Payments fetched:', payments?.length || 0);
 
-      // Calculate totals
-      const totalRevenue = invoices?.reduce((sum, invoice) => sum + (invoice.total || 0), 0) || 0;
+      // Calculate totals, converting foreign currency invoices at their locked rates
+      const baseCurrency = await exchangeRateService.getBaseCurrency();
+      const totalRevenue = invoices?.reduce((sum, invoice) => sum + exchangeRateService.convertToBase(invoice.total, invoice.exchange_rate), 0) || 0;
       const totalExpenses = expenses?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
       const netIncome = totalRevenue - totalExpenses;
 
       // Calculate receivables (unpaid invoices)
       const { data: unpaidInvoices, error: unpaidError } = await supabase
         .from('invoices')
-        .select('total')
+        .select('total, exchange_rate')
         .eq('user_id', user.id)
         .eq('status', 'sent');
 
@@ -94,17 +98,18 @@ export class AccountingService {
         // Don't throw, use fallback
       }
 
-      const totalReceivables = unpaidInvoices?.reduce((sum, invoice) => sum + (invoice.total || 0), 0) || 0;
+      const totalReceivables = unpaidInvoices?.reduce((sum, invoice) => sum + exchangeRateService.convertToBase(invoice.total, invoice.exchange_rate), 0) || 0;
       const outstandingInvoices = unpaidInvoices?.length || 0;
 
       // Calculate cash position from payments
-      const cashPosition = payments?.reduce((sum, payment) => sum + (payment.amount || 0), 0) || 0;
+      const cashPosition = payments?.reduce((sum, payment) => sum + exchangeRateService.convertToBase(payment.amount, payment.exchange_rate), 0) || 0;
 
       // Calculate GST liability using real tax calculation service
       const gstLiability = await this.calculateRealGSTLiability(startDate, endDate);
 
-      // Calculate real payables from pending expenses
-      const totalPayables = await this.calculateRealPayables();
+      // Calculate real payables from unpaid supplier bills
+      const { aging: payablesAging, openBills } = await this.calculateRealPayables();
+      const totalPayables = payablesAging.total;
 
       const result = {
         totalRevenue,
@@ -112,9 +117,12 @@ export class AccountingService {
         netIncome,
         totalReceivables,
         totalPayables,
+        payablesAging,
+        openBills,
         cashPosition,
         gstLiability,
         outstandingInvoices,
+        baseCurrency,
         period: {
           startDate,
           endDate
@@ -410,22 +418,15 @@ export class AccountingService {
     }
   }
 
-  private async calculateRealPayables(): Promise<number> {
+  private async calculateRealPayables(): Promise<{ aging: AgingBuckets; openBills: number }> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return 0;
-
-      // Get pending/unpaid expenses
-      const { data: pendingExpenses } = await supabase
-        .from('expenses')
-        .select('amount')
-        .eq('user_id', user.id)
-        .eq('status', 'pending');
-
-      return pendingExpenses?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
+      return await billService.getPayablesAging();
     } catch (error) {
       console.error('Error calculating payables:', error);
-      return 0;
+      return {
+        aging: { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 },
+        openBills: 0
+      };
     }
   }
 }
@@ -0,0 +1,233 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditLogFilters,
+  AuditTrail,
+  SupabaseAuditLog
+} from '../types/payment';
+
+// The global log loads at most this many entries; narrow the filters to see older ones
+const AUDIT_LOG_LIMIT = 500;
+
+// Bookkeeping columns that change on every write and say nothing about the record
+const IGNORED_FIELDS = new Set(['id', 'user_id', 'created_at', 'updated_at']);
+
+// Actions whose entries carry before/after values for the changed fields
+const CHANGE_ACTIONS = new Set<AuditAction>(['update', 'status_change', 'share']);
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  status_change: 'Status changed',
+  delete: 'Deleted',
+  send: 'Sent',
+  share: 'Shared',
+  view: 'Viewed',
+  payment: 'Payment',
+  reminder: 'Reminder',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  invoice: 'Invoice',
+  customer: 'Customer',
+  expense: 'Expense',
+  journal_entry: 'Journal entry',
+};
+
+const mapSupabaseAuditLogToAuditTrail = (log: SupabaseAuditLog): AuditTrail => ({
+  id: log.id,
+  userId: log.user_id,
+  actorId: log.actor_id,
+  actorEmail: log.actor_email,
+  action: log.action as AuditAction,
+  entityType: log.entity_type as AuditEntityType,
+  entityId: log.entity_id,
+  entityLabel: log.entity_label,
+  oldData: log.old_data || undefined,
+  newData: log.new_data || undefined,
+  timestamp: log.created_at,
+  userAgent: log.user_agent || undefined,
+});
+
+const formatAmount = (value: unknown): string => Number(value ?? 0).toFixed(2);
+
+export const auditService = {
+  // Oldest first, for a timeline
+  async getEntityHistory(entityType: AuditEntityType, entityId: string): Promise<AuditTrail[]> {
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching audit history:', error);
+      throw error;
+    }
+
+    return (data as SupabaseAuditLog[]).map(mapSupabaseAuditLogToAuditTrail);
+  },
+
+  // Newest first; free-text search runs over the loaded entries so it can match changed values
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditTrail[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      return [];
+    }
+
+    let query = supabase
+      .from('audit_logs')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(AUDIT_LOG_LIMIT);
+
+    if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.fromDate) query = query.gte('created_at', filters.fromDate);
+    if (filters.toDate) query = query.lte('created_at', `${filters.toDate}T23:59:59.999Z`);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching audit log:', error);
+      throw error;
+    }
+
+    const entries = (data as SupabaseAuditLog[]).map(mapSupabaseAuditLogToAuditTrail);
+    return this.filterAuditEntries(entries, filters.search);
+  },
+
+  // For activity that leaves no row change behind, such as emailing an invoice.
+  // Failures are logged rather than thrown so they never undo the action being audited.
+  async logEvent(
+    entityType: AuditEntityType,
+    entityId: string,
+    action: AuditAction,
+    details: { label?: string; data?: Record<string, unknown> } = {}
+  ): Promise<void> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user?.id) return;
+
+      const { error } = await supabase
+        .from('audit_logs')
+        .insert([{
+          user_id: user.id,
+          actor_id: user.id,
+          actor_email: user.email || null,
+          entity_type: entityType,
+          entity_id: entityId,
+          entity_label: details.label || null,
+          action,
+          new_data: (details.data || null) as Json,
+          user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null
+        }]);
+
+      if (error) {
+        console.error('Error recording audit event:', error);
+      }
+    } catch (error) {
+      console.error('Error recording audit event:', error);
+    }
+  },
+
+  // Field-level before/after values; creates and deletes are described rather than listed field by field
+  getAuditChanges(entry: AuditTrail): AuditChange[] {
+    if (!CHANGE_ACTIONS.has(entry.action) || !entry.oldData) {
+      return [];
+    }
+
+    const before = entry.oldData;
+    const after = entry.newData || {};
+
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter(field => !IGNORED_FIELDS.has(field));
+
+    return fields
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .sort((a, b) => (a === 'status' ? -1 : b === 'status' ? 1 : a.localeCompare(b)))
+      .map(field => ({ field, before: before[field], after: after[field] }));
+  },
+
+  describeAuditEntry(entry: AuditTrail): string {
+    const data = entry.newData || {};
+    const previous = entry.oldData || {};
+
+    switch (entry.action) {
+      case 'create':
+        return `${AUDIT_ENTITY_LABELS[entry.entityType]} created`;
+      case 'delete':
+        return `${AUDIT_ENTITY_LABELS[entry.entityType]} deleted`;
+      case 'status_change':
+        return `Status changed from ${previous.status ?? 'none'} to ${data.status}`;
+      case 'update': {
+        const count = this.getAuditChanges(entry).length;
+        return `${count} field${count !== 1 ? 's' : ''} updated`;
+      }
+      case 'send':
+        return data.to ? `Sent to ${data.to}` : 'Sent';
+      case 'share':
+        if (!entry.oldData) return 'Share link created';
+        if (data.is_active === false) return 'Share link revoked';
+        if (data.is_active === true) return 'Share link reactivated';
+        if ('expires_at' in data) return 'Share link expiry changed';
+        return 'Share link updated';
+      case 'view':
+        return 'Viewed through share link';
+      case 'payment': {
+        const method = data.payment_method ? ` by ${String(data.payment_method).replace('_', ' ')}` : '';
+        return `Payment of ${formatAmount(data.amount)} recorded${method}`;
+      }
+      case 'reminder': {
+        const reminder = data.reminder_type ? `${this.formatAuditField(data.reminder_type)} reminder` : 'Reminder';
+        return data.sent_to ? `${reminder} sent to ${data.sent_to}` : `${reminder} sent`;
+      }
+      default:
+        return AUDIT_ACTION_LABELS[entry.action] || entry.action;
+    }
+  },
+
+  // Share link views are anonymous; other entries without a user were written by the system
+  getActorLabel(entry: AuditTrail): string {
+    return entry.actorEmail || (entry.action === 'view' ? 'Customer' : 'System');
+  },
+
+  formatAuditField(field: string): string {
+    const words = field.replace(/_/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  },
+
+  formatAuditValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  },
+
+  // Matches the record, who made the change, the action and any changed field name or value
+  filterAuditEntries(entries: AuditTrail[], search?: string): AuditTrail[] {
+    const term = search?.trim().toLowerCase();
+    if (!term) return entries;
+
+    return entries.filter(entry => {
+      const haystack = [
+        entry.entityLabel,
+        entry.actorEmail,
+        AUDIT_ENTITY_LABELS[entry.entityType],
+        AUDIT_ACTION_LABELS[entry.action],
+        this.describeAuditEntry(entry),
+        ...this.getAuditChanges(entry).flatMap(change => [
+          change.field,
+          this.formatAuditField(change.field),
+          this.formatAuditValue(change.before),
+          this.formatAuditValue(change.after)
+        ])
+      ];
+      return haystack.some(value => value?.toLowerCase().includes(term));
+    });
+  }
+};
@@ -10,6 +10,8 @@ const mapSupabaseBankAccountToBankAccount = (account: SupabaseBankAccount): Bank
   currency: account.currency,
   openingBalance: account.opening_balance,
   currentBalance: account.current_balance,
+  statementBalance: account.statement_balance ?? null,
+  statementDate: account.statement_date ?? null,
   isActive: account.is_active,
   userId: account.user_id,
   createdAt: account.created_at,
@@ -128,6 +130,8 @@ export const bankAccountService = {
     if (account.currency !== undefined) updateData.currency = account.currency;
     if (account.openingBalance !== undefined) updateData.opening_balance = account.openingBalance;
     if (account.currentBalance !== undefined) updateData.current_balance = account.currentBalance;
+    if (account.statementBalance !== undefined) updateData.statement_balance = account.statementBalance;
+    if (account.statementDate !== undefined) updateData.statement_date = account.statementDate;
     if (account.isActive !== undefined) updateData.is_active = account.isActive;
 
     const { data, error } = await supabase
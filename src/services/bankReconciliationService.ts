@@ -0,0 +1,403 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Expense } from '@/types';
+import { BankAccount, BankTransaction, SupabaseBankTransaction } from '../types/bankTransaction';
+import {
+  MatchConfidence,
+  MatchSuggestion,
+  MatchSuggestionOptions,
+  ReconciliationCandidate,
+  ReconciliationMatch,
+  ReconciliationSummary,
+  SupabaseReconciliationMatch
+} from '../types/bankReconciliation';
+import { expenseService } from './supabaseService';
+import { bankAccountService } from './bankAccountService';
+import { mapSupabaseBankTransactionToBankTransaction, transactionImportService } from './transactionImportService';
+
+const DEFAULT_DATE_WINDOW_DAYS = 7;
+const DEFAULT_MAX_CANDIDATES_PER_MATCH = 3;
+const DEFAULT_MAX_SUGGESTIONS = 5;
+// Nearest candidates searched for one-to-many matches, to keep the combination search small
+const GROUP_SEARCH_LIMIT = 12;
+
+const AMOUNT_WEIGHT = 60;
+const DATE_WEIGHT = 25;
+const REFERENCE_WEIGHT = 15;
+const GROUP_PENALTY_PER_EXTRA_RECORD = 5;
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const daysBetween = (date1: string, date2: string): number =>
+  Math.abs(new Date(date1).getTime() - new Date(date2).getTime()) / (1000 * 60 * 60 * 24);
+
+const normaliseReference = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const tokenise = (value: string): Set<string> =>
+  new Set(value.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length >= 3));
+
+// Money in is positive, money out negative
+const signedAmount = (transaction: Pick<BankTransaction, 'amount' | 'type'>): number =>
+  transaction.type === 'credit' ? transaction.amount : -transaction.amount;
+
+const candidateTypeFor = (transaction: Pick<BankTransaction, 'type'>) =>
+  transaction.type === 'credit' ? 'payment' : 'expense';
+
+const mapSupabaseMatchToMatch = (match: SupabaseReconciliationMatch): ReconciliationMatch => ({
+  id: match.id,
+  bankTransactionId: match.bank_transaction_id,
+  matchType: match.match_type,
+  paymentId: match.payment_id,
+  expenseId: match.expense_id,
+  amount: Number(match.amount),
+  userId: match.user_id,
+  createdAt: match.created_at
+});
+
+const mapExpenseToCandidate = (expense: Expense): ReconciliationCandidate => ({
+  id: expense.id,
+  matchType: 'expense',
+  date: expense.expenseDate,
+  amount: expense.amount,
+  description: [expense.vendorName, expense.description].filter(Boolean).join(' - '),
+  reference: null
+});
+
+interface PaymentCandidateRow {
+  id: string;
+  amount: number;
+  payment_date: string;
+  reference_number: string | null;
+  invoices: { invoice_number: string; customers: { name: string } | null } | null;
+}
+
+const mapPaymentRowToCandidate = (payment: PaymentCandidateRow): ReconciliationCandidate => ({
+  id: payment.id,
+  matchType: 'payment',
+  date: payment.payment_date,
+  amount: Number(payment.amount),
+  description: [payment.invoices?.customers?.name, payment.invoices?.invoice_number].filter(Boolean).join(' - '),
+  reference: payment.reference_number || payment.invoices?.invoice_number || null
+});
+
+const combinations = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  return items.flatMap((item, index) =>
+    combinations(items.slice(index + 1), size - 1).map(rest => [item, ...rest])
+  );
+};
+
+const confidenceFor = (score: number): MatchConfidence =>
+  score >= 85 ? 'high' : score >= 70 ? 'medium' : 'low';
+
+export const bankReconciliationService = {
+  async getReconciliationMatches(bankAccountId: string): Promise<ReconciliationMatch[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('bank_reconciliation_matches')
+      .select('*, bank_transactions!inner(bank_account_id)')
+      .eq('user_id', user.id)
+      .eq('bank_transactions.bank_account_id', bankAccountId);
+
+    if (error) {
+      console.error('Error fetching reconciliation matches:', error);
+      throw error;
+    }
+
+    return ((data || []) as unknown as SupabaseReconciliationMatch[]).map(mapSupabaseMatchToMatch);
+  },
+
+  // Completed payments and non-rejected expenses that are not yet matched to a bank transaction
+  async getCandidates(): Promise<ReconciliationCandidate[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const [paymentsResult, matchesResult, expenses] = await Promise.all([
+      supabase
+        .from('payments')
+        .select('id, amount, payment_date, reference_number, invoices(invoice_number, customers(name))')
+        .eq('user_id', user.id)
+        .eq('status', 'completed'),
+      supabase
+        .from('bank_reconciliation_matches')
+        .select('payment_id, expense_id')
+        .eq('user_id', user.id),
+      expenseService.getExpenses()
+    ]);
+
+    if (paymentsResult.error) {
+      console.error('Error fetching payments for reconciliation:', paymentsResult.error);
+      throw paymentsResult.error;
+    }
+
+    if (matchesResult.error) {
+      console.error('Error fetching reconciliation matches:', matchesResult.error);
+      throw matchesResult.error;
+    }
+
+    const matchedIds = new Set(
+      (matchesResult.data || []).flatMap(match => [match.payment_id, match.expense_id]).filter(Boolean)
+    );
+
+    const payments = ((paymentsResult.data || []) as unknown as PaymentCandidateRow[])
+      .filter(payment => !matchedIds.has(payment.id))
+      .map(mapPaymentRowToCandidate);
+
+    const expenseCandidates = expenses
+      .filter(expense => expense.status !== 'rejected' && !matchedIds.has(expense.id))
+      .map(mapExpenseToCandidate);
+
+    return [...payments, ...expenseCandidates];
+  },
+
+  // 1 when the candidate's reference appears in the bank text, otherwise a fuzzy description/token comparison
+  referenceSimilarity(transaction: BankTransaction, candidate: ReconciliationCandidate): number {
+    const bankText = [transaction.description, transaction.reference, transaction.merchant].filter(Boolean).join(' ');
+    const candidateReference = normaliseReference(candidate.reference || '');
+
+    if (candidateReference.length >= 3 && normaliseReference(bankText).includes(candidateReference)) {
+      return 1;
+    }
+
+    const hasWords = (value: string) => /[a-z]/i.test(value.replace(/[#\d\s]+/g, ''));
+    if (
+      hasWords(transaction.description) &&
+      hasWords(candidate.description) &&
+      transactionImportService.fuzzyDescriptionMatch(transaction.description, candidate.description)
+    ) {
+      return 0.75;
+    }
+
+    const bankTokens = tokenise(bankText);
+    const candidateTokens = tokenise(`${candidate.description} ${candidate.reference || ''}`);
+    if (bankTokens.size === 0 || candidateTokens.size === 0) return 0;
+
+    const shared = Array.from(candidateTokens).filter(token => bankTokens.has(token)).length;
+    return (shared / Math.min(bankTokens.size, candidateTokens.size)) * 0.5;
+  },
+
+  // Suggests single records or small groups whose total equals the transaction, ranked by date and reference
+  suggestMatches(
+    transaction: BankTransaction,
+    candidates: ReconciliationCandidate[],
+    options: MatchSuggestionOptions = {}
+  ): MatchSuggestion[] {
+    const {
+      dateWindowDays = DEFAULT_DATE_WINDOW_DAYS,
+      maxCandidatesPerMatch = DEFAULT_MAX_CANDIDATES_PER_MATCH,
+      maxSuggestions = DEFAULT_MAX_SUGGESTIONS
+    } = options;
+
+    const eligible = candidates
+      .filter(candidate => candidate.matchType === candidateTypeFor(transaction))
+      .filter(candidate => daysBetween(candidate.date, transaction.transactionDate) <= dateWindowDays)
+      .sort((a, b) => daysBetween(a.date, transaction.transactionDate) - daysBetween(b.date, transaction.transactionDate));
+
+    const scoreGroup = (group: ReconciliationCandidate[]): MatchSuggestion => {
+      const maxDays = Math.max(...group.map(candidate => daysBetween(candidate.date, transaction.transactionDate)));
+      const similarity = Math.max(...group.map(candidate => this.referenceSimilarity(transaction, candidate)));
+      const dateScore = DATE_WEIGHT * (1 - maxDays / (dateWindowDays + 1));
+      const score = Math.round(
+        AMOUNT_WEIGHT + dateScore + REFERENCE_WEIGHT * similarity - GROUP_PENALTY_PER_EXTRA_RECORD * (group.length - 1)
+      );
+
+      const reasons = [
+        group.length === 1 ? 'Amount matches exactly' : `${group.length} records add up to the amount`,
+        maxDays === 0 ? 'Same date' : `Within ${Math.ceil(maxDays)} day${Math.ceil(maxDays) === 1 ? '' : 's'}`
+      ];
+      if (similarity >= 0.75) reasons.push('Reference matches');
+
+      return {
+        bankTransactionId: transaction.id,
+        candidates: group,
+        score,
+        confidence: confidenceFor(score),
+        reasons
+      };
+    };
+
+    const totalMatches = (group: ReconciliationCandidate[]) =>
+      Math.abs(roundCurrency(group.reduce((sum, candidate) => sum + candidate.amount, 0)) - transaction.amount) < 0.005;
+
+    const groups: ReconciliationCandidate[][] = eligible.filter(candidate => totalMatches([candidate])).map(candidate => [candidate]);
+    const nearest = eligible.slice(0, GROUP_SEARCH_LIMIT);
+    for (let size = 2; size <= maxCandidatesPerMatch; size++) {
+      groups.push(...combinations(nearest, size).filter(totalMatches));
+    }
+
+    return groups
+      .map(scoreGroup)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxSuggestions);
+  },
+
+  validateMatch(transaction: BankTransaction, candidates: ReconciliationCandidate[]): void {
+    if (transaction.isReconciled) {
+      throw new Error('This transaction is already reconciled');
+    }
+
+    if (candidates.length === 0) {
+      throw new Error('Select at least one payment or expense');
+    }
+
+    const expectedType = candidateTypeFor(transaction);
+    if (candidates.some(candidate => candidate.matchType !== expectedType)) {
+      throw new Error(
+        expectedType === 'payment'
+          ? 'Money received can only be matched to payments'
+          : 'Money spent can only be matched to expenses'
+      );
+    }
+
+    const matchedTotal = roundCurrency(candidates.reduce((sum, candidate) => sum + candidate.amount, 0));
+    if (Math.abs(matchedTotal - transaction.amount) >= 0.005) {
+      throw new Error(
+        `Matched records total ${matchedTotal.toFixed(2)} but the transaction is ${transaction.amount.toFixed(2)}`
+      );
+    }
+  },
+
+  async reconcileTransaction(transaction: BankTransaction, candidates: ReconciliationCandidate[]): Promise<BankTransaction> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    this.validateMatch(transaction, candidates);
+
+    const { error: matchError } = await supabase
+      .from('bank_reconciliation_matches')
+      .insert(candidates.map(candidate => ({
+        user_id: user.id,
+        bank_transaction_id: transaction.id,
+        match_type: candidate.matchType,
+        payment_id: candidate.matchType === 'payment' ? candidate.id : null,
+        expense_id: candidate.matchType === 'expense' ? candidate.id : null,
+        amount: candidate.amount
+      })));
+
+    if (matchError) {
+      console.error('Error saving reconciliation matches:', matchError);
+      throw matchError;
+    }
+
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .update({ is_reconciled: true, reconciled_at: new Date().toISOString() })
+      .eq('id', transaction.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error marking transaction as reconciled:', error);
+      throw error;
+    }
+
+    return mapSupabaseBankTransactionToBankTransaction(data as SupabaseBankTransaction);
+  },
+
+  async unreconcileTransaction(transactionId: string): Promise<BankTransaction> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error: matchError } = await supabase
+      .from('bank_reconciliation_matches')
+      .delete()
+      .eq('bank_transaction_id', transactionId)
+      .eq('user_id', user.id);
+
+    if (matchError) {
+      console.error('Error removing reconciliation matches:', matchError);
+      throw matchError;
+    }
+
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .update({ is_reconciled: false, reconciled_at: null })
+      .eq('id', transactionId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error marking transaction as unreconciled:', error);
+      throw error;
+    }
+
+    return mapSupabaseBankTransactionToBankTransaction(data as SupabaseBankTransaction);
+  },
+
+  // Records an expense for a bank debit with no matching record and reconciles the two
+  async createExpenseFromTransaction(
+    transaction: BankTransaction,
+    details: { description?: string; categoryId?: string | null; taxAmount?: number; currency: string }
+  ): Promise<{ expense: Expense; transaction: BankTransaction }> {
+    if (transaction.type !== 'debit') {
+      throw new Error('Expenses can only be created from money spent');
+    }
+
+    if (transaction.isReconciled) {
+      throw new Error('This transaction is already reconciled');
+    }
+
+    const expense = await expenseService.createExpense({
+      description: details.description?.trim() || transaction.merchant || transaction.description,
+      amount: transaction.amount,
+      categoryId: details.categoryId || null,
+      vendorName: transaction.merchant || null,
+      vendorId: transaction.vendorId || null,
+      expenseDate: transaction.transactionDate,
+      status: 'approved',
+      isBillable: false,
+      taxAmount: details.taxAmount || 0,
+      currency: details.currency,
+      paymentMethod: 'bank_transfer',
+      notes: transaction.reference ? `Bank reference ${transaction.reference}` : null
+    });
+
+    const reconciled = await this.reconcileTransaction(transaction, [mapExpenseToCandidate(expense)]);
+    return { expense, transaction: reconciled };
+  },
+
+  async updateStatementBalance(bankAccountId: string, statementBalance: number, statementDate: string): Promise<BankAccount> {
+    return bankAccountService.updateBankAccount(bankAccountId, { statementBalance, statementDate });
+  },
+
+  // Statement balance falls back to the latest running balance on imported transactions
+  calculateReconciliationSummary(
+    account: Pick<BankAccount, 'openingBalance' | 'statementBalance'>,
+    transactions: BankTransaction[]
+  ): ReconciliationSummary {
+    const reconciled = transactions.filter(transaction => transaction.isReconciled);
+    const ledgerBalance = roundCurrency(
+      account.openingBalance + reconciled.reduce((sum, transaction) => sum + signedAmount(transaction), 0)
+    );
+
+    const latestWithBalance = [...transactions]
+      .filter(transaction => transaction.balance !== undefined && transaction.balance !== null)
+      .sort((a, b) => a.transactionDate.localeCompare(b.transactionDate))
+      .pop();
+
+    const statementBalance = roundCurrency(
+      account.statementBalance ??
+      latestWithBalance?.balance ??
+      account.openingBalance + transactions.reduce((sum, transaction) => sum + signedAmount(transaction), 0)
+    );
+
+    return {
+      statementBalance,
+      ledgerBalance,
+      difference: roundCurrency(statementBalance - ledgerBalance),
+      reconciledCount: reconciled.length,
+      unreconciledCount: transactions.length - reconciled.length
+    };
+  }
+};
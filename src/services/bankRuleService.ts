@@ -0,0 +1,293 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { ImportedTransaction } from '../types/bankTransaction';
+import {
+  BankRule,
+  BankRuleActions,
+  BankRuleConditions,
+  BankRuleSubject,
+  BankRuleTestResult,
+  SupabaseBankRule
+} from '../types/bankRule';
+
+const mapSupabaseBankRuleToBankRule = (rule: SupabaseBankRule): BankRule => ({
+  id: rule.id,
+  name: rule.name,
+  priority: rule.priority,
+  isActive: rule.is_active,
+  conditions: (rule.conditions || {}) as unknown as BankRuleConditions,
+  actions: (rule.actions || {}) as unknown as BankRuleActions,
+  userId: rule.user_id,
+  createdAt: rule.created_at,
+  updatedAt: rule.updated_at,
+});
+
+const mapBankRuleToSupabaseBankRule = async (
+  rule: Omit<BankRule, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<Omit<SupabaseBankRule, 'id' | 'created_at' | 'updated_at'>> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const userId = user?.id || '';
+
+  return {
+    name: rule.name,
+    priority: rule.priority,
+    is_active: rule.isActive,
+    conditions: rule.conditions as unknown as Json,
+    actions: rule.actions as unknown as Json,
+    user_id: rule.userId || userId,
+  };
+};
+
+const byPriority = (a: BankRule, b: BankRule) =>
+  a.priority - b.priority || (a.createdAt || '').localeCompare(b.createdAt || '');
+
+export const bankRuleService = {
+  async getBankRules(): Promise<BankRule[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('priority', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching bank rules:', error);
+      throw error;
+    }
+
+    return (data as SupabaseBankRule[]).map(mapSupabaseBankRuleToBankRule);
+  },
+
+  async getBankRule(id: string): Promise<BankRule | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error('Error fetching bank rule:', error);
+      throw error;
+    }
+
+    return data ? mapSupabaseBankRuleToBankRule(data as SupabaseBankRule) : null;
+  },
+
+  async createBankRule(rule: Omit<BankRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<BankRule> {
+    this.validateRule(rule);
+
+    const supabaseRule = await mapBankRuleToSupabaseBankRule(rule);
+
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .insert([supabaseRule])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating bank rule:', error);
+      throw error;
+    }
+
+    return mapSupabaseBankRuleToBankRule(data as SupabaseBankRule);
+  },
+
+  async updateBankRule(
+    id: string,
+    rule: Partial<Omit<BankRule, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<BankRule> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    if (rule.conditions !== undefined || rule.actions !== undefined || rule.name !== undefined) {
+      const existingRule = await this.getBankRule(id);
+      if (!existingRule) {
+        throw new Error(`Bank rule with id ${id} not found`);
+      }
+      this.validateRule({ ...existingRule, ...rule });
+    }
+
+    const updateData: Partial<SupabaseBankRule> = {};
+    if (rule.name !== undefined) updateData.name = rule.name;
+    if (rule.priority !== undefined) updateData.priority = rule.priority;
+    if (rule.isActive !== undefined) updateData.is_active = rule.isActive;
+    if (rule.conditions !== undefined) updateData.conditions = rule.conditions as unknown as Json;
+    if (rule.actions !== undefined) updateData.actions = rule.actions as unknown as Json;
+
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating bank rule:', error);
+      throw error;
+    }
+
+    return mapSupabaseBankRuleToBankRule(data as SupabaseBankRule);
+  },
+
+  async deleteBankRule(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = await supabase
+      .from('bank_rules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting bank rule:', error);
+      throw error;
+    }
+  },
+
+  // Swap priorities with the neighbouring rule so the list can be reordered
+  async moveBankRule(rules: BankRule[], id: string, direction: 'up' | 'down'): Promise<void> {
+    const ordered = [...rules].sort(byPriority);
+    const index = ordered.findIndex(rule => rule.id === id);
+    const neighbour = ordered[direction === 'up' ? index - 1 : index + 1];
+    if (index === -1 || !neighbour) return;
+
+    // Renumber so rules sharing a priority still end up in a strict order
+    const renumbered = ordered.map((rule, position) => ({ rule, priority: (position + 1) * 10 }));
+    const current = renumbered[index];
+    const other = renumbered[direction === 'up' ? index - 1 : index + 1];
+    [current.priority, other.priority] = [other.priority, current.priority];
+
+    await Promise.all(
+      renumbered
+        .filter(({ rule, priority }) => rule.priority !== priority)
+        .map(({ rule, priority }) => this.updateBankRule(rule.id, { priority }))
+    );
+  },
+
+  validateRule(rule: Pick<BankRule, 'name' | 'conditions' | 'actions'>): void {
+    const { conditions, actions } = rule;
+
+    if (!rule.name.trim()) {
+      throw new Error('Rule name is required');
+    }
+
+    const hasCondition = !!conditions.descriptionValue?.trim() ||
+      conditions.amountMin != null ||
+      conditions.amountMax != null ||
+      !!conditions.transactionType ||
+      !!conditions.bankAccountId;
+    if (!hasCondition) {
+      throw new Error('Add at least one condition');
+    }
+
+    if (conditions.descriptionOperator === 'regex' && conditions.descriptionValue) {
+      try {
+        new RegExp(conditions.descriptionValue, 'i');
+      } catch {
+        throw new Error('Description pattern is not a valid regular expression');
+      }
+    }
+
+    if (conditions.amountMin != null && conditions.amountMax != null && conditions.amountMin > conditions.amountMax) {
+      throw new Error('Minimum amount cannot be greater than maximum amount');
+    }
+
+    if (actions.autoCreateExpense && conditions.transactionType !== 'debit') {
+      throw new Error('Auto-create expense requires the rule to match money spent only');
+    }
+  },
+
+  matchesRule(rule: BankRule, transaction: BankRuleSubject): boolean {
+    const { conditions } = rule;
+    const pattern = conditions.descriptionValue?.trim();
+
+    if (pattern) {
+      if (conditions.descriptionOperator === 'regex') {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, 'i');
+        } catch {
+          return false;
+        }
+        if (!regex.test(transaction.description)) return false;
+      } else if (!transaction.description.toLowerCase().includes(pattern.toLowerCase())) {
+        return false;
+      }
+    }
+
+    if (conditions.amountMin != null && transaction.amount < conditions.amountMin) return false;
+    if (conditions.amountMax != null && transaction.amount > conditions.amountMax) return false;
+    if (conditions.transactionType && transaction.type !== conditions.transactionType) return false;
+    if (conditions.bankAccountId && transaction.bankAccountId !== conditions.bankAccountId) return false;
+
+    return true;
+  },
+
+  // First active rule in priority order wins
+  findMatchingRule(rules: BankRule[], transaction: BankRuleSubject): BankRule | undefined {
+    return rules
+      .filter(rule => rule.isActive)
+      .sort(byPriority)
+      .find(rule => this.matchesRule(rule, transaction));
+  },
+
+  applyRules(transactions: ImportedTransaction[], rules: BankRule[], bankAccountId: string): ImportedTransaction[] {
+    return transactions.map(transaction => {
+      const rule = this.findMatchingRule(rules, { ...transaction, bankAccountId });
+      if (!rule) return transaction;
+
+      const { actions } = rule;
+      return {
+        ...transaction,
+        merchant: actions.merchant || transaction.merchant,
+        expenseCategoryId: actions.expenseCategoryId ?? transaction.expenseCategoryId,
+        customerId: actions.customerId ?? transaction.customerId,
+        taxCode: actions.taxCode ?? transaction.taxCode,
+        bankRuleId: rule.id
+      };
+    });
+  },
+
+  // Preview a rule against past transactions before saving it
+  testRule<T extends BankRuleSubject & { id?: string }>(
+    rule: BankRule,
+    transactions: T[],
+    otherRules: BankRule[] = []
+  ): BankRuleTestResult<T> {
+    const competing = otherRules.filter(other => other.id !== rule.id);
+    const matched = transactions.filter(transaction => this.matchesRule(rule, transaction));
+
+    const shadowed = matched.filter(transaction => {
+      const winner = this.findMatchingRule([...competing, { ...rule, isActive: true }], transaction);
+      return winner !== undefined && winner.id !== rule.id;
+    });
+
+    return { matched, shadowed };
+  },
+
+  // GST included in a bank amount under the rule's tax treatment (NZ standard rate)
+  calculateIncludedGST(amount: number, taxCode?: string | null): number {
+    return taxCode === 'GST15' ? Math.round(amount * 3 / 23 * 100) / 100 : 0;
+  },
+};
@@ -0,0 +1,221 @@
+import { ImportFileType, ImportedTransaction } from '../types/bankTransaction';
+
+export type StatementFileFormat = Extract<ImportFileType, 'ofx' | 'qfx' | 'camt053'>;
+
+export interface StatementParseResult {
+  success: boolean;
+  format: StatementFileFormat;
+  transactions: ImportedTransaction[];
+  errors: string[];
+  accountNumber?: string;
+  currency?: string;
+  closingBalance?: number;
+  closingBalanceDate?: string;
+}
+
+export const STATEMENT_FILE_FORMATS: StatementFileFormat[] = ['ofx', 'qfx', 'camt053'];
+
+export function isStatementFileFormat(fileType: ImportFileType): fileType is StatementFileFormat {
+  return (STATEMENT_FILE_FORMATS as ImportFileType[]).includes(fileType);
+}
+
+// Work out the file type from its contents, falling back to the extension
+export function detectStatementFormat(content: string, fileName = ''): ImportFileType {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  const head = content.slice(0, 2000);
+
+  if (/OFXHEADER|<\?OFX|<OFX>/i.test(head)) {
+    return extension === 'qfx' ? 'qfx' : 'ofx';
+  }
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt[\s>]/.test(content.slice(0, 5000))) {
+    return 'camt053';
+  }
+  if (extension === 'ofx' || extension === 'qfx') return extension;
+  if (extension === 'pdf') return 'pdf';
+  return 'csv';
+}
+
+export function parseStatementFile(content: string, format: StatementFileFormat): StatementParseResult {
+  return format === 'camt053' ? parseCAMT053Transactions(content) : parseOFXTransactions(content, format);
+}
+
+/**
+ * Parse an OFX or QFX statement. Handles both OFX 1.x (SGML, leaf elements
+ * without closing tags) and OFX 2.x (XML).
+ */
+export function parseOFXTransactions(content: string, format: StatementFileFormat = 'ofx'): StatementParseResult {
+  const errors: string[] = [];
+  const transactions: ImportedTransaction[] = [];
+
+  if (!content || !/<OFX>/i.test(content)) {
+    return { success: false, format, transactions, errors: ['File is not a valid OFX statement'] };
+  }
+
+  // Aggregates such as <STMTTRN> are closed in both variants, only leaf elements differ
+  const blocks = getBlocks(content, 'STMTTRN', true);
+
+  blocks.forEach((block, index) => {
+    const fitId = getOFXValue(block, 'FITID');
+    const postedDate = parseOFXDate(getOFXValue(block, 'DTPOSTED'));
+    const amount = parseAmount(getOFXValue(block, 'TRNAMT'));
+
+    if (!postedDate || amount === null) {
+      errors.push(`Transaction ${index + 1}${fitId ? ` (${fitId})` : ''}: missing or invalid date or amount`);
+      return;
+    }
+
+    const name = getOFXValue(block, 'NAME');
+    const memo = getOFXValue(block, 'MEMO');
+    const reference = getOFXValue(block, 'REFNUM') || getOFXValue(block, 'CHECKNUM') || (name ? memo : undefined);
+
+    transactions.push({
+      date: postedDate,
+      description: name || memo || getOFXValue(block, 'TRNTYPE') || 'Bank transaction',
+      reference: reference || undefined,
+      externalId: fitId || undefined,
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'debit' : 'credit',
+      merchant: name || undefined
+    });
+  });
+
+  const ledgerBalance = getBlocks(content, 'LEDGERBAL', true)[0];
+  const closingBalance = ledgerBalance ? parseAmount(getOFXValue(ledgerBalance, 'BALAMT')) : null;
+
+  if (blocks.length === 0) {
+    errors.push('No transactions found in OFX statement');
+  }
+
+  return {
+    success: transactions.length > 0,
+    format,
+    transactions,
+    errors,
+    accountNumber: getOFXValue(content, 'ACCTID'),
+    currency: getOFXValue(content, 'CURDEF'),
+    closingBalance: closingBalance ?? undefined,
+    closingBalanceDate: ledgerBalance ? parseOFXDate(getOFXValue(ledgerBalance, 'DTASOF')) : undefined
+  };
+}
+
+// Parse an ISO 20022 CAMT.053 bank-to-customer statement
+export function parseCAMT053Transactions(content: string): StatementParseResult {
+  const format: StatementFileFormat = 'camt053';
+  const errors: string[] = [];
+  const transactions: ImportedTransaction[] = [];
+
+  const statement = getBlocks(content, 'Stmt')[0];
+  if (!statement) {
+    return { success: false, format, transactions, errors: ['File is not a valid CAMT.053 statement'] };
+  }
+
+  getBlocks(statement, 'Ntry').forEach((entry, index) => {
+    // Only booked entries have hit the account; pending ones may still change
+    const status = stripTags(getBlocks(entry, 'Sts')[0] || '');
+    if (status && status !== 'BOOK') return;
+
+    const entryRef = getXMLValue(entry, 'NtryRef');
+    const servicerRef = getXMLValue(entry, 'AcctSvcrRef');
+    const date = findDate(getBlocks(entry, 'BookgDt')[0] || getBlocks(entry, 'ValDt')[0] || '');
+    const amount = parseAmount(getXMLValue(entry, 'Amt'));
+    const indicator = getXMLValue(entry, 'CdtDbtInd');
+
+    if (!date || amount === null || (indicator !== 'CRDT' && indicator !== 'DBIT')) {
+      errors.push(`Entry ${index + 1}${entryRef ? ` (${entryRef})` : ''}: missing or invalid date, amount or credit/debit indicator`);
+      return;
+    }
+
+    const details = getBlocks(entry, 'TxDtls')[0] || '';
+    // The other party is the creditor when money goes out and the debtor when it comes in
+    const counterparty = indicator === 'DBIT'
+      ? getPartyName(details, 'Cdtr') || getPartyName(details, 'Dbtr')
+      : getPartyName(details, 'Dbtr') || getPartyName(details, 'Cdtr');
+    const remittance = getXMLValue(details, 'Ustrd');
+    const endToEndId = getXMLValue(details, 'EndToEndId');
+    const additionalInfo = getXMLValue(entry, 'AddtlNtryInf');
+
+    transactions.push({
+      date,
+      description: counterparty || additionalInfo || remittance || 'Bank transaction',
+      reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : remittance) || undefined,
+      externalId: servicerRef || entryRef || undefined,
+      amount: Math.abs(amount),
+      type: indicator === 'DBIT' ? 'debit' : 'credit',
+      merchant: counterparty || undefined
+    });
+  });
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push('No booked entries found in CAMT.053 statement');
+  }
+
+  const closing = getBlocks(statement, 'Bal').find(balance => getXMLValue(balance, 'Cd') === 'CLBD');
+  const closingAmount = closing ? parseAmount(getXMLValue(closing, 'Amt')) : null;
+  const account = getBlocks(statement, 'Acct')[0] || '';
+
+  return {
+    success: transactions.length > 0,
+    format,
+    transactions,
+    errors,
+    accountNumber: getXMLValue(account, 'IBAN') || getXMLValue(getBlocks(account, 'Othr')[0] || '', 'Id'),
+    currency: getXMLValue(account, 'Ccy'),
+    closingBalance: closingAmount === null
+      ? undefined
+      : getXMLValue(closing!, 'CdtDbtInd') === 'DBIT' ? -closingAmount : closingAmount,
+    closingBalanceDate: closing ? findDate(getBlocks(closing, 'Dt')[0] || '') : undefined
+  };
+}
+
+// Contents of every <tag>...</tag> element, ignoring namespace prefixes and attributes
+function getBlocks(xml: string, tag: string, caseInsensitive = false): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, caseInsensitive ? 'gi' : 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function getXMLValue(xml: string, tag: string): string | undefined {
+  const value = getBlocks(xml, tag)[0];
+  return value === undefined ? undefined : decodeEntities(stripTags(value)) || undefined;
+}
+
+// OFX leaf values run until the next tag or line end, with or without a closing tag
+function getOFXValue(ofx: string, tag: string): string | undefined {
+  const match = ofx.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value || undefined;
+}
+
+function getPartyName(details: string, party: 'Cdtr' | 'Dbtr'): string | undefined {
+  const relatedParties = getBlocks(details, 'RltdPties')[0] || '';
+  return getXMLValue(getBlocks(relatedParties, party)[0] || '', 'Nm');
+}
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]*>/g, '').trim();
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  const normalized = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? null : amount;
+}
+
+// OFX dates are YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]; only the calendar date is kept
+function parseOFXDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function findDate(value: string): string | undefined {
+  return value.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+}
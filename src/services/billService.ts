@@ -0,0 +1,613 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { addDays, format, parseISO } from 'date-fns';
+import { DEFAULT_TAX_CODE } from '@/types';
+import { BankAccount } from '../types/bankTransaction';
+import { Bill, BillItem, BillPayment, BillStatus, CreateBillRequest, RecordBillPaymentRequest } from '../types/bill';
+import { ReceiptScanResult } from '../types/receipt';
+import { AgingBuckets } from '../types/statement';
+import { customerStatementService } from './customerStatementService';
+import { exchangeRateService } from './exchangeRateService';
+import { supabaseDataService } from './supabaseDataService';
+
+// Chart of accounts numbers used when posting bills (NZ template)
+const PAYABLES_ACCOUNT_NUMBER = '2100';
+const GST_PAID_ACCOUNT_NUMBER = '1300';
+const PURCHASES_ACCOUNT_NUMBER = '5000';
+const BANK_ACCOUNT_NUMBER = '1110';
+const CREDIT_CARD_ACCOUNT_NUMBER = '2300';
+
+const GST_RATE = 0.15;
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const BILL_SELECT = `
+  *,
+  bill_payments (*, bank_accounts (id, account_name, bank_name))
+`;
+
+type SupabaseBillPaymentWithRelations = Tables<'bill_payments'> & {
+  bank_accounts?: { id: string; account_name: string; bank_name: string } | null;
+};
+
+type SupabaseBillWithRelations = Tables<'bills'> & {
+  bill_payments?: SupabaseBillPaymentWithRelations[];
+};
+
+type JournalLine = { account_id: string; description: string; debit_amount: number; credit_amount: number; line_order: number };
+
+const mapSupabaseBillPaymentToBillPayment = (payment: SupabaseBillPaymentWithRelations): BillPayment => ({
+  id: payment.id,
+  billId: payment.bill_id,
+  bankAccountId: payment.bank_account_id,
+  bankAccount: payment.bank_accounts ? {
+    id: payment.bank_accounts.id,
+    accountName: payment.bank_accounts.account_name,
+    bankName: payment.bank_accounts.bank_name
+  } : undefined,
+  amount: payment.amount,
+  paymentDate: payment.payment_date,
+  reference: payment.reference,
+  journalEntryId: payment.journal_entry_id,
+  userId: payment.user_id,
+  createdAt: payment.created_at,
+});
+
+const mapSupabaseBillToBill = (bill: SupabaseBillWithRelations): Bill => ({
+  id: bill.id,
+  billNumber: bill.bill_number,
+  supplierName: bill.supplier_name,
+  vendorId: bill.vendor_id,
+  billDate: bill.bill_date,
+  dueDate: bill.due_date,
+  items: (bill.items as unknown as BillItem[]) || [],
+  subtotal: bill.subtotal,
+  taxAmount: bill.tax_amount,
+  total: bill.total,
+  currency: bill.currency,
+  amountPaid: bill.amount_paid || 0,
+  balanceDue: bill.status === 'void' ? 0 : roundCurrency(bill.total - (bill.amount_paid || 0)),
+  status: bill.status,
+  notes: bill.notes,
+  receiptUrl: bill.receipt_url,
+  journalEntryId: bill.journal_entry_id,
+  payments: (bill.bill_payments || [])
+    .map(mapSupabaseBillPaymentToBillPayment)
+    .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate)),
+  userId: bill.user_id,
+  createdAt: bill.created_at,
+  updatedAt: bill.updated_at,
+});
+
+const getPostingAccounts = async (userId: string, accountNumbers: string[]) => {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, account_number')
+    .eq('user_id', userId)
+    .in('account_number', accountNumbers);
+
+  if (error) {
+    console.error('Error fetching accounts for bill posting:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+const insertJournalEntry = async (
+  userId: string,
+  entry: { date: string; description: string; referenceType: string; referenceId: string; total: number },
+  lines: JournalLine[]
+): Promise<string> => {
+  const entryNumber = await supabaseDataService.generateJournalEntryNumber(userId);
+
+  const { data: journalEntry, error: entryError } = await supabase
+    .from('journal_entries')
+    .insert({
+      user_id: userId,
+      entry_number: entryNumber,
+      entry_date: entry.date,
+      description: entry.description,
+      reference_type: entry.referenceType,
+      reference_id: entry.referenceId,
+      total_amount: entry.total,
+      status: 'posted'
+    })
+    .select()
+    .single();
+
+  if (entryError) {
+    console.error('Error creating bill journal entry:', entryError);
+    throw entryError;
+  }
+
+  const { error: linesError } = await supabase
+    .from('journal_entry_lines')
+    .insert(lines.map(line => ({ ...line, journal_entry_id: journalEntry.id })));
+
+  if (linesError) {
+    await supabase.from('journal_entries').delete().eq('id', journalEntry.id);
+    console.error('Error creating bill journal entry lines:', linesError);
+    throw linesError;
+  }
+
+  return journalEntry.id;
+};
+
+export const billService = {
+  async getBills(): Promise<Bill[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('bills')
+      .select(BILL_SELECT)
+      .eq('user_id', user.id)
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching bills:', error);
+      throw error;
+    }
+
+    return (data as unknown as SupabaseBillWithRelations[]).map(mapSupabaseBillToBill);
+  },
+
+  async getBill(id: string): Promise<Bill | null> {
+    const { data, error } = await supabase
+      .from('bills')
+      .select(BILL_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error('Error fetching bill:', error);
+      throw error;
+    }
+
+    return data ? mapSupabaseBillToBill(data as unknown as SupabaseBillWithRelations) : null;
+  },
+
+  async createBill(request: CreateBillRequest): Promise<Bill> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    this.validateBill(request);
+
+    const items = request.items
+      .filter(item => item.quantity > 0)
+      .map(item => ({ ...item, total: roundCurrency(item.quantity * item.rate) }));
+    const totals = this.calculateBillTotals(items);
+
+    const { data, error } = await supabase
+      .from('bills')
+      .insert({
+        user_id: user.id,
+        bill_number: request.billNumber?.trim() || null,
+        supplier_name: request.supplierName.trim(),
+        vendor_id: request.vendorId || null,
+        bill_date: request.billDate,
+        due_date: request.dueDate,
+        items: items as unknown as Json,
+        subtotal: totals.subtotal,
+        tax_amount: totals.taxAmount,
+        total: totals.total,
+        currency: request.currency || await exchangeRateService.getBaseCurrency(),
+        amount_paid: 0,
+        status: 'awaiting_payment',
+        notes: request.notes || null,
+        receipt_url: request.receiptUrl || null
+      })
+      .select(BILL_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error creating bill:', error);
+      throw error;
+    }
+
+    const bill = mapSupabaseBillToBill(data as unknown as SupabaseBillWithRelations);
+
+    const accounts = await getPostingAccounts(user.id, [PAYABLES_ACCOUNT_NUMBER, GST_PAID_ACCOUNT_NUMBER, PURCHASES_ACCOUNT_NUMBER]);
+    const lines = this.buildBillJournalLines(bill, accounts);
+    if (!lines) {
+      console.warn(`Chart of accounts incomplete, bill from ${bill.supplierName} was not posted to the ledger`);
+      return bill;
+    }
+
+    const journalEntryId = await insertJournalEntry(user.id, {
+      date: bill.billDate,
+      description: `Bill ${bill.billNumber ? `${bill.billNumber} ` : ''}from ${bill.supplierName}`,
+      referenceType: 'bill',
+      referenceId: bill.id,
+      total: bill.total
+    }, lines);
+
+    const { error: linkError } = await supabase
+      .from('bills')
+      .update({ journal_entry_id: journalEntryId })
+      .eq('id', bill.id);
+
+    if (linkError) {
+      console.error('Error linking journal entry to bill:', linkError);
+      throw linkError;
+    }
+
+    return { ...bill, journalEntryId };
+  },
+
+  // Pays all or part of a bill from a bank account and moves the amount out of Accounts Payable
+  async recordPayment(request: RecordBillPaymentRequest): Promise<Bill> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const bill = await this.getBill(request.billId);
+    if (!bill) {
+      throw new Error(`Bill with id ${request.billId} not found`);
+    }
+
+    const { data: bankAccount, error: bankAccountError } = await supabase
+      .from('bank_accounts')
+      .select('id, account_name, account_type, current_balance')
+      .eq('id', request.bankAccountId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (bankAccountError) {
+      console.error('Error fetching bank account for bill payment:', bankAccountError);
+      throw bankAccountError;
+    }
+
+    this.validateBillPayment(bill, request);
+    const amount = roundCurrency(request.amount);
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('bill_payments')
+      .insert({
+        user_id: user.id,
+        bill_id: bill.id,
+        bank_account_id: bankAccount.id,
+        amount,
+        payment_date: request.paymentDate,
+        reference: request.reference || null
+      })
+      .select()
+      .single();
+
+    if (paymentError) {
+      console.error('Error recording bill payment:', paymentError);
+      throw paymentError;
+    }
+
+    const amountPaid = roundCurrency(bill.amountPaid + amount);
+    const { error: billError } = await supabase
+      .from('bills')
+      .update({ amount_paid: amountPaid, status: this.getBillStatus(bill.total, amountPaid) })
+      .eq('id', bill.id);
+
+    if (billError) {
+      console.error('Error updating bill after payment:', billError);
+      throw billError;
+    }
+
+    const { error: balanceError } = await supabase
+      .from('bank_accounts')
+      .update({ current_balance: roundCurrency(bankAccount.current_balance - amount) })
+      .eq('id', bankAccount.id);
+
+    if (balanceError) {
+      console.error('Error updating bank account balance for bill payment:', balanceError);
+      throw balanceError;
+    }
+
+    const accounts = await getPostingAccounts(user.id, [PAYABLES_ACCOUNT_NUMBER, BANK_ACCOUNT_NUMBER, CREDIT_CARD_ACCOUNT_NUMBER]);
+    const lines = this.buildBillPaymentJournalLines(
+      amount,
+      bankAccount.account_type as BankAccount['accountType'],
+      `Payment of bill from ${bill.supplierName}`,
+      accounts
+    );
+
+    if (lines) {
+      const journalEntryId = await insertJournalEntry(user.id, {
+        date: request.paymentDate,
+        description: `Payment of bill ${bill.billNumber ? `${bill.billNumber} ` : ''}from ${bill.supplierName} (${bankAccount.account_name})`,
+        referenceType: 'bill_payment',
+        referenceId: payment.id,
+        total: amount
+      }, lines);
+
+      const { error: linkError } = await supabase
+        .from('bill_payments')
+        .update({ journal_entry_id: journalEntryId })
+        .eq('id', payment.id);
+
+      if (linkError) {
+        console.error('Error linking journal entry to bill payment:', linkError);
+        throw linkError;
+      }
+    } else {
+      console.warn(`Chart of accounts incomplete, payment of bill from ${bill.supplierName} was not posted to the ledger`);
+    }
+
+    const updated = await this.getBill(bill.id);
+    if (!updated) {
+      throw new Error(`Bill with id ${bill.id} not found`);
+    }
+    return updated;
+  },
+
+  // Voiding reverses the bill's journal entry; paid bills must keep their history
+  async voidBill(id: string): Promise<Bill> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const bill = await this.getBill(id);
+    if (!bill) {
+      throw new Error(`Bill with id ${id} not found`);
+    }
+    if (bill.status === 'void') {
+      throw new Error('This bill is already void');
+    }
+    if (bill.amountPaid > 0) {
+      throw new Error('Bills with payments cannot be voided');
+    }
+
+    const { error } = await supabase
+      .from('bills')
+      .update({ status: 'void' })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error voiding bill:', error);
+      throw error;
+    }
+
+    if (bill.journalEntryId) {
+      const accounts = await getPostingAccounts(user.id, [PAYABLES_ACCOUNT_NUMBER, GST_PAID_ACCOUNT_NUMBER, PURCHASES_ACCOUNT_NUMBER]);
+      const lines = this.buildBillJournalLines(bill, accounts);
+      if (lines) {
+        await insertJournalEntry(user.id, {
+          date: format(new Date(), 'yyyy-MM-dd'),
+          description: `Void of bill ${bill.billNumber ? `${bill.billNumber} ` : ''}from ${bill.supplierName}`,
+          referenceType: 'bill',
+          referenceId: bill.id,
+          total: bill.total
+        }, lines.map(line => ({ ...line, debit_amount: line.credit_amount, credit_amount: line.debit_amount })));
+      }
+    }
+
+    return { ...bill, status: 'void', balanceDue: 0 };
+  },
+
+  // Accounts bill lines can be posted to
+  async getExpenseAccounts(): Promise<{ id: string; name: string; accountNumber: string | null }[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, name, account_number')
+      .eq('user_id', user.id)
+      .eq('account_class', 'Expense')
+      .order('account_number', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching expense accounts:', error);
+      throw error;
+    }
+
+    return (data || []).map(account => ({ id: account.id, name: account.name, accountNumber: account.account_number }));
+  },
+
+  // Unpaid bill balances aged by due date, for the AP aging summary
+  async getPayablesAging(asOfDate: string = format(new Date(), 'yyyy-MM-dd')): Promise<{ aging: AgingBuckets; openBills: number }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('bills')
+      .select('due_date, total, amount_paid, status')
+      .eq('user_id', user.id)
+      .in('status', ['awaiting_payment', 'partially_paid']);
+
+    if (error) {
+      console.error('Error fetching open bills:', error);
+      throw error;
+    }
+
+    const openItems = (data || []).map(bill => ({
+      dueDate: bill.due_date,
+      balanceDue: roundCurrency(bill.total - (bill.amount_paid || 0))
+    }));
+
+    return {
+      aging: customerStatementService.calculateAging(openItems, asOfDate),
+      openBills: openItems.length
+    };
+  },
+
+  getBillStatus(total: number, amountPaid: number): BillStatus {
+    if (amountPaid <= 0) return 'awaiting_payment';
+    return amountPaid >= total ? 'paid' : 'partially_paid';
+  },
+
+  // Lines are entered excluding GST; standard-rated lines attract GST at 15%
+  calculateBillTotals(items: Pick<BillItem, 'quantity' | 'rate' | 'taxCode'>[]): { subtotal: number; taxAmount: number; total: number } {
+    const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.quantity * item.rate, 0));
+    const taxAmount = roundCurrency(items
+      .filter(item => (item.taxCode || DEFAULT_TAX_CODE) === 'GST15')
+      .reduce((sum, item) => sum + item.quantity * item.rate * GST_RATE, 0));
+
+    return {
+      subtotal,
+      taxAmount,
+      total: roundCurrency(subtotal + taxAmount)
+    };
+  },
+
+  // Dr each expense account, Dr GST paid, Cr Accounts Payable; null when a required account is missing
+  buildBillJournalLines(
+    bill: Pick<Bill, 'supplierName' | 'items' | 'taxAmount' | 'total'>,
+    accounts: { id: string; account_number: string | null }[]
+  ): JournalLine[] | null {
+    const accountId = (accountNumber: string) => accounts.find(account => account.account_number === accountNumber)?.id;
+    const payablesAccountId = accountId(PAYABLES_ACCOUNT_NUMBER);
+    const gstAccountId = accountId(GST_PAID_ACCOUNT_NUMBER);
+    const purchasesAccountId = accountId(PURCHASES_ACCOUNT_NUMBER);
+
+    const needsPurchasesAccount = bill.items.some(item => !item.accountId);
+    if (!payablesAccountId || (bill.taxAmount > 0 && !gstAccountId) || (needsPurchasesAccount && !purchasesAccountId)) {
+      return null;
+    }
+
+    const description = `Bill from ${bill.supplierName}`;
+    const byAccount = new Map<string, number>();
+    bill.items.forEach(item => {
+      const lineAccountId = item.accountId || purchasesAccountId as string;
+      byAccount.set(lineAccountId, roundCurrency((byAccount.get(lineAccountId) || 0) + item.quantity * item.rate));
+    });
+
+    const lines: JournalLine[] = [...byAccount.entries()].map(([account_id, amount], index) => ({
+      account_id,
+      description,
+      debit_amount: amount,
+      credit_amount: 0,
+      line_order: index + 1
+    }));
+
+    if (bill.taxAmount > 0 && gstAccountId) {
+      lines.push({ account_id: gstAccountId, description, debit_amount: bill.taxAmount, credit_amount: 0, line_order: lines.length + 1 });
+    }
+
+    lines.push({
+      account_id: payablesAccountId,
+      description,
+      debit_amount: 0,
+      credit_amount: bill.total,
+      line_order: lines.length + 1
+    });
+
+    return lines;
+  },
+
+  // Dr Accounts Payable, Cr the bank (or credit card liability) the bill was paid from
+  buildBillPaymentJournalLines(
+    amount: number,
+    bankAccountType: BankAccount['accountType'],
+    description: string,
+    accounts: { id: string; account_number: string | null }[]
+  ): JournalLine[] | null {
+    const accountId = (accountNumber: string) => accounts.find(account => account.account_number === accountNumber)?.id;
+    const payablesAccountId = accountId(PAYABLES_ACCOUNT_NUMBER);
+    const fundingAccountId = accountId(bankAccountType === 'credit_card' ? CREDIT_CARD_ACCOUNT_NUMBER : BANK_ACCOUNT_NUMBER);
+
+    if (!payablesAccountId || !fundingAccountId) {
+      return null;
+    }
+
+    return [
+      { account_id: payablesAccountId, description, debit_amount: amount, credit_amount: 0, line_order: 1 },
+      { account_id: fundingAccountId, description, debit_amount: 0, credit_amount: amount, line_order: 2 }
+    ];
+  },
+
+  // Receipt lines may be printed with or without GST; they are only kept when they add up to one of the totals
+  buildBillFromScan(scan: ReceiptScanResult, receiptUrl?: string | null): CreateBillRequest {
+    const billDate = scan.date || format(new Date(), 'yyyy-MM-dd');
+    const hasGst = (scan.tax || 0) > 0;
+    const taxCode = hasGst ? 'GST15' as const : 'NOTAX' as const;
+    const subtotal = roundCurrency(scan.subtotal ?? ((scan.total || 0) - (scan.tax || 0)));
+    const itemsTotal = roundCurrency(scan.items.reduce((sum, item) => sum + item.quantity * item.price, 0));
+    const matches = (amount: number | null) => amount !== null && scan.items.length > 0 && Math.abs(itemsTotal - amount) < 0.05;
+    const gstDivisor = matches(subtotal) ? 1 : hasGst && matches(scan.total) ? 1 + GST_RATE : null;
+
+    const items: BillItem[] = gstDivisor
+      ? scan.items.map(item => {
+        const rate = roundCurrency(item.price / gstDivisor);
+        return { description: item.description, quantity: item.quantity, rate, total: roundCurrency(item.quantity * rate), taxCode };
+      })
+      : [{
+        description: scan.merchantName ? `Purchase from ${scan.merchantName}` : 'Purchase',
+        quantity: 1,
+        rate: subtotal,
+        total: subtotal,
+        taxCode
+      }];
+
+    return {
+      supplierName: scan.merchantName || '',
+      billDate,
+      dueDate: format(addDays(parseISO(billDate), DEFAULT_PAYMENT_TERMS_DAYS), 'yyyy-MM-dd'),
+      items,
+      notes: scan.notes || undefined,
+      receiptUrl: receiptUrl || null
+    };
+  },
+
+  validateBill(request: CreateBillRequest): void {
+    if (!request.supplierName || request.supplierName.trim().length === 0) {
+      throw new Error('Supplier name is required');
+    }
+
+    if (!request.billDate || !request.dueDate) {
+      throw new Error('Bill date and due date are required');
+    }
+
+    if (request.dueDate < request.billDate) {
+      throw new Error('Due date cannot be before the bill date');
+    }
+
+    if (!request.items || request.items.every(item => item.quantity <= 0)) {
+      throw new Error('At least one line is required');
+    }
+
+    for (const item of request.items) {
+      if (item.quantity < 0 || item.rate < 0) {
+        throw new Error('Bill quantities and rates cannot be negative');
+      }
+    }
+
+    if (this.calculateBillTotals(request.items.filter(item => item.quantity > 0)).total <= 0) {
+      throw new Error('Bill total must be greater than 0');
+    }
+  },
+
+  validateBillPayment(bill: Pick<Bill, 'status' | 'balanceDue'>, request: Pick<RecordBillPaymentRequest, 'amount' | 'paymentDate'>): void {
+    if (bill.status === 'void') {
+      throw new Error('Void bills cannot be paid');
+    }
+
+    if (bill.status === 'paid' || bill.balanceDue <= 0) {
+      throw new Error('This bill has already been paid');
+    }
+
+    if (!request.amount || request.amount <= 0) {
+      throw new Error('Payment amount must be greater than 0');
+    }
+
+    if (roundCurrency(request.amount) > bill.balanceDue) {
+      throw new Error(`Payment of ${request.amount.toFixed(2)} exceeds the ${bill.balanceDue.toFixed(2)} owing on this bill`);
+    }
+
+    if (!request.paymentDate) {
+      throw new Error('Payment date is required');
+    }
+  },
+};
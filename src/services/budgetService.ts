@@ -0,0 +1,351 @@
+import { supabase } from '@/integrations/supabase/client';
+import { addMonths, endOfMonth, format, isValid, parse, parseISO } from 'date-fns';
+import {
+  Budget,
+  BudgetCell,
+  BudgetCsvImport,
+  BudgetPeriodAmount,
+  BudgetTarget,
+  BudgetVsActualLine,
+  BudgetVsActualReport
+} from '../types/budget';
+import { detectDelimiter, parseCSV } from './csvParser';
+import { financialReportsService, LedgerAccount, LedgerEntry } from './financialReportsService';
+import { expenseCategoryService } from './supabaseService';
+
+type SupabaseBudget = {
+  id: string;
+  account_id: string | null;
+  expense_category_id: string | null;
+  period_month: string;
+  amount: number;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Header formats accepted for month columns, besides a bare month name
+const MONTH_HEADER_FORMATS = ['yyyy-MM', 'yyyy-MM-dd', 'MMM yyyy', 'MMMM yyyy', 'MMM-yy', 'MMM yy'];
+
+const mapSupabaseBudget = (budget: SupabaseBudget): Budget => ({
+  id: budget.id,
+  targetType: budget.account_id ? 'account' : 'category',
+  targetId: (budget.account_id || budget.expense_category_id) as string,
+  periodMonth: budget.period_month,
+  amount: Number(budget.amount),
+  userId: budget.user_id,
+  createdAt: budget.created_at,
+  updatedAt: budget.updated_at,
+});
+
+const budgetKey = (targetType: string, targetId: string) => `${targetType}:${targetId}`;
+
+const buildPeriodAmount = (periodMonth: string, budget: number, actual: number): BudgetPeriodAmount => {
+  const variance = roundCurrency(actual - budget);
+  return {
+    periodMonth,
+    budget: roundCurrency(budget),
+    actual: roundCurrency(actual),
+    variance,
+    variancePercent: budget !== 0 ? Math.round((variance / budget) * 1000) / 10 : null
+  };
+};
+
+export const budgetService = {
+  // First day of each month from start to end, inclusive
+  getMonths(startMonth: string, endMonth: string): string[] {
+    const months: string[] = [];
+    let current = parseISO(`${startMonth.slice(0, 7)}-01`);
+    const last = `${endMonth.slice(0, 7)}-01`;
+    while (format(current, 'yyyy-MM-dd') <= last && months.length < 120) {
+      months.push(format(current, 'yyyy-MM-dd'));
+      current = addMonths(current, 1);
+    }
+    return months;
+  },
+
+  // Revenue and expense accounts still in use, then expense categories
+  buildTargets(accounts: LedgerAccount[], categories: Array<{ id: string; name: string }>): BudgetTarget[] {
+    const accountTargets: BudgetTarget[] = accounts
+      .filter(account => account.accountClass === 'Revenue' || account.accountClass === 'Expense')
+      .sort((a, b) => (a.accountNumber || '').localeCompare(b.accountNumber || '', undefined, { numeric: true }))
+      .map(account => ({
+        type: 'account',
+        id: account.id,
+        name: account.name,
+        accountNumber: account.accountNumber || undefined,
+        kind: account.accountClass === 'Revenue' ? 'revenue' : 'expense'
+      }));
+
+    const categoryTargets: BudgetTarget[] = [...categories]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(category => ({ type: 'category', id: category.id, name: category.name, kind: 'expense' }));
+
+    return [...accountTargets, ...categoryTargets];
+  },
+
+  async getTargets(): Promise<BudgetTarget[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const [{ data: accounts, error }, categories] = await Promise.all([
+      supabase
+        .from('accounts')
+        .select('id, name, account_number, account_class')
+        .eq('user_id', user.id)
+        .eq('is_active', true)
+        .in('account_class', ['Revenue', 'Expense']),
+      expenseCategoryService.getExpenseCategories()
+    ]);
+
+    if (error) {
+      console.error('Error fetching budget lines:', error);
+      throw error;
+    }
+
+    return this.buildTargets(
+      (accounts || []).map(account => ({
+        id: account.id,
+        name: account.name,
+        accountNumber: account.account_number,
+        accountClass: account.account_class as LedgerAccount['accountClass'],
+        parentAccountId: null,
+        type: 'custom'
+      })),
+      categories
+    );
+  },
+
+  async getBudgets(startMonth: string, endMonth: string): Promise<Budget[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('period_month', `${startMonth.slice(0, 7)}-01`)
+      .lte('period_month', `${endMonth.slice(0, 7)}-01`);
+
+    if (error) {
+      console.error('Error fetching budgets:', error);
+      throw error;
+    }
+
+    return (data || []).map(mapSupabaseBudget);
+  },
+
+  // Saves each cell over any budget already set for that line and month; a cleared cell saves as zero
+  async saveBudgets(cells: BudgetCell[]): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    if (cells.length === 0) return;
+
+    const invalid = cells.find(cell => !Number.isFinite(cell.amount) || cell.amount < 0);
+    if (invalid) {
+      throw new Error('Budget amounts must be zero or more');
+    }
+
+    const { error } = await supabase
+      .from('budgets')
+      .upsert(
+        cells.map(cell => ({
+          user_id: user.id,
+          account_id: cell.targetType === 'account' ? cell.targetId : null,
+          expense_category_id: cell.targetType === 'category' ? cell.targetId : null,
+          period_month: `${cell.periodMonth.slice(0, 7)}-01`,
+          amount: roundCurrency(cell.amount)
+        })),
+        { onConflict: 'user_id,account_id,expense_category_id,period_month' }
+      );
+
+    if (error) {
+      console.error('Error saving budgets:', error);
+      throw error;
+    }
+  },
+
+  // One row per account or category, one column per month, matching the budget grid's layout.
+  // Lines match on account number, "number name" or name; bare month names match the grid's months.
+  parseBudgetCsv(text: string, targets: BudgetTarget[], months: string[]): BudgetCsvImport {
+    const records = parseCSV(text, { delimiter: detectDelimiter(text) });
+    const result: BudgetCsvImport = { cells: [], unmatchedNames: [], errors: [] };
+    if (records.length === 0) {
+      result.errors.push('The file is empty');
+      return result;
+    }
+
+    const columnMonths = records[0].fields.slice(1).map(header => {
+      const label = header.trim();
+      const byName = MONTH_NAMES.indexOf(label.slice(0, 3).toLowerCase());
+      if (label.length <= 9 && byName >= 0 && !/\d/.test(label)) {
+        return months.find(month => parseISO(month).getMonth() === byName) || null;
+      }
+      for (const pattern of MONTH_HEADER_FORMATS) {
+        const date = parse(label, pattern, new Date());
+        if (isValid(date)) {
+          const month = format(date, 'yyyy-MM-01');
+          return months.includes(month) ? month : null;
+        }
+      }
+      return null;
+    });
+
+    if (!columnMonths.some(month => month)) {
+      result.errors.push('No column headings match the months in this budget');
+      return result;
+    }
+
+    const findTarget = (label: string): BudgetTarget | undefined => {
+      const name = label.trim().toLowerCase();
+      return targets.find(target => target.accountNumber && (name === target.accountNumber || name === `${target.accountNumber} ${target.name}`.toLowerCase()))
+        || targets.find(target => target.type === 'account' && target.name.toLowerCase() === name)
+        || targets.find(target => target.type === 'category' && target.name.toLowerCase() === name);
+    };
+
+    records.slice(1).forEach(record => {
+      const label = record.fields[0]?.trim() || '';
+      if (!label) return;
+
+      const target = findTarget(label);
+      if (!target) {
+        result.unmatchedNames.push(label);
+        return;
+      }
+
+      record.fields.slice(1).forEach((field, index) => {
+        const periodMonth = columnMonths[index];
+        const value = field.replace(/[$,\s]/g, '');
+        if (!periodMonth || value === '') return;
+
+        const amount = Number(value);
+        if (!Number.isFinite(amount) || amount < 0) {
+          result.errors.push(`Line ${record.line}: "${field.trim()}" isn't a budget amount`);
+          return;
+        }
+        result.cells.push({ targetType: target.type, targetId: target.id, periodMonth, amount: roundCurrency(amount) });
+      });
+    });
+
+    return result;
+  },
+
+  // Actuals come from posted journal lines: account budgets include their sub-accounts, and category
+  // budgets take the expense lines of entries posted for expenses in that category
+  buildBudgetVsActual(
+    targets: BudgetTarget[],
+    budgets: Budget[],
+    accounts: LedgerAccount[],
+    entries: LedgerEntry[],
+    expenseCategoryIds: Map<string, string>,
+    months: string[]
+  ): BudgetVsActualReport {
+    const budgetAmounts = new Map<string, number>();
+    budgets.forEach(budget => {
+      const key = `${budgetKey(budget.targetType, budget.targetId)}:${budget.periodMonth.slice(0, 7)}`;
+      budgetAmounts.set(key, (budgetAmounts.get(key) || 0) + budget.amount);
+    });
+
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const isUnder = (accountId: string, ancestorId: string): boolean => {
+      const visited = new Set<string>();
+      let current: string | null | undefined = accountId;
+      while (current && !visited.has(current)) {
+        if (current === ancestorId) return true;
+        visited.add(current);
+        current = accountsById.get(current)?.parentAccountId;
+      }
+      return false;
+    };
+
+    // Debit-positive movement per target and month
+    const actuals = new Map<string, number>();
+    const addActual = (key: string, amount: number) => actuals.set(key, (actuals.get(key) || 0) + amount);
+    const firstMonth = months[0]?.slice(0, 7) || '';
+    const lastMonth = months[months.length - 1]?.slice(0, 7) || '';
+    const accountTargets = targets.filter(target => target.type === 'account');
+
+    entries
+      .filter(entry => !entry.closing && entry.entryDate.slice(0, 7) >= firstMonth && entry.entryDate.slice(0, 7) <= lastMonth)
+      .forEach(entry => {
+        const month = entry.entryDate.slice(0, 7);
+        const categoryId = entry.referenceType === 'expense' && entry.referenceId ? expenseCategoryIds.get(entry.referenceId) : undefined;
+
+        entry.lines.forEach(line => {
+          const amount = line.debit - line.credit;
+          accountTargets
+            .filter(target => isUnder(line.accountId, target.id))
+            .forEach(target => addActual(`${budgetKey('account', target.id)}:${month}`, amount));
+          if (categoryId && accountsById.get(line.accountId)?.accountClass === 'Expense') {
+            addActual(`${budgetKey('category', categoryId)}:${month}`, amount);
+          }
+        });
+      });
+
+    const lines: BudgetVsActualLine[] = targets
+      .filter(target => months.some(month => budgetAmounts.has(`${budgetKey(target.type, target.id)}:${month.slice(0, 7)}`)))
+      .map(target => {
+        const sign = target.kind === 'revenue' ? -1 : 1;
+        const periods = months.map(month => {
+          const key = `${budgetKey(target.type, target.id)}:${month.slice(0, 7)}`;
+          return buildPeriodAmount(month, budgetAmounts.get(key) || 0, sign * (actuals.get(key) || 0));
+        });
+        const total = buildPeriodAmount(
+          'total',
+          periods.reduce((sum, period) => sum + period.budget, 0),
+          periods.reduce((sum, period) => sum + period.actual, 0)
+        );
+        return { target, periods, total, overBudget: target.kind === 'expense' && total.variance > 0 };
+      });
+
+    return { months, lines };
+  },
+
+  async getBudgetVsActual(startMonth: string, endMonth: string): Promise<BudgetVsActualReport> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const months = this.getMonths(startMonth, endMonth);
+    if (months.length === 0) {
+      throw new Error('Choose an end month on or after the start month');
+    }
+
+    const [targets, budgets, ledger, { data: expenses, error: expensesError }] = await Promise.all([
+      this.getTargets(),
+      this.getBudgets(startMonth, endMonth),
+      financialReportsService.getLedger(user.id, format(endOfMonth(parseISO(months[months.length - 1])), 'yyyy-MM-dd')),
+      supabase.from('expenses').select('id, category_id').eq('user_id', user.id).not('category_id', 'is', null)
+    ]);
+
+    if (expensesError) {
+      console.error('Error fetching expense categories for budgets:', expensesError);
+      throw expensesError;
+    }
+
+    const expenseRows = (expenses || []) as unknown as { id: string; category_id: string }[];
+    const expenseCategoryIds = new Map(expenseRows.map(expense => [expense.id, expense.category_id]));
+    return this.buildBudgetVsActual(targets, budgets, ledger.accounts, ledger.entries, expenseCategoryIds, months);
+  },
+
+  // Expense categories that have already spent more than this month's budget
+  async getOverBudgetCategories(month: Date = new Date()): Promise<BudgetVsActualLine[]> {
+    const periodMonth = format(month, 'yyyy-MM-01');
+    const report = await this.getBudgetVsActual(periodMonth, periodMonth);
+    return report.lines
+      .filter(line => line.target.type === 'category' && line.overBudget)
+      .sort((a, b) => b.total.variance - a.total.variance);
+  }
+};
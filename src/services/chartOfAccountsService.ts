@@ -0,0 +1,342 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AccountType } from '../types';
+import { AccountTemplate, ChartTemplatePack, EnhancedAccount } from '../types/payment';
+import { exchangeRateService } from './exchangeRateService';
+
+type AccountClass = NonNullable<EnhancedAccount['accountClass']>;
+
+type SupabaseAccountTemplate = {
+  id: string;
+  template_pack: string;
+  name: string;
+  account_number: string;
+  parent_account_number: string | null;
+  account_class: string;
+  account_type: string;
+  normal_balance: string;
+  description: string | null;
+  is_system: boolean | null;
+  country_code: string | null;
+  created_at: string;
+};
+
+type SupabaseChartAccount = {
+  id: string;
+  name: string;
+  type: string;
+  currency: string;
+  opening_balance: number;
+  current_balance: number;
+  account_number: string | null;
+  account_class: string | null;
+  parent_account_id: string | null;
+  normal_balance: string | null;
+  description: string | null;
+  is_active: boolean | null;
+  merged_into_account_id: string | null;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export const TEMPLATE_PACKS: Record<ChartTemplatePack, { label: string; description: string; countryCode: string }> = {
+  nz_sole_trader: { label: 'NZ sole trader', description: 'Owner funds and drawings, home office and vehicle expenses', countryCode: 'NZ' },
+  nz_company: { label: 'NZ company', description: 'Share capital, shareholder current account, PAYE and income tax', countryCode: 'NZ' },
+  au_small_business: { label: 'AU small business', description: 'GST, PAYG withholding, superannuation and wages', countryCode: 'AU' },
+};
+
+// Template account types the accounts table knows about; everything else is a chart-only account
+const ACCOUNT_TYPES_BY_TEMPLATE_TYPE: Record<string, AccountType> = {
+  bank: 'bank',
+  cash: 'cash',
+  credit_card: 'credit_card',
+  loan: 'loan',
+};
+
+const ACCOUNT_SELECT = `
+  id, name, type, currency, opening_balance, current_balance, account_number, account_class,
+  parent_account_id, normal_balance, description, is_active, merged_into_account_id, user_id, created_at, updated_at
+`;
+
+const mapSupabaseTemplate = (template: SupabaseAccountTemplate): AccountTemplate => ({
+  id: template.id,
+  templatePack: template.template_pack as ChartTemplatePack,
+  name: template.name,
+  accountNumber: template.account_number,
+  parentAccountNumber: template.parent_account_number || undefined,
+  accountClass: template.account_class,
+  accountType: template.account_type,
+  normalBalance: template.normal_balance as AccountTemplate['normalBalance'],
+  description: template.description || undefined,
+  isSystem: !!template.is_system,
+  countryCode: template.country_code || TEMPLATE_PACKS[template.template_pack as ChartTemplatePack]?.countryCode || 'NZ',
+  createdAt: template.created_at,
+});
+
+const mapSupabaseChartAccount = (account: SupabaseChartAccount): EnhancedAccount => ({
+  id: account.id,
+  name: account.name,
+  type: account.type as AccountType,
+  currency: account.currency,
+  openingBalance: account.opening_balance,
+  currentBalance: account.current_balance,
+  accountNumber: account.account_number || undefined,
+  accountClass: (account.account_class || undefined) as AccountClass | undefined,
+  parentAccountId: account.parent_account_id || undefined,
+  normalBalance: (account.normal_balance || undefined) as EnhancedAccount['normalBalance'],
+  description: account.description || undefined,
+  isActive: account.is_active !== false,
+  mergedIntoAccountId: account.merged_into_account_id || undefined,
+  userId: account.user_id,
+  createdAt: account.created_at,
+  updatedAt: account.updated_at,
+});
+
+const compareAccountNumbers = (a: EnhancedAccount, b: EnhancedAccount) =>
+  (a.accountNumber || '').localeCompare(b.accountNumber || '', undefined, { numeric: true }) || a.name.localeCompare(b.name);
+
+export const chartOfAccountsService = {
+  // Suggested pack for a business profile country; other countries start without a chart
+  getDefaultPack(country: string): ChartTemplatePack | null {
+    if (country === 'New Zealand') return 'nz_sole_trader';
+    if (country === 'Australia') return 'au_small_business';
+    return null;
+  },
+
+  async getTemplates(pack: ChartTemplatePack): Promise<AccountTemplate[]> {
+    const { data, error } = await supabase
+      .from('account_templates')
+      .select('*')
+      .eq('template_pack', pack)
+      .order('account_number', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching account templates:', error);
+      throw error;
+    }
+
+    return (data || []).map(mapSupabaseTemplate);
+  },
+
+  // Templates not already in the chart, parents before their children; existing numbers are left as they are
+  buildInstallPlan(templates: AccountTemplate[], existingAccountNumbers: string[]): AccountTemplate[] {
+    const existing = new Set(existingAccountNumbers);
+    const pending = templates.filter(template => !existing.has(template.accountNumber));
+    const pendingNumbers = new Set(pending.map(template => template.accountNumber));
+    const depth = (template: AccountTemplate): number => {
+      let level = 0;
+      let parentNumber = template.parentAccountNumber;
+      while (parentNumber && pendingNumbers.has(parentNumber) && level < templates.length) {
+        level++;
+        parentNumber = templates.find(candidate => candidate.accountNumber === parentNumber)?.parentAccountNumber;
+      }
+      return level;
+    };
+
+    return pending
+      .map(template => ({ template, level: depth(template) }))
+      .sort((a, b) => a.level - b.level || a.template.accountNumber.localeCompare(b.template.accountNumber, undefined, { numeric: true }))
+      .map(({ template }) => template);
+  },
+
+  // Adds the pack's accounts to the chart; safe to run again, or over accounts the user already numbered
+  async installTemplatePack(pack: ChartTemplatePack): Promise<{ installed: number; skipped: number }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const [templates, { data: existing, error: existingError }, currency] = await Promise.all([
+      this.getTemplates(pack),
+      supabase.from('accounts').select('id, account_number').eq('user_id', user.id).not('account_number', 'is', null),
+      exchangeRateService.getBaseCurrency()
+    ]);
+
+    if (existingError) {
+      console.error('Error fetching chart of accounts:', existingError);
+      throw existingError;
+    }
+
+    const accountIdsByNumber = new Map((existing || []).map(account => [account.account_number as string, account.id]));
+    const plan = this.buildInstallPlan(templates, Array.from(accountIdsByNumber.keys()));
+
+    // Inserted a level at a time so each child can point at its parent's new id
+    const levels: AccountTemplate[][] = [];
+    let remaining = plan;
+    while (remaining.length > 0) {
+      const remainingNumbers = new Set(remaining.map(template => template.accountNumber));
+      const level = remaining.filter(template => !template.parentAccountNumber || !remainingNumbers.has(template.parentAccountNumber));
+      const next = level.length > 0 ? level : remaining; // A parent cycle in the templates goes in unlinked
+      levels.push(next);
+      remaining = remaining.filter(template => !next.includes(template));
+    }
+
+    for (const level of levels) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert(level.map(template => ({
+          user_id: user.id,
+          name: template.name,
+          type: ACCOUNT_TYPES_BY_TEMPLATE_TYPE[template.accountType] || 'custom',
+          currency,
+          account_number: template.accountNumber,
+          account_class: template.accountClass,
+          normal_balance: template.normalBalance,
+          description: template.description || null,
+          parent_account_id: template.parentAccountNumber ? accountIdsByNumber.get(template.parentAccountNumber) || null : null
+        })))
+        .select('id, account_number');
+
+      if (error) {
+        console.error('Error installing chart of accounts:', error);
+        throw error;
+      }
+
+      (data || []).forEach(account => accountIdsByNumber.set(account.account_number as string, account.id));
+    }
+
+    return { installed: plan.length, skipped: templates.length - plan.length };
+  },
+
+  // Every account, inactive and merged ones included, so history stays visible
+  async getChart(): Promise<EnhancedAccount[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .select(ACCOUNT_SELECT)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching chart of accounts:', error);
+      throw error;
+    }
+
+    return ((data || []) as SupabaseChartAccount[]).map(mapSupabaseChartAccount);
+  },
+
+  // Nests accounts under their parents by account number; orphans and parent cycles become top-level accounts
+  buildAccountTree(accounts: EnhancedAccount[]): EnhancedAccount[] {
+    const nodes = new Map(accounts.map(account => [account.id, { ...account, childAccounts: [] as EnhancedAccount[] }]));
+    const isDescendant = (ancestorId: string, accountId: string): boolean => {
+      const visited = new Set<string>();
+      let current = nodes.get(accountId)?.parentAccountId;
+      while (current && !visited.has(current)) {
+        if (current === ancestorId) return true;
+        visited.add(current);
+        current = nodes.get(current)?.parentAccountId;
+      }
+      return false;
+    };
+
+    const roots: EnhancedAccount[] = [];
+    nodes.forEach(node => {
+      const parent = node.parentAccountId ? nodes.get(node.parentAccountId) : undefined;
+      if (parent && !isDescendant(node.id, parent.id)) {
+        parent.childAccounts.push(node);
+      } else {
+        roots.push(node);
+      }
+    });
+
+    const sortTree = (list: EnhancedAccount[]): EnhancedAccount[] => {
+      list.sort(compareAccountNumbers);
+      list.forEach(account => sortTree(account.childAccounts || []));
+      return list;
+    };
+    return sortTree(roots);
+  },
+
+  // Accounts can only absorb another of the same class that is still in use and isn't one of their sub-accounts.
+  // Pass the whole chart so sub-accounts at any depth are caught, not just direct children
+  validateMerge(source: EnhancedAccount, target: EnhancedAccount, accounts: EnhancedAccount[] = []): string | null {
+    if (source.id === target.id) {
+      return 'Choose a different account to merge into';
+    }
+    if (source.mergedIntoAccountId) {
+      return `${source.name} has already been merged`;
+    }
+
+    const parentIds = new Map(accounts.map(account => [account.id, account.parentAccountId]));
+    const visited = new Set<string>();
+    let ancestorId = target.parentAccountId;
+    while (ancestorId && !visited.has(ancestorId)) {
+      if (ancestorId === source.id) {
+        return `Move ${target.name} out from under ${source.name} before merging into it`;
+      }
+      visited.add(ancestorId);
+      ancestorId = parentIds.get(ancestorId);
+    }
+
+    if (!target.isActive || target.mergedIntoAccountId) {
+      return `${target.name} is inactive; reactivate it before merging into it`;
+    }
+    if (source.accountClass && target.accountClass && source.accountClass !== target.accountClass) {
+      return `Only accounts of the same class can be merged (${source.accountClass} into ${target.accountClass})`;
+    }
+    return null;
+  },
+
+  async setAccountActive(accountId: string, isActive: boolean): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    // Deactivated accounts keep their posted lines; they just drop out of pickers and default postings
+    if (!isActive) {
+      const { count, error: childError } = await supabase
+        .from('accounts')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('parent_account_id', accountId)
+        .eq('is_active', true);
+
+      if (childError) {
+        console.error('Error checking child accounts:', childError);
+        throw childError;
+      }
+      if (count) {
+        throw new Error('Deactivate or move this account\'s sub-accounts first');
+      }
+    }
+
+    const { error } = await supabase
+      .from('accounts')
+      .update({ is_active: isActive })
+      .eq('id', accountId)
+      .eq('user_id', user.id)
+      .is('merged_into_account_id', null);
+
+    if (error) {
+      console.error('Error updating account status:', error);
+      throw error;
+    }
+  },
+
+  // Posted lines stay on the source account (so locked periods are untouched) and report under the target.
+  // The database function repeats these checks and moves everything in one transaction
+  async mergeAccounts(sourceId: string, targetId: string): Promise<void> {
+    const chart = await this.getChart();
+    const source = chart.find(account => account.id === sourceId);
+    const target = chart.find(account => account.id === targetId);
+    if (!source || !target) {
+      throw new Error('Account not found');
+    }
+
+    const problem = this.validateMerge(source, target, chart);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const { error } = await supabase.rpc('merge_accounts', { p_source_id: source.id, p_target_id: target.id });
+
+    if (error) {
+      console.error('Error merging accounts:', error);
+      throw error;
+    }
+  }
+};
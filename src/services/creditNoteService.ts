@@ -0,0 +1,528 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import { Invoice, SupabaseCustomer, TaxCode, DEFAULT_TAX_CODE } from '@/types';
+import {
+  CreateCreditNoteRequest,
+  CreditNote,
+  CreditNoteApplication,
+  CreditNoteItem,
+  SupabaseCreditNote,
+  SupabaseCreditNoteApplication
+} from '../types/creditNote';
+import { PostingRole } from '../types/posting';
+import { exchangeRateService } from './exchangeRateService';
+import { paymentService } from './paymentService';
+import { periodLockService } from './periodLockService';
+import { postingService } from './postingService';
+import { supabaseDataService } from './supabaseDataService';
+
+const CREDIT_NOTE_PREFIX = 'CN-';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const CREDIT_NOTE_SELECT = `
+  *,
+  customers (*),
+  invoices (id, invoice_number, date, total),
+  credit_note_applications (*, invoices (invoice_number))
+`;
+
+type SupabaseCreditNoteWithRelations = SupabaseCreditNote & {
+  customers?: Partial<SupabaseCustomer> | null;
+  invoices?: { id: string; invoice_number: string; date: string; total: number } | null;
+  credit_note_applications?: (SupabaseCreditNoteApplication & { invoices?: { invoice_number: string } | null })[];
+};
+
+const mapSupabaseApplicationToApplication = (
+  application: SupabaseCreditNoteApplication & { invoices?: { invoice_number: string } | null }
+): CreditNoteApplication => ({
+  id: application.id,
+  creditNoteId: application.credit_note_id,
+  invoiceId: application.invoice_id,
+  invoiceNumber: application.invoices?.invoice_number,
+  amount: application.amount,
+  appliedDate: application.applied_date,
+  userId: application.user_id,
+  createdAt: application.created_at,
+});
+
+const mapSupabaseCreditNoteToCreditNote = (creditNote: SupabaseCreditNoteWithRelations): CreditNote => ({
+  id: creditNote.id,
+  creditNoteNumber: creditNote.credit_note_number,
+  invoiceId: creditNote.invoice_id,
+  invoice: creditNote.invoices ? {
+    id: creditNote.invoices.id,
+    invoiceNumber: creditNote.invoices.invoice_number,
+    date: creditNote.invoices.date,
+    total: creditNote.invoices.total
+  } : undefined,
+  customerId: creditNote.customer_id,
+  customer: creditNote.customers ? {
+    id: creditNote.customer_id,
+    name: creditNote.customers.name || '',
+    email: creditNote.customers.email || '',
+    address: creditNote.customers.address ?? null,
+    city: creditNote.customers.city ?? null,
+    state: creditNote.customers.state ?? null,
+    zip: creditNote.customers.zip ?? null,
+    country: creditNote.customers.country || ''
+  } : undefined,
+  date: creditNote.date,
+  reason: creditNote.reason,
+  items: (creditNote.items as unknown as CreditNoteItem[]) || [],
+  subtotal: creditNote.subtotal,
+  taxAmount: creditNote.tax_amount,
+  total: creditNote.total,
+  currency: creditNote.currency,
+  exchangeRate: creditNote.exchange_rate ?? 1,
+  amountApplied: creditNote.amount_applied || 0,
+  remainingCredit: creditNote.status === 'void'
+    ? 0
+    : roundCurrency(creditNote.total - (creditNote.amount_applied || 0)),
+  status: creditNote.status,
+  journalEntryId: creditNote.journal_entry_id,
+  applications: (creditNote.credit_note_applications || []).map(mapSupabaseApplicationToApplication),
+  userId: creditNote.user_id,
+  createdAt: creditNote.created_at,
+  updatedAt: creditNote.updated_at,
+});
+
+// Generate the next sequential credit note number for the user, reserved in the database so none are shared
+const generateCreditNoteNumber = async (userId: string): Promise<string> => {
+  const { data: nextNumber, error } = await supabase.rpc('next_credit_note_sequence', {
+    p_user_id: userId,
+    p_prefix: CREDIT_NOTE_PREFIX
+  });
+
+  if (error) {
+    console.error('Error reserving credit note number:', error);
+    throw error;
+  }
+
+  return `${CREDIT_NOTE_PREFIX}${String(nextNumber).padStart(4, '0')}`;
+};
+
+// Post the journal entry that reverses the original sale: Dr Sales, Dr GST, Cr Receivables
+// Amounts are converted to the base currency at the rate locked on the credited invoice
+const postReversingJournalEntry = async (userId: string, creditNote: CreditNote): Promise<string | null> => {
+  const accounts = await postingService.getPostingAccounts(userId);
+
+  const subtotal = exchangeRateService.convertToBase(creditNote.subtotal, creditNote.exchangeRate);
+  const taxAmount = exchangeRateService.convertToBase(creditNote.taxAmount, creditNote.exchangeRate);
+  const baseAmounts = { subtotal, taxAmount, total: roundCurrency(subtotal + taxAmount) };
+
+  const lines = creditNoteService.buildReversingJournalLines(
+    { creditNoteNumber: creditNote.creditNoteNumber, ...baseAmounts },
+    accounts
+  );
+  if (!lines) {
+    console.warn(`Chart of accounts incomplete, credit note ${creditNote.creditNoteNumber} was not posted to the ledger`);
+    return null;
+  }
+
+  const entryNumber = await supabaseDataService.generateJournalEntryNumber(userId);
+
+  const { data: journalEntry, error: entryError } = await supabase
+    .from('journal_entries')
+    .insert({
+      user_id: userId,
+      entry_number: entryNumber,
+      entry_date: creditNote.date,
+      description: `Credit note ${creditNote.creditNoteNumber} reversing invoice ${creditNote.invoice?.invoiceNumber || creditNote.invoiceId}`,
+      reference_type: 'credit_note',
+      reference_id: creditNote.id,
+      total_amount: baseAmounts.total,
+      status: 'posted'
+    })
+    .select()
+    .single();
+
+  if (entryError) {
+    console.error('Error creating credit note journal entry:', entryError);
+    throw entryError;
+  }
+
+  const { error: linesError } = await supabase
+    .from('journal_entry_lines')
+    .insert(lines.map(line => ({ ...line, journal_entry_id: journalEntry.id })));
+
+  if (linesError) {
+    await supabase.from('journal_entries').delete().eq('id', journalEntry.id);
+    console.error('Error creating credit note journal entry lines:', linesError);
+    throw linesError;
+  }
+
+  return journalEntry.id;
+};
+
+export const creditNoteService = {
+  async getCreditNotes(): Promise<CreditNote[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select(CREDIT_NOTE_SELECT)
+      .eq('user_id', user.id)
+      .order('date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching credit notes:', error);
+      throw error;
+    }
+
+    return (data as unknown as SupabaseCreditNoteWithRelations[]).map(mapSupabaseCreditNoteToCreditNote);
+  },
+
+  async getCreditNote(id: string): Promise<CreditNote | null> {
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select(CREDIT_NOTE_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error('Error fetching credit note:', error);
+      throw error;
+    }
+
+    return data ? mapSupabaseCreditNoteToCreditNote(data as unknown as SupabaseCreditNoteWithRelations) : null;
+  },
+
+  async getCreditNotesByInvoice(invoiceId: string): Promise<CreditNote[]> {
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select(CREDIT_NOTE_SELECT)
+      .eq('invoice_id', invoiceId)
+      .order('date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching credit notes for invoice:', error);
+      throw error;
+    }
+
+    return (data as unknown as SupabaseCreditNoteWithRelations[]).map(mapSupabaseCreditNoteToCreditNote);
+  },
+
+  // Issued credit notes dated within a GST period
+  async getCreditNotesByPeriod(userId: string, periodStart: string, periodEnd: string): Promise<CreditNote[]> {
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'issued')
+      .gte('date', periodStart)
+      .lte('date', periodEnd)
+      .order('date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching credit notes by period:', error);
+      throw error;
+    }
+
+    return ((data || []) as unknown as SupabaseCreditNoteWithRelations[]).map(mapSupabaseCreditNoteToCreditNote);
+  },
+
+  // Unapplied credit held for a customer across all issued credit notes
+  async getCustomerCreditBalance(customerId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .select('total, amount_applied')
+      .eq('customer_id', customerId)
+      .eq('status', 'issued');
+
+    if (error) {
+      console.error('Error fetching customer credit balance:', error);
+      throw error;
+    }
+
+    return roundCurrency((data || []).reduce((sum, note) => sum + note.total - (note.amount_applied || 0), 0));
+  },
+
+  async createCreditNote(request: CreateCreditNoteRequest): Promise<CreditNote> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { invoice } = request;
+    const existingCredits = (await this.getCreditNotesByInvoice(invoice.id)).filter(note => note.status === 'issued');
+    const alreadyCredited = existingCredits.reduce((sum, note) => sum + note.total, 0);
+
+    this.validateCreditNote(request, alreadyCredited, this.getCreditedQuantities(existingCredits));
+    await periodLockService.assertPeriodOpen('credit_note', [request.date]);
+
+    const items = request.items.filter(item => item.quantity > 0);
+    const totals = this.calculateCreditNoteTotals(items, invoice);
+    const creditNoteNumber = await generateCreditNoteNumber(user.id);
+
+    const { data, error } = await supabase
+      .from('credit_notes')
+      .insert({
+        user_id: user.id,
+        credit_note_number: creditNoteNumber,
+        invoice_id: invoice.id,
+        customer_id: invoice.customerId,
+        date: request.date,
+        reason: request.reason.trim(),
+        items: items as unknown as Json,
+        subtotal: totals.subtotal,
+        tax_amount: totals.taxAmount,
+        total: totals.total,
+        currency: invoice.currency,
+        exchange_rate: invoice.exchangeRate ?? 1,
+        amount_applied: 0,
+        status: 'issued'
+      })
+      .select(CREDIT_NOTE_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error creating credit note:', error);
+      throw error;
+    }
+
+    let creditNote = mapSupabaseCreditNoteToCreditNote(data as unknown as SupabaseCreditNoteWithRelations);
+
+    const journalEntryId = await postReversingJournalEntry(user.id, creditNote);
+    if (journalEntryId) {
+      const { error: linkError } = await supabase
+        .from('credit_notes')
+        .update({ journal_entry_id: journalEntryId })
+        .eq('id', creditNote.id);
+
+      if (linkError) {
+        console.error('Error linking journal entry to credit note:', linkError);
+        throw linkError;
+      }
+      creditNote = { ...creditNote, journalEntryId };
+    }
+
+    if (request.applyToInvoice) {
+      const { balanceDue } = await this.getInvoiceBalance(invoice.id);
+      const amountToApply = Math.min(creditNote.total, balanceDue);
+      if (amountToApply > 0) {
+        creditNote = await this.applyCredit(creditNote.id, invoice.id, amountToApply, request.date);
+      }
+    }
+
+    return creditNote;
+  },
+
+  // Allocate held credit against an invoice belonging to the same customer
+  async applyCredit(
+    creditNoteId: string,
+    invoiceId: string,
+    amount: number,
+    appliedDate: string = format(new Date(), 'yyyy-MM-dd')
+  ): Promise<CreditNote> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const creditNote = await this.getCreditNote(creditNoteId);
+    if (!creditNote) {
+      throw new Error(`Credit note with id ${creditNoteId} not found`);
+    }
+
+    const invoiceBalance = await this.getInvoiceBalance(invoiceId);
+    const roundedAmount = roundCurrency(amount);
+
+    if (creditNote.status !== 'issued') {
+      throw new Error('Only issued credit notes can be applied');
+    }
+    if (invoiceBalance.customerId !== creditNote.customerId) {
+      throw new Error('Credit can only be applied to invoices for the same customer');
+    }
+    if (roundedAmount <= 0) {
+      throw new Error('Amount to apply must be greater than zero');
+    }
+    if (roundedAmount > creditNote.remainingCredit) {
+      throw new Error(`Amount exceeds the remaining credit of ${creditNote.remainingCredit.toFixed(2)}`);
+    }
+    if (roundedAmount > invoiceBalance.balanceDue) {
+      throw new Error(`Amount exceeds the invoice balance of ${invoiceBalance.balanceDue.toFixed(2)}`);
+    }
+
+    // The application, the credit note and the invoice are updated together, with the checks above repeated under lock
+    const { error: applicationError } = await supabase.rpc('apply_credit_note', {
+      p_credit_note_id: creditNoteId,
+      p_invoice_id: invoiceId,
+      p_amount: roundedAmount,
+      p_applied_date: appliedDate
+    });
+
+    if (applicationError) {
+      console.error('Error applying credit note:', applicationError);
+      throw applicationError;
+    }
+
+    await paymentService.updateInvoicePaymentStatus(invoiceId);
+
+    const updated = await this.getCreditNote(creditNoteId);
+    if (!updated) {
+      throw new Error(`Credit note with id ${creditNoteId} not found`);
+    }
+    return updated;
+  },
+
+  async getInvoiceBalance(invoiceId: string): Promise<{ customerId: string; totalCredited: number; balanceDue: number }> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('customer_id, total, total_paid, total_credited')
+      .eq('id', invoiceId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching invoice balance:', error);
+      throw error;
+    }
+
+    const totalCredited = data.total_credited || 0;
+    return {
+      customerId: data.customer_id,
+      totalCredited,
+      balanceDue: roundCurrency(Math.max(0, data.total - (data.total_paid || 0) - totalCredited))
+    };
+  },
+
+  // Credit every line of the invoice in full
+  buildFullCreditItems(invoice: Invoice): CreditNoteItem[] {
+    return (invoice.items || []).map(item => ({
+      lineItemId: item.id,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      rate: item.rate,
+      total: roundCurrency(item.quantity * item.rate),
+      taxCode: item.taxCode || DEFAULT_TAX_CODE
+    }));
+  },
+
+  // GST is credited on standard-rated lines at the invoice's effective rate so partial credits stay proportional
+  calculateCreditNoteTotals(items: CreditNoteItem[], invoice: Invoice): { subtotal: number; taxAmount: number; total: number } {
+    const isStandardRated = (item: { taxCode?: TaxCode | null }) => (item.taxCode || DEFAULT_TAX_CODE) === 'GST15';
+    const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.quantity * item.rate, 0));
+    const standardRatedSubtotal = items
+      .filter(isStandardRated)
+      .reduce((sum, item) => sum + item.quantity * item.rate, 0);
+
+    // Share of the invoice subtotal that carried GST, from its lines (all of it for invoices without lines)
+    const invoiceLinesTotal = (invoice.items || []).reduce((sum, line) => sum + line.quantity * line.rate, 0);
+    const invoiceStandardLinesTotal = (invoice.items || [])
+      .filter(isStandardRated)
+      .reduce((sum, line) => sum + line.quantity * line.rate, 0);
+    const invoiceTaxableBase = invoiceLinesTotal > 0
+      ? invoice.subtotal * (invoiceStandardLinesTotal / invoiceLinesTotal)
+      : invoice.subtotal;
+
+    const effectiveTaxRate = invoiceTaxableBase > 0 ? invoice.taxAmount / invoiceTaxableBase : 0;
+    const taxAmount = roundCurrency(standardRatedSubtotal * effectiveTaxRate);
+
+    return {
+      subtotal,
+      taxAmount,
+      total: roundCurrency(subtotal + taxAmount)
+    };
+  },
+
+  // Returns null when any required account is missing from the chart of accounts
+  buildReversingJournalLines(
+    creditNote: Pick<CreditNote, 'creditNoteNumber' | 'subtotal' | 'taxAmount' | 'total'>,
+    accounts: Partial<Record<PostingRole, string>>
+  ): { account_id: string; description: string; debit_amount: number; credit_amount: number; line_order: number }[] | null {
+    const salesAccountId = accounts.sales;
+    const gstAccountId = accounts.gst_output;
+    const receivablesAccountId = accounts.receivables;
+
+    if (!salesAccountId || !receivablesAccountId || (creditNote.taxAmount > 0 && !gstAccountId)) {
+      return null;
+    }
+
+    const description = `Credit note ${creditNote.creditNoteNumber}`;
+    const lines = [
+      { account_id: salesAccountId, description, debit_amount: creditNote.subtotal, credit_amount: 0, line_order: 1 }
+    ];
+
+    if (creditNote.taxAmount > 0 && gstAccountId) {
+      lines.push({ account_id: gstAccountId, description, debit_amount: creditNote.taxAmount, credit_amount: 0, line_order: 2 });
+    }
+
+    lines.push({
+      account_id: receivablesAccountId,
+      description,
+      debit_amount: 0,
+      credit_amount: creditNote.total,
+      line_order: lines.length + 1
+    });
+
+    return lines;
+  },
+
+  // Quantity credited so far against each invoice line, across the given credit notes
+  getCreditedQuantities(creditNotes: Pick<CreditNote, 'items'>[]): Record<string, number> {
+    const credited: Record<string, number> = {};
+    for (const item of creditNotes.flatMap(note => note.items || [])) {
+      if (item.lineItemId) {
+        credited[item.lineItemId] = (credited[item.lineItemId] || 0) + item.quantity;
+      }
+    }
+    return credited;
+  },
+
+  validateCreditNote(
+    request: CreateCreditNoteRequest,
+    alreadyCredited: number = 0,
+    creditedQuantities: Record<string, number> = {}
+  ): void {
+    const { invoice, items } = request;
+
+    if (invoice.status === 'draft') {
+      throw new Error('Draft invoices can be edited directly and cannot be credited');
+    }
+
+    if (!request.reason || request.reason.trim().length === 0) {
+      throw new Error('A reason for the credit is required');
+    }
+
+    if (!request.date) {
+      throw new Error('Credit note date is required');
+    }
+
+    if (!items || items.length === 0 || items.every(item => item.quantity <= 0)) {
+      throw new Error('At least one line must be credited');
+    }
+
+    for (const item of items) {
+      if (item.quantity < 0 || item.rate < 0) {
+        throw new Error('Credited quantities and rates cannot be negative');
+      }
+
+      const originalLine = item.lineItemId ? invoice.items.find(line => line.id === item.lineItemId) : undefined;
+      if (!originalLine) continue;
+
+      const uncredited = originalLine.quantity - (creditedQuantities[originalLine.id] || 0);
+      if (item.quantity > uncredited) {
+        throw new Error(uncredited < originalLine.quantity
+          ? `Cannot credit more than the ${Math.max(0, uncredited)} left uncredited of the invoiced quantity for "${originalLine.description}"`
+          : `Cannot credit more than the invoiced quantity for "${originalLine.description}"`);
+      }
+      if (item.rate > originalLine.rate) {
+        throw new Error(`Cannot credit "${originalLine.description}" at more than its invoiced rate of ${originalLine.rate.toFixed(2)}`);
+      }
+    }
+
+    const { total } = this.calculateCreditNoteTotals(items, invoice);
+    const creditable = roundCurrency(invoice.total - alreadyCredited);
+    if (total > creditable) {
+      throw new Error(`Credit total exceeds the remaining creditable amount of ${creditable.toFixed(2)}`);
+    }
+  }
+};
@@ -0,0 +1,231 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CSVColumnMapping } from '../types/bankTransaction';
+import { CSVImportProfile, SupabaseCSVImportProfile } from '../types/csvImportProfile';
+
+const mapSupabaseProfileToProfile = (profile: SupabaseCSVImportProfile): CSVImportProfile => ({
+  id: profile.id,
+  name: profile.name,
+  bankAccountId: profile.bank_account_id,
+  columnMapping: (profile.column_mapping || {}) as unknown as CSVColumnMapping,
+  dateFormat: profile.date_format,
+  delimiter: profile.delimiter,
+  headerFingerprint: profile.header_fingerprint,
+  isBuiltIn: false,
+  userId: profile.user_id,
+  createdAt: profile.created_at,
+  updatedAt: profile.updated_at,
+});
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const createHeaderFingerprint = (headers: string[]): string =>
+  headers.map(normaliseHeader).join('|');
+
+const builtInProfile = (
+  id: string,
+  name: string,
+  headers: string[],
+  columnMapping: CSVColumnMapping,
+  dateFormat: string
+): CSVImportProfile => ({
+  id: `builtin-${id}`,
+  name,
+  columnMapping,
+  dateFormat,
+  delimiter: ',',
+  headerFingerprint: createHeaderFingerprint(headers),
+  isBuiltIn: true,
+});
+
+// Default CSV exports from the major NZ banks' internet banking
+export const BUILT_IN_IMPORT_PROFILES: CSVImportProfile[] = [
+  builtInProfile(
+    'anz',
+    'ANZ',
+    ['Type', 'Details', 'Particulars', 'Code', 'Reference', 'Amount', 'Date', 'ForeignCurrencyAmount', 'ConversionCharge'],
+    { date: 'Date', description: 'Details', amount: 'Amount', reference: 'Reference' },
+    'DD/MM/YYYY'
+  ),
+  builtInProfile(
+    'asb',
+    'ASB',
+    ['Date', 'Unique Id', 'Tran Type', 'Cheque Number', 'Payee', 'Memo', 'Amount'],
+    { date: 'Date', description: 'Payee', amount: 'Amount', reference: 'Memo', externalId: 'Unique Id' },
+    'YYYY/MM/DD'
+  ),
+  builtInProfile(
+    'bnz',
+    'BNZ',
+    ['Date', 'Amount', 'Payee', 'Particulars', 'Code', 'Reference', 'Tran Type', 'This Party Account',
+      'Other Party Account', 'Serial', 'Transaction Code', 'Batch Number', 'Originating Bank/Branch', 'Processed Date'],
+    { date: 'Date', description: 'Payee', amount: 'Amount', reference: 'Reference' },
+    'DD/MM/YY'
+  ),
+  builtInProfile(
+    'westpac',
+    'Westpac',
+    ['Date', 'Amount', 'Other Party', 'Description', 'Reference', 'Particulars', 'Analysis Code'],
+    { date: 'Date', description: 'Other Party', amount: 'Amount', reference: 'Reference' },
+    'DD/MM/YYYY'
+  ),
+  builtInProfile(
+    'kiwibank',
+    'Kiwibank',
+    ['Account number', 'Date', 'Memo/Description', 'Source Code (payment type)', 'TP ref', 'TP part', 'TP code',
+      'OP ref', 'OP part', 'OP code', 'OP name', 'OP Bank Account Number', 'Amount (credit)', 'Amount (debit)',
+      'Amount', 'Balance'],
+    { date: 'Date', description: 'Memo/Description', amount: 'Amount', balance: 'Balance', reference: 'TP ref', merchant: 'OP name' },
+    'DD-MM-YYYY'
+  ),
+];
+
+export const csvImportProfileService = {
+  async getImportProfiles(): Promise<CSVImportProfile[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('csv_import_profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching CSV import profiles:', error);
+      throw error;
+    }
+
+    return (data as SupabaseCSVImportProfile[]).map(mapSupabaseProfileToProfile);
+  },
+
+  async createImportProfile(
+    profile: Omit<CSVImportProfile, 'id' | 'isBuiltIn' | 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<CSVImportProfile> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+    if (!profile.name.trim()) {
+      throw new Error('Profile name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('csv_import_profiles')
+      .insert([{
+        name: profile.name.trim(),
+        bank_account_id: profile.bankAccountId || null,
+        column_mapping: profile.columnMapping as unknown as Json,
+        date_format: profile.dateFormat,
+        delimiter: profile.delimiter || null,
+        header_fingerprint: profile.headerFingerprint,
+        user_id: user.id,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating CSV import profile:', error);
+      throw error;
+    }
+
+    return mapSupabaseProfileToProfile(data as SupabaseCSVImportProfile);
+  },
+
+  async updateImportProfile(
+    id: string,
+    profile: Partial<Omit<CSVImportProfile, 'id' | 'isBuiltIn' | 'userId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<CSVImportProfile> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const updateData: Partial<SupabaseCSVImportProfile> = {};
+    if (profile.name !== undefined) updateData.name = profile.name.trim();
+    if (profile.bankAccountId !== undefined) updateData.bank_account_id = profile.bankAccountId || null;
+    if (profile.columnMapping !== undefined) updateData.column_mapping = profile.columnMapping as unknown as Json;
+    if (profile.dateFormat !== undefined) updateData.date_format = profile.dateFormat;
+    if (profile.delimiter !== undefined) updateData.delimiter = profile.delimiter || null;
+    if (profile.headerFingerprint !== undefined) updateData.header_fingerprint = profile.headerFingerprint;
+
+    const { data, error } = await supabase
+      .from('csv_import_profiles')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating CSV import profile:', error);
+      throw error;
+    }
+
+    return mapSupabaseProfileToProfile(data as SupabaseCSVImportProfile);
+  },
+
+  async deleteImportProfile(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = await supabase
+      .from('csv_import_profiles')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting CSV import profile:', error);
+      throw error;
+    }
+  },
+
+  createHeaderFingerprint,
+
+  // True when every column the profile maps is present in the file
+  coversHeaders(profile: CSVImportProfile, headers: string[]): boolean {
+    const available = new Set(headers.map(normaliseHeader));
+    return Object.values(profile.columnMapping)
+      .filter((column): column is string => !!column)
+      .every(column => available.has(normaliseHeader(column)));
+  },
+
+  // Profile columns rewritten to the file's own spelling of each header
+  resolveMapping(profile: CSVImportProfile, headers: string[]): CSVColumnMapping {
+    const byName = new Map(headers.map(header => [normaliseHeader(header), header]));
+    const mapping = {} as CSVColumnMapping;
+    (Object.keys(profile.columnMapping) as (keyof CSVColumnMapping)[]).forEach(field => {
+      const column = profile.columnMapping[field];
+      if (column) mapping[field] = byName.get(normaliseHeader(column)) || '';
+    });
+    return { ...mapping, date: mapping.date || '', description: mapping.description || '' };
+  },
+
+  /**
+   * Pick the profile for an uploaded file: the user's own profiles win over
+   * built-in ones, and a profile tied to the target account wins over a shared one.
+   * Built-in profiles also match when the bank has added extra columns.
+   */
+  findMatchingProfile(
+    headers: string[],
+    profiles: CSVImportProfile[],
+    bankAccountId?: string
+  ): CSVImportProfile | undefined {
+    const fingerprint = createHeaderFingerprint(headers);
+    const userProfiles = profiles.filter(profile =>
+      !profile.isBuiltIn && (!profile.bankAccountId || profile.bankAccountId === bankAccountId)
+    );
+    const builtIn = profiles.filter(profile => profile.isBuiltIn);
+
+    return userProfiles.find(profile => profile.bankAccountId && profile.headerFingerprint === fingerprint) ||
+      userProfiles.find(profile => profile.headerFingerprint === fingerprint) ||
+      builtIn.find(profile => profile.headerFingerprint === fingerprint) ||
+      builtIn.find(profile => this.coversHeaders(profile, headers));
+  },
+};
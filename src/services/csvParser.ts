@@ -0,0 +1,266 @@
+// RFC 4180 CSV reader
+// Handles quoted delimiters and newlines, escaped quotes, CRLF/CR/LF endings and a
+// leading byte order mark. Input can be pushed in chunks so large files are never
+// split into lines up front.
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CSVRecord {
+  fields: string[];
+  line: number; // 1-based line in the file where the record starts
+}
+
+export interface CSVReaderOptions {
+  delimiter?: string;
+}
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export class CSVParseError extends Error {
+  public line: number;
+  public column?: number;
+
+  constructor({ message, line, column }: { message: string; line: number; column?: number }) {
+    super(message);
+    this.name = 'CSVParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export class CSVTokenizer {
+  private delimiter: string;
+  private field = '';
+  private fields: string[] = [];
+  private inQuotes = false;
+  private afterClosingQuote = false;
+  private fieldStarted = false;
+  private skipNextLineFeed = false;
+  private isFirstChunk = true;
+  private line = 1;
+  private recordLine = 1;
+  private quoteLine = 1;
+
+  constructor(options: CSVReaderOptions = {}) {
+    this.delimiter = options.delimiter || ',';
+  }
+
+  push(chunk: string): CSVRecord[] {
+    const records: CSVRecord[] = [];
+    let start = 0;
+
+    if (this.isFirstChunk) {
+      this.isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // Second half of a CRLF pair
+      if (this.skipNextLineFeed) {
+        this.skipNextLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.inQuotes = false;
+          this.afterClosingQuote = true;
+        } else {
+          if (char === '\r' || char === '\n') {
+            // Line breaks inside quoted fields are normalised to \n
+            this.line++;
+            this.skipNextLineFeed = char === '\r';
+            this.field += '\n';
+          } else {
+            this.field += char;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (this.afterClosingQuote) {
+          // "" inside a quoted field is an escaped quote
+          this.field += '"';
+          this.inQuotes = true;
+          this.afterClosingQuote = false;
+        } else if (!this.fieldStarted) {
+          this.inQuotes = true;
+          this.fieldStarted = true;
+          this.quoteLine = this.line;
+        } else {
+          this.field += char; // Stray quote in an unquoted field, keep it as text
+        }
+        continue;
+      }
+
+      this.afterClosingQuote = false;
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.skipNextLineFeed = char === '\r';
+        const record = this.endRecord();
+        if (record) records.push(record);
+        this.line++;
+        this.recordLine = this.line;
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+
+    return records;
+  }
+
+  // Flush the final record; throws if the file ends inside a quoted field
+  end(): CSVRecord[] {
+    if (this.inQuotes) {
+      throw new CSVParseError({
+        message: `Unterminated quoted field starting on line ${this.quoteLine}`,
+        line: this.quoteLine,
+        column: this.fields.length + 1
+      });
+    }
+
+    const record = this.endRecord();
+    return record ? [record] : [];
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+    this.afterClosingQuote = false;
+  }
+
+  private endRecord(): CSVRecord | null {
+    this.endField();
+    const fields = this.fields;
+    this.fields = [];
+
+    // Blank lines are not records
+    if (fields.length === 1 && fields[0] === '') return null;
+    return { fields, line: this.recordLine };
+  }
+}
+
+export function parseCSV(text: string, options: CSVReaderOptions = {}): CSVRecord[] {
+  const tokenizer = new CSVTokenizer(options);
+  return [...tokenizer.push(text), ...tokenizer.end()];
+}
+
+// Pick the delimiter that splits the first records into the most consistent number of columns
+export function detectDelimiter(text: string, sampleRecords = 20): string {
+  const sample = text.slice(0, 64 * 1024);
+  let best = { delimiter: ',', score: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const records = new CSVTokenizer({ delimiter }).push(sample).slice(0, sampleRecords);
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.fields.length, (counts.get(record.fields.length) || 0) + 1));
+
+    let modeWidth = 1;
+    let modeCount = 0;
+    counts.forEach((count, width) => {
+      if (count > modeCount || (count === modeCount && width > modeWidth)) {
+        modeWidth = width;
+        modeCount = count;
+      }
+    });
+
+    const score = modeWidth > 1 ? modeCount * modeWidth : 0;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+}
+
+export function detectEncoding(bytes: Uint8Array): CSVEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // stream: true so a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    // Older bank exports are Windows-1252 (e.g. Māori macrons or £ as single bytes)
+    return 'windows-1252';
+  }
+}
+
+// Banks often put account details above the real header; find the first row that looks like one
+export function detectHeaderRow(records: CSVRecord[], maxRows = 20): number {
+  const widths = records.slice(0, maxRows * 2).map(record => record.fields.length);
+  const counts = new Map<number, number>();
+  widths.forEach(width => counts.set(width, (counts.get(width) || 0) + 1));
+  const tableWidth = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] ?? 0;
+
+  const index = records.slice(0, maxRows).findIndex(record =>
+    record.fields.length === tableWidth &&
+    record.fields.filter(field => field.trim() !== '').length >= Math.min(2, tableWidth)
+  );
+
+  return Math.max(index, 0);
+}
+
+// Read a file in chunks, decoding with the detected encoding
+export async function* streamCSVRecords(
+  file: Blob,
+  options: CSVReaderOptions = {}
+): AsyncGenerator<CSVRecord, void, undefined> {
+  const reader = file.stream().getReader();
+  let decoder: TextDecoder | null = null;
+  let tokenizer: CSVTokenizer | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (!decoder) {
+      decoder = new TextDecoder(detectEncoding(value));
+    }
+    const text = decoder.decode(value, { stream: true });
+
+    if (!tokenizer) {
+      tokenizer = new CSVTokenizer({ delimiter: options.delimiter || detectDelimiter(text) });
+    }
+    yield* tokenizer.push(text);
+  }
+
+  if (decoder && tokenizer) {
+    yield* tokenizer.push(decoder.decode());
+    yield* tokenizer.end();
+  }
+}
+
+export interface CSVSample {
+  text: string;
+  encoding: CSVEncoding;
+  complete: boolean; // The sample is the whole file
+}
+
+// Decode the start of a file for detection and previews without reading the rest
+export async function readCSVSample(file: Blob, size = 64 * 1024): Promise<CSVSample> {
+  const bytes = new Uint8Array(await file.slice(0, size).arrayBuffer());
+  const complete = file.size <= size;
+  const encoding = detectEncoding(bytes);
+  return { text: new TextDecoder(encoding).decode(bytes, { stream: !complete }), encoding, complete };
+}
+
+// Records in a sample; one cut off by the end of the sample is left out
+export function parseCSVSample(sample: CSVSample, options: CSVReaderOptions = {}): CSVRecord[] {
+  const tokenizer = new CSVTokenizer(options);
+  const records = tokenizer.push(sample.text);
+  return sample.complete ? [...records, ...tokenizer.end()] : records;
+}
+
+export async function readCSVText(file: Blob): Promise<{ text: string; encoding: CSVEncoding }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const encoding = detectEncoding(bytes.subarray(0, 64 * 1024));
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+}
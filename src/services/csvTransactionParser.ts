@@ -1,4 +1,5 @@
 import { CSVColumnMapping, ImportedTransaction } from '../types/bankTransaction';
+import { CSVParseError, CSVRecord, CSVTokenizer, detectDelimiter, parseCSV, readCSVSample, streamCSVRecords } from './csvParser';
 
 export interface CSVParseResult {
   success: boolean;
@@ -10,10 +11,23 @@ export interface CSVParseResult {
   }>;
 }
 
+export type DecimalSeparator = '.' | ',';
+
+export interface CSVTransactionParseOptions {
+  delimiter?: string; // Detected from the data when not set
+  skipRows?: number; // Preamble rows above the header; found automatically when not set
+  decimalSeparator?: DecimalSeparator; // Detected from the amounts when not set
+}
+
+// Data rows read ahead of parsing to work out the decimal separator
+const DECIMAL_SAMPLE_ROWS = 50;
+
+// Rows in errors are file line numbers, columns are 1-based. Files are read in chunks rather than loaded whole.
 export async function parseCSVTransactions(
-  csvData: string,
+  csvData: string | Blob,
   columnMapping: CSVColumnMapping,
-  dateFormat?: string
+  dateFormat?: string,
+  options: CSVTransactionParseOptions = {}
 ): Promise<CSVParseResult> {
   const errors: string[] = [];
   const transactions: ImportedTransaction[] = [];
@@ -21,7 +35,7 @@ export async function parseCSVTransactions(
 
   try {
     // Validate input
-    if (!csvData || csvData.trim().length === 0) {
+    if (typeof csvData === 'string' ? csvData.trim().length === 0 : csvData.size === 0) {
       return {
         success: false,
         transactions: [],
@@ -29,9 +43,35 @@ export async function parseCSVTransactions(
       };
     }
 
-    // Parse CSV data
-    const lines = csvData.trim().split('\n');
-    if (lines.length < 2) {
+    const delimiter = options.delimiter || detectDelimiter(
+      typeof csvData === 'string' ? csvData : (await readCSVSample(csvData)).text
+    );
+    const reader = (typeof csvData === 'string'
+      ? parseCSVRecords(csvData, delimiter)
+      : streamCSVRecords(csvData, { delimiter }))[Symbol.asyncIterator]();
+    const nextRecord = async (): Promise<CSVRecord | null> => {
+      const result = await reader.next();
+      return result.done ? null : result.value as CSVRecord;
+    };
+
+    // Read far enough ahead to find the header and a sample of amounts
+    const leadingRecords: CSVRecord[] = [];
+    const headerSearchRows = options.skipRows !== undefined ? options.skipRows + 1 : 20;
+    while (leadingRecords.length < headerSearchRows) {
+      const record = await nextRecord();
+      if (!record) break;
+      leadingRecords.push(record);
+    }
+
+    const headerIndex = options.skipRows ?? findHeaderRow(leadingRecords, columnMapping);
+    const sampleRecords = leadingRecords.slice(headerIndex + 1);
+    while (sampleRecords.length < DECIMAL_SAMPLE_ROWS) {
+      const record = await nextRecord();
+      if (!record) break;
+      sampleRecords.push(record);
+    }
+
+    if (!leadingRecords[headerIndex] || sampleRecords.length === 0) {
       return {
         success: false,
         transactions: [],
@@ -40,12 +80,15 @@ export async function parseCSVTransactions(
     }
 
     // Extract headers
-    const headers = parseCSVLine(lines[0]);
-    
+    const headers = leadingRecords[headerIndex].fields.map(header => header.trim());
+
     // Validate required columns exist
-    const requiredColumns = ['date', 'description', 'amount'];
+    const hasSplitAmounts = !columnMapping.amount && !!(columnMapping.debit || columnMapping.credit);
+    const requiredColumns: (keyof CSVColumnMapping)[] = hasSplitAmounts
+      ? ['date', 'description', ...(['debit', 'credit'] as const).filter(key => columnMapping[key])]
+      : ['date', 'description', 'amount'];
     for (const requiredColumn of requiredColumns) {
-      const mappedColumn = columnMapping[requiredColumn as keyof CSVColumnMapping];
+      const mappedColumn = columnMapping[requiredColumn];
       if (!mappedColumn || !headers.includes(mappedColumn)) {
         errors.push(`Required column "${mappedColumn || requiredColumn}" not found in CSV`);
       }
@@ -67,25 +110,32 @@ export async function parseCSVTransactions(
       }
     });
 
+    const amountIndices = (['amount', 'debit', 'credit', 'balance'] as const)
+      .map(key => columnIndices[key])
+      .filter(index => index !== undefined && index !== -1);
+    const decimalSeparator = options.decimalSeparator || detectDecimalSeparator(
+      sampleRecords.flatMap(record => amountIndices.map(index => record.fields[index] || '')),
+      delimiter
+    );
+
     // Parse data rows
-    for (let i = 1; i < lines.length; i++) {
+    for (let record = sampleRecords.shift() ?? await nextRecord(); record; record = sampleRecords.shift() ?? await nextRecord()) {
+      if (record.fields.every(field => field.trim() === '')) continue; // Skip empty rows
+
       try {
-        const row = parseCSVLine(lines[i]);
-        if (row.length === 0) continue; // Skip empty rows
-
-        const transaction = parseTransactionRow(row, columnIndices, dateFormat, i + 1);
-        if (transaction) {
-          transactions.push(transaction);
-
-          // Check for duplicates
-          const duplicateKey = `${transaction.date}-${transaction.description}-${transaction.amount}`;
-          if (!duplicateMap.has(duplicateKey)) {
-            duplicateMap.set(duplicateKey, []);
-          }
-          duplicateMap.get(duplicateKey)!.push(transactions.length - 1);
+        const transaction = parseTransactionRow(record, columnIndices, dateFormat, decimalSeparator);
+        transactions.push(transaction);
+
+        // Check for duplicates
+        const duplicateKey = `${transaction.date}-${transaction.description}-${transaction.amount}`;
+        if (!duplicateMap.has(duplicateKey)) {
+          duplicateMap.set(duplicateKey, []);
         }
+        duplicateMap.get(duplicateKey)!.push(transactions.length - 1);
       } catch (error) {
-        errors.push(`Error parsing row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        errors.push(error instanceof CSVParseError
+          ? `Row ${error.line}${error.column ? `, column ${error.column} (${headers[error.column - 1]})` : ''}: ${error.message}`
+          : `Row ${record.line}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
@@ -105,6 +155,14 @@ export async function parseCSVTransactions(
     };
 
   } catch (error) {
+    // Malformed CSV, such as an unclosed quote, stops the whole file
+    if (error instanceof CSVParseError) {
+      return {
+        success: false,
+        transactions: [],
+        errors: [`Row ${error.line}, column ${error.column}: ${error.message}`]
+      };
+    }
     return {
       success: false,
       transactions: [],
@@ -113,109 +171,133 @@ export async function parseCSVTransactions(
   }
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+async function* parseCSVRecords(text: string, delimiter: string): AsyncGenerator<CSVRecord, void, undefined> {
+  yield* parseCSV(text, { delimiter });
+}
+
+// Split a single line, trimming each value
+export function parseCSVLine(line: string, delimiter = ','): string[] {
+  const tokenizer = new CSVTokenizer({ delimiter });
+  const [record] = [...tokenizer.push(line), ...tokenizer.end()];
+  return record ? record.fields.map(field => field.trim()) : [''];
+}
+
+// Amounts such as -12,50 or 1.234,56 use a decimal comma: the last separator with one or two digits after it
+// is the decimal point. When no amount settles it, semicolon-delimited files are taken to use decimal commas.
+export function detectDecimalSeparator(amounts: string[], delimiter = ','): DecimalSeparator {
+  let commas = 0;
+  let points = 0;
+  for (const amount of amounts) {
+    const match = amount.trim().match(/([.,])\d{1,2}\)?$/);
+    if (match?.[1] === ',') commas++;
+    else if (match?.[1] === '.') points++;
   }
-  
-  result.push(current.trim());
-  return result;
+
+  if (commas !== points) {
+    return commas > points ? ',' : '.';
+  }
+  return delimiter === ';' ? ',' : '.';
+}
+
+// The header is the first row containing the mapped date and description columns
+function findHeaderRow(records: CSVRecord[], columnMapping: CSVColumnMapping): number {
+  const index = records.slice(0, 20).findIndex(record => {
+    const fields = record.fields.map(field => field.trim());
+    return fields.includes(columnMapping.date) && fields.includes(columnMapping.description);
+  });
+  return Math.max(index, 0);
 }
 
 function parseTransactionRow(
-  row: string[],
+  record: CSVRecord,
   columnIndices: Record<string, number>,
   dateFormat?: string,
-  rowNumber?: number
-): ImportedTransaction | null {
-  try {
-    // Extract date
-    const dateIndex = columnIndices.date;
-    if (dateIndex === undefined || dateIndex === -1 || dateIndex >= row.length) {
-      throw new Error('Date column not found');
-    }
-    const dateStr = row[dateIndex]?.trim();
-    if (!dateStr) {
-      throw new Error('Date is required');
+  decimalSeparator: DecimalSeparator = '.'
+): ImportedTransaction {
+  const row = record.fields;
+  const fail = (column: string, message: string): never => {
+    throw new CSVParseError({ message, line: record.line, column: columnIndices[column] + 1 });
+  };
+  const cell = (column: string): string | undefined => {
+    const index = columnIndices[column];
+    return index !== undefined && index !== -1 && index < row.length ? row[index].trim() || undefined : undefined;
+  };
+  const attempt = <T>(column: string, parse: () => T): T => {
+    try {
+      return parse();
+    } catch (error) {
+      return fail(column, error instanceof Error ? error.message : 'Parse error');
     }
-    const date = parseDate(dateStr, dateFormat);
+  };
 
-    // Extract description
-    const descriptionIndex = columnIndices.description;
-    if (descriptionIndex === undefined || descriptionIndex === -1 || descriptionIndex >= row.length) {
-      throw new Error('Description column not found');
-    }
-    const description = row[descriptionIndex]?.trim();
-    if (!description) {
-      throw new Error('Description is required');
-    }
+  // Extract date
+  const dateStr = cell('date');
+  if (!dateStr) {
+    fail('date', 'Date is required');
+  }
+  const date = attempt('date', () => parseDate(dateStr!, dateFormat));
 
-    // Extract amount
-    const amountIndex = columnIndices.amount;
-    if (amountIndex === undefined || amountIndex === -1 || amountIndex >= row.length) {
-      throw new Error('Amount column not found');
-    }
-    const amountStr = row[amountIndex]?.trim();
+  // Extract description
+  const description = cell('description');
+  if (!description) {
+    fail('description', 'Description is required');
+  }
+
+  // Extract amount, either signed or from separate debit and credit columns
+  let amount: number;
+  let inferredType: 'debit' | 'credit';
+  if (columnIndices.amount !== undefined) {
+    const amountStr = cell('amount');
     if (!amountStr) {
-      throw new Error('Amount is required');
-    }
-    const { amount, type: inferredType } = parseAmount(amountStr);
-
-    // Extract type (if available, otherwise use inferred type)
-    let type: 'debit' | 'credit' = inferredType;
-    const typeIndex = columnIndices.type;
-    if (typeIndex !== undefined && typeIndex !== -1 && typeIndex < row.length && row[typeIndex]) {
-      const typeStr = row[typeIndex]?.trim().toLowerCase();
-      if (typeStr === 'debit' || typeStr === 'credit') {
-        type = typeStr;
-      }
+      fail('amount', 'Amount is required');
     }
+    ({ amount, type: inferredType } = attempt('amount', () => parseAmount(amountStr!, decimalSeparator)));
+  } else {
+    const debitStr = cell('debit');
+    const creditStr = cell('credit');
+    const debit = debitStr ? attempt('debit', () => parseAmount(debitStr, decimalSeparator)).amount : 0;
+    const credit = creditStr ? attempt('credit', () => parseAmount(creditStr, decimalSeparator)).amount : 0;
 
-    // Extract optional fields
-    const balance = columnIndices.balance !== undefined && columnIndices.balance !== -1 && columnIndices.balance < row.length && row[columnIndices.balance]
-      ? parseFloat(cleanAmountString(row[columnIndices.balance])) || undefined
-      : undefined;
+    if (debit === 0 && credit === 0) {
+      fail(columnIndices.debit !== undefined ? 'debit' : 'credit', 'Debit or credit amount is required');
+    }
+    if (debit !== 0 && credit !== 0) {
+      fail('debit', 'Row has both a debit and a credit amount');
+    }
+    amount = debit || credit;
+    inferredType = debit ? 'debit' : 'credit';
+  }
 
-    const reference = columnIndices.reference !== undefined && columnIndices.reference !== -1 && columnIndices.reference < row.length && row[columnIndices.reference]
-      ? row[columnIndices.reference]?.trim() || undefined
-      : undefined;
+  // Extract type (if available, otherwise use inferred type)
+  let type: 'debit' | 'credit' = inferredType;
+  const typeStr = cell('type')?.toLowerCase();
+  if (typeStr === 'debit' || typeStr === 'credit') {
+    type = typeStr;
+  }
 
-    // Extract merchant from description
-    const merchant = extractMerchant(description);
+  // Extract optional fields
+  const balanceStr = cell('balance');
+  const balance = balanceStr ? parseFloat(cleanAmountString(balanceStr, decimalSeparator)) || undefined : undefined;
+  const reference = cell('reference');
+  const externalId = cell('externalId');
 
-    return {
-      date,
-      description,
-      amount,
-      type,
-      balance,
-      reference,
-      merchant
-    };
+  // Extract merchant from description
+  const merchant = cell('merchant') || extractMerchant(description!);
 
-  } catch (error) {
-    throw new Error(`Row ${rowNumber}: ${error instanceof Error ? error.message : 'Parse error'}`);
-  }
+  return {
+    date,
+    description: description!,
+    amount,
+    type,
+    balance,
+    reference,
+    externalId,
+    merchant
+  };
 }
 
+const DATE_FORMAT_PATTERN = /^(DD|MM|YYYY|YY)([/.-])(DD|MM|YYYY|YY)\2(DD|MM|YYYY|YY)$/;
+
 function parseDate(dateStr: string, format?: string): string {
   // Remove quotes and clean up
   const cleanDate = dateStr.replace(/['"]/g, '').trim();
@@ -223,15 +305,21 @@ function parseDate(dateStr: string, format?: string): string {
   try {
     let year: number, month: number, day: number;
     
-    if (format === 'DD/MM/YYYY') {
-      const parts = cleanDate.split('/');
-      if (parts.length === 3) {
-        day = parseInt(parts[0]);
-        month = parseInt(parts[1]);
-        year = parseInt(parts[2]);
-      } else {
+    if (format && DATE_FORMAT_PATTERN.test(format)) {
+      // e.g. DD/MM/YYYY, YYYY/MM/DD, DD-MM-YYYY or DD/MM/YY; any time after the date is ignored
+      const tokens = format.split(/[/.-]/);
+      const parts = cleanDate.split(/[\sT]/)[0].split(/[/.-]/);
+      if (parts.length !== 3) {
         throw new Error('Invalid date format');
       }
+
+      const values: Record<string, number> = {};
+      tokens.forEach((token, index) => {
+        values[token] = parseInt(parts[index]);
+      });
+      day = values.DD;
+      month = values.MM;
+      year = values.YYYY ?? (values.YY < 70 ? 2000 + values.YY : 1900 + values.YY);
     } else {
       // Default to ISO format or auto-parse
       const date = new Date(cleanDate);
@@ -260,8 +348,8 @@ function parseDate(dateStr: string, format?: string): string {
   }
 }
 
-function parseAmount(amountStr: string): { amount: number; type: 'debit' | 'credit' } {
-  const cleaned = cleanAmountString(amountStr);
+function parseAmount(amountStr: string, decimalSeparator: DecimalSeparator = '.'): { amount: number; type: 'debit' | 'credit' } {
+  const cleaned = cleanAmountString(amountStr, decimalSeparator);
   
   // Check for parentheses (indicating negative/debit)
   const isParentheses = amountStr.includes('(') && amountStr.includes(')');
@@ -286,11 +374,15 @@ function parseAmount(amountStr: string): { amount: number; type: 'debit' | 'cred
   };
 }
 
-function cleanAmountString(amountStr: string): string {
-  return amountStr
-    .replace(/['"$,()]/g, '') // Remove quotes, dollar signs, commas, parentheses
-    .replace(/\s+/g, '') // Remove whitespace
-    .trim();
+// Leaves a plain number with a decimal point; the other separator is taken as a thousands separator
+function cleanAmountString(amountStr: string, decimalSeparator: DecimalSeparator = '.'): string {
+  const cleaned = amountStr
+    .replace(/['"$()]/g, '') // Remove quotes, dollar signs, parentheses
+    .replace(/\s+/g, ''); // Remove whitespace
+
+  return decimalSeparator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
 }
 
 function extractMerchant(description: string): string | undefined {
@@ -0,0 +1,385 @@
+import { supabase } from '@/integrations/supabase/client';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { BusinessProfile, Customer } from '@/types';
+import {
+  AgingBuckets,
+  CustomerStatement,
+  StatementEmailResult,
+  StatementLine,
+  StatementOpenItem,
+  StatementOptions,
+  StatementTransaction
+} from '../types/statement';
+import { customerService, businessProfileService } from './supabaseService';
+import { exchangeRateService } from './exchangeRateService';
+import { emailService } from './emailService';
+import { pdfService } from './pdfService';
+import { createStatementHtml } from './invoiceTemplateRenderer';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Payments that never reached the account are left off statements
+const STATEMENT_PAYMENT_STATUSES = ['completed', 'refunded'] as const;
+
+const byDate = (a: StatementTransaction, b: StatementTransaction) =>
+  a.date.localeCompare(b.date) || (a.debit > 0 ? -1 : 1) - (b.debit > 0 ? -1 : 1);
+
+interface CustomerActivity {
+  transactions: StatementTransaction[];
+  openItems: StatementOpenItem[];
+  unappliedCredit: number;
+  currency: string;
+}
+
+// Everything that has moved the customer's balance, plus what is still open today
+const getCustomerActivity = async (userId: string, customerId: string): Promise<CustomerActivity> => {
+  const { data: invoices, error: invoicesError } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, date, due_date, total, total_paid, total_credited, currency')
+    .eq('user_id', userId)
+    .eq('customer_id', customerId)
+    .neq('status', 'draft');
+
+  if (invoicesError) {
+    console.error('Error fetching invoices for statement:', invoicesError);
+    throw invoicesError;
+  }
+
+  const invoiceIds = (invoices || []).map(invoice => invoice.id);
+  const invoiceNumbers = new Map((invoices || []).map(invoice => [invoice.id, invoice.invoice_number]));
+
+  // Direct payments hang off the invoice; batch payments off the customer
+  const paymentFilter = invoiceIds.length > 0
+    ? `customer_id.eq.${customerId},invoice_id.in.(${invoiceIds.join(',')})`
+    : `customer_id.eq.${customerId}`;
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from('payments')
+    .select('id, invoice_id, amount, payment_date, reference_number, status')
+    .eq('user_id', userId)
+    .or(paymentFilter)
+    .in('status', STATEMENT_PAYMENT_STATUSES);
+
+  if (paymentsError) {
+    console.error('Error fetching payments for statement:', paymentsError);
+    throw paymentsError;
+  }
+
+  const paymentIds = (payments || []).map(payment => payment.id);
+  const { data: refunds, error: refundsError } = paymentIds.length > 0
+    ? await supabase
+      .from('payment_refunds')
+      .select('id, payment_id, amount, refund_date, reason')
+      .eq('user_id', userId)
+      .in('payment_id', paymentIds)
+    : { data: [], error: null };
+
+  if (refundsError) {
+    console.error('Error fetching refunds for statement:', refundsError);
+    throw refundsError;
+  }
+
+  const { data: creditNotes, error: creditNotesError } = await supabase
+    .from('credit_notes')
+    .select('id, credit_note_number, date, total, reason')
+    .eq('user_id', userId)
+    .eq('customer_id', customerId)
+    .neq('status', 'void');
+
+  if (creditNotesError) {
+    console.error('Error fetching credit notes for statement:', creditNotesError);
+    throw creditNotesError;
+  }
+
+  const { data: customerCredits, error: creditsError } = await supabase
+    .from('customer_credits')
+    .select('amount, amount_applied')
+    .eq('user_id', userId)
+    .eq('customer_id', customerId);
+
+  if (creditsError) {
+    console.error('Error fetching customer credits for statement:', creditsError);
+    throw creditsError;
+  }
+
+  const transactions: StatementTransaction[] = [
+    ...(invoices || []).map(invoice => ({
+      date: invoice.date,
+      type: 'invoice' as const,
+      reference: invoice.invoice_number,
+      description: `Invoice ${invoice.invoice_number}`,
+      debit: Number(invoice.total),
+      credit: 0,
+      dueDate: invoice.due_date
+    })),
+    ...(payments || []).map(payment => ({
+      date: payment.payment_date,
+      type: 'payment' as const,
+      reference: payment.reference_number || '',
+      description: payment.invoice_id
+        ? `Payment - invoice ${invoiceNumbers.get(payment.invoice_id) || ''}`.trim()
+        : 'Payment - multiple invoices',
+      debit: 0,
+      credit: Number(payment.amount)
+    })),
+    ...(refunds || []).map(refund => ({
+      date: refund.refund_date,
+      type: 'refund' as const,
+      reference: '',
+      description: `Refund - ${refund.reason}`,
+      debit: Number(refund.amount),
+      credit: 0
+    })),
+    ...(creditNotes || []).map(creditNote => ({
+      date: creditNote.date,
+      type: 'credit_note' as const,
+      reference: creditNote.credit_note_number,
+      description: `Credit note ${creditNote.credit_note_number}`,
+      debit: 0,
+      credit: Number(creditNote.total)
+    }))
+  ];
+
+  const openItems: StatementOpenItem[] = (invoices || [])
+    .map(invoice => ({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      date: invoice.date,
+      dueDate: invoice.due_date,
+      total: Number(invoice.total),
+      balanceDue: roundCurrency(Math.max(0, invoice.total - (invoice.total_paid || 0) - (invoice.total_credited || 0)))
+    }))
+    .filter(item => item.balanceDue > 0);
+
+  const unappliedCredit = roundCurrency((customerCredits || [])
+    .reduce((sum, credit) => sum + Number(credit.amount) - Number(credit.amount_applied || 0), 0));
+
+  return {
+    transactions,
+    openItems,
+    unappliedCredit,
+    currency: invoices?.[0]?.currency || await exchangeRateService.getBaseCurrency()
+  };
+};
+
+export const customerStatementService = {
+  async generateStatement(customerId: string, options: StatementOptions): Promise<CustomerStatement> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+    this.validateOptions(options);
+
+    const customer = await customerService.getCustomer(customerId);
+    if (!customer) {
+      throw new Error(`Customer with id ${customerId} not found`);
+    }
+
+    const activity = await getCustomerActivity(user.id, customerId);
+    const openItems = activity.openItems.filter(item => item.date <= options.periodEnd);
+
+    const ledger = options.style === 'balance_forward'
+      ? this.buildBalanceForward(activity.transactions, options.periodStart, options.periodEnd)
+      : { openingBalance: 0, ...this.buildOpenItem(openItems, activity.unappliedCredit) };
+
+    return {
+      customer,
+      style: options.style,
+      periodStart: options.periodStart,
+      periodEnd: options.periodEnd,
+      currency: activity.currency,
+      ...ledger,
+      aging: this.calculateAging(openItems, options.periodEnd),
+      generatedAt: new Date().toISOString()
+    };
+  },
+
+  // Customers who currently owe something, for bulk statement runs
+  async getCustomersWithBalance(): Promise<Array<Customer & { balance: number }>> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select('customer_id, total, total_paid, total_credited')
+      .eq('user_id', user.id)
+      .neq('status', 'draft');
+
+    if (error) {
+      console.error('Error fetching balances for statements:', error);
+      throw error;
+    }
+
+    const balances = new Map<string, number>();
+    (invoices || []).forEach(invoice => {
+      const balance = invoice.total - (invoice.total_paid || 0) - (invoice.total_credited || 0);
+      balances.set(invoice.customer_id, roundCurrency((balances.get(invoice.customer_id) || 0) + balance));
+    });
+
+    const customers = await customerService.getCustomers();
+    return customers
+      .filter(customer => (balances.get(customer.id) || 0) > 0)
+      .map(customer => ({ ...customer, balance: balances.get(customer.id) || 0 }));
+  },
+
+  async generateStatementPDF(statement: CustomerStatement, businessProfile?: BusinessProfile | null): Promise<ArrayBuffer> {
+    return pdfService.generatePDFFromHtml(createStatementHtml(statement, businessProfile));
+  },
+
+  async emailStatement(statement: CustomerStatement, businessProfile?: BusinessProfile | null): Promise<StatementEmailResult> {
+    const { customer } = statement;
+    if (!customer.email) {
+      return { customerId: customer.id, customerName: customer.name, success: false, error: 'Customer has no email address' };
+    }
+
+    const html = createStatementHtml(statement, businessProfile);
+    let pdfBuffer: ArrayBuffer | undefined;
+    try {
+      pdfBuffer = await pdfService.generatePDFFromHtml(html);
+    } catch (pdfError) {
+      console.warn('Statement PDF generation failed, sending without attachment:', pdfError);
+    }
+
+    const businessName = businessProfile?.name || 'Your Business';
+    const result = await emailService.sendStatementEmail({
+      to: customer.email,
+      businessName,
+      customerName: customer.name,
+      subject: `Statement of account from ${businessName} to ${format(parseISO(statement.periodEnd), 'd MMM yyyy')}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 700px; margin: 0 auto;">
+          <p>Dear ${customer.name},</p>
+          <p>Please find your statement of account below. The balance owing is <strong>${statement.currency} ${statement.closingBalance.toFixed(2)}</strong>.</p>
+          ${html}
+          <p>Best regards,<br/>${businessName}</p>
+        </div>
+      `,
+      pdfBuffer,
+      attachmentName: `statement-${statement.periodEnd}.pdf`
+    });
+
+    return { customerId: customer.id, customerName: customer.name, success: result.success, error: result.error };
+  },
+
+  // Sends one at a time so a failure for one customer does not stop the rest
+  async emailStatementsToCustomersWithBalance(
+    options: StatementOptions,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<StatementEmailResult[]> {
+    const [customers, businessProfile] = await Promise.all([
+      this.getCustomersWithBalance(),
+      businessProfileService.getBusinessProfile()
+    ]);
+
+    const results: StatementEmailResult[] = [];
+    for (const customer of customers) {
+      try {
+        const statement = await this.generateStatement(customer.id, options);
+        results.push(await this.emailStatement(statement, businessProfile));
+      } catch (error) {
+        results.push({
+          customerId: customer.id,
+          customerName: customer.name,
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to send statement'
+        });
+      }
+      onProgress?.(results.length, customers.length);
+    }
+
+    return results;
+  },
+
+  validateOptions(options: StatementOptions): void {
+    if (!options.periodStart || !options.periodEnd) {
+      throw new Error('Statement period is required');
+    }
+    if (options.periodStart > options.periodEnd) {
+      throw new Error('Statement start date must be before the end date');
+    }
+  },
+
+  // Activity before the period rolls up into the opening balance
+  buildBalanceForward(
+    transactions: StatementTransaction[],
+    periodStart: string,
+    periodEnd: string
+  ): { openingBalance: number; lines: StatementLine[]; closingBalance: number } {
+    const ordered = [...transactions].sort(byDate);
+    const openingBalance = roundCurrency(ordered
+      .filter(transaction => transaction.date < periodStart)
+      .reduce((sum, transaction) => sum + transaction.debit - transaction.credit, 0));
+
+    let balance = openingBalance;
+    const lines = ordered
+      .filter(transaction => transaction.date >= periodStart && transaction.date <= periodEnd)
+      .map(transaction => {
+        balance = roundCurrency(balance + transaction.debit - transaction.credit);
+        return { ...transaction, balance };
+      });
+
+    return { openingBalance, lines, closingBalance: balance };
+  },
+
+  // Outstanding invoices oldest first, less any payment not yet allocated
+  buildOpenItem(
+    openItems: StatementOpenItem[],
+    unappliedCredit: number
+  ): { lines: StatementLine[]; closingBalance: number } {
+    let balance = 0;
+    const lines: StatementLine[] = [...openItems]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(item => {
+        balance = roundCurrency(balance + item.balanceDue);
+        return {
+          date: item.date,
+          type: 'invoice',
+          reference: item.invoiceNumber,
+          description: item.balanceDue < item.total
+            ? `Invoice ${item.invoiceNumber} (of ${item.total.toFixed(2)})`
+            : `Invoice ${item.invoiceNumber}`,
+          debit: item.balanceDue,
+          credit: 0,
+          dueDate: item.dueDate,
+          balance
+        };
+      });
+
+    if (unappliedCredit > 0) {
+      balance = roundCurrency(balance - unappliedCredit);
+      lines.push({
+        date: lines[lines.length - 1]?.date || '',
+        type: 'credit',
+        reference: '',
+        description: 'Unapplied credit',
+        debit: 0,
+        credit: unappliedCredit,
+        balance
+      });
+    }
+
+    return { lines, closingBalance: balance };
+  },
+
+  // Outstanding balances by how far past due they are on the statement date
+  calculateAging(openItems: Pick<StatementOpenItem, 'dueDate' | 'balanceDue'>[], asOf: string): AgingBuckets {
+    const buckets: AgingBuckets = { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 };
+    const asOfDate = parseISO(asOf);
+
+    openItems.forEach(item => {
+      const daysPastDue = differenceInCalendarDays(asOfDate, parseISO(item.dueDate));
+      const bucket: keyof AgingBuckets = daysPastDue <= 0 ? 'current'
+        : daysPastDue <= 30 ? 'days1to30'
+        : daysPastDue <= 60 ? 'days31to60'
+        : daysPastDue <= 90 ? 'days61to90'
+        : 'over90';
+      buckets[bucket] = roundCurrency(buckets[bucket] + item.balanceDue);
+      buckets.total = roundCurrency(buckets.total + item.balanceDue);
+    });
+
+    return buckets;
+  },
+};
@@ -0,0 +1,491 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { businessProfileService, invoiceService } from './supabaseService';
+import { paymentReminderService } from './paymentReminderService';
+import { emailService } from './emailService';
+import {
+  DueReminder,
+  DunningPolicy,
+  DunningRunResult,
+  DunningStep,
+  InvoiceReminder,
+  InvoiceReminderTrigger,
+  ReminderType,
+  SupabaseDunningPolicy,
+  SupabaseInvoiceReminder
+} from '../types/dunning';
+
+export const DEFAULT_DUNNING_STEPS: DunningStep[] = [
+  { offsetDays: -3, reminderType: 'gentle' },
+  { offsetDays: 7, reminderType: 'gentle' },
+  { offsetDays: 21, reminderType: 'firm' },
+  { offsetDays: 45, reminderType: 'final' },
+];
+
+const LAST_AUTO_RUN_KEY = 'dunning:lastAutoRun';
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const mapSupabasePolicyToPolicy = (policy: SupabaseDunningPolicy): DunningPolicy => ({
+  id: policy.id,
+  name: policy.name,
+  steps: ((policy.steps || []) as unknown as DunningStep[]).slice().sort((a, b) => a.offsetDays - b.offsetDays),
+  isActive: policy.is_active,
+  isDefault: policy.is_default,
+  autoSend: policy.auto_send,
+  userId: policy.user_id,
+  createdAt: policy.created_at,
+  updatedAt: policy.updated_at,
+});
+
+const mapSupabaseReminderToReminder = (reminder: SupabaseInvoiceReminder): InvoiceReminder => ({
+  id: reminder.id,
+  invoiceId: reminder.invoice_id,
+  dunningPolicyId: reminder.dunning_policy_id,
+  stepOffsetDays: reminder.step_offset_days,
+  reminderType: reminder.reminder_type as ReminderType,
+  sentTo: reminder.sent_to,
+  sentAt: reminder.sent_at,
+  trigger: reminder.trigger as InvoiceReminderTrigger,
+  messageId: reminder.message_id,
+  userId: reminder.user_id,
+});
+
+const mapReminderToSupabaseReminder = (reminder: Omit<InvoiceReminder, 'id' | 'sentAt' | 'userId'>, userId: string) => ({
+  invoice_id: reminder.invoiceId,
+  dunning_policy_id: reminder.dunningPolicyId || null,
+  step_offset_days: reminder.stepOffsetDays ?? null,
+  reminder_type: reminder.reminderType,
+  sent_to: reminder.sentTo,
+  trigger: reminder.trigger,
+  message_id: reminder.messageId || null,
+  user_id: userId,
+});
+
+// Invoices stop being chased once paymentService.updateInvoicePaymentStatus marks them paid
+const isInvoiceOpen = (status: string | null, paymentStatus: string | null) =>
+  (status === 'sent' || status === 'overdue') && paymentStatus !== 'paid';
+
+export const dunningService = {
+  async getDunningPolicies(): Promise<DunningPolicy[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('dunning_policies')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching dunning policies:', error);
+      throw error;
+    }
+
+    return (data as SupabaseDunningPolicy[]).map(mapSupabasePolicyToPolicy);
+  },
+
+  // The policy applied to open invoices, if one is switched on
+  async getDefaultPolicy(): Promise<DunningPolicy | null> {
+    const policies = await this.getDunningPolicies();
+    return policies.find(policy => policy.isDefault && policy.isActive) || null;
+  },
+
+  async createDunningPolicy(
+    policy: Omit<DunningPolicy, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+  ): Promise<DunningPolicy> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+    this.validatePolicy(policy);
+
+    if (policy.isDefault) {
+      await this.clearDefaultPolicy(user.id);
+    }
+
+    const { data, error } = await supabase
+      .from('dunning_policies')
+      .insert([{
+        name: policy.name.trim(),
+        steps: this.sortSteps(policy.steps) as unknown as Json,
+        is_active: policy.isActive,
+        is_default: policy.isDefault,
+        auto_send: policy.autoSend,
+        user_id: user.id,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating dunning policy:', error);
+      throw error;
+    }
+
+    return mapSupabasePolicyToPolicy(data as SupabaseDunningPolicy);
+  },
+
+  async updateDunningPolicy(
+    id: string,
+    policy: Partial<Omit<DunningPolicy, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<DunningPolicy> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+    if (policy.name !== undefined && !policy.name.trim()) {
+      throw new Error('Policy name is required');
+    }
+    if (policy.steps !== undefined) {
+      this.validateSteps(policy.steps);
+    }
+
+    if (policy.isDefault) {
+      await this.clearDefaultPolicy(user.id, id);
+    }
+
+    const updateData: Partial<SupabaseDunningPolicy> = {};
+    if (policy.name !== undefined) updateData.name = policy.name.trim();
+    if (policy.steps !== undefined) updateData.steps = this.sortSteps(policy.steps) as unknown as Json;
+    if (policy.isActive !== undefined) updateData.is_active = policy.isActive;
+    if (policy.isDefault !== undefined) updateData.is_default = policy.isDefault;
+    if (policy.autoSend !== undefined) updateData.auto_send = policy.autoSend;
+
+    const { data, error } = await supabase
+      .from('dunning_policies')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating dunning policy:', error);
+      throw error;
+    }
+
+    return mapSupabasePolicyToPolicy(data as SupabaseDunningPolicy);
+  },
+
+  async deleteDunningPolicy(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = await supabase
+      .from('dunning_policies')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting dunning policy:', error);
+      throw error;
+    }
+  },
+
+  async clearDefaultPolicy(userId: string, exceptId?: string): Promise<void> {
+    let query = supabase
+      .from('dunning_policies')
+      .update({ is_default: false })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+    if (exceptId) {
+      query = query.neq('id', exceptId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      console.error('Error clearing default dunning policy:', error);
+      throw error;
+    }
+  },
+
+  async getInvoiceReminders(invoiceIds: string[]): Promise<InvoiceReminder[]> {
+    if (invoiceIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('invoice_reminders')
+      .select('*')
+      .in('invoice_id', invoiceIds)
+      .order('sent_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching invoice reminders:', error);
+      throw error;
+    }
+
+    return (data as SupabaseInvoiceReminder[]).map(mapSupabaseReminderToReminder);
+  },
+
+  async recordReminder(reminder: Omit<InvoiceReminder, 'id' | 'sentAt' | 'userId'>): Promise<InvoiceReminder> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('invoice_reminders')
+      .insert([mapReminderToSupabaseReminder(reminder, user.id)])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error recording invoice reminder:', error);
+      throw error;
+    }
+
+    return mapSupabaseReminderToReminder(data as SupabaseInvoiceReminder);
+  },
+
+  // Log a scheduled step before its email goes out. The unique index on invoice and step lets only one tab or
+  // device claim it; the others get null and must not send.
+  async claimReminder(reminder: Omit<InvoiceReminder, 'id' | 'sentAt' | 'userId'>): Promise<InvoiceReminder | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('invoice_reminders')
+      .insert([mapReminderToSupabaseReminder(reminder, user.id)])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return null;
+      }
+      console.error('Error claiming invoice reminder:', error);
+      throw error;
+    }
+
+    return mapSupabaseReminderToReminder(data as SupabaseInvoiceReminder);
+  },
+
+  // Stamp a claimed reminder with the time it was actually sent and the email's message id
+  async markReminderSent(reminderId: string, messageId?: string): Promise<void> {
+    const { error } = await supabase
+      .from('invoice_reminders')
+      .update({ sent_at: new Date().toISOString(), message_id: messageId || null })
+      .eq('id', reminderId);
+
+    if (error) {
+      console.error('Error updating invoice reminder:', error);
+      throw error;
+    }
+  },
+
+  // Give a claimed step back when its email couldn't be sent, so a later run can try again
+  async releaseReminder(reminderId: string): Promise<void> {
+    const { error } = await supabase
+      .from('invoice_reminders')
+      .delete()
+      .eq('id', reminderId);
+
+    if (error) {
+      console.error('Error releasing invoice reminder:', error);
+      throw error;
+    }
+  },
+
+  // Work out which reminder each open invoice is due under the default policy
+  async getDueReminders(today: Date = new Date()): Promise<DueReminder[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const policy = await this.getDefaultPolicy();
+    if (!policy || policy.steps.length === 0) return [];
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, due_date, total, currency, status, payment_status, customers (name, email)')
+      .eq('user_id', user.id)
+      .in('status', ['sent', 'overdue']);
+
+    if (error) {
+      console.error('Error fetching invoices for dunning:', error);
+      throw error;
+    }
+
+    const openInvoices = (invoices || []).filter(invoice => isInvoiceOpen(invoice.status, invoice.payment_status));
+    const reminders = await this.getInvoiceReminders(openInvoices.map(invoice => invoice.id));
+
+    return openInvoices.flatMap(invoice => {
+      const sent = reminders.filter(reminder => reminder.invoiceId === invoice.id);
+      const daysPastDue = this.calculateDaysRelativeToDue(invoice.due_date, today);
+      const step = this.getDueStep(
+        policy.steps,
+        daysPastDue,
+        sent.map(reminder => reminder.stepOffsetDays).filter((offset): offset is number => offset != null)
+      );
+      if (!step) return [];
+
+      const customer = invoice.customers as { name: string; email: string } | null;
+      return [{
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoice_number,
+        customerName: customer?.name || 'Unknown customer',
+        customerEmail: customer?.email,
+        dueDate: invoice.due_date,
+        total: invoice.total,
+        currency: invoice.currency,
+        daysPastDue,
+        step,
+        lastReminderAt: sent[sent.length - 1]?.sentAt ?? null,
+      }];
+    });
+  },
+
+  // Claim each due reminder, then email it, so the step is never sent twice
+  async sendDueReminders(reminders?: DueReminder[], today: Date = new Date()): Promise<DunningRunResult> {
+    const result: DunningRunResult = { sent: [], skipped: [], failed: [] };
+    const due = reminders ?? await this.getDueReminders(today);
+    if (due.length === 0) return result;
+
+    const policy = await this.getDefaultPolicy();
+    const businessProfile = await businessProfileService.getBusinessProfile();
+
+    for (const reminder of due) {
+      if (!reminder.customerEmail) {
+        result.skipped.push({ reminder, reason: 'Customer has no email address' });
+        continue;
+      }
+
+      try {
+        // A payment may have been recorded since the list was built
+        const invoice = await invoiceService.getInvoice(reminder.invoiceId);
+        const { data: statusRow, error: statusError } = await supabase
+          .from('invoices')
+          .select('status, payment_status')
+          .eq('id', reminder.invoiceId)
+          .single();
+        if (statusError) throw statusError;
+
+        if (!invoice || !isInvoiceOpen(statusRow.status, statusRow.payment_status)) {
+          result.skipped.push({ reminder, reason: 'Invoice has been paid' });
+          continue;
+        }
+
+        const claimed = await this.claimReminder({
+          invoiceId: reminder.invoiceId,
+          dunningPolicyId: policy?.id,
+          stepOffsetDays: reminder.step.offsetDays,
+          reminderType: reminder.step.reminderType,
+          sentTo: reminder.customerEmail,
+          trigger: 'automatic',
+        });
+        if (!claimed) {
+          result.skipped.push({ reminder, reason: 'Reminder has already been sent' });
+          continue;
+        }
+
+        let messageId: string | undefined;
+        try {
+          const email = await paymentReminderService.createPaymentReminderEmail({
+            to: reminder.customerEmail,
+            invoice,
+            businessProfile,
+            reminderType: reminder.step.reminderType,
+            daysPastDue: reminder.daysPastDue,
+          });
+
+          const response = await emailService.sendReminderEmail({
+            to: reminder.customerEmail,
+            subject: email.subject,
+            html: email.html,
+            reminderType: reminder.step.reminderType,
+            daysPastDue: reminder.daysPastDue,
+          });
+          if (!response.success) {
+            throw new Error(response.error || 'Failed to send reminder');
+          }
+          messageId = response.messageId;
+        } catch (error) {
+          await this.releaseReminder(claimed.id);
+          throw error;
+        }
+
+        // The email has gone; a failure to stamp the log doesn't make the send a failure
+        await this.markReminderSent(claimed.id, messageId)
+          .catch(error => console.error(`Error recording message id for invoice ${reminder.invoiceNumber}:`, error));
+        result.sent.push(reminder);
+      } catch (error) {
+        console.error(`Error sending reminder for invoice ${reminder.invoiceNumber}:`, error);
+        result.failed.push({ reminder, error: error instanceof Error ? error.message : 'Failed to send reminder' });
+      }
+    }
+
+    return result;
+  },
+
+  // Send due reminders at most once a day when the default policy is set to send automatically
+  async runScheduledReminders(today: Date = new Date()): Promise<DunningRunResult | null> {
+    const runDate = format(today, 'yyyy-MM-dd'); // Local date, so the day turns over at local midnight
+    if (localStorage.getItem(LAST_AUTO_RUN_KEY) === runDate) return null;
+
+    const policy = await this.getDefaultPolicy();
+    if (!policy?.autoSend) return null;
+
+    // Only a run that got through marks the day done, so a failed one is retried when the app is next opened
+    const result = await this.sendDueReminders(undefined, today);
+    localStorage.setItem(LAST_AUTO_RUN_KEY, runDate);
+    return result;
+  },
+
+  // Whole days from the due date to today; negative before the invoice is due
+  calculateDaysRelativeToDue(dueDate: string, today: Date = new Date()): number {
+    const [year, month, day] = dueDate.slice(0, 10).split('-').map(Number);
+    const due = Date.UTC(year, month - 1, day);
+    const current = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+    return Math.round((current - due) / DAY_MS);
+  },
+
+  /**
+   * The latest step that has been reached and not yet sent. Steps that were
+   * missed are not sent late once a later one is due, and nothing earlier than
+   * the last step sent goes out again.
+   */
+  getDueStep(steps: DunningStep[], daysPastDue: number, sentOffsets: number[]): DunningStep | null {
+    const reached = this.sortSteps(steps).filter(step => step.offsetDays <= daysPastDue);
+    const latest = reached[reached.length - 1];
+    if (!latest) return null;
+
+    const lastSent = sentOffsets.length > 0 ? Math.max(...sentOffsets) : null;
+    if (lastSent !== null && lastSent >= latest.offsetDays) return null;
+
+    return latest;
+  },
+
+  sortSteps(steps: DunningStep[]): DunningStep[] {
+    return [...steps].sort((a, b) => a.offsetDays - b.offsetDays);
+  },
+
+  validatePolicy(policy: Pick<DunningPolicy, 'name' | 'steps'>): void {
+    if (!policy.name.trim()) {
+      throw new Error('Policy name is required');
+    }
+    this.validateSteps(policy.steps);
+  },
+
+  validateSteps(steps: DunningStep[]): void {
+    if (steps.length === 0) {
+      throw new Error('Add at least one reminder step');
+    }
+    if (steps.some(step => !Number.isInteger(step.offsetDays))) {
+      throw new Error('Reminder days must be whole numbers');
+    }
+
+    const offsets = steps.map(step => step.offsetDays);
+    if (new Set(offsets).size !== offsets.length) {
+      throw new Error('Each reminder step must be on a different day');
+    }
+  },
+};
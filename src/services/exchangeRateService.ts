@@ -0,0 +1,333 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ExchangeRate,
+  ExchangeRateCsvParseResult,
+  ExchangeRateInput,
+  ExchangeRateSource,
+  RealisedFxResult,
+  SupabaseExchangeRate
+} from '../types/exchangeRate';
+import { PostingRole } from '../types/posting';
+import { parseCSVLine } from './csvTransactionParser';
+
+export const DEFAULT_BASE_CURRENCY = 'NZD';
+
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const normaliseCurrency = (currency: string): string => currency.trim().toUpperCase();
+
+const mapSupabaseExchangeRateToExchangeRate = (rate: SupabaseExchangeRate): ExchangeRate => ({
+  id: rate.id,
+  fromCurrency: rate.from_currency,
+  toCurrency: rate.to_currency,
+  rate: Number(rate.rate),
+  rateDate: rate.rate_date,
+  source: (rate.source || 'manual') as ExchangeRateSource,
+  userId: rate.user_id,
+  createdAt: rate.created_at,
+  updatedAt: rate.updated_at
+});
+
+// Accepts ISO (2024-03-31) and NZ style (31/03/2024) dates
+const parseRateDate = (value: string): string | null => {
+  const trimmed = value.replace(/['"]/g, '').trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const nz = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : nz
+      ? [nz[3], nz[2], nz[1]]
+      : [];
+
+  if (!year) return null;
+
+  const monthNumber = parseInt(month, 10);
+  const dayNumber = parseInt(day, 10);
+  if (monthNumber < 1 || monthNumber > 12 || dayNumber < 1 || dayNumber > 31) return null;
+
+  return `${year}-${String(monthNumber).padStart(2, '0')}-${String(dayNumber).padStart(2, '0')}`;
+};
+
+const CSV_COLUMN_ALIASES: Record<keyof ExchangeRateInput, string[]> = {
+  rateDate: ['date', 'rate_date'],
+  fromCurrency: ['from', 'from_currency', 'currency'],
+  toCurrency: ['to', 'to_currency', 'base', 'base_currency'],
+  rate: ['rate', 'exchange_rate']
+};
+
+export const exchangeRateService = {
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('rate_date', { ascending: false })
+      .order('from_currency');
+
+    if (error) {
+      console.error('Error fetching exchange rates:', error);
+      throw error;
+    }
+
+    return (data || []).map(rate => mapSupabaseExchangeRateToExchangeRate(rate as SupabaseExchangeRate));
+  },
+
+  async getBaseCurrency(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('business_profiles')
+      .select('base_currency')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching base currency:', error);
+      throw error;
+    }
+
+    return data?.base_currency || DEFAULT_BASE_CURRENCY;
+  },
+
+  // Latest rate on or before the date; falls back to the inverse of a stored reverse pair
+  async findRate(fromCurrency: string, toCurrency: string, date: string): Promise<number | null> {
+    const from = normaliseCurrency(fromCurrency);
+    const to = normaliseCurrency(toCurrency);
+    if (from === to) return 1;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const latestRate = async (pairFrom: string, pairTo: string): Promise<number | null> => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('rate')
+        .eq('user_id', user.id)
+        .eq('from_currency', pairFrom)
+        .eq('to_currency', pairTo)
+        .lte('rate_date', date)
+        .order('rate_date', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        console.error('Error fetching exchange rate:', error);
+        throw error;
+      }
+
+      return data && data.length > 0 ? Number(data[0].rate) : null;
+    };
+
+    const direct = await latestRate(from, to);
+    if (direct) return direct;
+
+    const inverse = await latestRate(to, from);
+    return inverse ? 1 / inverse : null;
+  },
+
+  // Rate to store on an invoice or payment; documents in the base currency always lock at 1
+  async lockRate(currency: string, baseCurrency: string, date: string): Promise<number> {
+    const rate = await this.findRate(currency, baseCurrency, date);
+    if (!rate) {
+      throw new Error(
+        `No ${normaliseCurrency(currency)} to ${normaliseCurrency(baseCurrency)} exchange rate on or before ${date}. Add one under Exchange Rates.`
+      );
+    }
+    return rate;
+  },
+
+  // Rate for a payment against an existing invoice. Invoices saved before rates were captured may have no rate
+  // on or before the payment date, so they settle at the invoice's stored rate with no realised gain or loss.
+  async lockSettlementRate(currency: string, baseCurrency: string, date: string, invoiceRate?: number | null): Promise<number> {
+    const rate = await this.findRate(currency, baseCurrency, date);
+    return rate ?? (invoiceRate || 1);
+  },
+
+  async saveExchangeRate(input: ExchangeRateInput, source: ExchangeRateSource = 'manual'): Promise<ExchangeRate> {
+    const [saved] = await this.saveExchangeRates([input], source);
+    return saved;
+  },
+
+  // Upserts on (currency pair, date) so re-importing a file replaces earlier rates
+  async saveExchangeRates(inputs: ExchangeRateInput[], source: ExchangeRateSource): Promise<ExchangeRate[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    inputs.forEach(input => this.validateExchangeRate(input));
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        inputs.map(input => ({
+          user_id: user.id,
+          from_currency: normaliseCurrency(input.fromCurrency),
+          to_currency: normaliseCurrency(input.toCurrency),
+          rate: input.rate,
+          rate_date: input.rateDate,
+          source
+        })),
+        { onConflict: 'user_id,from_currency,to_currency,rate_date' }
+      )
+      .select();
+
+    if (error) {
+      console.error('Error saving exchange rates:', error);
+      throw error;
+    }
+
+    return (data || []).map(rate => mapSupabaseExchangeRateToExchangeRate(rate as SupabaseExchangeRate));
+  },
+
+  async deleteExchangeRate(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error);
+      throw error;
+    }
+  },
+
+  async importExchangeRatesFromCsv(csvData: string, defaultToCurrency?: string): Promise<{ imported: number; errors: string[] }> {
+    const { rates, errors } = this.parseRatesCsv(csvData, defaultToCurrency);
+    if (rates.length === 0) {
+      return { imported: 0, errors: errors.length > 0 ? errors : ['No exchange rates found in file'] };
+    }
+
+    const saved = await this.saveExchangeRates(rates, 'csv');
+    return { imported: saved.length, errors };
+  },
+
+  // Expects a header row with date, from, to and rate columns; "to" may be omitted when a default is given
+  parseRatesCsv(csvData: string, defaultToCurrency?: string): ExchangeRateCsvParseResult {
+    const lines = csvData.trim().split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length < 2) {
+      return { rates: [], errors: ['CSV must contain a header row and at least one rate'] };
+    }
+
+    const headers = parseCSVLine(lines[0]).map(header => header.toLowerCase().replace(/\s+/g, '_'));
+    const columnIndex = (field: keyof ExchangeRateInput) =>
+      headers.findIndex(header => CSV_COLUMN_ALIASES[field].includes(header));
+
+    const dateIndex = columnIndex('rateDate');
+    const fromIndex = columnIndex('fromCurrency');
+    const toIndex = columnIndex('toCurrency');
+    const rateIndex = columnIndex('rate');
+
+    const missing = [
+      dateIndex < 0 ? 'date' : null,
+      fromIndex < 0 ? 'from' : null,
+      toIndex < 0 && !defaultToCurrency ? 'to' : null,
+      rateIndex < 0 ? 'rate' : null
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      return { rates: [], errors: [`Missing required column(s): ${missing.join(', ')}`] };
+    }
+
+    const rates: ExchangeRateInput[] = [];
+    const errors: string[] = [];
+
+    lines.slice(1).forEach((line, index) => {
+      const rowNumber = index + 2;
+      const row = parseCSVLine(line);
+      const rateDate = parseRateDate(row[dateIndex] || '');
+      const fromCurrency = normaliseCurrency(row[fromIndex] || '');
+      const toCurrency = normaliseCurrency((toIndex >= 0 ? row[toIndex] : '') || defaultToCurrency || '');
+      const rate = parseFloat((row[rateIndex] || '').replace(/,/g, ''));
+
+      if (!rateDate) {
+        errors.push(`Row ${rowNumber}: invalid date "${row[dateIndex] || ''}"`);
+        return;
+      }
+      if (!fromCurrency || !toCurrency || fromCurrency === toCurrency) {
+        errors.push(`Row ${rowNumber}: a rate needs two different currencies`);
+        return;
+      }
+      if (isNaN(rate) || rate <= 0) {
+        errors.push(`Row ${rowNumber}: rate must be a positive number`);
+        return;
+      }
+
+      rates.push({ fromCurrency, toCurrency, rate, rateDate });
+    });
+
+    return { rates, errors };
+  },
+
+  validateExchangeRate(input: ExchangeRateInput): void {
+    if (!input.fromCurrency || !input.toCurrency) {
+      throw new Error('Both currencies are required');
+    }
+
+    if (normaliseCurrency(input.fromCurrency) === normaliseCurrency(input.toCurrency)) {
+      throw new Error('Currencies must be different');
+    }
+
+    if (!input.rate || input.rate <= 0) {
+      throw new Error('Rate must be greater than zero');
+    }
+
+    if (!input.rateDate) {
+      throw new Error('Rate date is required');
+    }
+  },
+
+  // Documents saved before rates were captured have no rate and are treated as base currency
+  convertToBase(amount: number, exchangeRate?: number | null): number {
+    return roundCurrency((amount || 0) * (exchangeRate || 1));
+  },
+
+  calculateRealisedFx(foreignAmount: number, invoiceRate: number, paymentRate: number): RealisedFxResult {
+    const invoiceBaseAmount = this.convertToBase(foreignAmount, invoiceRate);
+    const paymentBaseAmount = this.convertToBase(foreignAmount, paymentRate);
+
+    return {
+      invoiceBaseAmount,
+      paymentBaseAmount,
+      gainLoss: roundCurrency(paymentBaseAmount - invoiceBaseAmount)
+    };
+  },
+
+  // Adjusts receivables to the cash actually received: a gain is Dr Receivables, Cr FX; a loss the reverse.
+  // Returns null when there is nothing to post or a required account is missing.
+  buildRealisedFxJournalLines(
+    gainLoss: number,
+    description: string,
+    accounts: Partial<Record<PostingRole, string>>
+  ): { account_id: string; description: string; debit_amount: number; credit_amount: number; line_order: number }[] | null {
+    const amount = roundCurrency(Math.abs(gainLoss));
+    if (amount === 0) return null;
+
+    const receivablesAccountId = accounts.receivables;
+    const fxAccountId = accounts.fx_gain_loss;
+
+    if (!receivablesAccountId || !fxAccountId) {
+      return null;
+    }
+
+    const [debitAccountId, creditAccountId] = gainLoss > 0
+      ? [receivablesAccountId, fxAccountId]
+      : [fxAccountId, receivablesAccountId];
+
+    return [
+      { account_id: debitAccountId, description, debit_amount: amount, credit_amount: 0, line_order: 1 },
+      { account_id: creditAccountId, description, debit_amount: 0, credit_amount: amount, line_order: 2 }
+    ];
+  }
+};
@@ -1,5 +1,9 @@
 import { supabase } from '@/integrations/supabase/client';
-import { startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, subMonths, subQuarters, subYears, format } from 'date-fns';
+import { startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, subMonths, subQuarters, subYears, format, differenceInCalendarDays, parseISO } from 'date-fns';
+import { exchangeRateService } from './exchangeRateService';
+import { customerStatementService } from './customerStatementService';
+import { AgingBuckets } from '../types/statement';
+import { EnhancedAccount } from '../types/payment';
 
 export interface FinancialReport {
   id: string;
@@ -96,6 +100,154 @@ export interface TrialBalanceData {
   }>;
 }
 
+export interface AgedReceivablesInvoice {
+  invoiceId: string;
+  invoiceNumber: string;
+  date: string;
+  dueDate: string;
+  total: number;
+  balanceDue: number;
+  daysPastDue: number;
+}
+
+export interface AgedReceivablesCustomer {
+  customerId: string;
+  customerName: string;
+  aging: AgingBuckets;
+  invoices: AgedReceivablesInvoice[];
+}
+
+export interface AgedReceivablesData {
+  asOfDate: string;
+  customers: AgedReceivablesCustomer[];
+  totals: AgingBuckets;
+}
+
+// Invoice as issued, in base currency once converted
+export interface ReceivableInvoice {
+  id: string;
+  invoiceNumber: string;
+  customerId: string;
+  customerName: string;
+  date: string;
+  dueDate: string;
+  total: number;
+  exchangeRate?: number | null;
+}
+
+// Anything that changed an invoice's balance after it was issued; refunds are negative
+export interface ReceivableSettlement {
+  invoiceId: string;
+  amount: number;
+  date: string;
+}
+
+const AGED_RECEIVABLES_COLUMNS: Array<[keyof AgingBuckets, string]> = [
+  ['current', 'Current'],
+  ['days1to30', '1-30 days'],
+  ['days31to60', '31-60 days'],
+  ['days61to90', '61-90 days'],
+  ['over90', '90+ days'],
+  ['total', 'Total'],
+];
+
+type AccountClass = NonNullable<EnhancedAccount['accountClass']>;
+
+// Chart account as the statements group it
+export interface LedgerAccount {
+  id: string;
+  name: string;
+  accountNumber: string | null;
+  accountClass: AccountClass;
+  parentAccountId: string | null;
+  type: string;
+  mergedIntoAccountId?: string | null;
+}
+
+// Posted journal entry, including automatic reversals
+export interface LedgerEntry {
+  id: string;
+  entryDate: string;
+  closing?: boolean; // Year-end close into retained earnings
+  referenceType?: string | null;
+  referenceId?: string | null;
+  lines: Array<{
+    accountId: string;
+    debit: number;
+    credit: number;
+  }>;
+}
+
+type Breakdown = Array<{ category: string; amount: number; percentage: number }>;
+
+// Balances summed into their top-level account
+type AccountGroups = Map<string, { root: LedgerAccount; amount: number }>;
+
+const ACCOUNT_CLASSES: AccountClass[] = ['Asset', 'Liability', 'Equity', 'Revenue', 'Expense'];
+
+// Classes by leading digit of the NZ chart numbering, for accounts saved without a class
+const CLASS_BY_NUMBER_PREFIX: Record<string, AccountClass> = {
+  '1': 'Asset',
+  '2': 'Liability',
+  '3': 'Equity',
+  '4': 'Revenue',
+  '5': 'Expense',
+  '6': 'Expense',
+  '7': 'Expense',
+  '8': 'Expense',
+  '9': 'Expense'
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// PostgREST caps a response at 1000 rows, so the ledger is read a page at a time until a short page comes back.
+// Queries passed in need a stable order so pages don't overlap or skip rows
+const LEDGER_PAGE_SIZE = 1000;
+
+const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + LEDGER_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < LEDGER_PAGE_SIZE) return rows;
+  }
+};
+
+const accountNumberValue = (account: LedgerAccount): number => Number.parseInt(account.accountNumber || '', 10);
+
+// Chart ranges: 1500+ fixed assets, 2400+ long-term liabilities, 5000-5999 cost of sales
+const isCashAccount = (account: LedgerAccount) =>
+  account.accountClass === 'Asset' && (['bank', 'cash'].includes(account.type) || account.accountNumber?.startsWith('11') === true);
+const isFixedAsset = (account: LedgerAccount) => account.accountClass === 'Asset' && accountNumberValue(account) >= 1500;
+const isLongTermLiability = (account: LedgerAccount) =>
+  account.accountClass === 'Liability' && (account.type === 'loan' || accountNumberValue(account) >= 2400);
+const isCostOfSales = (account: LedgerAccount) => {
+  const value = accountNumberValue(account);
+  return account.accountClass === 'Expense' && value >= 5000 && value < 6000;
+};
+
+// Debit-positive balance per account from posted lines dated within the range
+const sumBalances = (entries: LedgerEntry[], fromDate: string | null, toDate: string): Map<string, number> => {
+  const balances = new Map<string, number>();
+  entries
+    .filter(entry => entry.entryDate <= toDate && (!fromDate || entry.entryDate >= fromDate))
+    .forEach(entry => entry.lines.forEach(line => {
+      balances.set(line.accountId, (balances.get(line.accountId) || 0) + line.debit - line.credit);
+    }));
+  return balances;
+};
+
+const sortByAccountNumber = (accounts: LedgerAccount[]) =>
+  [...accounts].sort((a, b) => (a.accountNumber || '').localeCompare(b.accountNumber || '') || a.name.localeCompare(b.name));
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
 export class FinancialReportsService {
   private static instance: FinancialReportsService;
   
@@ -132,88 +284,273 @@ export class FinancialReportsService {
     }
   }
 
-  async generateProfitLossReport(period: string, customStartDate?: Date, customEndDate?: Date): Promise<ProfitLossData> {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user?.id) throw new Error('User not authenticated');
+  private toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
 
-      const { startDate, endDate } = this.getPeriodDates(period, customStartDate, customEndDate);
-      
-      // Get revenue data from invoices
-      const { data: invoices, error: invoiceError } = await supabase
-        .from('invoices')
-        .select('total, tax_amount, created_at, status')
-        .eq('user_id', user.id)
-        .gte('date', startDate.toISOString().split('T')[0])
-        .lte('date', endDate.toISOString().split('T')[0])
-        .eq('status', 'paid');
+  // Top-level account a child account rolls up into
+  private getRootAccount(account: LedgerAccount, accountsById: Map<string, LedgerAccount>): LedgerAccount {
+    const visited = new Set([account.id]);
+    let root = account;
+    while (root.parentAccountId && accountsById.has(root.parentAccountId) && !visited.has(root.parentAccountId)) {
+      root = accountsById.get(root.parentAccountId)!;
+      visited.add(root.id);
+    }
+    return root;
+  }
 
-      if (invoiceError) throw invoiceError;
+  // Sums accounts into their top-level parents; sign turns debit-positive balances into the statement's sign
+  private buildBreakdown(
+    accounts: LedgerAccount[],
+    balances: Map<string, number>,
+    include: (account: LedgerAccount) => boolean,
+    sign: 1 | -1,
+    total: number
+  ): Breakdown {
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const groups: AccountGroups = new Map();
+
+    accounts.filter(include).forEach(account => {
+      const balance = balances.get(account.id) || 0;
+      if (balance === 0) return;
+      const root = this.getRootAccount(account, accountsById);
+      const group = groups.get(root.id) || { root, amount: 0 };
+      group.amount += sign * balance;
+      groups.set(root.id, group);
+    });
+
+    return sortByAccountNumber(Array.from(groups.values()).map(group => group.root))
+      .map(root => ({ category: root.name, amount: roundCurrency(groups.get(root.id)!.amount) }))
+      .filter(line => line.amount !== 0)
+      .map(line => ({ ...line, percentage: total !== 0 ? (line.amount / total) * 100 : 0 }));
+  }
 
-      // Get expense data
-      const { data: expenses, error: expenseError } = await supabase
-        .from('expenses')
-        .select(`
-          amount, 
-          tax_amount,
-          expense_date,
-          category_id,
-          expense_categories (
-            name
-          )
-        `)
-        .eq('user_id', user.id)
-        .gte('expense_date', startDate.toISOString().split('T')[0])
-        .lte('expense_date', endDate.toISOString().split('T')[0]);
-
-      if (expenseError) throw expenseError;
-
-      // Calculate totals
-      const totalRevenue = invoices?.reduce((sum, invoice) => sum + (invoice.total || 0), 0) || 0;
-      const totalExpenses = expenses?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
-      
-      // Calculate cost of goods sold (from specific expense categories)
-      const costOfGoodsSold = expenses?.filter(exp => {
-        const categoryName = exp.expense_categories?.name?.toLowerCase() || '';
-        return ['inventory', 'materials', 'direct labor', 'manufacturing', 'cost of goods sold', 'cogs'].includes(categoryName);
-      }).reduce((sum, exp) => sum + (exp.amount || 0), 0) || 0;
-
-      const grossProfit = totalRevenue - costOfGoodsSold;
-      const operatingExpenses = totalExpenses - costOfGoodsSold;
-      const netIncome = totalRevenue - totalExpenses;
-
-      // Revenue breakdown - for simplicity, assume all revenue is in "Sales" category
-      // In a real app, you'd have invoice line items with categories
-      const revenueBreakdown = totalRevenue > 0 ? [
-        {
-          category: 'Sales Revenue',
-          amount: totalRevenue,
-          percentage: 100
-        }
-      ] : [];
+  private sumClass(
+    accounts: LedgerAccount[],
+    balances: Map<string, number>,
+    include: (account: LedgerAccount) => boolean,
+    sign: 1 | -1
+  ): number {
+    return roundCurrency(accounts.filter(include).reduce((sum, account) => sum + sign * (balances.get(account.id) || 0), 0));
+  }
 
-      // Expense breakdown by category
-      const expenseCategories = new Map<string, number>();
-      expenses?.forEach(expense => {
-        const category = expense.expense_categories?.name || 'Uncategorized';
-        expenseCategories.set(category, (expenseCategories.get(category) || 0) + (expense.amount || 0));
-      });
+  // Lines posted to a merged account report under the account it was merged into, following chained merges
+  applyAccountMerges(accounts: LedgerAccount[], entries: LedgerEntry[]): { accounts: LedgerAccount[]; entries: LedgerEntry[] } {
+    if (!accounts.some(account => account.mergedIntoAccountId)) {
+      return { accounts, entries };
+    }
+
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const resolve = (accountId: string): string => {
+      const visited = new Set([accountId]);
+      let current = accountId;
+      let target = accountsById.get(current)?.mergedIntoAccountId;
+      while (target && accountsById.has(target) && !visited.has(target)) {
+        current = target;
+        visited.add(current);
+        target = accountsById.get(current)?.mergedIntoAccountId;
+      }
+      return current;
+    };
+
+    return {
+      accounts: accounts.filter(account => resolve(account.id) === account.id),
+      entries: entries.map(entry => ({
+        ...entry,
+        lines: entry.lines.map(line => ({ ...line, accountId: resolve(line.accountId) }))
+      }))
+    };
+  }
 
-      const expenseBreakdown = Array.from(expenseCategories.entries()).map(([category, amount]) => ({
-        category,
-        amount,
-        percentage: totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0
+  // Chart of accounts plus every posted entry up to the end date
+  async getLedger(userId: string, endDate: string): Promise<{ accounts: LedgerAccount[]; entries: LedgerEntry[] }> {
+    const accounts = await fetchAllRows((from, to) => supabase
+      .from('accounts')
+      .select('id, name, account_number, account_class, parent_account_id, type, merged_into_account_id')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, to));
+
+    const entries = await fetchAllRows((from, to) => supabase
+      .from('journal_entries')
+      .select('id, entry_date, reference_type, reference_id, journal_entry_lines (account_id, debit_amount, credit_amount)')
+      .eq('user_id', userId)
+      .eq('status', 'posted')
+      .lte('entry_date', endDate)
+      .order('id')
+      .range(from, to));
+
+    return this.applyAccountMerges(
+      accounts.map(account => ({
+        id: account.id,
+        name: account.name,
+        accountNumber: account.account_number,
+        accountClass: ACCOUNT_CLASSES.includes(account.account_class as AccountClass)
+          ? account.account_class as AccountClass
+          : CLASS_BY_NUMBER_PREFIX[account.account_number?.charAt(0) || '']
+            || (['credit_card', 'loan'].includes(account.type) ? 'Liability' : 'Asset'),
+        parentAccountId: account.parent_account_id,
+        type: account.type,
+        mergedIntoAccountId: account.merged_into_account_id
+      })),
+      entries.map(entry => ({
+        id: entry.id,
+        entryDate: entry.entry_date,
+        closing: entry.reference_type === 'year_end_close',
+        referenceType: entry.reference_type,
+        referenceId: entry.reference_id,
+        lines: (entry.journal_entry_lines || []).map(line => ({
+          accountId: line.account_id,
+          debit: line.debit_amount || 0,
+          credit: line.credit_amount || 0
+        }))
+      }))
+    );
+  }
+
+  // Closing entries move the year's result into retained earnings, so they'd zero the statement
+  buildProfitLoss(accounts: LedgerAccount[], entries: LedgerEntry[], startDate: string, endDate: string): ProfitLossData {
+    const balances = sumBalances(entries.filter(entry => !entry.closing), startDate, endDate);
+    const isRevenue = (account: LedgerAccount) => account.accountClass === 'Revenue';
+    const isOperatingExpense = (account: LedgerAccount) => account.accountClass === 'Expense' && !isCostOfSales(account);
+
+    const totalRevenue = this.sumClass(accounts, balances, isRevenue, -1);
+    const costOfGoodsSold = this.sumClass(accounts, balances, isCostOfSales, 1);
+    const operatingExpenses = this.sumClass(accounts, balances, isOperatingExpense, 1);
+    const totalExpenses = roundCurrency(costOfGoodsSold + operatingExpenses);
+
+    return {
+      totalRevenue,
+      costOfGoodsSold,
+      grossProfit: roundCurrency(totalRevenue - costOfGoodsSold),
+      operatingExpenses,
+      netIncome: roundCurrency(totalRevenue - totalExpenses),
+      revenueBreakdown: this.buildBreakdown(accounts, balances, isRevenue, -1, totalRevenue),
+      expenseBreakdown: this.buildBreakdown(accounts, balances, account => account.accountClass === 'Expense', 1, totalExpenses)
+    };
+  }
+
+  // Equity includes earnings not yet closed to retained earnings, so assets always equal liabilities plus equity
+  buildBalanceSheet(accounts: LedgerAccount[], entries: LedgerEntry[], asOfDate: string): BalanceSheetData {
+    const balances = sumBalances(entries, null, asOfDate);
+    const isAsset = (account: LedgerAccount) => account.accountClass === 'Asset';
+    const isLiability = (account: LedgerAccount) => account.accountClass === 'Liability';
+
+    const currentAssets = this.sumClass(accounts, balances, account => isAsset(account) && !isFixedAsset(account), 1);
+    const fixedAssets = this.sumClass(accounts, balances, isFixedAsset, 1);
+    const totalAssets = roundCurrency(currentAssets + fixedAssets);
+
+    const currentLiabilities = this.sumClass(accounts, balances, account => isLiability(account) && !isLongTermLiability(account), -1);
+    const longTermLiabilities = this.sumClass(accounts, balances, isLongTermLiability, -1);
+    const totalLiabilities = roundCurrency(currentLiabilities + longTermLiabilities);
+
+    const equity = this.sumClass(accounts, balances, account => ['Equity', 'Revenue', 'Expense'].includes(account.accountClass), -1);
+
+    return {
+      totalAssets,
+      currentAssets,
+      fixedAssets,
+      totalLiabilities,
+      currentLiabilities,
+      longTermLiabilities,
+      equity,
+      assetBreakdown: this.buildBreakdown(accounts, balances, isAsset, 1, totalAssets),
+      liabilityBreakdown: this.buildBreakdown(accounts, balances, isLiability, -1, totalLiabilities)
+    };
+  }
+
+  // Each entry's non-cash lines explain its cash movement, so activities are classed by the accounts on the other side
+  buildCashFlow(accounts: LedgerAccount[], entries: LedgerEntry[], startDate: string, endDate: string): CashFlowData {
+    const accountsById = new Map(accounts.map(account => [account.id, account]));
+    const cashAccounts = accounts.filter(isCashAccount);
+    const cashBalance = (balances: Map<string, number>) => this.sumClass(cashAccounts, balances, () => true, 1);
+
+    const activities: Record<'operating' | 'investing' | 'financing', AccountGroups> = {
+      operating: new Map(),
+      investing: new Map(),
+      financing: new Map()
+    };
+
+    entries
+      .filter(entry => entry.entryDate >= startDate && entry.entryDate <= endDate)
+      .filter(entry => entry.lines.some(line => accountsById.has(line.accountId) && isCashAccount(accountsById.get(line.accountId)!)))
+      .forEach(entry => entry.lines.forEach(line => {
+        const account = accountsById.get(line.accountId);
+        if (!account || isCashAccount(account)) return;
+
+        const activity = isFixedAsset(account)
+          ? activities.investing
+          : isLongTermLiability(account) || account.accountClass === 'Equity'
+            ? activities.financing
+            : activities.operating;
+        const root = this.getRootAccount(account, accountsById);
+        const group = activity.get(root.id) || { root, amount: 0 };
+        group.amount += line.credit - line.debit;
+        activity.set(root.id, group);
       }));
 
-      return {
-        totalRevenue,
-        costOfGoodsSold,
-        grossProfit,
-        operatingExpenses,
-        netIncome,
-        revenueBreakdown,
-        expenseBreakdown
-      };
+    const toActivities = (activity: AccountGroups) =>
+      sortByAccountNumber(Array.from(activity.values()).map(group => group.root))
+        .map(root => ({ description: root.name, amount: roundCurrency(activity.get(root.id)!.amount) }))
+        .filter(line => line.amount !== 0);
+
+    const operatingActivities = toActivities(activities.operating);
+    const investingActivities = toActivities(activities.investing);
+    const financingActivities = toActivities(activities.financing);
+    const total = (lines: Array<{ amount: number }>) => roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    const operatingCashFlow = total(operatingActivities);
+    const investingCashFlow = total(investingActivities);
+    const financingCashFlow = total(financingActivities);
+    const beginningCash = cashBalance(sumBalances(entries.filter(entry => entry.entryDate < startDate), null, startDate));
+
+    return {
+      operatingCashFlow,
+      investingCashFlow,
+      financingCashFlow,
+      netCashFlow: roundCurrency(operatingCashFlow + investingCashFlow + financingCashFlow),
+      beginningCash,
+      endingCash: cashBalance(sumBalances(entries, null, endDate)),
+      operatingActivities,
+      investingActivities,
+      financingActivities
+    };
+  }
+
+  buildTrialBalance(accounts: LedgerAccount[], entries: LedgerEntry[], asOfDate: string): TrialBalanceData {
+    const balances = sumBalances(entries, null, asOfDate);
+
+    const trialBalanceAccounts = sortByAccountNumber(accounts)
+      .map(account => ({ account, balance: roundCurrency(balances.get(account.id) || 0) }))
+      .filter(({ balance }) => balance !== 0)
+      .map(({ account, balance }) => ({
+        accountName: account.accountNumber ? `${account.accountNumber} ${account.name}` : account.name,
+        accountType: account.accountClass,
+        debitBalance: balance > 0 ? balance : 0,
+        creditBalance: balance < 0 ? -balance : 0
+      }));
+
+    const totalDebits = roundCurrency(trialBalanceAccounts.reduce((sum, account) => sum + account.debitBalance, 0));
+    const totalCredits = roundCurrency(trialBalanceAccounts.reduce((sum, account) => sum + account.creditBalance, 0));
+
+    return {
+      totalDebits,
+      totalCredits,
+      accountCount: trialBalanceAccounts.length,
+      balanceStatus: Math.abs(totalDebits - totalCredits) < 0.01 ? 'balanced' : 'unbalanced',
+      accounts: trialBalanceAccounts
+    };
+  }
+
+  async generateProfitLossReport(period: string, customStartDate?: Date, customEndDate?: Date): Promise<ProfitLossData> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { startDate, endDate } = this.getPeriodDates(period, customStartDate, customEndDate);
+      const { accounts, entries } = await this.getLedger(user.id, this.toDateString(endDate));
+
+      return this.buildProfitLoss(accounts, entries, this.toDateString(startDate), this.toDateString(endDate));
     } catch (error) {
       console.error('Error generating profit & loss report:', error);
       throw error;
@@ -225,85 +562,9 @@ export class FinancialReportsService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user?.id) throw new Error('User not authenticated');
 
-      // Get cash and bank account balances
-      const { data: accounts, error: accountError } = await supabase
-        .from('accounts')
-        .select('current_balance, name, type')
-        .eq('user_id', user.id);
-
-      if (accountError) throw accountError;
-
-      // Get accounts receivable (unpaid invoices)
-      const { data: unpaidInvoices, error: invoiceError } = await supabase
-        .from('invoices')
-        .select('total, due_date')
-        .eq('user_id', user.id)
-        .eq('status', 'sent')
-        .lte('date', asOfDate.toISOString().split('T')[0]);
-
-      if (invoiceError) throw invoiceError;
+      const { accounts, entries } = await this.getLedger(user.id, this.toDateString(asOfDate));
 
-      // Get accounts payable (unpaid bills/expenses)
-      const { data: unpaidExpenses, error: expenseError } = await supabase
-        .from('expenses')
-        .select('amount')
-        .eq('user_id', user.id)
-        .eq('status', 'pending')
-        .lte('expense_date', asOfDate.toISOString().split('T')[0]);
-
-      if (expenseError) throw expenseError;
-
-      // Calculate assets
-      const cashAccounts = accounts?.filter(acc => acc.type === 'cash' || acc.type === 'bank') || [];
-      const cashAndBankBalance = cashAccounts.reduce((sum, account) => sum + (account.current_balance || 0), 0);
-      const accountsReceivable = unpaidInvoices?.reduce((sum, invoice) => sum + (invoice.total || 0), 0) || 0;
-      
-      // Get other asset accounts
-      const assetAccounts = accounts?.filter(acc => acc.type === 'asset') || [];
-      const otherAssets = assetAccounts.reduce((sum, account) => sum + (account.current_balance || 0), 0);
-      
-      const currentAssets = cashAndBankBalance + accountsReceivable;
-      const fixedAssets = otherAssets; // Use real asset data
-      const totalAssets = currentAssets + fixedAssets;
-
-      // Calculate liabilities
-      const accountsPayable = unpaidExpenses?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
-      
-      // Get liability accounts
-      const liabilityAccounts = accounts?.filter(acc => acc.type === 'liability') || [];
-      const otherLiabilities = liabilityAccounts.reduce((sum, account) => sum + Math.abs(account.current_balance || 0), 0);
-      
-      const currentLiabilities = accountsPayable;
-      const longTermLiabilities = otherLiabilities;
-      const totalLiabilities = currentLiabilities + longTermLiabilities;
-
-      // Calculate equity
-      const equity = totalAssets - totalLiabilities;
-
-      // Asset breakdown
-      const assetBreakdown = [
-        { category: 'Cash & Bank', amount: cashAndBankBalance, percentage: totalAssets > 0 ? (cashAndBankBalance / totalAssets) * 100 : 0 },
-        { category: 'Accounts Receivable', amount: accountsReceivable, percentage: totalAssets > 0 ? (accountsReceivable / totalAssets) * 100 : 0 },
-        { category: 'Fixed Assets', amount: fixedAssets, percentage: totalAssets > 0 ? (fixedAssets / totalAssets) * 100 : 0 }
-      ];
-
-      // Liability breakdown
-      const liabilityBreakdown = [
-        { category: 'Accounts Payable', amount: accountsPayable, percentage: totalLiabilities > 0 ? (accountsPayable / totalLiabilities) * 100 : 0 },
-        { category: 'Long-term Liabilities', amount: longTermLiabilities, percentage: totalLiabilities > 0 ? (longTermLiabilities / totalLiabilities) * 100 : 0 }
-      ];
-
-      return {
-        totalAssets,
-        currentAssets,
-        fixedAssets,
-        totalLiabilities,
-        currentLiabilities,
-        longTermLiabilities,
-        equity,
-        assetBreakdown,
-        liabilityBreakdown
-      };
+      return this.buildBalanceSheet(accounts, entries, this.toDateString(asOfDate));
     } catch (error) {
       console.error('Error generating balance sheet report:', error);
       throw error;
@@ -316,96 +577,9 @@ export class FinancialReportsService {
       if (!user?.id) throw new Error('User not authenticated');
 
       const { startDate, endDate } = this.getPeriodDates(period, customStartDate, customEndDate);
-      
-      // Get invoice payments (operating cash inflow)
-      const { data: invoicePayments, error: invoiceError } = await supabase
-        .from('invoices')
-        .select('total, date')
-        .eq('user_id', user.id)
-        .eq('status', 'paid')
-        .gte('date', startDate.toISOString().split('T')[0])
-        .lte('date', endDate.toISOString().split('T')[0]);
-
-      if (invoiceError) throw invoiceError;
-
-      // Get expense payments (operating cash outflow)
-      const { data: expensePayments, error: expenseError } = await supabase
-        .from('expenses')
-        .select(`
-          amount, 
-          expense_date,
-          expense_categories (
-            name
-          )
-        `)
-        .eq('user_id', user.id)
-        .gte('expense_date', startDate.toISOString().split('T')[0])
-        .lte('expense_date', endDate.toISOString().split('T')[0]);
-
-      if (expenseError) throw expenseError;
-
-      // Calculate operating cash flow
-      const cashFromSales = invoicePayments?.reduce((sum, invoice) => sum + (invoice.total || 0), 0) || 0;
-      const operatingExpenses = expensePayments?.filter(exp => {
-        const categoryName = exp.expense_categories?.name?.toLowerCase() || '';
-        return !['equipment', 'investment', 'loan', 'capital expenditure', 'fixed assets'].includes(categoryName);
-      }).reduce((sum, exp) => sum + (exp.amount || 0), 0) || 0;
-      
-      const operatingCashFlow = cashFromSales - operatingExpenses;
-
-      // Calculate investing cash flow (equipment, investments)
-      const investingCashFlow = -(expensePayments?.filter(exp => {
-        const categoryName = exp.expense_categories?.name?.toLowerCase() || '';
-        return ['equipment', 'investment', 'capital expenditure', 'fixed assets'].includes(categoryName);
-      }).reduce((sum, exp) => sum + (exp.amount || 0), 0) || 0);
-
-      // Calculate financing cash flow (loans, financing)
-      const financingCashFlow = -(expensePayments?.filter(exp => {
-        const categoryName = exp.expense_categories?.name?.toLowerCase() || '';
-        return ['loan', 'financing', 'debt payment', 'interest'].includes(categoryName);
-      }).reduce((sum, exp) => sum + (exp.amount || 0), 0) || 0);
-
-      const netCashFlow = operatingCashFlow + investingCashFlow + financingCashFlow;
-
-      // Get beginning cash balance from accounts
-      const { data: cashAccounts, error: accountError } = await supabase
-        .from('accounts')
-        .select('current_balance')
-        .eq('user_id', user.id)
-        .in('type', ['cash', 'bank']);
-
-      if (accountError) throw accountError;
+      const { accounts, entries } = await this.getLedger(user.id, this.toDateString(endDate));
 
-      const beginningCash = cashAccounts?.reduce((sum, account) => sum + (account.current_balance || 0), 0) || 0;
-      const endingCash = beginningCash + netCashFlow;
-
-      // Operating activities breakdown
-      const operatingActivities = [
-        { description: 'Cash from sales', amount: cashFromSales },
-        { description: 'Operating expenses', amount: -operatingExpenses }
-      ];
-
-      // Investing activities breakdown
-      const investingActivities = [
-        { description: 'Equipment purchases', amount: investingCashFlow }
-      ];
-
-      // Financing activities breakdown
-      const financingActivities = [
-        { description: 'Loan payments', amount: financingCashFlow }
-      ];
-
-      return {
-        operatingCashFlow,
-        investingCashFlow,
-        financingCashFlow,
-        netCashFlow,
-        beginningCash,
-        endingCash,
-        operatingActivities,
-        investingActivities,
-        financingActivities
-      };
+      return this.buildCashFlow(accounts, entries, this.toDateString(startDate), this.toDateString(endDate));
     } catch (error) {
       console.error('Error generating cash flow report:', error);
       throw error;
@@ -417,132 +591,220 @@ export class FinancialReportsService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user?.id) throw new Error('User not authenticated');
 
-      // Get all accounts and their balances
-      const { data: accounts, error: accountError } = await supabase
-        .from('accounts')
-        .select('name, current_balance, type')
-        .eq('user_id', user.id);
+      const { accounts, entries } = await this.getLedger(user.id, this.toDateString(asOfDate));
+
+      return this.buildTrialBalance(accounts, entries, this.toDateString(asOfDate));
+    } catch (error) {
+      console.error('Error generating trial balance report:', error);
+      throw error;
+    }
+  }
+
+  // Balances are rebuilt from settlement dates so past as-of dates show what was owed then
+  async generateAgedReceivablesReport(asOfDate: Date): Promise<AgedReceivablesData> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user?.id) throw new Error('User not authenticated');
 
-      if (accountError) throw accountError;
+      const asOf = format(asOfDate, 'yyyy-MM-dd');
 
-      // Get revenue accounts (from invoices)
       const { data: invoices, error: invoiceError } = await supabase
         .from('invoices')
-        .select('total, status')
+        .select('id, invoice_number, customer_id, date, due_date, total, exchange_rate, customers (name)')
         .eq('user_id', user.id)
-        .lte('date', asOfDate.toISOString().split('T')[0])
-        .eq('status', 'paid');
+        .not('status', 'in', '(draft,cancelled)')
+        .lte('date', asOf);
 
       if (invoiceError) throw invoiceError;
 
-      // Get expense accounts
-      const { data: expenses, error: expenseError } = await supabase
-        .from('expenses')
-        .select(`
-          amount,
-          expense_categories (
-            name
-          )
-        `)
+      const { data: payments, error: paymentError } = await supabase
+        .from('payments')
+        .select('id, invoice_id, amount, payment_date')
         .eq('user_id', user.id)
-        .lte('expense_date', asOfDate.toISOString().split('T')[0]);
-
-      if (expenseError) throw expenseError;
-
-      // Build trial balance accounts
-      const trialBalanceAccounts: Array<{
-        accountName: string;
-        accountType: string;
-        debitBalance: number;
-        creditBalance: number;
-      }> = [];
-
-      // Add all accounts from the accounts table
-      accounts?.forEach(account => {
-        const balance = account.current_balance || 0;
-        let accountType = 'Asset';
-        let debitBalance = 0;
-        let creditBalance = 0;
-
-        // Determine account type and balance side based on account type
-        switch (account.type?.toLowerCase()) {
-          case 'asset':
-          case 'cash':
-          case 'bank':
-            accountType = 'Asset';
-            debitBalance = balance > 0 ? balance : 0;
-            creditBalance = balance < 0 ? Math.abs(balance) : 0;
-            break;
-          case 'liability':
-            accountType = 'Liability';
-            debitBalance = balance < 0 ? Math.abs(balance) : 0;
-            creditBalance = balance > 0 ? balance : 0;
-            break;
-          case 'equity':
-            accountType = 'Equity';
-            debitBalance = balance < 0 ? Math.abs(balance) : 0;
-            creditBalance = balance > 0 ? balance : 0;
-            break;
-          default:
-            accountType = 'Asset';
-            debitBalance = balance > 0 ? balance : 0;
-            creditBalance = balance < 0 ? Math.abs(balance) : 0;
-        }
+        .not('invoice_id', 'is', null)
+        .in('status', ['completed', 'refunded'])
+        .lte('payment_date', asOf);
 
-        trialBalanceAccounts.push({
-          accountName: account.name || 'Unnamed Account',
-          accountType,
-          debitBalance,
-          creditBalance
-        });
-      });
+      if (paymentError) throw paymentError;
 
-      // Add revenue account
-      const totalRevenue = invoices?.reduce((sum, invoice) => sum + (invoice.total || 0), 0) || 0;
-      if (totalRevenue > 0) {
-        trialBalanceAccounts.push({
-          accountName: 'Sales Revenue',
-          accountType: 'Revenue',
-          debitBalance: 0,
-          creditBalance: totalRevenue
-        });
-      }
+      const { data: refunds, error: refundError } = await supabase
+        .from('payment_refunds')
+        .select('payment_id, amount, refund_date')
+        .eq('user_id', user.id)
+        .lte('refund_date', asOf);
 
-      // Add expense accounts by category
-      const expenseCategories = new Map<string, number>();
-      expenses?.forEach(expense => {
-        const category = expense.expense_categories?.name || 'General Expense';
-        expenseCategories.set(category, (expenseCategories.get(category) || 0) + (expense.amount || 0));
-      });
+      if (refundError) throw refundError;
 
-      expenseCategories.forEach((amount, category) => {
-        trialBalanceAccounts.push({
-          accountName: category,
-          accountType: 'Expense',
-          debitBalance: amount,
-          creditBalance: 0
-        });
-      });
+      const { data: allocations, error: allocationError } = await supabase
+        .from('payment_allocations')
+        .select('invoice_id, amount, payments (payment_date, status)')
+        .eq('user_id', user.id);
 
-      // Calculate totals
-      const totalDebits = trialBalanceAccounts.reduce((sum, account) => sum + account.debitBalance, 0);
-      const totalCredits = trialBalanceAccounts.reduce((sum, account) => sum + account.creditBalance, 0);
-      
-      const balanceStatus = Math.abs(totalDebits - totalCredits) < 0.01 ? 'balanced' : 'unbalanced';
+      if (allocationError) throw allocationError;
 
-      return {
-        totalDebits,
-        totalCredits,
-        accountCount: trialBalanceAccounts.length,
-        balanceStatus,
-        accounts: trialBalanceAccounts
-      };
+      const { data: applications, error: applicationError } = await supabase
+        .from('credit_note_applications')
+        .select('invoice_id, amount, applied_date')
+        .eq('user_id', user.id)
+        .lte('applied_date', asOf);
+
+      if (applicationError) throw applicationError;
+
+      // Batch refunds reduce the allocations themselves, so only direct payment refunds are added back here
+      const directPaymentInvoices = new Map((payments || []).map(payment => [payment.id, payment.invoice_id as string]));
+
+      const settlements: ReceivableSettlement[] = [
+        ...(payments || []).map(payment => ({
+          invoiceId: payment.invoice_id as string,
+          amount: Number(payment.amount),
+          date: payment.payment_date
+        })),
+        ...(refunds || [])
+          .filter(refund => directPaymentInvoices.has(refund.payment_id))
+          .map(refund => ({
+            invoiceId: directPaymentInvoices.get(refund.payment_id) as string,
+            amount: -Number(refund.amount),
+            date: refund.refund_date
+          })),
+        ...(allocations || [])
+          .filter(allocation => allocation.payments && allocation.payments.status !== 'failed' && allocation.payments.status !== 'cancelled')
+          .map(allocation => ({
+            invoiceId: allocation.invoice_id,
+            amount: Number(allocation.amount),
+            date: allocation.payments?.payment_date || ''
+          })),
+        ...(applications || []).map(application => ({
+          invoiceId: application.invoice_id,
+          amount: Number(application.amount),
+          date: application.applied_date
+        }))
+      ];
+
+      return this.buildAgedReceivables(
+        (invoices || []).map(invoice => ({
+          id: invoice.id,
+          invoiceNumber: invoice.invoice_number,
+          customerId: invoice.customer_id,
+          customerName: invoice.customers?.name || 'Unknown Customer',
+          date: invoice.date,
+          dueDate: invoice.due_date,
+          total: Number(invoice.total),
+          exchangeRate: invoice.exchange_rate
+        })),
+        settlements,
+        asOf
+      );
     } catch (error) {
-      console.error('Error generating trial balance report:', error);
+      console.error('Error generating aged receivables report:', error);
       throw error;
     }
   }
 
+  buildAgedReceivables(
+    invoices: ReceivableInvoice[],
+    settlements: ReceivableSettlement[],
+    asOfDate: string
+  ): AgedReceivablesData {
+    const settledByInvoice = new Map<string, number>();
+    settlements
+      .filter(settlement => settlement.date && settlement.date <= asOfDate)
+      .forEach(settlement => {
+        settledByInvoice.set(settlement.invoiceId, (settledByInvoice.get(settlement.invoiceId) || 0) + settlement.amount);
+      });
+
+    const byCustomer = new Map<string, AgedReceivablesCustomer>();
+    invoices
+      .filter(invoice => invoice.date <= asOfDate)
+      .forEach(invoice => {
+        const outstanding = Math.round((invoice.total - (settledByInvoice.get(invoice.id) || 0)) * 100) / 100;
+        if (outstanding <= 0) return;
+
+        const customer = byCustomer.get(invoice.customerId) || {
+          customerId: invoice.customerId,
+          customerName: invoice.customerName,
+          aging: customerStatementService.calculateAging([], asOfDate),
+          invoices: []
+        };
+        customer.invoices.push({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          date: invoice.date,
+          dueDate: invoice.dueDate,
+          total: exchangeRateService.convertToBase(invoice.total, invoice.exchangeRate),
+          balanceDue: exchangeRateService.convertToBase(outstanding, invoice.exchangeRate),
+          daysPastDue: Math.max(0, differenceInCalendarDays(parseISO(asOfDate), parseISO(invoice.dueDate)))
+        });
+        byCustomer.set(invoice.customerId, customer);
+      });
+
+    const customers = [...byCustomer.values()]
+      .map(customer => ({
+        ...customer,
+        aging: customerStatementService.calculateAging(customer.invoices, asOfDate),
+        invoices: customer.invoices.sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+      }))
+      .sort((a, b) => b.aging.total - a.aging.total);
+
+    return {
+      asOfDate,
+      customers,
+      totals: customerStatementService.calculateAging(customers.flatMap(customer => customer.invoices), asOfDate)
+    };
+  }
+
+  // One row per customer, followed by their invoices, so the export keeps the drill-down
+  agedReceivablesToCsv(data: AgedReceivablesData): string {
+    const header = ['Customer', 'Invoice', 'Invoice Date', 'Due Date', ...AGED_RECEIVABLES_COLUMNS.map(([, label]) => label)];
+    const bucketRow = (aging: AgingBuckets) => AGED_RECEIVABLES_COLUMNS.map(([key]) => aging[key].toFixed(2));
+
+    const rows: Array<Array<string | number>> = [header];
+    data.customers.forEach(customer => {
+      rows.push([customer.customerName, '', '', '', ...bucketRow(customer.aging)]);
+      customer.invoices.forEach(invoice => {
+        const aging = customerStatementService.calculateAging([invoice], data.asOfDate);
+        rows.push([customer.customerName, invoice.invoiceNumber, invoice.date, invoice.dueDate, ...bucketRow(aging)]);
+      });
+    });
+    rows.push(['Total', '', '', '', ...bucketRow(data.totals)]);
+
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+  }
+
+  agedReceivablesToHtml(data: AgedReceivablesData): string {
+    const cell = 'padding: 6px 8px; border-bottom: 1px solid #e5e7eb; font-size: 12px;';
+    const amounts = (aging: AgingBuckets, style = '') => AGED_RECEIVABLES_COLUMNS
+      .map(([key]) => `<td style="${cell} text-align: right; ${style}">${aging[key].toFixed(2)}</td>`).join('');
+
+    return `
+      <div style="font-family: Arial, sans-serif; padding: 20px; color: #111827;">
+        <h1 style="margin: 0 0 4px 0; font-size: 22px;">Aged Receivables</h1>
+        <p style="margin: 0 0 16px 0; color: #6b7280; font-size: 13px;">As at ${format(parseISO(data.asOfDate), 'dd MMM yyyy')}</p>
+        <table width="100%" cellpadding="0" cellspacing="0" style="border-collapse: collapse;">
+          <tr style="background-color: #f3f4f6;">
+            <th style="${cell} text-align: left;">Customer</th>
+            ${AGED_RECEIVABLES_COLUMNS.map(([, label]) => `<th style="${cell} text-align: right;">${label}</th>`).join('')}
+          </tr>
+          ${data.customers.map(customer => `
+            <tr>
+              <td style="${cell} font-weight: bold;">${customer.customerName}</td>
+              ${amounts(customer.aging, 'font-weight: bold;')}
+            </tr>
+            ${customer.invoices.map(invoice => `
+              <tr>
+                <td style="${cell} padding-left: 20px; color: #6b7280;">${invoice.invoiceNumber} (due ${format(parseISO(invoice.dueDate), 'dd MMM yyyy')})</td>
+                ${amounts(customerStatementService.calculateAging([invoice], data.asOfDate), 'color: #6b7280;')}
+              </tr>
+            `).join('')}
+          `).join('')}
+          <tr style="border-top: 2px solid #111827;">
+            <td style="${cell} font-weight: bold;">Total</td>
+            ${amounts(data.totals, 'font-weight: bold;')}
+          </tr>
+        </table>
+      </div>
+    `;
+  }
+
   async generateReportSummary(period: string, customStartDate?: Date, customEndDate?: Date): Promise<ReportSummary> {
     try {
       const profitLoss = await this.generateProfitLossReport(period, customStartDate, customEndDate);
@@ -566,13 +828,14 @@ export class FinancialReportsService {
   }
 
   async generateReport(
-    type: 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'trial_balance',
+    type: 'profit_loss' | 'balance_sheet' | 'cash_flow' | 'trial_balance' | 'accounts_receivable',
     period: string,
     customStartDate?: Date,
     customEndDate?: Date
   ): Promise<FinancialReport> {
     try {
       const { startDate, endDate } = this.getPeriodDates(period, customStartDate, customEndDate);
+      let reportPeriod = { startDate, endDate };
       let data: any;
       let name: string;
 
@@ -593,6 +856,14 @@ export class FinancialReportsService {
           data = await this.generateTrialBalanceReport(endDate);
           name = `${format(endDate, 'MMMM yyyy')} Trial Balance`;
           break;
+        case 'accounts_receivable': {
+          // Aging as at a future date would overstate what is overdue
+          const asOfDate = endDate > new Date() ? new Date() : endDate;
+          data = await this.generateAgedReceivablesReport(asOfDate);
+          name = `Aged Receivables as at ${format(asOfDate, 'dd MMM yyyy')}`;
+          reportPeriod = { startDate: asOfDate, endDate: asOfDate };
+          break;
+        }
         default:
           throw new Error(`Unsupported report type: ${type}`);
       }
@@ -602,8 +873,8 @@ export class FinancialReportsService {
         name,
         type,
         period: {
-          startDate: startDate.toISOString().split('T')[0],
-          endDate: endDate.toISOString().split('T')[0]
+          startDate: reportPeriod.startDate.toISOString().split('T')[0],
+          endDate: reportPeriod.endDate.toISOString().split('T')[0]
         },
         data,
         generatedAt: new Date().toISOString()
@@ -1,7 +1,10 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { Invoice, BusinessProfile, DEFAULT_BUSINESS_THEME } from '@/types';
-import { InvoiceTemplateId } from '../components/invoice/templates/InvoiceTemplates';
+import { CreditNote } from '@/types/creditNote';
+import { Quote } from '@/types/quote';
+import { CustomerStatement } from '@/types/statement';
+import { DocumentLabels, INVOICE_LABELS, QUOTE_LABELS, InvoiceTemplateId } from '../components/invoice/templates/InvoiceTemplates';
 import ClassicTemplate from '../components/invoice/preview/templates/ClassicTemplate';
 import ModernTemplate from '../components/invoice/preview/templates/ModernTemplate';
 import MinimalTemplate from '../components/invoice/preview/templates/MinimalTemplate';
@@ -20,6 +23,7 @@ interface TemplateData {
   tax: number;
   businessLogo?: string;
   theme?: any;
+  labels?: DocumentLabels;
 }
 
 export const createTemplateData = (invoice: Invoice, businessProfile?: BusinessProfile | null): TemplateData => {
@@ -68,6 +72,32 @@ export const renderTemplateComponent = (selectedTemplate: InvoiceTemplateId, tem
   }
 };
 
+// Template data for rendering a quote with any of the invoice layouts
+export const createQuoteTemplateData = (quote: Quote, businessProfile?: BusinessProfile | null): TemplateData => {
+  const quoteDocument: Invoice = {
+    id: quote.id,
+    invoiceNumber: quote.quoteNumber,
+    customerId: quote.customerId,
+    customer: quote.customer,
+    date: quote.date,
+    dueDate: quote.expiryDate,
+    items: quote.items,
+    subtotal: quote.subtotal,
+    taxAmount: quote.taxAmount,
+    discount: quote.discount,
+    additionalChargesList: quote.additionalChargesList,
+    additionalChargesTotal: quote.additionalChargesTotal,
+    total: quote.total,
+    status: 'sent',
+    notes: quote.notes,
+    terms: quote.terms,
+    currency: quote.currency,
+    templateName: quote.templateName
+  };
+
+  return { ...createTemplateData(quoteDocument, businessProfile), labels: QUOTE_LABELS };
+};
+
 // Wrapper component for email rendering
 const EmailInvoiceTemplate: React.FC<{
   selectedTemplate: InvoiceTemplateId;
@@ -92,9 +122,11 @@ const EmailInvoiceTemplate: React.FC<{
 // Create email-compatible HTML for invoice
 export const createEmailCompatibleInvoiceHtml = (
   invoice: Invoice,
-  businessProfile?: BusinessProfile | null
+  businessProfile?: BusinessProfile | null,
+  labels: DocumentLabels = INVOICE_LABELS
 ): string => {
   const templateData = createTemplateData(invoice, businessProfile);
+  const secondaryValue = labels.secondaryValue ?? new Date(invoice.dueDate).toLocaleDateString();
   
   return `
     <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; background-color: #ffffff;">
@@ -105,7 +137,7 @@ export const createEmailCompatibleInvoiceHtml = (
             <tr>
               <td>
                 ${businessProfile?.logoUrl ? `<img src="${businessProfile.logoUrl}" alt="${templateData.companyName}" style="height: 40px; margin-bottom: 10px;">` : ''}
-                <h1 style="margin: 0; font-size: 32px; font-weight: bold;">INVOICE</h1>
+                <h1 style="margin: 0; font-size: 32px; font-weight: bold;">${labels.title}</h1>
                 <p style="margin: 5px 0 0 0; font-size: 18px; opacity: 0.9;">#${invoice.invoiceNumber}</p>
               </td>
               <td style="text-align: right; vertical-align: top;">
@@ -144,16 +176,16 @@ export const createEmailCompatibleInvoiceHtml = (
           <table width="100%" cellpadding="0" cellspacing="0">
             <tr>
               <td width="33%" style="vertical-align: top;">
-                <h4 style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">Invoice Number</h4>
+                <h4 style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">${labels.numberLabel}</h4>
                 <p style="margin: 0; color: #111827; font-weight: bold;">${invoice.invoiceNumber}</p>
               </td>
               <td width="33%" style="vertical-align: top;">
-                <h4 style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">Invoice Date</h4>
+                <h4 style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">${labels.dateLabel}</h4>
                 <p style="margin: 0; color: #111827; font-weight: bold;">${new Date(invoice.date).toLocaleDateString()}</p>
               </td>
               <td width="33%" style="vertical-align: top;">
-                <h4 style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">Due Date</h4>
-                <p style="margin: 0; color: #111827; font-weight: bold;">${new Date(invoice.dueDate).toLocaleDateString()}</p>
+                <h4 style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">${labels.secondaryLabel}</h4>
+                <p style="margin: 0; color: #111827; font-weight: bold;">${secondaryValue}</p>
               </td>
             </tr>
           </table>
@@ -248,6 +280,185 @@ export const createEmailCompatibleInvoiceHtml = (
   `;
 };
 
+// Create email-compatible HTML for a credit note using the invoice layout
+export const createCreditNoteHtml = (
+  creditNote: CreditNote,
+  businessProfile?: BusinessProfile | null
+): string => {
+  const creditNoteDocument: Invoice = {
+    id: creditNote.id,
+    invoiceNumber: creditNote.creditNoteNumber,
+    customerId: creditNote.customerId,
+    customer: creditNote.customer,
+    date: creditNote.date,
+    dueDate: creditNote.date,
+    items: creditNote.items.map((item, index) => ({
+      id: item.lineItemId || `${creditNote.id}-${index}`,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      rate: item.rate,
+      total: item.total
+    })),
+    subtotal: creditNote.subtotal,
+    taxAmount: creditNote.taxAmount,
+    total: creditNote.total,
+    status: 'sent',
+    notes: creditNote.reason,
+    currency: creditNote.currency,
+    createdAt: creditNote.createdAt || '',
+    updatedAt: creditNote.updatedAt || ''
+  };
+
+  return createEmailCompatibleInvoiceHtml(creditNoteDocument, businessProfile, {
+    title: 'CREDIT NOTE',
+    numberLabel: 'Credit Note Number',
+    dateLabel: 'Credit Date',
+    secondaryLabel: 'Original Invoice',
+    secondaryValue: creditNote.invoice?.invoiceNumber || ''
+  });
+};
+
+// Create email-compatible HTML for a customer statement in the business theme colours
+export const createStatementHtml = (
+  statement: CustomerStatement,
+  businessProfile?: BusinessProfile | null
+): string => {
+  const theme = businessProfile?.theme || DEFAULT_BUSINESS_THEME;
+  const { customer, currency, aging } = statement;
+  const money = (amount: number) => `${currency} ${amount.toFixed(2)}`;
+  const formatDate = (date: string) => date ? new Date(date).toLocaleDateString() : '';
+  const companyAddress = [
+    businessProfile?.address,
+    businessProfile?.city,
+    businessProfile?.state,
+    businessProfile?.zip,
+    businessProfile?.country
+  ].filter(Boolean).join(', ');
+  const customerAddress = [customer.address, customer.city, customer.state, customer.zip, customer.country]
+    .filter(Boolean).join(', ');
+  const isBalanceForward = statement.style === 'balance_forward';
+  const agingColumns: Array<[string, number]> = [
+    ['Current', aging.current],
+    ['1-30 days', aging.days1to30],
+    ['31-60 days', aging.days31to60],
+    ['61-90 days', aging.days61to90],
+    ['90+ days', aging.over90]
+  ];
+  const cell = `padding: 10px 8px; border-bottom: 1px solid #e5e7eb; font-size: 13px; color: ${theme.text};`;
+  const headerCell = `color: white; padding: 12px 8px; font-size: 13px; font-weight: bold;`;
+
+  return `
+    <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 700px; margin: 0 auto; font-family: Arial, sans-serif; background-color: ${theme.surface};">
+      <!-- Header -->
+      <tr>
+        <td style="background: linear-gradient(135deg, ${theme.primary} 0%, ${theme.secondary} 100%); padding: 30px 20px; color: white;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td>
+                ${businessProfile?.logoUrl ? `<img src="${businessProfile.logoUrl}" alt="${businessProfile.name}" style="height: 40px; margin-bottom: 10px;">` : ''}
+                <h1 style="margin: 0; font-size: 28px; font-weight: bold;">STATEMENT</h1>
+                <p style="margin: 5px 0 0 0; font-size: 14px; opacity: 0.9;">${isBalanceForward ? `${formatDate(statement.periodStart)} - ` : 'As at '}${formatDate(statement.periodEnd)}</p>
+              </td>
+              <td style="text-align: right; vertical-align: top;">
+                <p style="margin: 0; font-size: 14px; opacity: 0.9;">${businessProfile?.name || 'Business Name'}</p>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+
+      <!-- Business and Customer Info -->
+      <tr>
+        <td style="padding: 30px 20px;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td width="50%" style="vertical-align: top;">
+                <h3 style="margin: 0 0 10px 0; color: ${theme.textLight}; font-size: 14px;">From</h3>
+                <p style="margin: 0; color: ${theme.text}; font-weight: bold; font-size: 16px;">${businessProfile?.name || 'Business Name'}</p>
+                ${companyAddress ? `<p style="margin: 5px 0; color: ${theme.textLight}; font-size: 13px;">${companyAddress}</p>` : ''}
+                ${businessProfile?.phone ? `<p style="margin: 5px 0; color: ${theme.textLight}; font-size: 13px;">${businessProfile.phone}</p>` : ''}
+              </td>
+              <td width="50%" style="vertical-align: top;">
+                <h3 style="margin: 0 0 10px 0; color: ${theme.textLight}; font-size: 14px;">To</h3>
+                <p style="margin: 0; color: ${theme.text}; font-weight: bold; font-size: 16px;">${customer.name}</p>
+                ${customerAddress ? `<p style="margin: 5px 0; color: ${theme.textLight}; font-size: 13px;">${customerAddress}</p>` : ''}
+                ${customer.email ? `<p style="margin: 5px 0; color: ${theme.primary}; font-size: 13px;">${customer.email}</p>` : ''}
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+
+      <!-- Transactions -->
+      <tr>
+        <td style="padding: 0 20px;">
+          <table width="100%" cellpadding="0" cellspacing="0" style="border-collapse: collapse;">
+            <tr style="background-color: ${theme.primary};">
+              <th style="${headerCell} text-align: left;">Date</th>
+              <th style="${headerCell} text-align: left;">Details</th>
+              <th style="${headerCell} text-align: left;">${isBalanceForward ? 'Reference' : 'Due'}</th>
+              <th style="${headerCell} text-align: right;">${isBalanceForward ? 'Charges' : 'Amount Due'}</th>
+              <th style="${headerCell} text-align: right;">${isBalanceForward ? 'Payments' : 'Credits'}</th>
+              <th style="${headerCell} text-align: right;">Balance</th>
+            </tr>
+            ${isBalanceForward ? `
+              <tr style="background-color: ${theme.background};">
+                <td style="${cell}">${formatDate(statement.periodStart)}</td>
+                <td style="${cell} font-weight: bold;" colspan="4">Opening balance</td>
+                <td style="${cell} text-align: right; font-weight: bold;">${money(statement.openingBalance)}</td>
+              </tr>
+            ` : ''}
+            ${statement.lines.map((line, index) => `
+              <tr style="background-color: ${index % 2 === 0 ? theme.surface : theme.background};">
+                <td style="${cell}">${formatDate(line.date)}</td>
+                <td style="${cell}">${line.description}</td>
+                <td style="${cell}">${isBalanceForward ? line.reference : formatDate(line.dueDate || '')}</td>
+                <td style="${cell} text-align: right;">${line.debit > 0 ? money(line.debit) : ''}</td>
+                <td style="${cell} text-align: right;">${line.credit > 0 ? money(line.credit) : ''}</td>
+                <td style="${cell} text-align: right; font-weight: bold;">${money(line.balance)}</td>
+              </tr>
+            `).join('')}
+            ${statement.lines.length === 0 ? `
+              <tr>
+                <td style="${cell} text-align: center; color: ${theme.textLight};" colspan="6">No activity for this period</td>
+              </tr>
+            ` : ''}
+          </table>
+        </td>
+      </tr>
+
+      <!-- Balance Due -->
+      <tr>
+        <td style="padding: 20px;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr style="border-top: 2px solid ${theme.primary};">
+              <td style="padding: 15px 0 8px 0; color: ${theme.primary}; font-size: 18px; font-weight: bold;">${statement.closingBalance < 0 ? 'Credit Balance:' : 'Balance Due:'}</td>
+              <td style="padding: 15px 0 8px 0; text-align: right; color: ${theme.primary}; font-size: 18px; font-weight: bold;">${money(Math.abs(statement.closingBalance))}</td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+
+      <!-- Aging -->
+      <tr>
+        <td style="padding: 0 20px 30px 20px;">
+          <table width="100%" cellpadding="0" cellspacing="0" style="border-collapse: collapse; background-color: ${theme.background};">
+            <tr>
+              ${agingColumns.map(([label]) => `<th style="padding: 10px 8px; font-size: 12px; color: ${theme.textLight}; text-align: center;">${label}</th>`).join('')}
+              <th style="padding: 10px 8px; font-size: 12px; color: ${theme.textLight}; text-align: center;">Total Due</th>
+            </tr>
+            <tr>
+              ${agingColumns.map(([, amount]) => `<td style="padding: 10px 8px; font-size: 13px; color: ${theme.text}; text-align: center;">${money(amount)}</td>`).join('')}
+              <td style="padding: 10px 8px; font-size: 13px; color: ${theme.text}; text-align: center; font-weight: bold;">${money(aging.total)}</td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  `;
+};
+
 export const renderTemplateToHtml = async (
   invoice: Invoice,
   selectedTemplate: InvoiceTemplateId,
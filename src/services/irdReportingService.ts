@@ -6,8 +6,11 @@ import {
   Payment,
   FinancialSummary 
 } from '@/types/payment';
+import { CreditNote } from '@/types/creditNote';
 import { supabaseDataService } from './supabaseDataService';
 import { taxCalculationService } from './taxCalculationService';
+import { exchangeRateService } from './exchangeRateService';
+import { creditNoteService } from './creditNoteService';
 import { Tables } from '@/integrations/supabase/types';
 
 export class IRDReportingService {
@@ -59,15 +62,24 @@ export class IRDReportingService {
     periodData: PeriodData,
     taxConfig: TaxConfiguration
   ): Promise<IRDReturnData> {
-    // Process sales data
-    const salesData = periodData.invoices.map(invoice => ({
-      amount: invoice.total,
-      taxInclusive: invoice.taxInclusive || true,
-      taxable: invoice.total > 0
+    // Process sales data, split by each invoice line's tax code
+    const salesData = periodData.invoices.flatMap(invoice => taxCalculationService.splitInvoiceByTaxCode({
+      total: invoice.total,
+      taxAmount: invoice.taxAmount || 0,
+      exchangeRate: invoice.exchangeRate,
+      lineItems: invoice.lineItems
     }));
 
+    // Credit notes issued in the period reduce sales and the GST charged on them
+    const creditData = periodData.creditNotes.flatMap(creditNote => taxCalculationService.splitInvoiceByTaxCode({
+      total: creditNote.total,
+      taxAmount: creditNote.taxAmount,
+      exchangeRate: creditNote.exchangeRate,
+      lineItems: creditNote.items
+    }).map(sale => ({ ...sale, amount: -sale.amount })));
+
     const salesCalculation = await taxCalculationService.calculateGSTReturnSales(
-      salesData,
+      [...salesData, ...creditData],
       taxConfig
     );
 
@@ -91,7 +103,7 @@ export class IRDReportingService {
         salesDetails: {
           standardRated: salesCalculation.standardRated,
           zeroRated: salesCalculation.zeroRated,
-          exempt: this.calculateExemptSales(periodData.invoices),
+          exempt: salesCalculation.exempt,
           totalSales: salesCalculation.totalSales,
           gstOnSales: salesCalculation.gstOnSales
         },
@@ -139,10 +151,18 @@ export class IRDReportingService {
         periodEnd
       );
 
+      // Fetch credit notes issued in the period
+      const creditNotes = await creditNoteService.getCreditNotesByPeriod(
+        userId,
+        periodStart,
+        periodEnd
+      );
+
       return {
         invoices,
         payments,
-        expenses
+        expenses,
+        creditNotes
       };
     } catch (error) {
       console.error('Error fetching period data:', error);
@@ -150,15 +170,6 @@ export class IRDReportingService {
     }
   }
 
-  /**
-   * Calculate exempt sales amount
-   */
-  private calculateExemptSales(invoices: EnhancedInvoice[]): number {
-    // In NZ, exempt sales are rare for small businesses
-    // Most sales are either standard-rated or zero-rated
-    return 0;
-  }
-
   /**
    * Calculate capital goods purchases
    */
@@ -184,7 +195,7 @@ export class IRDReportingService {
     // Bad debts: invoices written off as uncollectable
     const badDebts = periodData.invoices
       .filter(invoice => invoice.status === 'written_off')
-      .reduce((sum, invoice) => sum + (invoice.taxBreakdown?.taxAmount || 0), 0);
+      .reduce((sum, invoice) => sum + exchangeRateService.convertToBase(invoice.taxBreakdown?.taxAmount, invoice.exchangeRate), 0);
 
     // Other adjustments would be manual entries
     const otherAdjustments = 0;
@@ -564,6 +575,7 @@ interface PeriodData {
   invoices: EnhancedInvoice[];
   payments: Payment[];
   expenses: Tables<'expenses'>[];
+  creditNotes: CreditNote[];
 }
 
 interface ComplianceReport {
@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Invoice } from '@/types';
+import { Payment } from '@/types/payment';
+import {
+  CheckoutSession,
+  GatewayWebhookEvent,
+  PaymentGatewayAdapter,
+  PaymentGatewayName
+} from '@/types/paymentGateway';
+import { paymentService } from './paymentService';
+import { getActivePaymentGateway, getPaymentGateway, mockPaymentGateway } from './paymentGatewayAdapters';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+interface StartCheckoutOptions {
+  invoice: Invoice & { balanceDue?: number };
+  shareToken?: string;
+  returnUrl: string; // Public page the customer comes back to
+}
+
+export interface CheckoutSettlementResult {
+  recorded: Payment[];
+  failed: string[]; // Checkout session ids that couldn't be recorded
+}
+
+export const paymentGatewayService = {
+  isOnlinePaymentEnabled(): boolean {
+    return getActivePaymentGateway() !== null;
+  },
+
+  // What the customer still owes; the full total when the balance isn't known
+  getAmountDue(invoice: Invoice & { balanceDue?: number }): number {
+    if (invoice.status === 'paid') return 0;
+    return Math.max(0, roundCurrency(invoice.balanceDue ?? invoice.total));
+  },
+
+  // Gateway payments are matched on the gateway's payment id, falling back to the checkout session
+  getGatewayPaymentId(event: GatewayWebhookEvent): string {
+    return event.paymentReference || event.sessionId || event.id;
+  },
+
+  async startCheckout({ invoice, shareToken, returnUrl }: StartCheckoutOptions): Promise<CheckoutSession> {
+    const gateway = getActivePaymentGateway();
+    if (!gateway) {
+      throw new Error('Online payments are not enabled');
+    }
+
+    const amount = this.getAmountDue(invoice);
+    if (amount <= 0) {
+      throw new Error(`Invoice ${invoice.invoiceNumber} has already been paid`);
+    }
+
+    const returnTo = (result: 'success' | 'cancelled') =>
+      `${returnUrl}${returnUrl.includes('?') ? '&' : '?'}payment=${result}`;
+
+    return gateway.createCheckoutSession({
+      invoiceId: invoice.id,
+      shareToken,
+      amount,
+      currency: invoice.currency,
+      description: `Invoice ${invoice.invoiceNumber}`,
+      customerEmail: invoice.customer?.email || undefined,
+      successUrl: returnTo('success'),
+      cancelUrl: returnTo('cancelled')
+    });
+  },
+
+  // Called when the customer is sent back after paying; real gateways confirm through their webhook instead
+  handleCheckoutReturn(sessionId: string): void {
+    const gateway = getActivePaymentGateway();
+    if (gateway?.name === 'mock') {
+      mockPaymentGateway.completeCheckout(sessionId);
+    }
+  },
+
+  async handleWebhook(gatewayName: PaymentGatewayName, payload: string): Promise<Payment | null> {
+    const gateway = getPaymentGateway(gatewayName);
+    return this.processWebhookEvent(gateway, gateway.parseWebhookEvent(payload));
+  },
+
+  async processWebhookEvent(gateway: PaymentGatewayAdapter, event: GatewayWebhookEvent): Promise<Payment | null> {
+    // Refunds are recorded when they're issued from the app, and expired checkouts need nothing
+    if (event.type !== 'checkout.completed') return null;
+
+    const payment = await this.recordCheckoutPayment(event);
+    await gateway.markCheckoutSettled(event, payment.id);
+    return payment;
+  },
+
+  // Record a completed checkout through PaymentService, which updates the invoice and issues the receipt
+  async recordCheckoutPayment(event: GatewayWebhookEvent): Promise<Payment> {
+    if (!event.invoiceId) {
+      throw new Error(`Checkout ${event.sessionId || event.id} is not linked to an invoice`);
+    }
+
+    const gatewayPaymentId = this.getGatewayPaymentId(event);
+    const existing = await this.findGatewayPayment(event.gateway, gatewayPaymentId);
+    if (existing) return existing;
+
+    return paymentService.createPayment({
+      invoiceId: event.invoiceId,
+      paymentMethod: 'online',
+      amount: roundCurrency(event.amount),
+      paymentDate: event.occurredAt.slice(0, 10),
+      referenceNumber: gatewayPaymentId,
+      notes: `Paid online via ${getPaymentGateway(event.gateway).label.toLowerCase()}`,
+      gateway: event.gateway,
+      gatewayPaymentId
+    });
+  },
+
+  async findGatewayPayment(gateway: PaymentGatewayName, gatewayPaymentId: string): Promise<Payment | null> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('gateway', gateway)
+      .eq('gateway_payment_id', gatewayPaymentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error looking up gateway payment:', error);
+      throw error;
+    }
+
+    return data ? paymentService.getPayment(data.id) : null;
+  },
+
+  // Record payments for confirmed checkouts that are still unlinked; the Stripe webhook records its own, so these
+  // are mock checkouts and any the webhook failed on
+  async settleCompletedCheckouts(): Promise<CheckoutSettlementResult> {
+    const result: CheckoutSettlementResult = { recorded: [], failed: [] };
+    const gateway = getActivePaymentGateway();
+    if (!gateway) return result;
+
+    const events = await gateway.listCompletedCheckouts();
+    for (const event of events) {
+      try {
+        const payment = await this.processWebhookEvent(gateway, event);
+        if (payment) result.recorded.push(payment);
+      } catch (error) {
+        console.error(`Error recording payment for checkout ${event.sessionId || event.id}:`, error);
+        result.failed.push(event.sessionId || event.id);
+      }
+    }
+
+    return result;
+  }
+};
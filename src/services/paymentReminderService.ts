@@ -6,7 +6,7 @@ export interface PaymentReminderParams {
   invoice: Invoice;
   businessProfile?: BusinessProfile | null;
   reminderType: 'gentle' | 'firm' | 'final';
-  daysPastDue: number;
+  daysPastDue: number; // Negative for reminders sent before the due date
 }
 
 export const paymentReminderService = {
@@ -45,7 +45,9 @@ export const paymentReminderService = {
     switch (reminderType) {
       case 'gentle':
         urgencyLevel = 'low';
-        subject = `Friendly Reminder: Invoice ${invoice.invoiceNumber} Payment Due`;
+        subject = daysPastDue < 0
+          ? `Upcoming Payment: Invoice ${invoice.invoiceNumber} Due ${dueDate}`
+          : `Friendly Reminder: Invoice ${invoice.invoiceNumber} Payment Due`;
         content = `
           <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; color: #374151;">
             <div style="background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); padding: 30px; text-align: center; color: white; border-radius: 8px 8px 0 0;">
@@ -58,7 +60,9 @@ export const paymentReminderService = {
               
               <p style="margin: 0 0 20px 0; font-size: 14px; line-height: 1.6;">
                 We hope this message finds you well. We wanted to kindly remind you that payment for Invoice ${invoice.invoiceNumber} 
-                was due on <strong>${dueDate}</strong> and appears to be ${daysPastDue} day${daysPastDue !== 1 ? 's' : ''} overdue.
+                ${daysPastDue < 0
+                  ? `is due on <strong>${dueDate}</strong>, in ${-daysPastDue} day${daysPastDue !== -1 ? 's' : ''}.`
+                  : `was due on <strong>${dueDate}</strong> and appears to be ${daysPastDue} day${daysPastDue !== 1 ? 's' : ''} overdue.`}
               </p>
               
               <div style="background-color: #eff6ff; padding: 20px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #3b82f6;">
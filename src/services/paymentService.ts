@@ -1,12 +1,54 @@
 import { supabase } from '@/integrations/supabase/client';
-import { Payment, Receipt, CreatePaymentRequest, EnhancedInvoice } from '@/types/payment';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  Payment,
+  Receipt,
+  CreatePaymentRequest,
+  EnhancedInvoice,
+  AllocatableInvoice,
+  AllocationResult,
+  BatchPaymentResult,
+  CreateBatchPaymentRequest,
+  CustomerCredit,
+  PaymentAllocation,
+  PaymentRefund,
+  CreateRefundRequest,
+  RefundResult,
+  RefundPlan
+} from '@/types/payment';
 import { Invoice } from '@/types';
+import { PostingJournalLine, PostingRole } from '@/types/posting';
 import { invoiceService } from './supabaseService';
+import { exchangeRateService } from './exchangeRateService';
+import { supabaseDataService } from './supabaseDataService';
+import { getPaymentGateway } from './paymentGatewayAdapters';
+import { periodLockService } from './periodLockService';
+import { postingService, postToLedger } from './postingService';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Open invoice with what's needed to settle it in its own currency
+type OpenInvoice = AllocatableInvoice & { currency: string; exchangeRate: number };
+
+// Realised FX journal entry worked out before its payment is saved
+type RealisedFxEntry = {
+  gainLoss: number;
+  description: string;
+  lines: { account_id: string; description: string; debit_amount: number; credit_amount: number; line_order: number }[];
+};
+
+// Refund journal entry handed to complete_payment_refund, in the base currency
+type RefundJournalEntry = {
+  amount: number;
+  description: string;
+  lines: RealisedFxEntry['lines'];
+};
 
 // Map Supabase payment to Payment type
 const mapSupabasePaymentToPayment = (payment: any): Payment => ({
   id: payment.id,
   invoiceId: payment.invoice_id,
+  customerId: payment.customer_id,
   userId: payment.user_id,
   paymentMethod: payment.payment_method,
   amount: payment.amount,
@@ -14,6 +56,10 @@ const mapSupabasePaymentToPayment = (payment: any): Payment => ({
   referenceNumber: payment.reference_number,
   notes: payment.notes,
   status: payment.status,
+  exchangeRate: payment.exchange_rate != null ? Number(payment.exchange_rate) : 1,
+  gateway: payment.gateway,
+  gatewayPaymentId: payment.gateway_payment_id,
+  amountRefunded: Number(payment.amount_refunded || 0),
   createdAt: payment.created_at,
   updatedAt: payment.updated_at
 });
@@ -22,6 +68,7 @@ const mapSupabasePaymentToPayment = (payment: any): Payment => ({
 const mapSupabaseReceiptToReceipt = (receipt: any): Receipt => ({
   id: receipt.id,
   paymentId: receipt.payment_id,
+  refundId: receipt.refund_id,
   receiptNumber: receipt.receipt_number,
   userId: receipt.user_id,
   generatedAt: receipt.generated_at,
@@ -31,6 +78,32 @@ const mapSupabaseReceiptToReceipt = (receipt: any): Receipt => ({
   createdAt: receipt.created_at
 });
 
+const mapSupabaseCustomerCreditToCustomerCredit = (credit: Tables<'customer_credits'>): CustomerCredit => ({
+  id: credit.id,
+  customerId: credit.customer_id,
+  paymentId: credit.payment_id,
+  amount: Number(credit.amount),
+  amountApplied: Number(credit.amount_applied || 0),
+  remainingCredit: roundCurrency(Number(credit.amount) - Number(credit.amount_applied || 0)),
+  currency: credit.currency,
+  createdAt: credit.created_at
+});
+
+const mapSupabaseRefundToRefund = (refund: Tables<'payment_refunds'>): PaymentRefund => ({
+  id: refund.id,
+  paymentId: refund.payment_id,
+  userId: refund.user_id,
+  amount: Number(refund.amount),
+  refundDate: refund.refund_date,
+  refundMethod: refund.refund_method as Payment['paymentMethod'],
+  reason: refund.reason,
+  status: refund.status as PaymentRefund['status'],
+  gatewayRefundId: refund.gateway_refund_id,
+  journalEntryId: refund.journal_entry_id,
+  createdAt: refund.created_at || '',
+  updatedAt: refund.updated_at || ''
+});
+
 export class PaymentService {
   // Create a new payment and automatically update invoice status
   async createPayment(paymentData: CreatePaymentRequest): Promise<Payment> {
@@ -38,6 +111,33 @@ export class PaymentService {
     if (!user) throw new Error('User not authenticated');
 
     try {
+      await periodLockService.assertPeriodOpen('payment', [paymentData.paymentDate]);
+
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('invoice_number, currency, exchange_rate')
+        .eq('id', paymentData.invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+
+      // Payments are in the invoice currency; lock the rate to the base currency at the payment date
+      const baseCurrency = await exchangeRateService.getBaseCurrency();
+      const invoiceRate = Number(invoice.exchange_rate ?? 1);
+      const exchangeRate = await exchangeRateService.lockSettlementRate(
+        invoice.currency || baseCurrency,
+        baseCurrency,
+        paymentData.paymentDate,
+        invoiceRate
+      );
+      const fxEntry = await this.prepareRealisedFxGainLoss(
+        user.id,
+        paymentData.amount,
+        invoice.invoice_number,
+        invoiceRate,
+        exchangeRate
+      );
+
       // Start a transaction by creating the payment first
       const { data: payment, error: paymentError } = await supabase
         .from('payments')
@@ -49,26 +149,360 @@ export class PaymentService {
           payment_date: paymentData.paymentDate,
           reference_number: paymentData.referenceNumber,
           notes: paymentData.notes,
-          status: 'completed'
+          status: 'completed',
+          exchange_rate: exchangeRate,
+          gateway: paymentData.gateway,
+          gateway_payment_id: paymentData.gatewayPaymentId
         })
         .select()
         .single();
 
       if (paymentError) throw paymentError;
 
+      const createdPayment = mapSupabasePaymentToPayment(payment);
+      if (fxEntry) {
+        try {
+          await this.postRealisedFxGainLoss(user.id, createdPayment, fxEntry);
+        } catch (fxError) {
+          await supabase.from('payments').delete().eq('id', payment.id);
+          throw fxError;
+        }
+      }
+
       // Update invoice payment status and amounts
       await this.updateInvoicePaymentStatus(paymentData.invoiceId);
 
       // Generate receipt
       await this.generateReceipt(payment.id);
 
-      return mapSupabasePaymentToPayment(payment);
+      await postToLedger(`payment for invoice ${invoice.invoice_number}`, () => postingService.postPayment(createdPayment, invoice.invoice_number));
+
+      return createdPayment;
     } catch (error) {
       console.error('Error creating payment:', error);
       throw error;
     }
   }
 
+  // Settling at a different rate from the invoice realises an FX gain or loss against receivables.
+  // Worked out before the payment is saved so a failed account lookup can't leave the payment unposted.
+  private async prepareRealisedFxGainLoss(
+    userId: string,
+    amount: number,
+    invoiceNumber: string,
+    invoiceRate: number,
+    paymentRate: number
+  ): Promise<RealisedFxEntry | null> {
+    const { gainLoss } = exchangeRateService.calculateRealisedFx(amount, invoiceRate, paymentRate);
+    if (gainLoss === 0) return null;
+
+    const accounts = await postingService.getPostingAccounts(userId);
+    const description = `Realised FX ${gainLoss > 0 ? 'gain' : 'loss'} on payment for invoice ${invoiceNumber}`;
+    const lines = exchangeRateService.buildRealisedFxJournalLines(gainLoss, description, accounts);
+    if (!lines) {
+      console.warn(`Chart of accounts incomplete, realised FX on invoice ${invoiceNumber} was not posted to the ledger`);
+      return null;
+    }
+
+    return { gainLoss, description, lines };
+  }
+
+  private async postRealisedFxGainLoss(userId: string, payment: Payment, fxEntry: RealisedFxEntry): Promise<void> {
+    const { gainLoss, description, lines } = fxEntry;
+    const entryNumber = await supabaseDataService.generateJournalEntryNumber(userId);
+
+    const { data: journalEntry, error: entryError } = await supabase
+      .from('journal_entries')
+      .insert({
+        user_id: userId,
+        entry_number: entryNumber,
+        entry_date: payment.paymentDate,
+        description,
+        reference_type: 'payment',
+        reference_id: payment.id,
+        total_amount: Math.abs(gainLoss),
+        status: 'posted'
+      })
+      .select()
+      .single();
+
+    if (entryError) {
+      console.error('Error creating FX journal entry:', entryError);
+      throw entryError;
+    }
+
+    const { error: linesError } = await supabase
+      .from('journal_entry_lines')
+      .insert(lines.map(line => ({ ...line, journal_entry_id: journalEntry.id })));
+
+    if (linesError) {
+      await supabase.from('journal_entries').delete().eq('id', journalEntry.id);
+      console.error('Error creating FX journal entry lines:', linesError);
+      throw linesError;
+    }
+  }
+
+  // Record one payment against several invoices, holding any overpayment as customer credit
+  async createBatchPayment(request: CreateBatchPaymentRequest): Promise<BatchPaymentResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      await periodLockService.assertPeriodOpen('payment', [request.paymentDate]);
+
+      const openInvoices = await this.getAllocatableInvoices(request.customerId);
+      const baseCurrency = await exchangeRateService.getBaseCurrency();
+
+      // The payment is in one currency: the one given, otherwise that of the invoice due first
+      const currency = request.currency || openInvoices[0]?.currency || baseCurrency;
+      const { allocations, unappliedAmount } = request.allocations
+        ? this.applyManualAllocations(request.amount, request.allocations, openInvoices)
+        : this.allocateOldestFirst(request.amount, openInvoices, currency);
+
+      const allocatedInvoices = allocations.map(allocation => openInvoices.find(invoice => invoice.id === allocation.invoiceId)!);
+      if (allocatedInvoices.some(invoice => invoice.currency !== currency)) {
+        throw new Error(`A ${currency} batch payment can only settle ${currency} invoices`);
+      }
+
+      const exchangeRate = await exchangeRateService.lockSettlementRate(
+        currency,
+        baseCurrency,
+        request.paymentDate,
+        allocatedInvoices[0]?.exchangeRate
+      );
+      const fxEntries = await Promise.all(allocations.map((allocation, index) => this.prepareRealisedFxGainLoss(
+        user.id,
+        allocation.amountAllocated,
+        allocation.invoiceNumber,
+        allocatedInvoices[index].exchangeRate,
+        exchangeRate
+      )));
+
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          invoice_id: null,
+          customer_id: request.customerId,
+          user_id: user.id,
+          payment_method: request.paymentMethod,
+          amount: roundCurrency(request.amount),
+          payment_date: request.paymentDate,
+          reference_number: request.referenceNumber,
+          notes: request.notes,
+          status: 'completed',
+          exchange_rate: exchangeRate
+        })
+        .select()
+        .single();
+
+      if (paymentError) throw paymentError;
+
+      if (allocations.length > 0) {
+        const { error: allocationError } = await supabase
+          .from('payment_allocations')
+          .insert(allocations.map(allocation => ({
+            user_id: user.id,
+            payment_id: payment.id,
+            invoice_id: allocation.invoiceId,
+            amount: allocation.amountAllocated
+          })));
+
+        if (allocationError) {
+          await supabase.from('payments').delete().eq('id', payment.id);
+          throw allocationError;
+        }
+      }
+
+      const createdPayment = { ...mapSupabasePaymentToPayment(payment), allocations };
+
+      try {
+        for (const fxEntry of fxEntries.filter(Boolean)) {
+          await this.postRealisedFxGainLoss(user.id, createdPayment, fxEntry);
+        }
+      } catch (fxError) {
+        await supabase.from('journal_entries').delete().eq('reference_type', 'payment').eq('reference_id', payment.id);
+        await supabase.from('payments').delete().eq('id', payment.id);
+        throw fxError;
+      }
+
+      for (const allocation of allocations) {
+        await this.updateInvoicePaymentStatus(allocation.invoiceId);
+      }
+
+      await postToLedger('batch payment', () => postingService.postPayment(createdPayment));
+
+      let customerCredit: CustomerCredit | undefined;
+      if (unappliedAmount > 0) {
+        const { data: credit, error: creditError } = await supabase
+          .from('customer_credits')
+          .insert({
+            user_id: user.id,
+            customer_id: request.customerId,
+            payment_id: payment.id,
+            amount: unappliedAmount,
+            currency
+          })
+          .select()
+          .single();
+
+        if (creditError) throw creditError;
+        customerCredit = mapSupabaseCustomerCreditToCustomerCredit(credit);
+      }
+
+      const receipt = await this.generateBatchReceipt(createdPayment, request.customerId, allocations, unappliedAmount);
+
+      return { payment: createdPayment, allocations, unappliedAmount, receipt, customerCredit };
+    } catch (error) {
+      console.error('Error creating batch payment:', error);
+      throw error;
+    }
+  }
+
+  // A customer's invoices that still have a balance, oldest due first
+  async getAllocatableInvoices(customerId: string): Promise<OpenInvoice[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, date, due_date, total, total_paid, total_credited, currency, exchange_rate, status')
+      .eq('user_id', user.id)
+      .eq('customer_id', customerId)
+      .neq('status', 'draft')
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching invoices for allocation:', error);
+      throw error;
+    }
+
+    return (invoices || [])
+      .map(invoice => ({
+        id: invoice.id,
+        invoiceNumber: invoice.invoice_number,
+        date: invoice.date,
+        dueDate: invoice.due_date,
+        balanceDue: roundCurrency(Math.max(0, invoice.total - (invoice.total_paid || 0) - (invoice.total_credited || 0))),
+        currency: invoice.currency,
+        exchangeRate: Number(invoice.exchange_rate ?? 1)
+      }))
+      .filter(invoice => invoice.balanceDue > 0);
+  }
+
+  // Settle the oldest invoices in the payment's currency first; whatever is left over is unapplied
+  allocateOldestFirst(amount: number, invoices: AllocatableInvoice[], currency?: string): AllocationResult {
+    const ordered = invoices.filter(invoice => !currency || invoice.currency === currency).sort((a, b) =>
+      a.dueDate.localeCompare(b.dueDate) || (a.date || '').localeCompare(b.date || '')
+    );
+
+    let remaining = roundCurrency(amount);
+    const allocations: PaymentAllocation[] = [];
+
+    for (const invoice of ordered) {
+      if (remaining <= 0) break;
+      const amountAllocated = roundCurrency(Math.min(remaining, invoice.balanceDue));
+      if (amountAllocated <= 0) continue;
+
+      allocations.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amountAllocated,
+        remainingBalance: roundCurrency(invoice.balanceDue - amountAllocated)
+      });
+      remaining = roundCurrency(remaining - amountAllocated);
+    }
+
+    return { allocations, unappliedAmount: remaining };
+  }
+
+  // Check a hand-edited split against the payment and each invoice's balance
+  applyManualAllocations(
+    amount: number,
+    requested: Array<{ invoiceId: string; amount: number }>,
+    invoices: AllocatableInvoice[]
+  ): AllocationResult {
+    const allocations: PaymentAllocation[] = [];
+
+    // Lines for the same invoice are added together so they can't jointly exceed its balance
+    const requestedByInvoice = new Map<string, number>();
+    for (const { invoiceId, amount: requestedAmount } of requested) {
+      const amountRequested = roundCurrency(requestedAmount);
+      if (amountRequested === 0) continue;
+
+      const invoice = invoices.find(candidate => candidate.id === invoiceId);
+      if (!invoice) {
+        throw new Error('Payments can only be allocated to this customer\'s open invoices');
+      }
+      if (amountRequested < 0) {
+        throw new Error(`Allocation to invoice ${invoice.invoiceNumber} cannot be negative`);
+      }
+      requestedByInvoice.set(invoiceId, roundCurrency((requestedByInvoice.get(invoiceId) || 0) + amountRequested));
+    }
+
+    for (const [invoiceId, amountAllocated] of requestedByInvoice) {
+      const invoice = invoices.find(candidate => candidate.id === invoiceId)!;
+      if (amountAllocated > invoice.balanceDue) {
+        throw new Error(`Allocation to invoice ${invoice.invoiceNumber} exceeds its balance of ${invoice.balanceDue.toFixed(2)}`);
+      }
+
+      allocations.push({
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        amountAllocated,
+        remainingBalance: roundCurrency(invoice.balanceDue - amountAllocated)
+      });
+    }
+
+    const totalAllocated = roundCurrency(allocations.reduce((sum, allocation) => sum + allocation.amountAllocated, 0));
+    if (totalAllocated > roundCurrency(amount)) {
+      throw new Error(`Allocations total ${totalAllocated.toFixed(2)}, more than the payment of ${amount.toFixed(2)}`);
+    }
+
+    return { allocations, unappliedAmount: roundCurrency(amount - totalAllocated) };
+  }
+
+  // Invoices a batch payment was split across
+  async getPaymentAllocations(paymentId: string): Promise<PaymentAllocation[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: allocations, error } = await supabase
+      .from('payment_allocations')
+      .select('invoice_id, amount, invoices(invoice_number, total, total_paid, total_credited)')
+      .eq('payment_id', paymentId)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    return (allocations || []).map(allocation => ({
+      invoiceId: allocation.invoice_id,
+      invoiceNumber: allocation.invoices?.invoice_number || '',
+      amountAllocated: Number(allocation.amount),
+      remainingBalance: allocation.invoices
+        ? roundCurrency(Math.max(0, allocation.invoices.total - (allocation.invoices.total_paid || 0) - (allocation.invoices.total_credited || 0)))
+        : 0
+    }));
+  }
+
+  // Overpayments held for a customer that have not been applied yet
+  async getCustomerCredits(customerId: string): Promise<CustomerCredit[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: credits, error } = await supabase
+      .from('customer_credits')
+      .select('*')
+      .eq('customer_id', customerId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (credits || [])
+      .map(mapSupabaseCustomerCreditToCustomerCredit)
+      .filter(credit => credit.remainingCredit > 0);
+  }
+
   // Get all payments for a user
   async getPayments(): Promise<Payment[]> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -78,7 +512,7 @@ export class PaymentService {
       .from('payments')
       .select(`
         *,
-        invoices!inner(
+        invoices(
           invoice_number,
           customer_id,
           customers(name, email)
@@ -104,7 +538,24 @@ export class PaymentService {
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return payments?.map(mapSupabasePaymentToPayment) || [];
+
+    // Batch payments show up with just the share allocated to this invoice
+    const { data: allocations, error: allocationsError } = await supabase
+      .from('payment_allocations')
+      .select('amount, payments!inner(*)')
+      .eq('invoice_id', invoiceId)
+      .eq('user_id', user.id);
+
+    if (allocationsError) throw allocationsError;
+
+    const allocatedPayments = (allocations || []).map(allocation => ({
+      ...mapSupabasePaymentToPayment(allocation.payments),
+      invoiceId,
+      amount: Number(allocation.amount)
+    }));
+
+    return [...(payments?.map(mapSupabasePaymentToPayment) || []), ...allocatedPayments]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   }
 
   // Get a specific payment
@@ -127,12 +578,269 @@ export class PaymentService {
     return payment ? mapSupabasePaymentToPayment(payment) : null;
   }
 
-  // Update invoice payment status and amounts after payment
-  private async updateInvoicePaymentStatus(invoiceId: string): Promise<void> {
+  // Refund all or part of a payment: reverse it in the ledger, reopen the invoice balance and issue a refund receipt.
+  // The refund is saved as pending before any money goes back through a gateway, then completed with the payment,
+  // batch allocation and ledger changes in one transaction by complete_payment_refund
+  async refundPayment(request: CreateRefundRequest): Promise<RefundResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const payment = await this.getPayment(request.paymentId);
+      if (!payment) {
+        throw new Error(`Payment with id ${request.paymentId} not found`);
+      }
+      this.validateRefund(payment, request);
+      await periodLockService.assertPeriodOpen('payment', [request.refundDate]);
+
+      const amount = roundCurrency(request.amount);
+      const plan: RefundPlan = payment.invoiceId
+        ? { fromCredit: 0, allocationReductions: [{ invoiceId: payment.invoiceId, amount }] }
+        : await this.planBatchPaymentRefund(payment.id, amount);
+
+      const { data: pendingRefund, error: refundError } = await supabase
+        .from('payment_refunds')
+        .insert({
+          user_id: user.id,
+          payment_id: payment.id,
+          amount,
+          refund_date: request.refundDate,
+          refund_method: request.refundMethod || payment.paymentMethod,
+          reason: request.reason.trim(),
+          status: 'pending'
+        })
+        .select()
+        .single();
+
+      if (refundError) throw refundError;
+
+      const refund = mapSupabaseRefundToRefund(pendingRefund);
+      const journalEntry = await this.prepareRefundJournalEntry(user.id, refund, payment, plan.fromCredit);
+
+      // Online payments go back to the card first; a refund the gateway declines is kept as failed
+      if (payment.gateway && payment.gatewayPaymentId) {
+        const gatewayRefund = await getPaymentGateway(payment.gateway).refund({
+          paymentReference: payment.gatewayPaymentId,
+          amount,
+          reason: refund.reason
+        }).catch(async (gatewayError) => {
+          await this.markRefundFailed(refund.id);
+          throw gatewayError;
+        });
+        if (gatewayRefund.status === 'failed') {
+          await this.markRefundFailed(refund.id);
+          throw new Error('The payment gateway declined the refund');
+        }
+
+        const { error: gatewayIdError } = await supabase
+          .from('payment_refunds')
+          .update({ gateway_refund_id: gatewayRefund.id })
+          .eq('id', refund.id);
+
+        if (gatewayIdError) {
+          console.error('Error saving gateway refund id:', gatewayIdError);
+        }
+        refund.gatewayRefundId = gatewayRefund.id;
+      }
+
+      const entryNumber = journalEntry ? await supabaseDataService.generateJournalEntryNumber(user.id) : null;
+      const { data: journalEntryId, error: completeError } = await supabase.rpc('complete_payment_refund', {
+        p_refund_id: refund.id,
+        p_from_credit: plan.fromCredit,
+        // Single-invoice payments have no allocations; their invoice balance comes from amount_refunded
+        p_allocation_reductions: payment.invoiceId
+          ? []
+          : plan.allocationReductions.map(reduction => ({ invoice_id: reduction.invoiceId, amount: reduction.amount })),
+        p_entry_number: entryNumber,
+        p_journal_amount: journalEntry?.amount ?? null,
+        p_journal_description: journalEntry?.description ?? null,
+        p_journal_lines: journalEntry?.lines ?? null
+      });
+
+      if (completeError) {
+        // Money that went back through a gateway keeps its pending refund so it can be reconciled
+        if (!refund.gatewayRefundId) {
+          await supabase.from('payment_refunds').delete().eq('id', refund.id);
+        }
+        throw completeError;
+      }
+
+      for (const { invoiceId } of plan.allocationReductions) {
+        await this.updateInvoicePaymentStatus(invoiceId);
+      }
+
+      const refundedPayment = await this.getPayment(payment.id);
+      const completedRefund: PaymentRefund = { ...refund, status: 'completed', journalEntryId: journalEntryId || null };
+      const receipt = await this.generateRefundReceipt(refundedPayment!, completedRefund);
+
+      return { refund: completedRefund, payment: refundedPayment!, receipt };
+    } catch (error) {
+      console.error('Error refunding payment:', error);
+      throw error;
+    }
+  }
+
+  private async markRefundFailed(refundId: string): Promise<void> {
+    const { error } = await supabase
+      .from('payment_refunds')
+      .update({ status: 'failed' })
+      .eq('id', refundId);
+
+    if (error) {
+      console.error('Error marking refund as failed:', error);
+    }
+  }
+
+  async getRefunds(paymentId: string): Promise<PaymentRefund[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: refunds, error } = await supabase
+      .from('payment_refunds')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .eq('user_id', user.id)
+      .order('refund_date', { ascending: false });
+
+    if (error) throw error;
+
+    return (refunds || []).map(mapSupabaseRefundToRefund);
+  }
+
+  getRefundableAmount(payment: Pick<Payment, 'amount' | 'amountRefunded'>): number {
+    return roundCurrency(payment.amount - (payment.amountRefunded || 0));
+  }
+
+  validateRefund(payment: Pick<Payment, 'amount' | 'amountRefunded' | 'status'>, request: Pick<CreateRefundRequest, 'amount' | 'reason'>): void {
+    if (payment.status !== 'completed') {
+      throw new Error(`Only completed payments can be refunded, this payment is ${payment.status}`);
+    }
+    if (!request.reason.trim()) {
+      throw new Error('A reason is required for the refund');
+    }
+    if (roundCurrency(request.amount) <= 0) {
+      throw new Error('Refund amount must be greater than 0');
+    }
+
+    const refundable = this.getRefundableAmount(payment);
+    if (roundCurrency(request.amount) > refundable) {
+      throw new Error(`Refund amount exceeds the ${refundable.toFixed(2)} left on this payment`);
+    }
+  }
+
+  // Take a batch refund from the unapplied credit first, then from the invoices allocated last
+  planBatchRefund(
+    amount: number,
+    availableCredit: number,
+    allocations: Array<{ invoiceId: string; amount: number; dueDate: string }>
+  ): RefundPlan {
+    let remaining = roundCurrency(amount);
+    const fromCredit = roundCurrency(Math.min(remaining, Math.max(0, availableCredit)));
+    remaining = roundCurrency(remaining - fromCredit);
+
+    const allocationReductions: RefundPlan['allocationReductions'] = [];
+    const latestFirst = [...allocations].sort((a, b) => b.dueDate.localeCompare(a.dueDate));
+
+    for (const allocation of latestFirst) {
+      if (remaining <= 0) break;
+      const reduction = roundCurrency(Math.min(remaining, allocation.amount));
+      allocationReductions.push({ invoiceId: allocation.invoiceId, amount: reduction });
+      remaining = roundCurrency(remaining - reduction);
+    }
+
+    if (remaining > 0) {
+      throw new Error('Refund is more than is left on this payment');
+    }
+
+    return { fromCredit, allocationReductions };
+  }
+
+  // Plan a batch payment refund against its current credit and allocations; complete_payment_refund applies it
+  private async planBatchPaymentRefund(paymentId: string, amount: number): Promise<RefundPlan> {
+    const { data: allocations, error: allocationsError } = await supabase
+      .from('payment_allocations')
+      .select('invoice_id, amount, invoices(due_date)')
+      .eq('payment_id', paymentId);
+
+    if (allocationsError) throw allocationsError;
+
+    const { data: credits, error: creditsError } = await supabase
+      .from('customer_credits')
+      .select('amount, amount_applied')
+      .eq('payment_id', paymentId);
+
+    if (creditsError) throw creditsError;
+
+    const credit = credits?.[0];
+    return this.planBatchRefund(
+      amount,
+      credit ? Number(credit.amount) - Number(credit.amount_applied || 0) : 0,
+      (allocations || []).map(allocation => ({
+        invoiceId: allocation.invoice_id,
+        amount: Number(allocation.amount),
+        dueDate: allocation.invoices?.due_date || ''
+      }))
+    );
+  }
+
+  // Money going back out: Dr Accounts Receivable (Customer Credits for unapplied credit), Cr the bank or cash account
+  // it was paid into. Returns null when an account is missing from the chart of accounts
+  buildRefundJournalLines(
+    amount: number,
+    refundMethod: Payment['paymentMethod'],
+    description: string,
+    accounts: Partial<Record<PostingRole, string>>,
+    fromCredit: number = 0
+  ): { account_id: string; description: string; debit_amount: number; credit_amount: number; line_order: number }[] | null {
+    const receivablesAccountId = accounts.receivables;
+    const creditsAccountId = accounts.customer_credits;
+    const fundsAccountId = accounts[refundMethod === 'cash' ? 'cash' : 'bank'];
+    const fromReceivables = roundCurrency(amount - fromCredit);
+
+    if (!fundsAccountId || amount <= 0 || (fromReceivables > 0 && !receivablesAccountId) || (fromCredit > 0 && !creditsAccountId)) {
+      return null;
+    }
+
+    const lines: PostingJournalLine[] = [];
+    if (fromReceivables > 0) {
+      lines.push({ account_id: receivablesAccountId, description, debit_amount: fromReceivables, credit_amount: 0, line_order: lines.length + 1 });
+    }
+    if (fromCredit > 0) {
+      lines.push({ account_id: creditsAccountId, description, debit_amount: fromCredit, credit_amount: 0, line_order: lines.length + 1 });
+    }
+    lines.push({ account_id: fundsAccountId, description, debit_amount: 0, credit_amount: amount, line_order: lines.length + 1 });
+
+    return lines;
+  }
+
+  // Worked out before the refund is completed so the journal entry is written in the same transaction
+  private async prepareRefundJournalEntry(
+    userId: string,
+    refund: PaymentRefund,
+    payment: Payment,
+    fromCredit: number
+  ): Promise<RefundJournalEntry | null> {
+    const accounts = await postingService.getPostingAccounts(userId);
+
+    // The ledger is kept in the base currency, at the rate locked on the original payment
+    const baseAmount = roundCurrency(refund.amount * (payment.exchangeRate ?? 1));
+    const baseFromCredit = roundCurrency(fromCredit * (payment.exchangeRate ?? 1));
+    const description = `Refund of payment${payment.referenceNumber ? ` ${payment.referenceNumber}` : ''}: ${refund.reason}`;
+    const lines = this.buildRefundJournalLines(baseAmount, refund.refundMethod, description, accounts, baseFromCredit);
+    if (!lines) {
+      console.warn(`Chart of accounts incomplete, refund ${refund.id} was not posted to the ledger`);
+      return null;
+    }
+
+    return { amount: baseAmount, description, lines };
+  }
+
+  // Update invoice payment status and amounts after a payment or credit note application
+  async updateInvoicePaymentStatus(invoiceId: string): Promise<void> {
     // Get current invoice
     const { data: invoice, error: invoiceError } = await supabase
       .from('invoices')
-      .select('total')
+      .select('total, total_credited')
       .eq('id', invoiceId)
       .single();
 
@@ -141,20 +849,31 @@ export class PaymentService {
     // Calculate total payments for this invoice
     const { data: payments, error: paymentsError } = await supabase
       .from('payments')
-      .select('amount')
+      .select('amount, amount_refunded')
       .eq('invoice_id', invoiceId)
       .eq('status', 'completed');
 
     if (paymentsError) throw paymentsError;
 
-    const totalPaid = payments?.reduce((sum, payment) => sum + payment.amount, 0) || 0;
-    const balanceDue = invoice.total - totalPaid;
+    const { data: allocations, error: allocationsError } = await supabase
+      .from('payment_allocations')
+      .select('amount, payments!inner(status)')
+      .eq('invoice_id', invoiceId)
+      .eq('payments.status', 'completed');
 
-    // Determine payment status
+    if (allocationsError) throw allocationsError;
+
+    const totalPaid = roundCurrency(
+      (payments?.reduce((sum, payment) => sum + payment.amount - (payment.amount_refunded || 0), 0) || 0) +
+      (allocations?.reduce((sum, allocation) => sum + Number(allocation.amount), 0) || 0)
+    );
+    const totalCredited = invoice.total_credited || 0;
+
+    // Determine payment status - applied credits settle the balance like payments
     let paymentStatus = 'unpaid';
-    if (totalPaid >= invoice.total) {
+    if (totalPaid + totalCredited >= invoice.total) {
       paymentStatus = 'paid';
-    } else if (totalPaid > 0) {
+    } else if (totalPaid + totalCredited > 0) {
       paymentStatus = 'partially_paid';
     }
 
@@ -169,6 +888,12 @@ export class PaymentService {
       .eq('id', invoiceId);
 
     if (updateError) throw updateError;
+
+    // A draft invoice that takes a payment is now sent or paid, so it needs its receivable posted
+    await postToLedger(`invoice ${invoiceId}`, async () => {
+      const updatedInvoice = await invoiceService.getInvoice(invoiceId);
+      if (updatedInvoice) await postingService.postInvoice(updatedInvoice);
+    });
   }
 
   // Generate receipt for a payment
@@ -225,6 +950,131 @@ export class PaymentService {
     return mapSupabaseReceiptToReceipt(receipt);
   }
 
+  // One receipt for a batch payment, listing every invoice it settled
+  private async generateBatchReceipt(
+    payment: Payment,
+    customerId: string,
+    allocations: PaymentAllocation[],
+    unappliedAmount: number
+  ): Promise<Receipt> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', customerId)
+      .single();
+
+    if (customerError) throw customerError;
+
+    let firstInvoice = null;
+    if (allocations.length > 0) {
+      const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', allocations[0].invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+      firstInvoice = invoice;
+    }
+
+    const receiptNumber = await this.generateReceiptNumber();
+
+    const receiptData = {
+      payment,
+      invoice: firstInvoice,
+      customer,
+      business: null, // Will be populated from business profile
+      receiptNumber,
+      paymentDate: payment.paymentDate,
+      amountPaid: payment.amount,
+      paymentMethod: this.formatPaymentMethod(payment.paymentMethod),
+      balanceAfterPayment: roundCurrency(allocations.reduce((sum, allocation) => sum + allocation.remainingBalance, 0)),
+      allocations,
+      unappliedAmount
+    };
+
+    const { data: receipt, error: receiptError } = await supabase
+      .from('receipts')
+      .insert({
+        payment_id: payment.id,
+        receipt_number: receiptNumber,
+        user_id: user.id,
+        receipt_data: receiptData,
+        is_emailed: false
+      })
+      .select()
+      .single();
+
+    if (receiptError) throw receiptError;
+
+    return mapSupabaseReceiptToReceipt(receipt);
+  }
+
+  // Refund receipt, stored against the original payment
+  private async generateRefundReceipt(payment: Payment, refund: PaymentRefund): Promise<Receipt> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    let invoice = null;
+    let customerId = payment.customerId;
+    if (payment.invoiceId) {
+      const { data: invoiceData, error: invoiceError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', payment.invoiceId)
+        .single();
+
+      if (invoiceError) throw invoiceError;
+      invoice = invoiceData;
+      customerId = invoiceData.customer_id;
+    }
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', customerId!)
+      .single();
+
+    if (customerError) throw customerError;
+
+    const receiptNumber = await this.generateReceiptNumber();
+
+    const receiptData = {
+      payment,
+      invoice,
+      customer,
+      business: null, // Will be populated from business profile
+      receiptNumber,
+      paymentDate: refund.refundDate,
+      amountPaid: refund.amount,
+      paymentMethod: this.formatPaymentMethod(refund.refundMethod),
+      balanceAfterPayment: invoice
+        ? roundCurrency(Math.max(0, invoice.total - (invoice.total_paid || 0) - (invoice.total_credited || 0)))
+        : 0,
+      refund
+    };
+
+    const { data: receipt, error: receiptError } = await supabase
+      .from('receipts')
+      .insert({
+        payment_id: payment.id,
+        refund_id: refund.id,
+        receipt_number: receiptNumber,
+        user_id: user.id,
+        receipt_data: receiptData,
+        is_emailed: false
+      })
+      .select()
+      .single();
+
+    if (receiptError) throw receiptError;
+
+    return mapSupabaseReceiptToReceipt(receipt);
+  }
+
   // Generate unique receipt number
   private async generateReceiptNumber(): Promise<string> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -292,6 +1142,7 @@ export class PaymentService {
       .select('*')
       .eq('payment_id', paymentId)
       .eq('user_id', user.id)
+      .is('refund_id', null)
       .single();
 
     if (error) {
@@ -345,8 +1196,9 @@ export class PaymentService {
     // Map to EnhancedInvoice type with payment-specific fields
     const mappedInvoices: EnhancedInvoice[] = (invoices || []).map(invoice => {
       const totalPaid = invoice.total_paid || 0;
+      const totalCredited = invoice.total_credited || 0;
       const total = invoice.total || 0;
-      const balanceDue = Math.max(0, total - totalPaid);
+      const balanceDue = Math.max(0, total - totalPaid - totalCredited);
       
       console.log(`Invoice ${invoice.invoice_number}: total=${total}, totalPaid=${totalPaid}, balanceDue=${balanceDue}`);
       
@@ -382,6 +1234,7 @@ export class PaymentService {
         taxAmount: invoice.tax_amount || 0,
         total: total,
         totalPaid: totalPaid,
+        totalCredited: totalCredited,
         balanceDue: balanceDue,
         currency: invoice.currency || '$', // Add currency field with default
         notes: invoice.notes,
@@ -40,5 +40,23 @@ export const pdfService = {
       console.error('Error generating PDF:', error);
       throw new Error('Failed to generate PDF');
     }
+  },
+
+  // Renders prebuilt document HTML off-screen so it can be captured like an invoice
+  async generatePDFFromHtml(html: string, documentName = 'document'): Promise<ArrayBuffer> {
+    const container = document.createElement('div');
+    container.style.position = 'absolute';
+    container.style.top = '-9999px';
+    container.style.left = '-9999px';
+    container.style.width = '794px'; // A4 width
+    container.style.backgroundColor = '#ffffff';
+    container.innerHTML = html;
+    document.body.appendChild(container);
+
+    try {
+      return await this.generateInvoicePDF(container, documentName);
+    } finally {
+      document.body.removeChild(container);
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format, parseISO } from 'date-fns';
+import { LockedRecordType, PeriodLockSettings, YearEndCloseResult } from '../types/periodLock';
+import { PostingJournalLine } from '../types/posting';
+import { financialReportsService, LedgerAccount, LedgerEntry } from './financialReportsService';
+import { postingService } from './postingService';
+
+const RECORD_LABELS: Record<LockedRecordType, string> = {
+  invoice: 'Invoices',
+  expense: 'Expenses',
+  payment: 'Payments',
+  credit_note: 'Credit notes',
+  journal_entry: 'Journal entries'
+};
+
+// Closing entries post to the template's retained earnings account
+const RETAINED_EARNINGS_ACCOUNT_NUMBER = '3100';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatLockDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export class PeriodLockedError extends Error {
+  public recordType: LockedRecordType;
+  public lockDate: string;
+
+  constructor({ recordType, lockDate }: { recordType: LockedRecordType; lockDate: string }) {
+    super(`${RECORD_LABELS[recordType]} dated on or before ${formatLockDate(lockDate)} are locked. Move the lock date in settings to make changes.`);
+    this.name = 'PeriodLockedError';
+    this.recordType = recordType;
+    this.lockDate = lockDate;
+  }
+}
+
+export const periodLockService = {
+  isDateLocked(date: string | null | undefined, lockDate: string | null): boolean {
+    return !!date && !!lockDate && date.slice(0, 10) <= lockDate;
+  },
+
+  async getSettings(): Promise<PeriodLockSettings> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('period_locks')
+      .select('lock_date')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching period locks:', error);
+      throw error;
+    }
+
+    return { lockDate: data?.lock_date || null };
+  },
+
+  async saveSettings(settings: PeriodLockSettings): Promise<PeriodLockSettings> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('period_locks')
+      .upsert(
+        { user_id: user.id, lock_date: settings.lockDate },
+        { onConflict: 'user_id' }
+      )
+      .select('lock_date')
+      .single();
+
+    if (error) {
+      console.error('Error saving period locks:', error);
+      throw error;
+    }
+
+    return { lockDate: data.lock_date };
+  },
+
+  async getLockDate(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) return null;
+    return (await this.getSettings()).lockDate;
+  },
+
+  // Checked before each save for a clear message; a failed lookup stops the save rather than guessing the period is open
+  async assertPeriodOpen(recordType: LockedRecordType, dates: Array<string | null | undefined>): Promise<void> {
+    const lockDate = await this.getLockDate();
+    if (dates.some(date => this.isDateLocked(date, lockDate))) {
+      throw new PeriodLockedError({ recordType, lockDate: lockDate! });
+    }
+  },
+
+  // Zeroes every revenue and expense balance up to the year end against retained earnings
+  buildClosingLines(
+    accounts: LedgerAccount[],
+    entries: LedgerEntry[],
+    yearEndDate: string,
+    retainedEarningsAccountId: string
+  ): { lines: PostingJournalLine[]; netProfit: number; accountsClosed: number } | null {
+    const balances = new Map<string, number>();
+    entries
+      .filter(entry => entry.entryDate <= yearEndDate)
+      .forEach(entry => entry.lines.forEach(line => {
+        balances.set(line.accountId, (balances.get(line.accountId) || 0) + line.debit - line.credit);
+      }));
+
+    const closing = accounts
+      .filter(account => account.accountClass === 'Revenue' || account.accountClass === 'Expense')
+      .map(account => ({ account, balance: roundCurrency(balances.get(account.id) || 0) }))
+      .filter(({ balance }) => balance !== 0);
+
+    if (closing.length === 0) return null;
+
+    const lines: PostingJournalLine[] = closing.map(({ account, balance }, index) => ({
+      account_id: account.id,
+      description: `Close ${account.name}`,
+      debit_amount: balance < 0 ? -balance : 0,
+      credit_amount: balance > 0 ? balance : 0,
+      line_order: index + 1
+    }));
+
+    // Debit-positive total: a profit leaves a credit to carry into retained earnings
+    const netBalance = roundCurrency(closing.reduce((sum, { balance }) => sum + balance, 0));
+    if (netBalance !== 0) {
+      lines.push({
+        account_id: retainedEarningsAccountId,
+        description: netBalance < 0 ? 'Profit for the year' : 'Loss for the year',
+        debit_amount: netBalance > 0 ? netBalance : 0,
+        credit_amount: netBalance < 0 ? -netBalance : 0,
+        line_order: lines.length + 1
+      });
+    }
+
+    return { lines, netProfit: roundCurrency(-netBalance), accountsClosed: closing.length };
+  },
+
+  // Running it again for the same year only closes entries posted since the last close
+  async closeFinancialYear(yearEndDate: string, options: { lockPeriod?: boolean } = {}): Promise<YearEndCloseResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    await this.assertPeriodOpen('journal_entry', [yearEndDate]);
+
+    const { accounts, entries } = await financialReportsService.getLedger(user.id, yearEndDate);
+    const retainedEarnings = accounts.find(account => account.accountNumber === RETAINED_EARNINGS_ACCOUNT_NUMBER);
+    if (!retainedEarnings) {
+      throw new Error(`Add a Retained Earnings account (${RETAINED_EARNINGS_ACCOUNT_NUMBER}) to your chart of accounts before closing the year`);
+    }
+
+    const closing = this.buildClosingLines(accounts, entries, yearEndDate, retainedEarnings.id);
+    if (!closing) {
+      throw new Error(`Revenue and expense accounts are already closed at ${formatLockDate(yearEndDate)}`);
+    }
+
+    const journalEntryId = await postingService.insertEntry(user.id, {
+      referenceType: 'year_end_close',
+      referenceId: null,
+      entryDate: yearEndDate,
+      description: `Year-end close to ${formatLockDate(yearEndDate)}`
+    }, closing.lines);
+
+    if (options.lockPeriod) {
+      const settings = await this.getSettings();
+      if (!settings.lockDate || settings.lockDate < yearEndDate) {
+        await this.saveSettings({ lockDate: yearEndDate });
+      }
+    }
+
+    return { journalEntryId, yearEndDate, netProfit: closing.netProfit, accountsClosed: closing.accountsClosed };
+  }
+};
@@ -0,0 +1,384 @@
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Expense, Invoice } from '@/types';
+import { Payment } from '@/types/payment';
+import {
+  JournalReferenceType,
+  PostedEntry,
+  PostingAccountMapping,
+  PostingDraft,
+  PostingJournalLine,
+  PostingLeg,
+  PostingReferenceType,
+  PostingResult,
+  PostingRole
+} from '../types/posting';
+import { periodLockService } from './periodLockService';
+import { supabaseDataService } from './supabaseDataService';
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Each leg posts to the mapped account, or the account with this number in the NZ template
+export const POSTING_ROLES: Record<PostingRole, { label: string; description: string; defaultAccountNumber: string }> = {
+  receivables: { label: 'Accounts receivable', description: 'Debited when an invoice is sent, credited when it is paid', defaultAccountNumber: '1200' },
+  customer_credits: { label: 'Customer credits', description: 'Overpayments held for customers until applied or refunded', defaultAccountNumber: '2150' },
+  sales: { label: 'Sales revenue', description: 'Invoice totals excluding GST', defaultAccountNumber: '4000' },
+  gst_output: { label: 'GST collected', description: 'GST charged on invoices', defaultAccountNumber: '2200' },
+  bank: { label: 'Bank', description: 'Payments received, and expenses with no account of their own', defaultAccountNumber: '1110' },
+  cash: { label: 'Cash', description: 'Payments received in cash', defaultAccountNumber: '1120' },
+  expense: { label: 'Expenses', description: 'Expense amounts excluding GST', defaultAccountNumber: '6600' },
+  gst_input: { label: 'GST paid', description: 'GST claimable on expenses', defaultAccountNumber: '1300' },
+  fx_gain_loss: { label: 'Foreign exchange gains/losses', description: 'Realised differences when foreign currency invoices are paid', defaultAccountNumber: '4300' },
+};
+
+const POSTED_ENTRY_SELECT = `
+  id,
+  entry_number,
+  entry_date,
+  description,
+  reverses_entry_id,
+  journal_entry_lines (account_id, description, debit_amount, credit_amount, line_order)
+`;
+
+type SupabasePostedEntry = {
+  id: string;
+  entry_number: string;
+  entry_date: string;
+  description: string;
+  reverses_entry_id: string | null;
+  journal_entry_lines: PostingJournalLine[] | null;
+};
+
+const mapSupabasePostedEntry = (entry: SupabasePostedEntry): PostedEntry => ({
+  id: entry.id,
+  entryNumber: entry.entry_number,
+  entryDate: entry.entry_date,
+  description: entry.description,
+  reversesEntryId: entry.reverses_entry_id,
+  lines: (entry.journal_entry_lines || [])
+    .map(line => ({ ...line, debit_amount: Number(line.debit_amount), credit_amount: Number(line.credit_amount) }))
+    .sort((a, b) => a.line_order - b.line_order)
+});
+
+const lineKey = (line: PostingJournalLine) =>
+  `${line.account_id}:${roundCurrency(line.debit_amount).toFixed(2)}:${roundCurrency(line.credit_amount).toFixed(2)}`;
+
+export const postingService = {
+  // Sent invoices: Dr Receivables, Cr Sales, Cr GST collected, in the base currency
+  buildInvoicePosting(invoice: Invoice): PostingDraft | null {
+    if (invoice.status === 'draft') return null;
+
+    const rate = invoice.exchangeRate ?? 1;
+    const total = roundCurrency(invoice.total * rate);
+    const gst = roundCurrency((invoice.taxAmount || 0) * rate);
+    const description = `Invoice ${invoice.invoiceNumber}${invoice.customer?.name ? ` to ${invoice.customer.name}` : ''}`;
+
+    return {
+      referenceType: 'invoice',
+      referenceId: invoice.id,
+      entryDate: invoice.date,
+      description,
+      legs: [
+        { role: 'receivables', description, debit: total, credit: 0 },
+        { role: 'sales', description, debit: 0, credit: roundCurrency(total - gst) },
+        { role: 'gst_output', description, debit: 0, credit: gst }
+      ]
+    };
+  },
+
+  // Payments received: Dr Bank (or Cash), Cr Receivables. Refunds post their own reversing entries.
+  // A batch payment's unapplied overpayment is owed to the customer, so it's credited to Customer credits.
+  buildPaymentPosting(payment: Payment, invoiceNumber?: string): PostingDraft | null {
+    if (payment.status !== 'completed' && payment.status !== 'refunded') return null;
+
+    const rate = payment.exchangeRate ?? 1;
+    const amount = roundCurrency(payment.amount * rate);
+    const applied = payment.allocations
+      ? roundCurrency(payment.allocations.reduce((sum, allocation) => sum + allocation.amountAllocated, 0) * rate)
+      : amount;
+    const description = `Payment received${invoiceNumber ? ` for invoice ${invoiceNumber}` : ''}${payment.referenceNumber ? ` (${payment.referenceNumber})` : ''}`;
+
+    return {
+      referenceType: 'payment',
+      referenceId: payment.id,
+      entryDate: payment.paymentDate,
+      description,
+      legs: [
+        { role: payment.paymentMethod === 'cash' ? 'cash' : 'bank', description, debit: amount, credit: 0 },
+        { role: 'receivables', description, debit: 0, credit: applied },
+        { role: 'customer_credits', description, debit: 0, credit: roundCurrency(amount - applied) }
+      ]
+    };
+  },
+
+  // Expenses: Dr Expenses, Dr GST paid, Cr the account it was paid from (Bank when not recorded)
+  buildExpensePosting(expense: Expense): PostingDraft | null {
+    if (expense.status === 'rejected') return null;
+
+    const amount = roundCurrency(expense.amount);
+    const gst = roundCurrency(expense.taxAmount || 0);
+    const description = `Expense: ${expense.description}${expense.vendorName ? ` (${expense.vendorName})` : ''}`;
+
+    return {
+      referenceType: 'expense',
+      referenceId: expense.id,
+      entryDate: expense.expenseDate,
+      description,
+      legs: [
+        { role: 'expense', description, debit: roundCurrency(amount - gst), credit: 0 },
+        { role: 'gst_input', description, debit: gst, credit: 0 },
+        { role: 'bank', accountId: expense.accountId || undefined, description, debit: 0, credit: amount }
+      ]
+    };
+  },
+
+  // Resolve legs to journal lines, dropping zero legs; null when an account is missing or the posting doesn't balance
+  resolveJournalLines(legs: PostingLeg[], accounts: Partial<Record<PostingRole, string>>): PostingJournalLine[] | null {
+    const lines: PostingJournalLine[] = [];
+    for (const leg of legs) {
+      const debit = roundCurrency(Math.max(0, leg.debit));
+      const credit = roundCurrency(Math.max(0, leg.credit));
+      if (debit === 0 && credit === 0) continue;
+
+      const accountId = leg.accountId || accounts[leg.role];
+      if (!accountId) return null;
+
+      lines.push({
+        account_id: accountId,
+        description: leg.description,
+        debit_amount: debit,
+        credit_amount: credit,
+        line_order: lines.length + 1
+      });
+    }
+
+    return lines.length > 0 && this.isBalanced(lines) ? lines : null;
+  },
+
+  isBalanced(lines: PostingJournalLine[]): boolean {
+    const debits = roundCurrency(lines.reduce((sum, line) => sum + line.debit_amount, 0));
+    const credits = roundCurrency(lines.reduce((sum, line) => sum + line.credit_amount, 0));
+    return debits === credits;
+  },
+
+  buildReversalLines(lines: PostingJournalLine[]): PostingJournalLine[] {
+    return lines.map((line, index) => ({
+      account_id: line.account_id,
+      description: line.description,
+      debit_amount: line.credit_amount,
+      credit_amount: line.debit_amount,
+      line_order: index + 1
+    }));
+  },
+
+  // The entry currently standing for a record: not a reversal and not since reversed
+  findActiveEntry(entries: PostedEntry[]): PostedEntry | null {
+    const reversedIds = new Set(entries.map(entry => entry.reversesEntryId).filter(Boolean));
+    const active = entries.filter(entry => !entry.reversesEntryId && !reversedIds.has(entry.id));
+    return active.length > 0 ? active[active.length - 1] : null;
+  },
+
+  isSamePosting(entry: PostedEntry, entryDate: string, lines: PostingJournalLine[]): boolean {
+    if (entry.entryDate !== entryDate || entry.lines.length !== lines.length) return false;
+    const existing = entry.lines.map(lineKey).sort();
+    const proposed = lines.map(lineKey).sort();
+    return existing.every((key, index) => key === proposed[index]);
+  },
+
+  async getAccountMappings(): Promise<PostingAccountMapping[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('posting_account_mappings')
+      .select('posting_role, account_id')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching posting account mappings:', error);
+      throw error;
+    }
+
+    return (data || []).map(mapping => ({ role: mapping.posting_role as PostingRole, accountId: mapping.account_id }));
+  },
+
+  // Map a posting role to an account, or clear it to fall back to the template account
+  async saveAccountMapping(role: PostingRole, accountId: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = accountId
+      ? await supabase
+          .from('posting_account_mappings')
+          .upsert({ user_id: user.id, posting_role: role, account_id: accountId }, { onConflict: 'user_id,posting_role' })
+      : await supabase
+          .from('posting_account_mappings')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('posting_role', role);
+
+    if (error) {
+      console.error('Error saving posting account mapping:', error);
+      throw error;
+    }
+  },
+
+  async getPostingAccounts(userId: string): Promise<Partial<Record<PostingRole, string>>> {
+    const roles = Object.keys(POSTING_ROLES) as PostingRole[];
+    const [{ data: mappings, error: mappingsError }, { data: accounts, error: accountsError }] = await Promise.all([
+      supabase.from('posting_account_mappings').select('posting_role, account_id').eq('user_id', userId),
+      supabase
+        .from('accounts')
+        .select('id, account_number')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .in('account_number', roles.map(role => POSTING_ROLES[role].defaultAccountNumber))
+    ]);
+
+    if (mappingsError || accountsError) {
+      console.error('Error fetching posting accounts:', mappingsError || accountsError);
+      throw mappingsError || accountsError;
+    }
+
+    const resolved: Partial<Record<PostingRole, string>> = {};
+    for (const role of roles) {
+      const mapped = mappings?.find(mapping => mapping.posting_role === role)?.account_id;
+      const fallback = accounts?.find(account => account.account_number === POSTING_ROLES[role].defaultAccountNumber)?.id;
+      if (mapped || fallback) resolved[role] = mapped || fallback;
+    }
+    return resolved;
+  },
+
+  async getPostedEntries(userId: string, referenceType: PostingReferenceType, referenceId: string): Promise<PostedEntry[]> {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select(POSTED_ENTRY_SELECT)
+      .eq('user_id', userId)
+      .eq('reference_type', referenceType)
+      .eq('reference_id', referenceId)
+      .eq('auto_posted', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching posted journal entries:', error);
+      throw error;
+    }
+
+    return ((data || []) as unknown as SupabasePostedEntry[]).map(mapSupabasePostedEntry);
+  },
+
+  async insertEntry(
+    userId: string,
+    entry: { referenceType: JournalReferenceType; referenceId: string | null; entryDate: string; description: string; reversesEntryId?: string },
+    lines: PostingJournalLine[]
+  ): Promise<string> {
+    await periodLockService.assertPeriodOpen('journal_entry', [entry.entryDate]);
+    const entryNumber = await supabaseDataService.generateJournalEntryNumber(userId);
+
+    const { data: journalEntry, error: entryError } = await supabase
+      .from('journal_entries')
+      .insert({
+        user_id: userId,
+        entry_number: entryNumber,
+        entry_date: entry.entryDate,
+        description: entry.description,
+        reference_type: entry.referenceType,
+        reference_id: entry.referenceId,
+        total_amount: roundCurrency(lines.reduce((sum, line) => sum + line.debit_amount, 0)),
+        status: 'posted',
+        auto_posted: true,
+        reverses_entry_id: entry.reversesEntryId || null
+      })
+      .select()
+      .single();
+
+    if (entryError) {
+      console.error('Error creating journal entry:', entryError);
+      throw entryError;
+    }
+
+    const { error: linesError } = await supabase
+      .from('journal_entry_lines')
+      .insert(lines.map(line => ({ ...line, journal_entry_id: journalEntry.id })));
+
+    if (linesError) {
+      await supabase.from('journal_entries').delete().eq('id', journalEntry.id);
+      console.error('Error creating journal entry lines:', linesError);
+      throw linesError;
+    }
+
+    return journalEntry.id;
+  },
+
+  // Bring the ledger in line with a record: post it, repost it with a reversal when it changed, or reverse it when it no longer posts
+  async syncPosting(referenceType: PostingReferenceType, referenceId: string, draft: PostingDraft | null): Promise<PostingResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const active = this.findActiveEntry(await this.getPostedEntries(user.id, referenceType, referenceId));
+    let lines: PostingJournalLine[] | null = null;
+    if (draft) {
+      lines = this.resolveJournalLines(draft.legs, await this.getPostingAccounts(user.id));
+      if (!lines) {
+        console.warn(`Chart of accounts incomplete, ${referenceType} ${referenceId} was not posted to the ledger`);
+        return { outcome: 'skipped', journalEntryId: active?.id || null, reversalEntryId: null };
+      }
+      if (active && this.isSamePosting(active, draft.entryDate, lines)) {
+        return { outcome: 'unchanged', journalEntryId: active.id, reversalEntryId: null };
+      }
+    }
+
+    let reversalEntryId: string | null = null;
+    if (active) {
+      reversalEntryId = await this.insertEntry(user.id, {
+        referenceType,
+        referenceId,
+        entryDate: active.entryDate, // Same date, so the original period nets to nothing
+        description: `Reversal of ${active.entryNumber}: ${active.description}`,
+        reversesEntryId: active.id
+      }, this.buildReversalLines(active.lines));
+    }
+
+    if (!draft || !lines) {
+      return { outcome: active ? 'reversed' : 'skipped', journalEntryId: null, reversalEntryId };
+    }
+
+    const journalEntryId = await this.insertEntry(user.id, draft, lines);
+    return { outcome: active ? 'reposted' : 'posted', journalEntryId, reversalEntryId };
+  },
+
+  async postInvoice(invoice: Invoice): Promise<PostingResult> {
+    return this.syncPosting('invoice', invoice.id, this.buildInvoicePosting(invoice));
+  },
+
+  async postPayment(payment: Payment, invoiceNumber?: string): Promise<PostingResult> {
+    return this.syncPosting('payment', payment.id, this.buildPaymentPosting(payment, invoiceNumber));
+  },
+
+  async postExpense(expense: Expense): Promise<PostingResult> {
+    return this.syncPosting('expense', expense.id, this.buildExpensePosting(expense));
+  },
+
+  // Reverse whatever a deleted record posted
+  async reversePosting(referenceType: PostingReferenceType, referenceId: string): Promise<PostingResult> {
+    return this.syncPosting(referenceType, referenceId, null);
+  }
+};
+
+// Postings follow the save that triggered them; a failure doesn't undo the save, but the user is told the ledger is behind
+export const postToLedger = async (label: string, post: () => Promise<unknown>): Promise<void> => {
+  try {
+    await post();
+  } catch (error) {
+    console.error(`Error posting ${label} to the ledger:`, error);
+    toast.error(`Saved, but couldn't post ${label} to the ledger`, {
+      description: (error as { message?: string } | null)?.message || 'Check the chart of accounts and lock dates, then save it again.'
+    });
+  }
+};
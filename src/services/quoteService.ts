@@ -0,0 +1,427 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  AdditionalCharge,
+  BusinessProfile,
+  Invoice,
+  LineItem,
+  SupabaseBusinessProfile,
+  SupabaseCustomer
+} from '@/types';
+import { InvoiceTemplateId } from '@/components/invoice/templates/InvoiceTemplates';
+import {
+  CreateQuoteRequest,
+  Quote,
+  QuoteResponse,
+  QuoteStatus,
+  SharedQuote,
+  SupabaseQuote
+} from '../types/quote';
+
+const QUOTE_NUMBER_PREFIX = 'QT-';
+const DEFAULT_INVOICE_DUE_DAYS = 30;
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const todayString = (): string => format(new Date(), 'yyyy-MM-dd');
+
+const mapSupabaseQuoteToQuote = (
+  quote: SupabaseQuote & { customers?: Partial<SupabaseCustomer> | null }
+): Quote => {
+  const mapped: Quote = {
+    id: quote.id,
+    quoteNumber: quote.quote_number,
+    customerId: quote.customer_id,
+    customer: quote.customers ? {
+      id: quote.customer_id,
+      name: quote.customers.name || '',
+      email: quote.customers.email || '',
+      address: quote.customers.address ?? null,
+      city: quote.customers.city ?? null,
+      state: quote.customers.state ?? null,
+      zip: quote.customers.zip ?? null,
+      country: quote.customers.country || ''
+    } : undefined,
+    date: quote.date,
+    expiryDate: quote.expiry_date,
+    items: (quote.items as unknown as LineItem[]) || [],
+    subtotal: Number(quote.subtotal),
+    taxAmount: Number(quote.tax_amount),
+    discount: quote.discount,
+    additionalChargesList: (quote.additional_charges_list as unknown as AdditionalCharge[]) || [],
+    additionalChargesTotal: Number(quote.additional_charges_total || 0),
+    total: Number(quote.total),
+    status: quote.status,
+    notes: quote.notes,
+    terms: quote.terms,
+    currency: quote.currency,
+    templateName: (quote.template_name || 'classic') as InvoiceTemplateId,
+    shareToken: quote.share_token,
+    respondedAt: quote.responded_at,
+    respondedBy: quote.responded_by,
+    responseNote: quote.response_note,
+    convertedInvoiceId: quote.converted_invoice_id,
+    userId: quote.user_id,
+    createdAt: quote.created_at,
+    updatedAt: quote.updated_at
+  };
+
+  return { ...mapped, status: quoteService.getEffectiveStatus(mapped) };
+};
+
+const mapQuoteToSupabaseQuote = (quote: Partial<CreateQuoteRequest>) => {
+  const row: Partial<Omit<SupabaseQuote, 'id' | 'user_id' | 'quote_number' | 'share_token' | 'created_at' | 'updated_at'>> = {};
+
+  if (quote.customerId !== undefined) row.customer_id = quote.customerId;
+  if (quote.date !== undefined) row.date = quote.date;
+  if (quote.expiryDate !== undefined) row.expiry_date = quote.expiryDate;
+  if (quote.items !== undefined) row.items = quote.items as unknown as Json;
+  if (quote.subtotal !== undefined) row.subtotal = quote.subtotal;
+  if (quote.taxAmount !== undefined) row.tax_amount = quote.taxAmount;
+  if (quote.discount !== undefined) row.discount = quote.discount;
+  if (quote.additionalChargesList !== undefined) row.additional_charges_list = quote.additionalChargesList as unknown as Json;
+  if (quote.additionalChargesTotal !== undefined) row.additional_charges_total = quote.additionalChargesTotal;
+  if (quote.total !== undefined) row.total = quote.total;
+  if (quote.notes !== undefined) row.notes = quote.notes;
+  if (quote.terms !== undefined) row.terms = quote.terms;
+  if (quote.currency !== undefined) row.currency = quote.currency;
+  if (quote.templateName !== undefined) row.template_name = quote.templateName;
+
+  return row;
+};
+
+const mapSharedBusinessProfile = (profile: Partial<SupabaseBusinessProfile> | null): BusinessProfile | null => {
+  if (!profile) return null;
+
+  return {
+    id: profile.id || '',
+    name: profile.name || '',
+    email: profile.email || '',
+    phone: profile.phone ?? null,
+    address: profile.address ?? null,
+    city: profile.city ?? null,
+    state: profile.state ?? null,
+    zip: profile.zip ?? null,
+    country: profile.country || '',
+    taxId: profile.tax_id ?? null,
+    logoUrl: profile.logo_url ?? null,
+    website: profile.website ?? null,
+    bankInfo: profile.bank_info ?? null,
+    theme: profile.theme ?? null
+  };
+};
+
+const generateQuoteNumber = async (userId: string): Promise<string> => {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('quote_number')
+    .eq('user_id', userId)
+    .like('quote_number', `${QUOTE_NUMBER_PREFIX}%`)
+    .order('quote_number', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching latest quote number:', error);
+    throw error;
+  }
+
+  const lastNumber = data && data.length > 0
+    ? parseInt(data[0].quote_number.replace(QUOTE_NUMBER_PREFIX, ''), 10) || 0
+    : 0;
+
+  return `${QUOTE_NUMBER_PREFIX}${String(lastNumber + 1).padStart(4, '0')}`;
+};
+
+export const quoteService = {
+  async getQuotes(): Promise<Quote[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*, customers(*)')
+      .eq('user_id', user.id)
+      .order('date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching quotes:', error);
+      throw error;
+    }
+
+    return (data || []).map(quote => mapSupabaseQuoteToQuote(quote as SupabaseQuote));
+  },
+
+  async getQuote(id: string): Promise<Quote | null> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*, customers(*)')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error('Error fetching quote:', error);
+      throw error;
+    }
+
+    return mapSupabaseQuoteToQuote(data as SupabaseQuote);
+  },
+
+  async createQuote(quote: CreateQuoteRequest): Promise<Quote> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    quoteService.validateQuote(quote);
+
+    const quoteNumber = await generateQuoteNumber(user.id);
+
+    const { data, error } = await supabase
+      .from('quotes')
+      .insert({
+        ...mapQuoteToSupabaseQuote(quote),
+        user_id: user.id,
+        quote_number: quoteNumber,
+        currency: quote.currency,
+        date: quote.date,
+        expiry_date: quote.expiryDate,
+        status: 'draft'
+      })
+      .select('*, customers(*)')
+      .single();
+
+    if (error) {
+      console.error('Error creating quote:', error);
+      throw error;
+    }
+
+    return mapSupabaseQuoteToQuote(data as SupabaseQuote);
+  },
+
+  async updateQuote(id: string, updates: Partial<CreateQuoteRequest>): Promise<Quote> {
+    const existing = await quoteService.getQuote(id);
+    if (!existing) {
+      throw new Error('Quote not found');
+    }
+
+    if (!quoteService.canEdit(existing)) {
+      throw new Error(`A quote that is ${existing.status} can no longer be edited`);
+    }
+
+    quoteService.validateQuote({ ...existing, ...updates });
+
+    const { data, error } = await supabase
+      .from('quotes')
+      .update(mapQuoteToSupabaseQuote(updates))
+      .eq('id', id)
+      .select('*, customers(*)')
+      .single();
+
+    if (error) {
+      console.error('Error updating quote:', error);
+      throw error;
+    }
+
+    return mapSupabaseQuoteToQuote(data as SupabaseQuote);
+  },
+
+  async deleteQuote(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('quotes')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting quote:', error);
+      throw error;
+    }
+  },
+
+  async updateQuoteStatus(id: string, status: QuoteStatus): Promise<Quote> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .update({ status })
+      .eq('id', id)
+      .select('*, customers(*)')
+      .single();
+
+    if (error) {
+      console.error('Error updating quote status:', error);
+      throw error;
+    }
+
+    return mapSupabaseQuoteToQuote(data as SupabaseQuote);
+  },
+
+  async markConverted(id: string, invoiceId: string): Promise<Quote> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .update({ converted_invoice_id: invoiceId })
+      .eq('id', id)
+      .select('*, customers(*)')
+      .single();
+
+    if (error) {
+      console.error('Error linking quote to invoice:', error);
+      throw error;
+    }
+
+    return mapSupabaseQuoteToQuote(data as SupabaseQuote);
+  },
+
+  // Public quote page: anonymous access through the share token
+  async getSharedQuoteByToken(shareToken: string): Promise<SharedQuote | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_shared_quote_by_token', {
+        token: shareToken
+      });
+
+      if (error) {
+        console.error('Error fetching shared quote by token:', error);
+        return null;
+      }
+
+      const shared = data && data.length > 0 ? data[0] : null;
+      if (!shared?.quote) {
+        return null;
+      }
+
+      const quote = mapSupabaseQuoteToQuote({
+        ...(shared.quote as unknown as SupabaseQuote),
+        customers: shared.customer as unknown as Partial<SupabaseCustomer> | null
+      });
+
+      return {
+        quote,
+        businessProfile: mapSharedBusinessProfile(shared.business_profile as unknown as Partial<SupabaseBusinessProfile> | null)
+      };
+    } catch (error) {
+      console.error('Error in getSharedQuoteByToken:', error);
+      return null;
+    }
+  },
+
+  async respondToQuote(shareToken: string, response: QuoteResponse, name: string, note?: string): Promise<QuoteStatus> {
+    if (!name || name.trim().length === 0) {
+      throw new Error('Please enter your name');
+    }
+
+    const { data, error } = await supabase.rpc('respond_to_shared_quote', {
+      token: shareToken,
+      response,
+      responder_name: name.trim(),
+      note: note?.trim() || undefined
+    });
+
+    if (error) {
+      console.error('Error responding to quote:', error);
+      throw new Error(error.message || 'Failed to respond to quote');
+    }
+
+    return data as QuoteStatus;
+  },
+
+  getShareUrl(quote: Pick<Quote, 'shareToken'>): string {
+    return `${window.location.origin}/shared/quote/${quote.shareToken}`;
+  },
+
+  // Sent quotes past their expiry date are reported as expired without a write
+  getEffectiveStatus(quote: Pick<Quote, 'status' | 'expiryDate'>, asOf: string = todayString()): QuoteStatus {
+    if (quote.status === 'sent' && quote.expiryDate < asOf) {
+      return 'expired';
+    }
+    return quote.status;
+  },
+
+  canEdit(quote: Pick<Quote, 'status' | 'convertedInvoiceId'>): boolean {
+    return (quote.status === 'draft' || quote.status === 'sent') && !quote.convertedInvoiceId;
+  },
+
+  canConvert(quote: Pick<Quote, 'status' | 'convertedInvoiceId'>): boolean {
+    return !quote.convertedInvoiceId && quote.status !== 'declined';
+  },
+
+  calculateQuoteTotals(
+    items: LineItem[],
+    taxRate: number,
+    additionalChargesList: AdditionalCharge[] = [],
+    discount = 0
+  ): { subtotal: number; taxAmount: number; additionalChargesTotal: number; total: number } {
+    const subtotal = roundCurrency(items.reduce((sum, item) => sum + (Number(item.total) || 0), 0));
+    const taxAmount = roundCurrency(taxRate > 0 ? (subtotal * taxRate) / 100 : 0);
+    const additionalChargesTotal = roundCurrency(additionalChargesList.reduce((total, charge) => {
+      if (!charge.isActive) return total;
+      if (charge.calculationType === 'percentage') {
+        return total + (subtotal * charge.amount) / 100;
+      }
+      return total + charge.amount;
+    }, 0));
+
+    return {
+      subtotal,
+      taxAmount,
+      additionalChargesTotal,
+      total: roundCurrency(subtotal + taxAmount + additionalChargesTotal - (discount || 0))
+    };
+  },
+
+  // Build the invoice payload handed to SOLIDDataManager.createInvoice
+  buildInvoiceFromQuote(
+    quote: Quote,
+    invoiceNumber: string,
+    invoiceDate: string = todayString(),
+    dueInDays: number = DEFAULT_INVOICE_DUE_DAYS
+  ): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      invoiceNumber,
+      customerId: quote.customerId,
+      date: invoiceDate,
+      dueDate: format(addDays(parseISO(invoiceDate), dueInDays), 'yyyy-MM-dd'),
+      items: quote.items.map(({ id, invoiceId, createdAt, updatedAt, ...item }) => ({ ...item, id: undefined })) as unknown as Invoice['items'],
+      subtotal: quote.subtotal,
+      taxAmount: quote.taxAmount,
+      discount: quote.discount ?? null,
+      additionalCharges: quote.additionalChargesTotal ?? 0,
+      additionalChargesList: quote.additionalChargesList,
+      additionalChargesTotal: quote.additionalChargesTotal,
+      total: quote.total,
+      status: 'draft',
+      notes: quote.notes ?? null,
+      terms: quote.terms ?? null,
+      currency: quote.currency,
+      templateName: quote.templateName
+    };
+  },
+
+  validateQuote(quote: Partial<CreateQuoteRequest>): void {
+    if (!quote.customerId) {
+      throw new Error('Customer is required');
+    }
+
+    if (!quote.items || quote.items.length === 0) {
+      throw new Error('A quote must have at least one line item');
+    }
+
+    if (quote.items.some(item => !item.description || item.description.trim().length === 0)) {
+      throw new Error('Every line item needs a description');
+    }
+
+    if (!quote.date || !quote.expiryDate) {
+      throw new Error('Quote date and expiry date are required');
+    }
+
+    if (quote.expiryDate < quote.date) {
+      throw new Error('Expiry date must be on or after the quote date');
+    }
+
+    if ((quote.total ?? 0) < 0) {
+      throw new Error('Quote total cannot be negative');
+    }
+  }
+};
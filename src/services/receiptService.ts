@@ -131,6 +131,9 @@ export class ReceiptService {
    */
   generateReceiptHTML(receiptData: ReceiptData): string {
     const { business, customer, payment, invoice } = receiptData;
+    const currency = invoice?.currency || '';
+    const { refund } = receiptData;
+    const title = refund ? 'Refund Receipt' : 'Payment Receipt';
     
     return `
       <!DOCTYPE html>
@@ -138,7 +141,7 @@ export class ReceiptService {
       <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Payment Receipt - ${receiptData.receiptNumber}</title>
+        <title>${title} - ${receiptData.receiptNumber}</title>
         <style>
           body {
             font-family: 'Arial', sans-serif;
@@ -267,7 +270,7 @@ export class ReceiptService {
         <div class="receipt-container">
           <!-- Header -->
           <div class="receipt-header">
-            <h1>Payment Receipt</h1>
+            <h1>${title}</h1>
             <p>Receipt #${receiptData.receiptNumber}</p>
           </div>
 
@@ -326,8 +329,8 @@ export class ReceiptService {
               <div class="section-title">Payment Details</div>
               <div class="info-grid">
                 <div class="info-item">
-                  <div class="info-label">Invoice Number</div>
-                  <div class="info-value">${invoice.invoiceNumber}</div>
+                  <div class="info-label">${receiptData.allocations ? 'Invoices' : 'Invoice Number'}</div>
+                  <div class="info-value">${receiptData.allocations ? receiptData.allocations.map(allocation => allocation.invoiceNumber).join(', ') : invoice?.invoiceNumber || 'Multiple invoices'}</div>
                 </div>
                 <div class="info-item">
                   <div class="info-label">Payment Date</div>
@@ -343,13 +346,23 @@ export class ReceiptService {
                     <div class="info-value">${payment.referenceNumber}</div>
                   </div>
                 ` : ''}
+                ${refund ? `
+                  <div class="info-item">
+                    <div class="info-label">Original Payment</div>
+                    <div class="info-value">${currency}${payment.amount.toFixed(2)} on ${new Date(payment.paymentDate).toLocaleDateString()}</div>
+                  </div>
+                  <div class="info-item">
+                    <div class="info-label">Reason</div>
+                    <div class="info-value">${refund.reason}</div>
+                  </div>
+                ` : ''}
               </div>
             </div>
 
             <!-- Payment Amount -->
             <div class="payment-amount">
-              <div class="amount">${invoice.currency}${receiptData.amountPaid.toFixed(2)}</div>
-              <div class="label">Amount Paid</div>
+              <div class="amount">${currency}${receiptData.amountPaid.toFixed(2)}</div>
+              <div class="label">${refund ? 'Amount Refunded' : 'Amount Paid'}</div>
             </div>
 
             <!-- Tax Breakdown -->
@@ -373,6 +386,26 @@ export class ReceiptService {
               </div>
             ` : ''}
 
+            <!-- Batch payment split -->
+            ${receiptData.allocations ? `
+              <div class="receipt-section">
+                <div class="section-title">Allocated To</div>
+                <div class="tax-breakdown">
+                  ${receiptData.allocations.map(allocation => `
+                    <div class="tax-line">
+                      <span>Invoice ${allocation.invoiceNumber} (${currency}${allocation.remainingBalance.toFixed(2)} remaining)</span>
+                      <span>${currency}${allocation.amountAllocated.toFixed(2)}</span>
+                    </div>
+                  `).join('')}
+                  ${receiptData.unappliedAmount ? `
+                    <div class="tax-line">
+                      <span>Held as customer credit</span>
+                      <span>${currency}${receiptData.unappliedAmount.toFixed(2)}</span>
+                    </div>
+                  ` : ''}
+                </div>
+              </div>
+            ` : invoice ? `
             <!-- Balance Information -->
             <div class="receipt-section">
               <div class="section-title">Balance Information</div>
@@ -391,11 +424,12 @@ export class ReceiptService {
                 </div>
               </div>
             </div>
+            ` : ''}
           </div>
 
           <!-- Footer -->
           <div class="footer">
-            <p>Thank you for your payment!</p>
+            <p>${refund ? 'This refund has been returned to you.' : 'Thank you for your payment!'}</p>
             <p>This receipt was generated on ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}</p>
             ${business.website ? `<p>Visit us at ${business.website}</p>` : ''}
           </div>
@@ -429,9 +463,11 @@ export class ReceiptService {
         
         <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
           <p><strong>Receipt Number:</strong> ${receipt.receiptNumber}</p>
-          <p><strong>Payment Amount:</strong> ${receipt.receiptData.invoice.currency}${receipt.receiptData.amountPaid.toFixed(2)}</p>
+          <p><strong>Payment Amount:</strong> ${receipt.receiptData.invoice?.currency || ''}${receipt.receiptData.amountPaid.toFixed(2)}</p>
           <p><strong>Payment Date:</strong> ${new Date(receipt.receiptData.paymentDate).toLocaleDateString()}</p>
-          <p><strong>Invoice Number:</strong> ${receipt.receiptData.invoice.invoiceNumber}</p>
+          ${receipt.receiptData.allocations
+            ? `<p><strong>Invoices:</strong> ${receipt.receiptData.allocations.map(allocation => allocation.invoiceNumber).join(', ')}</p>`
+            : `<p><strong>Invoice Number:</strong> ${receipt.receiptData.invoice?.invoiceNumber || 'Multiple invoices'}</p>`}
         </div>
         
         <p>If you have any questions about this payment, please don't hesitate to contact us.</p>
@@ -0,0 +1,459 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { BusinessProfile, Invoice, InvoiceStatus, SupabaseCustomer } from '@/types';
+import { emailService } from './emailService';
+import { auditService } from './auditService';
+import { createEmailCompatibleInvoiceHtml } from './invoiceTemplateRenderer';
+import {
+  RecurringFrequency,
+  RecurringInvoiceSchedule,
+  RecurringInvoiceTemplate,
+  SupabaseRecurringInvoiceSchedule
+} from '../types/recurringInvoice';
+
+// Safety limit when catching up on schedules that have not run for a long time
+const MAX_CATCH_UP_RUNS = 24;
+
+const mapSupabaseScheduleToSchedule = (
+  schedule: SupabaseRecurringInvoiceSchedule & { customers?: Partial<SupabaseCustomer> | null }
+): RecurringInvoiceSchedule => ({
+  id: schedule.id,
+  name: schedule.name,
+  customerId: schedule.customer_id,
+  customer: schedule.customers ? {
+    id: schedule.customer_id,
+    name: schedule.customers.name,
+    email: schedule.customers.email,
+    address: schedule.customers.address ?? null,
+    city: schedule.customers.city ?? null,
+    state: schedule.customers.state ?? null,
+    zip: schedule.customers.zip ?? null,
+    country: schedule.customers.country
+  } : undefined,
+  templateInvoiceId: schedule.template_invoice_id,
+  template: schedule.template_data as unknown as RecurringInvoiceTemplate,
+  frequency: schedule.frequency,
+  startDate: schedule.start_date,
+  endDate: schedule.end_date,
+  nextRunDate: schedule.next_run_date,
+  lastRunDate: schedule.last_run_date,
+  autoSend: schedule.auto_send,
+  status: schedule.status,
+  occurrencesGenerated: schedule.occurrences_generated || 0,
+  userId: schedule.user_id,
+  createdAt: schedule.created_at,
+  updatedAt: schedule.updated_at,
+});
+
+const mapScheduleToSupabaseSchedule = async (
+  schedule: Omit<RecurringInvoiceSchedule, 'id' | 'createdAt' | 'updatedAt' | 'customer'>
+): Promise<Omit<SupabaseRecurringInvoiceSchedule, 'id' | 'created_at' | 'updated_at'>> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const userId = user?.id || '';
+
+  return {
+    name: schedule.name,
+    customer_id: schedule.customerId,
+    template_invoice_id: schedule.templateInvoiceId || null,
+    template_data: schedule.template as unknown as Json,
+    frequency: schedule.frequency,
+    start_date: schedule.startDate,
+    end_date: schedule.endDate || null,
+    next_run_date: schedule.nextRunDate,
+    last_run_date: schedule.lastRunDate || null,
+    auto_send: schedule.autoSend,
+    status: schedule.status,
+    occurrences_generated: schedule.occurrencesGenerated,
+    user_id: schedule.userId || userId,
+  };
+};
+
+export const recurringInvoiceService = {
+  async getSchedules(): Promise<RecurringInvoiceSchedule[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_invoice_schedules')
+      .select(`
+        *,
+        customers (name, email)
+      `)
+      .eq('user_id', user.id)
+      .order('next_run_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching recurring schedules:', error);
+      throw error;
+    }
+
+    return (data as SupabaseRecurringInvoiceSchedule[]).map(mapSupabaseScheduleToSchedule) || [];
+  },
+
+  async getSchedule(id: string): Promise<RecurringInvoiceSchedule | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_invoice_schedules')
+      .select(`
+        *,
+        customers (*)
+      `)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      console.error('Error fetching recurring schedule:', error);
+      throw error;
+    }
+
+    return data ? mapSupabaseScheduleToSchedule(data as SupabaseRecurringInvoiceSchedule) : null;
+  },
+
+  async createSchedule(
+    schedule: Omit<RecurringInvoiceSchedule, 'id' | 'createdAt' | 'updatedAt' | 'customer'>
+  ): Promise<RecurringInvoiceSchedule> {
+    this.validateSchedule(schedule);
+
+    const supabaseSchedule = await mapScheduleToSupabaseSchedule(schedule);
+
+    const { data, error } = await supabase
+      .from('recurring_invoice_schedules')
+      .insert([supabaseSchedule])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating recurring schedule:', error);
+      throw error;
+    }
+
+    return mapSupabaseScheduleToSchedule(data as SupabaseRecurringInvoiceSchedule);
+  },
+
+  async updateSchedule(
+    id: string,
+    schedule: Partial<Omit<RecurringInvoiceSchedule, 'id' | 'createdAt' | 'updatedAt' | 'customer'>>
+  ): Promise<RecurringInvoiceSchedule> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const existingSchedule = await this.getSchedule(id);
+    if (!existingSchedule) {
+      throw new Error(`Recurring schedule with id ${id} not found`);
+    }
+
+    this.validateSchedule({ ...existingSchedule, ...schedule });
+
+    const updateData: Partial<SupabaseRecurringInvoiceSchedule> = {};
+    if (schedule.name !== undefined) updateData.name = schedule.name;
+    if (schedule.customerId !== undefined) updateData.customer_id = schedule.customerId;
+    if (schedule.template !== undefined) updateData.template_data = schedule.template as unknown as Json;
+    if (schedule.frequency !== undefined) updateData.frequency = schedule.frequency;
+    if (schedule.startDate !== undefined) updateData.start_date = schedule.startDate;
+    if (schedule.endDate !== undefined) updateData.end_date = schedule.endDate;
+    if (schedule.nextRunDate !== undefined) updateData.next_run_date = schedule.nextRunDate;
+    if (schedule.lastRunDate !== undefined) updateData.last_run_date = schedule.lastRunDate;
+    if (schedule.autoSend !== undefined) updateData.auto_send = schedule.autoSend;
+    if (schedule.status !== undefined) updateData.status = schedule.status;
+    if (schedule.occurrencesGenerated !== undefined) updateData.occurrences_generated = schedule.occurrencesGenerated;
+
+    const { data, error } = await supabase
+      .from('recurring_invoice_schedules')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating recurring schedule:', error);
+      throw error;
+    }
+
+    return mapSupabaseScheduleToSchedule(data as SupabaseRecurringInvoiceSchedule);
+  },
+
+  async deleteSchedule(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = await supabase
+      .from('recurring_invoice_schedules')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting recurring schedule:', error);
+      throw error;
+    }
+  },
+
+  async pauseSchedule(id: string): Promise<RecurringInvoiceSchedule> {
+    return this.updateSchedule(id, { status: 'paused' });
+  },
+
+  async resumeSchedule(id: string): Promise<RecurringInvoiceSchedule> {
+    return this.updateSchedule(id, { status: 'active' });
+  },
+
+  // Move the schedule on by one period without generating an invoice
+  async skipNextRun(id: string): Promise<RecurringInvoiceSchedule> {
+    const schedule = await this.getSchedule(id);
+    if (!schedule) {
+      throw new Error(`Recurring schedule with id ${id} not found`);
+    }
+
+    const nextRunDate = this.calculateNextRunDate(schedule.nextRunDate, schedule.frequency, schedule.startDate);
+    return this.updateSchedule(id, {
+      nextRunDate,
+      status: this.isPastEndDate(nextRunDate, schedule.endDate) ? 'completed' : schedule.status
+    });
+  },
+
+  // Advance the schedule past a run before its invoice is created. The update only matches while the schedule
+  // is still where it was read, so when two tabs or devices process the same run only one gets the schedule
+  // back; the other gets null and must not generate the invoice.
+  async claimRun(schedule: RecurringInvoiceSchedule, runDate: string): Promise<RecurringInvoiceSchedule | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const nextRunDate = this.calculateNextRunDate(schedule.nextRunDate, schedule.frequency, schedule.startDate);
+    const { data, error } = await supabase
+      .from('recurring_invoice_schedules')
+      .update({
+        last_run_date: runDate,
+        next_run_date: nextRunDate,
+        occurrences_generated: schedule.occurrencesGenerated + 1,
+        status: this.isPastEndDate(nextRunDate, schedule.endDate) ? 'completed' : schedule.status
+      })
+      .eq('id', schedule.id)
+      .eq('user_id', user.id)
+      .eq('status', schedule.status)
+      .eq('next_run_date', schedule.nextRunDate)
+      .eq('occurrences_generated', schedule.occurrencesGenerated)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error claiming recurring schedule run:', error);
+      throw error;
+    }
+
+    return data ? mapSupabaseScheduleToSchedule(data as SupabaseRecurringInvoiceSchedule) : null;
+  },
+
+  // Hand a claimed run back when its invoice couldn't be created, unless the schedule has moved on since
+  async releaseRun(schedule: RecurringInvoiceSchedule, claimed: RecurringInvoiceSchedule): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = await supabase
+      .from('recurring_invoice_schedules')
+      .update({
+        last_run_date: schedule.lastRunDate || null,
+        next_run_date: schedule.nextRunDate,
+        occurrences_generated: schedule.occurrencesGenerated,
+        status: schedule.status
+      })
+      .eq('id', schedule.id)
+      .eq('user_id', user.id)
+      .eq('next_run_date', claimed.nextRunDate)
+      .eq('occurrences_generated', claimed.occurrencesGenerated);
+
+    if (error) {
+      console.error('Error releasing recurring schedule run:', error);
+      throw error;
+    }
+  },
+
+  // Email a generated invoice to the customer when the schedule is set to auto-send
+  async sendGeneratedInvoice(invoice: Invoice, businessProfile?: BusinessProfile | null): Promise<boolean> {
+    if (!invoice.customer?.email) {
+      console.warn(`Recurring invoice ${invoice.invoiceNumber} has no customer email, leaving it unsent`);
+      return false;
+    }
+
+    const result = await emailService.sendInvoiceEmail({
+      to: invoice.customer.email,
+      invoiceNumber: invoice.invoiceNumber,
+      businessName: businessProfile?.name || 'Your Business',
+      customerName: invoice.customer.name,
+      total: invoice.total,
+      currency: invoice.currency,
+      invoiceHtml: createEmailCompatibleInvoiceHtml(invoice, businessProfile)
+    });
+
+    if (!result.success) {
+      console.error(`Failed to send recurring invoice ${invoice.invoiceNumber}:`, result.error);
+    } else {
+      await auditService.logEvent('invoice', invoice.id, 'send', {
+        label: invoice.invoiceNumber,
+        data: { to: invoice.customer.email, trigger: 'recurring' }
+      });
+    }
+
+    return result.success;
+  },
+
+  // Occurrence n of a schedule, counted from its start date so month-end schedules stay on the last day
+  // of the month (Jan 31, Feb 29, Mar 31) rather than drifting to the shortest month's day
+  getOccurrenceDate(startDate: string, frequency: RecurringFrequency, occurrence: number): string {
+    const date = parseISO(startDate);
+    let next: Date;
+
+    switch (frequency) {
+      case 'weekly':
+        next = addWeeks(date, occurrence);
+        break;
+      case 'fortnightly':
+        next = addWeeks(date, occurrence * 2);
+        break;
+      case 'monthly':
+        next = addMonths(date, occurrence);
+        break;
+      case 'quarterly':
+        next = addMonths(date, occurrence * 3);
+        break;
+      case 'yearly':
+        next = addYears(date, occurrence);
+        break;
+      default:
+        throw new Error(`Unsupported frequency: ${frequency}`);
+    }
+
+    return format(next, 'yyyy-MM-dd');
+  },
+
+  // First occurrence after fromDate; schedules pass their start date so every run stays on the original day
+  calculateNextRunDate(fromDate: string, frequency: RecurringFrequency, startDate: string = fromDate): string {
+    let occurrence = 0;
+    let next = startDate;
+    while (next <= fromDate) {
+      occurrence++;
+      next = this.getOccurrenceDate(startDate, frequency, occurrence);
+    }
+    return next;
+  },
+
+  isPastEndDate(date: string, endDate?: string | null): boolean {
+    return !!endDate && date > endDate;
+  },
+
+  isScheduleDue(schedule: RecurringInvoiceSchedule, asOf: string = format(new Date(), 'yyyy-MM-dd')): boolean {
+    return schedule.status === 'active'
+      && schedule.nextRunDate <= asOf
+      && !this.isPastEndDate(schedule.nextRunDate, schedule.endDate);
+  },
+
+  // Dates of every occurrence that should have been generated up to asOf
+  getDueRunDates(schedule: RecurringInvoiceSchedule, asOf: string = format(new Date(), 'yyyy-MM-dd')): string[] {
+    const runDates: string[] = [];
+    if (schedule.status !== 'active') return runDates;
+
+    let runDate = schedule.nextRunDate;
+    while (runDate <= asOf && !this.isPastEndDate(runDate, schedule.endDate) && runDates.length < MAX_CATCH_UP_RUNS) {
+      runDates.push(runDate);
+      runDate = this.calculateNextRunDate(runDate, schedule.frequency, schedule.startDate);
+    }
+
+    return runDates;
+  },
+
+  // Build a template snapshot from an existing invoice
+  createTemplateFromInvoice(invoice: Invoice): RecurringInvoiceTemplate {
+    const dueInDays = invoice.date && invoice.dueDate
+      ? Math.max(0, differenceInCalendarDays(parseISO(invoice.dueDate), parseISO(invoice.date)))
+      : 0;
+
+    return {
+      items: (invoice.items || []).map(({ id, invoiceId, createdAt, updatedAt, ...item }) => item),
+      subtotal: invoice.subtotal,
+      taxAmount: invoice.taxAmount,
+      discount: invoice.discount ?? null,
+      additionalCharges: invoice.additionalCharges ?? null,
+      additionalChargesList: invoice.additionalChargesList,
+      additionalChargesTotal: invoice.additionalChargesTotal,
+      total: invoice.total,
+      notes: invoice.notes ?? null,
+      terms: invoice.terms ?? null,
+      currency: invoice.currency,
+      templateName: invoice.templateName,
+      dueInDays
+    };
+  },
+
+  // Build the invoice payload handed to SOLIDDataManager.createInvoice
+  buildInvoiceFromSchedule(
+    schedule: RecurringInvoiceSchedule,
+    invoiceNumber: string,
+    runDate: string
+  ): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> {
+    const { template } = schedule;
+    const status: InvoiceStatus = schedule.autoSend ? 'sent' : 'draft';
+    const dueDate = format(addDays(parseISO(runDate), template.dueInDays || 0), 'yyyy-MM-dd');
+
+    return {
+      invoiceNumber,
+      customerId: schedule.customerId,
+      date: runDate,
+      dueDate,
+      items: template.items.map(item => ({ ...item, id: undefined })) as Invoice['items'],
+      subtotal: template.subtotal,
+      taxAmount: template.taxAmount,
+      discount: template.discount,
+      additionalCharges: template.additionalCharges,
+      additionalChargesList: template.additionalChargesList,
+      additionalChargesTotal: template.additionalChargesTotal,
+      total: template.total,
+      status,
+      notes: template.notes,
+      terms: template.terms,
+      currency: template.currency,
+      templateName: template.templateName
+    };
+  },
+
+  validateSchedule(schedule: Partial<RecurringInvoiceSchedule>): void {
+    if (!schedule.name || schedule.name.trim().length === 0) {
+      throw new Error('Schedule name is required');
+    }
+
+    if (!schedule.customerId) {
+      throw new Error('Customer is required');
+    }
+
+    if (!schedule.template || !schedule.template.items || schedule.template.items.length === 0) {
+      throw new Error('Template invoice must have at least one line item');
+    }
+
+    if (!schedule.startDate || !schedule.nextRunDate) {
+      throw new Error('Start date is required');
+    }
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      throw new Error('End date must be after start date');
+    }
+  }
+};
@@ -7,6 +7,8 @@ import {
   Payment, 
   IRDReturnData 
 } from '@/types/payment';
+import { TaxCode, DEFAULT_TAX_CODE } from '@/types';
+import { periodLockService } from './periodLockService';
 
 export class SupabaseDataService {
   /**
@@ -113,11 +115,14 @@ export class SupabaseDataService {
       taxInclusive: invoice.tax_inclusive ?? true,
       paymentStatus: invoice.payment_status as 'unpaid' | 'partial' | 'paid' | 'overdue' | 'written_off',
       balanceDue: invoice.balance_due ?? invoice.total,
+      taxAmount: invoice.tax_amount ?? 0,
+      exchangeRate: invoice.exchange_rate ?? 1,
       taxBreakdown: invoice.tax_breakdown,
       lineItems: invoice.line_items?.map(item => ({
         ...item,
         taxInclusive: item.tax_inclusive ?? true,
-        taxable: item.taxable ?? true
+        taxable: item.taxable ?? true,
+        taxCode: (item.tax_code as TaxCode | null) ?? DEFAULT_TAX_CODE
       })) || []
     }));
   }
@@ -550,6 +555,7 @@ export class SupabaseDataService {
         creditAccountName: creditLine?.accounts?.name || 'Unknown Account',
         creditAmount: creditLine?.credit_amount || 0,
         status: entry.status,
+        autoPosted: entry.auto_posted,
         notes: lines[0]?.description || null,
         createdAt: entry.created_at,
         updatedAt: entry.updated_at,
@@ -558,6 +564,23 @@ export class SupabaseDataService {
     });
   }
 
+  // Numbers restart each year; the last one is found numerically since JE-YYYY-999 sorts above JE-YYYY-1000 as text
+  async generateJournalEntryNumber(userId: string): Promise<string> {
+    const prefix = `JE-${new Date().getFullYear()}-`;
+    // Reserved in the database, so entries posted at the same moment never share a number
+    const { data: nextNumber, error } = await supabase.rpc('next_journal_entry_sequence', {
+      p_user_id: userId,
+      p_prefix: prefix
+    });
+
+    if (error) {
+      console.error('Error reserving journal entry number:', error);
+      throw error;
+    }
+
+    return `${prefix}${String(nextNumber).padStart(3, '0')}`;
+  }
+
   async createJournalEntry(
     userId: string,
     entryData: {
@@ -571,19 +594,8 @@ export class SupabaseDataService {
     }
   ): Promise<any> {
     try {
-      // Generate entry number
-      const { data: existingEntries } = await supabase
-        .from('journal_entries')
-        .select('entry_number')
-        .eq('user_id', userId)
-        .order('entry_number', { ascending: false })
-        .limit(1);
-
-      const currentYear = new Date().getFullYear();
-      const nextNumber = existingEntries && existingEntries.length > 0 
-        ? parseInt(existingEntries[0].entry_number.split('-')[2]) + 1 
-        : 1;
-      const entryNumber = `JE-${currentYear}-${String(nextNumber).padStart(3, '0')}`;
+      await periodLockService.assertPeriodOpen('journal_entry', [entryData.entryDate]);
+      const entryNumber = await this.generateJournalEntryNumber(userId);
 
       // Create journal entry
       const { data: journalEntry, error: entryError } = await supabase
@@ -670,7 +682,23 @@ export class SupabaseDataService {
     }
   }
 
+  private async getJournalEntryDate(entryId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('entry_date')
+      .eq('id', entryId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error fetching journal entry: ${error.message}`);
+    }
+
+    return data?.entry_date || null;
+  }
+
   async updateJournalEntryStatus(entryId: string, status: 'draft' | 'posted' | 'reversed'): Promise<void> {
+    await periodLockService.assertPeriodOpen('journal_entry', [await this.getJournalEntryDate(entryId)]);
+
     const { error } = await supabase
       .from('journal_entries')
       .update({ 
@@ -685,6 +713,8 @@ export class SupabaseDataService {
   }
 
   async deleteJournalEntry(entryId: string): Promise<void> {
+    await periodLockService.assertPeriodOpen('journal_entry', [await this.getJournalEntryDate(entryId)]);
+
     // First delete the lines (due to foreign key constraint)
     const { error: linesError } = await supabase
       .from('journal_entry_lines')
@@ -4,8 +4,12 @@ import {
   SupabaseCustomer, SupabaseInvoice, SupabaseLineItem, SupabaseBusinessProfile, SupabaseItemCategory, SupabaseItem,
   Account, SupabaseAccount, AccountType, InvoiceStatus,
   Expense, ExpenseCategory, SupabaseExpense, SupabaseExpenseCategory, ExpenseStatus, PaymentMethod,
-  SharedInvoice, SupabaseSharedInvoice, InvoiceTemplateName
+  SharedInvoice, SupabaseSharedInvoice, SharedInvoiceAccess, SharedInvoiceAccessStatus,
+  SharedInvoiceView, ShareLinkStatus, InvoiceTemplateName, TaxCode, DEFAULT_TAX_CODE
 } from '@/types';
+import { exchangeRateService } from './exchangeRateService';
+import { periodLockService } from './periodLockService';
+import { postingService, postToLedger } from './postingService';
 
 const mapSupabaseCustomerToCustomer = (customer: SupabaseCustomer): Customer => ({
   id: customer.id,
@@ -67,6 +71,7 @@ const mapSupabaseInvoiceToInvoice = (invoice: SupabaseInvoice | any, items: Supa
     unit: item.unit || 'each',
     rate: item.rate,
     tax: item.tax,
+    taxCode: (item.tax_code as TaxCode | null) || DEFAULT_TAX_CODE,
     total: item.total,
     createdAt: item.created_at,
     updatedAt: item.updated_at
@@ -82,6 +87,7 @@ const mapSupabaseInvoiceToInvoice = (invoice: SupabaseInvoice | any, items: Supa
   notes: invoice.notes || undefined,
   terms: invoice.terms || undefined,
   currency: invoice.currency,
+  exchangeRate: invoice.exchange_rate ?? 1,
   templateName: invoice.template_name || 'classic',
   userId: invoice.user_id,
   createdAt: invoice.created_at,
@@ -109,6 +115,7 @@ const mapInvoiceToSupabaseInvoice = async (invoice: Omit<Invoice, 'id' | 'create
     notes: invoice.notes || null,
     terms: invoice.terms || null,
     currency: invoice.currency,
+    exchange_rate: invoice.exchangeRate ?? 1,
     template_name: invoice.templateName || 'classic',
     user_id: invoice.userId || userId,
     public_viewed_at: invoice.public_viewed_at || null
@@ -138,6 +145,7 @@ const mapSupabaseBusinessProfileToBusinessProfile = (profile: SupabaseBusinessPr
   updatedAt: profile.updated_at,
   invoiceNumberFormat: profile.invoice_number_format,
   invoiceNumberSequence: profile.invoice_number_sequence,
+  baseCurrency: profile.base_currency || 'NZD',
 });
 
 const mapBusinessProfileToSupabaseBusinessProfile = async (
@@ -165,7 +173,8 @@ const mapBusinessProfileToSupabaseBusinessProfile = async (
     theme: profile.theme || null,
     user_id: profile.userId || userId,
     invoice_number_format: profile.invoiceNumberFormat || null,
-    invoice_number_sequence: profile.invoiceNumberSequence ?? null
+    invoice_number_sequence: profile.invoiceNumberSequence ?? null,
+    base_currency: profile.baseCurrency || 'NZD'
   };
 };
 
@@ -197,6 +206,7 @@ const mapSupabaseItemToItem = (supabaseItem: SupabaseItem & { item_categories?:
     salePrice: supabaseItem.sale_price,
     purchasePrice: supabaseItem.purchase_price,
     taxRate: supabaseItem.tax_rate,
+    taxCode: (supabaseItem.tax_code as TaxCode | null) || DEFAULT_TAX_CODE,
     enableSaleInfo: supabaseItem.enable_sale_info,
     enablePurchaseInfo: supabaseItem.enable_purchase_info,
     unit: supabaseItem.unit || 'each',
@@ -221,6 +231,7 @@ const mapItemToSupabaseItem = async (item: Omit<Item, 'id' | 'createdAt' | 'upda
     sale_price: item.salePrice || null,
     purchase_price: item.purchasePrice || null,
     tax_rate: item.taxRate || null,
+    tax_code: item.taxCode || DEFAULT_TAX_CODE,
     enable_sale_info: item.enableSaleInfo,
     enable_purchase_info: item.enablePurchaseInfo,
     unit: item.unit || 'each',
@@ -293,6 +304,7 @@ const mapSupabaseExpenseToExpense = (
   accountId: expense.account_id,
   account: expense.accounts ? mapSupabaseAccountToAccount(expense.accounts) : undefined,
   vendorName: expense.vendor_name,
+  vendorId: expense.vendor_id ?? null,
   receiptUrl: expense.receipt_url,
   expenseDate: expense.expense_date,
   status: expense.status,
@@ -319,6 +331,7 @@ const mapExpenseToSupabaseExpense = async (
     category_id: expense.categoryId || null,
     account_id: expense.accountId || null,
     vendor_name: expense.vendorName || null,
+    vendor_id: expense.vendorId || null,
     receipt_url: expense.receiptUrl || null,
     expense_date: expense.expenseDate,
     status: expense.status,
@@ -537,8 +550,12 @@ export const invoiceService = {
   },
 
   async createInvoice(invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>, lineItems: Omit<LineItem, 'id' | 'invoiceId' | 'createdAt' | 'updatedAt'>[]): Promise<Invoice> {
-    const supabaseInvoice = await mapInvoiceToSupabaseInvoice(invoice);
-    
+    await periodLockService.assertPeriodOpen('invoice', [invoice.date]);
+
+    // Lock the rate to the base currency at the invoice date so later rate changes don't restate it
+    const baseCurrency = await exchangeRateService.getBaseCurrency();
+    const exchangeRate = await exchangeRateService.lockRate(invoice.currency || baseCurrency, baseCurrency, invoice.date);
+    const supabaseInvoice = await mapInvoiceToSupabaseInvoice({ ...invoice, exchangeRate });
     
     const { data: invoiceData, error: invoiceError } = await supabase
       .from('invoices')
@@ -558,6 +575,7 @@ export const invoiceService = {
         unit: item.unit || 'each',
         rate: item.rate,
         tax: item.tax || null,
+        tax_code: item.taxCode || DEFAULT_TAX_CODE,
         total: item.total,
         invoice_id: invoiceData.id
       }));
@@ -572,7 +590,11 @@ export const invoiceService = {
       }
     }
     
-    return this.getInvoice(invoiceData.id) as Promise<Invoice>;
+    const createdInvoice = await this.getInvoice(invoiceData.id);
+    if (createdInvoice) {
+      await postToLedger(`invoice ${createdInvoice.invoiceNumber}`, () => postingService.postInvoice(createdInvoice));
+    }
+    return createdInvoice as Invoice;
   },
 
   async updateInvoice(id: string, invoice: Partial<Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Invoice> {
@@ -582,6 +604,13 @@ export const invoiceService = {
     }
     
     const { items, customer, ...updatableInvoice } = invoice;
+
+    // Moves between sent, paid and overdue don't change the ledger, so only postable edits are held to the lock
+    const ledgerFieldChanged = (['date', 'total', 'subtotal', 'taxAmount', 'currency', 'customerId'] as const)
+      .some(field => updatableInvoice[field] !== undefined && updatableInvoice[field] !== existingInvoice[field]);
+    if (ledgerFieldChanged || (!!updatableInvoice.status && (updatableInvoice.status === 'draft') !== (existingInvoice.status === 'draft'))) {
+      await periodLockService.assertPeriodOpen('invoice', [existingInvoice.date, updatableInvoice.date]);
+    }
     
     const updatedInvoiceFields: Partial<SupabaseInvoice> = {};
     
@@ -602,6 +631,18 @@ export const invoiceService = {
     if (updatableInvoice.currency) updatedInvoiceFields.currency = updatableInvoice.currency;
     if (updatableInvoice.templateName !== undefined) updatedInvoiceFields.template_name = updatableInvoice.templateName;
     if (updatableInvoice.public_viewed_at !== undefined) updatedInvoiceFields.public_viewed_at = updatableInvoice.public_viewed_at;
+
+    // A new currency or invoice date needs the rate for that currency and date
+    const currencyChanged = !!updatableInvoice.currency && updatableInvoice.currency !== existingInvoice.currency;
+    const dateChanged = !!updatableInvoice.date && updatableInvoice.date !== existingInvoice.date;
+    if (currencyChanged || dateChanged) {
+      const baseCurrency = await exchangeRateService.getBaseCurrency();
+      updatedInvoiceFields.exchange_rate = await exchangeRateService.lockRate(
+        updatableInvoice.currency || existingInvoice.currency || baseCurrency,
+        baseCurrency,
+        updatableInvoice.date || existingInvoice.date
+      );
+    }
     
     const { data, error } = await supabase
       .from('invoices')
@@ -627,6 +668,7 @@ export const invoiceService = {
         unit: item.unit || 'each',
         rate: item.rate,
         tax: item.tax || null,
+        tax_code: item.taxCode || DEFAULT_TAX_CODE,
         total: item.total,
         invoice_id: id
       }));
@@ -636,10 +678,17 @@ export const invoiceService = {
         .insert(newItems);
     }
     
-    return this.getInvoice(id) as Promise<Invoice>;
+    const updatedInvoice = await this.getInvoice(id);
+    if (updatedInvoice) {
+      await postToLedger(`invoice ${updatedInvoice.invoiceNumber}`, () => postingService.postInvoice(updatedInvoice));
+    }
+    return updatedInvoice as Invoice;
   },
 
   async deleteInvoice(id: string): Promise<void> {
+    const existingInvoice = await this.getInvoice(id);
+    await periodLockService.assertPeriodOpen('invoice', [existingInvoice?.date]);
+
     const { error } = await supabase
       .from('invoices')
       .delete()
@@ -649,6 +698,8 @@ export const invoiceService = {
       console.error('Error deleting invoice:', error);
       throw error;
     }
+
+    await postToLedger('deleted invoice', () => postingService.reversePosting('invoice', id));
   },
   
   async updateInvoiceStatus(id: string, status: Invoice['status']): Promise<Invoice> {
@@ -657,6 +708,12 @@ export const invoiceService = {
       console.error('No authenticated user found');
       throw new Error('No authenticated user');
     }
+
+    const existingInvoice = await this.getInvoice(id);
+    if (existingInvoice && (status === 'draft') !== (existingInvoice.status === 'draft')) {
+      await periodLockService.assertPeriodOpen('invoice', [existingInvoice.date]);
+    }
+
     const { data, error } = await supabase
       .from('invoices')
       .update({ status })
@@ -670,7 +727,11 @@ export const invoiceService = {
       throw error;
     }
     
-    return this.getInvoice(id) as Promise<Invoice>;
+    const updatedInvoice = await this.getInvoice(id);
+    if (updatedInvoice) {
+      await postToLedger(`invoice ${updatedInvoice.invoiceNumber}`, () => postingService.postInvoice(updatedInvoice));
+    }
+    return updatedInvoice as Invoice;
   },
 
   async getLineItems(invoiceId: string): Promise<LineItem[]> {
@@ -698,6 +759,7 @@ export const invoiceService = {
       unit: 'each',
       rate: item.rate,
       tax: item.tax,
+      taxCode: (item.tax_code as TaxCode | null) || DEFAULT_TAX_CODE,
       total: item.total,
       createdAt: item.created_at,
       updatedAt: item.updated_at
@@ -718,6 +780,7 @@ export const invoiceService = {
         unit: lineItem.unit || 'each',
         rate: lineItem.rate,
         tax: lineItem.tax || null,
+        tax_code: lineItem.taxCode || DEFAULT_TAX_CODE,
         total: lineItem.total,
         invoice_id: invoiceId 
       }])
@@ -737,6 +800,7 @@ export const invoiceService = {
       unit: 'each',
       rate: data.rate,
       tax: data.tax,
+      taxCode: (data.tax_code as TaxCode | null) || DEFAULT_TAX_CODE,
       total: data.total,
       createdAt: data.created_at,
       updatedAt: data.updated_at
@@ -755,6 +819,7 @@ export const invoiceService = {
     if (lineItem.unit !== undefined) updateData.unit = lineItem.unit;
     if (lineItem.rate !== undefined) updateData.rate = lineItem.rate;
     if (lineItem.tax !== undefined) updateData.tax = lineItem.tax;
+    if (lineItem.taxCode !== undefined) updateData.tax_code = lineItem.taxCode;
     if (lineItem.total !== undefined) updateData.total = lineItem.total;
     
     const { data, error } = await supabase
@@ -777,6 +842,7 @@ export const invoiceService = {
       unit: 'each',
       rate: data.rate,
       tax: data.tax,
+      taxCode: (data.tax_code as TaxCode | null) || DEFAULT_TAX_CODE,
       total: data.total,
       createdAt: data.created_at,
       updatedAt: data.updated_at
@@ -1045,6 +1111,7 @@ export const itemService = {
     if (item.salePrice !== undefined) updateData.sale_price = item.salePrice;
     if (item.purchasePrice !== undefined) updateData.purchase_price = item.purchasePrice;
     if (item.taxRate !== undefined) updateData.tax_rate = item.taxRate;
+    if (item.taxCode !== undefined) updateData.tax_code = item.taxCode;
     if (item.enableSaleInfo !== undefined) updateData.enable_sale_info = item.enableSaleInfo;
     if (item.enablePurchaseInfo !== undefined) updateData.enable_purchase_info = item.enablePurchaseInfo;
     if (item.unit !== undefined) updateData.unit = item.unit;
@@ -1304,10 +1371,13 @@ export const accountService = {
       console.error('No authenticated user found');
       return [];
     }
+    // Money accounts only; numbered chart accounts such as receivables and revenue are managed in the chart of accounts
     const { data, error } = await supabase
       .from('accounts')
       .select('*')
       .eq('user_id', user.id)
+      .eq('is_active', true)
+      .or('type.neq.custom,account_number.is.null')
       .order('name');
     if (error) {
       console.error('Error fetching accounts:', error);
@@ -1594,6 +1664,8 @@ export const expenseService = {
   },
 
   async createExpense(expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'category' | 'account' | 'customer'>): Promise<Expense> {
+    await periodLockService.assertPeriodOpen('expense', [expense.expenseDate]);
+
     const supabaseExpense = await mapExpenseToSupabaseExpense(expense);
     
     const { data, error } = await supabase
@@ -1612,7 +1684,9 @@ export const expenseService = {
       throw error;
     }
     
-    return mapSupabaseExpenseToExpense(data as any);
+    const createdExpense = mapSupabaseExpenseToExpense(data as any);
+    await postToLedger('expense', () => postingService.postExpense(createdExpense));
+    return createdExpense;
   },
 
   async updateExpense(id: string, expense: Partial<Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'category' | 'account' | 'customer'>>): Promise<Expense> {
@@ -1621,12 +1695,20 @@ export const expenseService = {
       throw new Error('No authenticated user found');
     }
 
+    const existingExpense = await this.getExpense(id);
+    const ledgerFieldChanged = (['expenseDate', 'amount', 'taxAmount', 'currency', 'accountId', 'categoryId', 'status'] as const)
+      .some(field => expense[field] !== undefined && expense[field] !== existingExpense?.[field]);
+    if (ledgerFieldChanged) {
+      await periodLockService.assertPeriodOpen('expense', [existingExpense?.expenseDate, expense.expenseDate]);
+    }
+
     const updateData: Partial<SupabaseExpense> = {};
     if (expense.description !== undefined) updateData.description = expense.description;
     if (expense.amount !== undefined) updateData.amount = expense.amount;
     if (expense.categoryId !== undefined) updateData.category_id = expense.categoryId || null;
     if (expense.accountId !== undefined) updateData.account_id = expense.accountId || null;
     if (expense.vendorName !== undefined) updateData.vendor_name = expense.vendorName || null;
+    if (expense.vendorId !== undefined) updateData.vendor_id = expense.vendorId || null;
     if (expense.receiptUrl !== undefined) updateData.receipt_url = expense.receiptUrl || null;
     if (expense.expenseDate !== undefined) updateData.expense_date = expense.expenseDate;
     if (expense.status !== undefined) updateData.status = expense.status;
@@ -1655,7 +1737,9 @@ export const expenseService = {
       throw error;
     }
     
-    return mapSupabaseExpenseToExpense(data as any);
+    const updatedExpense = mapSupabaseExpenseToExpense(data as any);
+    await postToLedger('expense', () => postingService.postExpense(updatedExpense));
+    return updatedExpense;
   },
 
   async deleteExpense(id: string): Promise<void> {
@@ -1666,6 +1750,7 @@ export const expenseService = {
 
     // First get the expense to check for receipt files
     const expense = await this.getExpense(id);
+    await periodLockService.assertPeriodOpen('expense', [expense?.expenseDate]);
     
     // Delete the expense record
     const { error } = await supabase
@@ -1679,6 +1764,8 @@ export const expenseService = {
       throw error;
     }
 
+    await postToLedger('deleted expense', () => postingService.reversePosting('expense', id));
+
     // If expense had a receipt file uploaded to our storage, delete it
     if (expense?.receiptUrl && expense.receiptUrl.includes('/storage/v1/object/public/business-assets/receipts/')) {
       try {
@@ -1832,8 +1919,13 @@ const mapSupabaseSharedInvoiceToSharedInvoice = (sharedInvoice: SupabaseSharedIn
   accessCount: sharedInvoice.access_count,
   isActive: sharedInvoice.is_active,
   createdBy: sharedInvoice.created_by,
+  hasPasscode: !!sharedInvoice.passcode_hash,
+  lastViewedAt: sharedInvoice.last_viewed_at,
+  revokedAt: sharedInvoice.revoked_at,
 });
 
+const MIN_SHARE_PASSCODE_LENGTH = 8;
+
 export const sharedInvoiceService = {
   async createSharedInvoice(
     invoiceId: string, 
@@ -1900,45 +1992,35 @@ export const sharedInvoiceService = {
     return mapSupabaseSharedInvoiceToSharedInvoice(data);
   },
 
-  async getSharedInvoiceByToken(shareToken: string): Promise<{ 
-    invoiceData: Invoice; 
-    templateData: { templateName: string; businessProfile: BusinessProfile }; 
-  } | null> {
+  async getSharedInvoiceByToken(shareToken: string, passcode?: string): Promise<SharedInvoiceAccess> {
     try {
-      // This needs to be a public function call since it's accessed anonymously
-      const { data, error } = await supabase.rpc('get_shared_invoice_by_token', {
-        token: shareToken
+      // Public function call since it's accessed anonymously; it checks revocation, expiry and passcode and logs the view
+      const { data, error } = await supabase.rpc('view_shared_invoice', {
+        token: shareToken,
+        passcode: passcode || undefined,
+        viewer_agent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined
       });
 
       if (error) {
         console.error('Error fetching shared invoice by token:', error);
-        return null;
+        return { status: 'unavailable' };
       }
 
       // RPC functions return arrays, so we get the first result
-      const sharedInvoice = data && data.length > 0 ? data[0] : null;
+      const result = data && data.length > 0 ? data[0] : null;
 
-      if (!sharedInvoice || !sharedInvoice.is_active) {
-        return null;
-      }
-
-      // Check expiration
-      if (sharedInvoice.expires_at && new Date(sharedInvoice.expires_at) < new Date()) {
-        return null;
+      if (!result || result.status !== 'ok') {
+        return { status: (result?.status as SharedInvoiceAccessStatus) || 'unavailable' };
       }
 
-      // Increment access count
-      await supabase.rpc('increment_shared_invoice_access', {
-        token: shareToken
-      });
-
       return {
-        invoiceData: sharedInvoice.invoice_data,
-        templateData: sharedInvoice.template_data
+        status: 'ok',
+        invoiceData: result.invoice_data as unknown as Invoice,
+        templateData: result.template_data as unknown as { templateName: string; businessProfile: BusinessProfile }
       };
     } catch (error) {
       console.error('Error in getSharedInvoiceByToken:', error);
-      return null;
+      return { status: 'unavailable' };
     }
   },
 
@@ -1969,7 +2051,10 @@ export const sharedInvoiceService = {
     }
 
     const updateData: any = {};
-    if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+    if (updates.isActive !== undefined) {
+      updateData.is_active = updates.isActive;
+      updateData.revoked_at = updates.isActive ? null : new Date().toISOString();
+    }
     if (updates.expiresAt !== undefined) updateData.expires_at = updates.expiresAt;
 
     const { data, error } = await supabase
@@ -2004,5 +2089,98 @@ export const sharedInvoiceService = {
       console.error('Error deleting shared invoice:', error);
       throw error;
     }
+  },
+
+  // All links ever created for one invoice, newest first
+  async getSharedInvoicesForInvoice(invoiceId: string): Promise<SharedInvoice[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('shared_invoices')
+      .select('*')
+      .eq('original_invoice_id', invoiceId)
+      .eq('created_by', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching shared invoices for invoice:', error);
+      throw error;
+    }
+
+    return data.map(mapSupabaseSharedInvoiceToSharedInvoice);
+  },
+
+  async revokeSharedInvoice(id: string): Promise<SharedInvoice> {
+    return this.updateSharedInvoice(id, { isActive: false });
+  },
+
+  async extendSharedInvoice(link: SharedInvoice, days: number): Promise<SharedInvoice> {
+    return this.updateSharedInvoice(link.id, {
+      isActive: true,
+      expiresAt: this.getExtendedExpiry(link.expiresAt, days)
+    });
+  },
+
+  // Passing null removes the passcode; hashing happens in the database so the passcode never gets stored
+  async setSharedInvoicePasscode(id: string, passcode: string | null): Promise<void> {
+    if (passcode !== null) {
+      this.validateSharePasscode(passcode);
+    }
+
+    const { error } = await supabase.rpc('set_shared_invoice_passcode', {
+      share_id: id,
+      passcode
+    });
+
+    if (error) {
+      console.error('Error setting shared invoice passcode:', error);
+      throw error;
+    }
+  },
+
+  async getSharedInvoiceViews(sharedInvoiceId: string): Promise<SharedInvoiceView[]> {
+    const { data, error } = await supabase
+      .from('shared_invoice_views')
+      .select('*')
+      .eq('shared_invoice_id', sharedInvoiceId)
+      .order('viewed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching shared invoice views:', error);
+      throw error;
+    }
+
+    return data.map(view => ({
+      id: view.id,
+      sharedInvoiceId: view.shared_invoice_id,
+      viewedAt: view.viewed_at,
+      userAgent: view.user_agent
+    }));
+  },
+
+  getShareLinkStatus(link: SharedInvoice, now: Date = new Date()): ShareLinkStatus {
+    if (!link.isActive) return 'revoked';
+    if (link.expiresAt && new Date(link.expiresAt) <= now) return 'expired';
+    return 'active';
+  },
+
+  // Extends from the current expiry while it is still ahead, otherwise from now
+  getExtendedExpiry(expiresAt: string | null | undefined, days: number, now: Date = new Date()): string {
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error('Extension must be at least one day');
+    }
+
+    const current = expiresAt ? new Date(expiresAt) : null;
+    const from = current && current > now ? current : now;
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+  },
+
+  validateSharePasscode(passcode: string): void {
+    if (passcode.trim().length < MIN_SHARE_PASSCODE_LENGTH) {
+      throw new Error(`Passcode must be at least ${MIN_SHARE_PASSCODE_LENGTH} characters`);
+    }
   }
 };
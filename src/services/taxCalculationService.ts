@@ -5,11 +5,28 @@ import {
   TaxBreakdown,
   IRDReturnData 
 } from '@/types/payment';
+import { TaxCode, DEFAULT_TAX_CODE } from '@/types';
+import { exchangeRateService } from './exchangeRateService';
 import { supabaseDataService } from './supabaseDataService';
 
 export class TaxCalculationService {
   /**
-   * Calculate tax for invoice items based on tax configuration
+   * Resolve a line's tax code, falling back to the legacy taxable flag
+   */
+  resolveTaxCode(item: { taxCode?: TaxCode | null; taxable?: boolean }): TaxCode {
+    if (item.taxCode) return item.taxCode;
+    return item.taxable === false ? 'ZERO' : DEFAULT_TAX_CODE;
+  }
+
+  /**
+   * Tax rate for a tax code - only standard-rated supplies carry GST
+   */
+  getTaxRateForCode(taxCode: TaxCode, taxConfig: TaxConfiguration): number {
+    return taxCode === 'GST15' ? taxConfig.taxRate : 0;
+  }
+
+  /**
+   * Calculate tax for invoice items based on each line's tax code
    */
   calculateTax(request: TaxCalculationRequest, taxConfig: TaxConfiguration | null): TaxCalculationResult {
     if (!taxConfig) {
@@ -20,28 +37,42 @@ export class TaxCalculationService {
       throw new Error('Tax rate must be between 0 and 1');
     }
 
-    const breakdown: TaxBreakdown['breakdown'] = {
-      lineItems: []
+    const breakdown: TaxCalculationResult['breakdown'] = {
+      lineItems: [],
+      taxCodeTotals: {}
+    };
+
+    const addToTaxCode = (taxCode: TaxCode, amount: number, taxAmount: number) => {
+      const current = breakdown.taxCodeTotals[taxCode] || { amount: 0, taxAmount: 0 };
+      breakdown.taxCodeTotals[taxCode] = {
+        amount: Math.round((current.amount + amount) * 100) / 100,
+        taxAmount: Math.round((current.taxAmount + taxAmount) * 100) / 100
+      };
     };
 
     let subtotalAmount = 0;
     let totalTaxAmount = 0;
+    // Line totals as entered, used to apportion discounts between tax codes
+    let enteredTotal = 0;
+    let standardRatedEnteredTotal = 0;
 
     // Process each line item
     request.items.forEach((item) => {
+      const taxCode = this.resolveTaxCode(item);
+      const lineRate = this.getTaxRateForCode(taxCode, taxConfig);
       const lineTotal = item.quantity * item.unitPrice;
       let lineTaxAmount = 0;
       let lineSubtotal = lineTotal;
 
-      if (item.taxable && taxConfig.taxRate > 0) {
+      if (lineRate > 0) {
         if (request.taxInclusive) {
           // Tax-inclusive: extract tax from total
-          lineSubtotal = lineTotal / (1 + taxConfig.taxRate);
+          lineSubtotal = lineTotal / (1 + lineRate);
           lineTaxAmount = lineTotal - lineSubtotal;
         } else {
           // Tax-exclusive: add tax to subtotal
           lineSubtotal = lineTotal;
-          lineTaxAmount = lineTotal * taxConfig.taxRate;
+          lineTaxAmount = lineTotal * lineRate;
         }
       }
 
@@ -51,16 +82,20 @@ export class TaxCalculationService {
 
       subtotalAmount += lineSubtotal;
       totalTaxAmount += lineTaxAmount;
+      enteredTotal += lineTotal;
+      if (taxCode === 'GST15') standardRatedEnteredTotal += lineTotal;
 
+      addToTaxCode(taxCode, lineSubtotal, lineTaxAmount);
       breakdown.lineItems.push({
         description: item.description,
         amount: lineSubtotal,
-        taxable: item.taxable,
+        taxable: taxCode === 'GST15',
+        taxCode,
         taxAmount: lineTaxAmount
       });
     });
 
-    // Apply additional charges (taxable)
+    // Apply additional charges (standard-rated)
     if (request.additionalCharges && request.additionalCharges > 0) {
       let additionalTax = 0;
       let additionalSubtotal = request.additionalCharges;
@@ -79,38 +114,58 @@ export class TaxCalculationService {
 
       subtotalAmount += additionalSubtotal;
       totalTaxAmount += additionalTax;
+      enteredTotal += request.additionalCharges;
+      standardRatedEnteredTotal += request.additionalCharges;
 
+      addToTaxCode('GST15', additionalSubtotal, additionalTax);
       breakdown.lineItems.push({
         description: 'Additional Charges',
         amount: additionalSubtotal,
         taxable: true,
+        taxCode: 'GST15',
         taxAmount: additionalTax
       });
     }
 
-    // Apply discounts (reduce subtotal before tax)
+    // Apply discounts (reduce subtotal before tax), split across tax codes in proportion to their totals
     if (request.discounts && request.discounts > 0) {
+      const standardRatedShare = enteredTotal > 0 ? standardRatedEnteredTotal / enteredTotal : 1;
+      const standardRatedDiscount = request.discounts * standardRatedShare;
+      let discountTax: number;
+
       if (request.taxInclusive) {
-        // For tax-inclusive, discount includes tax
-        const discountSubtotal = request.discounts / (1 + taxConfig.taxRate);
-        const discountTax = request.discounts - discountSubtotal;
-        
-        subtotalAmount -= Math.round(discountSubtotal * 100) / 100;
-        totalTaxAmount -= Math.round(discountTax * 100) / 100;
+        // For tax-inclusive, the standard-rated part of the discount includes tax
+        discountTax = Math.round((standardRatedDiscount - standardRatedDiscount / (1 + taxConfig.taxRate)) * 100) / 100;
+        subtotalAmount -= Math.round((request.discounts - discountTax) * 100) / 100;
+        totalTaxAmount -= discountTax;
       } else {
-        // For tax-exclusive, recalculate tax on discounted amount
+        // For tax-exclusive, recalculate tax on the discounted standard-rated amount
+        const standardRatedSubtotal = breakdown.taxCodeTotals.GST15?.amount || 0;
+        const discountedTax = Math.round((standardRatedSubtotal - standardRatedDiscount) * taxConfig.taxRate * 100) / 100;
+        discountTax = Math.round((totalTaxAmount - discountedTax) * 100) / 100;
         subtotalAmount -= request.discounts;
-        totalTaxAmount = subtotalAmount * taxConfig.taxRate;
-        totalTaxAmount = Math.round(totalTaxAmount * 100) / 100;
+        totalTaxAmount = discountedTax;
       }
 
+      // Record the discount against each code so the totals reconcile with the return
+      Object.keys(breakdown.taxCodeTotals).forEach((code) => {
+        const taxCode = code as TaxCode;
+        const codeEntered = taxCode === 'GST15'
+          ? standardRatedEnteredTotal
+          : request.items
+              .filter(item => this.resolveTaxCode(item) === taxCode)
+              .reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+        const codeDiscount = enteredTotal > 0 ? request.discounts! * (codeEntered / enteredTotal) : 0;
+        const codeDiscountTax = taxCode === 'GST15' ? discountTax : 0;
+        addToTaxCode(taxCode, -(codeDiscount - (request.taxInclusive ? codeDiscountTax : 0)), -codeDiscountTax);
+      });
+
       breakdown.lineItems.push({
         description: 'Discount',
         amount: -request.discounts,
         taxable: true,
-        taxAmount: request.taxInclusive ? 
-          -Math.round((request.discounts - (request.discounts / (1 + taxConfig.taxRate))) * 100) / 100 :
-          -Math.round((request.discounts * taxConfig.taxRate) * 100) / 100
+        taxCode: 'GST15',
+        taxAmount: -discountTax
       });
     }
 
@@ -129,25 +184,66 @@ export class TaxCalculationService {
     };
   }
 
+  /**
+   * Split an invoice total into per-tax-code sales using its line items.
+   * Line totals are scaled to the invoice's net amount so discounts and charges are spread across codes.
+   * Amounts are returned in the base currency at the invoice's locked exchange rate.
+   */
+  splitInvoiceByTaxCode(invoice: {
+    total: number;
+    taxAmount: number;
+    exchangeRate?: number | null;
+    lineItems?: Array<{ total: number; taxCode?: TaxCode | null; taxable?: boolean }>;
+  }): Array<{ amount: number; taxInclusive: boolean; taxable: boolean; taxCode: TaxCode }> {
+    const total = exchangeRateService.convertToBase(invoice.total, invoice.exchangeRate);
+    const taxAmount = exchangeRateService.convertToBase(invoice.taxAmount, invoice.exchangeRate);
+    const netByCode = new Map<TaxCode, number>();
+    (invoice.lineItems || []).forEach(item => {
+      const taxCode = this.resolveTaxCode(item);
+      netByCode.set(taxCode, (netByCode.get(taxCode) || 0) + (item.total || 0));
+    });
+
+    const lineNetTotal = Array.from(netByCode.values()).reduce((sum, amount) => sum + amount, 0);
+    if (netByCode.size === 0 || lineNetTotal === 0) {
+      return [{ amount: total, taxInclusive: true, taxable: true, taxCode: DEFAULT_TAX_CODE }];
+    }
+
+    const scale = (total - taxAmount) / lineNetTotal;
+    return Array.from(netByCode.entries()).map(([taxCode, net]) => {
+      const amount = net * scale + (taxCode === 'GST15' ? taxAmount : 0);
+      return {
+        amount: Math.round(amount * 100) / 100,
+        taxInclusive: true,
+        taxable: taxCode === 'GST15',
+        taxCode
+      };
+    });
+  }
+
   /**
    * Calculate GST for New Zealand IRD returns - Sales
+   * Exempt supplies are reported separately and excluded from total sales; NOTAX lines are outside the return.
    */
   async calculateGSTReturnSales(
-    salesData: Array<{ amount: number; taxInclusive: boolean; taxable: boolean }>,
+    salesData: Array<{ amount: number; taxInclusive: boolean; taxable?: boolean; taxCode?: TaxCode }>,
     taxConfig: TaxConfiguration
   ): Promise<{
     totalSales: number;
     gstOnSales: number;
     standardRated: number;
     zeroRated: number;
+    exempt: number;
   }> {
     let totalSales = 0;
     let gstOnSales = 0;
     let standardRated = 0;
     let zeroRated = 0;
+    let exempt = 0;
 
     for (const sale of salesData) {
-      if (sale.taxable) {
+      const taxCode = this.resolveTaxCode(sale);
+
+      if (taxCode === 'GST15') {
         standardRated += sale.amount;
         
         if (sale.taxInclusive) {
@@ -161,10 +257,11 @@ export class TaxCalculationService {
           gstOnSales += Math.round(gstAmount * 100) / 100;
           totalSales += sale.amount + gstAmount;
         }
-      } else {
-        // Zero-rated or exempt
+      } else if (taxCode === 'ZERO') {
         zeroRated += sale.amount;
         totalSales += sale.amount;
+      } else if (taxCode === 'EXEMPT') {
+        exempt += sale.amount;
       }
     }
 
@@ -172,7 +269,8 @@ export class TaxCalculationService {
       totalSales: Math.round(totalSales * 100) / 100,
       gstOnSales: Math.round(gstOnSales * 100) / 100,
       standardRated: Math.round(standardRated * 100) / 100,
-      zeroRated: Math.round(zeroRated * 100) / 100
+      zeroRated: Math.round(zeroRated * 100) / 100,
+      exempt: Math.round(exempt * 100) / 100
     };
   }
 
@@ -246,11 +344,12 @@ export class TaxCalculationService {
         supabaseDataService.getExpensesByPeriod(userId, periodStart, periodEnd)
       ]);
 
-      // Calculate sales data using real invoice data
-      const salesData = invoices.map(invoice => ({
-        amount: invoice.total,
-        taxInclusive: invoice.taxInclusive || true,
-        taxable: invoice.total > 0
+      // Calculate sales data from each invoice's per-line tax codes
+      const salesData = invoices.flatMap(invoice => this.splitInvoiceByTaxCode({
+        total: invoice.total,
+        taxAmount: invoice.taxAmount || 0,
+        exchangeRate: invoice.exchangeRate,
+        lineItems: invoice.lineItems
       }));
 
       const salesCalculation = await this.calculateGSTReturnSales(salesData, taxConfig);
@@ -272,14 +371,14 @@ export class TaxCalculationService {
       // Calculate bad debts from written-off invoices
       const badDebts = invoices
         .filter(invoice => invoice.paymentStatus === 'written_off')
-        .reduce((sum, invoice) => sum + (invoice.tax_amount || 0), 0);
+        .reduce((sum, invoice) => sum + exchangeRateService.convertToBase(invoice.tax_amount, invoice.exchangeRate), 0);
 
       return {
         gstReturn: {
           salesDetails: {
             standardRated: salesCalculation.standardRated,
             zeroRated: salesCalculation.zeroRated,
-            exempt: 0, // Calculate if needed
+            exempt: salesCalculation.exempt,
             totalSales: salesCalculation.totalSales,
             gstOnSales: salesCalculation.gstOnSales
           },
@@ -370,6 +469,7 @@ export class TaxCalculationService {
       quantity: number;
       rate: number;
       tax?: number; // Optional tax rate override
+      taxCode?: TaxCode;
     }>,
     additionalCharges: number = 0,
     discount: number = 0,
@@ -381,7 +481,7 @@ export class TaxCalculationService {
         description: item.description,
         quantity: item.quantity,
         unitPrice: item.rate,
-        taxable: true // Assume all invoice items are taxable
+        taxCode: item.taxCode || DEFAULT_TAX_CODE
       })),
       additionalCharges,
       discounts: discount,
@@ -396,7 +496,8 @@ export class TaxCalculationService {
       taxRate: result.taxRate,
       taxName: result.taxName,
       taxInclusive,
-      total: result.total
+      total: result.total,
+      taxCodeTotals: result.breakdown.taxCodeTotals
     };
   }
 
@@ -457,14 +558,15 @@ export class TaxCalculationService {
       let gstOnSales = 0;
 
       for (const invoice of invoices) {
-        totalSales += invoice.total || 0;
+        const invoiceTotal = exchangeRateService.convertToBase(invoice.total, invoice.exchangeRate);
+        totalSales += invoiceTotal;
         
         // Calculate GST from invoice
         if (invoice.tax_amount) {
-          gstOnSales += invoice.tax_amount;
+          gstOnSales += exchangeRateService.convertToBase(invoice.tax_amount, invoice.exchangeRate);
         } else {
           // Estimate GST if not stored (assuming tax-inclusive)
-          const estimatedGST = (invoice.total * taxConfig.taxRate) / (1 + taxConfig.taxRate);
+          const estimatedGST = (invoiceTotal * taxConfig.taxRate) / (1 + taxConfig.taxRate);
           gstOnSales += estimatedGST;
         }
       }
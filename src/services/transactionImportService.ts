@@ -1,6 +1,13 @@
 import { supabase } from '@/integrations/supabase/client';
 import { parseCSVTransactions } from './csvTransactionParser';
+import { isStatementFileFormat, parseStatementFile } from './bankStatementParser';
 import { bankAccountService } from './bankAccountService';
+import { bankRuleService } from './bankRuleService';
+import { bankReconciliationService } from './bankReconciliationService';
+import { vendorService } from './vendorService';
+import { BankRule } from '../types/bankRule';
+import { Vendor } from '../types/vendor';
+import { TaxCode } from '../types';
 import {
   TransactionImportConfig,
   ImportedTransaction,
@@ -38,29 +45,42 @@ const mapBankTransactionToSupabaseBankTransaction = async (
     transaction_date: transaction.transactionDate,
     description: transaction.description,
     reference: transaction.reference || null,
+    external_id: transaction.externalId || null,
     amount: transaction.amount,
     type: transaction.type,
     balance: transaction.balance || null,
     category: transaction.category || null,
     merchant: transaction.merchant || null,
+    expense_category_id: transaction.expenseCategoryId || null,
+    customer_id: transaction.customerId || null,
+    tax_code: transaction.taxCode || null,
+    bank_rule_id: transaction.bankRuleId || null,
+    vendor_id: transaction.vendorId || null,
     is_reconciled: transaction.isReconciled,
     notes: transaction.notes || null,
     user_id: transaction.userId || userId,
   };
 };
 
-const mapSupabaseBankTransactionToBankTransaction = (transaction: SupabaseBankTransaction): BankTransaction => ({
+export const mapSupabaseBankTransactionToBankTransaction = (transaction: SupabaseBankTransaction): BankTransaction => ({
   id: transaction.id,
   bankAccountId: transaction.bank_account_id,
   transactionDate: transaction.transaction_date,
   description: transaction.description,
   reference: transaction.reference,
+  externalId: transaction.external_id ?? undefined,
   amount: transaction.amount,
   type: transaction.type,
   balance: transaction.balance,
   category: transaction.category,
   merchant: transaction.merchant,
+  expenseCategoryId: transaction.expense_category_id ?? null,
+  customerId: transaction.customer_id ?? null,
+  taxCode: (transaction.tax_code as TaxCode | null) ?? null,
+  bankRuleId: transaction.bank_rule_id ?? null,
+  vendorId: transaction.vendor_id ?? null,
   isReconciled: transaction.is_reconciled,
+  reconciledAt: transaction.reconciled_at ?? null,
   notes: transaction.notes,
   userId: transaction.user_id,
   createdAt: transaction.created_at,
@@ -111,7 +131,8 @@ export const transactionImportService = {
         const parseResult = await parseCSVTransactions(
           fileData,
           config.csvMapping!,
-          config.dateFormat
+          config.dateFormat,
+          { delimiter: config.delimiter, skipRows: config.skipRows }
         );
 
         if (!parseResult.success) {
@@ -126,6 +147,21 @@ export const transactionImportService = {
 
         importedTransactions = parseResult.transactions;
         parseErrors = parseResult.errors || [];
+      } else if (isStatementFileFormat(config.fileType)) {
+        const parseResult = parseStatementFile(fileData, config.fileType);
+
+        if (!parseResult.success) {
+          return {
+            success: false,
+            importedCount: 0,
+            duplicatesSkipped: 0,
+            errors: parseResult.errors,
+            transactions: []
+          };
+        }
+
+        importedTransactions = parseResult.transactions;
+        parseErrors = parseResult.errors;
       } else {
         return {
           success: false,
@@ -136,6 +172,25 @@ export const transactionImportService = {
         };
       }
 
+      return await this.importParsedTransactions(importedTransactions, config, parseErrors);
+    } catch (error) {
+      return {
+        success: false,
+        importedCount: 0,
+        duplicatesSkipped: 0,
+        errors: [`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        transactions: []
+      };
+    }
+  },
+
+  // Validate, categorise, de-duplicate and save transactions that have already been parsed
+  async importParsedTransactions(
+    importedTransactions: ImportedTransaction[],
+    config: TransactionImportConfig,
+    parseErrors: string[] = []
+  ): Promise<TransactionImportResult> {
+    try {
       // Validate imported data
       const validation = this.validateImportData(importedTransactions);
       if (!validation.isValid) {
@@ -148,8 +203,11 @@ export const transactionImportService = {
         };
       }
 
-      // Auto-categorize transactions
-      const categorizedTransactions = this.categorizeTransactions(importedTransactions);
+      // Apply the user's bank rules first, then vendor defaults, then fall back to the built-in patterns
+      const [rules, vendors] = await Promise.all([this.getBankRulesForImport(), this.getVendorsForImport()]);
+      const categorizedTransactions = this.categorizeTransactions(
+        vendorService.applyVendors(bankRuleService.applyRules(importedTransactions, rules, config.bankAccountId), vendors)
+      );
 
       // Check for duplicates if enabled
       let duplicateIndices: number[] = [];
@@ -166,6 +224,7 @@ export const transactionImportService = {
       // Convert to BankTransaction format and save
       const savedTransactions: BankTransaction[] = [];
       const importErrors: string[] = [...parseErrors];
+      let currency: string | undefined;
 
       for (const importedTx of transactionsToImport) {
         try {
@@ -174,16 +233,38 @@ export const transactionImportService = {
             transactionDate: importedTx.date,
             description: importedTx.description,
             reference: importedTx.reference,
+            externalId: importedTx.externalId,
             amount: importedTx.amount,
             type: importedTx.type,
             balance: importedTx.balance,
             category: importedTx.category,
             merchant: importedTx.merchant,
+            expenseCategoryId: importedTx.expenseCategoryId,
+            customerId: importedTx.customerId,
+            taxCode: importedTx.taxCode,
+            bankRuleId: importedTx.bankRuleId,
+            vendorId: importedTx.vendorId,
             isReconciled: false,
             notes: undefined
           };
 
-          const saved = await this.saveBankTransaction(bankTransaction);
+          let saved = await this.saveBankTransaction(bankTransaction);
+
+          const rule = rules.find(r => r.id === importedTx.bankRuleId);
+          if (rule?.actions.autoCreateExpense && saved.type === 'debit') {
+            try {
+              currency = currency || (await bankAccountService.getBankAccount(config.bankAccountId))?.currency || 'NZD';
+              const result = await bankReconciliationService.createExpenseFromTransaction(saved, {
+                categoryId: saved.expenseCategoryId,
+                taxAmount: bankRuleService.calculateIncludedGST(saved.amount, saved.taxCode),
+                currency
+              });
+              saved = result.transaction;
+            } catch (error) {
+              importErrors.push(`Imported ${importedTx.description} but could not create its expense - ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+          }
+
           savedTransactions.push(saved);
         } catch (error) {
           importErrors.push(`Failed to save transaction: ${importedTx.description} - ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -209,6 +290,25 @@ export const transactionImportService = {
     }
   },
 
+  // Import still works with the built-in patterns if rules cannot be loaded
+  async getBankRulesForImport(): Promise<BankRule[]> {
+    try {
+      return await bankRuleService.getBankRules();
+    } catch (error) {
+      console.error('Error loading bank rules for import:', error);
+      return [];
+    }
+  },
+
+  async getVendorsForImport(): Promise<Vendor[]> {
+    try {
+      return await vendorService.getVendors();
+    } catch (error) {
+      console.error('Error loading vendors for import:', error);
+      return [];
+    }
+  },
+
   async validateBankAccount(bankAccountId: string): Promise<boolean> {
     try {
       const account = await bankAccountService.getBankAccount(bankAccountId);
@@ -239,6 +339,28 @@ export const transactionImportService = {
     return (data as SupabaseBankTransaction[]).map(mapSupabaseBankTransactionToBankTransaction);
   },
 
+  // Recent transactions across all bank accounts, used to preview bank rules
+  async getRecentTransactions(limit = 500): Promise<BankTransaction[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('transaction_date', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching recent transactions:', error);
+      return [];
+    }
+
+    return (data as SupabaseBankTransaction[]).map(mapSupabaseBankTransactionToBankTransaction);
+  },
+
   detectDuplicates(
     importedTransactions: ImportedTransaction[],
     existingTransactions: BankTransaction[],
@@ -251,6 +373,11 @@ export const transactionImportService = {
       const imported = importedTransactions[i];
       
       const isDuplicate = existingTransactions.some(existing => {
+        // The bank's own transaction id is authoritative when both sides have one
+        if (imported.externalId && existing.externalId) {
+          return imported.externalId === existing.externalId;
+        }
+
         // Check date match (with tolerance if specified)
         const importedDate = new Date(imported.date);
         const existingDate = new Date(existing.transactionDate);
@@ -303,6 +430,11 @@ export const transactionImportService = {
 
   categorizeTransactions(transactions: ImportedTransaction[]): ImportedTransaction[] {
     return transactions.map(transaction => {
+      // Already handled by one of the user's bank rules
+      if (transaction.bankRuleId) {
+        return transaction;
+      }
+
       const description = transaction.description.toLowerCase();
       
       for (const categoryMapping of CATEGORY_PATTERNS) {
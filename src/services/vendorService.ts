@@ -0,0 +1,496 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PaymentMethod } from '../types';
+import { ImportedTransaction } from '../types/bankTransaction';
+import {
+  SupabaseVendor,
+  Vendor,
+  VendorMatch,
+  VendorMergeResult,
+  VendorNameGroup,
+  VendorNameUsage,
+  VendorSpend,
+  VendorSpendRecord,
+  VendorSpendReport
+} from '../types/vendor';
+
+// Names at least this similar are treated as the same supplier
+const MATCH_THRESHOLD = 0.8;
+
+// Words that don't distinguish one supplier from another
+const IGNORED_NAME_WORDS = new Set(['the', 'ltd', 'limited', 'inc', 'co', 'company', 'llc', 'pty', 'plc', 'corp', 'nz']);
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const mapSupabaseVendorToVendor = (vendor: SupabaseVendor): Vendor => ({
+  id: vendor.id,
+  name: vendor.name,
+  gstNumber: vendor.gst_number,
+  contactName: vendor.contact_name,
+  email: vendor.email,
+  phone: vendor.phone,
+  address: vendor.address,
+  defaultExpenseCategoryId: vendor.default_expense_category_id,
+  defaultPaymentMethod: vendor.default_payment_method as PaymentMethod | null,
+  aliases: vendor.aliases || [],
+  notes: vendor.notes,
+  isActive: vendor.is_active,
+  userId: vendor.user_id,
+  createdAt: vendor.created_at,
+  updatedAt: vendor.updated_at,
+});
+
+const mapVendorToSupabaseVendor = (
+  vendor: Partial<Omit<Vendor, 'id' | 'createdAt' | 'updatedAt' | 'userId'>>
+): Partial<SupabaseVendor> => {
+  const data: Partial<SupabaseVendor> = {};
+  if (vendor.name !== undefined) data.name = vendor.name.trim();
+  if (vendor.gstNumber !== undefined) data.gst_number = vendor.gstNumber || null;
+  if (vendor.contactName !== undefined) data.contact_name = vendor.contactName || null;
+  if (vendor.email !== undefined) data.email = vendor.email || null;
+  if (vendor.phone !== undefined) data.phone = vendor.phone || null;
+  if (vendor.address !== undefined) data.address = vendor.address || null;
+  if (vendor.defaultExpenseCategoryId !== undefined) data.default_expense_category_id = vendor.defaultExpenseCategoryId || null;
+  if (vendor.defaultPaymentMethod !== undefined) data.default_payment_method = vendor.defaultPaymentMethod || null;
+  if (vendor.aliases !== undefined) data.aliases = vendor.aliases;
+  if (vendor.notes !== undefined) data.notes = vendor.notes || null;
+  if (vendor.isActive !== undefined) data.is_active = vendor.isActive;
+  return data;
+};
+
+// Unique constraint on (user_id, name)
+const rethrowDuplicateName = (error: { code?: string }, name?: string): never => {
+  if (error.code === '23505') {
+    throw new Error(`A vendor named ${name} already exists`);
+  }
+  throw error;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const containsWords = (text: string, words: string) => ` ${text} `.includes(` ${words} `);
+
+export const vendorService = {
+  async getVendors(): Promise<Vendor[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      console.error('No authenticated user found');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('vendors')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching vendors:', error);
+      throw error;
+    }
+
+    return ((data || []) as SupabaseVendor[]).map(mapSupabaseVendorToVendor);
+  },
+
+  async createVendor(vendor: Omit<Vendor, 'id' | 'createdAt' | 'updatedAt' | 'userId'>): Promise<Vendor> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    this.validateVendor(vendor);
+
+    const { data, error } = await supabase
+      .from('vendors')
+      .insert({ ...mapVendorToSupabaseVendor(vendor), name: vendor.name.trim(), user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vendor:', error);
+      rethrowDuplicateName(error, vendor.name.trim());
+    }
+
+    return mapSupabaseVendorToVendor(data as SupabaseVendor);
+  },
+
+  async updateVendor(id: string, vendor: Partial<Omit<Vendor, 'id' | 'createdAt' | 'updatedAt' | 'userId'>>): Promise<Vendor> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    if (vendor.name !== undefined) {
+      this.validateVendor({ name: vendor.name, gstNumber: vendor.gstNumber });
+    }
+
+    const { data, error } = await supabase
+      .from('vendors')
+      .update(mapVendorToSupabaseVendor(vendor))
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating vendor:', error);
+      rethrowDuplicateName(error, vendor.name?.trim());
+    }
+
+    return mapSupabaseVendorToVendor(data as SupabaseVendor);
+  },
+
+  // Linked expenses, bills and bank transactions keep their vendor name text
+  async deleteVendor(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const { error } = await supabase
+      .from('vendors')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting vendor:', error);
+      throw error;
+    }
+  },
+
+  // Vendor name spellings on expenses, bills and money-out bank transactions not yet linked to a vendor
+  async getUnlinkedVendorNames(): Promise<VendorNameUsage[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const [expenses, bills, transactions] = await Promise.all([
+      supabase
+        .from('expenses')
+        .select('vendor_name, amount')
+        .eq('user_id', user.id)
+        .is('vendor_id', null)
+        .not('vendor_name', 'is', null),
+      supabase
+        .from('bills')
+        .select('supplier_name, total')
+        .eq('user_id', user.id)
+        .is('vendor_id', null)
+        .neq('status', 'void'),
+      supabase
+        .from('bank_transactions')
+        .select('merchant, amount')
+        .eq('user_id', user.id)
+        .eq('type', 'debit')
+        .is('vendor_id', null)
+        .not('merchant', 'is', null)
+    ]);
+
+    const error = expenses.error || bills.error || transactions.error;
+    if (error) {
+      console.error('Error fetching unlinked vendor names:', error);
+      throw error;
+    }
+
+    return this.summariseVendorNames([
+      ...(expenses.data || []).map(expense => ({ name: expense.vendor_name as string, amount: expense.amount })),
+      ...(bills.data || []).map(bill => ({ name: bill.supplier_name, amount: bill.total })),
+      ...(transactions.data || []).map(transaction => ({ name: transaction.merchant as string, amount: transaction.amount }))
+    ]);
+  },
+
+  // Links every unlinked record using one of the names to the vendor and remembers the spellings for future matching
+  async mergeVendorNames(vendor: Vendor, names: string[]): Promise<VendorMergeResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    if (names.length === 0) {
+      return { expensesLinked: 0, billsLinked: 0, bankTransactionsLinked: 0 };
+    }
+
+    const [expenses, bills, transactions] = await Promise.all([
+      supabase
+        .from('expenses')
+        .update({ vendor_id: vendor.id })
+        .eq('user_id', user.id)
+        .is('vendor_id', null)
+        .in('vendor_name', names)
+        .select('id'),
+      supabase
+        .from('bills')
+        .update({ vendor_id: vendor.id })
+        .eq('user_id', user.id)
+        .is('vendor_id', null)
+        .in('supplier_name', names)
+        .select('id'),
+      supabase
+        .from('bank_transactions')
+        .update({ vendor_id: vendor.id })
+        .eq('user_id', user.id)
+        .is('vendor_id', null)
+        .in('merchant', names)
+        .select('id')
+    ]);
+
+    const error = expenses.error || bills.error || transactions.error;
+    if (error) {
+      console.error('Error linking records to vendor:', error);
+      throw error;
+    }
+
+    const aliases = Array.from(new Set([...vendor.aliases, ...names.map(name => name.trim())]))
+      .filter(alias => alias.toLowerCase() !== vendor.name.toLowerCase());
+    if (aliases.length !== vendor.aliases.length) {
+      await this.updateVendor(vendor.id, { aliases });
+    }
+
+    return {
+      expensesLinked: expenses.data?.length || 0,
+      billsLinked: bills.data?.length || 0,
+      bankTransactionsLinked: transactions.data?.length || 0
+    };
+  },
+
+  async getVendorSpendReport(startDate: string, endDate: string): Promise<VendorSpendReport> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.id) {
+      throw new Error('No authenticated user found');
+    }
+
+    const [vendors, expenses, bills] = await Promise.all([
+      this.getVendors(),
+      supabase
+        .from('expenses')
+        .select('vendor_id, expense_date, amount, tax_amount')
+        .eq('user_id', user.id)
+        .neq('status', 'rejected')
+        .gte('expense_date', startDate)
+        .lte('expense_date', endDate),
+      supabase
+        .from('bills')
+        .select('vendor_id, bill_date, total, tax_amount')
+        .eq('user_id', user.id)
+        .neq('status', 'void')
+        .gte('bill_date', startDate)
+        .lte('bill_date', endDate)
+    ]);
+
+    const error = expenses.error || bills.error;
+    if (error) {
+      console.error('Error fetching vendor spend:', error);
+      throw error;
+    }
+
+    // The generated expenses row predates the expense_date column
+    const expenseRows = (expenses.data || []) as unknown as { vendor_id: string | null; expense_date: string; amount: number; tax_amount: number }[];
+
+    const records: VendorSpendRecord[] = [
+      ...expenseRows.map(expense => ({
+        vendorId: expense.vendor_id,
+        date: expense.expense_date,
+        amount: expense.amount,
+        taxAmount: expense.tax_amount || 0,
+        source: 'expense' as const
+      })),
+      ...(bills.data || []).map(bill => ({
+        vendorId: bill.vendor_id,
+        date: bill.bill_date,
+        amount: bill.total,
+        taxAmount: bill.tax_amount || 0,
+        source: 'bill' as const
+      }))
+    ];
+
+    return this.buildVendorSpendReport(records, vendors, startDate, endDate);
+  },
+
+  // Lowercase, without punctuation, store numbers or company suffixes: "COUNTDOWN #123 Ltd." -> "countdown"
+  normaliseVendorName(name: string): string {
+    const words = name
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !/^\d+$/.test(word));
+    const significant = words.filter(word => !IGNORED_NAME_WORDS.has(word));
+    return (significant.length > 0 ? significant : words).join(' ');
+  },
+
+  // 1 for the same name, 0.9 when one name is contained in the other, otherwise edit-distance similarity
+  vendorNameSimilarity(a: string, b: string): number {
+    const first = this.normaliseVendorName(a);
+    const second = this.normaliseVendorName(b);
+    if (!first || !second) return 0;
+
+    const compactFirst = first.replace(/\s/g, '');
+    const compactSecond = second.replace(/\s/g, '');
+    if (compactFirst === compactSecond) return 1;
+
+    const [shorter, longer] = first.length <= second.length ? [first, second] : [second, first];
+    const contained = shorter.length >= 4 && containsWords(longer, shorter) ? 0.9 : 0;
+
+    const distance = levenshtein(compactFirst, compactSecond);
+    return Math.max(contained, 1 - distance / Math.max(compactFirst.length, compactSecond.length));
+  },
+
+  // Best active vendor for a free-text name, compared against each vendor's name and merged spellings
+  findVendorMatch(name: string | null | undefined, vendors: Vendor[], threshold: number = MATCH_THRESHOLD): VendorMatch | null {
+    if (!name || !name.trim()) return null;
+
+    let best: VendorMatch | null = null;
+    for (const vendor of vendors.filter(candidate => candidate.isActive)) {
+      const score = Math.max(...[vendor.name, ...vendor.aliases].map(candidate => this.vendorNameSimilarity(name, candidate)));
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { vendor, score };
+      }
+    }
+    return best;
+  },
+
+  // Bank descriptions carry extra text ("EFTPOS COUNTDOWN 123 AUCKLAND"), so look for the vendor's name inside them
+  findVendorInText(text: string, vendors: Vendor[]): Vendor | null {
+    const normalisedText = this.normaliseVendorName(text);
+    let best: { vendor: Vendor; length: number } | null = null;
+
+    for (const vendor of vendors.filter(candidate => candidate.isActive)) {
+      for (const candidate of [vendor.name, ...vendor.aliases]) {
+        const normalised = this.normaliseVendorName(candidate);
+        if (normalised.length >= 4 && containsWords(normalisedText, normalised) && (!best || normalised.length > best.length)) {
+          best = { vendor, length: normalised.length };
+        }
+      }
+    }
+    return best?.vendor || null;
+  },
+
+  // Runs after bank rules; a vendor's default category only fills in what the rules left empty
+  applyVendors(transactions: ImportedTransaction[], vendors: Vendor[]): ImportedTransaction[] {
+    if (vendors.length === 0) return transactions;
+
+    return transactions.map(transaction => {
+      if (transaction.vendorId) return transaction;
+
+      const vendor = this.findVendorMatch(transaction.merchant, vendors)?.vendor ||
+        this.findVendorInText(transaction.description, vendors);
+      if (!vendor) return transaction;
+
+      return {
+        ...transaction,
+        vendorId: vendor.id,
+        merchant: transaction.merchant || vendor.name,
+        expenseCategoryId: transaction.type === 'debit'
+          ? transaction.expenseCategoryId ?? vendor.defaultExpenseCategoryId ?? null
+          : transaction.expenseCategoryId
+      };
+    });
+  },
+
+  // Totals records by exact vendor name, most used first
+  summariseVendorNames(records: { name: string; amount: number }[]): VendorNameUsage[] {
+    const usage = new Map<string, VendorNameUsage>();
+    records.forEach(record => {
+      const name = record.name?.trim();
+      if (!name) return;
+      const existing = usage.get(name) || { name, count: 0, total: 0 };
+      usage.set(name, { name, count: existing.count + 1, total: roundCurrency(existing.total + (record.amount || 0)) });
+    });
+    return [...usage.values()].sort((a, b) => b.count - a.count || b.total - a.total);
+  },
+
+  // Groups spellings of the same supplier; a group is named after its most used spelling unless it matches a vendor
+  groupVendorNames(names: VendorNameUsage[], vendors: Vendor[]): VendorNameGroup[] {
+    const groups: VendorNameGroup[] = [];
+    const ordered = [...names].sort((a, b) => b.count - a.count || b.total - a.total);
+
+    for (const usage of ordered) {
+      const match = this.findVendorMatch(usage.name, vendors);
+      let group = match
+        ? groups.find(candidate => candidate.vendor?.id === match.vendor.id)
+        : groups.find(candidate => !candidate.vendor && candidate.names.some(
+          existing => this.vendorNameSimilarity(existing.name, usage.name) >= MATCH_THRESHOLD
+        ));
+
+      if (!group) {
+        group = { suggestedName: match ? match.vendor.name : usage.name, names: [], vendor: match?.vendor, count: 0, total: 0 };
+        groups.push(group);
+      }
+
+      group.names.push(usage);
+      group.count += usage.count;
+      group.total = roundCurrency(group.total + usage.total);
+    }
+
+    return groups.sort((a, b) => b.total - a.total);
+  },
+
+  // Spend per vendor, largest first, with unlinked spend as a final "Unassigned" row
+  buildVendorSpendReport(records: VendorSpendRecord[], vendors: Vendor[], startDate: string, endDate: string): VendorSpendReport {
+    const byVendor = new Map<string | null, VendorSpend>();
+
+    records
+      .filter(record => record.date >= startDate && record.date <= endDate)
+      .forEach(record => {
+        const vendor = record.vendorId ? vendors.find(candidate => candidate.id === record.vendorId) : undefined;
+        const key = vendor ? vendor.id : null;
+        const spend = byVendor.get(key) || {
+          vendorId: key,
+          vendorName: vendor ? vendor.name : 'Unassigned',
+          expenseCount: 0,
+          billCount: 0,
+          taxAmount: 0,
+          total: 0,
+          lastPurchaseDate: null
+        };
+
+        byVendor.set(key, {
+          ...spend,
+          expenseCount: spend.expenseCount + (record.source === 'expense' ? 1 : 0),
+          billCount: spend.billCount + (record.source === 'bill' ? 1 : 0),
+          taxAmount: roundCurrency(spend.taxAmount + record.taxAmount),
+          total: roundCurrency(spend.total + record.amount),
+          lastPurchaseDate: !spend.lastPurchaseDate || record.date > spend.lastPurchaseDate ? record.date : spend.lastPurchaseDate
+        });
+      });
+
+    const rows = [...byVendor.values()].sort((a, b) => {
+      if (a.vendorId === null) return 1;
+      if (b.vendorId === null) return -1;
+      return b.total - a.total;
+    });
+
+    return {
+      startDate,
+      endDate,
+      vendors: rows,
+      total: roundCurrency(rows.reduce((sum, row) => sum + row.total, 0))
+    };
+  },
+
+  validateVendor(vendor: Pick<Vendor, 'name'> & Partial<Pick<Vendor, 'gstNumber'>>): void {
+    if (!vendor.name || vendor.name.trim().length === 0) {
+      throw new Error('Vendor name is required');
+    }
+
+    // NZ GST numbers are 8 or 9 digits, usually written 123-456-789
+    if (vendor.gstNumber && !/^\d{8,9}$/.test(vendor.gstNumber.replace(/[\s-]/g, ''))) {
+      throw new Error('GST number must be 8 or 9 digits');
+    }
+  },
+};
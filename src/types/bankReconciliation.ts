@@ -0,0 +1,60 @@
+// Bank Reconciliation Types
+
+export type ReconciliationMatchType = 'payment' | 'expense';
+
+export interface ReconciliationMatch {
+  id: string;
+  bankTransactionId: string;
+  matchType: ReconciliationMatchType;
+  paymentId?: string | null;
+  expenseId?: string | null;
+  amount: number;
+  userId?: string;
+  createdAt?: string;
+}
+
+export interface SupabaseReconciliationMatch {
+  id: string;
+  bank_transaction_id: string;
+  match_type: ReconciliationMatchType;
+  payment_id: string | null;
+  expense_id: string | null;
+  amount: number;
+  user_id: string;
+  created_at: string;
+}
+
+// A payment (money in) or expense (money out) that a bank transaction can be matched to
+export interface ReconciliationCandidate {
+  id: string;
+  matchType: ReconciliationMatchType;
+  date: string;
+  amount: number;
+  description: string;
+  reference?: string | null;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+// One or more candidates that together account for a bank transaction
+export interface MatchSuggestion {
+  bankTransactionId: string;
+  candidates: ReconciliationCandidate[];
+  score: number; // 0-100
+  confidence: MatchConfidence;
+  reasons: string[];
+}
+
+export interface MatchSuggestionOptions {
+  dateWindowDays?: number;
+  maxCandidatesPerMatch?: number; // Largest group considered for one-to-many matches
+  maxSuggestions?: number;
+}
+
+export interface ReconciliationSummary {
+  statementBalance: number;
+  ledgerBalance: number; // Opening balance plus reconciled transactions
+  difference: number;
+  reconciledCount: number;
+  unreconciledCount: number;
+}
@@ -0,0 +1,62 @@
+// Bank Rule Types
+// User-defined rules that categorise imported bank transactions
+import { Json } from '@/integrations/supabase/types';
+import { TaxCode } from './index';
+
+export type BankRuleTextOperator = 'contains' | 'regex';
+
+// Every condition that is set must match for the rule to apply
+export interface BankRuleConditions {
+  descriptionOperator?: BankRuleTextOperator;
+  descriptionValue?: string;
+  amountMin?: number | null;
+  amountMax?: number | null;
+  transactionType?: 'debit' | 'credit' | null;
+  bankAccountId?: string | null;
+}
+
+export interface BankRuleActions {
+  expenseCategoryId?: string | null;
+  merchant?: string | null;
+  customerId?: string | null;
+  taxCode?: TaxCode | null;
+  autoCreateExpense?: boolean; // Money spent only; creates and reconciles an expense on import
+}
+
+export interface BankRule {
+  id: string;
+  name: string;
+  priority: number; // Lower numbers are evaluated first
+  isActive: boolean;
+  conditions: BankRuleConditions;
+  actions: BankRuleActions;
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseBankRule {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  conditions: Json; // BankRuleConditions stored as JSONB
+  actions: Json; // BankRuleActions stored as JSONB
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Minimal transaction shape a rule is evaluated against
+export interface BankRuleSubject {
+  description: string;
+  amount: number;
+  type: 'debit' | 'credit';
+  bankAccountId?: string;
+}
+
+export interface BankRuleTestResult<T extends BankRuleSubject = BankRuleSubject> {
+  matched: T[];
+  // Transactions the rule matches but an earlier rule would already claim
+  shadowed: T[];
+}
@@ -1,4 +1,5 @@
 // Bank Transaction Import Types
+import { TaxCode } from './index';
 
 export interface BankAccount {
   id: string;
@@ -9,6 +10,8 @@ export interface BankAccount {
   currency: string;
   openingBalance: number;
   currentBalance: number;
+  statementBalance?: number | null; // Closing balance from the latest bank statement
+  statementDate?: string | null;
   isActive: boolean;
   userId?: string;
   createdAt?: string;
@@ -24,6 +27,8 @@ export interface SupabaseBankAccount {
   currency: string;
   opening_balance: number;
   current_balance: number;
+  statement_balance?: number | null;
+  statement_date?: string | null;
   is_active: boolean;
   user_id: string;
   created_at: string;
@@ -36,12 +41,19 @@ export interface BankTransaction {
   transactionDate: string;
   description: string;
   reference?: string;
+  externalId?: string; // Bank-assigned id (OFX FITID / CAMT entry reference)
   amount: number;
   type: 'debit' | 'credit';
   balance?: number;
   category?: string;
   merchant?: string;
+  expenseCategoryId?: string | null;
+  customerId?: string | null;
+  taxCode?: TaxCode | null;
+  bankRuleId?: string | null; // Bank rule that categorised the transaction on import
+  vendorId?: string | null;
   isReconciled: boolean;
+  reconciledAt?: string | null;
   notes?: string;
   userId?: string;
   createdAt?: string;
@@ -54,12 +66,19 @@ export interface SupabaseBankTransaction {
   transaction_date: string;
   description: string;
   reference: string | null;
+  external_id?: string | null;
   amount: number;
   type: 'debit' | 'credit';
   balance: number | null;
   category: string | null;
   merchant: string | null;
+  expense_category_id?: string | null;
+  customer_id?: string | null;
+  tax_code?: string | null;
+  bank_rule_id?: string | null;
+  vendor_id?: string | null;
   is_reconciled: boolean;
+  reconciled_at?: string | null;
   notes: string | null;
   user_id: string;
   created_at: string;
@@ -70,11 +89,17 @@ export interface ImportedTransaction {
   date: string;
   description: string;
   reference?: string;
+  externalId?: string;
   amount: number;
   type: 'debit' | 'credit';
   balance?: number;
   category?: string;
   merchant?: string;
+  expenseCategoryId?: string | null;
+  customerId?: string | null;
+  taxCode?: TaxCode | null;
+  bankRuleId?: string | null;
+  vendorId?: string | null;
 }
 
 export interface TransactionImportResult {
@@ -88,19 +113,26 @@ export interface TransactionImportResult {
 export interface CSVColumnMapping {
   date: string;
   description: string;
-  amount: string;
+  amount?: string; // Signed amount; alternatively map separate debit and credit columns
+  debit?: string;
+  credit?: string;
   type?: string;
   balance?: string;
   reference?: string;
   merchant?: string;
+  externalId?: string; // Bank's unique transaction id column, used for duplicate detection
 }
 
+export type ImportFileType = 'csv' | 'pdf' | 'ofx' | 'qfx' | 'camt053';
+
 export interface TransactionImportConfig {
   bankAccountId: string;
-  fileType: 'csv' | 'pdf';
+  fileType: ImportFileType;
   csvMapping?: CSVColumnMapping;
   skipDuplicates: boolean;
   dateFormat?: string;
+  delimiter?: string; // Detected from the file when not set
+  skipRows?: number; // Preamble rows above the CSV header
 }
 
 // Account Contact Types for Tax/IRD purposes
@@ -0,0 +1,71 @@
+// Supplier Bill Types
+import { TaxCode } from './index';
+import { BankAccount } from './bankTransaction';
+
+export type BillStatus = 'awaiting_payment' | 'partially_paid' | 'paid' | 'void';
+
+export interface BillItem {
+  description: string;
+  quantity: number;
+  rate: number; // Excluding GST
+  total: number;
+  taxCode: TaxCode;
+  accountId?: string | null; // Expense account; purchases (cost of goods sold) when not set
+}
+
+export interface BillPayment {
+  id: string;
+  billId: string;
+  bankAccountId: string;
+  bankAccount?: Pick<BankAccount, 'id' | 'accountName' | 'bankName'>;
+  amount: number;
+  paymentDate: string;
+  reference?: string | null;
+  journalEntryId?: string | null;
+  userId?: string;
+  createdAt?: string;
+}
+
+export interface Bill {
+  id: string;
+  billNumber?: string | null;
+  supplierName: string;
+  vendorId?: string | null;
+  billDate: string;
+  dueDate: string;
+  items: BillItem[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  currency: string;
+  amountPaid: number;
+  balanceDue: number;
+  status: BillStatus;
+  notes?: string | null;
+  receiptUrl?: string | null;
+  journalEntryId?: string | null;
+  payments?: BillPayment[];
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CreateBillRequest {
+  billNumber?: string;
+  supplierName: string;
+  vendorId?: string | null;
+  billDate: string;
+  dueDate: string;
+  items: BillItem[];
+  currency?: string;
+  notes?: string;
+  receiptUrl?: string | null;
+}
+
+export interface RecordBillPaymentRequest {
+  billId: string;
+  bankAccountId: string;
+  amount: number;
+  paymentDate: string;
+  reference?: string;
+}
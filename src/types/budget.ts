@@ -0,0 +1,56 @@
+// Budget and budget-vs-actual types
+
+export type BudgetTargetType = 'account' | 'category';
+
+export interface Budget {
+  id: string;
+  targetType: BudgetTargetType;
+  targetId: string; // Account id or expense category id
+  periodMonth: string; // yyyy-MM-01
+  amount: number;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A line that can be budgeted: a revenue or expense account, or an expense category
+export interface BudgetTarget {
+  type: BudgetTargetType;
+  id: string;
+  name: string;
+  accountNumber?: string;
+  kind: 'revenue' | 'expense'; // Revenue is favourable above budget, expenses below it
+}
+
+export interface BudgetCell {
+  targetType: BudgetTargetType;
+  targetId: string;
+  periodMonth: string;
+  amount: number;
+}
+
+export interface BudgetCsvImport {
+  cells: BudgetCell[];
+  unmatchedNames: string[];
+  errors: string[];
+}
+
+export interface BudgetPeriodAmount {
+  periodMonth: string;
+  budget: number;
+  actual: number;
+  variance: number; // Actual minus budget
+  variancePercent: number | null; // Variance as a percentage of budget; null when nothing was budgeted
+}
+
+export interface BudgetVsActualLine {
+  target: BudgetTarget;
+  periods: BudgetPeriodAmount[];
+  total: BudgetPeriodAmount;
+  overBudget: boolean; // Expense lines that have spent more than their budget over the range
+}
+
+export interface BudgetVsActualReport {
+  months: string[];
+  lines: BudgetVsActualLine[];
+}
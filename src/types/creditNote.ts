@@ -0,0 +1,90 @@
+// Credit Note Types
+import { Customer, Invoice, TaxCode } from './index';
+import { Json } from '@/integrations/supabase/types';
+
+export type CreditNoteStatus = 'issued' | 'void';
+
+export interface CreditNoteItem {
+  lineItemId?: string | null; // Original invoice line being credited
+  description: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  total: number;
+  taxCode?: TaxCode; // Copied from the invoice line; missing on older credit notes
+}
+
+export interface CreditNoteApplication {
+  id: string;
+  creditNoteId: string;
+  invoiceId: string;
+  invoiceNumber?: string;
+  amount: number;
+  appliedDate: string;
+  userId?: string;
+  createdAt?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  invoice?: Pick<Invoice, 'id' | 'invoiceNumber' | 'date' | 'total'>;
+  customerId: string;
+  customer?: Customer;
+  date: string;
+  reason: string;
+  items: CreditNoteItem[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  currency: string;
+  exchangeRate?: number | null; // Base currency units per one unit of currency, copied from the invoice
+  amountApplied: number;
+  remainingCredit: number; // Held as customer credit until applied
+  status: CreditNoteStatus;
+  journalEntryId?: string | null;
+  applications?: CreditNoteApplication[];
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseCreditNote {
+  id: string;
+  credit_note_number: string;
+  invoice_id: string;
+  customer_id: string;
+  date: string;
+  reason: string;
+  items: Json; // CreditNoteItem[] stored as JSONB
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  currency: string;
+  exchange_rate: number | null;
+  amount_applied: number;
+  status: CreditNoteStatus;
+  journal_entry_id: string | null;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SupabaseCreditNoteApplication {
+  id: string;
+  credit_note_id: string;
+  invoice_id: string;
+  amount: number;
+  applied_date: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface CreateCreditNoteRequest {
+  invoice: Invoice;
+  items: CreditNoteItem[];
+  reason: string;
+  date: string;
+  applyToInvoice: boolean; // false holds the full amount as customer credit
+}
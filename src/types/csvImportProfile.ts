@@ -0,0 +1,31 @@
+// CSV Import Profile Types
+// Saved column mappings so repeat imports from the same bank skip the mapping step
+import { Json } from '@/integrations/supabase/types';
+import { CSVColumnMapping } from './bankTransaction';
+
+export interface CSVImportProfile {
+  id: string;
+  name: string;
+  bankAccountId?: string | null; // Profiles without an account are offered for every account
+  columnMapping: CSVColumnMapping;
+  dateFormat: string;
+  delimiter?: string | null;
+  headerFingerprint: string; // Normalised header row the profile was saved from
+  isBuiltIn?: boolean;
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseCSVImportProfile {
+  id: string;
+  name: string;
+  bank_account_id: string | null;
+  column_mapping: Json; // CSVColumnMapping stored as JSONB
+  date_format: string;
+  delimiter: string | null;
+  header_fingerprint: string;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
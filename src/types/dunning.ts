@@ -0,0 +1,84 @@
+// Dunning Types
+// Policies that decide which payment reminder is due for each open invoice
+import { Json } from '@/integrations/supabase/types';
+
+export type ReminderType = 'gentle' | 'firm' | 'final';
+
+export interface DunningStep {
+  offsetDays: number; // Days relative to the due date; negative values remind before it is due
+  reminderType: ReminderType;
+}
+
+export interface DunningPolicy {
+  id: string;
+  name: string;
+  steps: DunningStep[];
+  isActive: boolean;
+  isDefault: boolean; // The policy applied to open invoices
+  autoSend: boolean; // Send due reminders without confirmation once a day
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type InvoiceReminderTrigger = 'automatic' | 'manual';
+
+// Log of every reminder sent for an invoice
+export interface InvoiceReminder {
+  id: string;
+  invoiceId: string;
+  dunningPolicyId?: string | null;
+  stepOffsetDays?: number | null;
+  reminderType: ReminderType;
+  sentTo: string;
+  sentAt: string;
+  trigger: InvoiceReminderTrigger;
+  messageId?: string | null;
+  userId?: string;
+}
+
+// A reminder the policy says should go out now
+export interface DueReminder {
+  invoiceId: string;
+  invoiceNumber: string;
+  customerName: string;
+  customerEmail?: string | null;
+  dueDate: string;
+  total: number;
+  currency: string;
+  daysPastDue: number; // Negative before the due date
+  step: DunningStep;
+  lastReminderAt?: string | null;
+}
+
+export interface DunningRunResult {
+  sent: DueReminder[];
+  skipped: { reminder: DueReminder; reason: string }[];
+  failed: { reminder: DueReminder; error: string }[];
+}
+
+export interface SupabaseDunningPolicy {
+  id: string;
+  name: string;
+  steps: Json; // DunningStep[] stored as JSONB
+  is_active: boolean;
+  is_default: boolean;
+  auto_send: boolean;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SupabaseInvoiceReminder {
+  id: string;
+  invoice_id: string;
+  dunning_policy_id: string | null;
+  step_offset_days: number | null;
+  reminder_type: string;
+  sent_to: string;
+  sent_at: string;
+  trigger: string;
+  message_id: string | null;
+  user_id: string;
+  created_at: string;
+}
@@ -0,0 +1,45 @@
+// Exchange Rate Types
+
+export type ExchangeRateSource = 'manual' | 'csv';
+
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // Units of toCurrency per one unit of fromCurrency
+  rateDate: string;
+  source: ExchangeRateSource;
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string;
+  source: string | null;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExchangeRateInput {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  rateDate: string;
+}
+
+export interface ExchangeRateCsvParseResult {
+  rates: ExchangeRateInput[];
+  errors: string[];
+}
+
+export interface RealisedFxResult {
+  invoiceBaseAmount: number; // Receivable cleared at the invoice rate
+  paymentBaseAmount: number; // Cash received at the payment rate
+  gainLoss: number; // Positive for a gain, negative for a loss
+}
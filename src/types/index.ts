@@ -1,3 +1,5 @@
+import type { ChartTemplatePack } from './payment';
+
 export interface Customer {
   id: string;
   name: string;
@@ -116,8 +118,21 @@ export interface BusinessProfile {
   updatedAt?: string;
   invoiceNumberFormat?: string | null;
   invoiceNumberSequence?: number | null;
+  baseCurrency?: string | null; // Currency reports are converted into, defaults to NZD
 }
 
+// GST treatment of a line: standard-rated, zero-rated (e.g. exports), exempt (e.g. financial services) or outside GST
+export type TaxCode = 'GST15' | 'ZERO' | 'EXEMPT' | 'NOTAX';
+
+export const DEFAULT_TAX_CODE: TaxCode = 'GST15';
+
+export const TAX_CODES: Record<TaxCode, { label: string; description: string }> = {
+  GST15: { label: 'GST 15%', description: 'Standard-rated supply' },
+  ZERO: { label: 'Zero-rated', description: 'Zero-rated supply, such as exported goods and services' },
+  EXEMPT: { label: 'Exempt', description: 'Exempt supply, such as financial services or residential rent' },
+  NOTAX: { label: 'No GST', description: 'Outside the scope of GST' },
+};
+
 export interface LineItem {
   id: string;
   invoiceId?: string;
@@ -126,6 +141,7 @@ export interface LineItem {
   unit: string;  // Already has this field
   rate: number;
   tax?: number | null;
+  taxCode?: TaxCode;
   total: number;
   createdAt?: string;
   updatedAt?: string;
@@ -186,6 +202,7 @@ export interface Invoice {
   notes?: string | null;
   terms?: string | null;
   currency: string;
+  exchangeRate?: number | null; // Base currency units per one unit of currency, locked at creation
   templateName?: string; // Template used for this invoice
   userId?: string; // Added for Supabase compatibility
   createdAt?: string;
@@ -228,6 +245,7 @@ export interface SupabaseInvoice {
   notes: string | null;
   terms: string | null;
   currency: string;
+  exchange_rate: number | null;
   template_name: string | null;
   user_id: string;
   created_at: string;
@@ -247,6 +265,7 @@ export interface SupabaseLineItem {
   unit: string;  // This field already exists
   rate: number;
   tax: number | null;
+  tax_code?: string | null;
   total: number;
   created_at: string;
   updated_at: string;
@@ -275,6 +294,7 @@ export interface SupabaseBusinessProfile {
   updated_at: string;
   invoice_number_format: string | null;
   invoice_number_sequence: number | null;
+  base_currency: string | null;
 }
 
 export interface ItemCategory {
@@ -296,6 +316,7 @@ export interface Item {
   salePrice?: number | null;
   purchasePrice?: number | null;
   taxRate?: number | null;
+  taxCode?: TaxCode;
   enableSaleInfo: boolean;
   enablePurchaseInfo: boolean;
   unit: string;
@@ -321,6 +342,7 @@ export interface SupabaseItem {
   sale_price: number | null;
   purchase_price: number | null;
   tax_rate: number | null;
+  tax_code?: string | null;
   enable_sale_info: boolean;
   enable_purchase_info: boolean;
   unit: string;
@@ -379,6 +401,7 @@ export interface Expense {
   accountId?: string | null;
   account?: Account;
   vendorName?: string | null;
+  vendorId?: string | null;
   receiptUrl?: string | null;
   expenseDate: string;
   status: ExpenseStatus;
@@ -411,6 +434,7 @@ export interface SupabaseExpense {
   category_id: string | null;
   account_id: string | null;
   vendor_name: string | null;
+  vendor_id?: string | null;
   receipt_url: string | null;
   expense_date: string;
   status: ExpenseStatus;
@@ -433,6 +457,7 @@ export interface OnboardingData {
   businessName: string;
   businessEmail: string;
   country: string;
+  chartTemplatePack?: ChartTemplatePack | null; // Chart of accounts installed when setup completes
   
   // Invoice setup step (recommended)
   invoiceNumberFormat?: string;
@@ -470,6 +495,30 @@ export interface SharedInvoice {
   accessCount: number;
   isActive: boolean;
   createdBy: string;
+  hasPasscode?: boolean;
+  lastViewedAt?: string | null;
+  revokedAt?: string | null;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface SharedInvoiceView {
+  id: string;
+  sharedInvoiceId: string;
+  viewedAt: string;
+  userAgent?: string | null;
+}
+
+// Outcome of opening a share link; the invoice is only included when status is 'ok'
+export type SharedInvoiceAccessStatus = 'ok' | 'unavailable' | 'passcode_required' | 'invalid_passcode' | 'passcode_locked';
+
+export interface SharedInvoiceAccess {
+  status: SharedInvoiceAccessStatus;
+  invoiceData?: Invoice;
+  templateData?: {
+    templateName: string;
+    businessProfile: BusinessProfile;
+  };
 }
 
 export interface SupabaseSharedInvoice {
@@ -483,6 +532,9 @@ export interface SupabaseSharedInvoice {
   access_count: number;
   is_active: boolean;
   created_by: string;
+  passcode_hash?: string | null;
+  last_viewed_at?: string | null;
+  revoked_at?: string | null;
 }
 
 // Template types
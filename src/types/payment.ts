@@ -1,9 +1,12 @@
 // Payment & Accounting System Types
-import { Invoice, Customer, BusinessProfile, Account } from './index';
+import { Invoice, Customer, BusinessProfile, Account, TaxCode, LineItem } from './index';
+import { AgingBuckets } from './statement';
+import { PaymentGatewayName } from './paymentGateway';
 
 export interface Payment {
   id: string;
-  invoiceId: string;
+  invoiceId: string | null; // Null for batch payments split across invoices
+  customerId?: string | null;
   userId: string;
   paymentMethod: 'bank_transfer' | 'cash' | 'cheque' | 'credit_card' | 'online';
   amount: number;
@@ -11,6 +14,11 @@ export interface Payment {
   referenceNumber?: string;
   notes?: string;
   status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded';
+  exchangeRate?: number; // Base currency units per one unit of the invoice currency at the payment date
+  gateway?: PaymentGatewayName | null; // Set on payments taken online
+  gatewayPaymentId?: string | null;
+  allocations?: PaymentAllocation[];
+  amountRefunded?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -18,6 +26,7 @@ export interface Payment {
 export interface Receipt {
   id: string;
   paymentId: string;
+  refundId?: string | null; // Set on refund receipts
   receiptNumber: string;
   userId: string;
   generatedAt: string;
@@ -38,6 +47,9 @@ export interface ReceiptData {
   paymentMethod: string;
   balanceAfterPayment: number;
   taxBreakdown?: TaxBreakdown;
+  allocations?: PaymentAllocation[]; // Every invoice a batch payment was split across
+  unappliedAmount?: number; // Overpayment held as customer credit
+  refund?: PaymentRefund; // Present on refund receipts; amountPaid is then the amount refunded
 }
 
 export interface TaxConfiguration {
@@ -56,6 +68,9 @@ export interface TaxConfiguration {
   updatedAt: string;
 }
 
+// Net amount and tax per tax code, after discounts are apportioned
+export type TaxCodeTotals = Partial<Record<TaxCode, { amount: number; taxAmount: number }>>;
+
 export interface TaxBreakdown {
   subtotal: number;
   taxAmount: number;
@@ -63,14 +78,17 @@ export interface TaxBreakdown {
   taxName: string;
   taxInclusive: boolean;
   total: number;
+  taxCodeTotals?: TaxCodeTotals;
 }
 
 export interface EnhancedInvoice extends Invoice {
   paymentStatus: 'unpaid' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
   totalPaid: number;
+  totalCredited?: number;
   balanceDue: number;
   taxInclusive: boolean;
   taxBreakdown?: TaxBreakdown;
+  lineItems?: LineItem[];
   payments?: Payment[];
 }
 
@@ -80,10 +98,12 @@ export interface JournalEntry {
   entryNumber: string;
   entryDate: string;
   description: string;
-  referenceType?: 'invoice' | 'payment' | 'expense' | 'manual';
+  referenceType?: 'invoice' | 'payment' | 'expense' | 'credit_note' | 'manual' | 'year_end_close';
   referenceId?: string;
   totalAmount: number;
   status: 'draft' | 'posted' | 'reversed';
+  autoPosted?: boolean; // Created by the posting engine
+  reversesEntryId?: string | null;
   lines: JournalEntryLine[];
   createdAt: string;
   updatedAt: string;
@@ -110,12 +130,17 @@ export interface EnhancedAccount extends Account {
   description?: string;
   normalBalance?: 'debit' | 'credit';
   calculatedBalance?: number;
+  mergedIntoAccountId?: string;
 }
 
+export type ChartTemplatePack = 'nz_sole_trader' | 'nz_company' | 'au_small_business';
+
 export interface AccountTemplate {
   id: string;
+  templatePack: ChartTemplatePack;
   name: string;
   accountNumber: string;
+  parentAccountNumber?: string;
   accountClass: string;
   accountType: string;
   normalBalance: 'debit' | 'credit';
@@ -187,8 +212,10 @@ export interface TaxCalculationResult {
       description: string;
       amount: number;
       taxable: boolean;
+      taxCode: TaxCode;
       taxAmount: number;
     }>;
+    taxCodeTotals: TaxCodeTotals;
   };
 }
 
@@ -196,7 +223,70 @@ export interface PaymentAllocation {
   invoiceId: string;
   invoiceNumber: string;
   amountAllocated: number;
-  remainingBalance: number;
+  remainingBalance: number; // Invoice balance after this allocation
+}
+
+// Open invoice a batch payment can be allocated to
+export interface AllocatableInvoice {
+  id: string;
+  invoiceNumber: string;
+  date?: string;
+  dueDate: string;
+  balanceDue: number;
+  currency?: string;
+}
+
+export interface AllocationResult {
+  allocations: PaymentAllocation[];
+  unappliedAmount: number;
+}
+
+// Money returned to the customer against an earlier payment
+export interface PaymentRefund {
+  id: string;
+  paymentId: string;
+  userId: string;
+  amount: number;
+  refundDate: string;
+  refundMethod: Payment['paymentMethod'];
+  reason: string;
+  status: 'pending' | 'completed' | 'failed'; // Pending while an online refund is with the gateway
+  gatewayRefundId?: string | null;
+  journalEntryId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRefundRequest {
+  paymentId: string;
+  amount: number;
+  refundDate: string;
+  reason: string;
+  refundMethod?: Payment['paymentMethod']; // Defaults to the original payment method
+}
+
+export interface RefundResult {
+  refund: PaymentRefund;
+  payment: Payment;
+  receipt: Receipt;
+}
+
+// How a batch payment refund is taken back: unapplied credit first, then the latest allocations
+export interface RefundPlan {
+  fromCredit: number;
+  allocationReductions: Array<{ invoiceId: string; amount: number }>;
+}
+
+// Overpayment held for a customer until it is applied to a later invoice
+export interface CustomerCredit {
+  id: string;
+  customerId: string;
+  paymentId?: string | null;
+  amount: number;
+  amountApplied: number;
+  remainingCredit: number;
+  currency: string;
+  createdAt: string;
 }
 
 export interface PaymentProcessingResult {
@@ -215,8 +305,11 @@ export interface FinancialSummary {
   netIncome: number;
   totalReceivables: number;
   totalPayables: number;
+  payablesAging?: AgingBuckets; // Unpaid bills by days past due
+  openBills?: number;
   cashPosition: number;
   gstLiability: number;
+  baseCurrency?: string; // Currency all amounts are converted into
   period: {
     startDate: string;
     endDate: string;
@@ -244,6 +337,28 @@ export interface CreatePaymentRequest {
   referenceNumber?: string;
   notes?: string;
   generateReceipt?: boolean;
+  gateway?: PaymentGatewayName;
+  gatewayPaymentId?: string;
+}
+
+// One payment split across several of a customer's invoices
+export interface CreateBatchPaymentRequest {
+  customerId: string;
+  paymentMethod: Payment['paymentMethod'];
+  amount: number;
+  paymentDate: string;
+  currency?: string; // Currency of the invoices being settled; the invoice due first when omitted
+  referenceNumber?: string;
+  notes?: string;
+  allocations?: Array<{ invoiceId: string; amount: number }>; // Manual override; oldest invoice first when omitted
+}
+
+export interface BatchPaymentResult {
+  payment: Payment;
+  allocations: PaymentAllocation[];
+  unappliedAmount: number;
+  receipt: Receipt;
+  customerCredit?: CustomerCredit;
 }
 
 export interface TaxCalculationRequest {
@@ -251,7 +366,8 @@ export interface TaxCalculationRequest {
     description: string;
     quantity: number;
     unitPrice: number;
-    taxable: boolean;
+    taxCode?: TaxCode;
+    taxable?: boolean; // Used when no tax code is given: false is treated as zero-rated
   }>;
   taxInclusive: boolean;
   additionalCharges?: number;
@@ -286,15 +402,60 @@ export interface PaymentValidationRules {
 }
 
 // Audit and compliance types
+export type AuditEntityType = 'invoice' | 'customer' | 'expense' | 'journal_entry';
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'status_change'
+  | 'delete'
+  | 'send'
+  | 'share'
+  | 'view'
+  | 'payment'
+  | 'reminder';
+
 export interface AuditTrail {
   id: string;
-  userId: string;
-  action: string;
-  entityType: string;
+  userId: string; // Owner of the audited record
+  actorId?: string | null; // Who made the change; empty for anonymous share link views
+  actorEmail?: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
   entityId: string;
+  entityLabel?: string | null; // Invoice number, customer name, etc. at the time of the change
   oldData?: Record<string, any>;
   newData?: Record<string, any>;
   timestamp: string;
   ipAddress?: string;
   userAgent?: string;
+}
+
+export interface SupabaseAuditLog {
+  id: string;
+  user_id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  entity_type: string;
+  entity_id: string;
+  entity_label: string | null;
+  action: string;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  fromDate?: string;
+  toDate?: string;
+  search?: string;
 }
\ No newline at end of file
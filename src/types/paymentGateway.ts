@@ -0,0 +1,65 @@
+// Online payment gateway types
+
+export type PaymentGatewayName = 'mock' | 'stripe';
+
+export type CheckoutSessionStatus = 'pending' | 'completed' | 'expired' | 'failed';
+
+export interface CheckoutSessionRequest {
+  invoiceId: string;
+  shareToken?: string; // Set when paying from a share link; the gateway prices the invoice from the link
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string; // Session id at the gateway
+  gateway: PaymentGatewayName;
+  url: string; // Where to send the customer to pay
+  status: CheckoutSessionStatus;
+  invoiceId: string;
+  amount: number;
+  currency: string;
+}
+
+export type GatewayWebhookEventType = 'checkout.completed' | 'checkout.expired' | 'refund.succeeded';
+
+// Gateway webhook normalised by its adapter
+export interface GatewayWebhookEvent {
+  id: string;
+  type: GatewayWebhookEventType;
+  gateway: PaymentGatewayName;
+  sessionId?: string;
+  invoiceId?: string;
+  amount: number;
+  currency: string;
+  paymentReference?: string; // Payment id at the gateway
+  occurredAt: string;
+}
+
+export interface GatewayRefundRequest {
+  paymentReference: string;
+  amount: number; // In the currency the payment was taken in
+  reason?: string;
+}
+
+export interface GatewayRefundResult {
+  id: string;
+  status: 'succeeded' | 'pending' | 'failed';
+  amount: number;
+}
+
+export interface PaymentGatewayAdapter {
+  name: PaymentGatewayName;
+  label: string;
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>;
+  // Payloads are trusted: signatures are checked where the webhook is received
+  parseWebhookEvent(payload: string): GatewayWebhookEvent;
+  refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+  // Completed checkouts whose payment hasn't been recorded yet
+  listCompletedCheckouts(): Promise<GatewayWebhookEvent[]>;
+  markCheckoutSettled(event: GatewayWebhookEvent, paymentId: string): Promise<void>;
+}
@@ -0,0 +1,14 @@
+// Period locking and year-end close types
+
+export interface PeriodLockSettings {
+  lockDate: string | null; // No one can change transactions on or before it
+}
+
+export type LockedRecordType = 'invoice' | 'expense' | 'payment' | 'credit_note' | 'journal_entry';
+
+export interface YearEndCloseResult {
+  journalEntryId: string;
+  yearEndDate: string;
+  netProfit: number;
+  accountsClosed: number;
+}
@@ -0,0 +1,56 @@
+// Automatic double-entry posting types
+
+export type PostingRole = 'receivables' | 'customer_credits' | 'sales' | 'gst_output' | 'bank' | 'cash' | 'expense' | 'gst_input' | 'fx_gain_loss';
+
+export type PostingReferenceType = 'invoice' | 'payment' | 'expense';
+
+// Year-end closing entries are posted by the system but don't follow a record
+export type JournalReferenceType = PostingReferenceType | 'year_end_close';
+
+export interface PostingAccountMapping {
+  role: PostingRole;
+  accountId: string;
+}
+
+// One side of a posting before it's resolved to an account
+export interface PostingLeg {
+  role: PostingRole;
+  accountId?: string; // Overrides the role's mapped account, e.g. the account an expense was paid from
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+export interface PostingDraft {
+  referenceType: PostingReferenceType;
+  referenceId: string;
+  entryDate: string;
+  description: string;
+  legs: PostingLeg[];
+}
+
+export interface PostingJournalLine {
+  account_id: string;
+  description: string;
+  debit_amount: number;
+  credit_amount: number;
+  line_order: number;
+}
+
+// Automatic entry already in the ledger for a record
+export interface PostedEntry {
+  id: string;
+  entryNumber: string;
+  entryDate: string;
+  description: string;
+  reversesEntryId: string | null;
+  lines: PostingJournalLine[];
+}
+
+export type PostingOutcome = 'posted' | 'reposted' | 'reversed' | 'unchanged' | 'skipped';
+
+export interface PostingResult {
+  outcome: PostingOutcome;
+  journalEntryId: string | null;
+  reversalEntryId: string | null;
+}
@@ -0,0 +1,76 @@
+// Quote / Estimate Types
+import { AdditionalCharge, BusinessProfile, Customer, LineItem } from './index';
+import { Json } from '@/integrations/supabase/types';
+import { InvoiceTemplateId } from '@/components/invoice/templates/InvoiceTemplates';
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+export type QuoteResponse = 'accepted' | 'declined';
+
+export interface Quote {
+  id: string;
+  quoteNumber: string;
+  customerId: string;
+  customer?: Customer;
+  date: string;
+  expiryDate: string;
+  items: LineItem[];
+  subtotal: number;
+  taxAmount: number;
+  discount?: number | null;
+  additionalChargesList?: AdditionalCharge[];
+  additionalChargesTotal?: number;
+  total: number;
+  status: QuoteStatus;
+  notes?: string | null;
+  terms?: string | null;
+  currency: string;
+  templateName: InvoiceTemplateId;
+  shareToken: string;
+  respondedAt?: string | null;
+  respondedBy?: string | null; // Name the client entered when accepting or declining
+  responseNote?: string | null;
+  convertedInvoiceId?: string | null;
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseQuote {
+  id: string;
+  user_id: string;
+  quote_number: string;
+  customer_id: string;
+  date: string;
+  expiry_date: string;
+  items: Json;
+  subtotal: number;
+  tax_amount: number;
+  discount: number | null;
+  additional_charges_list: Json | null;
+  additional_charges_total: number | null;
+  total: number;
+  status: QuoteStatus;
+  notes: string | null;
+  terms: string | null;
+  currency: string;
+  template_name: string;
+  share_token: string;
+  responded_at: string | null;
+  responded_by: string | null;
+  response_note: string | null;
+  converted_invoice_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the public quote page receives for a share token
+export interface SharedQuote {
+  quote: Quote;
+  businessProfile: BusinessProfile | null;
+}
+
+export type CreateQuoteRequest = Omit<
+  Quote,
+  'id' | 'quoteNumber' | 'customer' | 'status' | 'shareToken' | 'respondedAt' | 'respondedBy' | 'responseNote' | 'convertedInvoiceId' | 'userId' | 'createdAt' | 'updatedAt'
+>;
@@ -0,0 +1,80 @@
+// Recurring Invoice Schedule Types
+import { AdditionalCharge, Customer, LineItem } from './index';
+import { Json } from '@/integrations/supabase/types';
+
+export type RecurringFrequency = 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const RECURRING_FREQUENCY_OPTIONS: { value: RecurringFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'fortnightly', label: 'Fortnightly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export type RecurringScheduleStatus = 'active' | 'paused' | 'completed';
+
+// Snapshot of the invoice fields copied onto every generated invoice
+export interface RecurringInvoiceTemplate {
+  items: Omit<LineItem, 'id' | 'invoiceId' | 'createdAt' | 'updatedAt'>[];
+  subtotal: number;
+  taxAmount: number;
+  discount?: number | null;
+  additionalCharges?: number | null;
+  additionalChargesList?: AdditionalCharge[];
+  additionalChargesTotal?: number;
+  total: number;
+  notes?: string | null;
+  terms?: string | null;
+  currency: string;
+  templateName?: string;
+  dueInDays: number; // Days between invoice date and due date
+}
+
+export interface RecurringInvoiceSchedule {
+  id: string;
+  name: string;
+  customerId: string;
+  customer?: Customer;
+  templateInvoiceId?: string | null;
+  template: RecurringInvoiceTemplate;
+  frequency: RecurringFrequency;
+  startDate: string;
+  endDate?: string | null;
+  nextRunDate: string;
+  lastRunDate?: string | null;
+  autoSend: boolean;
+  status: RecurringScheduleStatus;
+  occurrencesGenerated: number;
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseRecurringInvoiceSchedule {
+  id: string;
+  name: string;
+  customer_id: string;
+  template_invoice_id: string | null;
+  template_data: Json; // RecurringInvoiceTemplate stored as JSONB
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string;
+  last_run_date: string | null;
+  auto_send: boolean;
+  status: RecurringScheduleStatus;
+  occurrences_generated: number;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringRunResult {
+  scheduleId: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  runDate: string;
+  sent: boolean;
+  error?: string;
+}
@@ -0,0 +1,67 @@
+// Customer Statement Types
+import { Customer } from './index';
+
+// Open item lists only what is still owed; balance forward lists all activity in the period
+export type StatementStyle = 'open_item' | 'balance_forward';
+
+export type StatementLineType = 'invoice' | 'payment' | 'credit_note' | 'refund' | 'credit';
+
+// Everything that moves a customer's account balance
+export interface StatementTransaction {
+  date: string;
+  type: StatementLineType;
+  reference: string;
+  description: string;
+  debit: number; // Increases what the customer owes
+  credit: number; // Reduces what the customer owes
+  dueDate?: string;
+}
+
+export interface StatementLine extends StatementTransaction {
+  balance: number; // Running balance after this line
+}
+
+// Outstanding invoice for open-item statements and aging
+export interface StatementOpenItem {
+  invoiceId: string;
+  invoiceNumber: string;
+  date: string;
+  dueDate: string;
+  total: number;
+  balanceDue: number;
+}
+
+export interface AgingBuckets {
+  current: number; // Not yet due
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+export interface CustomerStatement {
+  customer: Customer;
+  style: StatementStyle;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+  aging: AgingBuckets;
+  generatedAt: string;
+}
+
+export interface StatementOptions {
+  periodStart: string;
+  periodEnd: string;
+  style: StatementStyle;
+}
+
+export interface StatementEmailResult {
+  customerId: string;
+  customerName: string;
+  success: boolean;
+  error?: string;
+}
@@ -0,0 +1,92 @@
+// Vendor Types
+// Suppliers that expenses, bills and imported bank transactions are attributed to
+import { PaymentMethod } from './index';
+
+export interface Vendor {
+  id: string;
+  name: string;
+  gstNumber?: string | null;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  defaultExpenseCategoryId?: string | null;
+  defaultPaymentMethod?: PaymentMethod | null;
+  aliases: string[]; // Other spellings merged into this vendor
+  notes?: string | null;
+  isActive: boolean;
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SupabaseVendor {
+  id: string;
+  name: string;
+  gst_number: string | null;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  default_expense_category_id: string | null;
+  default_payment_method: string | null;
+  aliases: string[];
+  notes: string | null;
+  is_active: boolean;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VendorMatch {
+  vendor: Vendor;
+  score: number; // 0-1, 1 when the normalised names are identical
+}
+
+// A free-text vendor name and how often it appears on records not yet linked to a vendor
+export interface VendorNameUsage {
+  name: string;
+  count: number;
+  total: number;
+}
+
+// Spellings that look like the same supplier, with the vendor they most likely belong to
+export interface VendorNameGroup {
+  suggestedName: string;
+  names: VendorNameUsage[];
+  vendor?: Vendor; // Set when the group matches an existing vendor
+  count: number;
+  total: number;
+}
+
+export interface VendorMergeResult {
+  expensesLinked: number;
+  billsLinked: number;
+  bankTransactionsLinked: number;
+}
+
+// Minimal spend record the report is built from
+export interface VendorSpendRecord {
+  vendorId?: string | null;
+  date: string;
+  amount: number;
+  taxAmount: number;
+  source: 'expense' | 'bill';
+}
+
+export interface VendorSpend {
+  vendorId: string | null; // null for spend not linked to a vendor
+  vendorName: string;
+  expenseCount: number;
+  billCount: number;
+  taxAmount: number;
+  total: number;
+  lastPurchaseDate: string | null;
+}
+
+export interface VendorSpendReport {
+  startDate: string;
+  endDate: string;
+  vendors: VendorSpend[];
+  total: number;
+}
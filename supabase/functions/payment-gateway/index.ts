@@ -0,0 +1,544 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Stripe Checkout for invoice payments. Stripe calls this function directly with its webhooks,
+// so deploy it with --no-verify-jwt; requests from the app are authorised below.
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY') ?? '';
+const STRIPE_WEBHOOK_SECRET = Deno.env.get('STRIPE_WEBHOOK_SECRET') ?? '';
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+// Origins the customer may be sent back to after checkout, comma separated (e.g. https://app.example.com)
+const APP_ORIGINS = (Deno.env.get('APP_ORIGINS') ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+// Stripe amounts are in the currency's smallest unit, except for these
+const ZERO_DECIMAL_CURRENCIES = ['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, stripe-signature',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface CreateCheckoutRequest {
+  action: 'create-checkout';
+  invoiceId: string;
+  shareToken?: string;
+  description?: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+interface RefundRequest {
+  action: 'refund';
+  paymentReference: string;
+  amount: number;
+  reason?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+
+const toMinorUnits = (amount: number, currency: string) =>
+  ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? Math.round(amount) : Math.round(amount * 100);
+
+const fromMinorUnits = (amount: number, currency: string) =>
+  ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? amount : amount / 100;
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// Template accounts for the payment posting when the owner hasn't mapped their own (see POSTING_ROLES in the app)
+const BANK_ACCOUNT_NUMBER = '1110';
+const RECEIVABLES_ACCOUNT_NUMBER = '1200';
+
+const stripeRequest = async (path: string, params?: URLSearchParams) => {
+  const response = await fetch(`${STRIPE_API_URL}${path}`, {
+    method: params ? 'POST' : 'GET',
+    headers: {
+      'Authorization': `Bearer ${STRIPE_SECRET_KEY}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params?.toString(),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error?.message || `Stripe request failed with status ${response.status}`);
+  }
+  return result;
+};
+
+const hex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Checks the Stripe-Signature header: an HMAC-SHA256 of "timestamp.payload" with the endpoint secret
+const verifyStripeSignature = async (payload: string, header: string) => {
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(STRIPE_WEBHOOK_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const expected = hex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`)));
+  return signatures.includes(expected);
+};
+
+const isAppUrl = (url: string) => {
+  try {
+    return APP_ORIGINS.includes(new URL(url).origin);
+  } catch {
+    return false;
+  }
+};
+
+// Signed-in user from the request's bearer token, or null for an anonymous request
+const getRequestUser = async (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+  if (!token) return null;
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return user;
+};
+
+const createCheckout = async (req: Request, request: CreateCheckoutRequest) => {
+  if (!request.invoiceId || !request.successUrl || !request.cancelUrl) {
+    throw new Error('Missing required fields');
+  }
+
+  // Stripe sends the customer to these after checkout, so they must not point anywhere but the app
+  if (!isAppUrl(request.successUrl) || !isAppUrl(request.cancelUrl)) {
+    return jsonResponse({ error: 'Redirect URLs must be on this app' }, 400);
+  }
+
+  // A customer pays through an open share link; anyone else has to be signed in as the invoice's owner.
+  // Share links can be revoked or expire, so paying through one needs it to still be open
+  let ownerId: string | null = null;
+  if (!request.shareToken) {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+    ownerId = user.id;
+  } else {
+    const { data: share } = await supabase
+      .from('shared_invoices')
+      .select('original_invoice_id, is_active, expires_at')
+      .eq('share_token', request.shareToken)
+      .maybeSingle();
+
+    const expired = share?.expires_at && new Date(share.expires_at) < new Date();
+    if (!share || !share.is_active || expired || share.original_invoice_id !== request.invoiceId) {
+      return jsonResponse({ error: 'This invoice link is no longer available' }, 404);
+    }
+  }
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('id, user_id, invoice_number, total, balance_due, currency, status')
+    .eq('id', request.invoiceId)
+    .single();
+
+  if (error || !invoice || (ownerId && invoice.user_id !== ownerId)) {
+    return jsonResponse({ error: 'Invoice not found' }, 404);
+  }
+
+  const amount = Number(invoice.balance_due ?? invoice.total);
+  if (invoice.status === 'paid' || amount <= 0) {
+    return jsonResponse({ error: 'This invoice has already been paid' }, 400);
+  }
+  const currency = (invoice.currency || 'NZD').toUpperCase();
+
+  const params = new URLSearchParams({
+    'mode': 'payment',
+    'success_url': `${request.successUrl}${request.successUrl.includes('?') ? '&' : '?'}session_id={CHECKOUT_SESSION_ID}`,
+    'cancel_url': request.cancelUrl,
+    'client_reference_id': invoice.id,
+    'metadata[invoice_id]': invoice.id,
+    'payment_intent_data[metadata][invoice_id]': invoice.id,
+    'line_items[0][quantity]': '1',
+    'line_items[0][price_data][currency]': currency.toLowerCase(),
+    'line_items[0][price_data][unit_amount]': String(toMinorUnits(amount, currency)),
+    'line_items[0][price_data][product_data][name]': request.description || `Invoice ${invoice.invoice_number}`,
+  });
+  if (request.customerEmail) {
+    params.set('customer_email', request.customerEmail);
+  }
+
+  const session = await stripeRequest('/checkout/sessions', params);
+
+  const { error: insertError } = await supabase
+    .from('payment_checkout_sessions')
+    .insert({
+      user_id: invoice.user_id,
+      invoice_id: invoice.id,
+      gateway: 'stripe',
+      external_id: session.id,
+      checkout_url: session.url,
+      amount,
+      currency,
+    });
+
+  if (insertError) throw insertError;
+
+  return jsonResponse({ id: session.id, url: session.url, amount, currency });
+};
+
+interface StripeCheckoutSession {
+  id: string;
+  payment_intent?: string | null;
+  payment_status?: 'paid' | 'unpaid' | 'no_payment_required';
+  amount_total?: number;
+}
+
+interface CheckoutSessionRow {
+  user_id: string;
+  invoice_id: string;
+  amount: number;
+  currency: string;
+  payment_id: string | null;
+}
+
+interface PaymentRow {
+  id: string;
+  user_id: string;
+  invoice_id: string;
+  payment_method: string;
+  amount: number;
+  payment_date: string;
+  reference_number: string | null;
+  notes: string | null;
+  status: string;
+  exchange_rate: number | null;
+  gateway: string;
+  gateway_payment_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Same status rules as PaymentService.updateInvoicePaymentStatus: payments net of refunds, allocations and credits
+const updateInvoicePaymentStatus = async (invoiceId: string) => {
+  const [{ data: invoice, error: invoiceError }, { data: payments, error: paymentsError }, { data: allocations, error: allocationsError }] = await Promise.all([
+    supabase.from('invoices').select('total, total_credited').eq('id', invoiceId).single(),
+    supabase.from('payments').select('amount, amount_refunded').eq('invoice_id', invoiceId).eq('status', 'completed'),
+    supabase.from('payment_allocations').select('amount, payments!inner(status)').eq('invoice_id', invoiceId).eq('payments.status', 'completed'),
+  ]);
+  if (invoiceError || paymentsError || allocationsError) throw invoiceError || paymentsError || allocationsError;
+
+  const totalPaid = roundCurrency(
+    (payments || []).reduce((sum, payment) => sum + Number(payment.amount) - Number(payment.amount_refunded || 0), 0) +
+    (allocations || []).reduce((sum, allocation) => sum + Number(allocation.amount), 0)
+  );
+  const settled = totalPaid + Number(invoice.total_credited || 0);
+  const paymentStatus = settled >= Number(invoice.total) ? 'paid' : settled > 0 ? 'partially_paid' : 'unpaid';
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({ total_paid: totalPaid, payment_status: paymentStatus, status: paymentStatus === 'paid' ? 'paid' : 'sent' })
+    .eq('id', invoiceId);
+  if (error) throw error;
+};
+
+// Numbered per month like the receipts the app issues (REC-YYYYMM-0001). A payment only ever gets one receipt,
+// so a retried webhook issues it only if the earlier delivery failed before it was saved
+const createReceipt = async (payment: PaymentRow) => {
+  const { data: issued, error: issuedError } = await supabase
+    .from('receipts')
+    .select('id')
+    .eq('payment_id', payment.id)
+    .maybeSingle();
+  if (issuedError) throw issuedError;
+  if (issued) return;
+
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const { count, error: countError } = await supabase
+    .from('receipts')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', payment.user_id)
+    .gte('created_at', `${year}-${month}-01`);
+  if (countError) throw countError;
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('*, customers(*)')
+    .eq('id', payment.invoice_id)
+    .single();
+  if (invoiceError) throw invoiceError;
+
+  const receiptNumber = `REC-${year}${month}-${String((count || 0) + 1).padStart(4, '0')}`;
+  const { error } = await supabase
+    .from('receipts')
+    .insert({
+      payment_id: payment.id,
+      receipt_number: receiptNumber,
+      user_id: payment.user_id,
+      receipt_data: {
+        payment: {
+          id: payment.id,
+          invoiceId: payment.invoice_id,
+          userId: payment.user_id,
+          paymentMethod: payment.payment_method,
+          amount: Number(payment.amount),
+          paymentDate: payment.payment_date,
+          referenceNumber: payment.reference_number,
+          notes: payment.notes,
+          status: payment.status,
+          exchangeRate: Number(payment.exchange_rate ?? 1),
+          gateway: payment.gateway,
+          gatewayPaymentId: payment.gateway_payment_id,
+          amountRefunded: 0,
+          createdAt: payment.created_at,
+          updatedAt: payment.updated_at,
+        },
+        invoice,
+        customer: invoice.customers,
+        business: null,
+        receiptNumber,
+        paymentDate: payment.payment_date,
+        amountPaid: Number(payment.amount),
+        paymentMethod: 'Online Payment',
+        balanceAfterPayment: Math.max(0, Number(invoice.total) - Number(invoice.total_paid || 0)),
+      },
+      is_emailed: false,
+    });
+  if (error) throw error;
+};
+
+// Dr Bank, Cr Receivables in the base currency, as PostingService.buildPaymentPosting does in the app.
+// Skipped when the payment has already been posted, so a retried webhook never posts it twice
+const postPaymentToLedger = async (payment: PaymentRow, invoiceNumber: string) => {
+  const { data: posted, error: postedError } = await supabase
+    .from('journal_entries')
+    .select('id')
+    .eq('user_id', payment.user_id)
+    .eq('reference_type', 'payment')
+    .eq('reference_id', payment.id)
+    .limit(1);
+  if (postedError) throw postedError;
+  if (posted && posted.length > 0) return;
+
+  const [{ data: mappings, error: mappingsError }, { data: accounts, error: accountsError }] = await Promise.all([
+    supabase.from('posting_account_mappings').select('posting_role, account_id').eq('user_id', payment.user_id).in('posting_role', ['bank', 'receivables']),
+    supabase.from('accounts').select('id, account_number').eq('user_id', payment.user_id).eq('is_active', true).in('account_number', [BANK_ACCOUNT_NUMBER, RECEIVABLES_ACCOUNT_NUMBER]),
+  ]);
+  if (mappingsError || accountsError) throw mappingsError || accountsError;
+
+  const accountFor = (role: string, accountNumber: string) =>
+    mappings?.find(mapping => mapping.posting_role === role)?.account_id ||
+    accounts?.find(account => account.account_number === accountNumber)?.id;
+  const bankAccountId = accountFor('bank', BANK_ACCOUNT_NUMBER);
+  const receivablesAccountId = accountFor('receivables', RECEIVABLES_ACCOUNT_NUMBER);
+  if (!bankAccountId || !receivablesAccountId) {
+    console.warn(`Chart of accounts incomplete, payment ${payment.id} was not posted to the ledger`);
+    return;
+  }
+
+  const amount = roundCurrency(Number(payment.amount) * Number(payment.exchange_rate ?? 1));
+  const description = `Payment received for invoice ${invoiceNumber}${payment.reference_number ? ` (${payment.reference_number})` : ''}`;
+  const prefix = `JE-${new Date().getFullYear()}-`;
+  const { data: nextNumber, error: numberError } = await supabase.rpc('next_journal_entry_sequence', {
+    p_user_id: payment.user_id,
+    p_prefix: prefix,
+  });
+  if (numberError) throw numberError;
+
+  const { data: entry, error: entryError } = await supabase
+    .from('journal_entries')
+    .insert({
+      user_id: payment.user_id,
+      entry_number: `${prefix}${String(nextNumber).padStart(3, '0')}`,
+      entry_date: payment.payment_date,
+      description,
+      reference_type: 'payment',
+      reference_id: payment.id,
+      total_amount: amount,
+      status: 'posted',
+      auto_posted: true,
+    })
+    .select('id')
+    .single();
+  if (entryError) throw entryError;
+
+  const { error: linesError } = await supabase
+    .from('journal_entry_lines')
+    .insert([
+      { journal_entry_id: entry.id, account_id: bankAccountId, description, debit_amount: amount, credit_amount: 0, line_order: 1 },
+      { journal_entry_id: entry.id, account_id: receivablesAccountId, description, debit_amount: 0, credit_amount: amount, line_order: 2 },
+    ]);
+  if (linesError) {
+    await supabase.from('journal_entries').delete().eq('id', entry.id);
+    throw linesError;
+  }
+};
+
+// Record the payment as soon as Stripe confirms it, so the invoice shows paid and no overdue reminder goes out
+// before the owner next opens the app. Stripe retries failed deliveries; the unique gateway payment id makes a repeat
+// delivery pick up the payment already recorded, then finish whichever of the receipt and ledger posting is missing.
+// Online payments are taken at the invoice's locked rate, so they realise no FX difference.
+const recordCheckoutPayment = async (checkout: CheckoutSessionRow, session: StripeCheckoutSession, paidAt: Date) => {
+  const gatewayPaymentId = session.payment_intent || session.id;
+  const [{ data: existing, error: existingError }, { data: invoice, error: invoiceError }] = await Promise.all([
+    supabase.from('payments').select('*').eq('gateway', 'stripe').eq('gateway_payment_id', gatewayPaymentId).maybeSingle(),
+    supabase.from('invoices').select('invoice_number, exchange_rate').eq('id', checkout.invoice_id).single(),
+  ]);
+  if (existingError || invoiceError) throw existingError || invoiceError;
+
+  let payment = existing as PaymentRow | null;
+  if (!payment) {
+    const { data: inserted, error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        invoice_id: checkout.invoice_id,
+        user_id: checkout.user_id,
+        payment_method: 'online',
+        amount: session.amount_total != null ? fromMinorUnits(session.amount_total, checkout.currency) : Number(checkout.amount),
+        payment_date: paidAt.toISOString().slice(0, 10),
+        reference_number: gatewayPaymentId,
+        notes: 'Paid online via card payment',
+        status: 'completed',
+        exchange_rate: invoice.exchange_rate ?? 1,
+        gateway: 'stripe',
+        gateway_payment_id: gatewayPaymentId,
+      })
+      .select()
+      .single();
+    if (paymentError) throw paymentError;
+    payment = inserted as PaymentRow;
+  }
+
+  await updateInvoicePaymentStatus(checkout.invoice_id);
+  await createReceipt(payment);
+  await postPaymentToLedger(payment, invoice.invoice_number);
+
+  const { error } = await supabase
+    .from('payment_checkout_sessions')
+    .update({ payment_id: payment.id })
+    .eq('gateway', 'stripe')
+    .eq('external_id', session.id);
+  if (error) throw error;
+};
+
+// Checkout session events and the status they leave the session in
+const CHECKOUT_CLOSING_STATUS: Record<string, string> = {
+  'checkout.session.completed': 'completed',
+  'checkout.session.async_payment_succeeded': 'completed',
+  'checkout.session.async_payment_failed': 'failed',
+  'checkout.session.expired': 'expired',
+};
+
+const handleWebhook = async (req: Request) => {
+  const payload = await req.text();
+  const signature = req.headers.get('stripe-signature') ?? '';
+
+  if (!(await verifyStripeSignature(payload, signature))) {
+    return jsonResponse({ error: 'Invalid signature' }, 400);
+  }
+
+  const event = JSON.parse(payload);
+  const session = event.data?.object as StripeCheckoutSession;
+
+  // A checkout paid by a delayed method completes unpaid and settles later, so only a session Stripe reports as paid is recorded.
+  // Sessions the webhook couldn't settle stay unlinked, and the app records them when the owner next signs in
+  const closingStatus = CHECKOUT_CLOSING_STATUS[event.type];
+  const completed = closingStatus === 'completed';
+  if (closingStatus && (!completed || session.payment_status === 'paid')) {
+    const { data: checkout, error } = await supabase
+      .from('payment_checkout_sessions')
+      .update({
+        status: closingStatus,
+        webhook_event: event,
+        completed_at: completed ? new Date(event.created * 1000).toISOString() : null,
+      })
+      .eq('gateway', 'stripe')
+      .eq('external_id', session.id)
+      .select('user_id, invoice_id, amount, currency, payment_id')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (completed && checkout && !checkout.payment_id) {
+      await recordCheckoutPayment(checkout as CheckoutSessionRow, session, new Date(event.created * 1000));
+    }
+  }
+
+  return jsonResponse({ received: true });
+};
+
+const refund = async (req: Request, request: RefundRequest) => {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  const { data: payment } = await supabase
+    .from('payments')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('gateway', 'stripe')
+    .eq('gateway_payment_id', request.paymentReference)
+    .maybeSingle();
+
+  if (!payment) {
+    return jsonResponse({ error: 'Payment not found' }, 404);
+  }
+
+  const paymentIntent = await stripeRequest(`/payment_intents/${request.paymentReference}`);
+  const params = new URLSearchParams({
+    'payment_intent': request.paymentReference,
+    'amount': String(toMinorUnits(request.amount, paymentIntent.currency)),
+    'reason': 'requested_by_customer',
+  });
+  if (request.reason) {
+    params.set('metadata[reason]', request.reason);
+  }
+
+  const stripeRefund = await stripeRequest('/refunds', params);
+  const status = stripeRefund.status === 'succeeded' ? 'succeeded' : stripeRefund.status === 'failed' ? 'failed' : 'pending';
+
+  return jsonResponse({ id: stripeRefund.id, status, amount: request.amount });
+};
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      throw new Error('Method not allowed');
+    }
+
+    if (req.headers.get('stripe-signature')) {
+      return await handleWebhook(req);
+    }
+
+    const request = await req.json();
+    switch (request.action) {
+      case 'create-checkout':
+        return await createCheckout(req, request as CreateCheckoutRequest);
+      case 'refund':
+        return await refund(req, request as RefundRequest);
+      default:
+        return jsonResponse({ error: `Unknown action: ${request.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Payment gateway error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Payment gateway error' }, 500);
+  }
+});
@@ -5,13 +5,17 @@ const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
 
 interface SendInvoiceEmailRequest {
   to: string;
-  invoiceNumber: string;
-  businessName: string;
-  customerName: string;
-  total: number;
-  currency: string;
-  invoiceHtml: string;
+  invoiceNumber?: string;
+  businessName?: string;
+  customerName?: string;
+  total?: number;
+  currency?: string;
+  invoiceHtml?: string;
   pdfBase64?: string;
+  // Prebuilt messages (statements, reminders) supply their own subject and body
+  subject?: string;
+  html?: string;
+  attachmentName?: string;
 }
 
 Deno.serve(async (req: Request) => {
@@ -40,32 +44,37 @@ Deno.serve(async (req: Request) => {
       total,
       currency,
       invoiceHtml,
-      pdfBase64
+      pdfBase64,
+      subject,
+      html,
+      attachmentName
     }: SendInvoiceEmailRequest = await req.json();
 
-    if (!to || !invoiceNumber || !businessName) {
+    const isPrebuilt = Boolean(subject && html);
+    if (!to || (!isPrebuilt && (!invoiceNumber || !businessName))) {
       throw new Error('Missing required fields');
     }
 
+    const senderName = businessName || 'Accounts';
     const attachments = [];
     
     if (pdfBase64) {
       attachments.push({
-        filename: `invoice-${invoiceNumber}.pdf`,
+        filename: attachmentName || `invoice-${invoiceNumber}.pdf`,
         content: pdfBase64,
         contentType: 'application/pdf'
       });
     }
 
     const emailData = {
-      from: `${businessName} <noreply@resend.dev>`, // Use resend.dev domain for testing
+      from: `${senderName} <noreply@resend.dev>`, // Use resend.dev domain for testing
       to: [to],
-      subject: `Invoice ${invoiceNumber} from ${businessName}`,
-      html: `
+      subject: isPrebuilt ? subject : `Invoice ${invoiceNumber} from ${businessName}`,
+      html: isPrebuilt ? html : `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
           <h2 style="color: #333;">Invoice ${invoiceNumber}</h2>
           <p>Dear ${customerName},</p>
-          <p>Please find your invoice attached. The total amount is <strong>${currency} ${total.toFixed(2)}</strong>.</p>
+          <p>Please find your invoice attached. The total amount is <strong>${currency} ${(total || 0).toFixed(2)}</strong>.</p>
           <div style="margin: 20px 0; padding: 20px; border: 1px solid #ddd; border-radius: 8px;">
             ${invoiceHtml}
           </div>
@@ -0,0 +1,36 @@
+-- Recurring Invoice Schedules
+-- Generates draft or sent invoices from a template on a fixed frequency
+
+CREATE TABLE IF NOT EXISTS recurring_invoice_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+  template_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  template_data JSONB NOT NULL, -- Snapshot of line items, charges, notes and terms
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'fortnightly', 'monthly', 'quarterly', 'yearly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  next_run_date DATE NOT NULL,
+  last_run_date DATE,
+  auto_send BOOLEAN DEFAULT false,
+  status VARCHAR(20) DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed')),
+  occurrences_generated INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_schedules_user_next_run ON recurring_invoice_schedules(user_id, next_run_date);
+
+ALTER TABLE recurring_invoice_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own recurring schedules" ON recurring_invoice_schedules
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_invoice_schedules_updated_at BEFORE UPDATE ON recurring_invoice_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE recurring_invoice_schedules IS 'Recurring billing schedules that generate invoices from a template';
+COMMENT ON COLUMN recurring_invoice_schedules.template_data IS 'Invoice snapshot copied onto every generated invoice';
+COMMENT ON COLUMN recurring_invoice_schedules.auto_send IS 'Email generated invoices to the customer and mark them sent';
@@ -0,0 +1,65 @@
+-- Credit Notes
+-- Reverse all or part of an invoice without editing the original document
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  credit_note_number VARCHAR(50) NOT NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  reason TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]', -- Credited lines copied from the original invoice
+  subtotal DECIMAL(12,2) NOT NULL CHECK (subtotal >= 0),
+  tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  total DECIMAL(12,2) NOT NULL CHECK (total > 0),
+  currency VARCHAR(10) NOT NULL,
+  amount_applied DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (amount_applied >= 0),
+  status VARCHAR(20) DEFAULT 'issued' CHECK (status IN ('issued', 'void')),
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, credit_note_number),
+  CHECK (amount_applied <= total)
+);
+
+-- Allocations of credit to invoice balances
+CREATE TABLE IF NOT EXISTS credit_note_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  credit_note_id UUID REFERENCES credit_notes(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  applied_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Credits reduce the balance due alongside payments
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS total_credited DECIMAL(12,2) DEFAULT 0 CHECK (total_credited >= 0);
+
+ALTER TABLE invoices DROP COLUMN IF EXISTS balance_due;
+
+ALTER TABLE invoices
+ADD COLUMN balance_due DECIMAL(12,2) GENERATED ALWAYS AS (total - total_paid - total_credited) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_user_date ON credit_notes(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_customer ON credit_notes(customer_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_applications_invoice ON credit_note_applications(invoice_id);
+
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_note_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own credit notes" ON credit_notes
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own credit note applications" ON credit_note_applications
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_credit_notes_updated_at BEFORE UPDATE ON credit_notes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE credit_notes IS 'Credit notes reversing all or part of an issued invoice';
+COMMENT ON COLUMN credit_notes.amount_applied IS 'Portion of the credit allocated to invoice balances; the rest is held as customer credit';
+COMMENT ON COLUMN invoices.total_credited IS 'Sum of credit note applications against this invoice';
@@ -0,0 +1,109 @@
+-- Quotes / Estimates
+-- Sent to clients before a job, accepted online via a share link and converted into invoices
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  quote_number VARCHAR(50) NOT NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  expiry_date DATE NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]', -- Same shape as invoice line items
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  discount DECIMAL(12,2) DEFAULT NULL,
+  additional_charges_list JSONB DEFAULT NULL,
+  additional_charges_total DECIMAL(12,2) DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'expired')),
+  notes TEXT,
+  terms TEXT,
+  currency VARCHAR(10) NOT NULL,
+  template_name VARCHAR(50) DEFAULT 'classic',
+  share_token UUID DEFAULT gen_random_uuid() UNIQUE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  responded_by VARCHAR(255),
+  response_note TEXT,
+  converted_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, quote_number),
+  CHECK (expiry_date >= date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_user_date ON quotes(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_quotes_customer ON quotes(customer_id);
+CREATE INDEX IF NOT EXISTS idx_quotes_share_token ON quotes(share_token);
+
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own quotes" ON quotes
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_quotes_updated_at BEFORE UPDATE ON quotes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Anonymous read of a sent quote by its share token, with the customer and business profile needed to render it
+CREATE OR REPLACE FUNCTION get_shared_quote_by_token(token UUID)
+RETURNS TABLE (
+    quote JSONB,
+    customer JSONB,
+    business_profile JSONB
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        to_jsonb(q),
+        to_jsonb(c),
+        to_jsonb(bp)
+    FROM quotes q
+    LEFT JOIN customers c ON c.id = q.customer_id
+    LEFT JOIN business_profiles bp ON bp.user_id = q.user_id
+    WHERE q.share_token = token
+    AND q.status <> 'draft';
+END;
+$$;
+
+-- Anonymous accept/decline; only quotes that are still open and not past their expiry date can be answered
+CREATE OR REPLACE FUNCTION respond_to_shared_quote(token UUID, response TEXT, responder_name TEXT, note TEXT DEFAULT NULL)
+RETURNS VARCHAR(20)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    new_status VARCHAR(20);
+BEGIN
+    IF response NOT IN ('accepted', 'declined') THEN
+        RAISE EXCEPTION 'Invalid quote response: %', response;
+    END IF;
+
+    UPDATE quotes
+    SET status = response,
+        responded_at = NOW(),
+        responded_by = responder_name,
+        response_note = note
+    WHERE share_token = token
+    AND status = 'sent'
+    AND expiry_date >= CURRENT_DATE
+    RETURNING status INTO new_status;
+
+    IF new_status IS NULL THEN
+        RAISE EXCEPTION 'This quote can no longer be accepted or declined';
+    END IF;
+
+    RETURN new_status;
+END;
+$$;
+
+COMMENT ON TABLE quotes IS 'Quotes and estimates that can be accepted online and converted into invoices';
+COMMENT ON COLUMN quotes.share_token IS 'Unique token for the public quote page';
+COMMENT ON COLUMN quotes.responded_by IS 'Name entered by the client when accepting or declining';
+COMMENT ON COLUMN quotes.converted_invoice_id IS 'Invoice created from this quote';
+
+GRANT EXECUTE ON FUNCTION get_shared_quote_by_token(UUID) TO anon;
+GRANT EXECUTE ON FUNCTION respond_to_shared_quote(UUID, TEXT, TEXT, TEXT) TO anon;
@@ -0,0 +1,58 @@
+-- Multi-currency invoicing
+-- Local exchange rate table, rates locked on invoices and payments, and a base currency for reporting
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_currency VARCHAR(10) NOT NULL,
+  to_currency VARCHAR(10) NOT NULL,
+  rate DECIMAL(18,8) NOT NULL CHECK (rate > 0), -- Units of to_currency per one unit of from_currency
+  rate_date DATE NOT NULL,
+  source VARCHAR(20) DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, from_currency, to_currency, rate_date),
+  CHECK (from_currency <> to_currency)
+);
+
+ALTER TABLE business_profiles
+ADD COLUMN IF NOT EXISTS base_currency VARCHAR(10) DEFAULT 'NZD';
+
+-- Rate to the base currency captured when the document was created
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,8) DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,8) DEFAULT 1 CHECK (exchange_rate > 0);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(user_id, from_currency, to_currency, rate_date DESC);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own exchange rates" ON exchange_rates
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Realised FX gains and losses on foreign currency receipts
+INSERT INTO account_templates (name, account_number, account_class, account_type, normal_balance, description, is_system, country_code) VALUES
+('Foreign Exchange Gains/Losses', '4300', 'Revenue', 'income', 'credit', 'Realised gains and losses on foreign currency settlements', true, 'NZ')
+ON CONFLICT (account_number, country_code) DO NOTHING;
+
+-- Add the FX account to charts of accounts that have already been set up
+INSERT INTO accounts (user_id, name, type, account_number, account_class, normal_balance, description, currency, opening_balance, current_balance)
+SELECT a.user_id, 'Foreign Exchange Gains/Losses', 'custom', '4300', 'Revenue', 'credit',
+  'Realised gains and losses on foreign currency settlements', COALESCE(bp.base_currency, 'NZD'), 0, 0
+FROM accounts a
+LEFT JOIN business_profiles bp ON bp.user_id = a.user_id
+WHERE a.account_number = '4000'
+AND NOT EXISTS (
+  SELECT 1 FROM accounts existing
+  WHERE existing.user_id = a.user_id AND existing.account_number = '4300'
+);
+
+COMMENT ON TABLE exchange_rates IS 'Exchange rates entered by hand or imported from CSV, used to lock rates on invoices and payments';
+COMMENT ON COLUMN invoices.exchange_rate IS 'Base currency units per one unit of the invoice currency at the invoice date';
+COMMENT ON COLUMN payments.exchange_rate IS 'Base currency units per one unit of the invoice currency at the payment date';
+COMMENT ON COLUMN business_profiles.base_currency IS 'Currency that reports and the ledger are expressed in';
@@ -0,0 +1,15 @@
+-- Per-line tax codes
+-- GST treatment is recorded on each invoice line (and defaulted from the item) so returns don't have to guess
+
+ALTER TABLE line_items
+ADD COLUMN IF NOT EXISTS tax_code VARCHAR(10) DEFAULT 'GST15'
+  CHECK (tax_code IN ('GST15', 'ZERO', 'EXEMPT', 'NOTAX'));
+
+ALTER TABLE items
+ADD COLUMN IF NOT EXISTS tax_code VARCHAR(10) DEFAULT 'GST15'
+  CHECK (tax_code IN ('GST15', 'ZERO', 'EXEMPT', 'NOTAX'));
+
+CREATE INDEX IF NOT EXISTS idx_line_items_tax_code ON line_items(tax_code);
+
+COMMENT ON COLUMN line_items.tax_code IS 'GST15 standard-rated, ZERO zero-rated, EXEMPT exempt supply, NOTAX outside the scope of GST';
+COMMENT ON COLUMN items.tax_code IS 'Default tax code applied when the item is added to an invoice';
@@ -0,0 +1,38 @@
+-- Bank reconciliation
+-- Links imported bank transactions to the payments and expenses they settle.
+-- One transaction can be matched to several records (e.g. a single deposit covering two invoices).
+
+CREATE TABLE IF NOT EXISTS bank_reconciliation_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bank_transaction_id UUID REFERENCES bank_transactions(id) ON DELETE CASCADE NOT NULL,
+  match_type VARCHAR(20) NOT NULL CHECK (match_type IN ('payment', 'expense')),
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  expense_id UUID REFERENCES expenses(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    (match_type = 'payment' AND payment_id IS NOT NULL AND expense_id IS NULL) OR
+    (match_type = 'expense' AND expense_id IS NOT NULL AND payment_id IS NULL)
+  )
+);
+
+-- A payment or expense can only be reconciled against one bank transaction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reconciliation_matches_payment ON bank_reconciliation_matches(payment_id) WHERE payment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reconciliation_matches_expense ON bank_reconciliation_matches(expense_id) WHERE expense_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_reconciliation_matches_transaction ON bank_reconciliation_matches(bank_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_matches_user_id ON bank_reconciliation_matches(user_id);
+
+ALTER TABLE bank_reconciliation_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own reconciliation matches" ON bank_reconciliation_matches
+  FOR ALL USING (auth.uid() = user_id);
+
+-- When a transaction was reconciled
+ALTER TABLE bank_transactions
+ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+-- Closing balance from the latest bank statement, compared against the reconciled ledger balance
+ALTER TABLE bank_accounts
+ADD COLUMN IF NOT EXISTS statement_balance DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS statement_date DATE;
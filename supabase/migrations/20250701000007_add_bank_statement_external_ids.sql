@@ -0,0 +1,8 @@
+-- OFX / CAMT.053 statement import
+-- Stores the bank's own transaction id (OFX FITID, CAMT AcctSvcrRef / NtryRef) so re-importing
+-- an overlapping statement can skip transactions that are already in the account.
+
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_external_id
+  ON bank_transactions(bank_account_id, external_id) WHERE external_id IS NOT NULL;
@@ -0,0 +1,33 @@
+-- Bank rules
+-- User-defined rules evaluated in priority order when bank transactions are imported.
+
+CREATE TABLE IF NOT EXISTS bank_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb, -- description/amount/type/bank account conditions
+  actions JSONB NOT NULL DEFAULT '{}'::jsonb, -- category, merchant, customer, GST treatment, auto-create expense
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_rules_user_priority ON bank_rules(user_id, priority);
+
+ALTER TABLE bank_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own bank rules" ON bank_rules
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bank_rules_updated_at BEFORE UPDATE ON bank_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Outcome of the rule that categorised each imported transaction
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS bank_rule_id UUID REFERENCES bank_rules(id) ON DELETE SET NULL;
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS expense_category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL;
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS tax_code VARCHAR(10);
+
+COMMENT ON TABLE bank_rules IS 'Rules that categorise imported bank transactions';
+COMMENT ON COLUMN bank_rules.priority IS 'Lower values are evaluated first; the first matching rule wins';
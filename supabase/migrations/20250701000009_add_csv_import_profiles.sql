@@ -0,0 +1,27 @@
+-- CSV import profiles
+-- Named column mappings that are selected automatically when an uploaded file's header row matches.
+
+CREATE TABLE IF NOT EXISTS csv_import_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  column_mapping JSONB NOT NULL, -- CSVColumnMapping
+  date_format VARCHAR(20) NOT NULL DEFAULT 'DD/MM/YYYY',
+  delimiter VARCHAR(1),
+  header_fingerprint TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_csv_import_profiles_user_fingerprint ON csv_import_profiles(user_id, header_fingerprint);
+
+ALTER TABLE csv_import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own CSV import profiles" ON csv_import_profiles
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_csv_import_profiles_updated_at BEFORE UPDATE ON csv_import_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN csv_import_profiles.header_fingerprint IS 'Lower-cased, trimmed header row joined with |';
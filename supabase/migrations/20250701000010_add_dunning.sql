@@ -0,0 +1,50 @@
+-- Dunning schedules
+-- Policies of reminder steps relative to an invoice's due date, and a log of every reminder sent.
+
+CREATE TABLE IF NOT EXISTS dunning_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ offsetDays, reminderType }]
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  auto_send BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one policy per user applies to open invoices
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_policies_user_default ON dunning_policies(user_id) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS invoice_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  dunning_policy_id UUID REFERENCES dunning_policies(id) ON DELETE SET NULL,
+  step_offset_days INTEGER, -- NULL for reminders sent by hand
+  reminder_type VARCHAR(20) NOT NULL CHECK (reminder_type IN ('gentle', 'firm', 'final')),
+  sent_to VARCHAR(255) NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  trigger VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (trigger IN ('automatic', 'manual')),
+  message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_invoice ON invoice_reminders(invoice_id, sent_at);
+-- Each scheduled step is sent at most once per invoice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_reminders_invoice_step
+  ON invoice_reminders(invoice_id, step_offset_days) WHERE step_offset_days IS NOT NULL;
+
+ALTER TABLE dunning_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own dunning policies" ON dunning_policies
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own invoice reminders" ON invoice_reminders
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_dunning_policies_updated_at BEFORE UPDATE ON dunning_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE invoice_reminders IS 'Every payment reminder sent for an invoice, automatic or manual';
@@ -0,0 +1,45 @@
+-- Batch payments
+-- One customer payment split across several invoices, with any overpayment held as customer credit.
+
+-- Batch payments leave invoice_id empty and record the customer instead
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE NOT NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (payment_id, invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_invoice ON payment_allocations(invoice_id);
+
+CREATE TABLE IF NOT EXISTS customer_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  amount_applied DECIMAL(12,2) NOT NULL DEFAULT 0,
+  currency VARCHAR(3) NOT NULL DEFAULT 'NZD',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credits_customer ON customer_credits(customer_id);
+
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own payment allocations" ON payment_allocations
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own customer credits" ON customer_credits
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_customer_credits_updated_at BEFORE UPDATE ON customer_credits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE customer_credits IS 'Overpayments held for a customer until applied to a later invoice';
@@ -0,0 +1,36 @@
+-- Payment refunds
+-- Money returned to a customer against an earlier payment, in full or in part.
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  refund_date DATE NOT NULL,
+  refund_method VARCHAR(50) NOT NULL, -- Same values as payments.payment_method
+  reason TEXT NOT NULL,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON payment_refunds(payment_id);
+
+-- Running total so the refundable amount is known without summing refunds
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS amount_refunded DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (amount_refunded >= 0);
+
+ALTER TABLE payments
+ADD CONSTRAINT payments_amount_refunded_not_above_amount CHECK (amount_refunded <= amount);
+
+-- Refund receipts belong to the original payment and point at the refund they document
+ALTER TABLE receipts
+ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES payment_refunds(id) ON DELETE CASCADE;
+
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own payment refunds" ON payment_refunds
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payment_refunds_updated_at BEFORE UPDATE ON payment_refunds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
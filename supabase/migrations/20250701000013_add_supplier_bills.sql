@@ -0,0 +1,59 @@
+-- Supplier bills
+-- Invoices received from suppliers, owed until paid from a bank account.
+-- Unlike expenses they sit in Accounts Payable between the bill date and payment.
+
+CREATE TABLE IF NOT EXISTS bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bill_number VARCHAR(100), -- The supplier's own invoice number
+  supplier_name VARCHAR(255) NOT NULL,
+  bill_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',
+  subtotal DECIMAL(12,2) NOT NULL CHECK (subtotal >= 0),
+  tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  total DECIMAL(12,2) NOT NULL CHECK (total > 0),
+  currency VARCHAR(10) NOT NULL DEFAULT 'NZD',
+  amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'awaiting_payment'
+    CHECK (status IN ('awaiting_payment', 'partially_paid', 'paid', 'void')),
+  notes TEXT,
+  receipt_url TEXT,
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (amount_paid <= total),
+  CHECK (due_date >= bill_date)
+);
+
+CREATE TABLE IF NOT EXISTS bill_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bill_id UUID REFERENCES bills(id) ON DELETE CASCADE NOT NULL,
+  bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE RESTRICT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL,
+  reference VARCHAR(100),
+  journal_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bills_user_due ON bills(user_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_bills_status ON bills(status);
+CREATE INDEX IF NOT EXISTS idx_bill_payments_bill ON bill_payments(bill_id);
+
+ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own bills" ON bills
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own bill payments" ON bill_payments
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bills_updated_at BEFORE UPDATE ON bills
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE bills IS 'Supplier invoices posted to Accounts Payable until paid';
+COMMENT ON COLUMN bills.items IS 'Bill lines with quantity, rate, tax code and the expense account they are posted to';
+COMMENT ON TABLE bill_payments IS 'Full or partial payments of a bill from a bank account';
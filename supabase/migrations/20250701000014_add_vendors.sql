@@ -0,0 +1,45 @@
+-- Vendor directory
+-- Suppliers that expenses, bills and imported bank transactions are linked to, so spend
+-- can be reported per supplier instead of per free-text vendor name.
+
+CREATE TABLE IF NOT EXISTS vendors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  gst_number VARCHAR(20),
+  contact_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  default_expense_category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL,
+  default_payment_method VARCHAR(20)
+    CHECK (default_payment_method IN ('cash', 'card', 'bank_transfer', 'check', 'other')),
+  aliases TEXT[] NOT NULL DEFAULT '{}', -- Other spellings merged into this vendor
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendors_user ON vendors(user_id);
+
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own vendors" ON vendors
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_vendors_updated_at BEFORE UPDATE ON vendors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Records that can be attributed to a vendor; vendor_name/merchant/supplier_name are kept as entered
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_vendor ON expenses(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_vendor ON bank_transactions(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_bills_vendor ON bills(vendor_id);
+
+COMMENT ON TABLE vendors IS 'Suppliers that expenses, bills and bank transactions are attributed to';
+COMMENT ON COLUMN vendors.aliases IS 'Vendor name spellings merged into this vendor; used when matching new records';
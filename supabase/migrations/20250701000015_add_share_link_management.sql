@@ -0,0 +1,120 @@
+-- Share link management
+-- Revocation, expiry extension, an optional passcode and a view log for shared invoice links.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Columns the app relies on that the original sharing migration did not declare
+ALTER TABLE shared_invoices
+ADD COLUMN IF NOT EXISTS original_invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS access_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE shared_invoices
+ADD COLUMN IF NOT EXISTS passcode_hash TEXT,
+ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_shared_invoices_original_invoice ON shared_invoices(original_invoice_id);
+
+CREATE TABLE IF NOT EXISTS shared_invoice_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shared_invoice_id UUID REFERENCES shared_invoices(id) ON DELETE CASCADE NOT NULL,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_invoice_views_shared_invoice ON shared_invoice_views(shared_invoice_id, viewed_at DESC);
+
+ALTER TABLE shared_invoice_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share link views" ON shared_invoice_views
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM shared_invoices
+      WHERE shared_invoices.id = shared_invoice_views.shared_invoice_id
+      AND shared_invoices.created_by = auth.uid()
+    )
+  );
+
+-- Anonymous visitors must go through view_shared_invoice so revocation and passcodes cannot be bypassed
+DROP POLICY IF EXISTS "Anonymous access to non-expired shared invoices" ON shared_invoices;
+REVOKE SELECT ON shared_invoices FROM anon;
+
+DROP FUNCTION IF EXISTS get_shared_invoice_by_token(UUID);
+DROP FUNCTION IF EXISTS increment_shared_invoice_access(UUID);
+
+-- Sets or clears (NULL/empty) the passcode on a link owned by the caller; only the bcrypt hash is stored
+CREATE OR REPLACE FUNCTION set_shared_invoice_passcode(share_id UUID, passcode TEXT)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE shared_invoices
+    SET passcode_hash = CASE
+        WHEN passcode IS NULL OR passcode = '' THEN NULL
+        ELSE crypt(passcode, gen_salt('bf'))
+    END
+    WHERE id = share_id
+    AND created_by = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Share link not found';
+    END IF;
+END;
+$$;
+
+-- Anonymous view of a shared invoice; logs the view and bumps the counters only when the invoice is returned
+CREATE OR REPLACE FUNCTION view_shared_invoice(token UUID, passcode TEXT DEFAULT NULL, viewer_agent TEXT DEFAULT NULL)
+RETURNS TABLE (
+    status TEXT,
+    invoice_data JSONB,
+    template_data JSONB
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    link shared_invoices%ROWTYPE;
+BEGIN
+    SELECT * INTO link FROM shared_invoices si WHERE si.share_token = token;
+
+    IF NOT FOUND OR NOT link.is_active OR (link.expires_at IS NOT NULL AND link.expires_at <= NOW()) THEN
+        RETURN QUERY SELECT 'unavailable'::TEXT, NULL::JSONB, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF link.passcode_hash IS NOT NULL THEN
+        IF passcode IS NULL OR passcode = '' THEN
+            RETURN QUERY SELECT 'passcode_required'::TEXT, NULL::JSONB, NULL::JSONB;
+            RETURN;
+        END IF;
+        IF crypt(passcode, link.passcode_hash) <> link.passcode_hash THEN
+            RETURN QUERY SELECT 'invalid_passcode'::TEXT, NULL::JSONB, NULL::JSONB;
+            RETURN;
+        END IF;
+    END IF;
+
+    INSERT INTO shared_invoice_views (shared_invoice_id, user_agent)
+    VALUES (link.id, LEFT(viewer_agent, 500));
+
+    UPDATE shared_invoices
+    SET access_count = access_count + 1,
+        last_viewed_at = NOW()
+    WHERE id = link.id;
+
+    RETURN QUERY SELECT 'ok'::TEXT, link.invoice_data, link.template_data;
+END;
+$$;
+
+COMMENT ON COLUMN shared_invoices.is_active IS 'False once the link has been revoked';
+COMMENT ON COLUMN shared_invoices.passcode_hash IS 'bcrypt hash of the passcode visitors must enter, NULL when the link is open';
+COMMENT ON COLUMN shared_invoices.last_viewed_at IS 'Most recent successful view through the public link';
+COMMENT ON COLUMN shared_invoices.revoked_at IS 'When the link was revoked';
+COMMENT ON TABLE shared_invoice_views IS 'One row per successful view of a shared invoice link';
+
+GRANT EXECUTE ON FUNCTION view_shared_invoice(UUID, TEXT, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION set_shared_invoice_passcode(UUID, TEXT) TO authenticated;
@@ -0,0 +1,232 @@
+-- Audit trail
+-- Append-only history of changes and activity on invoices, customers, expenses and journal entries.
+-- Row changes are captured by triggers so every code path is covered; updates keep only the changed fields.
+
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL, -- Owner of the record
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for anonymous share link visitors
+  actor_email TEXT,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('invoice', 'customer', 'expense', 'journal_entry')),
+  entity_id UUID NOT NULL, -- No foreign key so history survives deletion
+  entity_label TEXT,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'status_change', 'delete', 'send', 'share', 'view', 'payment', 'reminder')),
+  old_data JSONB,
+  new_data JSONB,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_created ON audit_logs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity_type, entity_id, created_at);
+
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+
+-- No update or delete policies: entries cannot be changed once written
+CREATE POLICY "Users can view their own audit logs" ON audit_logs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own audit logs" ON audit_logs
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND actor_id = auth.uid());
+
+-- Before/after values of the fields that differ between two row snapshots, ignoring updated_at
+CREATE OR REPLACE FUNCTION audit_changed_fields(old_row JSONB, new_row JSONB, OUT old_changes JSONB, OUT new_changes JSONB)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT jsonb_object_agg(n.key, o.value), jsonb_object_agg(n.key, n.value)
+    FROM jsonb_each(new_row) n
+    JOIN jsonb_each(old_row) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value
+    AND n.key <> 'updated_at';
+$$;
+
+-- Attached to each audited table with its entity type as the trigger argument
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+    row_data JSONB := COALESCE(new_row, old_row);
+    owner_id UUID := COALESCE((row_data->>'user_id')::UUID, auth.uid());
+    old_changes JSONB;
+    new_changes JSONB;
+    audit_action TEXT;
+BEGIN
+    IF owner_id IS NULL THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        audit_action := 'create';
+        new_changes := new_row;
+    ELSIF TG_OP = 'DELETE' THEN
+        audit_action := 'delete';
+        old_changes := old_row;
+    ELSE
+        SELECT c.old_changes, c.new_changes INTO old_changes, new_changes
+        FROM audit_changed_fields(old_row, new_row) c;
+
+        IF new_changes IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        audit_action := CASE WHEN new_changes ? 'status' THEN 'status_change' ELSE 'update' END;
+    END IF;
+
+    INSERT INTO audit_logs (user_id, actor_id, actor_email, entity_type, entity_id, entity_label, action, old_data, new_data)
+    VALUES (
+        owner_id,
+        auth.uid(),
+        (SELECT email FROM auth.users WHERE id = auth.uid()),
+        TG_ARGV[0],
+        (row_data->>'id')::UUID,
+        COALESCE(row_data->>'invoice_number', row_data->>'entry_number', row_data->>'name', row_data->>'description'),
+        audit_action,
+        old_changes,
+        new_changes
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Activity recorded in other tables is logged against the invoice it belongs to; the action is the trigger argument
+CREATE OR REPLACE FUNCTION record_invoice_activity()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    new_row JSONB := to_jsonb(NEW) - 'invoice_data' - 'template_data' - 'passcode_hash';
+    old_row JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) - 'invoice_data' - 'template_data' - 'passcode_hash' END;
+    target_invoice_id UUID := COALESCE(new_row->>'invoice_id', new_row->>'original_invoice_id')::UUID;
+    invoice_row invoices%ROWTYPE;
+    old_changes JSONB;
+    new_changes JSONB := new_row;
+BEGIN
+    IF target_invoice_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        SELECT c.old_changes, c.new_changes INTO old_changes, new_changes
+        FROM audit_changed_fields(old_row, new_row) c;
+
+        -- View counters are logged by view_shared_invoice itself
+        new_changes := new_changes - 'access_count' - 'last_viewed_at';
+        old_changes := old_changes - 'access_count' - 'last_viewed_at';
+        IF new_changes IS NULL OR new_changes = '{}'::JSONB THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    SELECT * INTO invoice_row FROM invoices WHERE id = target_invoice_id;
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO audit_logs (user_id, actor_id, actor_email, entity_type, entity_id, entity_label, action, old_data, new_data)
+    VALUES (
+        invoice_row.user_id,
+        auth.uid(),
+        (SELECT email FROM auth.users WHERE id = auth.uid()),
+        'invoice',
+        invoice_row.id,
+        invoice_row.invoice_number,
+        TG_ARGV[0],
+        old_changes,
+        new_changes
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_invoices AFTER INSERT OR UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log('invoice');
+
+CREATE TRIGGER audit_customers AFTER INSERT OR UPDATE OR DELETE ON customers
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log('customer');
+
+CREATE TRIGGER audit_expenses AFTER INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log('expense');
+
+CREATE TRIGGER audit_journal_entries AFTER INSERT OR UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log('journal_entry');
+
+CREATE TRIGGER audit_invoice_payments AFTER INSERT ON payments
+  FOR EACH ROW EXECUTE FUNCTION record_invoice_activity('payment');
+
+CREATE TRIGGER audit_invoice_payment_allocations AFTER INSERT ON payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION record_invoice_activity('payment');
+
+CREATE TRIGGER audit_invoice_reminders AFTER INSERT ON invoice_reminders
+  FOR EACH ROW EXECUTE FUNCTION record_invoice_activity('reminder');
+
+CREATE TRIGGER audit_shared_invoices AFTER INSERT OR UPDATE ON shared_invoices
+  FOR EACH ROW EXECUTE FUNCTION record_invoice_activity('share');
+
+-- Same as before, plus a 'view' entry on the invoice's audit trail
+CREATE OR REPLACE FUNCTION view_shared_invoice(token UUID, passcode TEXT DEFAULT NULL, viewer_agent TEXT DEFAULT NULL)
+RETURNS TABLE (
+    status TEXT,
+    invoice_data JSONB,
+    template_data JSONB
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    link shared_invoices%ROWTYPE;
+BEGIN
+    SELECT * INTO link FROM shared_invoices si WHERE si.share_token = token;
+
+    IF NOT FOUND OR NOT link.is_active OR (link.expires_at IS NOT NULL AND link.expires_at <= NOW()) THEN
+        RETURN QUERY SELECT 'unavailable'::TEXT, NULL::JSONB, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF link.passcode_hash IS NOT NULL THEN
+        IF passcode IS NULL OR passcode = '' THEN
+            RETURN QUERY SELECT 'passcode_required'::TEXT, NULL::JSONB, NULL::JSONB;
+            RETURN;
+        END IF;
+        IF crypt(passcode, link.passcode_hash) <> link.passcode_hash THEN
+            RETURN QUERY SELECT 'invalid_passcode'::TEXT, NULL::JSONB, NULL::JSONB;
+            RETURN;
+        END IF;
+    END IF;
+
+    INSERT INTO shared_invoice_views (shared_invoice_id, user_agent)
+    VALUES (link.id, LEFT(viewer_agent, 500));
+
+    UPDATE shared_invoices
+    SET access_count = access_count + 1,
+        last_viewed_at = NOW()
+    WHERE id = link.id;
+
+    INSERT INTO audit_logs (user_id, entity_type, entity_id, entity_label, action, new_data, user_agent)
+    VALUES (
+        link.created_by,
+        'invoice',
+        link.original_invoice_id,
+        link.invoice_data->>'invoiceNumber',
+        'view',
+        jsonb_build_object('share_token', link.share_token),
+        LEFT(viewer_agent, 500)
+    );
+
+    RETURN QUERY SELECT 'ok'::TEXT, link.invoice_data, link.template_data;
+END;
+$$;
+
+COMMENT ON TABLE audit_logs IS 'Append-only history of changes and activity; updates store only the changed fields';
+COMMENT ON COLUMN audit_logs.old_data IS 'Values before the change (changed fields only for updates, full row for deletes)';
+COMMENT ON COLUMN audit_logs.new_data IS 'Values after the change (changed fields only for updates, full row for creates) or event details';
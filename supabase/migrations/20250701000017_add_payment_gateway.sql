@@ -0,0 +1,43 @@
+-- Online card payments
+-- Checkout sessions opened from the public invoice pages and the gateway references on the payments they produce.
+
+CREATE TABLE IF NOT EXISTS payment_checkout_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL, -- Owner of the invoice
+  invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  gateway VARCHAR(20) NOT NULL CHECK (gateway IN ('mock', 'stripe')),
+  external_id TEXT NOT NULL, -- Session id at the gateway
+  checkout_url TEXT,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'expired', 'failed')),
+  webhook_event JSONB, -- Verified gateway event that completed or closed the session
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL, -- Set once the payment has been recorded
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (gateway, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_checkout_sessions_unsettled ON payment_checkout_sessions(user_id, status) WHERE payment_id IS NULL;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS gateway VARCHAR(20),
+ADD COLUMN IF NOT EXISTS gateway_payment_id TEXT;
+
+-- A gateway payment is only ever recorded once, however often its webhook is delivered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_gateway_payment ON payments(gateway, gateway_payment_id)
+  WHERE gateway_payment_id IS NOT NULL;
+
+ALTER TABLE payment_checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are created and completed by the payment-gateway edge function with the service role
+CREATE POLICY "Users can manage their own checkout sessions" ON payment_checkout_sessions
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payment_checkout_sessions_updated_at BEFORE UPDATE ON payment_checkout_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE payment_checkout_sessions IS 'Online payment checkouts started from public invoice links';
+COMMENT ON COLUMN payments.gateway IS 'Payment gateway that took an online payment';
+COMMENT ON COLUMN payments.gateway_payment_id IS 'Payment id at the gateway, used for refunds and to ignore repeated webhooks';
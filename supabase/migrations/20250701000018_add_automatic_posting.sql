@@ -0,0 +1,31 @@
+-- Automatic double-entry posting
+-- Which account each leg of an automatic posting goes to, and links between entries and their reversals.
+
+CREATE TABLE IF NOT EXISTS posting_account_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  posting_role VARCHAR(20) NOT NULL CHECK (posting_role IN ('receivables', 'sales', 'gst_output', 'bank', 'cash', 'expense', 'gst_input')),
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, posting_role)
+);
+
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS auto_posted BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS reverses_entry_id UUID REFERENCES journal_entries(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_reference ON journal_entries(user_id, reference_type, reference_id)
+  WHERE auto_posted;
+
+ALTER TABLE posting_account_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own posting account mappings" ON posting_account_mappings
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_posting_account_mappings_updated_at BEFORE UPDATE ON posting_account_mappings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE posting_account_mappings IS 'Account chosen for each leg of automatic invoice, payment and expense postings; unmapped legs use the template account';
+COMMENT ON COLUMN journal_entries.auto_posted IS 'Created by the posting engine from an invoice, payment or expense';
+COMMENT ON COLUMN journal_entries.reverses_entry_id IS 'Entry this one reverses, when a posted record was edited or removed';
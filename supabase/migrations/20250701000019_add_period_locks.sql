@@ -0,0 +1,184 @@
+-- Period locking
+-- Lock dates stop transactions on or before them being created, changed or deleted. The overall lock
+-- binds everyone; the adviser lock binds everyone except users with the adviser role in app_metadata.
+
+CREATE TABLE IF NOT EXISTS period_locks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  lock_date DATE,
+  adviser_lock_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE period_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own period locks" ON period_locks
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_period_locks_updated_at BEFORE UPDATE ON period_locks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION is_adviser()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'adviser';
+$$ LANGUAGE sql STABLE;
+
+-- Latest date the current user can't change for this ledger
+CREATE OR REPLACE FUNCTION effective_lock_date(p_user_id UUID)
+RETURNS DATE AS $$
+  SELECT CASE WHEN is_adviser() THEN lock_date ELSE GREATEST(lock_date, adviser_lock_date) END
+  FROM period_locks
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION assert_period_open(p_user_id UUID, p_date DATE, p_record TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_lock_date DATE := effective_lock_date(p_user_id);
+BEGIN
+  IF p_date IS NOT NULL AND v_lock_date IS NOT NULL AND p_date <= v_lock_date THEN
+    RAISE EXCEPTION '% dated on or before % are locked', p_record, to_char(v_lock_date, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only advisers can set the overall lock; anyone else can move the adviser lock forward but not back
+CREATE OR REPLACE FUNCTION check_period_lock_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_adviser() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.lock_date IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.lock_date END) THEN
+    RAISE EXCEPTION 'Only an adviser can change the overall lock date' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.adviser_lock_date IS NOT NULL
+    AND (NEW.adviser_lock_date IS NULL OR NEW.adviser_lock_date < OLD.adviser_lock_date) THEN
+    RAISE EXCEPTION 'Only an adviser can move the lock date back' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_period_lock_change BEFORE INSERT OR UPDATE ON period_locks
+  FOR EACH ROW EXECUTE FUNCTION check_period_lock_change();
+
+-- Invoices: status moves between sent, paid and overdue don't touch the ledger, so they stay allowed
+CREATE OR REPLACE FUNCTION enforce_invoice_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM assert_period_open(NEW.user_id, NEW.date, 'Invoices');
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.date, 'Invoices');
+  ELSIF NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax_amount IS DISTINCT FROM OLD.tax_amount
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.customer_id IS DISTINCT FROM OLD.customer_id
+    OR (NEW.status = 'draft') IS DISTINCT FROM (OLD.status = 'draft') THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.date, 'Invoices');
+    PERFORM assert_period_open(NEW.user_id, NEW.date, 'Invoices');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_invoice_period_lock BEFORE INSERT OR UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION enforce_invoice_period_lock();
+
+CREATE OR REPLACE FUNCTION enforce_expense_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM assert_period_open(NEW.user_id, NEW.expense_date, 'Expenses');
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.expense_date, 'Expenses');
+  ELSIF NEW.expense_date IS DISTINCT FROM OLD.expense_date
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.tax_amount IS DISTINCT FROM OLD.tax_amount
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.account_id IS DISTINCT FROM OLD.account_id
+    OR NEW.category_id IS DISTINCT FROM OLD.category_id
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.expense_date, 'Expenses');
+    PERFORM assert_period_open(NEW.user_id, NEW.expense_date, 'Expenses');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_expense_period_lock BEFORE INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION enforce_expense_period_lock();
+
+-- Payments: refunds are dated separately, so refund bookkeeping on an old payment stays allowed
+CREATE OR REPLACE FUNCTION enforce_payment_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM assert_period_open(NEW.user_id, NEW.payment_date, 'Payments');
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.payment_date, 'Payments');
+  ELSIF NEW.payment_date IS DISTINCT FROM OLD.payment_date
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.invoice_id IS DISTINCT FROM OLD.invoice_id
+    OR NEW.exchange_rate IS DISTINCT FROM OLD.exchange_rate THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.payment_date, 'Payments');
+    PERFORM assert_period_open(NEW.user_id, NEW.payment_date, 'Payments');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_payment_period_lock BEFORE INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW EXECUTE FUNCTION enforce_payment_period_lock();
+
+CREATE OR REPLACE FUNCTION enforce_journal_entry_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM assert_period_open(OLD.user_id, OLD.entry_date, 'Journal entries');
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM assert_period_open(NEW.user_id, NEW.entry_date, 'Journal entries');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_journal_entry_period_lock BEFORE INSERT OR UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION enforce_journal_entry_period_lock();
+
+-- Lines follow their entry; lines removed along with their entry have already been checked
+CREATE OR REPLACE FUNCTION enforce_journal_line_period_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entry journal_entries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry FROM journal_entries WHERE id = COALESCE(NEW.journal_entry_id, OLD.journal_entry_id);
+  IF FOUND THEN
+    PERFORM assert_period_open(v_entry.user_id, v_entry.entry_date, 'Journal entries');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_journal_line_period_lock BEFORE INSERT OR UPDATE OR DELETE ON journal_entry_lines
+  FOR EACH ROW EXECUTE FUNCTION enforce_journal_line_period_lock();
+
+COMMENT ON TABLE period_locks IS 'Lock dates for each ledger; transactions on or before the effective lock date cannot be created, changed or deleted';
+COMMENT ON COLUMN period_locks.lock_date IS 'Overall lock: applies to everyone, advisers included';
+COMMENT ON COLUMN period_locks.adviser_lock_date IS 'Adviser-only lock: only advisers can change transactions on or before this date';
+COMMENT ON COLUMN journal_entries.reference_type IS 'invoice, payment, expense, refund, credit_note, bill, manual, or year_end_close for closing entries';
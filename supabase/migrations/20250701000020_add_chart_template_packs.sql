@@ -0,0 +1,110 @@
+-- Chart of accounts template packs
+-- Templates are grouped into packs that install a full chart with a parent/child hierarchy,
+-- and merged accounts keep their posted lines while reporting through the account they were merged into.
+
+ALTER TABLE account_templates
+ADD COLUMN IF NOT EXISTS template_pack VARCHAR(30),
+ADD COLUMN IF NOT EXISTS parent_account_number VARCHAR(10);
+
+-- The original NZ templates become the NZ company pack
+UPDATE account_templates SET template_pack = 'nz_company' WHERE template_pack IS NULL;
+UPDATE account_templates SET name = 'Share Capital', description = 'Shares issued to shareholders'
+  WHERE template_pack = 'nz_company' AND account_number = '3000';
+
+ALTER TABLE account_templates ALTER COLUMN template_pack SET NOT NULL;
+ALTER TABLE account_templates DROP CONSTRAINT IF EXISTS account_templates_account_number_country_code_key;
+ALTER TABLE account_templates ADD CONSTRAINT account_templates_pack_account_number_key UNIQUE (template_pack, account_number);
+
+INSERT INTO account_templates (template_pack, name, account_number, parent_account_number, account_class, account_type, normal_balance, description, is_system, country_code) VALUES
+('nz_company', 'Bank & Cash', '1100', NULL, 'Asset', 'bank', 'debit', 'Bank accounts and cash on hand', true, 'NZ'),
+('nz_company', 'Accumulated Depreciation - Equipment', '1505', '1500', 'Asset', 'fixed', 'credit', 'Depreciation written off equipment to date', true, 'NZ'),
+('nz_company', 'Accumulated Depreciation - Vehicles', '1515', '1510', 'Asset', 'fixed', 'credit', 'Depreciation written off vehicles to date', true, 'NZ'),
+('nz_company', 'Income Tax Payable', '2220', NULL, 'Liability', 'tax', 'credit', 'Company income tax owed to IRD', true, 'NZ'),
+('nz_company', 'Shareholder Current Account', '2500', NULL, 'Liability', 'loan', 'credit', 'Funds owed to or by shareholders', true, 'NZ'),
+('nz_company', 'Wages & Salaries', '6950', NULL, 'Expense', 'expense', 'debit', 'Employee wages and salaries', true, 'NZ'),
+('nz_company', 'KiwiSaver Employer Contributions', '6960', '6950', 'Expense', 'expense', 'debit', 'Employer KiwiSaver contributions', true, 'NZ');
+
+UPDATE account_templates SET parent_account_number = '1100'
+  WHERE template_pack = 'nz_company' AND account_number IN ('1110', '1115', '1120');
+
+INSERT INTO account_templates (template_pack, name, account_number, parent_account_number, account_class, account_type, normal_balance, description, is_system, country_code) VALUES
+('nz_sole_trader', 'Bank & Cash', '1100', NULL, 'Asset', 'bank', 'debit', 'Bank accounts and cash on hand', true, 'NZ'),
+('nz_sole_trader', 'Business Bank Account', '1110', '1100', 'Asset', 'bank', 'debit', 'Everyday business account', true, 'NZ'),
+('nz_sole_trader', 'Business Savings', '1115', '1100', 'Asset', 'bank', 'debit', 'Savings set aside for tax and GST', true, 'NZ'),
+('nz_sole_trader', 'Cash on Hand', '1120', '1100', 'Asset', 'cash', 'debit', 'Physical cash and petty cash', true, 'NZ'),
+('nz_sole_trader', 'Accounts Receivable', '1200', NULL, 'Asset', 'receivable', 'debit', 'Money owed by customers', true, 'NZ'),
+('nz_sole_trader', 'GST Paid on Purchases', '1300', NULL, 'Asset', 'tax', 'debit', 'GST paid on business purchases', true, 'NZ'),
+('nz_sole_trader', 'Tools & Equipment', '1500', NULL, 'Asset', 'fixed', 'debit', 'Tools and equipment used in the business', true, 'NZ'),
+('nz_sole_trader', 'Accumulated Depreciation - Equipment', '1505', '1500', 'Asset', 'fixed', 'credit', 'Depreciation written off equipment to date', true, 'NZ'),
+('nz_sole_trader', 'Vehicle', '1510', NULL, 'Asset', 'fixed', 'debit', 'Business share of vehicles', true, 'NZ'),
+('nz_sole_trader', 'Accumulated Depreciation - Vehicle', '1515', '1510', 'Asset', 'fixed', 'credit', 'Depreciation written off vehicles to date', true, 'NZ'),
+('nz_sole_trader', 'Accounts Payable', '2100', NULL, 'Liability', 'payable', 'credit', 'Money owed to suppliers', true, 'NZ'),
+('nz_sole_trader', 'GST Collected on Sales', '2200', NULL, 'Liability', 'tax', 'credit', 'GST collected from customers', true, 'NZ'),
+('nz_sole_trader', 'Provisional Tax Payable', '2230', NULL, 'Liability', 'tax', 'credit', 'Income tax owed to IRD', true, 'NZ'),
+('nz_sole_trader', 'Credit Card', '2300', NULL, 'Liability', 'credit_card', 'credit', 'Business credit card debt', true, 'NZ'),
+('nz_sole_trader', 'Owner''s Equity', '3000', NULL, 'Equity', 'equity', 'credit', 'The owner''s stake in the business', true, 'NZ'),
+('nz_sole_trader', 'Owner Funds Introduced', '3010', '3000', 'Equity', 'equity', 'credit', 'Money the owner has put into the business', true, 'NZ'),
+('nz_sole_trader', 'Owner Drawings', '3020', '3000', 'Equity', 'equity', 'debit', 'Money the owner has taken out of the business', true, 'NZ'),
+('nz_sole_trader', 'Retained Earnings', '3100', NULL, 'Equity', 'equity', 'credit', 'Profits from closed years', true, 'NZ'),
+('nz_sole_trader', 'Sales Revenue', '4000', NULL, 'Revenue', 'income', 'credit', 'Revenue from sales of goods/services', true, 'NZ'),
+('nz_sole_trader', 'Interest Income', '4200', NULL, 'Revenue', 'income', 'credit', 'Interest earned on business accounts', true, 'NZ'),
+('nz_sole_trader', 'Foreign Exchange Gains/Losses', '4300', NULL, 'Revenue', 'income', 'credit', 'Realised gains and losses on foreign currency settlements', true, 'NZ'),
+('nz_sole_trader', 'Other Income', '4900', NULL, 'Revenue', 'income', 'credit', 'Miscellaneous income', true, 'NZ'),
+('nz_sole_trader', 'Cost of Goods Sold', '5000', NULL, 'Expense', 'expense', 'debit', 'Direct costs of goods sold', true, 'NZ'),
+('nz_sole_trader', 'Home Office', '6000', NULL, 'Expense', 'expense', 'debit', 'Business share of rent, rates and power at home', true, 'NZ'),
+('nz_sole_trader', 'Insurance', '6200', NULL, 'Expense', 'expense', 'debit', 'Business insurance premiums', true, 'NZ'),
+('nz_sole_trader', 'Accounting Fees', '6300', NULL, 'Expense', 'expense', 'debit', 'Accountant and tax agent fees', true, 'NZ'),
+('nz_sole_trader', 'Advertising', '6400', NULL, 'Expense', 'expense', 'debit', 'Marketing and promotional costs', true, 'NZ'),
+('nz_sole_trader', 'Vehicle Expenses', '6500', NULL, 'Expense', 'expense', 'debit', 'Business share of fuel, servicing and registration', true, 'NZ'),
+('nz_sole_trader', 'Office Supplies', '6600', NULL, 'Expense', 'expense', 'debit', 'Stationery, printing, office materials', true, 'NZ'),
+('nz_sole_trader', 'Phone & Internet', '6700', NULL, 'Expense', 'expense', 'debit', 'Business share of phone and internet', true, 'NZ'),
+('nz_sole_trader', 'Bank Fees', '6800', NULL, 'Expense', 'expense', 'debit', 'Banking and financial service fees', true, 'NZ'),
+('nz_sole_trader', 'Depreciation', '6900', NULL, 'Expense', 'expense', 'debit', 'Depreciation of fixed assets', true, 'NZ');
+
+INSERT INTO account_templates (template_pack, name, account_number, parent_account_number, account_class, account_type, normal_balance, description, is_system, country_code) VALUES
+('au_small_business', 'Bank & Cash', '1100', NULL, 'Asset', 'bank', 'debit', 'Bank accounts and cash on hand', true, 'AU'),
+('au_small_business', 'Business Cheque Account', '1110', '1100', 'Asset', 'bank', 'debit', 'Everyday business account', true, 'AU'),
+('au_small_business', 'Business Savings Account', '1115', '1100', 'Asset', 'bank', 'debit', 'Savings set aside for tax and BAS', true, 'AU'),
+('au_small_business', 'Petty Cash', '1120', '1100', 'Asset', 'cash', 'debit', 'Physical cash and petty cash', true, 'AU'),
+('au_small_business', 'Trade Debtors', '1200', NULL, 'Asset', 'receivable', 'debit', 'Money owed by customers', true, 'AU'),
+('au_small_business', 'GST Paid', '1300', NULL, 'Asset', 'tax', 'debit', 'GST credits on business purchases', true, 'AU'),
+('au_small_business', 'Prepayments', '1400', NULL, 'Asset', 'prepaid', 'debit', 'Expenses paid in advance', true, 'AU'),
+('au_small_business', 'Plant & Equipment', '1500', NULL, 'Asset', 'fixed', 'debit', 'Plant, machinery and equipment', true, 'AU'),
+('au_small_business', 'Accumulated Depreciation - Plant & Equipment', '1505', '1500', 'Asset', 'fixed', 'credit', 'Depreciation written off plant and equipment to date', true, 'AU'),
+('au_small_business', 'Motor Vehicles', '1510', NULL, 'Asset', 'fixed', 'debit', 'Business motor vehicles', true, 'AU'),
+('au_small_business', 'Accumulated Depreciation - Motor Vehicles', '1515', '1510', 'Asset', 'fixed', 'credit', 'Depreciation written off motor vehicles to date', true, 'AU'),
+('au_small_business', 'Trade Creditors', '2100', NULL, 'Liability', 'payable', 'credit', 'Money owed to suppliers', true, 'AU'),
+('au_small_business', 'GST Collected', '2200', NULL, 'Liability', 'tax', 'credit', 'GST charged on sales', true, 'AU'),
+('au_small_business', 'PAYG Withholding Payable', '2210', NULL, 'Liability', 'tax', 'credit', 'PAYG withheld from wages and owed to the ATO', true, 'AU'),
+('au_small_business', 'Superannuation Payable', '2220', NULL, 'Liability', 'payable', 'credit', 'Super guarantee owed to employee funds', true, 'AU'),
+('au_small_business', 'Credit Card', '2300', NULL, 'Liability', 'credit_card', 'credit', 'Business credit card debt', true, 'AU'),
+('au_small_business', 'Business Loan', '2400', NULL, 'Liability', 'loan', 'credit', 'Business bank loans', true, 'AU'),
+('au_small_business', 'Owner''s Capital', '3000', NULL, 'Equity', 'equity', 'credit', 'Owner investment in the business', true, 'AU'),
+('au_small_business', 'Owner''s Drawings', '3010', '3000', 'Equity', 'equity', 'debit', 'Money the owner has taken out of the business', true, 'AU'),
+('au_small_business', 'Retained Earnings', '3100', NULL, 'Equity', 'equity', 'credit', 'Profits from closed years', true, 'AU'),
+('au_small_business', 'Sales', '4000', NULL, 'Revenue', 'income', 'credit', 'Revenue from sales of goods', true, 'AU'),
+('au_small_business', 'Service Revenue', '4100', NULL, 'Revenue', 'income', 'credit', 'Revenue from services provided', true, 'AU'),
+('au_small_business', 'Interest Income', '4200', NULL, 'Revenue', 'income', 'credit', 'Interest earned on business accounts', true, 'AU'),
+('au_small_business', 'Foreign Exchange Gains/Losses', '4300', NULL, 'Revenue', 'income', 'credit', 'Realised gains and losses on foreign currency settlements', true, 'AU'),
+('au_small_business', 'Other Income', '4900', NULL, 'Revenue', 'income', 'credit', 'Miscellaneous income', true, 'AU'),
+('au_small_business', 'Cost of Goods Sold', '5000', NULL, 'Expense', 'expense', 'debit', 'Direct costs of goods sold', true, 'AU'),
+('au_small_business', 'Rent', '6000', NULL, 'Expense', 'expense', 'debit', 'Office and warehouse rent', true, 'AU'),
+('au_small_business', 'Electricity & Gas', '6100', NULL, 'Expense', 'expense', 'debit', 'Power and gas', true, 'AU'),
+('au_small_business', 'Insurance', '6200', NULL, 'Expense', 'expense', 'debit', 'Business insurance premiums', true, 'AU'),
+('au_small_business', 'Accounting & Legal', '6300', NULL, 'Expense', 'expense', 'debit', 'Accountant, BAS agent and legal fees', true, 'AU'),
+('au_small_business', 'Advertising', '6400', NULL, 'Expense', 'expense', 'debit', 'Marketing and promotional costs', true, 'AU'),
+('au_small_business', 'Travel', '6500', NULL, 'Expense', 'expense', 'debit', 'Business travel', true, 'AU'),
+('au_small_business', 'Office Supplies', '6600', NULL, 'Expense', 'expense', 'debit', 'Stationery, printing, office materials', true, 'AU'),
+('au_small_business', 'Telephone & Internet', '6700', NULL, 'Expense', 'expense', 'debit', 'Phone and internet', true, 'AU'),
+('au_small_business', 'Bank Fees', '6800', NULL, 'Expense', 'expense', 'debit', 'Banking and merchant fees', true, 'AU'),
+('au_small_business', 'Depreciation', '6900', NULL, 'Expense', 'expense', 'debit', 'Depreciation of fixed assets', true, 'AU'),
+('au_small_business', 'Wages & Salaries', '6950', NULL, 'Expense', 'expense', 'debit', 'Employee wages and salaries', true, 'AU'),
+('au_small_business', 'Superannuation', '6960', '6950', 'Expense', 'expense', 'debit', 'Super guarantee contributions', true, 'AU');
+
+-- Merged accounts stay in place with their posted lines and report through the surviving account
+ALTER TABLE accounts
+ADD COLUMN IF NOT EXISTS merged_into_account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN account_templates.template_pack IS 'Pack the template belongs to: nz_sole_trader, nz_company or au_small_business';
+COMMENT ON COLUMN account_templates.parent_account_number IS 'Account number of the parent within the same pack';
+COMMENT ON COLUMN accounts.merged_into_account_id IS 'Account this one was merged into; its posted lines report under that account';
@@ -0,0 +1,31 @@
+-- Budgets
+-- Monthly budget amounts per chart account (revenue and expense lines) or per expense category.
+-- Actuals come from posted journal lines, the same ledger the financial statements are built from.
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  expense_category_id UUID REFERENCES expense_categories(id) ON DELETE CASCADE,
+  period_month DATE NOT NULL CHECK (EXTRACT(DAY FROM period_month) = 1),
+  amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((account_id IS NULL) <> (expense_category_id IS NULL)),
+  UNIQUE NULLS NOT DISTINCT (user_id, account_id, expense_category_id, period_month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user_period ON budgets(user_id, period_month);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own budgets" ON budgets
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_budgets_updated_at BEFORE UPDATE ON budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE budgets IS 'Monthly budget amounts for a chart account or an expense category';
+COMMENT ON COLUMN budgets.account_id IS 'Budgeted account; its sub-accounts count towards it. Set this or expense_category_id';
+COMMENT ON COLUMN budgets.expense_category_id IS 'Budgeted expense category, measured from the posted expenses in that category';
+COMMENT ON COLUMN budgets.period_month IS 'First day of the budgeted month';
@@ -0,0 +1,14 @@
+-- Journal entry numbering
+-- Entry numbers are compared as text by ORDER BY, so JE-2025-999 sorts above JE-2025-1000. The next number
+-- comes from the highest numeric suffix instead.
+
+CREATE OR REPLACE FUNCTION last_journal_entry_sequence(p_user_id UUID, p_prefix TEXT)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(MAX(substring(entry_number FROM length(p_prefix) + 1)::INTEGER), 0)
+  FROM journal_entries
+  WHERE user_id = p_user_id
+  AND starts_with(entry_number, p_prefix)
+  AND substring(entry_number FROM length(p_prefix) + 1) ~ '^[0-9]+$';
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION last_journal_entry_sequence(UUID, TEXT) IS 'Highest numeric suffix among the user''s journal entry numbers with this prefix, or 0';
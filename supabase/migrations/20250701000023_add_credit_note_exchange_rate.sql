@@ -0,0 +1,14 @@
+-- Credit note exchange rates
+-- A credit note reverses its invoice at the rate locked on that invoice, so its ledger entry and GST
+-- adjustment are valued in the base currency at the same rate as the original sale.
+
+ALTER TABLE credit_notes
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,8) DEFAULT 1 CHECK (exchange_rate > 0);
+
+UPDATE credit_notes
+SET exchange_rate = invoices.exchange_rate
+FROM invoices
+WHERE invoices.id = credit_notes.invoice_id
+AND invoices.exchange_rate IS NOT NULL;
+
+COMMENT ON COLUMN credit_notes.exchange_rate IS 'Base currency units per one unit of currency, copied from the credited invoice';
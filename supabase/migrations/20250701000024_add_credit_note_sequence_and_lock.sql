@@ -0,0 +1,26 @@
+-- Credit note numbering and period locks
+-- Credit note numbers are compared as text by ORDER BY, so CN-9999 sorts above CN-10000. The next number
+-- comes from the highest numeric suffix instead. New credit notes can't be dated inside a locked period.
+
+CREATE OR REPLACE FUNCTION last_credit_note_sequence(p_user_id UUID, p_prefix TEXT)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(MAX(substring(credit_note_number FROM length(p_prefix) + 1)::INTEGER), 0)
+  FROM credit_notes
+  WHERE user_id = p_user_id
+  AND starts_with(credit_note_number, p_prefix)
+  AND substring(credit_note_number FROM length(p_prefix) + 1) ~ '^[0-9]+$';
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION last_credit_note_sequence(UUID, TEXT) IS 'Highest numeric suffix among the user''s credit note numbers with this prefix, or 0';
+
+-- Applying and voiding update the credit note later, so only new credit notes are checked
+CREATE OR REPLACE FUNCTION enforce_credit_note_period_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM assert_period_open(NEW.user_id, NEW.date, 'Credit notes');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_credit_note_period_lock BEFORE INSERT ON credit_notes
+  FOR EACH ROW EXECUTE FUNCTION enforce_credit_note_period_lock();
@@ -0,0 +1,25 @@
+-- Customer credits account
+-- Overpayments held as customer credit are owed back to the customer, so they post to a liability account
+-- rather than reducing receivables.
+
+INSERT INTO account_templates (template_pack, name, account_number, parent_account_number, account_class, account_type, normal_balance, description, is_system, country_code) VALUES
+('nz_company', 'Customer Credits', '2150', NULL, 'Liability', 'payable', 'credit', 'Overpayments held for customers until applied or refunded', true, 'NZ'),
+('nz_sole_trader', 'Customer Credits', '2150', NULL, 'Liability', 'payable', 'credit', 'Overpayments held for customers until applied or refunded', true, 'NZ'),
+('au_small_business', 'Customer Credits', '2150', NULL, 'Liability', 'payable', 'credit', 'Overpayments held for customers until applied or refunded', true, 'AU')
+ON CONFLICT (template_pack, account_number) DO NOTHING;
+
+-- Add the account to charts of accounts that have already been set up
+INSERT INTO accounts (user_id, name, type, account_number, account_class, normal_balance, description, currency, opening_balance, current_balance)
+SELECT a.user_id, 'Customer Credits', 'custom', '2150', 'Liability', 'credit',
+  'Overpayments held for customers until applied or refunded', COALESCE(bp.base_currency, 'NZD'), 0, 0
+FROM accounts a
+LEFT JOIN business_profiles bp ON bp.user_id = a.user_id
+WHERE a.account_number = '1200'
+AND NOT EXISTS (
+  SELECT 1 FROM accounts existing
+  WHERE existing.user_id = a.user_id AND existing.account_number = '2150'
+);
+
+ALTER TABLE posting_account_mappings DROP CONSTRAINT IF EXISTS posting_account_mappings_posting_role_check;
+ALTER TABLE posting_account_mappings ADD CONSTRAINT posting_account_mappings_posting_role_check
+  CHECK (posting_role IN ('receivables', 'customer_credits', 'sales', 'gst_output', 'bank', 'cash', 'expense', 'gst_input'));
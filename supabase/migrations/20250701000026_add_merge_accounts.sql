@@ -0,0 +1,54 @@
+-- Account merging
+-- Moving sub-accounts and posting mappings to the target and retiring the source happen in one transaction,
+-- so a failure part way through can't leave the chart half merged.
+
+CREATE OR REPLACE FUNCTION merge_accounts(p_source_id UUID, p_target_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_source accounts%ROWTYPE;
+  v_target accounts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_source FROM accounts WHERE id = p_source_id AND user_id = auth.uid() FOR UPDATE;
+  SELECT * INTO v_target FROM accounts WHERE id = p_target_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+  IF v_source.id = v_target.id THEN
+    RAISE EXCEPTION 'Choose a different account to merge into';
+  END IF;
+  IF v_source.merged_into_account_id IS NOT NULL THEN
+    RAISE EXCEPTION '% has already been merged', v_source.name;
+  END IF;
+  IF NOT COALESCE(v_target.is_active, true) OR v_target.merged_into_account_id IS NOT NULL THEN
+    RAISE EXCEPTION '% is inactive; reactivate it before merging into it', v_target.name;
+  END IF;
+  IF v_source.account_class IS DISTINCT FROM v_target.account_class
+    AND v_source.account_class IS NOT NULL AND v_target.account_class IS NOT NULL THEN
+    RAISE EXCEPTION 'Only accounts of the same class can be merged (% into %)', v_source.account_class, v_target.account_class;
+  END IF;
+
+  -- Moving the source's sub-accounts under one of its own descendants would create a cycle
+  IF EXISTS (
+    WITH RECURSIVE ancestors(id, parent_account_id) AS (
+      SELECT id, parent_account_id FROM accounts WHERE id = v_target.parent_account_id
+      UNION
+      SELECT a.id, a.parent_account_id FROM accounts a JOIN ancestors ON a.id = ancestors.parent_account_id
+    )
+    SELECT 1 FROM ancestors WHERE id = v_source.id
+  ) THEN
+    RAISE EXCEPTION 'Move % out from under % before merging into it', v_target.name, v_source.name;
+  END IF;
+
+  UPDATE accounts SET parent_account_id = v_target.id
+  WHERE user_id = v_source.user_id AND parent_account_id = v_source.id;
+
+  UPDATE posting_account_mappings SET account_id = v_target.id
+  WHERE user_id = v_source.user_id AND account_id = v_source.id;
+
+  UPDATE accounts SET is_active = false, merged_into_account_id = v_target.id
+  WHERE id = v_source.id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_accounts(UUID, UUID) IS 'Merge one of the current user''s accounts into another: sub-accounts and posting mappings move to the target and the source is retired';
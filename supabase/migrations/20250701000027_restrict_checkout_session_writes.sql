@@ -0,0 +1,35 @@
+-- Read-only checkout sessions
+-- Sessions are created and completed by the payment-gateway edge function with the service role, so owners
+-- only read them. The one write left to the app, linking the payment it recorded for a session the webhook
+-- couldn't settle, goes through link_checkout_payment.
+
+DROP POLICY IF EXISTS "Users can manage their own checkout sessions" ON payment_checkout_sessions;
+
+CREATE POLICY "Users can view their own checkout sessions" ON payment_checkout_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Only a completed, unlinked session can be linked, and only to the owner's payment for the same invoice
+CREATE OR REPLACE FUNCTION link_checkout_payment(p_gateway TEXT, p_external_id TEXT, p_payment_id UUID)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE payment_checkout_sessions s
+  SET payment_id = p.id
+  FROM payments p
+  WHERE s.gateway = p_gateway
+  AND s.external_id = p_external_id
+  AND s.user_id = auth.uid()
+  AND s.status = 'completed'
+  AND s.payment_id IS NULL
+  AND p.id = p_payment_id
+  AND p.user_id = s.user_id
+  AND p.invoice_id = s.invoice_id;
+END;
+$$;
+
+COMMENT ON FUNCTION link_checkout_payment(TEXT, TEXT, UUID) IS 'Link the payment the app recorded for a completed checkout the webhook did not settle';
+
+GRANT EXECUTE ON FUNCTION link_checkout_payment(TEXT, TEXT, UUID) TO authenticated;
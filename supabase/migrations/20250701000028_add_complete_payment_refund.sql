@@ -0,0 +1,96 @@
+-- Refund completion
+-- A refund is saved as pending before an online payment goes back to the card, so a gateway refund is never
+-- left without a record. Once the money has gone back, the refund, the payment's running total, the batch
+-- payment unwind and the journal entry are written in one transaction by complete_payment_refund.
+
+ALTER TABLE payment_refunds
+ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed')),
+ADD COLUMN IF NOT EXISTS gateway_refund_id TEXT;
+
+CREATE OR REPLACE FUNCTION complete_payment_refund(
+  p_refund_id UUID,
+  p_from_credit NUMERIC,
+  p_allocation_reductions JSONB,
+  p_entry_number TEXT,
+  p_journal_amount NUMERIC,
+  p_journal_description TEXT,
+  p_journal_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_refund payment_refunds%ROWTYPE;
+  v_payment payments%ROWTYPE;
+  v_credit customer_credits%ROWTYPE;
+  v_allocation payment_allocations%ROWTYPE;
+  v_reduction RECORD;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_refund FROM payment_refunds
+  WHERE id = p_refund_id AND user_id = auth.uid() AND status = 'pending'
+  FOR UPDATE;
+  IF v_refund.id IS NULL THEN
+    RAISE EXCEPTION 'Refund not found or already completed';
+  END IF;
+
+  -- Locking the payment stops two refunds completing against the same balance
+  SELECT * INTO v_payment FROM payments WHERE id = v_refund.payment_id FOR UPDATE;
+  IF v_payment.amount_refunded + v_refund.amount > v_payment.amount THEN
+    RAISE EXCEPTION 'Refund amount exceeds the % left on this payment', v_payment.amount - v_payment.amount_refunded;
+  END IF;
+
+  UPDATE payments
+  SET amount_refunded = amount_refunded + v_refund.amount,
+      status = CASE WHEN amount_refunded + v_refund.amount >= amount THEN 'refunded' ELSE status END
+  WHERE id = v_payment.id;
+
+  -- Batch payments give back unapplied credit first, then the allocations the plan reduces
+  IF p_from_credit > 0 THEN
+    SELECT * INTO v_credit FROM customer_credits WHERE payment_id = v_payment.id FOR UPDATE;
+    IF v_credit.id IS NULL OR v_credit.amount - v_credit.amount_applied < p_from_credit THEN
+      RAISE EXCEPTION 'Refund is more than is left on this payment';
+    END IF;
+
+    IF v_credit.amount - p_from_credit > 0 THEN
+      UPDATE customer_credits SET amount = amount - p_from_credit WHERE id = v_credit.id;
+    ELSE
+      DELETE FROM customer_credits WHERE id = v_credit.id;
+    END IF;
+  END IF;
+
+  FOR v_reduction IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_allocation_reductions, '[]'::JSONB)) AS r(invoice_id UUID, amount NUMERIC)
+  LOOP
+    SELECT * INTO v_allocation FROM payment_allocations
+    WHERE payment_id = v_payment.id AND invoice_id = v_reduction.invoice_id
+    FOR UPDATE;
+    IF v_allocation.id IS NULL OR v_allocation.amount < v_reduction.amount THEN
+      RAISE EXCEPTION 'Refund is more than is left on this payment';
+    END IF;
+
+    IF v_allocation.amount - v_reduction.amount > 0 THEN
+      UPDATE payment_allocations SET amount = amount - v_reduction.amount WHERE id = v_allocation.id;
+    ELSE
+      DELETE FROM payment_allocations WHERE id = v_allocation.id;
+    END IF;
+  END LOOP;
+
+  -- No lines means the chart of accounts is incomplete and the refund isn't posted
+  IF p_journal_lines IS NOT NULL THEN
+    INSERT INTO journal_entries (user_id, entry_number, entry_date, description, reference_type, reference_id, total_amount, status)
+    VALUES (v_refund.user_id, p_entry_number, v_refund.refund_date, p_journal_description, 'refund', v_refund.id, p_journal_amount, 'posted')
+    RETURNING id INTO v_entry_id;
+
+    INSERT INTO journal_entry_lines (journal_entry_id, account_id, description, debit_amount, credit_amount, line_order)
+    SELECT v_entry_id, l.account_id, l.description, l.debit_amount, l.credit_amount, l.line_order
+    FROM jsonb_to_recordset(p_journal_lines) AS l(account_id UUID, description TEXT, debit_amount NUMERIC, credit_amount NUMERIC, line_order INTEGER);
+  END IF;
+
+  UPDATE payment_refunds SET status = 'completed', journal_entry_id = v_entry_id WHERE id = v_refund.id;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN payment_refunds.status IS 'pending while an online refund is with the gateway, completed once recorded, failed if the gateway declined it';
+COMMENT ON COLUMN payment_refunds.gateway_refund_id IS 'Refund id at the payment gateway';
+COMMENT ON FUNCTION complete_payment_refund(UUID, NUMERIC, JSONB, TEXT, NUMERIC, TEXT, JSONB) IS 'Record a pending refund against its payment, unwind batch allocations and post the refund journal entry in one transaction';
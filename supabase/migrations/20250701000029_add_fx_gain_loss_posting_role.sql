@@ -0,0 +1,7 @@
+-- Foreign exchange posting role
+-- Realised FX gains and losses post to a mapped account like the other automatic postings, falling back to
+-- 4300 Foreign Exchange Gains/Losses from the template.
+
+ALTER TABLE posting_account_mappings DROP CONSTRAINT IF EXISTS posting_account_mappings_posting_role_check;
+ALTER TABLE posting_account_mappings ADD CONSTRAINT posting_account_mappings_posting_role_check
+  CHECK (posting_role IN ('receivables', 'customer_credits', 'sales', 'gst_output', 'bank', 'cash', 'expense', 'gst_input', 'fx_gain_loss'));
@@ -0,0 +1,30 @@
+-- Journal entry number counters
+-- Reading the highest number and then inserting the next one let two postings made at the same moment take the
+-- same number. The next number now comes from a per-user counter row that the upsert locks and increments, so
+-- each caller gets its own. The UNIQUE (user_id, entry_number) constraint on journal_entries stays as the backstop.
+
+CREATE TABLE IF NOT EXISTS document_number_counters (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_type VARCHAR(30) NOT NULL CHECK (document_type IN ('journal_entry', 'credit_note')),
+  prefix TEXT NOT NULL, -- e.g. JE-2025-
+  last_value INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, document_type, prefix)
+);
+
+ALTER TABLE document_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own document number counters" ON document_number_counters
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Starts from the highest number already used, and never hands out one at or below it
+CREATE OR REPLACE FUNCTION next_journal_entry_sequence(p_user_id UUID, p_prefix TEXT)
+RETURNS INTEGER AS $$
+  INSERT INTO document_number_counters (user_id, document_type, prefix, last_value)
+  VALUES (p_user_id, 'journal_entry', p_prefix, last_journal_entry_sequence(p_user_id, p_prefix) + 1)
+  ON CONFLICT (user_id, document_type, prefix) DO UPDATE
+  SET last_value = GREATEST(document_number_counters.last_value + 1, EXCLUDED.last_value)
+  RETURNING last_value;
+$$ LANGUAGE sql;
+
+COMMENT ON TABLE document_number_counters IS 'Last number handed out per user, document type and prefix';
+COMMENT ON FUNCTION next_journal_entry_sequence(UUID, TEXT) IS 'Reserve the user''s next journal entry number suffix for this prefix';
@@ -0,0 +1,15 @@
+-- Credit note number counter
+-- Credit notes take their next number from the same per-user counters as journal entries, so two raised at the
+-- same moment can't both read the highest number and take the next. UNIQUE (user_id, credit_note_number) on
+-- credit_notes stays as the backstop.
+
+CREATE OR REPLACE FUNCTION next_credit_note_sequence(p_user_id UUID, p_prefix TEXT)
+RETURNS INTEGER AS $$
+  INSERT INTO document_number_counters (user_id, document_type, prefix, last_value)
+  VALUES (p_user_id, 'credit_note', p_prefix, last_credit_note_sequence(p_user_id, p_prefix) + 1)
+  ON CONFLICT (user_id, document_type, prefix) DO UPDATE
+  SET last_value = GREATEST(document_number_counters.last_value + 1, EXCLUDED.last_value)
+  RETURNING last_value;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION next_credit_note_sequence(UUID, TEXT) IS 'Reserve the user''s next credit note number suffix for this prefix';
@@ -0,0 +1,112 @@
+-- Share link passcode lockout
+-- Wrong passcodes are counted per link. Every fifth wrong attempt in a row locks the link for 15 minutes, doubling
+-- with each further lockout up to a day, so a passcode can't be guessed by trying them all. A correct passcode or a
+-- new passcode clears the count. New passcodes must be at least 8 characters.
+
+ALTER TABLE shared_invoices
+ADD COLUMN IF NOT EXISTS failed_passcode_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS passcode_locked_until TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION set_shared_invoice_passcode(share_id UUID, passcode TEXT)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF passcode IS NOT NULL AND passcode <> '' AND length(passcode) < 8 THEN
+        RAISE EXCEPTION 'Passcode must be at least 8 characters';
+    END IF;
+
+    UPDATE shared_invoices
+    SET passcode_hash = CASE
+        WHEN passcode IS NULL OR passcode = '' THEN NULL
+        ELSE crypt(passcode, gen_salt('bf'))
+    END,
+        failed_passcode_attempts = 0,
+        passcode_locked_until = NULL
+    WHERE id = share_id
+    AND created_by = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Share link not found';
+    END IF;
+END;
+$$;
+
+-- Same as before, with wrong passcodes counted and the link locked after repeated failures
+CREATE OR REPLACE FUNCTION view_shared_invoice(token UUID, passcode TEXT DEFAULT NULL, viewer_agent TEXT DEFAULT NULL)
+RETURNS TABLE (
+    status TEXT,
+    invoice_data JSONB,
+    template_data JSONB
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    link shared_invoices%ROWTYPE;
+BEGIN
+    -- Locked so simultaneous guesses are each counted
+    SELECT * INTO link FROM shared_invoices si WHERE si.share_token = token FOR UPDATE;
+
+    IF NOT FOUND OR NOT link.is_active OR (link.expires_at IS NOT NULL AND link.expires_at <= NOW()) THEN
+        RETURN QUERY SELECT 'unavailable'::TEXT, NULL::JSONB, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF link.passcode_hash IS NOT NULL THEN
+        IF link.passcode_locked_until IS NOT NULL AND link.passcode_locked_until > NOW() THEN
+            RETURN QUERY SELECT 'passcode_locked'::TEXT, NULL::JSONB, NULL::JSONB;
+            RETURN;
+        END IF;
+        IF passcode IS NULL OR passcode = '' THEN
+            RETURN QUERY SELECT 'passcode_required'::TEXT, NULL::JSONB, NULL::JSONB;
+            RETURN;
+        END IF;
+        IF crypt(passcode, link.passcode_hash) <> link.passcode_hash THEN
+            UPDATE shared_invoices
+            SET failed_passcode_attempts = failed_passcode_attempts + 1,
+                passcode_locked_until = CASE
+                    WHEN (failed_passcode_attempts + 1) % 5 = 0
+                    THEN NOW() + LEAST(INTERVAL '15 minutes' * power(2, (failed_passcode_attempts + 1) / 5 - 1), INTERVAL '1 day')
+                    ELSE passcode_locked_until
+                END
+            WHERE id = link.id;
+
+            RETURN QUERY SELECT
+                CASE WHEN (link.failed_passcode_attempts + 1) % 5 = 0 THEN 'passcode_locked' ELSE 'invalid_passcode' END::TEXT,
+                NULL::JSONB,
+                NULL::JSONB;
+            RETURN;
+        END IF;
+    END IF;
+
+    INSERT INTO shared_invoice_views (shared_invoice_id, user_agent)
+    VALUES (link.id, LEFT(viewer_agent, 500));
+
+    UPDATE shared_invoices
+    SET access_count = access_count + 1,
+        last_viewed_at = NOW(),
+        failed_passcode_attempts = 0,
+        passcode_locked_until = NULL
+    WHERE id = link.id;
+
+    INSERT INTO audit_logs (user_id, entity_type, entity_id, entity_label, action, new_data, user_agent)
+    VALUES (
+        link.created_by,
+        'invoice',
+        link.original_invoice_id,
+        link.invoice_data->>'invoiceNumber',
+        'view',
+        jsonb_build_object('share_token', link.share_token),
+        LEFT(viewer_agent, 500)
+    );
+
+    RETURN QUERY SELECT 'ok'::TEXT, link.invoice_data, link.template_data;
+END;
+$$;
+
+COMMENT ON COLUMN shared_invoices.failed_passcode_attempts IS 'Wrong passcodes entered since the last correct one';
+COMMENT ON COLUMN shared_invoices.passcode_locked_until IS 'Passcode entry is refused until then after repeated wrong attempts';
@@ -0,0 +1,52 @@
+-- Credit note application
+-- Recording the application, the credit note's applied amount and the invoice's credited total happen in one
+-- transaction, with both rows locked, so a failure part way through or two applications at once can't apply
+-- more credit than the note holds or the invoice owes.
+
+CREATE OR REPLACE FUNCTION apply_credit_note(p_credit_note_id UUID, p_invoice_id UUID, p_amount NUMERIC, p_applied_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_credit_note credit_notes%ROWTYPE;
+  v_invoice invoices%ROWTYPE;
+  v_remaining_credit NUMERIC;
+  v_balance_due NUMERIC;
+BEGIN
+  SELECT * INTO v_credit_note FROM credit_notes WHERE id = p_credit_note_id AND user_id = auth.uid() FOR UPDATE;
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF v_credit_note.id IS NULL THEN
+    RAISE EXCEPTION 'Credit note not found';
+  END IF;
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+  IF v_credit_note.status <> 'issued' THEN
+    RAISE EXCEPTION 'Only issued credit notes can be applied';
+  END IF;
+  IF v_invoice.customer_id IS DISTINCT FROM v_credit_note.customer_id THEN
+    RAISE EXCEPTION 'Credit can only be applied to invoices for the same customer';
+  END IF;
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount to apply must be greater than zero';
+  END IF;
+
+  v_remaining_credit := v_credit_note.total - COALESCE(v_credit_note.amount_applied, 0);
+  IF p_amount > v_remaining_credit THEN
+    RAISE EXCEPTION 'Amount exceeds the remaining credit of %', to_char(v_remaining_credit, 'FM999999990.00');
+  END IF;
+
+  v_balance_due := GREATEST(0, v_invoice.total - COALESCE(v_invoice.total_paid, 0) - COALESCE(v_invoice.total_credited, 0));
+  IF p_amount > v_balance_due THEN
+    RAISE EXCEPTION 'Amount exceeds the invoice balance of %', to_char(v_balance_due, 'FM999999990.00');
+  END IF;
+
+  INSERT INTO credit_note_applications (user_id, credit_note_id, invoice_id, amount, applied_date)
+  VALUES (v_credit_note.user_id, v_credit_note.id, v_invoice.id, p_amount, p_applied_date);
+
+  UPDATE credit_notes SET amount_applied = COALESCE(amount_applied, 0) + p_amount WHERE id = v_credit_note.id;
+
+  UPDATE invoices SET total_credited = COALESCE(total_credited, 0) + p_amount WHERE id = v_invoice.id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_credit_note(UUID, UUID, NUMERIC, DATE) IS 'Apply part of one of the current user''s credit notes to an invoice for the same customer';
@@ -0,0 +1,25 @@
+-- Single period lock
+-- The adviser lock relied on an adviser role in the signed-in user's own app_metadata, but period locks and
+-- the ledger are only ever reached by their owner, so no separate adviser could act on them. Fold the two
+-- lock dates into one that binds every change to the ledger and that the owner moves from settings.
+
+DROP TRIGGER IF EXISTS check_period_lock_change ON period_locks;
+DROP FUNCTION IF EXISTS check_period_lock_change();
+
+UPDATE period_locks
+SET lock_date = GREATEST(lock_date, adviser_lock_date)
+WHERE adviser_lock_date IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION effective_lock_date(p_user_id UUID)
+RETURNS DATE AS $$
+  SELECT lock_date
+  FROM period_locks
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS is_adviser();
+
+ALTER TABLE period_locks DROP COLUMN IF EXISTS adviser_lock_date;
+
+COMMENT ON COLUMN period_locks.lock_date IS 'Transactions dated on or before this date can''t be created, changed or deleted';
+COMMENT ON FUNCTION effective_lock_date(UUID) IS 'Latest locked date for a ledger, or NULL when nothing is locked';